@@ -1,13 +1,15 @@
 /**
  * @file prismaClient.ts
- * @version 2.4.0
+ * @version 2.5.0
  * @description
  * Cliente Prisma com singleton seguro, logs completos e recuperação de erros.
  * Corrige o bug "$use is not a function" em ambientes com hot reload (Node 22 + tsx).
+ * Campos monetários (Decimal no banco) são expostos como number com 2 casas.
  * @since 2025-10-22
  */
 
 import { PrismaClient, Prisma } from '@prisma/client';
+import { toMoney, toMoneyOrNull } from '../src/utils/money';
 
 /* ============================================================
    LOG HELPER
@@ -51,7 +53,7 @@ declare global {
   var prismaGlobal: PrismaClient | undefined;
 }
 
-let prisma: PrismaClient;
+let basePrisma: PrismaClient;
 
 /**
  * Função principal que garante que a instância é válida.
@@ -73,8 +75,86 @@ const initializeClient = (): PrismaClient => {
   }
 };
 
+// Gera a instância base
+basePrisma = initializeClient();
+
+/* ============================================================
+   CAMPOS MONETÁRIOS
+   ============================================================ */
+
+// Decimal → number arredondado em centavos (obrigatórios e opcionais)
+const money = <K extends string>(field: K) => ({
+  needs: { [field]: true } as { [P in K]: true },
+  compute: (row: Record<K, Prisma.Decimal>) => toMoney(row[field]),
+});
+
+const optionalMoney = <K extends string>(field: K) => ({
+  needs: { [field]: true } as { [P in K]: true },
+  compute: (row: Record<K, Prisma.Decimal | null>) => toMoneyOrNull(row[field]),
+});
+
+/**
+ * Aplica a conversão dos campos Decimal para number em todas as consultas.
+ * Agregações (_sum) e $queryRaw continuam retornando Decimal: use toMoney().
+ */
+const withMoneyFields = (client: PrismaClient) =>
+  client.$extends({
+    result: {
+      campaign: {
+        budgetTotal: optionalMoney('budgetTotal'),
+        budgetPerSeller: optionalMoney('budgetPerSeller'),
+      },
+      campaignBudgetHold: { totalAmount: money('totalAmount') },
+      earning: {
+        amount: money('amount'),
+        withheldAmount: optionalMoney('withheldAmount'),
+        netAmount: optionalMoney('netAmount'),
+      },
+      earningLedgerEntry: { amount: money('amount') },
+      earningPayment: {
+        totalAmount: money('totalAmount'),
+        withheldAmount: money('withheldAmount'),
+        netAmount: optionalMoney('netAmount'),
+      },
+      payoutBatch: { totalAmount: money('totalAmount') },
+      payoutBatchItem: {
+        amount: money('amount'),
+        grossAmount: optionalMoney('grossAmount'),
+        withheldAmount: money('withheldAmount'),
+      },
+      withholdingRule: {
+        minimumBase: money('minimumBase'),
+        maximumAmount: optionalMoney('maximumAmount'),
+      },
+      validationJob: { pointsDistributed: money('pointsDistributed') },
+    },
+  });
+
+type ExtendedPrismaClient = ReturnType<typeof withMoneyFields>;
+
+/**
+ * Tipo do modelo como retornado pelo cliente (campos Decimal já convertidos para number).
+ * Ex.: WithMoneyFields<Earning>.
+ */
+export type WithMoneyFields<T> = {
+  [K in keyof T]: T[K] extends Prisma.Decimal
+    ? number
+    : T[K] extends Prisma.Decimal | null
+      ? number | null
+      : T[K];
+};
+
 // Gera a instância final
-prisma = initializeClient();
+let prisma: ExtendedPrismaClient = withMoneyFields(basePrisma);
+
+/**
+ * Substitui o cliente base (recuperação de falhas) mantendo a extensão monetária.
+ */
+const replaceClient = (fresh: PrismaClient) => {
+  basePrisma = fresh;
+  prisma = withMoneyFields(fresh);
+  if (process.env.NODE_ENV !== 'production') globalThis.prismaGlobal = fresh;
+};
 
 /* ============================================================
    TESTE DE SAÚDE IMEDIATO
@@ -85,8 +165,7 @@ prisma = initializeClient();
     log.info('Instância do Prisma verificada com sucesso.');
   } catch (err) {
     log.warn('Prisma não respondeu ao teste inicial. Tentando novo cliente...');
-    prisma = createPrismaClient();
-    if (process.env.NODE_ENV !== 'production') globalThis.prismaGlobal = prisma;
+    replaceClient(createPrismaClient());
   }
 })();
 
@@ -96,8 +175,7 @@ prisma = initializeClient();
 const registerMiddlewares = (client: PrismaClient) => {
   if (typeof client.$use !== 'function') {
     log.warn('Método $use ausente; recriando cliente...');
-    prisma = createPrismaClient();
-    if (process.env.NODE_ENV !== 'production') globalThis.prismaGlobal = prisma;
+    replaceClient(createPrismaClient());
   }
 
   // Middleware de performance
@@ -126,7 +204,7 @@ const registerMiddlewares = (client: PrismaClient) => {
   });
 };
 
-registerMiddlewares(prisma);
+registerMiddlewares(basePrisma);
 
 /* ============================================================
    EVENTOS E DIAGNÓSTICOS
@@ -134,8 +212,7 @@ registerMiddlewares(prisma);
 const registerEventListeners = (client: PrismaClient) => {
   if (typeof client.$on !== 'function') {
     log.warn('Método $on ausente; recriando cliente...');
-    prisma = createPrismaClient();
-    if (process.env.NODE_ENV !== 'production') globalThis.prismaGlobal = prisma;
+    replaceClient(createPrismaClient());
   }
 
   if (process.env.NODE_ENV === 'development') {
@@ -151,7 +228,7 @@ const registerEventListeners = (client: PrismaClient) => {
   client.$on('error', (e: Prisma.LogEvent) => log.error(e.message));
 };
 
-registerEventListeners(prisma);
+registerEventListeners(basePrisma);
 
 /* ============================================================
    CONEXÃO E DESCONECTORES
@@ -278,6 +355,6 @@ export { prisma, connectPrisma, disconnectPrisma, healthCheck, getStats };
 
 // Tipo auxiliar para transações
 export type PrismaTransactionClient = Omit<
-  PrismaClient,
+  ExtendedPrismaClient,
   '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'
 >;
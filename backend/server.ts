@@ -29,6 +29,18 @@ import { earningRoutes } from './src/routes/earning.routes';
 import { premioRoutes } from './src/routes/premio.routes';
 import { submissionRoutes } from './src/routes/submission.routes';
 import { validationRoutes } from './src/routes/validation.routes';
+import { notificationRoutes } from './src/routes/notification.routes';
+import { realtimeRoutes } from './src/routes/realtime.routes';
+
+// Workers em background
+import { startValidationWorker, stopValidationWorker } from './src/services/validationQueue.service';
+import { startPointExpiryScheduler, stopPointExpiryScheduler } from './src/services/pointExpiryScheduler.service';
+import { startReservationExpiryScheduler, stopReservationExpiryScheduler } from './src/services/premioReservationScheduler.service';
+import { startWishlistAlertScheduler, stopWishlistAlertScheduler } from './src/services/premioWishlistScheduler.service';
+
+// Assinantes de eventos de negócio
+import { registerNotificationSubscribers } from './src/services/notificationDispatcher.service';
+import { startRealtime, stopRealtime } from './src/services/realtime.service';
 
 // ==================== CONFIGURAÇÕES ====================
 
@@ -152,6 +164,8 @@ const registerPlugins = async (server: FastifyInstance): Promise<void> => {
         { name: 'Earnings', description: 'Sistema financeiro e pagamentos' },
         { name: 'Prêmios', description: 'Catálogo de prêmios e resgates' },
         { name: 'Validação', description: 'Sistema de validação de planilhas' },
+        { name: 'Notificações', description: 'Central de notificações do usuário' },
+        { name: 'Tempo Real', description: 'Atualizações em tempo real via Server-Sent Events' },
         { name: 'Sistema', description: 'Utilitários e monitoramento' },
       ],
       components: {
@@ -217,6 +231,8 @@ const registerRoutes = async (server: FastifyInstance): Promise<void> => {
     await fastify.register(premioRoutes, { prefix: '/premios' });
     await fastify.register(submissionRoutes, { prefix: '/submissions' });
     await fastify.register(validationRoutes, { prefix: '/validation' });
+    await fastify.register(notificationRoutes, { prefix: '/notifications' });
+    await fastify.register(realtimeRoutes, { prefix: '/realtime' });
   }, { prefix: '/api' });
 };
 
@@ -429,6 +445,24 @@ const start = async (): Promise<void> => {
       host: HOST,
     });
 
+    // Inicia worker da fila de validação
+    await startValidationWorker();
+
+    // Expiração de pontos e avisos de pontos a expirar
+    await startPointExpiryScheduler();
+
+    // Devolução ao estoque das reservas de prêmio vencidas
+    startReservationExpiryScheduler();
+
+    // Avisos da lista de desejos (saldo suficiente e volta ao estoque)
+    startWishlistAlertScheduler();
+
+    // Notificações automáticas a partir de eventos de negócio
+    registerNotificationSubscribers();
+
+    // Canal de tempo real (SSE) para dashboard, validação e notificações
+    startRealtime();
+
     // Log de inicialização
     console.log('');
     console.log('🚀 ========================================');
@@ -474,6 +508,21 @@ const gracefulShutdown = (server: FastifyInstance) => {
       console.log(`\n📴 Recebido sinal ${signal}. Iniciando shutdown graceful...`);
       
       try {
+        // Pausa a fila de validação no fim do lote atual
+        await stopValidationWorker();
+
+        // Aguarda a execução em andamento do job de expiração de pontos
+        await stopPointExpiryScheduler();
+
+        // Aguarda a execução em andamento do job de reservas de prêmio
+        await stopReservationExpiryScheduler();
+
+        // Aguarda a execução em andamento do job da lista de desejos
+        await stopWishlistAlertScheduler();
+
+        // Encerra streams abertos para o close não aguardar conexões longas
+        stopRealtime();
+
         await server.close();
         
         // Fecha conexão com banco de dados
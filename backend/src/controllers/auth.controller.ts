@@ -12,6 +12,8 @@
  * - Tratamento de erros padronizado
  * - Rate limiting integrado
  * - Logs de auditoria
+ * - Logout, renovação com rotação e invalidação de sessões persistidas
+ * - Recuperação de senha e verificação de e-mail
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -31,7 +33,10 @@ import {
   UpdateProfileData,
   CheckEmailData,
   CheckCPFData,
-  ValidateCNPJData
+  ValidateCNPJData,
+  ForgotPasswordData,
+  ResetPasswordData,
+  TokenData
 } from '../schemas/auth.schema';
 import {
   loginUser,
@@ -40,12 +45,19 @@ import {
   updateUserProfile,
   refreshAuthToken,
   logoutUser,
+  invalidateUserSessions,
   checkEmailAvailability,
   checkCPFAvailability,
   getOpticDataByCNPJ,
   getLoginAttemptStats,
-  getUserById,
-} from '../services/user.service';
+  requestPasswordReset,
+  validatePasswordResetToken,
+  resetPasswordWithToken,
+  requestEmailVerification,
+  verifyEmail,
+} from '../services/auth.service';
+import { getUserById } from '../services/user.service';
+import { authUtils } from '../middleware/auth.middleware';
 
 // ==================== INTERFACES DE REQUEST ====================
 
@@ -108,7 +120,10 @@ export const loginHandler = async (
 
     console.log(`[AUTH_CONTROLLER] Tentativa de login para: ${email}`);
 
-    const result = await loginUser(email, password);
+    const result = await loginUser(email, password, {
+      userAgent: request.headers['user-agent'],
+      ipAddress: request.ip,
+    });
 
     if (!result) {
       return reply.code(401).send({
@@ -150,10 +165,15 @@ export const registerHandler = async (
   try {
     console.log(`[AUTH_CONTROLLER] Registro de novo usuário: ${request.body.email} (${request.body.role})`);
 
-    const newUser = await registerUser(request.body);
+    const newUser = await registerUser(request.body as UserRegistrationData);
 
     console.log(`[AUTH_CONTROLLER] Usuário registrado com sucesso: ${newUser.email}`);
 
+    // Falha no envio do e-mail não desfaz o cadastro (pode ser reenviado depois)
+    requestEmailVerification(newUser.id, true).catch((error) => {
+      console.error(`[AUTH_CONTROLLER] Erro ao enviar verificação de e-mail para ${newUser.email}:`, error);
+    });
+
     return reply.code(201).send({
       success: true,
       message: 'Usuário registrado com sucesso',
@@ -201,7 +221,7 @@ export const changePasswordHandler = async (
       });
     }
 
-    await changeUserPassword(request.user.id, request.body);
+    await changeUserPassword(request.user.id, request.body as ChangePasswordData, request.sessionId);
 
     console.log(`[AUTH_CONTROLLER] Senha alterada com sucesso: ${request.user.email}`);
 
@@ -247,7 +267,7 @@ export const updateProfileHandler = async (
       });
     }
 
-    const updatedUser = await updateUserProfile(request.user.id, request.body);
+    const updatedUser = await updateUserProfile(request.user.id, request.body as UpdateProfileData);
 
     console.log(`[AUTH_CONTROLLER] Perfil atualizado: ${request.user.email}`);
 
@@ -341,7 +361,12 @@ export const refreshTokenHandler = async (
     let errorMessage = 'Erro interno na renovação de token';
 
     if (error instanceof Error) {
-      if (error.message.includes('inválido') || error.message.includes('expirado')) {
+      if (
+        error.message.includes('inválid') ||
+        error.message.includes('expirad') ||
+        error.message.includes('revogada') ||
+        error.message.includes('bloqueado')
+      ) {
         statusCode = 401;
       }
       errorMessage = error.message;
@@ -364,7 +389,7 @@ export const logoutHandler = async (
 ): Promise<void> => {
   try {
     if (request.user) {
-      await logoutUser(request.user.id);
+      await logoutUser(request.user.id, request.sessionId);
       console.log(`[AUTH_CONTROLLER] Logout realizado: ${request.user.email}`);
     }
     return reply.code(200).send({
@@ -456,6 +481,167 @@ export const getMeHandler = async (
   }
 };
 
+// ==================== HANDLERS DE RECUPERAÇÃO DE SENHA E VERIFICAÇÃO DE E-MAIL ====================
+
+/**
+ * Handler para solicitar redefinição de senha.
+ * Sempre responde com sucesso para não revelar quais e-mails estão cadastrados.
+ */
+export const forgotPasswordHandler = async (
+  request: FastifyRequest<{ Body: ForgotPasswordData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  const { email } = request.body;
+
+  try {
+    await requestPasswordReset(email);
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao solicitar redefinição de senha:', error);
+  }
+
+  return reply.code(200).send({
+    success: true,
+    message: 'Se o e-mail estiver cadastrado, você receberá as instruções para redefinir sua senha',
+  });
+};
+
+/**
+ * Handler para verificar token de redefinição antes de exibir o formulário
+ */
+export const validateResetTokenHandler = async (
+  request: FastifyRequest<{ Params: { token: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const result = await validatePasswordResetToken(request.params.token);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Token válido',
+      data: result,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Token inválido';
+
+    return reply.code(400).send({
+      success: false,
+      error: 'Token inválido',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para redefinir senha com token
+ */
+export const resetPasswordHandler = async (
+  request: FastifyRequest<{ Body: ResetPasswordData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    await resetPasswordWithToken(request.body);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Senha redefinida com sucesso. Faça login com a nova senha',
+    });
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao redefinir senha:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno na redefinição de senha';
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token') || error.message.includes('bloqueado')) {
+        statusCode = 400;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro na redefinição de senha',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para confirmar e-mail com token
+ */
+export const verifyEmailHandler = async (
+  request: FastifyRequest<{ Body: TokenData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { token } = request.body;
+    const result = await verifyEmail(token);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'E-mail verificado com sucesso',
+      data: result,
+    });
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao verificar e-mail:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno na verificação de e-mail';
+
+    if (error instanceof Error) {
+      if (error.message.includes('Token')) {
+        statusCode = 400;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro na verificação de e-mail',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para reenviar e-mail de verificação ao usuário logado
+ */
+export const resendVerificationHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    await requestEmailVerification(request.user!.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'E-mail de verificação enviado',
+    });
+  } catch (error) {
+    console.error('[AUTH_CONTROLLER] Erro ao reenviar verificação de e-mail:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno no envio do e-mail de verificação';
+
+    if (error instanceof Error) {
+      if (error.message.includes('já verificado')) {
+        statusCode = 409;
+      } else if (error.message.includes('Aguarde')) {
+        statusCode = 429;
+      } else if (error.message.includes('não encontrado')) {
+        statusCode = 404;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro no envio',
+      message: errorMessage,
+    });
+  }
+};
+
 // ==================== HANDLERS DE VALIDAÇÃO ====================
 
 /**
@@ -679,10 +865,10 @@ export const invalidateUserSessionsHandler = async (
       });
     }
 
-    // Por enquanto apenas logout
-    await logoutUser(userId);
+    const revokedSessions = await invalidateUserSessions(userId, request.user.id);
+    authUtils.invalidateUserCache(userId);
 
-    console.log(`[AUTH_CONTROLLER] Sessões invalidadas pelo admin ${request.user.email} para usuário ${targetUser.email}`);
+    console.log(`[AUTH_CONTROLLER] ${revokedSessions} sessões invalidadas pelo admin ${request.user.email} para usuário ${targetUser.email}`);
 
     return reply.code(200).send({
       success: true,
@@ -693,6 +879,7 @@ export const invalidateUserSessionsHandler = async (
           name: targetUser.name,
           email: targetUser.email,
         },
+        revokedSessions,
         invalidatedAt: new Date().toISOString(),
       },
     });
@@ -12,6 +12,7 @@
  * - Estatísticas detalhadas por perfil
  * - Sistema de validação robusto
  * - Logs de auditoria completos
+ * - Prêmios retidos por orçamento: listagem, aprovação e rejeição
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -33,7 +34,11 @@ import {
   CampaignStatsQuery,
   DuplicateCampaignData,
   ToggleCampaignStatusData,
-  CampaignPerformanceQuery
+  CampaignPerformanceQuery,
+  BudgetHoldParams,
+  BudgetHoldFilters,
+  ApproveBudgetHoldData,
+  RejectBudgetHoldData
 } from '../schemas/campaign.schema';
 import {
   createCampaign,
@@ -49,6 +54,11 @@ import {
   canUserParticipateInCampaign,
   updateExpiredCampaigns
 } from '../services/campaign.service';
+import {
+  listBudgetHolds,
+  approveBudgetHold,
+  rejectBudgetHold
+} from '../services/campaignBudget.service';
 
 // ==================== INTERFACES DE REQUEST ====================
 
@@ -433,7 +443,7 @@ export const getCampaignStatsHandler = async (
 
     const { id } = request.params;
     
-    const stats = await getCampaignStats(id);
+    const stats = await getCampaignStats(id, request.user.role, request.user.id);
 
     return reply.code(200).send({
       success: true,
@@ -743,3 +753,130 @@ export const updateExpiredCampaignsHandler = async (
     });
   }
 };
+
+// ==================== HANDLERS DE ORÇAMENTO ====================
+
+/**
+ * Handler para listar prêmios retidos por falta de orçamento
+ */
+export const listBudgetHoldsHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Querystring: BudgetHoldFilters }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem ver prêmios retidos',
+      });
+    }
+
+    const result = await listBudgetHolds(request.params.id, request.query);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Prêmios retidos obtidos com sucesso',
+      data: result.data,
+      pagination: result.pagination,
+    });
+
+  } catch (error) {
+    console.error('[CAMPAIGN_CONTROLLER] Erro ao listar prêmios retidos:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao listar prêmios retidos',
+    });
+  }
+};
+
+/**
+ * Responde erro de decisão de prêmio retido
+ */
+const sendBudgetHoldError = (reply: FastifyReply, error: unknown, fallback: string) => {
+  let statusCode = 500;
+  let errorMessage = fallback;
+
+  if (error instanceof Error) {
+    if (error.message.includes('não encontrado')) {
+      statusCode = 404;
+    } else if (error.message.includes('já foi decidido')) {
+      statusCode = 409;
+    }
+    errorMessage = error.message;
+  }
+
+  return reply.code(statusCode).send({
+    success: false,
+    error: 'Erro ao decidir prêmio retido',
+    message: errorMessage,
+  });
+};
+
+/**
+ * Handler para aprovar prêmio retido (cria os earnings mesmo acima do orçamento)
+ */
+export const approveBudgetHoldHandler = async (
+  request: FastifyRequest<{ Params: BudgetHoldParams; Body: ApproveBudgetHoldData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem aprovar prêmios retidos',
+      });
+    }
+
+    const { holdId } = request.params;
+    const result = await approveBudgetHold(holdId, request.user.id, request.body?.note);
+
+    console.log(`[CAMPAIGN_CONTROLLER] Prêmio retido aprovado: ${holdId} por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Prêmio retido aprovado com sucesso',
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('[CAMPAIGN_CONTROLLER] Erro ao aprovar prêmio retido:', error);
+    return sendBudgetHoldError(reply, error, 'Erro interno ao aprovar prêmio retido');
+  }
+};
+
+/**
+ * Handler para rejeitar prêmio retido
+ */
+export const rejectBudgetHoldHandler = async (
+  request: FastifyRequest<{ Params: BudgetHoldParams; Body: RejectBudgetHoldData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem rejeitar prêmios retidos',
+      });
+    }
+
+    const { holdId } = request.params;
+    const result = await rejectBudgetHold(holdId, request.user.id, request.body.reason);
+
+    console.log(`[CAMPAIGN_CONTROLLER] Prêmio retido rejeitado: ${holdId} por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Prêmio retido rejeitado',
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('[CAMPAIGN_CONTROLLER] Erro ao rejeitar prêmio retido:', error);
+    return sendBudgetHoldError(reply, error, 'Erro interno ao rejeitar prêmio retido');
+  }
+};
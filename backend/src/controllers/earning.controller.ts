@@ -12,6 +12,12 @@
  * - Processamento em lote de earnings
  * - Relatórios financeiros detalhados
  * - Auditoria completa de transações
+ * - Registros de pagamento com comprovantes
+ * - Lotes de pagamento PIX com arquivo de remessa
+ * - Cancelamento e estorno de earnings com trilha de auditoria
+ * - Relatório financeiro por período com exportação em XLSX e PDF
+ * - Projeção de earnings por ritmo de vendas dos kits em aberto
+ * - Recibo de pagamento (RPA/demonstrativo) e regras de retenção na fonte
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -32,8 +38,19 @@ import {
   MarkEarningAsPaidData,
   BulkProcessEarningsData,
   FinancialReportQuery,
+  FinancialReportExportQuery,
   EarningProjectionQuery,
-  EarningAuditData
+  EarningAuditData,
+  CreateEarningPaymentData,
+  EarningPaymentFilters,
+  CreatePayoutBatchData,
+  PayoutBatchFilters,
+  PayoutBatchFileQuery,
+  ConfirmPayoutBatchData,
+  EarningStatusChangeData,
+  PaymentReceiptQuery,
+  CreateWithholdingRuleData,
+  UpdateWithholdingRuleData
 } from '../schemas/earning.schema';
 import {
   createEarning,
@@ -42,14 +59,42 @@ import {
   listEarnings,
   markEarningAsPaid,
   bulkProcessEarnings,
-  generateFinancialReport,
-  getEarningProjection,
   getEarningStats,
   getUserEarnings,
   getManagerEarnings,
   cancelEarning,
+  reverseEarning,
   auditEarning
 } from '../services/earning.service';
+import {
+  createEarningPayment,
+  getEarningPaymentById,
+  listEarningPayments,
+  addPaymentAttachments,
+  getPaymentAttachmentFile,
+  canViewEarningPayment,
+  generatePaymentReceipt,
+  PaymentAttachmentInput
+} from '../services/earningPayment.service';
+import {
+  listWithholdingRules,
+  createWithholdingRule,
+  updateWithholdingRule,
+  deleteWithholdingRule
+} from '../services/withholding.service';
+import {
+  createPayoutBatch,
+  getPayoutBatchById,
+  listPayoutBatches,
+  generatePayoutBatchFile,
+  confirmPayoutBatch,
+  cancelPayoutBatch
+} from '../services/payoutBatch.service';
+import {
+  generateFinancialReport,
+  exportFinancialReport
+} from '../services/financialReport.service';
+import { getEarningProjection } from '../services/earningProjection.service';
 
 // ==================== INTERFACES DE REQUEST ====================
 
@@ -79,10 +124,6 @@ interface BulkProcessRequest extends FastifyRequest {
   Body: BulkProcessEarningsData;
 }
 
-interface FinancialReportRequest extends FastifyRequest {
-  Querystring: FinancialReportQuery;
-}
-
 interface ProjectionRequest extends FastifyRequest {
   Querystring: EarningProjectionQuery;
 }
@@ -204,7 +245,7 @@ export const listEarningsHandler = async (
       });
     }
 
-    let filters = request.query;
+    let filters = request.query as EarningFilters;
     
     // Aplica filtros baseados no perfil do usuário
     if (request.user.role === UserRole.VENDEDOR) {
@@ -257,7 +298,7 @@ export const markEarningAsPaidHandler = async (
 
     const { id } = request.params;
     
-    await markEarningAsPaid(id, request.body);
+    await markEarningAsPaid(id, request.body as MarkEarningAsPaidData, request.user.id);
 
     console.log(`[EARNING_CONTROLLER] Earning marcado como pago: ${id} por ${request.user.email}`);
 
@@ -281,8 +322,11 @@ export const markEarningAsPaidHandler = async (
       if (error.message.includes('não encontrado')) {
         statusCode = 404;
       } else if (error.message.includes('já foi pago') || 
-                 error.message.includes('não é possível')) {
+                 error.message.includes('não é possível') ||
+                 error.message.includes('pendentes')) {
         statusCode = 400;
+      } else if (error.message.includes('reservado')) {
+        statusCode = 409;
       }
       errorMessage = error.message;
     }
@@ -338,7 +382,7 @@ export const bulkProcessEarningsHandler = async (
  * Handler para gerar relatório financeiro
  */
 export const generateFinancialReportHandler = async (
-  request: FinancialReportRequest,
+  request: FastifyRequest<{ Querystring: FinancialReportQuery }>,
   reply: FastifyReply
 ): Promise<void> => {
   try {
@@ -350,14 +394,11 @@ export const generateFinancialReportHandler = async (
       });
     }
 
-    let filters = request.query;
-    
-    // Se for gerente, filtra apenas sua equipe
-    if (request.user.role === UserRole.GERENTE && !filters.userId) {
-      // Aqui seria aplicado filtro para equipe do gerente
-    }
-
-    const report = await generateFinancialReport(filters, request.user.id);
+    // Gerentes recebem apenas os earnings da própria equipe (escopo aplicado no service)
+    const report = await generateFinancialReport(request.query, {
+      id: request.user.id,
+      role: request.user.role,
+    });
 
     console.log(`[EARNING_CONTROLLER] Relatório financeiro gerado por ${request.user.email}`);
 
@@ -370,6 +411,16 @@ export const generateFinancialReportHandler = async (
   } catch (error) {
     console.error('[EARNING_CONTROLLER] Erro ao gerar relatório financeiro:', error);
 
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    if (errorMessage.includes('Data inicial')) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Período inválido',
+        message: errorMessage,
+      });
+    }
+
     return reply.code(500).send({
       success: false,
       error: 'Erro interno',
@@ -378,6 +429,57 @@ export const generateFinancialReportHandler = async (
   }
 };
 
+/**
+ * Handler para exportar relatório financeiro (XLSX ou PDF)
+ */
+export const exportFinancialReportHandler = async (
+  request: FastifyRequest<{ Querystring: FinancialReportExportQuery }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role === UserRole.VENDEDOR) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Permissões insuficientes para exportar relatórios financeiros',
+      });
+    }
+
+    const { format, ...filters } = request.query;
+
+    const file = await exportFinancialReport(filters, {
+      id: request.user.id,
+      role: request.user.role,
+    }, format);
+
+    console.log(`[EARNING_CONTROLLER] Relatório financeiro exportado em ${format} por ${request.user.email}`);
+
+    reply.header('Content-Type', file.contentType);
+    reply.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+
+    return reply.code(200).send(file.content);
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao exportar relatório financeiro:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    if (errorMessage.includes('Data inicial')) {
+      return reply.code(400).send({
+        success: false,
+        error: 'Período inválido',
+        message: errorMessage,
+      });
+    }
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao exportar relatório financeiro',
+    });
+  }
+};
+
 /**
  * Handler para obter projeções de earnings
  */
@@ -394,14 +496,11 @@ export const getEarningProjectionHandler = async (
       });
     }
 
-    let filters = request.query;
-    
-    // Se for gerente sem userId especificado, aplica à sua equipe
-    if (request.user.role === UserRole.GERENTE && !filters.userId) {
-      // Aqui seria aplicado filtro para equipe do gerente
-    }
-
-    const projection = await getEarningProjection(filters);
+    // Gerentes recebem apenas a projeção da própria equipe (escopo aplicado no service)
+    const projection = await getEarningProjection(request.query, {
+      id: request.user.id,
+      role: request.user.role,
+    });
 
     return reply.code(200).send({
       success: true,
@@ -583,12 +682,22 @@ export const updateEarningHandler = async (
 };
 
 /**
- * Handler para cancelar earning
+ * Status HTTP para erros de cancelamento/estorno de earning
+ */
+const getEarningStatusChangeErrorStatus = (message: string): number => {
+  if (message.includes('não encontrado')) return 404;
+  if (message.includes('reservado') || message.includes('alterado durante')) return 409;
+  if (message.includes('Não é possível') || message.includes('já foi pago')) return 400;
+  return 500;
+};
+
+/**
+ * Handler para cancelar earning pendente
  */
 export const cancelEarningHandler = async (
   request: FastifyRequest<{ 
     Params: { id: string }; 
-    Body: { reason: string } 
+    Body: EarningStatusChangeData 
   }>,
   reply: FastifyReply
 ): Promise<void> => {
@@ -604,15 +713,7 @@ export const cancelEarningHandler = async (
     const { id } = request.params;
     const { reason } = request.body;
 
-    if (!reason || reason.length < 5) {
-      return reply.code(400).send({
-        success: false,
-        error: 'Motivo obrigatório',
-        message: 'Motivo do cancelamento deve ter pelo menos 5 caracteres',
-      });
-    }
-
-    await cancelEarning(id, reason, request.user.id);
+    const earning = await cancelEarning(id, reason, request.user.id);
 
     console.log(`[EARNING_CONTROLLER] Earning cancelado: ${id} por ${request.user.email} - Motivo: ${reason}`);
 
@@ -621,7 +722,8 @@ export const cancelEarningHandler = async (
       message: 'Earning cancelado com sucesso',
       data: {
         earningId: id,
-        cancelledAt: new Date().toISOString(),
+        status: earning.status,
+        cancelledAt: earning.updatedAt.toISOString(),
         cancelledBy: request.user.email,
         reason,
       },
@@ -634,12 +736,7 @@ export const cancelEarningHandler = async (
     let errorMessage = 'Erro interno ao cancelar earning';
 
     if (error instanceof Error) {
-      if (error.message.includes('não encontrado')) {
-        statusCode = 404;
-      } else if (error.message.includes('não é possível') || 
-                 error.message.includes('já foi pago')) {
-        statusCode = 400;
-      }
+      statusCode = getEarningStatusChangeErrorStatus(error.message);
       errorMessage = error.message;
     }
 
@@ -651,6 +748,63 @@ export const cancelEarningHandler = async (
   }
 };
 
+/**
+ * Handler para estornar earning já pago
+ */
+export const reverseEarningHandler = async (
+  request: FastifyRequest<{ 
+    Params: { id: string }; 
+    Body: EarningStatusChangeData 
+  }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem estornar earnings',
+      });
+    }
+
+    const { id } = request.params;
+    const { reason } = request.body;
+
+    const earning = await reverseEarning(id, reason, request.user.id);
+
+    console.log(`[EARNING_CONTROLLER] Earning estornado: ${id} por ${request.user.email} - Motivo: ${reason}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Earning estornado com sucesso',
+      data: {
+        earningId: id,
+        status: earning.status,
+        reversedAt: earning.updatedAt.toISOString(),
+        reversedBy: request.user.email,
+        reason,
+      },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao estornar earning:', error);
+    
+    let statusCode = 500;
+    let errorMessage = 'Erro interno ao estornar earning';
+
+    if (error instanceof Error) {
+      statusCode = getEarningStatusChangeErrorStatus(error.message);
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao estornar earning',
+      message: errorMessage,
+    });
+  }
+};
+
 /**
  * Handler para earnings pendentes do usuário
  */
@@ -740,6 +894,7 @@ export const getFinancialSummaryHandler = async (
     // Busca resumo baseado no período
     const reportQuery: FinancialReportQuery = {
       groupBy: 'month',
+      includeDetails: false,
       format: 'json',
       includeSummary: true,
       includeCharts: false,
@@ -755,7 +910,10 @@ export const getFinancialSummaryHandler = async (
     reportQuery.startDate = startDate.toISOString();
     reportQuery.endDate = now.toISOString();
 
-    const report = await generateFinancialReport(reportQuery, request.user.id);
+    const report = await generateFinancialReport(reportQuery, {
+      id: request.user.id,
+      role: request.user.role,
+    });
 
     return reply.code(200).send({
       success: true,
@@ -778,3 +936,684 @@ export const getFinancialSummaryHandler = async (
     });
   }
 };
+
+// ==================== HANDLERS DE REGISTROS DE PAGAMENTO ====================
+
+/**
+ * Lê os comprovantes enviados via multipart (campo opcional "type" vale para todos)
+ */
+const readPaymentAttachmentFiles = async (request: FastifyRequest): Promise<PaymentAttachmentInput[]> => {
+  if (!request.isMultipart()) {
+    throw new Error('Requisição deve ser multipart/form-data');
+  }
+
+  const files: PaymentAttachmentInput[] = [];
+  let type: string | undefined;
+
+  for await (const part of request.parts()) {
+    if (part.type === 'file') {
+      files.push({
+        filename: part.filename,
+        mimetype: part.mimetype,
+        buffer: await part.toBuffer(),
+      });
+    } else if (part.fieldname === 'type') {
+      type = String(part.value ?? '');
+    }
+  }
+
+  return files.map(file => ({ ...file, type }));
+};
+
+/**
+ * Handler para registrar pagamento de um ou mais earnings
+ */
+export const createEarningPaymentHandler = async (
+  request: FastifyRequest<{ Body: CreateEarningPaymentData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem registrar pagamentos',
+      });
+    }
+
+    const payment = await createEarningPayment(request.body, request.user.id);
+
+    console.log(`[EARNING_CONTROLLER] Pagamento ${payment.id} registrado por ${request.user.email}`);
+
+    return reply.code(201).send({
+      success: true,
+      message: `Pagamento registrado para ${payment.earnings.length} earning(s)`,
+      data: { payment },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao registrar pagamento:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno ao registrar pagamento';
+
+    if (error instanceof Error) {
+      if (error.message.includes('não encontrado')) {
+        statusCode = 404;
+      } else if (error.message.includes('pendentes')) {
+        statusCode = 400;
+      } else if (error.message.includes('reservado')) {
+        statusCode = 409;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao registrar pagamento',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para listar pagamentos (vendedor vê os próprios, gerente os da equipe)
+ */
+export const listEarningPaymentsHandler = async (
+  request: FastifyRequest<{ Querystring: EarningPaymentFilters }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const result = await listEarningPayments(request.query, request.user!);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Pagamentos listados com sucesso',
+      data: result.data,
+      pagination: result.pagination,
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao listar pagamentos:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao listar pagamentos',
+    });
+  }
+};
+
+/**
+ * Handler para buscar pagamento por ID
+ */
+export const getEarningPaymentHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const payment = await getEarningPaymentById(request.params.id);
+
+    if (!payment) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Pagamento não encontrado',
+        message: 'O pagamento solicitado não existe',
+      });
+    }
+
+    if (!canViewEarningPayment(payment, request.user!)) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Você não tem permissão para ver este pagamento',
+      });
+    }
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Pagamento encontrado com sucesso',
+      data: { payment },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao buscar pagamento:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao buscar dados do pagamento',
+    });
+  }
+};
+
+/**
+ * Handler para anexar comprovantes (upload) a um pagamento
+ */
+export const uploadPaymentAttachmentsHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem anexar comprovantes',
+      });
+    }
+
+    const files = await readPaymentAttachmentFiles(request);
+    const payment = await addPaymentAttachments(request.params.id, files, request.user.id);
+
+    return reply.code(201).send({
+      success: true,
+      message: `${files.length} comprovante(s) anexado(s) com sucesso`,
+      data: { payment },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao anexar comprovantes:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno ao anexar comprovantes';
+
+    if ((error as { code?: string })?.code === 'FST_REQ_FILE_TOO_LARGE') {
+      statusCode = 413;
+      errorMessage = 'Arquivo excede o tamanho máximo permitido';
+    } else if (error instanceof Error) {
+      if (error.message.includes('não encontrado')) {
+        statusCode = 404;
+      } else if (
+        error.message.includes('inválido') ||
+        error.message.includes('Máximo') ||
+        error.message.includes('muito grande') ||
+        error.message.includes('Nenhum arquivo') ||
+        error.message.includes('multipart')
+      ) {
+        statusCode = 400;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao anexar comprovantes',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para download de comprovante armazenado
+ */
+export const downloadPaymentAttachmentHandler = async (
+  request: FastifyRequest<{ Params: { id: string; attachmentId: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { id, attachmentId } = request.params;
+    const payment = await getEarningPaymentById(id);
+
+    if (!payment || !canViewEarningPayment(payment, request.user!)) {
+      return reply.code(payment ? 403 : 404).send({
+        success: false,
+        error: payment ? 'Acesso negado' : 'Pagamento não encontrado',
+        message: payment
+          ? 'Você não tem permissão para ver este comprovante'
+          : 'O pagamento solicitado não existe',
+      });
+    }
+
+    const file = await getPaymentAttachmentFile(id, attachmentId);
+
+    reply.header('Content-Type', file.mimetype);
+    reply.header('Content-Disposition', `inline; filename="${encodeURIComponent(file.filename)}"`);
+
+    return reply.code(200).send(file.content);
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro no download de comprovante:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno no download';
+
+    return reply.code(errorMessage.includes('não encontrado') ? 404 : 500).send({
+      success: false,
+      error: 'Erro no download',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para download do recibo de pagamento (RPA ou demonstrativo PJ) de um favorecido
+ */
+export const downloadPaymentReceiptHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Querystring: PaymentReceiptQuery }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const payment = await getEarningPaymentById(request.params.id);
+
+    if (!payment) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Pagamento não encontrado',
+        message: 'O pagamento solicitado não existe',
+      });
+    }
+
+    const requester = request.user!;
+    // Fora o admin, o recibo padrão é o do próprio usuário
+    const payeeId = request.query.userId ||
+      (requester.role !== UserRole.ADMIN && payment.earnings.some(earning => earning.userId === requester.id)
+        ? requester.id
+        : undefined);
+
+    const canView = requester.role === UserRole.ADMIN || payment.earnings.some(earning =>
+      earning.userId === payeeId &&
+      (earning.userId === requester.id || (requester.role === UserRole.GERENTE && earning.managerId === requester.id))
+    );
+
+    if (!canView) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Você não tem permissão para ver este recibo',
+      });
+    }
+
+    const file = await generatePaymentReceipt(payment.id, payeeId);
+
+    reply.header('Content-Type', file.contentType);
+    reply.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+
+    return reply.code(200).send(file.content);
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao gerar recibo de pagamento:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno ao gerar recibo';
+    const statusCode = errorMessage.includes('não encontrado')
+      ? 404
+      : errorMessage.includes('Informe o favorecido') ? 400 : 500;
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao gerar recibo',
+      message: errorMessage,
+    });
+  }
+};
+
+// ==================== HANDLERS DE REGRAS DE RETENÇÃO ====================
+
+/**
+ * Resposta padrão para rotas de retenção restritas a administradores
+ */
+const sendWithholdingForbidden = (reply: FastifyReply) => {
+  return reply.code(403).send({
+    success: false,
+    error: 'Acesso negado',
+    message: 'Apenas administradores podem gerenciar regras de retenção',
+  });
+};
+
+/**
+ * Handler para listar regras de retenção
+ */
+export const listWithholdingRulesHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendWithholdingForbidden(reply);
+    }
+
+    const rules = await listWithholdingRules();
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Regras de retenção obtidas com sucesso',
+      data: { rules },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao listar regras de retenção:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao carregar regras de retenção',
+    });
+  }
+};
+
+/**
+ * Handler para criar regra de retenção
+ */
+export const createWithholdingRuleHandler = async (
+  request: FastifyRequest<{ Body: CreateWithholdingRuleData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendWithholdingForbidden(reply);
+    }
+
+    const rule = await createWithholdingRule(request.body, request.user.id);
+
+    return reply.code(201).send({
+      success: true,
+      message: 'Regra de retenção criada com sucesso',
+      data: { rule },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao criar regra de retenção:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao criar regra de retenção',
+    });
+  }
+};
+
+/**
+ * Handler para atualizar regra de retenção
+ */
+export const updateWithholdingRuleHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Body: UpdateWithholdingRuleData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendWithholdingForbidden(reply);
+    }
+
+    const rule = await updateWithholdingRule(request.params.id, request.body);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Regra de retenção atualizada com sucesso',
+      data: { rule },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao atualizar regra de retenção:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(errorMessage.includes('não encontrada') ? 404 : 500).send({
+      success: false,
+      error: 'Erro ao atualizar regra de retenção',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para excluir regra de retenção
+ */
+export const deleteWithholdingRuleHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendWithholdingForbidden(reply);
+    }
+
+    await deleteWithholdingRule(request.params.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Regra de retenção excluída com sucesso',
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao excluir regra de retenção:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(errorMessage.includes('não encontrada') ? 404 : 500).send({
+      success: false,
+      error: 'Erro ao excluir regra de retenção',
+      message: errorMessage,
+    });
+  }
+};
+
+// ==================== HANDLERS DE LOTES DE PAGAMENTO PIX ====================
+
+/**
+ * Resposta padrão para rotas de lote restritas a administradores
+ */
+const sendPayoutBatchForbidden = (reply: FastifyReply) => {
+  return reply.code(403).send({
+    success: false,
+    error: 'Acesso negado',
+    message: 'Apenas administradores podem gerenciar lotes de pagamento',
+  });
+};
+
+/**
+ * Status HTTP para erros de lote
+ */
+const getPayoutBatchErrorStatus = (message: string): number => {
+  if (message.includes('não encontrado')) return 404;
+  if (message.includes('já ') || message.includes('alterados durante')) return 409;
+  return 400;
+};
+
+/**
+ * Handler para gerar lote de pagamento PIX
+ */
+export const createPayoutBatchHandler = async (
+  request: FastifyRequest<{ Body: CreatePayoutBatchData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const { batch, skipped } = await createPayoutBatch(request.body, request.user.id);
+
+    console.log(`[EARNING_CONTROLLER] Lote ${batch.code} gerado por ${request.user.email}`);
+
+    return reply.code(201).send({
+      success: true,
+      message: skipped.length > 0
+        ? `Lote gerado com ${batch.itemCount} favorecido(s); ${skipped.length} usuário(s) sem chave PIX ficaram de fora`
+        : `Lote gerado com ${batch.itemCount} favorecido(s)`,
+      data: { batch, skipped },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao gerar lote de pagamento:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(getPayoutBatchErrorStatus(errorMessage)).send({
+      success: false,
+      error: 'Erro ao gerar lote de pagamento',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para listar lotes de pagamento
+ */
+export const listPayoutBatchesHandler = async (
+  request: FastifyRequest<{ Querystring: PayoutBatchFilters }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const result = await listPayoutBatches(request.query);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Lotes de pagamento listados com sucesso',
+      data: result.data,
+      pagination: result.pagination,
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao listar lotes de pagamento:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao listar lotes de pagamento',
+    });
+  }
+};
+
+/**
+ * Handler para obter lote de pagamento
+ */
+export const getPayoutBatchHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const batch = await getPayoutBatchById(request.params.id);
+
+    if (!batch) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Lote não encontrado',
+        message: 'O lote de pagamento solicitado não existe',
+      });
+    }
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Lote de pagamento encontrado',
+      data: { batch },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao buscar lote de pagamento:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao buscar lote de pagamento',
+    });
+  }
+};
+
+/**
+ * Handler para download do arquivo do lote (CSV ou remessa)
+ */
+export const downloadPayoutBatchFileHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Querystring: PayoutBatchFileQuery }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const file = await generatePayoutBatchFile(request.params.id, request.query.format);
+
+    reply.header('Content-Type', file.contentType);
+    reply.header('Content-Disposition', `attachment; filename="${file.filename}"`);
+
+    return reply.code(200).send(file.content);
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao gerar arquivo do lote:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(getPayoutBatchErrorStatus(errorMessage)).send({
+      success: false,
+      error: 'Erro ao gerar arquivo do lote',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para confirmar lote pago (marca todos os earnings como PAGO)
+ */
+export const confirmPayoutBatchHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Body: ConfirmPayoutBatchData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const batch = await confirmPayoutBatch(request.params.id, request.body || {}, request.user.id);
+
+    console.log(`[EARNING_CONTROLLER] Lote ${batch.code} confirmado por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: `Lote confirmado: ${batch.earningCount} earning(s) marcados como pagos`,
+      data: { batch },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao confirmar lote de pagamento:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(getPayoutBatchErrorStatus(errorMessage)).send({
+      success: false,
+      error: 'Erro ao confirmar lote de pagamento',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para cancelar lote (libera os earnings reservados)
+ */
+export const cancelPayoutBatchHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return sendPayoutBatchForbidden(reply);
+    }
+
+    const batch = await cancelPayoutBatch(request.params.id);
+
+    console.log(`[EARNING_CONTROLLER] Lote ${batch.code} cancelado por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Lote cancelado: earnings liberados para novo pagamento',
+      data: { batch },
+    });
+
+  } catch (error) {
+    console.error('[EARNING_CONTROLLER] Erro ao cancelar lote de pagamento:', error);
+
+    const errorMessage = error instanceof Error ? error.message : 'Erro interno';
+
+    return reply.code(getPayoutBatchErrorStatus(errorMessage)).send({
+      success: false,
+      error: 'Erro ao cancelar lote de pagamento',
+      message: errorMessage,
+    });
+  }
+};
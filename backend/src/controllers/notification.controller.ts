@@ -0,0 +1,335 @@
+/**
+ * @file notification.controller.ts
+ * @version 2.0.0
+ * @description Controller para notificações dos usuários da API EPS Campanhas.
+ * Cada usuário acessa apenas as próprias notificações.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Listagem com filtro de não lidas e contagem de não lidas
+ * - Marcação como lida (individual e todas) e exclusão
+ * - Administração dos templates de notificações automáticas
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { UserRole } from '@prisma/client';
+import {
+  NotificationFilters,
+  NotificationTemplateKey,
+  UpdateNotificationTemplateData
+} from '../schemas/notification.schema';
+import {
+  listUserNotifications,
+  getUnreadNotificationCount,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  deleteNotification
+} from '../services/notification.service';
+import {
+  listNotificationTemplates,
+  updateNotificationTemplate,
+  resetNotificationTemplate
+} from '../services/notificationDispatcher.service';
+
+// ==================== HANDLERS ====================
+
+/**
+ * Handler para listar notificações do usuário autenticado
+ */
+export const listNotificationsHandler = async (
+  request: FastifyRequest<{ Querystring: NotificationFilters }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Não autenticado',
+        message: 'Usuário não autenticado',
+      });
+    }
+
+    const result = await listUserNotifications(request.user.id, request.query);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Notificações obtidas com sucesso',
+      data: result.data,
+      pagination: result.pagination,
+      summary: result.summary,
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao listar notificações:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao carregar notificações',
+    });
+  }
+};
+
+/**
+ * Handler para contar notificações não lidas
+ */
+export const getUnreadCountHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Não autenticado',
+        message: 'Usuário não autenticado',
+      });
+    }
+
+    const unreadCount = await getUnreadNotificationCount(request.user.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Contagem de notificações obtida com sucesso',
+      data: { unreadCount },
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao contar notificações:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao contar notificações não lidas',
+    });
+  }
+};
+
+/**
+ * Handler para marcar notificação como lida
+ */
+export const markNotificationAsReadHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Não autenticado',
+        message: 'Usuário não autenticado',
+      });
+    }
+
+    const notification = await markNotificationAsRead(request.params.id, request.user.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Notificação marcada como lida',
+      data: { notification },
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao marcar notificação como lida:', error);
+
+    const notFound = error instanceof Error && error.message.includes('não encontrada');
+
+    return reply.code(notFound ? 404 : 500).send({
+      success: false,
+      error: notFound ? 'Notificação não encontrada' : 'Erro interno',
+      message: notFound ? 'A notificação não existe' : 'Erro ao marcar notificação como lida',
+    });
+  }
+};
+
+/**
+ * Handler para marcar todas as notificações como lidas
+ */
+export const markAllNotificationsAsReadHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Não autenticado',
+        message: 'Usuário não autenticado',
+      });
+    }
+
+    const updatedCount = await markAllNotificationsAsRead(request.user.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Todas as notificações foram marcadas como lidas',
+      data: { updatedCount },
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao marcar todas como lidas:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao marcar notificações como lidas',
+    });
+  }
+};
+
+/**
+ * Handler para excluir notificação
+ */
+export const deleteNotificationHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user) {
+      return reply.code(401).send({
+        success: false,
+        error: 'Não autenticado',
+        message: 'Usuário não autenticado',
+      });
+    }
+
+    await deleteNotification(request.params.id, request.user.id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Notificação excluída com sucesso',
+      data: {
+        deletedId: request.params.id,
+        deletedAt: new Date().toISOString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao excluir notificação:', error);
+
+    const notFound = error instanceof Error && error.message.includes('não encontrada');
+
+    return reply.code(notFound ? 404 : 500).send({
+      success: false,
+      error: notFound ? 'Notificação não encontrada' : 'Erro interno',
+      message: notFound ? 'A notificação não existe' : 'Erro ao excluir notificação',
+    });
+  }
+};
+
+// ==================== TEMPLATES ====================
+
+/**
+ * Handler para listar templates de notificações automáticas (admin)
+ */
+export const listNotificationTemplatesHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem gerenciar templates de notificação',
+      });
+    }
+
+    const templates = await listNotificationTemplates();
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Templates de notificação obtidos com sucesso',
+      data: templates,
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao listar templates:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao carregar templates de notificação',
+    });
+  }
+};
+
+/**
+ * Handler para personalizar template de notificação (admin)
+ */
+export const updateNotificationTemplateHandler = async (
+  request: FastifyRequest<{ Params: { key: string }; Body: UpdateNotificationTemplateData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem gerenciar templates de notificação',
+      });
+    }
+
+    const template = await updateNotificationTemplate(
+      request.params.key as NotificationTemplateKey,
+      request.body,
+      request.user.id
+    );
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Template de notificação atualizado com sucesso',
+      data: template,
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao atualizar template:', error);
+
+    const message = error instanceof Error ? error.message : '';
+    const statusCode = message.includes('não encontrado') ? 404
+      : message.includes('Variáveis inválidas') ? 400
+      : 500;
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: statusCode === 500 ? 'Erro interno' : message,
+      message: statusCode === 500 ? 'Erro ao atualizar template de notificação' : message,
+    });
+  }
+};
+
+/**
+ * Handler para restaurar template padrão (admin)
+ */
+export const resetNotificationTemplateHandler = async (
+  request: FastifyRequest<{ Params: { key: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem gerenciar templates de notificação',
+      });
+    }
+
+    await resetNotificationTemplate(request.params.key as NotificationTemplateKey);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Template de notificação restaurado para o padrão',
+      data: { key: request.params.key },
+    });
+
+  } catch (error) {
+    console.error('[NOTIFICATION_CONTROLLER] Erro ao restaurar template:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao restaurar template de notificação',
+    });
+  }
+};
@@ -7,21 +7,46 @@
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
+import { UserRole } from '@prisma/client';
 import * as PremioService from '../services/premio.service';
+import * as PremioRedemptionService from '../services/premioRedemption.service';
+import * as PremioPricingService from '../services/premioPricing.service';
+import * as PremioVariantService from '../services/premioVariant.service';
+import * as PremioReservationService from '../services/premioReservation.service';
+import * as PremioWishlistService from '../services/premioWishlist.service';
 import {
   CreatePremioData,
   UpdatePremioData,
   PremioFilters,
   UpdateStockData,
   BulkPremioImportData,
+  RedemptionRequestData,
+  RedemptionParams,
+  RedemptionFilters,
+  RedemptionNoteData,
+  ShipRedemptionData,
+  CancelRedemptionData,
+  SeasonalPremioData,
+  PriceWindowParams,
+  PremioVariantData,
+  UpdatePremioVariantData,
+  VariantParams,
+  CheckRedeemQuery,
+  ReserveStockData,
+  ReservationParams,
+  WishlistDemandQuery,
 } from '../schemas/premio.schema';
 
-// Tipagem para requisições com tipos específicos
-type PremioRequest<TParams = unknown, TQuery = unknown, TBody = unknown> = FastifyRequest<{
+// Tipagem das rotas (genérico do fastify.get/post...) e das requisições correspondentes
+export type PremioRoute<TParams = unknown, TQuery = unknown, TBody = unknown> = {
   Params: TParams;
   Querystring: TQuery;
   Body: TBody;
-}>;
+};
+
+type PremioRequest<TParams = unknown, TQuery = unknown, TBody = unknown> = FastifyRequest<
+  PremioRoute<TParams, TQuery, TBody>
+>;
 
 /**
  * Cria um novo prêmio.
@@ -120,11 +145,15 @@ export async function deletePremioHandler(
  * @access Autenticado
  */
 export async function redeemPremioHandler(
-  request: PremioRequest<{ id: string }>,
+  request: PremioRequest<{ id: string }, unknown, RedemptionRequestData | undefined>,
   reply: FastifyReply
 ) {
   try {
-    const result = await PremioService.redeemPremio(request.params.id, request.user!.id);
+    const result = await PremioService.redeemPremio(
+      request.params.id,
+      request.user!.id,
+      request.body ?? {}
+    );
     return reply.code(200).send(result);
   } catch (error) {
     console.error(
@@ -156,13 +185,14 @@ export async function getAvailablePremiosHandler(
  * @access Autenticado
  */
 export async function checkRedeemHandler(
-  request: PremioRequest<{ id: string }>,
+  request: PremioRequest<{ id: string }, CheckRedeemQuery>,
   reply: FastifyReply
 ) {
   try {
     const result = await PremioService.canUserRedeemPremio(
       request.params.id,
-      request.user!.id
+      request.user!.id,
+      request.query.variantId
     );
     return reply.code(200).send(result);
   } catch (error) {
@@ -197,14 +227,15 @@ export async function updateStockHandler(
  * @access ADMIN
  */
 export async function restockPremioHandler(
-  request: PremioRequest<{ id: string }, unknown, { quantity: number }>,
+  request: PremioRequest<{ id: string }, unknown, { quantity: number; variantId?: string }>,
   reply: FastifyReply
 ) {
   try {
     const result = await PremioService.restockPremio(
       request.params.id,
       request.body.quantity,
-      request.user!.id
+      request.user!.id,
+      request.body.variantId
     );
     return reply.code(200).send(result);
   } catch (error) {
@@ -267,15 +298,16 @@ export async function getPopularPremiosHandler(
  * @access Autenticado
  */
 export async function getRedemptionHistoryHandler(
-  request: PremioRequest<unknown, { page?: number; limit?: number }>,
+  request: PremioRequest<unknown, { page?: number; limit?: number; premioId?: string }>,
   reply: FastifyReply
 ) {
   try {
-    const { page = 1, limit = 10 } = request.query;
+    const { page = 1, limit = 10, premioId } = request.query;
     const result = await PremioService.getUserRedemptionHistory(
       request.user!.id,
       page,
-      limit
+      limit,
+      premioId
     );
     return reply.code(200).send(result);
   } catch (error) {
@@ -332,3 +364,437 @@ export async function bulkImportPremiosHandler(
     return reply.code(400).send(error);
   }
 }
+
+/**
+ * Responde erros das operações de resgate com o status HTTP adequado.
+ */
+function sendRedemptionError(reply: FastifyReply, error: unknown) {
+  const message = (error as Error).message;
+
+  if (message.includes('não encontrado')) {
+    return reply.code(404).send({ message });
+  }
+  if (message.includes('Acesso negado')) {
+    return reply.code(403).send({ message });
+  }
+  if (message.includes('Não é possível') || message.includes('alterado durante')) {
+    return reply.code(409).send({ message });
+  }
+  return reply.code(500).send({ message: 'Erro ao processar o resgate' });
+}
+
+/**
+ * Lista a fila de entrega de resgates.
+ * @access ADMIN
+ */
+export async function listRedemptionsHandler(
+  request: PremioRequest<unknown, RedemptionFilters, unknown>,
+  reply: FastifyReply
+) {
+  try {
+    const result = await PremioRedemptionService.listRedemptions(request.query);
+    return reply.code(200).send(result);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao listar resgates: ${error}`);
+    return reply.code(500).send({ message: 'Erro ao buscar resgates' });
+  }
+}
+
+/**
+ * Busca um resgate com o histórico de status.
+ * @access ADMIN ou dono do resgate
+ */
+export async function getRedemptionHandler(
+  request: PremioRequest<RedemptionParams>,
+  reply: FastifyReply
+) {
+  try {
+    const redemption = await PremioRedemptionService.getRedemptionById(request.params.redemptionId);
+    if (request.user!.role !== UserRole.ADMIN && redemption.userId !== request.user!.id) {
+      return reply.code(403).send({ message: 'Acesso negado ao resgate' });
+    }
+    return reply.code(200).send(redemption);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao buscar resgate ${request.params.redemptionId}: ${error}`);
+    return sendRedemptionError(reply, error);
+  }
+}
+
+/**
+ * Aprova um resgate.
+ * @access ADMIN
+ */
+export async function approveRedemptionHandler(
+  request: PremioRequest<RedemptionParams, unknown, RedemptionNoteData | undefined>,
+  reply: FastifyReply
+) {
+  try {
+    const redemption = await PremioRedemptionService.approveRedemption(
+      request.params.redemptionId,
+      request.user!.id,
+      request.body?.note
+    );
+    return reply.code(200).send(redemption);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao aprovar resgate ${request.params.redemptionId}: ${error}`);
+    return sendRedemptionError(reply, error);
+  }
+}
+
+/**
+ * Marca um resgate como enviado, com código de rastreio.
+ * @access ADMIN
+ */
+export async function shipRedemptionHandler(
+  request: PremioRequest<RedemptionParams, unknown, ShipRedemptionData>,
+  reply: FastifyReply
+) {
+  try {
+    const redemption = await PremioRedemptionService.shipRedemption(
+      request.params.redemptionId,
+      request.user!.id,
+      request.body
+    );
+    return reply.code(200).send(redemption);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao enviar resgate ${request.params.redemptionId}: ${error}`);
+    return sendRedemptionError(reply, error);
+  }
+}
+
+/**
+ * Confirma a entrega de um resgate.
+ * @access ADMIN
+ */
+export async function deliverRedemptionHandler(
+  request: PremioRequest<RedemptionParams, unknown, RedemptionNoteData | undefined>,
+  reply: FastifyReply
+) {
+  try {
+    const redemption = await PremioRedemptionService.deliverRedemption(
+      request.params.redemptionId,
+      request.user!.id,
+      request.body?.note
+    );
+    return reply.code(200).send(redemption);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao confirmar entrega do resgate ${request.params.redemptionId}: ${error}`);
+    return sendRedemptionError(reply, error);
+  }
+}
+
+/**
+ * Cancela um resgate devolvendo pontos e estoque.
+ * @access ADMIN ou dono do resgate (enquanto solicitado)
+ */
+export async function cancelRedemptionHandler(
+  request: PremioRequest<RedemptionParams, unknown, CancelRedemptionData>,
+  reply: FastifyReply
+) {
+  try {
+    const redemption = await PremioRedemptionService.cancelRedemption(
+      request.params.redemptionId,
+      { id: request.user!.id, role: request.user!.role },
+      request.body.reason
+    );
+    return reply.code(200).send(redemption);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao cancelar resgate ${request.params.redemptionId}: ${error}`);
+    return sendRedemptionError(reply, error);
+  }
+}
+
+/**
+ * Lista as janelas de preço sazonal de um prêmio.
+ * @access ADMIN
+ */
+export async function listPriceWindowsHandler(
+  request: PremioRequest<{ id: string }>,
+  reply: FastifyReply
+) {
+  try {
+    const windows = await PremioPricingService.listPriceWindows(request.params.id);
+    return reply.code(200).send(windows);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao listar janelas de preço do prêmio ${request.params.id}: ${error}`);
+    return reply.code(500).send({ message: 'Erro ao buscar janelas de preço' });
+  }
+}
+
+/**
+ * Agenda uma janela de preço sazonal para um prêmio.
+ * @access ADMIN
+ */
+export async function createPriceWindowHandler(
+  request: PremioRequest<{ id: string }, unknown, SeasonalPremioData>,
+  reply: FastifyReply
+) {
+  try {
+    const window = await PremioPricingService.createPriceWindow(
+      request.params.id,
+      request.body,
+      request.user!.id
+    );
+    return reply.code(201).send(window);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao agendar janela de preço do prêmio ${request.params.id}: ${error}`);
+    const message = (error as Error).message;
+    if (message.includes('não encontrado')) {
+      return reply.code(404).send({ message });
+    }
+    if (message.includes('Já existe')) {
+      return reply.code(409).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao agendar janela de preço' });
+  }
+}
+
+/**
+ * Remove uma janela de preço sazonal.
+ * @access ADMIN
+ */
+export async function deletePriceWindowHandler(
+  request: PremioRequest<PriceWindowParams>,
+  reply: FastifyReply
+) {
+  try {
+    await PremioPricingService.deletePriceWindow(request.params.windowId, request.user!.id);
+    return reply.code(204).send();
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao remover janela de preço ${request.params.windowId}: ${error}`);
+    const message = (error as Error).message;
+    if (message.includes('não encontrada')) {
+      return reply.code(404).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao remover janela de preço' });
+  }
+}
+
+/**
+ * Responde erros das operações de variação com o status HTTP adequado.
+ */
+function sendVariantError(reply: FastifyReply, error: unknown, fallbackMessage: string) {
+  const message = (error as Error).message;
+
+  if (message.includes('não encontrad')) {
+    return reply.code(404).send({ message });
+  }
+  if (message.includes('já cadastrado') || message.includes('Não é possível')) {
+    return reply.code(409).send({ message });
+  }
+  return reply.code(500).send({ message: fallbackMessage });
+}
+
+/**
+ * Lista as variações de um prêmio, incluindo as inativas.
+ * @access ADMIN
+ */
+export async function listVariantsHandler(
+  request: PremioRequest<{ id: string }>,
+  reply: FastifyReply
+) {
+  try {
+    const variants = await PremioVariantService.listVariants(request.params.id, true);
+    return reply.code(200).send(variants);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao listar variações do prêmio ${request.params.id}: ${error}`);
+    return reply.code(500).send({ message: 'Erro ao buscar variações do prêmio' });
+  }
+}
+
+/**
+ * Adiciona uma variação a um prêmio.
+ * @access ADMIN
+ */
+export async function createVariantHandler(
+  request: PremioRequest<{ id: string }, unknown, PremioVariantData>,
+  reply: FastifyReply
+) {
+  try {
+    const variant = await PremioVariantService.createVariant(
+      request.params.id,
+      request.body,
+      request.user!.id
+    );
+    return reply.code(201).send(variant);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao criar variação do prêmio ${request.params.id}: ${error}`);
+    return sendVariantError(reply, error, 'Erro ao criar variação');
+  }
+}
+
+/**
+ * Atualiza uma variação de prêmio.
+ * @access ADMIN
+ */
+export async function updateVariantHandler(
+  request: PremioRequest<VariantParams, unknown, UpdatePremioVariantData>,
+  reply: FastifyReply
+) {
+  try {
+    const variant = await PremioVariantService.updateVariant(
+      request.params.variantId,
+      request.body,
+      request.user!.id
+    );
+    return reply.code(200).send(variant);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao atualizar variação ${request.params.variantId}: ${error}`);
+    return sendVariantError(reply, error, 'Erro ao atualizar variação');
+  }
+}
+
+/**
+ * Remove uma variação de prêmio sem resgates.
+ * @access ADMIN
+ */
+export async function deleteVariantHandler(
+  request: PremioRequest<VariantParams>,
+  reply: FastifyReply
+) {
+  try {
+    await PremioVariantService.deleteVariant(request.params.variantId, request.user!.id);
+    return reply.code(204).send();
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao remover variação ${request.params.variantId}: ${error}`);
+    return sendVariantError(reply, error, 'Erro ao remover variação');
+  }
+}
+
+/**
+ * Reserva uma unidade do prêmio enquanto o vendedor confirma o resgate.
+ * @access Autenticado
+ */
+export async function reserveStockHandler(
+  request: PremioRequest<{ id: string }, unknown, ReserveStockData | undefined>,
+  reply: FastifyReply
+) {
+  try {
+    const reservation = await PremioReservationService.reserveStock(
+      request.params.id,
+      request.user!.id,
+      request.body?.variantId
+    );
+    return reply.code(201).send(reservation);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[CONTROLLER] Erro ao reservar estoque do prêmio ${request.params.id}: ${error}`);
+
+    if (message.includes('não encontrad')) {
+      return reply.code(404).send({ message });
+    }
+    if (
+      message.toLowerCase().includes('fora de estoque') ||
+      message.includes('Selecione') ||
+      message.includes('indisponível') ||
+      message.includes('Pontos insuficientes') ||
+      message.includes('Limite de reservas')
+    ) {
+      return reply.code(409).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao reservar estoque do prêmio' });
+  }
+}
+
+/**
+ * Libera a reserva de estoque do vendedor (resgate não confirmado).
+ * @access Autenticado
+ */
+export async function releaseReservationHandler(
+  request: PremioRequest<ReservationParams>,
+  reply: FastifyReply
+) {
+  try {
+    await PremioReservationService.releaseReservation(request.params.reservationId, request.user!.id);
+    return reply.code(204).send();
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[CONTROLLER] Erro ao liberar reserva ${request.params.reservationId}: ${error}`);
+
+    if (message.includes('não encontrada')) {
+      return reply.code(404).send({ message });
+    }
+    if (message.includes('Acesso negado')) {
+      return reply.code(403).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao liberar reserva' });
+  }
+}
+
+/**
+ * Retorna a lista de desejos do usuário logado com os pontos restantes e a data estimada.
+ * @access Autenticado
+ */
+export async function getWishlistHandler(request: PremioRequest, reply: FastifyReply) {
+  try {
+    const wishlist = await PremioWishlistService.getUserWishlist(request.user!.id);
+    return reply.code(200).send(wishlist);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao buscar lista de desejos de ${request.user!.email}: ${error}`);
+    return reply.code(500).send({ message: 'Erro ao buscar lista de desejos' });
+  }
+}
+
+/**
+ * Adiciona um prêmio à lista de desejos do usuário logado.
+ * @access Autenticado
+ */
+export async function addToWishlistHandler(
+  request: PremioRequest<{ id: string }>,
+  reply: FastifyReply
+) {
+  try {
+    const item = await PremioWishlistService.addToWishlist(request.user!.id, request.params.id);
+    return reply.code(201).send(item);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[CONTROLLER] Erro ao adicionar prêmio ${request.params.id} à lista de desejos: ${error}`);
+
+    if (message.includes('não encontrado')) {
+      return reply.code(404).send({ message });
+    }
+    if (message.includes('Limite')) {
+      return reply.code(409).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao adicionar prêmio à lista de desejos' });
+  }
+}
+
+/**
+ * Remove um prêmio da lista de desejos do usuário logado.
+ * @access Autenticado
+ */
+export async function removeFromWishlistHandler(
+  request: PremioRequest<{ id: string }>,
+  reply: FastifyReply
+) {
+  try {
+    await PremioWishlistService.removeFromWishlist(request.user!.id, request.params.id);
+    return reply.code(204).send();
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`[CONTROLLER] Erro ao remover prêmio ${request.params.id} da lista de desejos: ${error}`);
+
+    if (message.includes('não encontrado')) {
+      return reply.code(404).send({ message });
+    }
+    return reply.code(500).send({ message: 'Erro ao remover prêmio da lista de desejos' });
+  }
+}
+
+/**
+ * Retorna a demanda agregada da lista de desejos para planejamento de compras.
+ * @access ADMIN
+ */
+export async function getWishlistDemandHandler(
+  request: PremioRequest<unknown, WishlistDemandQuery>,
+  reply: FastifyReply
+) {
+  try {
+    const demand = await PremioWishlistService.getWishlistDemand(request.query.limit);
+    return reply.code(200).send(demand);
+  } catch (error) {
+    console.error(`[CONTROLLER] Erro ao buscar demanda da lista de desejos: ${error}`);
+    return reply.code(500).send({ message: 'Erro ao buscar demanda da lista de desejos' });
+  }
+}
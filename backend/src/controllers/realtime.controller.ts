@@ -0,0 +1,82 @@
+/**
+ * @file realtime.controller.ts
+ * @version 2.0.0
+ * @description Controller do canal de atualizações em tempo real (Server-Sent Events).
+ * A conexão usa o mesmo JWT validado pelo middleware authenticate.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Abertura do stream SSE do usuário autenticado
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { registerRealtimeClient } from '../services/realtime.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Tempo sugerido ao navegador para reconectar após queda
+ */
+const RECONNECT_DELAY = 5000; // 5 segundos
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Obtém expiração do token (ms) para encerrar o stream quando ele vencer
+ */
+const getTokenExpiration = (authorization?: string): number | undefined => {
+  const token = authorization?.startsWith('Bearer ') ? authorization.substring(7) : undefined;
+  if (!token) return undefined;
+
+  const decoded = jwt.decode(token);
+
+  return decoded && typeof decoded === 'object' && decoded.exp ? decoded.exp * 1000 : undefined;
+};
+
+// ==================== HANDLERS ====================
+
+/**
+ * Handler para abrir o stream de eventos do usuário autenticado
+ */
+export const streamHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  if (!request.user) {
+    return reply.code(401).send({
+      success: false,
+      error: 'Não autenticado',
+      message: 'Usuário não autenticado',
+    });
+  }
+
+  // A partir daqui a resposta é controlada manualmente (conexão permanece aberta)
+  reply.hijack();
+
+  const stream = reply.raw;
+
+  // Preserva headers já definidos pelos plugins (CORS, helmet)
+  for (const [name, value] of Object.entries(reply.getHeaders())) {
+    if (value !== undefined) stream.setHeader(name, value);
+  }
+
+  stream.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  stream.write(`retry: ${RECONNECT_DELAY}\n\n`);
+
+  const unregister = registerRealtimeClient(
+    { id: request.user.id, role: request.user.role, sessionId: request.sessionId },
+    stream,
+    getTokenExpiration(request.headers.authorization)
+  );
+
+  request.raw.on('close', unregister);
+
+  console.log(`[REALTIME_CONTROLLER] Stream aberto para ${request.user.email}`);
+};
@@ -12,6 +12,8 @@
  * - Sistema de pontuação e níveis
  * - Operações administrativas em lote
  * - Relatórios e estatísticas detalhadas
+ * - Lotes de pontos com validade e passivo de pontos em aberto
+ * - Extrato de pontos e conciliação do saldo
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
@@ -39,7 +41,9 @@ import {
   UpdateUserPointsData,
   UserStatsQuery,
   CheckAvailabilityData,
-  BulkUserImportData
+  BulkUserImportData,
+  PointStatementFilters,
+  ReconcileUserPointsData
 } from '../schemas/user.schema';
 import {
   createUser,
@@ -56,6 +60,8 @@ import {
   getUsersByOpticCNPJ,
   getOpticDataByCNPJ
 } from '../services/user.service';
+import { getPointsLiability, getUserPointLots } from '../services/pointLot.service';
+import { getUserPointStatement, reconcileUserPoints } from '../services/pointLedger.service';
 
 // ==================== INTERFACES DE REQUEST ====================
 
@@ -95,10 +101,24 @@ interface ManagerSellersRequest extends FastifyRequest {
   Querystring: Partial<ManagerSellersQuery>;
 }
 
-interface UpdatePointsRequest extends FastifyRequest {
+type UpdatePointsRequest = FastifyRequest<{
   Params: { id: string };
   Body: UpdateUserPointsData;
-}
+}>;
+
+type UserPointLotsRequest = FastifyRequest<{
+  Params: { id: string };
+}>;
+
+type PointStatementRequest = FastifyRequest<{
+  Params: { id: string };
+  Querystring: PointStatementFilters;
+}>;
+
+type ReconcilePointsRequest = FastifyRequest<{
+  Params: { id: string };
+  Body: ReconcileUserPointsData;
+}>;
 
 interface UserStatsRequest extends FastifyRequest {
   Querystring: UserStatsQuery;
@@ -626,7 +646,7 @@ export const updateUserPointsHandler = async (
 
     const { id } = request.params;
     
-    const result = await updateUserPoints(id, request.body);
+    const result = await updateUserPoints(id, request.body, request.user.id);
 
     console.log(`[USER_CONTROLLER] Pontos atualizados: ${id} → ${result.newPoints} (${result.newLevel}) por ${request.user.email}`);
 
@@ -665,6 +685,203 @@ export const updateUserPointsHandler = async (
   }
 };
 
+/**
+ * Handler para listar os lotes de pontos do usuário e os pontos a expirar
+ */
+export const getUserPointLotsHandler = async (
+  request: UserPointLotsRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { id } = request.params;
+
+    const user = await getUserById(id);
+
+    if (!user) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Usuário não encontrado',
+        message: 'O usuário solicitado não existe',
+      });
+    }
+
+    const canView = request.user && (
+      request.user.role === UserRole.ADMIN ||
+      request.user.id === id ||
+      (request.user.role === UserRole.GERENTE && user.managerId === request.user.id)
+    );
+
+    if (!canView) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Sem permissão para ver os pontos deste usuário',
+      });
+    }
+
+    const summary = await getUserPointLots(id);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Lotes de pontos obtidos com sucesso',
+      data: summary,
+    });
+
+  } catch (error) {
+    console.error('[USER_CONTROLLER] Erro ao obter lotes de pontos:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao carregar lotes de pontos',
+    });
+  }
+};
+
+/**
+ * Handler para o extrato de pontos do usuário
+ */
+export const getUserPointStatementHandler = async (
+  request: PointStatementRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    const { id } = request.params;
+
+    const user = await getUserById(id);
+
+    if (!user) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Usuário não encontrado',
+        message: 'O usuário solicitado não existe',
+      });
+    }
+
+    const canView = request.user && (
+      request.user.role === UserRole.ADMIN ||
+      request.user.id === id ||
+      (request.user.role === UserRole.GERENTE && user.managerId === request.user.id)
+    );
+
+    if (!canView) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Sem permissão para ver o extrato deste usuário',
+      });
+    }
+
+    const statement = await getUserPointStatement(id, request.query);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Extrato de pontos obtido com sucesso',
+      data: statement.data,
+      balance: statement.balance,
+      pagination: statement.pagination,
+    });
+
+  } catch (error) {
+    console.error('[USER_CONTROLLER] Erro ao obter extrato de pontos:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao carregar extrato de pontos',
+    });
+  }
+};
+
+/**
+ * Handler para conciliar o saldo de pontos com o extrato
+ */
+export const reconcileUserPointsHandler = async (
+  request: ReconcilePointsRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem conciliar pontos',
+      });
+    }
+
+    const { id } = request.params;
+    const { apply } = request.body;
+
+    const result = await reconcileUserPoints(id, apply);
+
+    console.log(`[USER_CONTROLLER] Pontos conciliados: ${id} (diferença ${result.difference}, corrigido: ${result.corrected}) por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: result.difference === 0
+        ? 'Saldo de pontos confere com o extrato'
+        : result.corrected
+          ? 'Saldo de pontos corrigido a partir do extrato'
+          : 'Saldo de pontos diverge do extrato',
+      data: result,
+    });
+
+  } catch (error) {
+    console.error('[USER_CONTROLLER] Erro ao conciliar pontos:', error);
+
+    let statusCode = 500;
+    let errorMessage = 'Erro interno ao conciliar pontos';
+
+    if (error instanceof Error) {
+      if (error.message.includes('não encontrado')) {
+        statusCode = 404;
+      }
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao conciliar pontos',
+      message: errorMessage,
+    });
+  }
+};
+
+/**
+ * Handler para obter o passivo de pontos em aberto
+ */
+export const getPointsLiabilityHandler = async (
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem ver o passivo de pontos',
+      });
+    }
+
+    const liability = await getPointsLiability();
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Passivo de pontos obtido com sucesso',
+      data: liability,
+    });
+
+  } catch (error) {
+    console.error('[USER_CONTROLLER] Erro ao obter passivo de pontos:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao calcular passivo de pontos',
+    });
+  }
+};
+
 /**
  * Handler para obter estatísticas gerais de usuários
  */
@@ -15,7 +15,7 @@
  */
 
 import { FastifyRequest, FastifyReply } from 'fastify';
-import { UserRole, ValidationStatus } from '@prisma/client';
+import { UserRole, ValidationStatus, TargetField } from '@prisma/client';
 import { 
   validationJobParamsSchema,
   validationHistoryFiltersSchema,
@@ -26,7 +26,10 @@ import {
   ValidationConfigData,
   ValidationHistoryFilters,
   ReprocessValidationJobData,
-  ValidationReportQuery
+  ValidationReportQuery,
+  SaveMappingTemplateData,
+  UpdateMappingTemplateData,
+  MappingTemplateFilters
 } from '../schemas/validation.schema';
 import {
   uploadValidationFile,
@@ -38,20 +41,25 @@ import {
   getValidationJobDetails,
   downloadValidationResults,
   getValidationStats,
-  previewValidationFile
+  previewValidationFile,
+  cancelValidationJob,
+  SpreadsheetFileInput,
+  SpreadsheetError,
+  SpreadsheetErrorCode
 } from '../services/validation.service';
+import { notifyValidationQueue } from '../services/validationQueue.service';
+import {
+  listMappingTemplates,
+  getMappingTemplateById,
+  createMappingTemplate,
+  updateMappingTemplate,
+  deleteMappingTemplate,
+  registerMappingTemplateUsage,
+  suggestMappingTemplate
+} from '../services/mappingTemplate.service';
 
 // ==================== INTERFACES DE REQUEST ====================
 
-interface UploadFileRequest extends FastifyRequest {
-  Body: {
-    file: any; // Seria File no browser
-    config: ValidationConfigData;
-    previewOnly?: boolean;
-    maxRows?: number;
-  };
-}
-
 interface ValidationJobParamsRequest extends FastifyRequest {
   Params: { id: string };
 }
@@ -74,20 +82,121 @@ interface DownloadResultsRequest extends FastifyRequest {
   Querystring: { format?: 'csv' | 'excel' | 'json' };
 }
 
-interface PreviewFileRequest extends FastifyRequest {
-  Body: {
-    file: any;
-    sampleSize?: number;
-  };
+/**
+ * Conteúdo de um upload multipart (arquivo em memória + campos de texto)
+ */
+interface MultipartUpload {
+  file?: SpreadsheetFileInput;
+  fields: Record<string, string>;
 }
 
+// ==================== UTILITÁRIOS DE UPLOAD ====================
+
+/**
+ * Lê o corpo multipart: primeiro arquivo enviado e demais campos de texto
+ */
+const readMultipartUpload = async (request: FastifyRequest): Promise<MultipartUpload> => {
+  if (!request.isMultipart()) {
+    throw new SpreadsheetError('INVALID_REQUEST', 'Requisição deve ser multipart/form-data');
+  }
+
+  const upload: MultipartUpload = { fields: {} };
+
+  for await (const part of request.parts()) {
+    if (part.type === 'file') {
+      if (upload.file) {
+        // Apenas um arquivo por validação; descarta os demais
+        part.file.resume();
+        continue;
+      }
+
+      // toBuffer() lança FST_REQ_FILE_TOO_LARGE se exceder o limite do plugin
+      const buffer = await part.toBuffer();
+      upload.file = {
+        filename: part.filename,
+        mimetype: part.mimetype,
+        buffer,
+        size: buffer.length,
+      };
+    } else {
+      upload.fields[part.fieldname] = String(part.value ?? '');
+    }
+  }
+
+  return upload;
+};
+
+/**
+ * Converte campo numérico opcional do formulário
+ */
+const parseOptionalIntField = (value?: string): number | undefined => {
+  if (value === undefined || value === '') return undefined;
+
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Valida o campo "config" (JSON) enviado junto com a planilha
+ */
+const parseUploadConfig = (rawConfig?: string): ValidationConfigData => {
+  if (!rawConfig) {
+    throw new SpreadsheetError('INVALID_REQUEST', 'Configuração de validação inválida: campo "config" é obrigatório');
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(rawConfig);
+  } catch {
+    throw new SpreadsheetError('INVALID_REQUEST', 'Configuração de validação inválida: JSON malformado');
+  }
+
+  const parsed = validationConfigSchema.safeParse(config);
+  if (!parsed.success) {
+    const details = parsed.error.issues.map(issue => issue.message).join('; ');
+    throw new SpreadsheetError('INVALID_REQUEST', `Configuração de validação inválida: ${details}`);
+  }
+
+  return parsed.data as ValidationConfigData;
+};
+
+/**
+ * Identifica erro de limite de tamanho lançado pelo @fastify/multipart
+ */
+const isFileTooLargeError = (error: unknown): boolean => {
+  return (error as { code?: string })?.code === 'FST_REQ_FILE_TOO_LARGE';
+};
+
+/**
+ * Status HTTP de cada motivo de recusa da planilha
+ */
+const SPREADSHEET_ERROR_STATUS: Record<SpreadsheetErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNSUPPORTED_FORMAT: 400,
+  FILE_TOO_LARGE: 413,
+  EMPTY_FILE: 400,
+  SHEET_NOT_FOUND: 400,
+  NO_DATA: 400,
+  HEADER_NOT_FOUND: 400,
+  TOO_MANY_ROWS: 413,
+};
+
+/**
+ * Resolve o status HTTP de um erro de upload/pré-visualização (500 se não for erro de planilha)
+ */
+const getSpreadsheetErrorStatus = (error: unknown): number => {
+  if (isFileTooLargeError(error)) return 413;
+  if (error instanceof SpreadsheetError) return SPREADSHEET_ERROR_STATUS[error.code];
+  return 500;
+};
+
 // ==================== HANDLERS PRINCIPAIS ====================
 
 /**
  * Handler para upload de arquivo de validação
  */
 export const uploadValidationFileHandler = async (
-  request: UploadFileRequest,
+  request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> => {
   try {
@@ -99,7 +208,7 @@ export const uploadValidationFileHandler = async (
       });
     }
 
-    const { file, config, previewOnly = false, maxRows } = request.body;
+    const { file, fields } = await readMultipartUpload(request);
 
     if (!file) {
       return reply.code(400).send({
@@ -109,6 +218,10 @@ export const uploadValidationFileHandler = async (
       });
     }
 
+    const config = parseUploadConfig(fields.config);
+    const previewOnly = fields.previewOnly === 'true';
+    const maxRows = parseOptionalIntField(fields.maxRows);
+
     const validationJob = await uploadValidationFile({
       file,
       config,
@@ -117,11 +230,20 @@ export const uploadValidationFileHandler = async (
       adminId: request.user.id,
     });
 
+    // Processamento completo roda em background
+    if (!previewOnly) {
+      notifyValidationQueue();
+
+      if (config.templateId) {
+        await registerMappingTemplateUsage(config.templateId);
+      }
+    }
+
     const message = previewOnly ? 
       'Pré-visualização do arquivo processada com sucesso' :
-      'Arquivo enviado para validação com sucesso';
+      'Arquivo enviado para a fila de validação';
 
-    console.log(`[VALIDATION_CONTROLLER] Upload realizado: ${file.name} por ${request.user.email} (preview: ${previewOnly})`);
+    console.log(`[VALIDATION_CONTROLLER] Upload realizado: ${file.filename} por ${request.user.email} (preview: ${previewOnly})`);
 
     return reply.code(201).send({
       success: true,
@@ -132,17 +254,12 @@ export const uploadValidationFileHandler = async (
   } catch (error) {
     console.error('[VALIDATION_CONTROLLER] Erro no upload:', error);
     
-    let statusCode = 500;
+    const statusCode = getSpreadsheetErrorStatus(error);
     let errorMessage = 'Erro interno no upload do arquivo';
 
-    if (error instanceof Error) {
-      if (error.message.includes('muito grande') ||
-          error.message.includes('não suportado') ||
-          error.message.includes('inválido')) {
-        statusCode = 400;
-      } else if (error.message.includes('excedido')) {
-        statusCode = 413; // Payload too large
-      }
+    if (isFileTooLargeError(error)) {
+      errorMessage = 'Arquivo muito grande (máximo 50MB)';
+    } else if (error instanceof Error) {
       errorMessage = error.message;
     }
 
@@ -296,12 +413,13 @@ export const reprocessValidationJobHandler = async (
     }
 
     const reprocessedJob = await reprocessValidationJob(id, request.body);
+    notifyValidationQueue();
 
     console.log(`[VALIDATION_CONTROLLER] Job reprocessado: ${id} por ${request.user.email}`);
 
     return reply.code(200).send({
       success: true,
-      message: 'Job reprocessado com sucesso',
+      message: 'Job enviado para reprocessamento',
       data: { validationJob: reprocessedJob },
     });
 
@@ -315,6 +433,7 @@ export const reprocessValidationJobHandler = async (
       if (error.message.includes('não encontrado')) {
         statusCode = 404;
       } else if (error.message.includes('não é possível') ||
+                 error.message.includes('Não é possível') ||
                  error.message.includes('ainda está processando')) {
         statusCode = 400;
       }
@@ -574,7 +693,7 @@ export const downloadValidationResultsHandler = async (
  * Handler para pré-visualizar arquivo antes do upload
  */
 export const previewValidationFileHandler = async (
-  request: PreviewFileRequest,
+  request: FastifyRequest,
   reply: FastifyReply
 ): Promise<void> => {
   try {
@@ -586,7 +705,7 @@ export const previewValidationFileHandler = async (
       });
     }
 
-    const { file, sampleSize = 10 } = request.body;
+    const { file, fields } = await readMultipartUpload(request);
 
     if (!file) {
       return reply.code(400).send({
@@ -596,14 +715,26 @@ export const previewValidationFileHandler = async (
       });
     }
 
-    const preview = await previewValidationFile(file, sampleSize);
+    const sampleSize = Math.min(Math.max(parseOptionalIntField(fields.sampleSize) ?? 10, 1), 100);
+
+    const preview = await previewValidationFile(file, sampleSize, {
+      sheetName: fields.sheetName || undefined,
+      headerRow: parseOptionalIntField(fields.headerRow),
+    });
+
+    // Sugere template salvo a partir dos cabeçalhos (priorizando a distribuidora informada)
+    const suggestedTemplate = await suggestMappingTemplate(
+      preview.headers,
+      fields.distributorCnpj || undefined
+    );
 
     return reply.code(200).send({
       success: true,
       message: 'Pré-visualização gerada com sucesso',
       data: {
         preview,
-        fileName: file.name,
+        suggestedTemplate,
+        fileName: file.filename,
         fileSize: file.size,
         sampleSize,
         previewedAt: new Date().toISOString(),
@@ -613,16 +744,13 @@ export const previewValidationFileHandler = async (
   } catch (error) {
     console.error('[VALIDATION_CONTROLLER] Erro na pré-visualização:', error);
     
-    let statusCode = 500;
+    const statusCode = getSpreadsheetErrorStatus(error);
     let errorMessage = 'Erro interno na pré-visualização';
 
-    if (error instanceof Error) {
-      if (error.message.includes('formato') ||
-          error.message.includes('inválido') ||
-          error.message.includes('não suportado')) {
-        statusCode = 400;
-        errorMessage = error.message;
-      }
+    if (isFileTooLargeError(error)) {
+      errorMessage = 'Arquivo muito grande (máximo 50MB)';
+    } else if (error instanceof SpreadsheetError) {
+      errorMessage = error.message;
     }
 
     return reply.code(statusCode).send({
@@ -718,28 +846,29 @@ export const cancelValidationJobHandler = async (
     }
 
     // Verifica se pode ser cancelado
-    if (job.status !== ValidationStatus.PROCESSANDO) {
+    if (job.status !== ValidationStatus.PROCESSANDO && job.status !== ValidationStatus.NA_FILA) {
       return reply.code(400).send({
         success: false,
         error: 'Job não pode ser cancelado',
-        message: 'Apenas jobs em processamento podem ser cancelados',
+        message: 'Apenas jobs na fila ou em processamento podem ser cancelados',
       });
     }
 
-    // Por enquanto, apenas marca como falhou (implementar cancelamento real depois)
-    const cancelledJob = await reprocessValidationJob(id, {
-      jobId: id,
-      forceReprocess: false,
-      newConfig: undefined,
-    });
+    // Na fila cancela imediatamente; em processamento para ao fim do lote atual
+    const cancelledJob = await cancelValidationJob(id, reason, request.user.id);
+    const isCancelled = cancelledJob.status === ValidationStatus.CANCELADO;
 
-    console.log(`[VALIDATION_CONTROLLER] Job cancelado: ${id} por ${request.user.email} - Motivo: ${reason}`);
+    console.log(`[VALIDATION_CONTROLLER] Cancelamento de job: ${id} por ${request.user.email} - Motivo: ${reason}`);
 
     return reply.code(200).send({
       success: true,
-      message: 'Job de validação cancelado com sucesso',
+      message: isCancelled ?
+        'Job de validação cancelado com sucesso' :
+        'Cancelamento solicitado; o job será interrompido ao fim do lote atual',
       data: {
         jobId: id,
+        status: cancelledJob.status,
+        rowsProcessed: cancelledJob.rowsProcessed,
         cancelledBy: request.user.email,
         cancelledAt: new Date().toISOString(),
         reason,
@@ -749,10 +878,18 @@ export const cancelValidationJobHandler = async (
   } catch (error) {
     console.error('[VALIDATION_CONTROLLER] Erro ao cancelar job:', error);
 
-    return reply.code(500).send({
+    let statusCode = 500;
+    let errorMessage = 'Erro ao cancelar job de validação';
+
+    if (error instanceof Error && error.message.includes('podem ser cancelados')) {
+      statusCode = 400;
+      errorMessage = error.message;
+    }
+
+    return reply.code(statusCode).send({
       success: false,
-      error: 'Erro interno',
-      message: 'Erro ao cancelar job de validação',
+      error: statusCode === 400 ? 'Job não pode ser cancelado' : 'Erro interno',
+      message: errorMessage,
     });
   }
 };
@@ -844,7 +981,7 @@ export const validateMappingConfigHandler = async (
  * Handler para obter modelos/templates de mapeamento
  */
 export const getMappingTemplatesHandler = async (
-  request: FastifyRequest,
+  request: FastifyRequest<{ Querystring: MappingTemplateFilters }>,
   reply: FastifyReply
 ): Promise<void> => {
   try {
@@ -856,54 +993,14 @@ export const getMappingTemplatesHandler = async (
       });
     }
 
-    // Templates pré-definidos para diferentes tipos de planilha
-    const templates = [
-      {
-        id: 'standard',
-        name: 'Modelo Padrão EPS',
-        description: 'Template padrão para planilhas de venda EPS',
-        mappings: [
-          { sourceColumn: 'NUM_PEDIDO', targetField: 'ORDER_ID' },
-          { sourceColumn: 'CPF_VENDEDOR', targetField: 'SELLER_CPF' },
-          { sourceColumn: 'CNPJ_OTICA', targetField: 'OPTIC_CNPJ' },
-          { sourceColumn: 'DATA_VENDA', targetField: 'SALE_DATE' },
-          { sourceColumn: 'PRODUTO', targetField: 'PRODUCT_NAME' },
-          { sourceColumn: 'VALOR', targetField: 'SALE_VALUE' },
-        ],
-      },
-      {
-        id: 'simple',
-        name: 'Modelo Simples',
-        description: 'Template simplificado com campos essenciais',
-        mappings: [
-          { sourceColumn: 'PEDIDO', targetField: 'ORDER_ID' },
-          { sourceColumn: 'CPF', targetField: 'SELLER_CPF' },
-          { sourceColumn: 'DATA', targetField: 'SALE_DATE' },
-        ],
-      },
-      {
-        id: 'complete',
-        name: 'Modelo Completo',
-        description: 'Template com todos os campos disponíveis',
-        mappings: [
-          { sourceColumn: 'NUMERO_PEDIDO', targetField: 'ORDER_ID' },
-          { sourceColumn: 'PEDIDO_ALTERNATIVO_1', targetField: 'ORDER_ID_2' },
-          { sourceColumn: 'PEDIDO_ALTERNATIVO_2', targetField: 'ORDER_ID_3' },
-          { sourceColumn: 'CPF_VENDEDOR', targetField: 'SELLER_CPF' },
-          { sourceColumn: 'CNPJ_OTICA', targetField: 'OPTIC_CNPJ' },
-          { sourceColumn: 'DATA_VENDA', targetField: 'SALE_DATE' },
-          { sourceColumn: 'NOME_PRODUTO', targetField: 'PRODUCT_NAME' },
-          { sourceColumn: 'VALOR_VENDA', targetField: 'SALE_VALUE' },
-        ],
-      },
-    ];
+    const templates = await listMappingTemplates(request.query);
 
     return reply.code(200).send({
       success: true,
       message: 'Templates de mapeamento obtidos com sucesso',
       data: {
         templates,
-        availableFields: Object.values(require('@prisma/client').TargetField),
+        availableFields: Object.values(TargetField),
         count: templates.length,
       },
     });
@@ -918,3 +1015,189 @@ export const getMappingTemplatesHandler = async (
     });
   }
 };
+
+/**
+ * Handler para buscar template de mapeamento por ID
+ */
+export const getMappingTemplateHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role === UserRole.VENDEDOR) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Permissões insuficientes para ver templates',
+      });
+    }
+
+    const template = await getMappingTemplateById(request.params.id);
+
+    if (!template) {
+      return reply.code(404).send({
+        success: false,
+        error: 'Template não encontrado',
+        message: 'O template de mapeamento não existe',
+      });
+    }
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Template encontrado',
+      data: { template },
+    });
+
+  } catch (error) {
+    console.error('[VALIDATION_CONTROLLER] Erro ao buscar template:', error);
+
+    return reply.code(500).send({
+      success: false,
+      error: 'Erro interno',
+      message: 'Erro ao buscar template de mapeamento',
+    });
+  }
+};
+
+/**
+ * Mapeia erros de template para status HTTP
+ */
+const getTemplateErrorStatus = (error: unknown): number => {
+  if (!(error instanceof Error)) return 500;
+
+  if (error.message.includes('não encontrado')) return 404;
+  if (error.message.includes('Já existe')) return 409;
+  if (error.message.includes('não podem ser alterados') ||
+      error.message.includes('mais de uma vez') ||
+      error.message.includes('não mapeados')) {
+    return 400;
+  }
+
+  return 500;
+};
+
+/**
+ * Handler para criar template de mapeamento
+ */
+export const createMappingTemplateHandler = async (
+  request: FastifyRequest<{ Body: SaveMappingTemplateData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem criar templates',
+      });
+    }
+
+    const template = await createMappingTemplate(request.body, request.user.id);
+
+    console.log(`[VALIDATION_CONTROLLER] Template criado: ${template.name} por ${request.user.email}`);
+
+    return reply.code(201).send({
+      success: true,
+      message: 'Template de mapeamento criado com sucesso',
+      data: { template },
+    });
+
+  } catch (error) {
+    console.error('[VALIDATION_CONTROLLER] Erro ao criar template:', error);
+
+    const statusCode = getTemplateErrorStatus(error);
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao criar template',
+      message: statusCode !== 500 && error instanceof Error ? 
+        error.message : 
+        'Erro interno ao criar template de mapeamento',
+    });
+  }
+};
+
+/**
+ * Handler para atualizar template de mapeamento
+ */
+export const updateMappingTemplateHandler = async (
+  request: FastifyRequest<{ Params: { id: string }; Body: UpdateMappingTemplateData }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem alterar templates',
+      });
+    }
+
+    const template = await updateMappingTemplate(request.params.id, request.body);
+
+    console.log(`[VALIDATION_CONTROLLER] Template atualizado: ${template.name} por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Template de mapeamento atualizado com sucesso',
+      data: { template },
+    });
+
+  } catch (error) {
+    console.error('[VALIDATION_CONTROLLER] Erro ao atualizar template:', error);
+
+    const statusCode = getTemplateErrorStatus(error);
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao atualizar template',
+      message: statusCode !== 500 && error instanceof Error ? 
+        error.message : 
+        'Erro interno ao atualizar template de mapeamento',
+    });
+  }
+};
+
+/**
+ * Handler para excluir template de mapeamento
+ */
+export const deleteMappingTemplateHandler = async (
+  request: FastifyRequest<{ Params: { id: string } }>,
+  reply: FastifyReply
+): Promise<void> => {
+  try {
+    if (!request.user || request.user.role !== UserRole.ADMIN) {
+      return reply.code(403).send({
+        success: false,
+        error: 'Acesso negado',
+        message: 'Apenas administradores podem excluir templates',
+      });
+    }
+
+    await deleteMappingTemplate(request.params.id);
+
+    console.log(`[VALIDATION_CONTROLLER] Template excluído: ${request.params.id} por ${request.user.email}`);
+
+    return reply.code(200).send({
+      success: true,
+      message: 'Template de mapeamento excluído com sucesso',
+      data: {
+        deletedId: request.params.id,
+        deletedAt: new Date().toISOString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('[VALIDATION_CONTROLLER] Erro ao excluir template:', error);
+
+    const statusCode = getTemplateErrorStatus(error);
+
+    return reply.code(statusCode).send({
+      success: false,
+      error: 'Erro ao excluir template',
+      message: statusCode !== 500 && error instanceof Error ? 
+        error.message : 
+        'Erro interno ao excluir template de mapeamento',
+    });
+  }
+};
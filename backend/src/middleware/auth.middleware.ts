@@ -13,12 +13,14 @@
  * - Tratamento de erros padronizado
  * - Cache de usuários para performance
  * - Rate limiting por usuário
+ * - Verificação de sessão revogada a cada requisição
  */
 
 import { FastifyRequest, FastifyReply, preHandlerHookHandler } from 'fastify';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../../lib/prismaClient';
 import { UserRole, UserStatus } from '@prisma/client';
+import { isSessionActive } from '../services/session.service';
 
 /**
  * Interface para o payload do JWT
@@ -27,6 +29,8 @@ interface JwtPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sid: string;
+  jti: string;
   iat: number;
   exp: number;
 }
@@ -52,6 +56,7 @@ interface AuthenticatedUser {
 declare module 'fastify' {
   interface FastifyRequest {
     user?: AuthenticatedUser;
+    sessionId?: string;
     isAuthenticated: boolean;
   }
 }
@@ -271,6 +276,14 @@ export const authenticate: preHandlerHookHandler = async (
       });
     }
 
+    // Sessão revogada (logout, bloqueio, reuso de refresh token) invalida o token na hora
+    if (!payload.sid || !(await isSessionActive(payload.sid, payload.userId))) {
+      return reply.code(401).send({
+        error: 'Sessão encerrada',
+        message: 'Sua sessão foi encerrada. Faça login novamente',
+      });
+    }
+
     // Busca usuário
     const user = await fetchUser(payload.userId);
     
@@ -294,6 +307,7 @@ export const authenticate: preHandlerHookHandler = async (
 
     // Define usuário na requisição
     request.user = user;
+    request.sessionId = payload.sid;
     request.isAuthenticated = true;
 
     // Log da requisição autenticada (apenas em desenvolvimento)
@@ -398,12 +412,15 @@ export const optionalAuth: preHandlerHookHandler = async (
     if (!token) return;
 
     const payload = verifyToken(token);
-    if (!payload) return;
+    if (!payload || !payload.sid) return;
+
+    if (!(await isSessionActive(payload.sid, payload.userId))) return;
 
     const user = await fetchUser(payload.userId);
     if (!user) return;
 
     request.user = user;
+    request.sessionId = payload.sid;
     request.isAuthenticated = true;
 
   } catch (error) {
@@ -12,6 +12,8 @@
  * - Endpoints públicos e protegidos
  * - Rate limiting configurado
  * - Documentação OpenAPI automática
+ * - Recuperação de senha e verificação de e-mail
+ * - Chave PIX do usuário na resposta de login
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
@@ -24,7 +26,10 @@ import {
   updateProfileSchema,
   checkEmailSchema,
   checkCPFSchema,
-  validateCNPJSchema
+  validateCNPJSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  tokenSchema
 } from '../schemas/auth.schema';
 import {
   loginHandler,
@@ -43,7 +48,12 @@ import {
   getOpticByCNPJHandler,
   getLoginAttemptsHandler,
   authHealthCheckHandler,
-  invalidateUserSessionsHandler
+  invalidateUserSessionsHandler,
+  forgotPasswordHandler,
+  validateResetTokenHandler,
+  resetPasswordHandler,
+  verifyEmailHandler,
+  resendVerificationHandler
 } from '../controllers/auth.controller';
 import { authenticate, optionalAuth } from '../middleware/auth.middleware';
 
@@ -57,6 +67,9 @@ const userResponseSchema = z.object({
   avatarUrl: z.string(),
   level: z.string(),
   points: z.number(),
+  emailVerifiedAt: z.string().nullable(),
+  pixKeyType: z.string().nullable(),
+  pixKey: z.string().nullable(),
 });
 
 const loginResponseSchema = z.object({
@@ -262,6 +275,7 @@ export async function authRoutes(
               type: 'object',
               properties: {
                 token: { type: 'string' },
+                refreshToken: { type: 'string' },
                 expiresAt: { type: 'string' },
               },
             },
@@ -279,6 +293,133 @@ export async function authRoutes(
     },
   }, refreshTokenHandler);
 
+  /**
+   * POST /api/auth/forgot-password
+   * Solicitação de redefinição de senha (envia link por e-mail)
+   */
+  fastify.post('/forgot-password', {
+    schema: {
+      description: 'Solicita redefinição de senha. Responde sempre com sucesso para não revelar e-mails cadastrados',
+      tags: ['Autenticação'],
+      body: forgotPasswordSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, forgotPasswordHandler);
+
+  /**
+   * GET /api/auth/reset-password/:token
+   * Verificação do token de redefinição antes de exibir o formulário
+   */
+  fastify.get('/reset-password/:token', {
+    schema: {
+      description: 'Verifica se token de redefinição de senha é válido',
+      tags: ['Autenticação'],
+      params: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+        },
+        required: ['token'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                email: { type: 'string' },
+                expiresAt: { type: 'string' },
+              },
+            },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, validateResetTokenHandler);
+
+  /**
+   * POST /api/auth/reset-password
+   * Redefinição de senha com token (uso único)
+   */
+  fastify.post('/reset-password', {
+    schema: {
+      description: 'Redefine senha com token recebido por e-mail e encerra todas as sessões',
+      tags: ['Autenticação'],
+      body: resetPasswordSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, resetPasswordHandler);
+
+  /**
+   * POST /api/auth/verify-email
+   * Confirmação de e-mail com token
+   */
+  fastify.post('/verify-email', {
+    schema: {
+      description: 'Confirma e-mail do usuário com token recebido',
+      tags: ['Autenticação'],
+      body: tokenSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                email: { type: 'string' },
+              },
+            },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, verifyEmailHandler);
+
   /**
    * GET /api/auth/health
    * Health check do serviço de autenticação
@@ -343,6 +484,26 @@ export async function authRoutes(
       },
     }, changePasswordHandler);
 
+    /**
+     * POST /api/auth/resend-verification
+     * Reenvio do e-mail de verificação
+     */
+    fastify.post('/resend-verification', {
+      schema: {
+        description: 'Reenvia e-mail de verificação ao usuário autenticado',
+        tags: ['Perfil'],
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              success: { type: 'boolean' },
+              message: { type: 'string' },
+            },
+          },
+        },
+      },
+    }, resendVerificationHandler);
+
     /**
      * PUT /api/auth/profile
      * Atualização do perfil do usuário autenticado
@@ -469,7 +630,7 @@ export async function authRoutes(
         params: {
           type: 'object',
           properties: {
-            userId: { type: 'string', format: 'uuid' },
+            userId: { type: 'string', minLength: 1 },
           },
           required: ['userId'],
         },
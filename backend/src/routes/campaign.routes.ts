@@ -12,6 +12,7 @@
  * - Sistema de kits e progresso
  * - Relatórios e estatísticas detalhadas
  * - Validação robusta com Zod schemas
+ * - Prêmios retidos por orçamento da campanha
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
@@ -22,7 +23,11 @@ import {
   createCampaignSchema,
   updateCampaignSchema,
   duplicateCampaignSchema,
-  toggleCampaignStatusSchema
+  toggleCampaignStatusSchema,
+  budgetHoldParamsSchema,
+  budgetHoldFiltersSchema,
+  approveBudgetHoldSchema,
+  rejectBudgetHoldSchema
 } from '../schemas/campaign.schema';
 import {
   createCampaignHandler,
@@ -37,7 +42,10 @@ import {
   toggleCampaignStatusHandler,
   checkParticipationHandler,
   getCampaignPerformanceHandler,
-  updateExpiredCampaignsHandler
+  updateExpiredCampaignsHandler,
+  listBudgetHoldsHandler,
+  approveBudgetHoldHandler,
+  rejectBudgetHoldHandler
 } from '../controllers/campaign.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import { UserRole } from '@prisma/client';
@@ -414,6 +422,78 @@ export async function campaignRoutes(
     },
   }, toggleCampaignStatusHandler);
 
+  // ==================== ROTAS DE ORÇAMENTO ====================
+
+  /**
+   * GET /api/campaigns/:id/budget-holds
+   * Prêmios retidos por falta de orçamento (apenas admin)
+   */
+  fastify.get('/:id/budget-holds', {
+    schema: {
+      description: 'Lista prêmios retidos por orçamento esgotado da campanha',
+      tags: ['Campanhas', 'Orçamento'],
+      params: campaignParamsSchema,
+      querystring: budgetHoldFiltersSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+            pagination: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, listBudgetHoldsHandler);
+
+  /**
+   * POST /api/campaigns/budget-holds/:holdId/approve
+   * Aprova prêmio retido e credita os pontos (apenas admin)
+   */
+  fastify.post('/budget-holds/:holdId/approve', {
+    schema: {
+      description: 'Aprova prêmio retido, criando os earnings mesmo acima do orçamento',
+      tags: ['Campanhas', 'Orçamento'],
+      params: budgetHoldParamsSchema,
+      body: approveBudgetHoldSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, approveBudgetHoldHandler);
+
+  /**
+   * POST /api/campaigns/budget-holds/:holdId/reject
+   * Rejeita prêmio retido (apenas admin)
+   */
+  fastify.post('/budget-holds/:holdId/reject', {
+    schema: {
+      description: 'Rejeita prêmio retido sem creditar pontos',
+      tags: ['Campanhas', 'Orçamento'],
+      params: budgetHoldParamsSchema,
+      body: rejectBudgetHoldSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, rejectBudgetHoldHandler);
+
   // ==================== ROTAS DE MANUTENÇÃO ====================
 
   /**
@@ -12,6 +12,11 @@
  * - Relatórios financeiros detalhados
  * - Processamento em lote otimizado
  * - Auditoria completa de transações
+ * - Registros de pagamento com método, referência e comprovantes anexados
+ * - Lotes de pagamento PIX com arquivos CSV e de remessa
+ * - Estorno de earnings pagos; cancelamento valida o motivo com Zod
+ * - Exportação do relatório financeiro em XLSX e PDF
+ * - Recibo de pagamento e regras de retenção na fonte
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
@@ -24,7 +29,22 @@ import {
   markEarningAsPaidSchema,
   bulkProcessEarningsSchema,
   financialReportSchema,
-  earningProjectionSchema
+  financialReportExportSchema,
+  earningProjectionSchema,
+  createEarningPaymentSchema,
+  earningPaymentParamsSchema,
+  earningPaymentFiltersSchema,
+  paymentAttachmentParamsSchema,
+  createPayoutBatchSchema,
+  payoutBatchParamsSchema,
+  payoutBatchFiltersSchema,
+  payoutBatchFileQuerySchema,
+  confirmPayoutBatchSchema,
+  earningStatusChangeSchema,
+  paymentReceiptQuerySchema,
+  createWithholdingRuleSchema,
+  updateWithholdingRuleSchema,
+  withholdingRuleParamsSchema
 } from '../schemas/earning.schema';
 import {
   createEarningHandler,
@@ -34,12 +54,30 @@ import {
   markEarningAsPaidHandler,
   bulkProcessEarningsHandler,
   generateFinancialReportHandler,
+  exportFinancialReportHandler,
   getEarningProjectionHandler,
   getMyEarningsHandler,
   getEarningStatsHandler,
   cancelEarningHandler,
+  reverseEarningHandler,
   getPendingEarningsHandler,
-  getFinancialSummaryHandler
+  getFinancialSummaryHandler,
+  createEarningPaymentHandler,
+  listEarningPaymentsHandler,
+  getEarningPaymentHandler,
+  uploadPaymentAttachmentsHandler,
+  downloadPaymentAttachmentHandler,
+  downloadPaymentReceiptHandler,
+  listWithholdingRulesHandler,
+  createWithholdingRuleHandler,
+  updateWithholdingRuleHandler,
+  deleteWithholdingRuleHandler,
+  createPayoutBatchHandler,
+  listPayoutBatchesHandler,
+  getPayoutBatchHandler,
+  downloadPayoutBatchFileHandler,
+  confirmPayoutBatchHandler,
+  cancelPayoutBatchHandler
 } from '../controllers/earning.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import { UserRole } from '@prisma/client';
@@ -346,13 +384,7 @@ export async function earningRoutes(
       description: 'Cancela earning pendente',
       tags: ['Earnings', 'Administração'],
       params: earningParamsSchema,
-      body: {
-        type: 'object',
-        properties: {
-          reason: { type: 'string', minLength: 5, maxLength: 500 },
-        },
-        required: ['reason'],
-      },
+      body: earningStatusChangeSchema,
       response: {
         200: {
           type: 'object',
@@ -363,6 +395,7 @@ export async function earningRoutes(
               type: 'object',
               properties: {
                 earningId: { type: 'string' },
+                status: { type: 'string' },
                 cancelledAt: { type: 'string' },
                 cancelledBy: { type: 'string' },
                 reason: { type: 'string' },
@@ -374,6 +407,38 @@ export async function earningRoutes(
     },
   }, cancelEarningHandler);
 
+  /**
+   * POST /api/earnings/:id/reverse
+   * Estorna earning já pago (apenas admin)
+   */
+  fastify.post('/:id/reverse', {
+    schema: {
+      description: 'Estorna earning pago',
+      tags: ['Earnings', 'Administração'],
+      params: earningParamsSchema,
+      body: earningStatusChangeSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                earningId: { type: 'string' },
+                status: { type: 'string' },
+                reversedAt: { type: 'string' },
+                reversedBy: { type: 'string' },
+                reason: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, reverseEarningHandler);
+
   /**
    * POST /api/earnings/bulk-process
    * Processa earnings em lote (apenas admin)
@@ -405,6 +470,360 @@ export async function earningRoutes(
     },
   }, bulkProcessEarningsHandler);
 
+  // ==================== ROTAS DE REGISTROS DE PAGAMENTO ====================
+
+  /**
+   * POST /api/earnings/payments
+   * Registra pagamento de um ou mais earnings pendentes (apenas admin)
+   */
+  fastify.post('/payments', {
+    schema: {
+      description: 'Registra pagamento (método, data e referência) de earnings pendentes',
+      tags: ['Earnings', 'Pagamentos'],
+      body: createEarningPaymentSchema,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, createEarningPaymentHandler);
+
+  /**
+   * GET /api/earnings/payments
+   * Lista registros de pagamento (escopo por perfil)
+   */
+  fastify.get('/payments', {
+    schema: {
+      description: 'Lista registros de pagamento com filtros e paginação',
+      tags: ['Earnings', 'Pagamentos'],
+      querystring: earningPaymentFiltersSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+            pagination: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, listEarningPaymentsHandler);
+
+  /**
+   * GET /api/earnings/payments/:id
+   * Detalhes de um registro de pagamento
+   */
+  fastify.get('/payments/:id', {
+    schema: {
+      description: 'Obtém registro de pagamento com earnings e comprovantes',
+      tags: ['Earnings', 'Pagamentos'],
+      params: earningPaymentParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+        404: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, getEarningPaymentHandler);
+
+  /**
+   * POST /api/earnings/payments/:id/attachments
+   * Anexa comprovantes (multipart) ao registro de pagamento (apenas admin)
+   */
+  fastify.post('/payments/:id/attachments', {
+    schema: {
+      description: 'Envia comprovantes de pagamento (PDF ou imagem)',
+      tags: ['Earnings', 'Pagamentos'],
+      consumes: ['multipart/form-data'],
+      params: earningPaymentParamsSchema,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, uploadPaymentAttachmentsHandler);
+
+  /**
+   * GET /api/earnings/payments/:id/attachments/:attachmentId
+   * Download de comprovante de pagamento
+   */
+  fastify.get('/payments/:id/attachments/:attachmentId', {
+    schema: {
+      description: 'Baixa comprovante de pagamento',
+      tags: ['Earnings', 'Pagamentos'],
+      params: paymentAttachmentParamsSchema,
+    },
+  }, downloadPaymentAttachmentHandler);
+
+  /**
+   * GET /api/earnings/payments/:id/receipt?userId=
+   * Recibo em PDF com bruto, retenções e líquido do favorecido
+   */
+  fastify.get('/payments/:id/receipt', {
+    schema: {
+      description: 'Baixa recibo de pagamento (RPA ou demonstrativo de pessoa jurídica)',
+      tags: ['Earnings', 'Pagamentos'],
+      params: earningPaymentParamsSchema,
+      querystring: paymentReceiptQuerySchema,
+    },
+  }, downloadPaymentReceiptHandler);
+
+  // ==================== ROTAS DE RETENÇÃO NA FONTE ====================
+
+  /**
+   * GET /api/earnings/withholding-rules
+   * Lista regras de retenção (apenas admin)
+   */
+  fastify.get('/withholding-rules', {
+    schema: {
+      description: 'Lista regras de retenção na fonte',
+      tags: ['Earnings', 'Pagamentos'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, listWithholdingRulesHandler);
+
+  /**
+   * POST /api/earnings/withholding-rules
+   * Cria regra de retenção (apenas admin)
+   */
+  fastify.post('/withholding-rules', {
+    schema: {
+      description: 'Cria regra de retenção por perfil e tipo de favorecido',
+      tags: ['Earnings', 'Pagamentos'],
+      body: createWithholdingRuleSchema,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, createWithholdingRuleHandler);
+
+  /**
+   * PUT /api/earnings/withholding-rules/:id
+   * Atualiza regra de retenção (apenas admin)
+   */
+  fastify.put('/withholding-rules/:id', {
+    schema: {
+      description: 'Atualiza regra de retenção',
+      tags: ['Earnings', 'Pagamentos'],
+      params: withholdingRuleParamsSchema,
+      body: updateWithholdingRuleSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, updateWithholdingRuleHandler);
+
+  /**
+   * DELETE /api/earnings/withholding-rules/:id
+   * Exclui regra de retenção (apenas admin)
+   */
+  fastify.delete('/withholding-rules/:id', {
+    schema: {
+      description: 'Exclui regra de retenção',
+      tags: ['Earnings', 'Pagamentos'],
+      params: withholdingRuleParamsSchema,
+    },
+  }, deleteWithholdingRuleHandler);
+
+  // ==================== ROTAS DE LOTES DE PAGAMENTO PIX ====================
+
+  /**
+   * POST /api/earnings/payout-batches
+   * Gera lote PIX com earnings pendentes agrupados por usuário (apenas admin)
+   */
+  fastify.post('/payout-batches', {
+    schema: {
+      description: 'Gera lote de pagamento PIX com earnings pendentes',
+      tags: ['Earnings', 'Pagamentos'],
+      body: createPayoutBatchSchema,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                batch: { type: 'object' },
+                skipped: { type: 'array' },
+              },
+            },
+          },
+        },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, createPayoutBatchHandler);
+
+  /**
+   * GET /api/earnings/payout-batches
+   * Lista lotes de pagamento (apenas admin)
+   */
+  fastify.get('/payout-batches', {
+    schema: {
+      description: 'Lista lotes de pagamento PIX',
+      tags: ['Earnings', 'Pagamentos'],
+      querystring: payoutBatchFiltersSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+            pagination: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, listPayoutBatchesHandler);
+
+  /**
+   * GET /api/earnings/payout-batches/:id
+   * Detalhes do lote com favorecidos e earnings (apenas admin)
+   */
+  fastify.get('/payout-batches/:id', {
+    schema: {
+      description: 'Obtém lote de pagamento PIX',
+      tags: ['Earnings', 'Pagamentos'],
+      params: payoutBatchParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, getPayoutBatchHandler);
+
+  /**
+   * GET /api/earnings/payout-batches/:id/file?format=csv|remessa
+   * Arquivo do lote para envio ao banco (apenas admin)
+   */
+  fastify.get('/payout-batches/:id/file', {
+    schema: {
+      description: 'Baixa arquivo do lote em CSV ou remessa de largura fixa',
+      tags: ['Earnings', 'Pagamentos'],
+      params: payoutBatchParamsSchema,
+      querystring: payoutBatchFileQuerySchema,
+    },
+  }, downloadPayoutBatchFileHandler);
+
+  /**
+   * POST /api/earnings/payout-batches/:id/confirm
+   * Confirma lote pago pelo banco e marca todos os earnings como PAGO (apenas admin)
+   */
+  fastify.post('/payout-batches/:id/confirm', {
+    schema: {
+      description: 'Confirma pagamento do lote PIX',
+      tags: ['Earnings', 'Pagamentos'],
+      params: payoutBatchParamsSchema,
+      body: confirmPayoutBatchSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, confirmPayoutBatchHandler);
+
+  /**
+   * POST /api/earnings/payout-batches/:id/cancel
+   * Cancela lote não confirmado e libera os earnings (apenas admin)
+   */
+  fastify.post('/payout-batches/:id/cancel', {
+    schema: {
+      description: 'Cancela lote de pagamento PIX',
+      tags: ['Earnings', 'Pagamentos'],
+      params: payoutBatchParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, cancelPayoutBatchHandler);
+
   // ==================== ROTAS DE RELATÓRIOS ====================
 
   /**
@@ -430,6 +849,18 @@ export async function earningRoutes(
     },
   }, generateFinancialReportHandler);
 
+  /**
+   * GET /api/earnings/financial-report/export?format=xlsx|pdf
+   * Exporta relatório financeiro para fechamento contábil (gerentes e admins)
+   */
+  fastify.get('/financial-report/export', {
+    schema: {
+      description: 'Exporta relatório financeiro em planilha XLSX ou PDF',
+      tags: ['Earnings', 'Relatórios'],
+      querystring: financialReportExportSchema,
+    },
+  }, exportFinancialReportHandler);
+
   /**
    * GET /api/earnings/projection
    * Obtém projeções de earnings (gerentes e admins)
@@ -493,7 +924,7 @@ export async function earningRoutes(
 
   // Hook para log de operações financeiras críticas
   fastify.addHook('onRequest', async (request, reply) => {
-    const criticalOperations = ['/mark-as-paid', '/cancel', '/bulk-process'];
+    const criticalOperations = ['/mark-as-paid', '/cancel', '/reverse', '/bulk-process', '/confirm'];
     const isCritical = criticalOperations.some(op => request.url.includes(op));
     
     if (isCritical) {
@@ -506,7 +937,7 @@ export async function earningRoutes(
   fastify.addHook('preHandler', async (request, reply) => {
     // Vendedores só podem ver earnings próprios ou fazer consultas básicas
     if (request.user?.role === UserRole.VENDEDOR) {
-      const restrictedPaths = ['/financial-report', '/projection', '/bulk-process'];
+      const restrictedPaths = ['/financial-report', '/projection', '/bulk-process', '/payout-batches'];
       const isRestricted = restrictedPaths.some(path => request.url.includes(path));
       
       if (isRestricted) {
@@ -530,7 +961,8 @@ export async function earningRoutes(
     }
     
     // Monitora operações de pagamento
-    if (request.url.includes('/mark-as-paid') && reply.statusCode >= 200 && reply.statusCode < 300) {
+    if ((request.url.includes('/mark-as-paid') || (request.method === 'POST' && request.url.includes('/payments'))) &&
+        reply.statusCode >= 200 && reply.statusCode < 300) {
       console.log(`[EARNING_ROUTES] Pagamento processado: ${request.url} em ${responseTime}ms`);
     }
   });
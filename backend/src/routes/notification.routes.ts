@@ -0,0 +1,255 @@
+/**
+ * @file notification.routes.ts
+ * @version 2.0.0
+ * @description Rotas para notificações dos usuários da API EPS Campanhas.
+ * Todas as rotas operam sobre as notificações do usuário autenticado.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Listagem, contagem de não lidas, leitura e exclusão de notificações
+ * - Administração de templates de notificações automáticas (admin)
+ */
+
+import { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import {
+  notificationParamsSchema,
+  notificationFiltersSchema,
+  notificationTemplateParamsSchema,
+  updateNotificationTemplateSchema
+} from '../schemas/notification.schema';
+import {
+  listNotificationsHandler,
+  getUnreadCountHandler,
+  markNotificationAsReadHandler,
+  markAllNotificationsAsReadHandler,
+  deleteNotificationHandler,
+  listNotificationTemplatesHandler,
+  updateNotificationTemplateHandler,
+  resetNotificationTemplateHandler
+} from '../controllers/notification.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+// ==================== PLUGIN DE ROTAS DE NOTIFICAÇÕES ====================
+
+export async function notificationRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions
+): Promise<void> {
+  // Registra provider de tipos Zod
+  fastify.withTypeProvider<ZodTypeProvider>();
+
+  // ==================== MIDDLEWARE GLOBAL ====================
+  // Todas as rotas de notificações requerem autenticação
+  fastify.addHook('preHandler', authenticate);
+
+  // ==================== ROTAS PRINCIPAIS ====================
+
+  /**
+   * GET /api/notifications
+   * Lista notificações do usuário (filtro unreadOnly=true para não lidas)
+   */
+  fastify.get('/', {
+    schema: {
+      description: 'Lista notificações do usuário autenticado',
+      tags: ['Notificações'],
+      querystring: notificationFiltersSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+            pagination: { type: 'object' },
+            summary: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, listNotificationsHandler);
+
+  /**
+   * GET /api/notifications/unread-count
+   * Quantidade de notificações não lidas (badge do sino)
+   */
+  fastify.get('/unread-count', {
+    schema: {
+      description: 'Conta notificações não lidas do usuário autenticado',
+      tags: ['Notificações'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                unreadCount: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, getUnreadCountHandler);
+
+  /**
+   * PATCH /api/notifications/read-all
+   * Marca todas as notificações como lidas
+   */
+  fastify.patch('/read-all', {
+    schema: {
+      description: 'Marca todas as notificações do usuário como lidas',
+      tags: ['Notificações'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                updatedCount: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, markAllNotificationsAsReadHandler);
+
+  /**
+   * PATCH /api/notifications/:id/read
+   * Marca notificação como lida
+   */
+  fastify.patch('/:id/read', {
+    schema: {
+      description: 'Marca notificação como lida',
+      tags: ['Notificações'],
+      params: notificationParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                notification: { type: 'object' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, markNotificationAsReadHandler);
+
+  /**
+   * DELETE /api/notifications/:id
+   * Exclui notificação
+   */
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Exclui notificação do usuário',
+      tags: ['Notificações'],
+      params: notificationParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                deletedId: { type: 'string' },
+                deletedAt: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, deleteNotificationHandler);
+
+  // ==================== TEMPLATES (ADMIN) ====================
+
+  /**
+   * GET /api/notifications/templates
+   * Lista templates das notificações automáticas
+   */
+  fastify.get('/templates', {
+    schema: {
+      description: 'Lista templates das notificações automáticas',
+      tags: ['Notificações'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+          },
+        },
+      },
+    },
+  }, listNotificationTemplatesHandler);
+
+  /**
+   * PUT /api/notifications/templates/:key
+   * Personaliza título, mensagem, tipo ou ativação de um template
+   */
+  fastify.put('/templates/:key', {
+    schema: {
+      description: 'Personaliza template de notificação automática',
+      tags: ['Notificações'],
+      params: notificationTemplateParamsSchema,
+      body: updateNotificationTemplateSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, updateNotificationTemplateHandler);
+
+  /**
+   * DELETE /api/notifications/templates/:key
+   * Restaura template padrão
+   */
+  fastify.delete('/templates/:key', {
+    schema: {
+      description: 'Restaura template padrão de notificação automática',
+      tags: ['Notificações'],
+      params: notificationTemplateParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, resetNotificationTemplateHandler);
+
+  // ==================== HOOKS ESPECÍFICOS ====================
+
+  // Notificações mudam com frequência e são privadas
+  fastify.addHook('onSend', async (request, reply, payload) => {
+    reply.header('Cache-Control', 'private, no-cache');
+    return payload;
+  });
+}
@@ -16,6 +16,34 @@ import {
   updatePremioSchema,
   updateStockSchema,
   bulkPremioImportSchema,
+  redemptionRequestSchema,
+  redemptionParamsSchema,
+  redemptionFiltersSchema,
+  redemptionNoteSchema,
+  shipRedemptionSchema,
+  cancelRedemptionSchema,
+  seasonalPremioSchema,
+  priceWindowParamsSchema,
+  premioVariantSchema,
+  updatePremioVariantSchema,
+  variantParamsSchema,
+  checkRedeemQuerySchema,
+  reserveStockSchema,
+  reservationParamsSchema,
+  wishlistDemandQuerySchema,
+} from '../schemas/premio.schema';
+import type {
+  RedemptionParams,
+  RedemptionFilters,
+  RedemptionNoteData,
+  ShipRedemptionData,
+  CancelRedemptionData,
+  SeasonalPremioData,
+  PriceWindowParams,
+  PremioVariantData,
+  UpdatePremioVariantData,
+  VariantParams,
+  WishlistDemandQuery,
 } from '../schemas/premio.schema';
 import {
   createPremioHandler,
@@ -35,6 +63,26 @@ import {
   getPublicCatalogHandler,
   bulkImportPremiosHandler,
   getRedemptionHistoryHandler,
+  listRedemptionsHandler,
+  getRedemptionHandler,
+  approveRedemptionHandler,
+  shipRedemptionHandler,
+  deliverRedemptionHandler,
+  cancelRedemptionHandler,
+  listPriceWindowsHandler,
+  createPriceWindowHandler,
+  deletePriceWindowHandler,
+  listVariantsHandler,
+  createVariantHandler,
+  updateVariantHandler,
+  deleteVariantHandler,
+  reserveStockHandler,
+  releaseReservationHandler,
+  getWishlistHandler,
+  addToWishlistHandler,
+  removeFromWishlistHandler,
+  getWishlistDemandHandler,
+  PremioRoute,
 } from '../controllers/premio.controller';
 import { authenticate, authorize, optionalAuth } from '../middleware/auth.middleware';
 
@@ -232,9 +280,10 @@ export async function premioRoutes(
       '/:id/check-redeem',
       {
         schema: {
-          description: 'Verifica se o usuário pode resgatar um prêmio',
+          description: 'Verifica se o usuário pode resgatar um prêmio (ou uma variação dele)',
           tags: ['Prêmios', 'Resgate'],
           params: premioParamsSchema,
+          querystring: checkRedeemQuerySchema,
           response: {
             200: {
               description: 'Sucesso',
@@ -258,6 +307,7 @@ export async function premioRoutes(
           description: 'Resgata um prêmio para o usuário logado',
           tags: ['Prêmios', 'Resgate'],
           params: premioParamsSchema,
+          body: redemptionRequestSchema.optional(),
           response: {
             200: {
               description: 'Resgate bem-sucedido',
@@ -273,6 +323,105 @@ export async function premioRoutes(
       redeemPremioHandler
     );
 
+    fastify.post(
+      '/:id/reservations',
+      {
+        schema: {
+          description: 'Reserva uma unidade do prêmio por alguns minutos enquanto o resgate é confirmado',
+          tags: ['Prêmios', 'Resgate'],
+          params: premioParamsSchema,
+          body: reserveStockSchema.optional(),
+          response: {
+            201: {
+              description: 'Reserva criada ou renovada',
+              type: 'object',
+            },
+            409: {
+              description: 'Prêmio ou variação fora de estoque',
+              type: 'object',
+            },
+          },
+        },
+      },
+      reserveStockHandler
+    );
+
+    fastify.delete(
+      '/reservations/:reservationId',
+      {
+        schema: {
+          description: 'Libera a reserva de estoque do usuário logado',
+          tags: ['Prêmios', 'Resgate'],
+          params: reservationParamsSchema,
+          response: {
+            204: {
+              description: 'Sem conteúdo',
+              type: 'null',
+            },
+          },
+        },
+      },
+      releaseReservationHandler
+    );
+
+    // ROTAS DA LISTA DE DESEJOS
+    fastify.get(
+      '/wishlist',
+      {
+        schema: {
+          description: 'Retorna a lista de desejos do usuário com pontos restantes e data estimada',
+          tags: ['Prêmios', 'Lista de desejos'],
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'object',
+            },
+          },
+        },
+      },
+      getWishlistHandler
+    );
+
+    fastify.put<PremioRoute<{ id: string }>>(
+      '/:id/wishlist',
+      {
+        schema: {
+          description: 'Adiciona um prêmio à lista de desejos do usuário',
+          tags: ['Prêmios', 'Lista de desejos'],
+          params: premioParamsSchema,
+          response: {
+            201: {
+              description: 'Prêmio na lista de desejos',
+              type: 'object',
+            },
+            409: {
+              description: 'Limite da lista de desejos atingido',
+              type: 'object',
+            },
+          },
+        },
+      },
+      addToWishlistHandler
+    );
+
+    fastify.delete<PremioRoute<{ id: string }>>(
+      '/:id/wishlist',
+      {
+        schema: {
+          description: 'Remove um prêmio da lista de desejos do usuário',
+          tags: ['Prêmios', 'Lista de desejos'],
+          params: premioParamsSchema,
+          response: {
+            204: {
+              description: 'Sem conteúdo',
+              type: 'null',
+            },
+          },
+        },
+      },
+      removeFromWishlistHandler
+    );
+
     fastify.get(
       '/my-redemptions',
       {
@@ -284,6 +433,7 @@ export async function premioRoutes(
             properties: {
               page: { type: 'number', default: 1 },
               limit: { type: 'number', default: 10 },
+              premioId: { type: 'string' },
             },
           },
           response: {
@@ -301,6 +451,152 @@ export async function premioRoutes(
       getRedemptionHistoryHandler
     );
 
+    // ROTAS DE ENTREGA DE RESGATES
+    fastify.get<PremioRoute<unknown, RedemptionFilters, unknown>>(
+      '/redemptions',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Fila de entrega de resgates com totais por status (apenas Admin)',
+          tags: ['Prêmios', 'Resgate', 'Administração'],
+          querystring: redemptionFiltersSchema,
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'object',
+              properties: {
+                data: { type: 'array', items: { type: 'object' } },
+                counts: { type: 'object' },
+                pagination: { type: 'object' },
+              },
+            },
+          },
+        },
+      },
+      listRedemptionsHandler
+    );
+
+    fastify.get<PremioRoute<RedemptionParams>>(
+      '/redemptions/:redemptionId',
+      {
+        schema: {
+          description: 'Busca um resgate com o histórico de status (Admin ou dono do resgate)',
+          tags: ['Prêmios', 'Resgate'],
+          params: redemptionParamsSchema,
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'object',
+            },
+            404: {
+              description: 'Resgate não encontrado',
+              type: 'object',
+            },
+          },
+        },
+      },
+      getRedemptionHandler
+    );
+
+    fastify.patch<PremioRoute<RedemptionParams, unknown, RedemptionNoteData | undefined>>(
+      '/redemptions/:redemptionId/approve',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Aprova um resgate solicitado (apenas Admin)',
+          tags: ['Prêmios', 'Resgate', 'Administração'],
+          params: redemptionParamsSchema,
+          body: redemptionNoteSchema.optional(),
+          response: {
+            200: {
+              description: 'Resgate aprovado',
+              type: 'object',
+            },
+            409: {
+              description: 'Transição de status inválida',
+              type: 'object',
+            },
+          },
+        },
+      },
+      approveRedemptionHandler
+    );
+
+    fastify.patch<PremioRoute<RedemptionParams, unknown, ShipRedemptionData>>(
+      '/redemptions/:redemptionId/ship',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Marca um resgate aprovado como enviado, com código de rastreio (apenas Admin)',
+          tags: ['Prêmios', 'Resgate', 'Administração'],
+          params: redemptionParamsSchema,
+          body: shipRedemptionSchema,
+          response: {
+            200: {
+              description: 'Resgate enviado',
+              type: 'object',
+            },
+            409: {
+              description: 'Transição de status inválida',
+              type: 'object',
+            },
+          },
+        },
+      },
+      shipRedemptionHandler
+    );
+
+    fastify.patch<PremioRoute<RedemptionParams, unknown, RedemptionNoteData | undefined>>(
+      '/redemptions/:redemptionId/deliver',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Confirma a entrega de um resgate enviado (apenas Admin)',
+          tags: ['Prêmios', 'Resgate', 'Administração'],
+          params: redemptionParamsSchema,
+          body: redemptionNoteSchema.optional(),
+          response: {
+            200: {
+              description: 'Entrega confirmada',
+              type: 'object',
+            },
+            409: {
+              description: 'Transição de status inválida',
+              type: 'object',
+            },
+          },
+        },
+      },
+      deliverRedemptionHandler
+    );
+
+    fastify.patch<PremioRoute<RedemptionParams, unknown, CancelRedemptionData>>(
+      '/redemptions/:redemptionId/cancel',
+      {
+        schema: {
+          description: 'Cancela um resgate devolvendo pontos e estoque (Admin, ou dono enquanto solicitado)',
+          tags: ['Prêmios', 'Resgate'],
+          params: redemptionParamsSchema,
+          body: cancelRedemptionSchema,
+          response: {
+            200: {
+              description: 'Resgate cancelado',
+              type: 'object',
+            },
+            403: {
+              description: 'Acesso negado',
+              type: 'object',
+            },
+            409: {
+              description: 'Transição de status inválida',
+              type: 'object',
+            },
+          },
+        },
+      },
+      cancelRedemptionHandler
+    );
+
     // ROTAS DE GESTÃO DE ESTOQUE (Admin)
     fastify.patch(
       '/:id/stock',
@@ -335,6 +631,7 @@ export async function premioRoutes(
             required: ['quantity'],
             properties: {
               quantity: { type: 'number', minimum: 1 },
+              variantId: { type: 'string' },
             },
           },
           response: {
@@ -348,6 +645,162 @@ export async function premioRoutes(
       restockPremioHandler
     );
 
+    // ROTAS DE VARIAÇÕES (Admin)
+    fastify.get<PremioRoute<{ id: string }>>(
+      '/:id/variants',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Lista as variações de um prêmio, incluindo inativas (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: premioParamsSchema,
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'array',
+              items: { type: 'object' },
+            },
+          },
+        },
+      },
+      listVariantsHandler
+    );
+
+    fastify.post<PremioRoute<{ id: string }, unknown, PremioVariantData>>(
+      '/:id/variants',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Adiciona variação (tamanho, cor, voltagem) a um prêmio (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: premioParamsSchema,
+          body: premioVariantSchema,
+          response: {
+            201: {
+              description: 'Variação criada',
+              type: 'object',
+            },
+            409: {
+              description: 'SKU já cadastrado',
+              type: 'object',
+            },
+          },
+        },
+      },
+      createVariantHandler
+    );
+
+    fastify.put<PremioRoute<VariantParams, unknown, UpdatePremioVariantData>>(
+      '/variants/:variantId',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Atualiza uma variação de prêmio (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: variantParamsSchema,
+          body: updatePremioVariantSchema,
+          response: {
+            200: {
+              description: 'Variação atualizada',
+              type: 'object',
+            },
+            409: {
+              description: 'SKU já cadastrado',
+              type: 'object',
+            },
+          },
+        },
+      },
+      updateVariantHandler
+    );
+
+    fastify.delete<PremioRoute<VariantParams>>(
+      '/variants/:variantId',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Remove uma variação sem resgates (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: variantParamsSchema,
+          response: {
+            204: {
+              description: 'Sem conteúdo',
+              type: 'null',
+            },
+            409: {
+              description: 'Variação já resgatada',
+              type: 'object',
+            },
+          },
+        },
+      },
+      deleteVariantHandler
+    );
+
+    // ROTAS DE PREÇO SAZONAL (Admin)
+    fastify.get<PremioRoute<{ id: string }>>(
+      '/:id/price-windows',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Lista as janelas de preço sazonal de um prêmio (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: premioParamsSchema,
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'array',
+              items: { type: 'object' },
+            },
+          },
+        },
+      },
+      listPriceWindowsHandler
+    );
+
+    fastify.post<PremioRoute<{ id: string }, unknown, SeasonalPremioData>>(
+      '/:id/price-windows',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Agenda janela de preço sazonal para um prêmio (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: premioParamsSchema,
+          body: seasonalPremioSchema,
+          response: {
+            201: {
+              description: 'Janela de preço agendada',
+              type: 'object',
+            },
+            409: {
+              description: 'Período sobreposto a outra janela do prêmio',
+              type: 'object',
+            },
+          },
+        },
+      },
+      createPriceWindowHandler
+    );
+
+    fastify.delete<PremioRoute<PriceWindowParams>>(
+      '/price-windows/:windowId',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Remove uma janela de preço sazonal (apenas Admin)',
+          tags: ['Prêmios', 'Administração'],
+          params: priceWindowParamsSchema,
+          response: {
+            204: {
+              description: 'Sem conteúdo',
+              type: 'null',
+            },
+          },
+        },
+      },
+      deletePriceWindowHandler
+    );
+
     // ROTAS DE RELATÓRIOS E ESTATÍSTICAS
     fastify.get(
       '/stats',
@@ -367,6 +820,26 @@ export async function premioRoutes(
       getPremioStatsHandler
     );
 
+    fastify.get<PremioRoute<unknown, WishlistDemandQuery>>(
+      '/wishlist/demand',
+      {
+        preHandler: [authorize(UserRole.ADMIN)],
+        schema: {
+          description: 'Demanda agregada da lista de desejos para planejamento de compras (apenas Admin)',
+          tags: ['Prêmios', 'Estatísticas'],
+          querystring: wishlistDemandQuerySchema,
+          response: {
+            200: {
+              description: 'Sucesso',
+              type: 'array',
+              items: { type: 'object' },
+            },
+          },
+        },
+      },
+      getWishlistDemandHandler
+    );
+
     fastify.get(
       '/low-stock',
       {
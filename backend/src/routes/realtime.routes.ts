@@ -0,0 +1,51 @@
+/**
+ * @file realtime.routes.ts
+ * @version 2.0.0
+ * @description Rotas do canal de atualizações em tempo real da API EPS Campanhas.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Stream SSE autenticado com o mesmo JWT das demais rotas
+ */
+
+import { FastifyInstance, FastifyPluginOptions } from 'fastify';
+import { ZodTypeProvider } from 'fastify-type-provider-zod';
+import { streamHandler } from '../controllers/realtime.controller';
+import { authenticate } from '../middleware/auth.middleware';
+
+// ==================== PLUGIN DE ROTAS DE TEMPO REAL ====================
+
+export async function realtimeRoutes(
+  fastify: FastifyInstance,
+  options: FastifyPluginOptions
+): Promise<void> {
+  // Registra provider de tipos Zod
+  fastify.withTypeProvider<ZodTypeProvider>();
+
+  // ==================== MIDDLEWARE GLOBAL ====================
+
+  // EventSource do navegador não envia headers: aceita o token via query string
+  fastify.addHook('onRequest', async (request) => {
+    const { token } = (request.query || {}) as { token?: string };
+
+    if (!request.headers.authorization && token) {
+      request.headers.authorization = `Bearer ${token}`;
+    }
+  });
+
+  fastify.addHook('preHandler', authenticate);
+
+  // ==================== ROTAS ====================
+
+  /**
+   * GET /api/realtime/stream
+   * Stream de eventos (text/event-stream) do usuário autenticado
+   */
+  fastify.get('/stream', {
+    schema: {
+      description: 'Stream SSE de atualizações em tempo real (token via header ou ?token=)',
+      tags: ['Tempo Real'],
+    },
+  }, streamHandler);
+}
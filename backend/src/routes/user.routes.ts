@@ -12,6 +12,8 @@
  * - Schemas de validação completos
  * - Endpoints administrativos especializados
  * - Documentação OpenAPI detalhada
+ * - Lotes de pontos do usuário e passivo de pontos
+ * - Extrato de pontos e conciliação do saldo
  */
 
 import { FastifyInstance, FastifyPluginOptions } from 'fastify';
@@ -26,7 +28,9 @@ import {
   associateSellerToManagerSchema,
   updateUserPointsSchema,
   checkAvailabilitySchema,
-  bulkUserImportSchema
+  bulkUserImportSchema,
+  pointStatementFiltersSchema,
+  reconcileUserPointsSchema
 } from '../schemas/user.schema';
 import {
   createUserHandler,
@@ -38,6 +42,10 @@ import {
   associateSellerToManagerHandler,
   getManagerSellersHandler,
   updateUserPointsHandler,
+  getUserPointLotsHandler,
+  getPointsLiabilityHandler,
+  getUserPointStatementHandler,
+  reconcileUserPointsHandler,
   getUserStatsHandler,
   checkFieldAvailabilityHandler,
   deleteUserHandler,
@@ -415,6 +423,130 @@ export async function userRoutes(
     },
   }, updateUserPointsHandler);
 
+  /**
+   * GET /api/users/:id/point-lots
+   * Lotes de pontos com validade (próprio usuário, gerente ou admin)
+   */
+  fastify.get('/:id/point-lots', {
+    schema: {
+      description: 'Lista os lotes de pontos do usuário e os pontos a expirar',
+      tags: ['Usuários', 'Pontuação'],
+      params: userParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string' },
+                balance: { type: 'number' },
+                availablePoints: { type: 'number' },
+                expiringPoints: { type: 'number' },
+                nextExpiry: { type: 'string', nullable: true },
+                validityMonths: { type: 'number' },
+                warningDays: { type: 'number' },
+                lots: { type: 'array' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, getUserPointLotsHandler);
+
+  /**
+   * GET /api/users/:id/point-statement
+   * Extrato de pontos (próprio usuário, gerente ou admin)
+   */
+  fastify.get('/:id/point-statement', {
+    schema: {
+      description: 'Extrato de pontos do usuário com saldo após cada lançamento',
+      tags: ['Usuários', 'Pontuação'],
+      params: userParamsSchema,
+      querystring: pointStatementFiltersSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: { type: 'array' },
+            balance: { type: 'number' },
+            pagination: { type: 'object' },
+          },
+        },
+      },
+    },
+  }, getUserPointStatementHandler);
+
+  /**
+   * POST /api/users/:id/points/reconcile
+   * Confere o saldo com o extrato e, com apply, corrige o saldo (apenas admin)
+   */
+  fastify.post('/:id/points/reconcile', {
+    schema: {
+      description: 'Concilia o saldo de pontos do usuário com o extrato',
+      tags: ['Usuários', 'Pontuação'],
+      params: userParamsSchema,
+      body: reconcileUserPointsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                userId: { type: 'string' },
+                cachedBalance: { type: 'number' },
+                ledgerBalance: { type: 'number' },
+                lotBalance: { type: 'number' },
+                difference: { type: 'number' },
+                corrected: { type: 'boolean' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, reconcileUserPointsHandler);
+
+  /**
+   * GET /api/users/points/liability
+   * Passivo de pontos em aberto (apenas admin)
+   */
+  fastify.get('/points/liability', {
+    schema: {
+      description: 'Passivo de pontos em aberto por origem e mês de vencimento',
+      tags: ['Usuários', 'Pontuação'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                generatedAt: { type: 'string' },
+                outstandingPoints: { type: 'number' },
+                usersWithBalance: { type: 'number' },
+                withoutExpiry: { type: 'number' },
+                expiredPoints: { type: 'number' },
+                bySource: { type: 'array' },
+                byExpiryMonth: { type: 'array' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, getPointsLiabilityHandler);
+
   /**
    * GET /api/users/:managerId/sellers
    * Lista vendedores de um gerente específico
@@ -21,7 +21,11 @@ import {
   validationHistoryFiltersSchema,
   validationConfigSchema,
   reprocessValidationJobSchema,
-  validationReportSchema
+  validationReportSchema,
+  saveMappingTemplateSchema,
+  updateMappingTemplateSchema,
+  mappingTemplateParamsSchema,
+  mappingTemplateFiltersSchema
 } from '../schemas/validation.schema';
 import {
   uploadValidationFileHandler,
@@ -36,7 +40,11 @@ import {
   getValidationStatsHandler,
   cancelValidationJobHandler,
   validateMappingConfigHandler,
-  getMappingTemplatesHandler
+  getMappingTemplatesHandler,
+  getMappingTemplateHandler,
+  createMappingTemplateHandler,
+  updateMappingTemplateHandler,
+  deleteMappingTemplateHandler
 } from '../controllers/validation.controller';
 import { authenticate, authorize } from '../middleware/auth.middleware';
 import { UserRole } from '@prisma/client';
@@ -68,31 +76,7 @@ export async function validationRoutes(
       description: 'Upload de arquivo para processamento e validação',
       tags: ['Validação'],
       consumes: ['multipart/form-data'],
-      body: {
-        type: 'object',
-        properties: {
-          file: { 
-            type: 'string', 
-            format: 'binary',
-            description: 'Arquivo Excel ou CSV com dados de vendas' 
-          },
-          config: {
-            type: 'string',
-            description: 'Configuração de validação em formato JSON'
-          },
-          previewOnly: { 
-            type: 'boolean',
-            description: 'Se true, apenas gera pré-visualização sem processar' 
-          },
-          maxRows: { 
-            type: 'number',
-            minimum: 1,
-            maximum: 100000,
-            description: 'Número máximo de linhas a processar' 
-          },
-        },
-        required: ['file', 'config'],
-      },
+      // Corpo multipart lido no controller (campos: file, config em JSON, previewOnly, maxRows)
       response: {
         201: {
           type: 'object',
@@ -136,24 +120,7 @@ export async function validationRoutes(
       description: 'Pré-visualização de arquivo para configurar mapeamento',
       tags: ['Validação'],
       consumes: ['multipart/form-data'],
-      body: {
-        type: 'object',
-        properties: {
-          file: { 
-            type: 'string', 
-            format: 'binary',
-            description: 'Arquivo para pré-visualização' 
-          },
-          sampleSize: { 
-            type: 'number',
-            minimum: 1,
-            maximum: 50,
-            default: 10,
-            description: 'Número de linhas de amostra' 
-          },
-        },
-        required: ['file'],
-      },
+      // Corpo multipart lido no controller (campos: file, sampleSize, sheetName, headerRow, distributorCnpj)
       response: {
         200: {
           type: 'object',
@@ -164,6 +131,7 @@ export async function validationRoutes(
               type: 'object',
               properties: {
                 preview: { type: 'object' },
+                suggestedTemplate: { type: 'object', nullable: true },
                 fileName: { type: 'string' },
                 fileSize: { type: 'number' },
                 sampleSize: { type: 'number' },
@@ -172,6 +140,22 @@ export async function validationRoutes(
             },
           },
         },
+        400: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
+        413: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            error: { type: 'string' },
+            message: { type: 'string' },
+          },
+        },
       },
     },
   }, previewValidationFileHandler);
@@ -366,7 +350,7 @@ export async function validationRoutes(
    */
   fastify.post('/jobs/:id/cancel', {
     schema: {
-      description: 'Cancela job de validação em processamento',
+      description: 'Cancela job de validação na fila ou em processamento',
       tags: ['Validação'],
       params: validationJobParamsSchema,
       body: {
@@ -386,6 +370,8 @@ export async function validationRoutes(
               type: 'object',
               properties: {
                 jobId: { type: 'string' },
+                status: { type: 'string' },
+                rowsProcessed: { type: 'number' },
                 cancelledBy: { type: 'string' },
                 cancelledAt: { type: 'string' },
                 reason: { type: 'string' },
@@ -432,12 +418,13 @@ export async function validationRoutes(
 
   /**
    * GET /api/validation/templates
-   * Obtém templates de mapeamento pré-definidos
+   * Lista templates de mapeamento (sistema + salvos por distribuidora)
    */
   fastify.get('/templates', {
     schema: {
       description: 'Lista templates de mapeamento disponíveis',
       tags: ['Validação', 'Templates'],
+      querystring: mappingTemplateFiltersSchema,
       response: {
         200: {
           type: 'object',
@@ -458,6 +445,116 @@ export async function validationRoutes(
     },
   }, getMappingTemplatesHandler);
 
+  /**
+   * GET /api/validation/templates/:id
+   * Obtém template de mapeamento por ID
+   */
+  fastify.get('/templates/:id', {
+    schema: {
+      description: 'Obtém template de mapeamento por ID',
+      tags: ['Validação', 'Templates'],
+      params: mappingTemplateParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                template: { type: 'object' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, getMappingTemplateHandler);
+
+  /**
+   * POST /api/validation/templates
+   * Salva template de mapeamento (apenas admin)
+   */
+  fastify.post('/templates', {
+    schema: {
+      description: 'Cria template de mapeamento para uma distribuidora',
+      tags: ['Validação', 'Templates'],
+      body: saveMappingTemplateSchema,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                template: { type: 'object' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, createMappingTemplateHandler);
+
+  /**
+   * PUT /api/validation/templates/:id
+   * Atualiza template de mapeamento (apenas admin)
+   */
+  fastify.put('/templates/:id', {
+    schema: {
+      description: 'Atualiza template de mapeamento',
+      tags: ['Validação', 'Templates'],
+      params: mappingTemplateParamsSchema,
+      body: updateMappingTemplateSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                template: { type: 'object' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, updateMappingTemplateHandler);
+
+  /**
+   * DELETE /api/validation/templates/:id
+   * Exclui template de mapeamento (apenas admin)
+   */
+  fastify.delete('/templates/:id', {
+    schema: {
+      description: 'Exclui template de mapeamento',
+      tags: ['Validação', 'Templates'],
+      params: mappingTemplateParamsSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            success: { type: 'boolean' },
+            message: { type: 'string' },
+            data: {
+              type: 'object',
+              properties: {
+                deletedId: { type: 'string' },
+                deletedAt: { type: 'string' },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, deleteMappingTemplateHandler);
+
   // ==================== ROTAS DE RELATÓRIOS ====================
 
   /**
@@ -576,9 +673,9 @@ export async function validationRoutes(
       // Content-Type e Content-Disposition são definidos no controller
     }
 
-    // Cache específico para templates (podem ser cacheados por mais tempo)
-    if (request.url.includes('/templates')) {
-      reply.header('Cache-Control', 'private, max-age=3600'); // 1 hora
+    // Templates são editáveis pelos admins, então o cache é curto
+    if (request.url.includes('/templates') && request.method === 'GET') {
+      reply.header('Cache-Control', 'private, max-age=60'); // 1 minuto
     }
 
     // Estatísticas podem ter cache médio
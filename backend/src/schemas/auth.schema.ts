@@ -12,19 +12,23 @@
  * - Normalização automática de dados
  * - Mensagens de erro em português
  * - Validação de CPF, CNPJ e telefone brasileiros
+ * - Chave PIX no perfil do usuário
+ * - Tipo de favorecido (pessoa física/jurídica) e dados da empresa para retenções
  */
 
 import { z } from 'zod';
-import { UserRole } from '@prisma/client';
+import { PayeeType, PixKeyType, UserRole } from '@prisma/client';
 import { 
   isValidCPF, 
   isValidCNPJ, 
   isValidPhone, 
+  isValidPixKey,
   normalizeCPF, 
   normalizeCNPJ, 
   normalizePhone, 
   normalizeEmail,
-  normalizeName 
+  normalizeName,
+  normalizePixKey
 } from '../utils/normalizers';
 
 /**
@@ -329,12 +333,56 @@ export const updateProfileSchema = z.object({
     .string()
     .url('URL do avatar deve ser válida')
     .optional(),
+  // Chave PIX para recebimento de pagamentos (null remove a chave)
+  pixKeyType: z.nativeEnum(PixKeyType).nullable().optional(),
+  pixKey: z
+    .string()
+    .max(100, 'Chave PIX deve ter no máximo 100 caracteres')
+    .nullable()
+    .optional(),
+  // Favorecido pessoa jurídica recebe com nota fiscal e regras de retenção próprias
+  payeeType: z.nativeEnum(PayeeType).optional(),
+  payeeCnpj: z
+    .string()
+    .transform(normalizeCNPJ)
+    .refine((cnpj) => isValidCNPJ(cnpj), { message: 'CNPJ do favorecido inválido' })
+    .nullable()
+    .optional(),
+  payeeCompanyName: z
+    .string()
+    .trim()
+    .min(2, 'Razão social deve ter pelo menos 2 caracteres')
+    .max(150, 'Razão social deve ter no máximo 150 caracteres')
+    .nullable()
+    .optional(),
 }).refine(
   (data) => Object.keys(data).length > 0,
   {
     message: 'Pelo menos um campo deve ser fornecido para atualização',
   }
-);
+).superRefine((data, ctx) => {
+  if (data.pixKeyType === undefined && data.pixKey === undefined) return;
+
+  // Remoção: ambos nulos
+  if (data.pixKeyType === null && data.pixKey === null) return;
+
+  if (!data.pixKeyType || !data.pixKey) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Tipo e chave PIX devem ser informados juntos',
+      path: ['pixKey'],
+    });
+    return;
+  }
+
+  if (!isValidPixKey(data.pixKeyType, normalizePixKey(data.pixKeyType, data.pixKey))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Chave PIX inválida para o tipo informado',
+      path: ['pixKey'],
+    });
+  }
+});
 
 /**
  * Schema para login administrativo (com campos extras para auditoria)
@@ -12,10 +12,18 @@
  * - Schemas para sistema de kits e cartelas
  * - Validação de datas e períodos
  * - Normalização de dados automática
+ * - Orçamento total, teto por vendedor e prêmios retidos por falta de orçamento
  */
 
 import { z } from 'zod';
-import { CampaignStatus, GoalUnitType, RuleOperator, TargetField } from '@prisma/client';
+import {
+  BudgetHoldStatus,
+  CampaignBudgetAction,
+  CampaignStatus,
+  GoalUnitType,
+  RuleOperator,
+  TargetField
+} from '@prisma/client';
 
 // ==================== SCHEMAS BÁSICOS ====================
 
@@ -106,6 +114,31 @@ const percentageSchema = z
   .min(0, 'Percentual não pode ser negativo')
   .max(100, 'Percentual não pode ser maior que 100');
 
+/**
+ * Schema para validação de orçamento (em pontos); null indica campanha sem limite
+ */
+const budgetSchema = z
+  .number({ message: 'Orçamento deve ser um número' })
+  .positive('Orçamento deve ser maior que zero')
+  .max(100000000, 'Orçamento não pode exceder 100.000.000');
+
+/**
+ * Schema para ação ao esgotar o orçamento
+ */
+const budgetExhaustedActionSchema = z.nativeEnum(CampaignBudgetAction, {
+  message: 'Ação deve ser STOP ou QUEUE_FOR_APPROVAL',
+});
+
+/**
+ * Teto por vendedor não pode exceder o orçamento total
+ */
+const isSellerCapWithinBudget = (data: { budgetTotal?: number | null; budgetPerSeller?: number | null }) => {
+  if (data.budgetTotal && data.budgetPerSeller) {
+    return data.budgetPerSeller <= data.budgetTotal;
+  }
+  return true;
+};
+
 // ==================== SCHEMAS DE REGRAS ====================
 
 /**
@@ -203,6 +236,9 @@ export const createCampaignSchema = z.object({
   endDate: dateTimeSchema,
   pointsOnCompletion: pointsSchema.optional(),
   managerPointsPercentage: percentageSchema.optional(),
+  budgetTotal: budgetSchema.nullable().optional(),
+  budgetPerSeller: budgetSchema.nullable().optional(),
+  budgetExhaustedAction: budgetExhaustedActionSchema.optional(),
   goalRequirements: z
     .array(goalRequirementSchema)
     .min(1, 'Pelo menos uma meta deve ser definida')
@@ -263,7 +299,10 @@ export const createCampaignSchema = z.object({
     message: 'Campanhas com metas complexas devem definir pontos de conclusão',
     path: ['pointsOnCompletion'],
   }
-);
+).refine(isSellerCapWithinBudget, {
+  message: 'Teto por vendedor não pode exceder o orçamento total',
+  path: ['budgetPerSeller'],
+});
 
 /**
  * Schema para atualização de campanha
@@ -277,6 +316,9 @@ export const updateCampaignSchema = z.object({
   status: campaignStatusSchema.optional(),
   pointsOnCompletion: pointsSchema.optional(),
   managerPointsPercentage: percentageSchema.optional(),
+  budgetTotal: budgetSchema.nullable().optional(),
+  budgetPerSeller: budgetSchema.nullable().optional(),
+  budgetExhaustedAction: budgetExhaustedActionSchema.optional(),
   goalRequirements: z
     .array(goalRequirementSchema)
     .min(1, 'Pelo menos uma meta deve ser definida')
@@ -313,7 +355,10 @@ export const updateCampaignSchema = z.object({
     message: 'Data de início deve ser anterior à data de término',
     path: ['endDate'],
   }
-);
+).refine(isSellerCapWithinBudget, {
+  message: 'Teto por vendedor não pode exceder o orçamento total',
+  path: ['budgetPerSeller'],
+});
 
 /**
  * Schema para parâmetros de rota de campanha
@@ -500,6 +545,59 @@ export const campaignPerformanceSchema = z.object({
     .default('json'),
 });
 
+// ==================== SCHEMAS DE ORÇAMENTO ====================
+
+/**
+ * Schema para parâmetros de rota de prêmio retido
+ */
+export const budgetHoldParamsSchema = z.object({
+  holdId: z
+    .string({ message: 'ID do prêmio retido é obrigatório' })
+    .min(1, 'ID do prêmio retido é obrigatório'),
+});
+
+/**
+ * Schema para filtros de prêmios retidos
+ */
+export const budgetHoldFiltersSchema = z.object({
+  status: z
+    .enum([...Object.values(BudgetHoldStatus), 'all'])
+    .optional()
+    .default(BudgetHoldStatus.PENDENTE),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 prêmios por página')),
+});
+
+/**
+ * Schema para aprovação de prêmio retido
+ */
+export const approveBudgetHoldSchema = z.object({
+  note: z
+    .string()
+    .max(500, 'Observação deve ter no máximo 500 caracteres')
+    .transform((note) => note.trim())
+    .optional(),
+});
+
+/**
+ * Schema para rejeição de prêmio retido
+ */
+export const rejectBudgetHoldSchema = z.object({
+  reason: z
+    .string({ message: 'Motivo é obrigatório' })
+    .trim()
+    .min(5, 'Motivo deve ter pelo menos 5 caracteres')
+    .max(500, 'Motivo deve ter no máximo 500 caracteres'),
+});
+
 // ==================== TIPOS INFERIDOS ====================
 
 export type CreateCampaignData = z.infer<typeof createCampaignSchema>;
@@ -513,6 +611,10 @@ export type ToggleCampaignStatusData = z.infer<typeof toggleCampaignStatusSchema
 export type CampaignPerformanceQuery = z.infer<typeof campaignPerformanceSchema>;
 export type RuleConditionData = z.infer<typeof ruleConditionSchema>;
 export type GoalRequirementData = z.infer<typeof goalRequirementSchema>;
+export type BudgetHoldParams = z.infer<typeof budgetHoldParamsSchema>;
+export type BudgetHoldFilters = z.infer<typeof budgetHoldFiltersSchema>;
+export type ApproveBudgetHoldData = z.infer<typeof approveBudgetHoldSchema>;
+export type RejectBudgetHoldData = z.infer<typeof rejectBudgetHoldSchema>;
 
 // ==================== UTILITÁRIOS DE VALIDAÇÃO ====================
 
@@ -12,22 +12,38 @@
  * - Sistema de pagamentos e aprovações
  * - Relatórios financeiros detalhados
  * - Auditoria de transações financeiras
+ * - Registros de pagamento com comprovantes vinculados a um ou mais earnings
+ * - Lotes de pagamento PIX (geração, arquivo de remessa, confirmação e cancelamento)
+ * - Cancelamento e estorno de earnings com motivo obrigatório
+ * - Exportação do relatório financeiro em XLSX e PDF
+ * - Regras de retenção na fonte, nota fiscal do favorecido e recibo do pagamento
  */
 
 import { z } from 'zod';
-import { EarningStatus, EarningType } from '@prisma/client';
+import { EarningStatus, EarningType, PayeeType, PayoutBatchStatus, UserRole } from '@prisma/client';
 
 // ==================== SCHEMAS BÁSICOS ====================
 
 /**
- * Schema para validação de UUID
+ * Schema para validação de ID (os IDs do banco são gerados com cuid)
  */
-const uuidSchema = z
+const idSchema = z
   .string({
     required_error: 'ID é obrigatório',
     invalid_type_error: 'ID deve ser um texto',
   })
-  .uuid('ID deve ser um UUID válido');
+  .min(1, 'ID é obrigatório')
+  .max(50, 'ID inválido');
+
+/**
+ * Schema para método de pagamento
+ */
+const paymentMethodSchema = z.enum(['bank_transfer', 'pix', 'check', 'cash', 'other']);
+
+/**
+ * Schema para tipo de comprovante de pagamento
+ */
+const paymentAttachmentTypeSchema = z.enum(['receipt', 'transfer_proof', 'other']);
 
 /**
  * Schema para validação de valores monetários
@@ -104,12 +120,12 @@ const avatarUrlSchema = z
  */
 export const createEarningSchema = z.object({
   type: earningTypeSchema,
-  userId: uuidSchema,
+  userId: idSchema,
   userName: userNameSchema,
   userAvatarUrl: avatarUrlSchema.optional(),
-  campaignId: uuidSchema,
+  campaignId: idSchema,
   campaignTitle: campaignTitleSchema,
-  kitId: uuidSchema,
+  kitId: idSchema,
   sourceUserName: z
     .string()
     .min(2, 'Nome do vendedor deve ter pelo menos 2 caracteres')
@@ -183,7 +199,7 @@ export const updateEarningSchema = z.object({
  * Schema para parâmetros de rota de earning
  */
 export const earningParamsSchema = z.object({
-  id: uuidSchema,
+  id: idSchema,
 });
 
 /**
@@ -236,9 +252,9 @@ export const earningFiltersSchema = z.object({
     .default('all'),
 
   // Filtros por relacionamentos
-  userId: uuidSchema.optional(),
-  campaignId: uuidSchema.optional(),
-  kitId: uuidSchema.optional(),
+  userId: idSchema.optional(),
+  campaignId: idSchema.optional(),
+  kitId: idSchema.optional(),
 
   // Filtros por data
   earningAfter: dateTimeSchema.optional(),
@@ -302,11 +318,11 @@ export const earningFiltersSchema = z.object({
 );
 
 /**
- * Schema para marcar earning como pago
+ * Dados do pagamento (método, data, referência e comprovantes por URL)
  */
-export const markEarningAsPaidSchema = z.object({
+const paymentDetailsSchema = z.object({
   paymentDate: dateTimeSchema.optional().default(() => new Date().toISOString()),
-  paymentMethod: z.enum(['bank_transfer', 'pix', 'check', 'cash', 'other']),
+  paymentMethod: paymentMethodSchema,
   paymentReference: z
     .string()
     .min(1, 'Referência de pagamento é obrigatória')
@@ -315,22 +331,236 @@ export const markEarningAsPaidSchema = z.object({
     .string()
     .max(1000, 'Observações de pagamento devem ter no máximo 1000 caracteres')
     .optional(),
+  // Nota fiscal emitida pelo favorecido pessoa jurídica
+  invoiceNumber: z
+    .string()
+    .trim()
+    .min(1, 'Número da nota fiscal não pode ser vazio')
+    .max(60, 'Número da nota fiscal deve ter no máximo 60 caracteres')
+    .optional(),
   attachments: z
     .array(z.object({
       filename: z.string().min(1, 'Nome do arquivo é obrigatório'),
       url: z.string().url('URL do anexo deve ser válida'),
-      type: z.enum(['receipt', 'transfer_proof', 'other']).default('other'),
+      type: paymentAttachmentTypeSchema.default('other'),
     }))
     .max(5, 'Máximo de 5 anexos por pagamento')
     .optional(),
 });
 
+/**
+ * Schema para marcar earning como pago
+ */
+export const markEarningAsPaidSchema = paymentDetailsSchema;
+
+/**
+ * Schema para registrar um pagamento que quita um ou mais earnings
+ */
+export const createEarningPaymentSchema = paymentDetailsSchema.extend({
+  earningIds: z
+    .array(idSchema)
+    .min(1, 'Pelo menos um earning deve ser selecionado')
+    .max(100, 'Máximo de 100 earnings por pagamento'),
+}).refine(
+  (data) => new Set(data.earningIds).size === data.earningIds.length,
+  {
+    message: 'Earnings duplicados no pagamento',
+    path: ['earningIds'],
+  }
+);
+
+/**
+ * Schema para parâmetros de pagamento
+ */
+export const earningPaymentParamsSchema = z.object({
+  id: idSchema,
+});
+
+/**
+ * Schema para parâmetros de anexo de pagamento
+ */
+export const paymentAttachmentParamsSchema = z.object({
+  id: idSchema,
+  attachmentId: idSchema,
+});
+
+/**
+ * Schema para filtros de pagamentos
+ */
+export const earningPaymentFiltersSchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 pagamentos por página')),
+
+  method: paymentMethodSchema.optional(),
+  userId: idSchema.optional(),
+  paidAfter: dateTimeSchema.optional(),
+  paidBefore: dateTimeSchema.optional(),
+});
+
+/**
+ * Schema para recibo de pagamento (um favorecido por recibo)
+ */
+export const paymentReceiptQuerySchema = z.object({
+  userId: idSchema.optional(),
+});
+
+/**
+ * Schema para gerar lote de pagamento PIX.
+ * Sem earningIds, o lote inclui todos os earnings pendentes livres que atendem aos filtros.
+ */
+export const createPayoutBatchSchema = z.object({
+  earningIds: z
+    .array(idSchema)
+    .min(1, 'Pelo menos um earning deve ser selecionado')
+    .max(1000, 'Máximo de 1000 earnings por lote')
+    .optional(),
+  userIds: z
+    .array(idSchema)
+    .max(500, 'Máximo de 500 usuários por lote')
+    .optional(),
+  campaignId: idSchema.optional(),
+  earnedBefore: dateTimeSchema.optional(),
+  notes: z
+    .string()
+    .max(1000, 'Observações devem ter no máximo 1000 caracteres')
+    .optional(),
+}).refine(
+  (data) => !data.earningIds || new Set(data.earningIds).size === data.earningIds.length,
+  {
+    message: 'Earnings duplicados no lote',
+    path: ['earningIds'],
+  }
+);
+
+/**
+ * Schema para parâmetros de lote de pagamento
+ */
+export const payoutBatchParamsSchema = z.object({
+  id: idSchema,
+});
+
+/**
+ * Schema para filtros de lotes de pagamento
+ */
+export const payoutBatchFiltersSchema = z.object({
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 lotes por página')),
+
+  status: z.nativeEnum(PayoutBatchStatus).optional(),
+});
+
+/**
+ * Schema para download do arquivo do lote
+ */
+export const payoutBatchFileQuerySchema = z.object({
+  format: z.enum(['csv', 'remessa']).default('csv'),
+});
+
+/**
+ * Schema para confirmar lote pago pelo banco
+ */
+export const confirmPayoutBatchSchema = z.object({
+  paymentDate: dateTimeSchema.optional(),
+  paymentReference: z
+    .string()
+    .min(1, 'Referência de pagamento é obrigatória')
+    .max(100, 'Referência de pagamento deve ter no máximo 100 caracteres')
+    .optional(),
+  paymentNotes: z
+    .string()
+    .max(1000, 'Observações de pagamento devem ter no máximo 1000 caracteres')
+    .optional(),
+});
+
+// ==================== SCHEMAS DE RETENÇÃO ====================
+
+/**
+ * Campos da regra de retenção na fonte
+ */
+const withholdingRuleFields = {
+  name: z
+    .string({ message: 'Nome da regra é obrigatório' })
+    .trim()
+    .min(2, 'Nome da regra deve ter pelo menos 2 caracteres')
+    .max(100, 'Nome da regra deve ter no máximo 100 caracteres'),
+  code: z
+    .string({ message: 'Código da regra é obrigatório' })
+    .trim()
+    .min(2, 'Código deve ter pelo menos 2 caracteres')
+    .max(20, 'Código deve ter no máximo 20 caracteres')
+    .transform((code) => code.toUpperCase()),
+  // null aplica a regra a todos os perfis / tipos de favorecido
+  role: z.nativeEnum(UserRole).nullable().optional(),
+  payeeType: z.nativeEnum(PayeeType).nullable().optional(),
+  rate: z
+    .number({ message: 'Alíquota deve ser um número' })
+    .min(0, 'Alíquota não pode ser negativa')
+    .max(100, 'Alíquota não pode ser maior que 100'),
+  minimumBase: z
+    .number()
+    .min(0, 'Base mínima não pode ser negativa')
+    .max(1000000, 'Base mínima não pode exceder R$ 1.000.000,00'),
+  maximumAmount: z
+    .number()
+    .positive('Teto da retenção deve ser maior que zero')
+    .nullable()
+    .optional(),
+  isActive: z.boolean(),
+  description: z
+    .string()
+    .max(500, 'Descrição deve ter no máximo 500 caracteres')
+    .nullable()
+    .optional(),
+};
+
+/**
+ * Schema para criar regra de retenção
+ */
+export const createWithholdingRuleSchema = z.object({
+  ...withholdingRuleFields,
+  minimumBase: withholdingRuleFields.minimumBase.optional().default(0),
+  isActive: withholdingRuleFields.isActive.optional().default(true),
+});
+
+/**
+ * Schema para atualizar regra de retenção
+ */
+export const updateWithholdingRuleSchema = z.object(withholdingRuleFields).partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'Pelo menos um campo deve ser fornecido para atualização' }
+);
+
+/**
+ * Schema para parâmetros de regra de retenção
+ */
+export const withholdingRuleParamsSchema = z.object({
+  id: idSchema,
+});
+
 /**
  * Schema para processamento em lote de earnings
  */
 export const bulkProcessEarningsSchema = z.object({
   earningIds: z
-    .array(uuidSchema)
+    .array(idSchema)
     .min(1, 'Pelo menos um earning deve ser selecionado')
     .max(100, 'Máximo de 100 earnings por lote'),
   
@@ -402,8 +632,8 @@ export const financialReportSchema = z.object({
     .optional()
     .default('all'),
 
-  userId: uuidSchema.optional(),
-  campaignId: uuidSchema.optional(),
+  userId: idSchema.optional(),
+  campaignId: idSchema.optional(),
 
   includeSummary: z
     .string()
@@ -422,12 +652,22 @@ export const financialReportSchema = z.object({
     .transform((val) => val === 'true'),
 });
 
+/**
+ * Schema para exportação do relatório financeiro (XLSX ou PDF)
+ */
+export const financialReportExportSchema = financialReportSchema.extend({
+  format: z
+    .enum(['xlsx', 'pdf'])
+    .optional()
+    .default('xlsx'),
+});
+
 /**
  * Schema para projeção de earnings
  */
 export const earningProjectionSchema = z.object({
-  userId: uuidSchema.optional(),
-  campaignId: uuidSchema.optional(),
+  userId: idSchema.optional(),
+  campaignId: idSchema.optional(),
   
   projectionPeriod: z
     .enum(['week', 'month', 'quarter', 'year'])
@@ -448,11 +688,22 @@ export const earningProjectionSchema = z.object({
     .transform((val) => val === 'true'),
 });
 
+/**
+ * Schema para cancelamento (pendente) ou estorno (pago) de earning
+ */
+export const earningStatusChangeSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(5, 'Motivo deve ter pelo menos 5 caracteres')
+    .max(500, 'Motivo deve ter no máximo 500 caracteres'),
+});
+
 /**
  * Schema para auditoria de earnings
  */
 export const earningAuditSchema = z.object({
-  earningId: uuidSchema,
+  earningId: idSchema,
   action: z.enum(['view', 'update', 'payment', 'cancel']),
   reason: z
     .string()
@@ -471,10 +722,23 @@ export type UpdateEarningData = z.infer<typeof updateEarningSchema>;
 export type EarningParams = z.infer<typeof earningParamsSchema>;
 export type EarningFilters = z.infer<typeof earningFiltersSchema>;
 export type MarkEarningAsPaidData = z.infer<typeof markEarningAsPaidSchema>;
+export type CreateEarningPaymentData = z.infer<typeof createEarningPaymentSchema>;
+export type EarningPaymentFilters = z.infer<typeof earningPaymentFiltersSchema>;
+export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
+export type PaymentAttachmentType = z.infer<typeof paymentAttachmentTypeSchema>;
+export type CreatePayoutBatchData = z.infer<typeof createPayoutBatchSchema>;
+export type PayoutBatchFilters = z.infer<typeof payoutBatchFiltersSchema>;
+export type PayoutBatchFileQuery = z.infer<typeof payoutBatchFileQuerySchema>;
+export type ConfirmPayoutBatchData = z.infer<typeof confirmPayoutBatchSchema>;
 export type BulkProcessEarningsData = z.infer<typeof bulkProcessEarningsSchema>;
 export type FinancialReportQuery = z.infer<typeof financialReportSchema>;
+export type FinancialReportExportQuery = z.infer<typeof financialReportExportSchema>;
 export type EarningProjectionQuery = z.infer<typeof earningProjectionSchema>;
 export type EarningAuditData = z.infer<typeof earningAuditSchema>;
+export type EarningStatusChangeData = z.infer<typeof earningStatusChangeSchema>;
+export type PaymentReceiptQuery = z.infer<typeof paymentReceiptQuerySchema>;
+export type CreateWithholdingRuleData = z.infer<typeof createWithholdingRuleSchema>;
+export type UpdateWithholdingRuleData = z.infer<typeof updateWithholdingRuleSchema>;
 
 // ==================== UTILITÁRIOS DE VALIDAÇÃO ====================
 
@@ -512,14 +776,14 @@ export const validateMarkAsPaid = (data: unknown) => {
  * Schema para resposta de earning
  */
 export const earningResponseSchema = z.object({
-  id: uuidSchema,
+  id: idSchema,
   type: earningTypeSchema,
-  userId: uuidSchema,
+  userId: idSchema,
   userName: z.string(),
   userAvatarUrl: z.string().url(),
-  campaignId: uuidSchema,
+  campaignId: idSchema,
   campaignTitle: z.string(),
-  kitId: uuidSchema,
+  kitId: idSchema,
   sourceUserName: z.string().optional(),
   amount: z.number().min(0),
   earningDate: z.string().datetime(),
@@ -534,7 +798,7 @@ export const earningResponseSchema = z.object({
   
   // Dados do usuário
   user: z.object({
-    id: uuidSchema,
+    id: idSchema,
     name: z.string(),
     email: z.string().email(),
     cpf: z.string(),
@@ -544,7 +808,7 @@ export const earningResponseSchema = z.object({
   
   // Dados da campanha
   campaign: z.object({
-    id: uuidSchema,
+    id: idSchema,
     title: z.string(),
     status: z.enum(['ATIVA', 'CONCLUIDA', 'EXPIRADA']),
   }),
@@ -688,6 +952,8 @@ export const EARNING_TYPE_LABELS = {
 export const EARNING_STATUS_LABELS = {
   [EarningStatus.PENDENTE]: 'Pendente',
   [EarningStatus.PAGO]: 'Pago',
+  [EarningStatus.CANCELADO]: 'Cancelado',
+  [EarningStatus.ESTORNADO]: 'Estornado',
 } as const;
 
 /**
@@ -701,6 +967,14 @@ export const PAYMENT_METHOD_LABELS = {
   other: 'Outro',
 } as const;
 
+/**
+ * Labels para tipos de favorecido
+ */
+export const PAYEE_TYPE_LABELS = {
+  [PayeeType.PESSOA_FISICA]: 'Pessoa física',
+  [PayeeType.PESSOA_JURIDICA]: 'Pessoa jurídica',
+} as const;
+
 /**
  * Configurações padrão de earnings
  */
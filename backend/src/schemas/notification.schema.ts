@@ -0,0 +1,138 @@
+/**
+ * @file notification.schema.ts
+ * @version 2.0.0
+ * @description Schemas de validação Zod para notificações dos usuários.
+ * Define estruturas para listagem, leitura e exclusão de notificações.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Schemas de filtros e parâmetros de notificações
+ * - Tipos de notificação padronizados
+ * - Schemas de templates configuráveis de notificação
+ * - Templates de avisos da lista de desejos de prêmios
+ */
+
+import { z } from 'zod';
+
+// ==================== CONSTANTES ====================
+
+/**
+ * Tipos de notificação exibidos no front-end
+ */
+export const NOTIFICATION_TYPES = [
+  'success',
+  'error',
+  'warning',
+  'info',
+  'premio',
+] as const;
+
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+/**
+ * Templates de notificação gerados por eventos de negócio
+ */
+export const NOTIFICATION_TEMPLATE_KEYS = [
+  'SUBMISSION_VALIDATED',
+  'SUBMISSION_REJECTED',
+  'KIT_COMPLETED_SELLER',
+  'KIT_COMPLETED_MANAGER',
+  'EARNING_PAID',
+  'EARNING_CANCELLED',
+  'EARNING_REVERSED',
+  'PREMIO_LOW_STOCK',
+  'CAMPAIGN_ACTIVATED',
+  'CAMPAIGN_BUDGET_WARNING',
+  'CAMPAIGN_BUDGET_EXHAUSTED',
+  'POINTS_EXPIRING',
+  'POINTS_EXPIRED',
+  'REDEMPTION_APPROVED',
+  'REDEMPTION_SHIPPED',
+  'REDEMPTION_DELIVERED',
+  'REDEMPTION_CANCELLED',
+  'WISHLIST_AFFORDABLE',
+  'WISHLIST_BACK_IN_STOCK',
+] as const;
+
+export type NotificationTemplateKey = typeof NOTIFICATION_TEMPLATE_KEYS[number];
+
+// ==================== SCHEMAS PRINCIPAIS ====================
+
+/**
+ * Schema para parâmetros de notificação (IDs gerados com cuid)
+ */
+export const notificationParamsSchema = z.object({
+  id: z
+    .string()
+    .min(1, 'ID da notificação é obrigatório'),
+});
+
+/**
+ * Schema para filtros de notificações
+ */
+export const notificationFiltersSchema = z.object({
+  // Paginação
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 notificações por página')),
+
+  // Apenas não lidas
+  unreadOnly: z
+    .string()
+    .optional()
+    .transform((val) => val === 'true'),
+
+  type: z
+    .enum(NOTIFICATION_TYPES)
+    .optional(),
+});
+
+/**
+ * Schema para parâmetros de template de notificação
+ */
+export const notificationTemplateParamsSchema = z.object({
+  key: z.enum(NOTIFICATION_TEMPLATE_KEYS),
+});
+
+/**
+ * Schema para personalizar template de notificação
+ */
+export const updateNotificationTemplateSchema = z.object({
+  title: z
+    .string()
+    .min(3, 'Título deve ter pelo menos 3 caracteres')
+    .max(100, 'Título deve ter no máximo 100 caracteres')
+    .optional(),
+
+  message: z
+    .string()
+    .min(5, 'Mensagem deve ter pelo menos 5 caracteres')
+    .max(500, 'Mensagem deve ter no máximo 500 caracteres')
+    .optional(),
+
+  type: z
+    .enum(NOTIFICATION_TYPES)
+    .optional(),
+
+  isActive: z
+    .boolean()
+    .optional(),
+}).refine(
+  (data) => Object.keys(data).length > 0,
+  'Informe pelo menos um campo para atualizar'
+);
+
+// ==================== TIPOS INFERIDOS ====================
+
+export type NotificationParams = z.infer<typeof notificationParamsSchema>;
+export type NotificationFilters = z.infer<typeof notificationFiltersSchema>;
+export type UpdateNotificationTemplateData = z.infer<typeof updateNotificationTemplateSchema>;
@@ -12,9 +12,15 @@
  * - Sistema de resgate com validações
  * - Schemas para relatórios de prêmios
  * - Normalização automática de dados
+ * - Ciclo de entrega de resgates (fila, envio com rastreio e cancelamento)
+ * - Janelas de preço sazonal por prêmio
+ * - Variações de prêmio (tamanho, cor, voltagem) com estoque e SKU próprios
+ * - Reserva temporária de estoque ao abrir o resgate
+ * - Demanda da lista de desejos
  */
 
 import { z } from 'zod';
+import { RedemptionStatus } from '@prisma/client';
 
 // ==================== SCHEMAS BÁSICOS ====================
 
@@ -133,8 +139,77 @@ const premioAvailabilitySchema = z.object({
     .default(false),
 }).optional();
 
+/**
+ * Schema para validação de SKU da variação (normalizado em maiúsculas)
+ */
+const skuSchema = z
+  .string()
+  .trim()
+  .min(2, 'SKU deve ter pelo menos 2 caracteres')
+  .max(50, 'SKU deve ter no máximo 50 caracteres')
+  .regex(/^[A-Za-z0-9._-]+$/, 'SKU deve conter apenas letras, números, ponto, hífen ou sublinhado')
+  .transform((sku) => sku.toUpperCase());
+
+/**
+ * Campos da variação do prêmio
+ */
+const premioVariantFields = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Nome da variação é obrigatório')
+    .max(60, 'Nome da variação deve ter no máximo 60 caracteres'),
+  sku: skuSchema,
+  attributes: z
+    .record(z.string().min(1).max(30), z.string().min(1).max(50))
+    .optional(),
+  pointsDelta: z
+    .number()
+    .int('Diferença de pontos deve ser um número inteiro')
+    .min(-1000000, 'Diferença de pontos não pode ser menor que -1.000.000')
+    .max(1000000, 'Diferença de pontos não pode exceder 1.000.000'),
+  stock: stockSchema,
+  isActive: z.boolean(),
+  sortOrder: z.number().int().min(0).max(1000),
+});
+
+/**
+ * Verifica SKUs repetidos em uma lista de variações
+ */
+const hasUniqueSkus = (variants?: Array<{ sku: string }>) => {
+  if (!variants) return true;
+  return new Set(variants.map(variant => variant.sku)).size === variants.length;
+};
+
 // ==================== SCHEMAS PRINCIPAIS ====================
 
+/**
+ * Schema para criação de variação do prêmio
+ */
+export const premioVariantSchema = premioVariantFields.extend({
+  pointsDelta: premioVariantFields.shape.pointsDelta.optional().default(0),
+  isActive: z.boolean().optional().default(true),
+  sortOrder: premioVariantFields.shape.sortOrder.optional().default(0),
+});
+
+/**
+ * Schema para atualização de variação do prêmio (estoque é ajustado pela rota de estoque)
+ */
+export const updatePremioVariantSchema = premioVariantFields
+  .omit({ stock: true })
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    { message: 'Pelo menos um campo deve ser fornecido para atualização' }
+  );
+
+/**
+ * Schema para parâmetros de rota de variação
+ */
+export const variantParamsSchema = z.object({
+  variantId: z.string().min(1, { message: 'ID da variação é obrigatório' }),
+});
+
 /**
  * Schema para criação de prêmio
  */
@@ -159,7 +234,17 @@ export const createPremioSchema = z.object({
     .string()
     .max(1000, 'Instruções devem ter no máximo 1000 caracteres')
     .optional(),
+  variants: z
+    .array(premioVariantSchema)
+    .max(50, 'Máximo de 50 variações por prêmio')
+    .optional(),
 }).refine(
+  (data) => hasUniqueSkus(data.variants),
+  {
+    message: 'SKUs das variações devem ser únicos',
+    path: ['variants'],
+  }
+).refine(
   (data) => {
     // Valida se a data de início é anterior à data de fim
     if (data.availability?.startDate && data.availability?.endDate) {
@@ -369,6 +454,120 @@ export const redeemPremioSchema = z.object({
     .optional(),
 });
 
+/**
+ * Schema para o corpo da requisição de resgate (prêmio e usuário vêm da rota)
+ */
+export const redemptionRequestSchema = redeemPremioSchema.pick({
+  deliveryAddress: true,
+  notes: true,
+}).extend({
+  variantId: z.string().min(1, { message: 'Variação inválida' }).optional(),
+  reservationId: z.string().min(1, { message: 'Reserva inválida' }).optional(),
+});
+
+/**
+ * Schema para reserva de estoque ao abrir o resgate
+ */
+export const reserveStockSchema = z.object({
+  variantId: z.string().min(1, { message: 'Variação inválida' }).optional(),
+});
+
+/**
+ * Schema para parâmetros de rota de reserva de estoque
+ */
+export const reservationParamsSchema = z.object({
+  reservationId: z.string().min(1, { message: 'ID da reserva é obrigatório' }),
+});
+
+/**
+ * Schema para consulta da demanda da lista de desejos
+ */
+export const wishlistDemandQuerySchema = z.object({
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '10') || 10)
+    .pipe(z.number().int().min(1).max(50, 'Limite máximo de 50 prêmios')),
+});
+
+/**
+ * Schema para verificação de resgate (variação escolhida, quando houver)
+ */
+export const checkRedeemQuerySchema = z.object({
+  variantId: z.string().min(1).optional(),
+});
+
+/**
+ * Schema para parâmetros de rota de resgate (IDs gerados com cuid)
+ */
+export const redemptionParamsSchema = z.object({
+  redemptionId: z.string().min(1, { message: 'ID do resgate é obrigatório' }),
+});
+
+/**
+ * Schema para a fila de entrega de resgates
+ */
+export const redemptionFiltersSchema = z.object({
+  status: z
+    .enum([...Object.values(RedemptionStatus), 'all'])
+    .optional()
+    .default('all'),
+  premioId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  search: z
+    .string()
+    .min(1, 'Termo de busca deve ter pelo menos 1 caractere')
+    .max(100, 'Termo de busca deve ter no máximo 100 caracteres')
+    .optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 resgates por página')),
+});
+
+/**
+ * Schema para observação opcional em aprovação e entrega
+ */
+export const redemptionNoteSchema = z.object({
+  note: z
+    .string()
+    .max(500, 'Observação deve ter no máximo 500 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para envio do resgate
+ */
+export const shipRedemptionSchema = redemptionNoteSchema.extend({
+  trackingCode: z
+    .string()
+    .trim()
+    .min(3, 'Código de rastreio deve ter pelo menos 3 caracteres')
+    .max(100, 'Código de rastreio deve ter no máximo 100 caracteres'),
+  carrier: z
+    .string()
+    .trim()
+    .max(100, 'Transportadora deve ter no máximo 100 caracteres')
+    .optional(),
+});
+
+/**
+ * Schema para cancelamento do resgate
+ */
+export const cancelRedemptionSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(5, 'Motivo deve ter pelo menos 5 caracteres')
+    .max(500, 'Motivo deve ter no máximo 500 caracteres'),
+});
+
 /**
  * Schema para atualização de estoque
  */
@@ -382,6 +581,10 @@ export const updateStockSchema = z.object({
     .string()
     .min(5, 'Motivo deve ter pelo menos 5 caracteres')
     .max(200, 'Motivo deve ter no máximo 200 caracteres'),
+  variantId: z
+    .string()
+    .min(1, { message: 'Variação inválida' })
+    .optional(),
 });
 
 /**
@@ -417,7 +620,7 @@ export const redemptionReportSchema = z.object({
   premioId: uuidSchema.optional(),
   userId: uuidSchema.optional(),
   status: z
-    .enum(['pending', 'approved', 'delivered', 'cancelled', 'all'])
+    .enum([...Object.values(RedemptionStatus), 'all'])
     .optional()
     .default('all'),
   format: z
@@ -444,14 +647,40 @@ export const bulkPremioImportSchema = z.object({
     .boolean()
     .optional()
     .default(true),
-});
+}).refine(
+  (data) => hasUniqueSkus(data.premios.flatMap(premio => premio.variants ?? [])),
+  {
+    message: 'SKUs das variações devem ser únicos na importação',
+    path: ['premios'],
+  }
+);
 
 /**
- * Schema para configuração de prêmio sazonal
+ * Temporadas de preço sazonal
+ */
+export const PREMIO_SEASONS = [
+  'spring',
+  'summer',
+  'autumn',
+  'winter',
+  'christmas',
+  'easter',
+  'mothers_day',
+  'fathers_day',
+  'black_friday',
+] as const;
+
+/**
+ * Schema para configuração de prêmio sazonal (janela de preço; o prêmio vem da rota)
  */
 export const seasonalPremioSchema = z.object({
-  premioId: uuidSchema,
-  season: z.enum(['spring', 'summer', 'autumn', 'winter', 'christmas', 'easter', 'mothers_day', 'fathers_day']),
+  season: z.enum(PREMIO_SEASONS),
+  label: z
+    .string()
+    .trim()
+    .min(3, 'Nome da campanha deve ter pelo menos 3 caracteres')
+    .max(60, 'Nome da campanha deve ter no máximo 60 caracteres')
+    .optional(),
   multiplier: z
     .number()
     .min(0.1, 'Multiplicador deve ser pelo menos 0.1')
@@ -475,6 +704,13 @@ export const seasonalPremioSchema = z.object({
   }
 );
 
+/**
+ * Schema para parâmetros de rota de janela de preço
+ */
+export const priceWindowParamsSchema = z.object({
+  windowId: z.string().min(1, { message: 'ID da janela de preço é obrigatório' }),
+});
+
 // ==================== TIPOS INFERIDOS ====================
 
 export type CreatePremioData = z.infer<typeof createPremioSchema>;
@@ -482,11 +718,25 @@ export type UpdatePremioData = z.infer<typeof updatePremioSchema>;
 export type PremioParams = z.infer<typeof premioParamsSchema>;
 export type PremioFilters = z.infer<typeof premioFiltersSchema>;
 export type RedeemPremioData = z.infer<typeof redeemPremioSchema>;
+export type RedemptionRequestData = z.infer<typeof redemptionRequestSchema>;
+export type RedemptionParams = z.infer<typeof redemptionParamsSchema>;
+export type RedemptionFilters = z.infer<typeof redemptionFiltersSchema>;
+export type RedemptionNoteData = z.infer<typeof redemptionNoteSchema>;
+export type ShipRedemptionData = z.infer<typeof shipRedemptionSchema>;
+export type CancelRedemptionData = z.infer<typeof cancelRedemptionSchema>;
 export type UpdateStockData = z.infer<typeof updateStockSchema>;
 export type PremioStatsQuery = z.infer<typeof premioStatsSchema>;
 export type RedemptionReportQuery = z.infer<typeof redemptionReportSchema>;
 export type BulkPremioImportData = z.infer<typeof bulkPremioImportSchema>;
 export type SeasonalPremioData = z.infer<typeof seasonalPremioSchema>;
+export type PriceWindowParams = z.infer<typeof priceWindowParamsSchema>;
+export type PremioVariantData = z.infer<typeof premioVariantSchema>;
+export type UpdatePremioVariantData = z.infer<typeof updatePremioVariantSchema>;
+export type VariantParams = z.infer<typeof variantParamsSchema>;
+export type CheckRedeemQuery = z.infer<typeof checkRedeemQuerySchema>;
+export type ReserveStockData = z.infer<typeof reserveStockSchema>;
+export type ReservationParams = z.infer<typeof reservationParamsSchema>;
+export type WishlistDemandQuery = z.infer<typeof wishlistDemandQuerySchema>;
 
 // ==================== UTILITÁRIOS DE VALIDAÇÃO ====================
 
@@ -545,6 +795,24 @@ export const premioResponseSchema = z.object({
   updatedAt: z.string().datetime(),
   
   // Campos calculados
+  originalPointsRequired: z.number().int().min(1).optional(),
+  priceWindow: z.object({
+    id: z.string(),
+    season: z.enum(PREMIO_SEASONS),
+    label: z.string().nullable(),
+    multiplier: z.number(),
+    endDate: z.string().datetime(),
+  }).nullable().optional(),
+  variants: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    sku: z.string(),
+    attributes: z.record(z.string(), z.string()).nullable().optional(),
+    pointsDelta: z.number().int(),
+    pointsRequired: z.number().int().min(1).optional(),
+    stock: z.number().int().min(0),
+    isActive: z.boolean(),
+  })).optional(),
   isAvailable: z.boolean().optional(),
   canUserRedeem: z.boolean().optional(),
   userRedemptions: z.number().int().min(0).optional(),
@@ -578,7 +846,7 @@ export const redemptionResponseSchema = z.object({
   id: uuidSchema,
   premioId: uuidSchema,
   userId: uuidSchema,
-  status: z.enum(['pending', 'approved', 'delivered', 'cancelled']),
+  status: z.enum(RedemptionStatus),
   redemptionDate: z.string().datetime(),
   deliveryAddress: z.object({
     street: z.string().optional(),
@@ -588,10 +856,15 @@ export const redemptionResponseSchema = z.object({
     country: z.string().optional(),
   }).optional(),
   notes: z.string().optional(),
-  approvedBy: uuidSchema.optional(),
+  variantId: z.string().optional(),
+  variantName: z.string().optional(),
   approvedAt: z.string().datetime().optional(),
+  shippedAt: z.string().datetime().optional(),
   deliveredAt: z.string().datetime().optional(),
+  cancelledAt: z.string().datetime().optional(),
   trackingCode: z.string().optional(),
+  carrier: z.string().optional(),
+  cancelReason: z.string().optional(),
 });
 
 // ==================== CONSTANTES ====================
@@ -616,12 +889,7 @@ export const PREMIO_CATEGORIES = [
 /**
  * Status de resgate disponíveis
  */
-export const REDEMPTION_STATUSES = [
-  'pending',
-  'approved', 
-  'delivered',
-  'cancelled',
-] as const;
+export const REDEMPTION_STATUSES = Object.values(RedemptionStatus);
 
 /**
  * Tags sugeridas para prêmios
@@ -658,12 +926,13 @@ export const PREMIO_ERROR_MESSAGES = {
 /**
  * Labels para status de resgate
  */
-export const REDEMPTION_STATUS_LABELS = {
-  pending: 'Pendente',
-  approved: 'Aprovado',
-  delivered: 'Entregue',
-  cancelled: 'Cancelado',
-} as const;
+export const REDEMPTION_STATUS_LABELS: Record<RedemptionStatus, string> = {
+  SOLICITADO: 'Solicitado',
+  APROVADO: 'Aprovado',
+  ENVIADO: 'Enviado',
+  ENTREGUE: 'Entregue',
+  CANCELADO: 'Cancelado',
+};
 
 /**
  * Configurações padrão de prêmios
@@ -688,4 +957,5 @@ export const PREMIO_LIMITS = {
   MAX_POINTS_REQUIRED: 1000000,
   MAX_STOCK: 100000,
   MAX_BULK_IMPORT: 100,
+  MAX_VARIANTS_PER_PREMIO: 50,
 } as const;
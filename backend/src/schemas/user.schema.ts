@@ -12,10 +12,11 @@
  * - Schemas para consultas e relatórios
  * - Validação de hierarquia gerente-vendedor
  * - Normalização automática de dados
+ * - Filtros do extrato de pontos e conciliação de saldo
  */
 
 import { z } from 'zod';
-import { UserRole, UserStatus } from '@prisma/client';
+import { PointTransactionType, UserRole, UserStatus } from '@prisma/client';
 import { 
   isValidCPF, 
   isValidCNPJ, 
@@ -437,6 +438,35 @@ export const updateUserPointsSchema = z.object({
     .default('set'),
 });
 
+/**
+ * Schema para filtros do extrato de pontos
+ */
+export const pointStatementFiltersSchema = z.object({
+  type: z
+    .enum([...Object.values(PointTransactionType), 'all'])
+    .optional()
+    .default('all'),
+  startDate: z.string().datetime({ message: 'Data inicial deve estar no formato ISO 8601' }).optional(),
+  endDate: z.string().datetime({ message: 'Data final deve estar no formato ISO 8601' }).optional(),
+  page: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '1') || 1)
+    .pipe(z.number().int().min(1, 'Página deve ser maior que 0')),
+  limit: z
+    .string()
+    .optional()
+    .transform((val) => parseInt(val || '20') || 20)
+    .pipe(z.number().int().min(1).max(100, 'Limite máximo de 100 lançamentos por página')),
+});
+
+/**
+ * Schema para conciliação do saldo de pontos
+ */
+export const reconcileUserPointsSchema = z.object({
+  apply: z.boolean().optional().default(false),
+});
+
 /**
  * Schema para consulta de estatísticas de usuário
  */
@@ -522,6 +552,8 @@ export type ResetUserPasswordData = z.infer<typeof resetUserPasswordSchema>;
 export type AssociateSellerToManagerData = z.infer<typeof associateSellerToManagerSchema>;
 export type ManagerSellersQuery = z.infer<typeof managerSellersSchema>;
 export type UpdateUserPointsData = z.infer<typeof updateUserPointsSchema>;
+export type PointStatementFilters = z.infer<typeof pointStatementFiltersSchema>;
+export type ReconcileUserPointsData = z.infer<typeof reconcileUserPointsSchema>;
 export type UserStatsQuery = z.infer<typeof userStatsSchema>;
 export type CheckAvailabilityData = z.infer<typeof checkAvailabilitySchema>;
 export type BulkUserImportData = z.infer<typeof bulkUserImportSchema>;
@@ -15,6 +15,7 @@
  */
 
 import { z } from 'zod'
+import { isValidCNPJ, normalizeCNPJ } from '../utils/normalizers'
 
 // ==================== DEFINIÇÃO DOS ENUMS LOCAIS ====================
 
@@ -40,7 +41,9 @@ const ResultRowStatus = {
 } as const
 
 /**
- * Estratégia de tratamento de duplicatas
+ * Estratégia de tratamento de duplicatas.
+ * OVERWRITE reprocessa pedidos já rejeitados, mas nunca sobrescreve venda já
+ * validada (pontos concedidos): a linha fica como aviso para revisão manual.
  */
 const DuplicateHandlingStrategy = {
   IGNORE: 'IGNORE',
@@ -302,6 +305,25 @@ export const validationConfigSchema = z.object({
     .boolean()
     .optional()
     .default(false),
+
+  // Leitura da planilha (detectados automaticamente se omitidos)
+  sheetName: z
+    .string()
+    .max(100, 'Nome da aba deve ter no máximo 100 caracteres')
+    .optional(),
+
+  headerRow: z
+    .number()
+    .int('Linha de cabeçalho deve ser um número inteiro')
+    .min(1, 'Linha de cabeçalho deve ser maior que zero')
+    .max(50, 'Linha de cabeçalho deve estar entre as 50 primeiras')
+    .optional(),
+
+  // Template de mapeamento usado (para estatística de uso)
+  templateId: z
+    .string()
+    .max(50)
+    .optional(),
 }).refine(
   (data) => {
     // Valida se pelo menos um campo obrigatório está mapeado
@@ -745,6 +767,17 @@ export const paginatedValidationJobsResponseSchema = z.object({
 
 // ==================== SCHEMAS DE TEMPLATE ====================
 
+/**
+ * Schema para CNPJ da distribuidora (aceita com ou sem máscara)
+ */
+const distributorCnpjSchema = z
+  .string()
+  .transform(normalizeCNPJ)
+  .refine(
+    (cnpj) => isValidCNPJ(cnpj),
+    { message: 'CNPJ da distribuidora inválido' }
+  )
+
 /**
  * Schema para template de mapeamento
  */
@@ -752,6 +785,8 @@ export const mappingTemplateSchema = z.object({
   id: uuidSchema.optional(),
   name: z.string().min(3).max(100),
   description: z.string().max(500).optional(),
+  distributorName: z.string().max(150).optional(),
+  distributorCnpj: distributorCnpjSchema.optional(),
   mappings: z.array(columnMappingSchema),
   isDefault: z.boolean().default(false),
   createdBy: uuidSchema.optional(),
@@ -765,10 +800,40 @@ export const mappingTemplateSchema = z.object({
 export const saveMappingTemplateSchema = z.object({
   name: z.string().min(3).max(100),
   description: z.string().max(500).optional(),
-  mappings: z.array(columnMappingSchema),
+  distributorName: z.string().max(150).optional(),
+  distributorCnpj: distributorCnpjSchema.optional(),
+  mappings: z
+    .array(columnMappingSchema)
+    .min(1, 'Template deve ter pelo menos um mapeamento')
+    .max(50, 'Máximo de 50 mapeamentos por template'),
   isDefault: z.boolean().default(false),
 })
 
+/**
+ * Schema para atualizar template (todos os campos opcionais)
+ */
+export const updateMappingTemplateSchema = saveMappingTemplateSchema
+  .partial()
+  .refine(
+    (data) => Object.keys(data).length > 0,
+    'Informe pelo menos um campo para atualizar'
+  )
+
+/**
+ * Schema para parâmetros de template (IDs gerados com cuid)
+ */
+export const mappingTemplateParamsSchema = z.object({
+  id: z.string().min(1, 'ID do template é obrigatório'),
+})
+
+/**
+ * Schema para filtros de templates
+ */
+export const mappingTemplateFiltersSchema = z.object({
+  distributorCnpj: z.string().optional(),
+  search: z.string().max(100).optional(),
+})
+
 // ==================== TIPOS INFERIDOS ====================
 
 export type ColumnMappingData = z.infer<typeof columnMappingSchema>
@@ -785,6 +850,8 @@ export type ValidateSubmissionData = z.infer<typeof validateSubmissionSchema>
 export type BulkValidationData = z.infer<typeof bulkValidationSchema>
 export type MappingTemplateData = z.infer<typeof mappingTemplateSchema>
 export type SaveMappingTemplateData = z.infer<typeof saveMappingTemplateSchema>
+export type UpdateMappingTemplateData = z.infer<typeof updateMappingTemplateSchema>
+export type MappingTemplateFilters = z.infer<typeof mappingTemplateFiltersSchema>
 
 // ==================== UTILITÁRIOS DE VALIDAÇÃO ====================
 
@@ -916,7 +983,7 @@ export const VALIDATION_STATUS_LABELS = {
  */
 export const DUPLICATE_HANDLING_LABELS = {
   [DuplicateHandlingStrategy.IGNORE]: 'Ignorar duplicadas',
-  [DuplicateHandlingStrategy.OVERWRITE]: 'Sobrescrever com novos dados',
+  [DuplicateHandlingStrategy.OVERWRITE]: 'Sobrescrever com novos dados (exceto vendas já validadas)',
   [DuplicateHandlingStrategy.REJECT_ROW]: 'Rejeitar linha duplicada',
   [DuplicateHandlingStrategy.MERGE]: 'Mesclar dados',
 } as const
@@ -12,17 +12,23 @@
  * - Validação e normalização de dados de usuário
  * - Auditoria de operações de segurança
  * - Rate limiting e proteção contra ataques
+ * - Sessões persistidas: JTI por token, rotação de refresh token e logout real
+ * - Redefinição de senha por e-mail e verificação de e-mail com tokens de uso único
+ * - Chave PIX editável no perfil
+ * - Tipo de favorecido e dados da empresa (pessoa jurídica) no perfil
  */
 
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
-import { UserRole, UserStatus } from '@prisma/client';
+import { PayeeType, PixKeyType, UserRole, UserStatus, UserTokenType } from '@prisma/client';
 import {
   LoginData,
   UserRegistrationData,
   ChangePasswordData,
-  UpdateProfileData
+  UpdateProfileData,
+  ResetPasswordData
 } from '../schemas/auth.schema';
 import {
   normalizeCPF,
@@ -30,11 +36,27 @@ import {
   normalizePhone,
   normalizeEmail,
   normalizeName,
+  normalizePixKey,
   isValidCPF,
   isValidCNPJ
 } from '../utils/normalizers';
 import { AppError } from '../errors/AppError';
 import { createLimiter } from '../lib/rateLimiter';
+import {
+  createSession,
+  rotateSession,
+  revokeSession,
+  revokeUserSessions,
+  SessionContext
+} from './session.service';
+import {
+  issueUserToken,
+  findValidUserToken,
+  consumeUserToken,
+  getLastUserTokenIssuedAt
+} from './userToken.service';
+import { sendPasswordResetMail, sendEmailVerificationMail } from './mail.service';
+import { publishDomainEvent } from './domainEvents.service';
 
 // ==================== INTERFACES E TIPOS ====================
 
@@ -52,6 +74,12 @@ interface LoginResponse {
     avatarUrl: string;
     level: string;
     points: number;
+    emailVerifiedAt: string | null;
+    pixKeyType: PixKeyType | null;
+    pixKey: string | null;
+    payeeType: PayeeType;
+    payeeCnpj: string | null;
+    payeeCompanyName: string | null;
   };
   token: string;
   refreshToken?: string;
@@ -65,10 +93,22 @@ interface JWTPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sid: string;
+  jti: string;
   iat: number;
   exp: number;
 }
 
+/**
+ * Interface para payload do refresh token
+ */
+interface RefreshTokenPayload {
+  userId: string;
+  sid: string;
+  type: 'refresh';
+  jti: string;
+}
+
 /**
  * Interface para usuário criado
  */
@@ -103,6 +143,11 @@ const BCRYPT_CONFIG = {
   SALT_ROUNDS: 12,
 };
 
+/**
+ * Intervalo mínimo entre e-mails de redefinição/verificação para o mesmo usuário
+ */
+const MAIL_TOKEN_RESEND_INTERVAL = 60 * 1000; // 1 minuto
+
 const loginLimiter = createLimiter({
   windowMs: 15 * 60 * 1000, // 15 minutos
   max: 5,
@@ -112,13 +157,14 @@ const loginLimiter = createLimiter({
 // ==================== UTILITÁRIOS DE JWT ====================
 
 /**
- * Gera um token JWT
+ * Gera um token JWT (cada token recebe JTI próprio e referencia a sessão)
  */
-const generateToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
+const generateToken = (payload: Omit<JWTPayload, 'iat' | 'exp' | 'jti'>): string => {
   return jwt.sign(
     payload,
     JWT_CONFIG.SECRET,
     {
+      jwtid: randomUUID(),
       expiresIn: JWT_CONFIG.EXPIRES_IN,
       algorithm: JWT_CONFIG.ALGORITHM,
       issuer: JWT_CONFIG.ISSUER,
@@ -128,13 +174,14 @@ const generateToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
 };
 
 /**
- * Gera um refresh token
+ * Gera um refresh token com o JTI vigente da sessão
  */
-const generateRefreshToken = (userId: string): string => {
+const generateRefreshToken = (userId: string, sessionId: string, refreshJti: string): string => {
   return jwt.sign(
-    { userId, type: 'refresh' },
+    { userId, sid: sessionId, type: 'refresh' },
     JWT_CONFIG.SECRET,
     {
+      jwtid: refreshJti,
       expiresIn: JWT_CONFIG.REFRESH_EXPIRES_IN,
       algorithm: JWT_CONFIG.ALGORITHM,
       issuer: JWT_CONFIG.ISSUER,
@@ -313,7 +360,17 @@ const validateUserHierarchy = async (
  * Registra evento de auditoria de autenticação
  */
 const logAuthEvent = async (
-  event: 'LOGIN_SUCCESS' | 'LOGIN_FAILED' | 'REGISTER' | 'PASSWORD_CHANGE' | 'LOGOUT',
+  event:
+    | 'LOGIN_SUCCESS'
+    | 'LOGIN_FAILED'
+    | 'REGISTER'
+    | 'PASSWORD_CHANGE'
+    | 'LOGOUT'
+    | 'TOKEN_REFRESH'
+    | 'SESSIONS_REVOKED'
+    | 'PASSWORD_RESET_REQUESTED'
+    | 'PASSWORD_RESET'
+    | 'EMAIL_VERIFIED',
   userId?: string,
   email?: string,
   metadata?: Record<string, any>
@@ -337,7 +394,11 @@ const logAuthEvent = async (
 /**
  * Realiza login do usuário
  */
-export const loginUser = async (email: string, password: string): Promise<LoginResponse | null> => {
+export const loginUser = async (
+  email: string,
+  password: string,
+  context: SessionContext = {}
+): Promise<LoginResponse | null> => {
   const normalizedEmail = normalizeEmail(email);
 
   try {
@@ -361,6 +422,12 @@ export const loginUser = async (email: string, password: string): Promise<LoginR
         avatarUrl: true,
         level: true,
         points: true,
+        emailVerifiedAt: true,
+        pixKeyType: true,
+        pixKey: true,
+        payeeType: true,
+        payeeCnpj: true,
+        payeeCompanyName: true,
       },
     });
 
@@ -389,17 +456,20 @@ export const loginUser = async (email: string, password: string): Promise<LoginR
     // Login bem-sucedido
     LoginAttemptsCache.clearAttempts(normalizedEmail);
 
-    // Gera tokens
+    // Cria sessão e gera tokens vinculados a ela
+    const session = await createSession(user.id, context);
+
     const token = generateToken({
       userId: user.id,
       email: user.email,
       role: user.role,
+      sid: session.id,
     });
 
-    const refreshToken = generateRefreshToken(user.id);
+    const refreshToken = generateRefreshToken(user.id, session.id, session.refreshJti);
     const expiresAt = getTokenExpirationDate();
 
-    await logAuthEvent('LOGIN_SUCCESS', user.id, user.email);
+    await logAuthEvent('LOGIN_SUCCESS', user.id, user.email, { sessionId: session.id });
 
     return {
       user: {
@@ -412,6 +482,12 @@ export const loginUser = async (email: string, password: string): Promise<LoginR
         avatarUrl: user.avatarUrl,
         level: user.level,
         points: user.points,
+        emailVerifiedAt: user.emailVerifiedAt?.toISOString() ?? null,
+        pixKeyType: user.pixKeyType,
+        pixKey: user.pixKey,
+        payeeType: user.payeeType,
+        payeeCnpj: user.payeeCnpj,
+        payeeCompanyName: user.payeeCompanyName,
       },
       token,
       refreshToken,
@@ -511,7 +587,8 @@ export const registerUser = async (userData: UserRegistrationData): Promise<Crea
  */
 export const changeUserPassword = async (
   userId: string, 
-  passwordData: ChangePasswordData
+  passwordData: ChangePasswordData,
+  currentSessionId?: string
 ): Promise<void> => {
   try {
     const user = await prisma.user.findUnique({
@@ -551,6 +628,9 @@ export const changeUserPassword = async (
       data: { passwordHash: newPasswordHash },
     });
 
+    // Encerra as demais sessões (a sessão atual continua válida)
+    await revokeUserSessions(userId, 'PASSWORD_CHANGED', { exceptSessionId: currentSessionId });
+
     await logAuthEvent('PASSWORD_CHANGE', user.id, user.email);
 
   } catch (error) {
@@ -570,12 +650,22 @@ export const changeUserPassword = async (
 export const updateUserProfile = async (
   userId: string, 
   profileData: UpdateProfileData
-): Promise<{ id: string; name: string; email: string; avatarUrl?: string }> => {
+): Promise<{
+  id: string;
+  name: string;
+  email: string;
+  avatarUrl?: string;
+  pixKeyType: PixKeyType | null;
+  pixKey: string | null;
+  payeeType: PayeeType;
+  payeeCnpj: string | null;
+  payeeCompanyName: string | null;
+}> => {
   try {
     return await prisma.$transaction(async (tx) => {
       const user = await tx.user.findUnique({
         where: { id: userId },
-        select: { id: true, email: true, status: true },
+        select: { id: true, email: true, status: true, payeeType: true, payeeCnpj: true, payeeCompanyName: true },
       });
 
       if (!user) {
@@ -605,6 +695,39 @@ export const updateUserProfile = async (
         updateData.avatarUrl = profileData.avatarUrl;
       }
 
+      // Chave PIX: tipo e chave andam juntos (null remove)
+      if (profileData.pixKeyType !== undefined) {
+        updateData.pixKeyType = profileData.pixKeyType;
+        updateData.pixKey = profileData.pixKeyType && profileData.pixKey
+          ? normalizePixKey(profileData.pixKeyType, profileData.pixKey)
+          : null;
+      }
+
+      // Favorecido: pessoa jurídica exige CNPJ e razão social
+      if (profileData.payeeType !== undefined) {
+        updateData.payeeType = profileData.payeeType;
+      }
+
+      if (profileData.payeeCnpj !== undefined) {
+        updateData.payeeCnpj = profileData.payeeCnpj;
+      }
+
+      if (profileData.payeeCompanyName !== undefined) {
+        updateData.payeeCompanyName = profileData.payeeCompanyName;
+      }
+
+      const payeeType = profileData.payeeType ?? user.payeeType;
+      if (payeeType === PayeeType.PESSOA_JURIDICA) {
+        const payeeCnpj = profileData.payeeCnpj !== undefined ? profileData.payeeCnpj : user.payeeCnpj;
+        const payeeCompanyName = profileData.payeeCompanyName !== undefined
+          ? profileData.payeeCompanyName
+          : user.payeeCompanyName;
+
+        if (!payeeCnpj || !payeeCompanyName) {
+          throw new Error('CNPJ e razão social são obrigatórios para favorecido pessoa jurídica');
+        }
+      }
+
       // Atualiza usuário
       const updatedUser = await tx.user.update({
         where: { id: userId },
@@ -614,6 +737,11 @@ export const updateUserProfile = async (
           name: true,
           email: true,
           avatarUrl: true,
+          pixKeyType: true,
+          pixKey: true,
+          payeeType: true,
+          payeeCnpj: true,
+          payeeCompanyName: true,
         },
       });
 
@@ -639,13 +767,27 @@ export const verifyAuthToken = (token: string): JWTPayload => {
 };
 
 /**
- * Renovar token usando refresh token
+ * Renova token usando refresh token.
+ * O refresh token é rotacionado: o anterior deixa de valer e seu reuso revoga a sessão.
  */
-export const refreshAuthToken = async (refreshToken: string): Promise<{ token: string; expiresAt: string }> => {
+export const refreshAuthToken = async (
+  refreshToken: string
+): Promise<{ token: string; refreshToken: string; expiresAt: string }> => {
   try {
-    const decoded = jwt.verify(refreshToken, JWT_CONFIG.SECRET) as any;
-    
-    if (decoded.type !== 'refresh') {
+    let decoded: RefreshTokenPayload;
+
+    try {
+      decoded = jwt.verify(refreshToken, JWT_CONFIG.SECRET, {
+        algorithms: [JWT_CONFIG.ALGORITHM],
+        issuer: JWT_CONFIG.ISSUER,
+        audience: JWT_CONFIG.AUDIENCE,
+      }) as RefreshTokenPayload;
+    } catch (error) {
+      throw new Error(error instanceof jwt.TokenExpiredError ? 'Refresh token expirado' : 'Token inválido');
+    }
+
+    // Tokens emitidos antes das sessões persistidas não têm sid/jti
+    if (decoded.type !== 'refresh' || !decoded.sid || !decoded.jti) {
       throw new Error('Token inválido');
     }
 
@@ -664,18 +806,25 @@ export const refreshAuthToken = async (refreshToken: string): Promise<{ token: s
     }
 
     if (user.status === UserStatus.BLOCKED) {
+      await revokeUserSessions(user.id, 'USER_BLOCKED');
       throw new Error('Usuário bloqueado');
     }
 
+    const session = await rotateSession(decoded.sid, decoded.jti);
+
     const newToken = generateToken({
       userId: user.id,
       email: user.email,
       role: user.role,
+      sid: session.id,
     });
 
+    const newRefreshToken = generateRefreshToken(user.id, session.id, session.refreshJti);
     const expiresAt = getTokenExpirationDate();
 
-    return { token: newToken, expiresAt };
+    await logAuthEvent('TOKEN_REFRESH', user.id, user.email, { sessionId: session.id });
+
+    return { token: newToken, refreshToken: newRefreshToken, expiresAt };
 
   } catch (error) {
     console.error('[AUTH_SERVICE] Erro ao renovar token:', error);
@@ -689,23 +838,23 @@ export const refreshAuthToken = async (refreshToken: string): Promise<{ token: s
 };
 
 /**
- * Logout do usuário (invalidar refresh token se implementado)
+ * Logout do usuário: revoga a sessão atual (ou todas, se não informada)
  */
-export const logoutUser = async (userId: string): Promise<void> => {
+export const logoutUser = async (userId: string, sessionId?: string): Promise<void> => {
   try {
-    // Esta implementação é um placeholder.
-    // Para um logout real que invalide o token, seria necessário um dos seguintes:
-    // 1. Blacklist de tokens: Armazenar o JTI (JWT ID) do token em um banco de dados
-    //    (como Redis) com um tempo de expiração igual ao do token.
-    // 2. Gerenciamento de sessão no servidor: Manter um registro de sessões ativas.
-    // Por simplicidade, esta função apenas registra o evento de logout.
+    if (sessionId) {
+      await revokeSession(sessionId, 'LOGOUT');
+    } else {
+      await revokeUserSessions(userId, 'LOGOUT');
+    }
+
     const user = await prisma.user.findUnique({
       where: { id: userId },
       select: { email: true },
     });
 
     if (user) {
-      await logAuthEvent('LOGOUT', userId, user.email);
+      await logAuthEvent('LOGOUT', userId, user.email, { sessionId });
     }
   } catch (error) {
     console.error('[AUTH_SERVICE] Erro no processo de logout:', error);
@@ -714,6 +863,171 @@ export const logoutUser = async (userId: string): Promise<void> => {
   }
 };
 
+/**
+ * Invalida todas as sessões de um usuário (ação administrativa).
+ * Retorna a quantidade de sessões revogadas.
+ */
+export const invalidateUserSessions = async (userId: string, adminId: string): Promise<number> => {
+  const revokedSessionIds = await revokeUserSessions(userId, 'ADMIN_INVALIDATED');
+
+  await logAuthEvent('SESSIONS_REVOKED', userId, undefined, {
+    adminId,
+    count: revokedSessionIds.length,
+  });
+
+  return revokedSessionIds.length;
+};
+
+// ==================== REDEFINIÇÃO DE SENHA E VERIFICAÇÃO DE E-MAIL ====================
+
+/**
+ * Verifica se um novo e-mail de token pode ser enviado (evita envio em massa)
+ */
+const canIssueMailToken = async (userId: string, type: UserTokenType): Promise<boolean> => {
+  const lastIssuedAt = await getLastUserTokenIssuedAt(userId, type);
+  return !lastIssuedAt || Date.now() - lastIssuedAt.getTime() >= MAIL_TOKEN_RESEND_INTERVAL;
+};
+
+/**
+ * Solicita redefinição de senha.
+ * Não revela se o e-mail existe: e-mails desconhecidos, usuários bloqueados e
+ * solicitações repetidas são ignorados silenciosamente.
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const normalizedEmail = normalizeEmail(email);
+
+  const user = await prisma.user.findUnique({
+    where: { email: normalizedEmail },
+    select: { id: true, name: true, email: true, status: true },
+  });
+
+  if (!user || user.status === UserStatus.BLOCKED) {
+    await logAuthEvent('PASSWORD_RESET_REQUESTED', undefined, normalizedEmail, { ignored: true });
+    return;
+  }
+
+  if (!(await canIssueMailToken(user.id, UserTokenType.PASSWORD_RESET))) {
+    console.warn(`[AUTH_SERVICE] Solicitação de redefinição repetida ignorada para ${user.id}`);
+    return;
+  }
+
+  const { token, expiresAt } = await issueUserToken(user.id, UserTokenType.PASSWORD_RESET);
+  await sendPasswordResetMail(user, token, expiresAt);
+
+  await logAuthEvent('PASSWORD_RESET_REQUESTED', user.id, user.email);
+};
+
+/**
+ * Verifica se token de redefinição ainda é válido (tela de nova senha)
+ */
+export const validatePasswordResetToken = async (token: string): Promise<{ email: string; expiresAt: Date }> => {
+  const userToken = await findValidUserToken(token, UserTokenType.PASSWORD_RESET);
+
+  const user = await prisma.user.findUnique({
+    where: { id: userToken.userId },
+    select: { email: true },
+  });
+
+  if (!user) {
+    throw new Error('Token inválido ou já utilizado');
+  }
+
+  // Mascara o e-mail: a tela só precisa confirmar a conta
+  const [localPart, domain] = user.email.split('@');
+  const maskedEmail = `${localPart.substring(0, 2)}${'*'.repeat(Math.max(1, localPart.length - 2))}@${domain}`;
+
+  return { email: maskedEmail, expiresAt: userToken.expiresAt };
+};
+
+/**
+ * Redefine senha com token recebido por e-mail.
+ * Todas as sessões do usuário são encerradas.
+ */
+export const resetPasswordWithToken = async (data: ResetPasswordData): Promise<void> => {
+  const passwordHash = await hashPassword(data.password);
+
+  const { userId, email, revokedSessionIds } = await prisma.$transaction(async (tx) => {
+    const userToken = await consumeUserToken(data.token, UserTokenType.PASSWORD_RESET, tx);
+
+    const user = await tx.user.findUnique({
+      where: { id: userToken.userId },
+      select: { id: true, email: true, status: true, emailVerifiedAt: true },
+    });
+
+    if (!user) {
+      throw new Error('Token inválido ou já utilizado');
+    }
+
+    if (user.status === UserStatus.BLOCKED) {
+      throw new Error('Usuário bloqueado');
+    }
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        passwordHash,
+        // O link chegou ao e-mail: o endereço está confirmado
+        ...(!user.emailVerifiedAt && { emailVerifiedAt: new Date() }),
+      },
+    });
+
+    const sessionIds = await revokeUserSessions(user.id, 'PASSWORD_RESET', { tx });
+
+    return { userId: user.id, email: user.email, revokedSessionIds: sessionIds };
+  });
+
+  if (revokedSessionIds.length > 0) {
+    publishDomainEvent('session.revoked', { userId, sessionIds: revokedSessionIds });
+  }
+
+  await logAuthEvent('PASSWORD_RESET', userId, email, { revokedSessions: revokedSessionIds.length });
+};
+
+/**
+ * Envia e-mail de verificação para o usuário.
+ * Com force=false respeita o intervalo mínimo entre envios.
+ */
+export const requestEmailVerification = async (userId: string, force = false): Promise<void> => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, name: true, email: true, emailVerifiedAt: true },
+  });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  if (user.emailVerifiedAt) {
+    throw new Error('E-mail já verificado');
+  }
+
+  if (!force && !(await canIssueMailToken(user.id, UserTokenType.EMAIL_VERIFICATION))) {
+    throw new Error('Aguarde um minuto antes de solicitar um novo e-mail de verificação');
+  }
+
+  const { token, expiresAt } = await issueUserToken(user.id, UserTokenType.EMAIL_VERIFICATION);
+  await sendEmailVerificationMail(user, token, expiresAt);
+};
+
+/**
+ * Confirma e-mail com token recebido
+ */
+export const verifyEmail = async (token: string): Promise<{ email: string }> => {
+  const user = await prisma.$transaction(async (tx) => {
+    const userToken = await consumeUserToken(token, UserTokenType.EMAIL_VERIFICATION, tx);
+
+    return tx.user.update({
+      where: { id: userToken.userId },
+      data: { emailVerifiedAt: new Date() },
+      select: { id: true, email: true },
+    });
+  });
+
+  await logAuthEvent('EMAIL_VERIFIED', user.id, user.email);
+
+  return { email: user.email };
+};
+
 // ==================== UTILITÁRIOS EXTRAS ====================
 
 /**
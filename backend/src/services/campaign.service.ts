@@ -15,10 +15,12 @@
  * - CORRIGIDO: Erro de divisão por zero em 'calculateKitProgress'.
  * Adicionada verificação para evitar divisão por zero ao calcular
  * 'goalProgress'. Considera progresso 100% se o valor da meta for 0.
+ * - Orçamento da campanha (total, teto por vendedor e ação ao esgotar) na criação,
+ * edição e estatísticas, com alertas reavaliados quando o orçamento muda.
  */
 
 import { prisma, PrismaTransactionClient, prismaUtils } from '../../lib/prismaClient';
-import { CampaignStatus, CampaignKitStatus, ActivityType, UserRole, CampaignSubmissionStatus, GoalRequirementType, GoalConditionOperator } from '@prisma/client';
+import { CampaignStatus, CampaignBudgetAction, CampaignKitStatus, ActivityType, UserRole, CampaignSubmissionStatus, RuleOperator } from '@prisma/client';
 import {
   CreateCampaignData,
   UpdateCampaignData,
@@ -27,9 +29,21 @@ import {
   DuplicateCampaignData
 } from '../schemas/campaign.schema';
 import { createActivityItem } from './activity.service';
+import { publishDomainEvent } from './domainEvents.service';
+import { checkCampaignBudgetAlerts, getCampaignBudgetStatus } from './campaignBudget.service';
 
 // ==================== INTERFACES E TIPOS ====================
 
+/**
+ * Forma de medir um requisito de meta (não existe enum no banco)
+ */
+const GoalRequirementType = {
+  QUANTITY: 'QUANTITY',
+  VALUE: 'VALUE'
+} as const;
+
+type GoalRequirementType = typeof GoalRequirementType[keyof typeof GoalRequirementType];
+
 // (Interfaces FullCampaign, GoalRequirementWithConditions, CampaignKitWithDetails, KitProgressResult permanecem as mesmas)
 // --- INÍCIO DAS INTERFACES (mantidas para contexto) ---
 /**
@@ -45,6 +59,9 @@ interface FullCampaign {
   status: CampaignStatus;
   pointsOnCompletion: number | null;
   managerPointsPercentage: number | null;
+  budgetTotal: number | null;
+  budgetPerSeller: number | null;
+  budgetExhaustedAction: CampaignBudgetAction;
   // Deprecated? goal e points parecem ser por requisito agora
   points: number | null; // Manter por compatibilidade?
   goal: number | null;   // Manter por compatibilidade?
@@ -74,7 +91,7 @@ interface GoalCondition {
     id: string;
     goalRequirementId: string;
     field: string; // Campo da Submission a ser verificado (ex: 'productType', 'value')
-    operator: GoalConditionOperator; // Ex: 'EQUALS', 'GREATER_THAN'
+    operator: RuleOperator; // Ex: 'EQUALS', 'GREATER_THAN'
     value: string; // Valor da condição (ex: 'Lente XPTO', '100')
 }
 
@@ -153,6 +170,9 @@ export const createCampaign = async (
                 status: data.status || CampaignStatus.DRAFT, // Default DRAFT
                 pointsOnCompletion: data.pointsOnCompletion,
                 managerPointsPercentage: data.managerPointsPercentage,
+                budgetTotal: data.budgetTotal,
+                budgetPerSeller: data.budgetPerSeller,
+                budgetExhaustedAction: data.budgetExhaustedAction,
                 // createdById: creatorUserId, // Adicionar se tiver relação no schema
             },
         });
@@ -214,7 +234,10 @@ export const updateCampaign = async (
   data: UpdateCampaignData,
   updaterUserId: string
 ): Promise<FullCampaign> => {
-     return await prisma.$transaction(async (tx) => {
+     // Orçamento alterado reabre os alertas de limite próximo e esgotado
+     const budgetChanged = data.budgetTotal !== undefined || data.budgetPerSeller !== undefined;
+
+     const campaign = await prisma.$transaction(async (tx) => {
         // 1. Atualiza dados base da campanha
          const updatedCampaignBase = await tx.campaign.update({
              where: { id: campaignId },
@@ -227,6 +250,10 @@ export const updateCampaign = async (
                  status: data.status,
                  pointsOnCompletion: data.pointsOnCompletion,
                  managerPointsPercentage: data.managerPointsPercentage,
+                 budgetTotal: data.budgetTotal,
+                 budgetPerSeller: data.budgetPerSeller,
+                 budgetExhaustedAction: data.budgetExhaustedAction,
+                 ...(budgetChanged && { budgetWarningSentAt: null, budgetExhaustedAt: null }),
              },
          });
 
@@ -282,6 +309,12 @@ export const updateCampaign = async (
         })
         return updatedCampaign as FullCampaign;
      });
+
+     if (budgetChanged) {
+         await checkCampaignBudgetAlerts(campaignId);
+     }
+
+     return campaign;
 };
 
 
@@ -603,6 +636,7 @@ export const getCampaignStats = async (
                  pending: pendingSubmissions,
                  rejected: totalSubmissions - validatedSubmissions - pendingSubmissions,
              },
+             budget: await getCampaignBudgetStatus(campaignId),
          };
 
 
@@ -652,6 +686,13 @@ export const toggleCampaignStatus = async (
 
         console.log(`[CAMPAIGN_SERVICE] Campanha ${campaignId} ${action} por ${updaterUserId}`);
 
+        if (status === CampaignStatus.ATIVA && campaign.status !== CampaignStatus.ATIVA) {
+            publishDomainEvent('campaign.activated', {
+                campaignId,
+                campaignTitle: updatedCampaign.title,
+            });
+        }
+
         return updatedCampaign as FullCampaign;
 
     } catch (error) {
@@ -793,12 +834,12 @@ export const calculateKitProgress = (
         const conditionValueNum = Number(conditionValue);
 
         switch (cond.operator) {
-          case GoalConditionOperator.EQUALS: return submissionValueStr === conditionValue;
-          case GoalConditionOperator.NOT_EQUALS: return submissionValueStr !== conditionValue;
-          case GoalConditionOperator.GREATER_THAN: return submissionValueNum > conditionValueNum;
-          case GoalConditionOperator.LESS_THAN: return submissionValueNum < conditionValueNum;
-          case GoalConditionOperator.CONTAINS: return submissionValueStr.includes(conditionValue);
-          case GoalConditionOperator.NOT_CONTAINS: return !submissionValueStr.includes(conditionValue);
+          case RuleOperator.EQUALS: return submissionValueStr === conditionValue;
+          case RuleOperator.NOT_EQUALS: return submissionValueStr !== conditionValue;
+          case RuleOperator.GREATER_THAN: return submissionValueNum > conditionValueNum;
+          case RuleOperator.LESS_THAN: return submissionValueNum < conditionValueNum;
+          case RuleOperator.CONTAINS: return submissionValueStr.includes(conditionValue);
+          case RuleOperator.NOT_CONTAINS: return !submissionValueStr.includes(conditionValue);
           default: return false;
         }
       })
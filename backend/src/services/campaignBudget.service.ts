@@ -0,0 +1,425 @@
+/**
+ * @file campaignBudget.service.ts
+ * @version 2.0.0
+ * @description Orçamento de campanhas do sistema EPS Campanhas.
+ * Controla o teto total e o teto por vendedor de cada campanha: calcula o comprometido
+ * (earnings pendentes e pagos), bloqueia ou retém para aprovação os prêmios que estourariam
+ * o orçamento e alerta os administradores ao se aproximar do limite e ao esgotá-lo.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Figuras de comprometido, pago e restante por campanha
+ * - Verificação de orçamento na validação de vendas com bloqueio da linha da campanha
+ * - Prêmios retidos com aprovação ou rejeição pelo administrador
+ * - Alertas de orçamento próximo do limite e esgotado
+ * - Somas e saldos em centavos (utils/money)
+ */
+
+import {
+  BudgetHoldStatus,
+  CampaignBudgetAction,
+  CampaignBudgetHold,
+  EarningStatus,
+  EarningType,
+  Prisma
+} from '@prisma/client';
+import { prisma, PrismaTransactionClient, WithMoneyFields } from '../../lib/prismaClient';
+import { BudgetHoldFilters } from '../schemas/campaign.schema';
+import { createEarningsFromDrafts, EarningDraft, EarningDraftSource } from './earning.service';
+import { publishDomainEvent } from './domainEvents.service';
+import { subtractMoney, sumMoney, toMoney } from '../utils/money';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Situação do orçamento da campanha
+ */
+export interface CampaignBudgetStatus {
+  budgetTotal: number | null;
+  budgetPerSeller: number | null;
+  exhaustedAction: CampaignBudgetAction;
+  committedAmount: number;
+  paidAmount: number;
+  pendingAmount: number;
+  remainingAmount: number | null;
+  utilization: number | null;
+  heldAmount: number;
+  heldCount: number;
+  sellersAtCap: number;
+  exhausted: boolean;
+  warningSentAt: Date | null;
+  exhaustedAt: Date | null;
+}
+
+/**
+ * Resultado da verificação de orçamento de um prêmio
+ */
+export type CampaignAwardDecision =
+  | { outcome: 'AWARD' }
+  | { outcome: 'HELD' | 'BLOCKED'; reason: string; limit: 'TOTAL' | 'SELLER' };
+
+// ==================== CONFIGURAÇÕES ====================
+
+const BUDGET_CONFIG = {
+  // Alerta aos administradores ao comprometer 80% do orçamento
+  WARNING_THRESHOLD: 0.8,
+} as const;
+
+const COMMITTED_STATUSES = [EarningStatus.PENDENTE, EarningStatus.PAGO];
+
+const BUDGET_MESSAGES = {
+  TOTAL: 'Orçamento total da campanha esgotado',
+  SELLER: 'Teto por vendedor da campanha atingido',
+} as const;
+
+const budgetFieldsSelect = {
+  id: true,
+  title: true,
+  budgetTotal: true,
+  budgetPerSeller: true,
+  budgetExhaustedAction: true,
+  budgetWarningSentAt: true,
+  budgetExhaustedAt: true,
+} satisfies Prisma.CampaignSelect;
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Soma dos earnings comprometidos da campanha (opcionalmente de um vendedor)
+ */
+const sumCommitted = async (
+  client: PrismaTransactionClient,
+  campaignId: string,
+  sellerId?: string
+): Promise<number> => {
+  const result = await client.earning.aggregate({
+    where: {
+      campaignId,
+      status: { in: COMMITTED_STATUSES },
+      ...(sellerId && { userId: sellerId, type: EarningType.SELLER }),
+    },
+    _sum: { amount: true },
+  });
+
+  return toMoney(result._sum.amount);
+};
+
+// ==================== SERVIÇOS ====================
+
+/**
+ * Situação do orçamento: comprometido, pago, restante e prêmios retidos
+ */
+export const getCampaignBudgetStatus = async (
+  campaignId: string,
+  client: PrismaTransactionClient = prisma
+): Promise<CampaignBudgetStatus> => {
+  const campaign = await client.campaign.findUnique({
+    where: { id: campaignId },
+    select: budgetFieldsSelect,
+  });
+
+  if (!campaign) {
+    throw new Error('Campanha não encontrada');
+  }
+
+  const [byStatus, held, sellerTotals] = await Promise.all([
+    client.earning.groupBy({
+      by: ['status'],
+      where: { campaignId, status: { in: COMMITTED_STATUSES } },
+      _sum: { amount: true },
+    }),
+    client.campaignBudgetHold.aggregate({
+      where: { campaignId, status: BudgetHoldStatus.PENDENTE },
+      _sum: { totalAmount: true },
+      _count: { _all: true },
+    }),
+    campaign.budgetPerSeller
+      ? client.earning.groupBy({
+          by: ['userId'],
+          where: { campaignId, type: EarningType.SELLER, status: { in: COMMITTED_STATUSES } },
+          _sum: { amount: true },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const amountFor = (status: EarningStatus) =>
+    toMoney(byStatus.find(row => row.status === status)?._sum.amount);
+
+  const paidAmount = amountFor(EarningStatus.PAGO);
+  const pendingAmount = amountFor(EarningStatus.PENDENTE);
+  const committedAmount = sumMoney([paidAmount, pendingAmount]);
+  const remainingAmount = campaign.budgetTotal !== null ? subtractMoney(campaign.budgetTotal, committedAmount) : null;
+  const budgetPerSeller = campaign.budgetPerSeller;
+
+  return {
+    budgetTotal: campaign.budgetTotal,
+    budgetPerSeller,
+    exhaustedAction: campaign.budgetExhaustedAction,
+    committedAmount,
+    paidAmount,
+    pendingAmount,
+    remainingAmount,
+    utilization: campaign.budgetTotal
+      ? Math.round((committedAmount / campaign.budgetTotal) * 1000) / 1000
+      : null,
+    heldAmount: toMoney(held._sum.totalAmount),
+    heldCount: held._count._all,
+    sellersAtCap: budgetPerSeller
+      ? sellerTotals.filter(row => toMoney(row._sum.amount) >= budgetPerSeller).length
+      : 0,
+    exhausted: remainingAmount !== null && remainingAmount <= 0,
+    warningSentAt: campaign.budgetWarningSentAt,
+    exhaustedAt: campaign.budgetExhaustedAt,
+  };
+};
+
+/**
+ * Verifica se os earnings de uma venda validada cabem no orçamento da campanha.
+ * Bloqueia a linha da campanha até o fim da transação para validações simultâneas
+ * não estourarem o orçamento.
+ */
+export const evaluateCampaignAward = async (
+  tx: PrismaTransactionClient,
+  campaignId: string,
+  sellerId: string,
+  drafts: EarningDraft[]
+): Promise<CampaignAwardDecision> => {
+  const campaign = await tx.campaign.findUnique({
+    where: { id: campaignId },
+    select: budgetFieldsSelect,
+  });
+
+  if (!campaign || (campaign.budgetTotal === null && campaign.budgetPerSeller === null)) {
+    return { outcome: 'AWARD' };
+  }
+
+  await tx.$queryRaw`SELECT id FROM "Campaign" WHERE id = ${campaignId} FOR UPDATE`;
+
+  const outcome = campaign.budgetExhaustedAction === CampaignBudgetAction.QUEUE_FOR_APPROVAL ? 'HELD' : 'BLOCKED';
+  const awardAmount = sumMoney(drafts.map(draft => draft.amount));
+  const sellerAmount = sumMoney(drafts.filter(draft => draft.type === EarningType.SELLER).map(draft => draft.amount));
+
+  if (campaign.budgetTotal !== null) {
+    const committed = await sumCommitted(tx, campaignId);
+    if (sumMoney([committed, awardAmount]) > campaign.budgetTotal) {
+      return { outcome, reason: BUDGET_MESSAGES.TOTAL, limit: 'TOTAL' };
+    }
+  }
+
+  if (campaign.budgetPerSeller !== null) {
+    const sellerCommitted = await sumCommitted(tx, campaignId, sellerId);
+    if (sumMoney([sellerCommitted, sellerAmount]) > campaign.budgetPerSeller) {
+      return { outcome, reason: BUDGET_MESSAGES.SELLER, limit: 'SELLER' };
+    }
+  }
+
+  return { outcome: 'AWARD' };
+};
+
+/**
+ * Retém o prêmio de uma venda validada até decisão do administrador
+ */
+export const holdCampaignAward = async (
+  tx: PrismaTransactionClient,
+  source: EarningDraftSource,
+  sellerId: string,
+  drafts: EarningDraft[],
+  reason: string
+): Promise<WithMoneyFields<CampaignBudgetHold>> => {
+  const hold = await tx.campaignBudgetHold.create({
+    data: {
+      campaignId: source.campaignId,
+      submissionId: source.submissionId,
+      userId: sellerId,
+      reason,
+      totalAmount: sumMoney(drafts.map(draft => draft.amount)),
+      drafts: drafts as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  console.log(`[CAMPAIGN_BUDGET_SERVICE] Prêmio retido para aprovação: submissão ${source.submissionId} (${reason})`);
+
+  return hold;
+};
+
+/**
+ * Publica os alertas de orçamento pendentes (limite próximo e esgotado), uma vez por campanha.
+ * Chame após o commit; falhas não afetam quem chamou.
+ */
+export const checkCampaignBudgetAlerts = async (
+  campaignId: string,
+  options: { totalLimitReached?: boolean } = {}
+): Promise<void> => {
+  try {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: budgetFieldsSelect,
+    });
+
+    if (!campaign || campaign.budgetTotal === null) return;
+
+    const status = await getCampaignBudgetStatus(campaignId);
+    const budgetTotal = campaign.budgetTotal;
+    const now = new Date();
+
+    if ((status.utilization || 0) >= BUDGET_CONFIG.WARNING_THRESHOLD && !campaign.budgetWarningSentAt) {
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaignId, budgetWarningSentAt: null },
+        data: { budgetWarningSentAt: now },
+      });
+
+      if (count > 0) {
+        publishDomainEvent('campaign.budget_warning', {
+          campaignId,
+          campaignTitle: campaign.title,
+          committedAmount: status.committedAmount,
+          budgetTotal,
+          utilization: Math.round((status.utilization || 0) * 100),
+        });
+      }
+    }
+
+    if ((status.exhausted || options.totalLimitReached) && !campaign.budgetExhaustedAt) {
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: campaignId, budgetExhaustedAt: null },
+        data: { budgetExhaustedAt: now },
+      });
+
+      if (count > 0) {
+        console.warn(`[CAMPAIGN_BUDGET_SERVICE] Orçamento esgotado na campanha ${campaignId}`);
+
+        publishDomainEvent('campaign.budget_exhausted', {
+          campaignId,
+          campaignTitle: campaign.title,
+          committedAmount: status.committedAmount,
+          budgetTotal,
+          action: campaign.budgetExhaustedAction,
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`[CAMPAIGN_BUDGET_SERVICE] Erro ao verificar alertas de orçamento da campanha ${campaignId}:`, error);
+  }
+};
+
+/**
+ * Lista prêmios retidos da campanha
+ */
+export const listBudgetHolds = async (campaignId: string, filters: BudgetHoldFilters) => {
+  const where: Prisma.CampaignBudgetHoldWhereInput = {
+    campaignId,
+    ...(filters.status && filters.status !== 'all' && { status: filters.status }),
+  };
+
+  const [holds, total] = await Promise.all([
+    prisma.campaignBudgetHold.findMany({
+      where,
+      include: {
+        submission: {
+          select: {
+            orderNumber: true,
+            quantity: true,
+            submissionDate: true,
+            user: { select: { id: true, name: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.campaignBudgetHold.count({ where }),
+  ]);
+
+  return {
+    data: holds,
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      total,
+      totalPages: Math.ceil(total / filters.limit),
+      hasNext: filters.page * filters.limit < total,
+      hasPrev: filters.page > 1,
+    },
+  };
+};
+
+/**
+ * Decide um prêmio retido: aprovação cria os earnings e credita os pontos, mesmo acima do orçamento
+ */
+const decideBudgetHold = async (
+  holdId: string,
+  status: typeof BudgetHoldStatus.APROVADO | typeof BudgetHoldStatus.REJEITADO,
+  adminId: string,
+  note?: string
+): Promise<{ hold: WithMoneyFields<CampaignBudgetHold>; earningIds: string[] }> => {
+  const result = await prisma.$transaction(async (tx) => {
+    const hold = await tx.campaignBudgetHold.findUnique({
+      where: { id: holdId },
+      include: {
+        campaign: { select: { title: true } },
+        submission: { select: { orderNumber: true, kitId: true } },
+      },
+    });
+
+    if (!hold) {
+      throw new Error('Prêmio retido não encontrado');
+    }
+
+    // Atualização condicional: duas decisões simultâneas não criam earnings em dobro
+    const { count } = await tx.campaignBudgetHold.updateMany({
+      where: { id: holdId, status: BudgetHoldStatus.PENDENTE },
+      data: {
+        status,
+        decidedById: adminId,
+        decidedAt: new Date(),
+        decisionNote: note,
+      },
+    });
+
+    if (count === 0) {
+      throw new Error('Prêmio retido já foi decidido');
+    }
+
+    const earningIds = status === BudgetHoldStatus.APROVADO
+      ? await createEarningsFromDrafts(
+          tx,
+          {
+            campaignId: hold.campaignId,
+            campaignTitle: hold.campaign.title,
+            kitId: hold.submission.kitId,
+            submissionId: hold.submissionId,
+          },
+          hold.drafts as unknown as EarningDraft[],
+          `Prêmio retido aprovado: ${hold.submission.orderNumber}`,
+          adminId,
+          { budgetHoldId: hold.id }
+        )
+      : [];
+
+    const updated = await tx.campaignBudgetHold.findUniqueOrThrow({ where: { id: holdId } });
+
+    return { hold: updated, earningIds };
+  });
+
+  console.log(`[CAMPAIGN_BUDGET_SERVICE] Prêmio retido ${holdId} ${status === BudgetHoldStatus.APROVADO ? 'aprovado' : 'rejeitado'} por ${adminId}`);
+
+  if (status === BudgetHoldStatus.APROVADO) {
+    await checkCampaignBudgetAlerts(result.hold.campaignId);
+  }
+
+  return result;
+};
+
+/**
+ * Aprova prêmio retido
+ */
+export const approveBudgetHold = (holdId: string, adminId: string, note?: string) =>
+  decideBudgetHold(holdId, BudgetHoldStatus.APROVADO, adminId, note);
+
+/**
+ * Rejeita prêmio retido (nenhum earning é criado)
+ */
+export const rejectBudgetHold = (holdId: string, adminId: string, reason: string) =>
+  decideBudgetHold(holdId, BudgetHoldStatus.REJEITADO, adminId, reason);
@@ -0,0 +1,199 @@
+/**
+ * @file domainEvents.service.ts
+ * @version 2.0.0
+ * @description Barramento central de eventos de negócio do sistema EPS Campanhas.
+ * Os serviços publicam eventos após concluir suas transações; assinantes (notificações,
+ * push em tempo real etc.) reagem de forma assíncrona sem acoplar os serviços entre si.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Mapa tipado de eventos de negócio
+ * - Publicação assíncrona com isolamento de falhas dos assinantes
+ * - Eventos de nova submissão e de notificação criada (push em tempo real)
+ * - Evento de revogação de sessões
+ * - Evento de cancelamento/estorno de earning
+ * - Alertas de orçamento de campanha (limite próximo e esgotado)
+ * - Aviso de pontos a expirar e de pontos expirados
+ * - Mudança de status de resgate de prêmio
+ * - Estoque baixo por variação de prêmio
+ * - Avisos da lista de desejos (saldo suficiente e volta ao estoque)
+ */
+
+import { EventEmitter } from 'events';
+import { CampaignBudgetAction, EarningStatus, RedemptionStatus } from '@prisma/client';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Eventos de negócio e respectivos payloads
+ */
+export interface DomainEventMap {
+  'submission.created': {
+    submissionId: string;
+    orderNumber: string;
+    userId: string;
+    managerId?: string | null;
+    campaignId: string;
+  };
+  'submission.validated': {
+    submissionId: string;
+    orderNumber: string;
+    userId: string;
+    managerId?: string | null;
+    campaignId: string;
+    campaignTitle: string;
+    pointsAwarded: number;
+  };
+  'submission.rejected': {
+    submissionId: string;
+    orderNumber: string;
+    userId: string;
+    managerId?: string | null;
+    campaignId: string;
+    campaignTitle: string;
+    reason?: string;
+  };
+  'kit.completed': {
+    kitId: string;
+    campaignId: string;
+    campaignTitle: string;
+    userId: string;
+    userName: string;
+    managerId?: string | null;
+  };
+  'earning.paid': {
+    earningId: string;
+    userId: string;
+    amount: number;
+    campaignTitle: string;
+    paidAt: Date;
+  };
+  'earning.cancelled': {
+    earningId: string;
+    userId: string;
+    amount: number;
+    campaignTitle: string;
+    status: typeof EarningStatus.CANCELADO | typeof EarningStatus.ESTORNADO;
+    reason: string;
+  };
+  'premio.redeemed': {
+    redemptionId: string;
+    premioId: string;
+    premioTitle: string;
+    userId: string;
+    pointsRedeemed: number;
+  };
+  'premio.redemption_updated': {
+    redemptionId: string;
+    premioId: string;
+    premioTitle: string;
+    userId: string;
+    status: RedemptionStatus;
+    trackingCode?: string | null;
+    carrier?: string | null;
+    reason?: string | null;
+  };
+  'premio.low_stock': {
+    premioId: string;
+    premioTitle: string;
+    variantId?: string;
+    variantName?: string;
+    stock: number;
+    threshold: number;
+  };
+  'premio.wishlist_affordable': {
+    userId: string;
+    premioId: string;
+    premioTitle: string;
+    pointsRequired: number;
+  };
+  'premio.wishlist_back_in_stock': {
+    userId: string;
+    premioId: string;
+    premioTitle: string;
+  };
+  'campaign.activated': {
+    campaignId: string;
+    campaignTitle: string;
+  };
+  'campaign.budget_warning': {
+    campaignId: string;
+    campaignTitle: string;
+    committedAmount: number;
+    budgetTotal: number;
+    utilization: number;
+  };
+  'campaign.budget_exhausted': {
+    campaignId: string;
+    campaignTitle: string;
+    committedAmount: number;
+    budgetTotal: number;
+    action: CampaignBudgetAction;
+  };
+  'points.expiring': {
+    userId: string;
+    points: number;
+    expiresAt: Date;
+  };
+  'points.expired': {
+    userId: string;
+    points: number;
+  };
+  'notification.created': {
+    userIds: string[];
+  };
+  'session.revoked': {
+    userId: string;
+    sessionIds: string[];
+  };
+}
+
+export type DomainEventName = keyof DomainEventMap;
+
+export type DomainEventHandler<E extends DomainEventName> = (
+  payload: DomainEventMap[E]
+) => void | Promise<void>;
+
+// ==================== BARRAMENTO ====================
+
+const emitter = new EventEmitter();
+
+// Vários módulos podem assinar o mesmo evento
+emitter.setMaxListeners(50);
+
+/**
+ * Publica evento de negócio.
+ * Assinantes rodam fora do fluxo atual: falhas neles nunca afetam quem publicou.
+ * Chame somente após o commit da transação que originou o evento.
+ */
+export const publishDomainEvent = <E extends DomainEventName>(
+  event: E,
+  payload: DomainEventMap[E]
+): void => {
+  setImmediate(() => {
+    emitter.emit(event, payload);
+  });
+};
+
+/**
+ * Assina evento de negócio. Retorna função para cancelar a assinatura.
+ */
+export const subscribeDomainEvent = <E extends DomainEventName>(
+  event: E,
+  handler: DomainEventHandler<E>
+): (() => void) => {
+  const listener = async (payload: DomainEventMap[E]) => {
+    try {
+      await handler(payload);
+    } catch (error) {
+      console.error(`[DOMAIN_EVENTS] Erro no assinante de ${event}:`, error);
+    }
+  };
+
+  emitter.on(event, listener);
+
+  return () => {
+    emitter.off(event, listener);
+  };
+};
@@ -5,18 +5,29 @@
  * @author Jules
  */
 
-import { prisma } from '../../lib/prismaClient';
-import { Earning, EarningStatus } from '@prisma/client';
+import { prisma, prismaUtils, PrismaTransactionClient, WithMoneyFields } from '../../lib/prismaClient';
+import { Earning, EarningStatus, EarningType, PointLotSource, Prisma } from '@prisma/client';
 import { AppError } from '../errors/AppError';
+import { EarningFilters, MarkEarningAsPaidData } from '../schemas/earning.schema';
+import { createEarningPayment } from './earningPayment.service';
+import { publishDomainEvent } from './domainEvents.service';
+import { grantPoints, revokeEarningPoints } from './pointLot.service';
+import {
+  EarningLedgerEntryView,
+  canTransitionEarning,
+  getEarningLedger,
+  recordEarningTransitions
+} from './earningLedger.service';
+import { subtractMoney, sumMoney, toMoney } from '../utils/money';
 
 /**
  * @function getAllEarnings
  * @description Busca todos os ganhos registrados, com filtros opcionais.
  * @param {object} filters - Opções de filtro.
  * @param {EarningStatus} [filters.status] - Filtra por status do ganho.
- * @returns {Promise<Earning[]>} Uma lista de ganhos.
+ * @returns {Promise<WithMoneyFields<Earning>[]>} Uma lista de ganhos.
  */
-export async function getAllEarnings(filters: { status?: EarningStatus }): Promise<Earning[]> {
+export async function getAllEarnings(filters: { status?: EarningStatus }): Promise<WithMoneyFields<Earning>[]> {
   return prisma.earning.findMany({
     where: {
       status: filters.status,
@@ -28,15 +39,345 @@ export async function getAllEarnings(filters: { status?: EarningStatus }): Promi
 }
 
 /**
- * @function updateEarningStatus
- * @description Atualiza o status de um ganho específico.
- * @param {string} earningId - O ID do ganho a ser atualizado.
- * @param {EarningStatus} status - O novo status do ganho.
+ * @function markEarningAsPaid
+ * @description Marca um ganho pendente como pago criando um registro de pagamento
+ * (método, data, referência e comprovantes) vinculado a ele.
+ * @param {string} earningId - O ID do ganho pago.
+ * @param {MarkEarningAsPaidData} data - Dados do pagamento (data, método, referência, anexos).
+ * @param {string} [paidById] - O ID do administrador que registrou o pagamento.
  * @returns {Promise<Earning>} O ganho atualizado.
  */
-export async function updateEarningStatus(earningId: string, status: EarningStatus): Promise<Earning> {
-  return prisma.earning.update({
+export async function markEarningAsPaid(
+  earningId: string,
+  data: MarkEarningAsPaidData,
+  paidById?: string
+): Promise<WithMoneyFields<Earning>> {
+  await createEarningPayment({ ...data, earningIds: [earningId] }, paidById);
+
+  console.log(`[EARNING_SERVICE] Earning ${earningId} marcado como pago`);
+
+  return prisma.earning.findUniqueOrThrow({ where: { id: earningId } });
+}
+
+/**
+ * @function listEarnings
+ * @description Lista ganhos com filtros, paginação e totais por status.
+ * Cada ganho pago inclui o registro de pagamento e seus comprovantes.
+ * @param {EarningFilters} filters - Filtros, ordenação e paginação.
+ * @returns Ganhos da página, dados de paginação e resumo.
+ */
+export async function listEarnings(filters: EarningFilters) {
+  const page = filters.page || 1;
+  const limit = filters.limit || 10;
+
+  const where: Prisma.EarningWhereInput = {
+    ...(filters.userId && { userId: filters.userId }),
+    ...(filters.campaignId && { campaignId: filters.campaignId }),
+    ...(filters.kitId && { kitId: filters.kitId }),
+    ...(filters.type && filters.type !== 'all' && { type: filters.type as EarningType }),
+    ...(filters.status && filters.status !== 'all' && { status: filters.status as EarningStatus }),
+    ...(filters.paymentMethod && filters.paymentMethod !== 'all' && {
+      payment: { method: filters.paymentMethod },
+    }),
+    ...(filters.opticCNPJ && { user: { opticCNPJ: filters.opticCNPJ } }),
+    ...((filters.earningAfter || filters.earningBefore || filters.pendingDaysThreshold) && {
+      earningDate: {
+        ...(filters.earningAfter && { gte: new Date(filters.earningAfter) }),
+        ...(filters.earningBefore && { lte: new Date(filters.earningBefore) }),
+        ...(filters.pendingDaysThreshold && {
+          lte: new Date(Date.now() - filters.pendingDaysThreshold * 24 * 60 * 60 * 1000),
+        }),
+      },
+    }),
+    ...((filters.minAmount !== undefined || filters.maxAmount !== undefined) && {
+      amount: {
+        ...(filters.minAmount !== undefined && { gte: filters.minAmount }),
+        ...(filters.maxAmount !== undefined && { lte: filters.maxAmount }),
+      },
+    }),
+    ...prismaUtils.buildTextSearch(filters.search, ['campaignTitle', 'description', 'userName']),
+  };
+
+  const [earnings, total, totalsByStatus] = await Promise.all([
+    prisma.earning.findMany({
+      where,
+      include: {
+        payment: {
+          include: {
+            attachments: {
+              select: { id: true, filename: true, type: true, mimetype: true, size: true, url: true },
+            },
+          },
+        },
+      },
+      orderBy: { [filters.sort || 'earningDate']: filters.order || 'desc' },
+      ...prismaUtils.buildPagination(page, limit),
+    }),
+    prisma.earning.count({ where }),
+    prisma.earning.groupBy({
+      by: ['status'],
+      where,
+      _sum: { amount: true, withheldAmount: true },
+    }),
+  ]);
+
+  const sumByStatus = (status: EarningStatus) =>
+    toMoney(totalsByStatus.find(group => group.status === status)?._sum.amount);
+  const paidWithheld = toMoney(totalsByStatus.find(group => group.status === EarningStatus.PAGO)?._sum.withheldAmount);
+
+  return prismaUtils.formatPaginatedResult(earnings, total, page, limit, {
+    totalEarnings: total,
+    // Cancelados e estornados não contam como valor devido
+    totalAmount: sumMoney([sumByStatus(EarningStatus.PENDENTE), sumByStatus(EarningStatus.PAGO)]),
+    pendingAmount: sumByStatus(EarningStatus.PENDENTE),
+    paidAmount: sumByStatus(EarningStatus.PAGO),
+    // Pago em bruto = retido + líquido
+    withheldAmount: paidWithheld,
+    netPaidAmount: subtractMoney(sumByStatus(EarningStatus.PAGO), paidWithheld),
+    cancelledAmount: sumByStatus(EarningStatus.CANCELADO),
+    reversedAmount: sumByStatus(EarningStatus.ESTORNADO),
+  });
+}
+
+/**
+ * @function getEarningById
+ * @description Busca um ganho com usuário, pagamento, lote PIX e trilha de auditoria.
+ * @param {string} earningId - O ID do ganho.
+ * @returns O ganho encontrado ou null.
+ */
+export async function getEarningById(earningId: string) {
+  return prisma.earning.findUnique({
     where: { id: earningId },
-    data: { status },
+    include: {
+      user: { select: { id: true, name: true, email: true, managerId: true } },
+      payment: {
+        include: {
+          attachments: {
+            select: { id: true, filename: true, type: true, mimetype: true, size: true, url: true },
+          },
+        },
+      },
+      payoutBatch: { select: { id: true, code: true, status: true } },
+      ledgerEntries: { orderBy: { createdAt: 'asc' } },
+    },
   });
 }
+
+/**
+ * @function auditEarning
+ * @description Retorna a trilha de auditoria (transições de status) de um ganho.
+ * @param {string} earningId - O ID do ganho.
+ * @returns {Promise<EarningLedgerEntryView[]>} Entradas da mais antiga para a mais recente.
+ */
+export async function auditEarning(earningId: string): Promise<EarningLedgerEntryView[]> {
+  const earning = await prisma.earning.findUnique({ where: { id: earningId }, select: { id: true } });
+
+  if (!earning) {
+    throw new Error('Earning não encontrado');
+  }
+
+  return getEarningLedger(earningId);
+}
+
+/**
+ * @function closeEarning
+ * @description Encerra um ganho (cancelamento ou estorno): muda o status, debita os pontos
+ * creditados na validação e registra a transição no histórico, tudo na mesma transação.
+ */
+async function closeEarning(
+  earningId: string,
+  toStatus: typeof EarningStatus.CANCELADO | typeof EarningStatus.ESTORNADO,
+  reason: string,
+  actorId: string
+): Promise<WithMoneyFields<Earning>> {
+  const earning = await prisma.$transaction(async (tx) => {
+    const current = await tx.earning.findUnique({ where: { id: earningId } });
+
+    if (!current) {
+      throw new Error('Earning não encontrado');
+    }
+
+    if (toStatus === EarningStatus.CANCELADO && current.status === EarningStatus.PAGO) {
+      throw new Error('Earning já foi pago: use o estorno');
+    }
+
+    const fromStatus = current.status;
+
+    if (!canTransitionEarning(fromStatus, toStatus)) {
+      throw new Error(`Não é possível ${toStatus === EarningStatus.CANCELADO ? 'cancelar' : 'estornar'} earning com status ${fromStatus}`);
+    }
+
+    if (current.payoutBatchId && fromStatus === EarningStatus.PENDENTE) {
+      throw new Error('Earning reservado em lote de pagamento PIX: confirme ou cancele o lote');
+    }
+
+    // Atualização condicional: pagamento ou cancelamento concorrente não passa
+    const { count } = await tx.earning.updateMany({
+      where: { id: earningId, status: fromStatus, payoutBatchId: current.payoutBatchId },
+      data: { status: toStatus },
+    });
+
+    if (count !== 1) {
+      throw new Error('Earning alterado durante a operação; tente novamente');
+    }
+
+    // Debita primeiro o lote do próprio earning (mesmo arredondamento do crédito)
+    const pointsReverted = await revokeEarningPoints(
+      tx,
+      earningId,
+      current.userId,
+      Math.round(current.amount),
+      actorId
+    );
+
+    await recordEarningTransitions(tx, [{
+      earningId,
+      fromStatus,
+      toStatus,
+      amount: current.amount,
+      reason,
+      metadata: {
+        pointsReverted,
+        ...(current.paymentId && { paymentId: current.paymentId }),
+      },
+    }], actorId);
+
+    return tx.earning.findUniqueOrThrow({ where: { id: earningId } });
+  });
+
+  publishDomainEvent('earning.cancelled', {
+    earningId: earning.id,
+    userId: earning.userId,
+    amount: earning.amount,
+    campaignTitle: earning.campaignTitle,
+    status: toStatus,
+    reason,
+  });
+
+  return earning;
+}
+
+/**
+ * @function cancelEarning
+ * @description Cancela um ganho pendente emitido indevidamente (ex.: venda rejeitada depois da validação).
+ * @param {string} earningId - O ID do ganho.
+ * @param {string} reason - Motivo do cancelamento.
+ * @param {string} adminId - O ID do administrador responsável.
+ * @returns {Promise<Earning>} O ganho cancelado.
+ */
+export async function cancelEarning(earningId: string, reason: string, adminId: string): Promise<WithMoneyFields<Earning>> {
+  const earning = await closeEarning(earningId, EarningStatus.CANCELADO, reason, adminId);
+
+  console.log(`[EARNING_SERVICE] Earning ${earningId} cancelado por ${adminId}`);
+
+  return earning;
+}
+
+/**
+ * @function reverseEarning
+ * @description Estorna um ganho já pago. O registro de pagamento é mantido para conciliação.
+ * @param {string} earningId - O ID do ganho.
+ * @param {string} reason - Motivo do estorno.
+ * @param {string} adminId - O ID do administrador responsável.
+ * @returns {Promise<Earning>} O ganho estornado.
+ */
+export async function reverseEarning(earningId: string, reason: string, adminId: string): Promise<WithMoneyFields<Earning>> {
+  const earning = await closeEarning(earningId, EarningStatus.ESTORNADO, reason, adminId);
+
+  console.log(`[EARNING_SERVICE] Earning ${earningId} estornado por ${adminId}`);
+
+  return earning;
+}
+
+/**
+ * Earning a criar (vendedor ou gerente), calculado a partir de uma venda validada
+ */
+export interface EarningDraft {
+  type: EarningType;
+  userId: string;
+  userName: string;
+  userAvatarUrl: string;
+  sourceUserName?: string;
+  amount: number;
+  description: string;
+}
+
+/**
+ * Origem dos earnings criados
+ */
+export interface EarningDraftSource {
+  campaignId: string;
+  campaignTitle: string;
+  kitId: string;
+  submissionId: string;
+}
+
+/**
+ * @function createEarningsFromDrafts
+ * @description Cria earnings pendentes, credita os pontos aos usuários e registra a criação na trilha de auditoria.
+ * Deve rodar na transação de quem originou o crédito (validação de venda ou aprovação de prêmio retido).
+ * @param {PrismaTransactionClient} tx - Transação em andamento.
+ * @param {EarningDraftSource} source - Campanha, kit e submissão de origem.
+ * @param {EarningDraft[]} drafts - Earnings a criar.
+ * @param {string} reason - Motivo gravado na trilha de auditoria.
+ * @param {string | null} [actorId] - Usuário responsável pelo crédito.
+ * @param {Prisma.InputJsonValue} [metadata] - Dados extras da trilha.
+ * @returns {Promise<string[]>} IDs dos earnings criados, na ordem dos drafts.
+ */
+export async function createEarningsFromDrafts(
+  tx: PrismaTransactionClient,
+  source: EarningDraftSource,
+  drafts: EarningDraft[],
+  reason: string,
+  actorId?: string | null,
+  metadata?: Prisma.InputJsonObject
+): Promise<string[]> {
+  const earningIds: string[] = [];
+
+  for (const draft of drafts) {
+    const earning = await tx.earning.create({
+      data: {
+        type: draft.type,
+        userId: draft.userId,
+        userName: draft.userName,
+        userAvatarUrl: draft.userAvatarUrl,
+        campaignId: source.campaignId,
+        campaignTitle: source.campaignTitle,
+        kitId: source.kitId,
+        submissionId: source.submissionId,
+        sourceUserName: draft.sourceUserName,
+        amount: draft.amount,
+        earningDate: new Date(),
+        status: EarningStatus.PENDENTE,
+        description: draft.description,
+      },
+    });
+
+    // Pontos creditados em lote com validade (comissão de gerente é bônus de regra)
+    await grantPoints(tx, {
+      userId: draft.userId,
+      points: draft.amount,
+      source: draft.type === EarningType.MANAGER ? PointLotSource.RULE_BONUS : PointLotSource.KIT_COMPLETION,
+      earningId: earning.id,
+      description: draft.description,
+      createdById: actorId,
+    });
+
+    earningIds.push(earning.id);
+  }
+
+  await recordEarningTransitions(
+    tx,
+    drafts.map((draft, index) => ({
+      earningId: earningIds[index],
+      fromStatus: null,
+      toStatus: EarningStatus.PENDENTE,
+      amount: draft.amount,
+      reason,
+      metadata: { submissionId: source.submissionId, ...metadata },
+    })),
+    actorId
+  );
+
+  return earningIds;
+}
@@ -0,0 +1,118 @@
+/**
+ * @file earningLedger.service.ts
+ * @version 2.0.0
+ * @description Histórico imutável de transições de status dos earnings do sistema EPS Campanhas.
+ * Cada criação, pagamento, cancelamento ou estorno gera uma entrada com autor, motivo e data;
+ * entradas nunca são alteradas nem removidas.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Registro de transições de status dentro da transação de quem altera o earning
+ * - Consulta da trilha de auditoria de um earning
+ */
+
+import { EarningStatus, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Transição de status a registrar
+ */
+export interface EarningTransitionInput {
+  earningId: string;
+  fromStatus: EarningStatus | null;
+  toStatus: EarningStatus;
+  amount: number;
+  reason?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Entrada da trilha de auditoria exposta pela API
+ */
+export interface EarningLedgerEntryView {
+  id: string;
+  fromStatus: EarningStatus | null;
+  toStatus: EarningStatus;
+  amount: number;
+  reason: string | null;
+  actorId: string | null;
+  actorName: string | null;
+  metadata: Prisma.JsonValue | null;
+  createdAt: Date;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Transições de status permitidas (criação parte de null)
+ */
+export const EARNING_STATUS_TRANSITIONS: Record<EarningStatus, EarningStatus[]> = {
+  [EarningStatus.PENDENTE]: [EarningStatus.PAGO, EarningStatus.CANCELADO],
+  [EarningStatus.PAGO]: [EarningStatus.ESTORNADO],
+  [EarningStatus.CANCELADO]: [],
+  [EarningStatus.ESTORNADO]: [],
+};
+
+const ledgerEntrySelect = {
+  id: true,
+  fromStatus: true,
+  toStatus: true,
+  amount: true,
+  reason: true,
+  actorId: true,
+  actorName: true,
+  metadata: true,
+  createdAt: true,
+} satisfies Prisma.EarningLedgerEntrySelect;
+
+// ==================== SERVIÇOS ====================
+
+/**
+ * Verifica se a transição de status é permitida
+ */
+export const canTransitionEarning = (from: EarningStatus, to: EarningStatus): boolean => {
+  return EARNING_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Registra transições de status na transação de quem alterou os earnings.
+ * O nome do autor é gravado junto para a trilha sobreviver à remoção do usuário.
+ */
+export const recordEarningTransitions = async (
+  tx: PrismaTransactionClient,
+  transitions: EarningTransitionInput[],
+  actorId?: string | null
+): Promise<void> => {
+  if (transitions.length === 0) return;
+
+  const actor = actorId
+    ? await tx.user.findUnique({ where: { id: actorId }, select: { name: true } })
+    : null;
+
+  await tx.earningLedgerEntry.createMany({
+    data: transitions.map(transition => ({
+      earningId: transition.earningId,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      amount: transition.amount,
+      reason: transition.reason ?? null,
+      actorId: actorId ?? null,
+      actorName: actor?.name ?? null,
+      metadata: transition.metadata,
+    })),
+  });
+};
+
+/**
+ * Trilha de auditoria de um earning, da mais antiga para a mais recente
+ */
+export const getEarningLedger = async (earningId: string): Promise<EarningLedgerEntryView[]> => {
+  return prisma.earningLedgerEntry.findMany({
+    where: { earningId },
+    select: ledgerEntrySelect,
+    orderBy: { createdAt: 'asc' },
+  });
+};
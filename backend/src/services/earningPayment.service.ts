@@ -0,0 +1,674 @@
+/**
+ * @file earningPayment.service.ts
+ * @version 2.0.0
+ * @description Registros de pagamento de earnings do sistema EPS Campanhas.
+ * Um pagamento quita um ou mais earnings pendentes e guarda método, data, referência
+ * e comprovantes (arquivos enviados ficam no armazenamento local).
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Registro de pagamento vinculado a um ou mais earnings
+ * - Comprovantes por URL ou por upload em armazenamento local
+ * - Consulta, listagem e download de comprovantes
+ * - Earnings reservados em lote PIX só podem ser pagos pela confirmação do lote
+ * - Transição PENDENTE → PAGO registrada no histórico do earning
+ * - Retenções na fonte aplicadas no pagamento (bruto, retido e líquido) e recibo em PDF por favorecido
+ * - Totais do recibo somados em centavos (utils/money)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { EarningStatus, PayeeType, Prisma, UserRole } from '@prisma/client';
+import { prisma, prismaUtils, PrismaTransactionClient } from '../../lib/prismaClient';
+import {
+  CreateEarningPaymentData,
+  EarningPaymentFilters,
+  EARNING_DEFAULTS,
+  EARNING_TYPE_LABELS,
+  PAYMENT_ATTACHMENT_TYPES,
+  PAYMENT_METHOD_LABELS
+} from '../schemas/earning.schema';
+import { formatCNPJ, formatCPF, formatCurrency, removeNonNumeric } from '../utils/normalizers';
+import { sumMoney, subtractMoney } from '../utils/money';
+import { renderPdfReport } from '../utils/pdfReport';
+import { publishDomainEvent } from './domainEvents.service';
+import { recordEarningTransitions } from './earningLedger.service';
+import { toReportTimezone } from './financialReport.service';
+import {
+  calculateWithholding,
+  EarningWithholding,
+  saveWithholding,
+  summarizeWithholding,
+  WithholdingLine
+} from './withholding.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Arquivo de comprovante recebido por upload (em memória)
+ */
+export interface PaymentAttachmentInput {
+  filename: string;
+  mimetype: string;
+  buffer: Buffer;
+  type?: string;
+}
+
+/**
+ * Comprovante exposto pela API (sem o caminho interno do arquivo)
+ */
+export interface EarningPaymentAttachmentView {
+  id: string;
+  filename: string;
+  type: string;
+  mimetype: string | null;
+  size: number | null;
+  url: string | null;
+  downloadUrl: string;
+  createdAt: Date;
+}
+
+/**
+ * Pagamento com earnings quitados e comprovantes
+ */
+export interface EarningPaymentView {
+  id: string;
+  method: string;
+  paidAt: Date;
+  reference: string;
+  notes: string | null;
+  /** Total bruto */
+  totalAmount: number;
+  withheldAmount: number;
+  netAmount: number;
+  invoiceNumber: string | null;
+  paidById: string | null;
+  createdAt: Date;
+  earnings: Array<{
+    id: string;
+    userId: string;
+    userName: string;
+    campaignTitle: string;
+    amount: number;
+    withheldAmount: number;
+    netAmount: number;
+    managerId: string | null;
+  }>;
+  attachments: EarningPaymentAttachmentView[];
+}
+
+/**
+ * Recibo de pagamento gerado para download
+ */
+export interface PaymentReceiptFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const PAYMENT_CONFIG = {
+  UPLOAD_DIR: process.env.PAYMENT_UPLOAD_DIR || path.join(process.cwd(), 'uploads', 'payments'),
+  ALLOWED_MIME_TYPES: ['application/pdf', 'image/png', 'image/jpeg', 'image/webp'],
+  MAX_ATTACHMENTS: EARNING_DEFAULTS.MAX_ATTACHMENTS,
+  MAX_FILE_SIZE: EARNING_DEFAULTS.MAX_FILE_SIZE,
+  PAYER_NAME: process.env.PAYOUT_PAYER_NAME || 'EPS CAMPANHAS',
+  PAYER_DOCUMENT: removeNonNumeric(process.env.PAYOUT_PAYER_DOCUMENT || ''),
+};
+
+/**
+ * Dados carregados junto com o pagamento
+ */
+const paymentInclude = {
+  earnings: {
+    select: {
+      id: true,
+      userId: true,
+      userName: true,
+      campaignTitle: true,
+      amount: true,
+      withheldAmount: true,
+      netAmount: true,
+      user: { select: { managerId: true } },
+    },
+  },
+  attachments: {
+    orderBy: { createdAt: 'asc' as const },
+  },
+} satisfies Prisma.EarningPaymentInclude;
+
+export type PaymentWithRelations = Prisma.Result<typeof prisma.earningPayment, { include: typeof paymentInclude }, 'findUniqueOrThrow'>;
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Converte registro do banco no formato exposto pela API
+ */
+const toPaymentView = (payment: PaymentWithRelations): EarningPaymentView => ({
+  id: payment.id,
+  method: payment.method,
+  paidAt: payment.paidAt,
+  reference: payment.reference,
+  notes: payment.notes,
+  totalAmount: payment.totalAmount,
+  withheldAmount: payment.withheldAmount,
+  // Pagamentos anteriores às retenções não têm líquido gravado: líquido = bruto
+  netAmount: payment.netAmount ?? payment.totalAmount,
+  invoiceNumber: payment.invoiceNumber,
+  paidById: payment.paidById,
+  createdAt: payment.createdAt,
+  earnings: payment.earnings.map(earning => ({
+    id: earning.id,
+    userId: earning.userId,
+    userName: earning.userName,
+    campaignTitle: earning.campaignTitle,
+    amount: earning.amount,
+    withheldAmount: earning.withheldAmount ?? 0,
+    netAmount: earning.netAmount ?? earning.amount,
+    managerId: earning.user.managerId,
+  })),
+  attachments: payment.attachments.map(attachment => ({
+    id: attachment.id,
+    filename: attachment.filename,
+    type: attachment.type,
+    mimetype: attachment.mimetype,
+    size: attachment.size,
+    url: attachment.url,
+    // Comprovantes externos abrem direto; os armazenados passam pela API (com autorização)
+    downloadUrl: attachment.url || `/api/earnings/payments/${payment.id}/attachments/${attachment.id}`,
+    createdAt: attachment.createdAt,
+  })),
+});
+
+/**
+ * Normaliza tipo do comprovante
+ */
+const normalizeAttachmentType = (type?: string): string => {
+  return type && (PAYMENT_ATTACHMENT_TYPES as readonly string[]).includes(type) ? type : 'other';
+};
+
+// ==================== SERVIÇOS PRINCIPAIS ====================
+
+/**
+ * Registra o pagamento dentro de uma transação já aberta.
+ * Earnings reservados em lote PIX só são aceitos quando payoutBatchId é o do próprio lote;
+ * eles já trazem as retenções calculadas na geração do lote, os demais são calculados aqui.
+ * Quem chama deve publicar os eventos (publishEarningPaidEvents) após o commit.
+ */
+export const recordEarningPayment = async (
+  tx: PrismaTransactionClient,
+  data: CreateEarningPaymentData,
+  paidById?: string,
+  payoutBatchId: string | null = null
+): Promise<PaymentWithRelations> => {
+  const paidAt = data.paymentDate ? new Date(data.paymentDate) : new Date();
+
+  const earnings = await tx.earning.findMany({
+    where: { id: { in: data.earningIds } },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      amount: true,
+      payoutBatchId: true,
+      withheldAmount: true,
+      netAmount: true,
+      withholdingDetails: true,
+    },
+  });
+
+  if (earnings.length !== data.earningIds.length) {
+    throw new Error('Earning não encontrado');
+  }
+
+  if (earnings.some(earning => earning.status !== EarningStatus.PENDENTE)) {
+    throw new Error('Apenas earnings pendentes podem ser marcados como pagos');
+  }
+
+  if (earnings.some(earning => earning.payoutBatchId !== payoutBatchId)) {
+    throw new Error('Earning reservado em lote de pagamento PIX: confirme ou cancele o lote');
+  }
+
+  // Retenções: mantém as já calculadas (reserva em lote) e calcula as demais
+  const pending = earnings.filter(earning => earning.netAmount === null);
+  const calculated = await calculateWithholding(tx, pending);
+  await saveWithholding(tx, Array.from(calculated.values()));
+
+  const withholdings: EarningWithholding[] = earnings.map(earning => calculated.get(earning.id) || {
+    earningId: earning.id,
+    userId: earning.userId,
+    grossAmount: earning.amount,
+    withheldAmount: earning.withheldAmount ?? 0,
+    netAmount: earning.netAmount ?? earning.amount,
+    lines: (earning.withholdingDetails as unknown as WithholdingLine[] | null) || [],
+  });
+  const totals = summarizeWithholding(withholdings);
+
+  const created = await tx.earningPayment.create({
+    data: {
+      method: data.paymentMethod,
+      paidAt,
+      reference: data.paymentReference,
+      notes: data.paymentNotes,
+      totalAmount: totals.grossAmount,
+      withheldAmount: totals.withheldAmount,
+      netAmount: totals.netAmount,
+      invoiceNumber: data.invoiceNumber,
+      paidById,
+      attachments: {
+        create: (data.attachments || []).map(attachment => ({
+          filename: attachment.filename,
+          url: attachment.url,
+          type: attachment.type,
+          uploadedById: paidById,
+        })),
+      },
+    },
+  });
+
+  // Atualização condicional: pagamento concorrente do mesmo earning não passa
+  const { count } = await tx.earning.updateMany({
+    where: { id: { in: data.earningIds }, status: EarningStatus.PENDENTE, payoutBatchId },
+    data: { status: EarningStatus.PAGO, paymentId: created.id },
+  });
+
+  if (count !== data.earningIds.length) {
+    throw new Error('Apenas earnings pendentes podem ser marcados como pagos');
+  }
+
+  await recordEarningTransitions(
+    tx,
+    earnings.map(earning => ({
+      earningId: earning.id,
+      fromStatus: EarningStatus.PENDENTE,
+      toStatus: EarningStatus.PAGO,
+      amount: earning.amount,
+      reason: data.paymentNotes,
+      metadata: {
+        paymentId: created.id,
+        method: data.paymentMethod,
+        reference: data.paymentReference,
+        withheldAmount: withholdings.find(item => item.earningId === earning.id)?.withheldAmount ?? 0,
+        ...(payoutBatchId && { payoutBatchId }),
+      },
+    })),
+    paidById
+  );
+
+  return tx.earningPayment.findUniqueOrThrow({
+    where: { id: created.id },
+    include: paymentInclude,
+  });
+};
+
+/**
+ * Publica earning.paid para cada earning quitado (chamar após o commit)
+ */
+export const publishEarningPaidEvents = (payment: PaymentWithRelations): void => {
+  for (const earning of payment.earnings) {
+    publishDomainEvent('earning.paid', {
+      earningId: earning.id,
+      userId: earning.userId,
+      amount: earning.amount,
+      campaignTitle: earning.campaignTitle,
+      paidAt: payment.paidAt,
+    });
+  }
+};
+
+/**
+ * Registra pagamento quitando os earnings informados.
+ * Todos precisam estar pendentes; o evento earning.paid é publicado após o commit.
+ */
+export const createEarningPayment = async (
+  data: CreateEarningPaymentData,
+  paidById?: string
+): Promise<EarningPaymentView> => {
+  const payment = await prisma.$transaction((tx) => recordEarningPayment(tx, data, paidById));
+
+  publishEarningPaidEvents(payment);
+
+  console.log(`[EARNING_PAYMENT_SERVICE] Pagamento ${payment.id} registrado: ${payment.earnings.length} earning(s), bruto ${payment.totalAmount}, retido ${payment.withheldAmount}`);
+
+  return toPaymentView(payment);
+};
+
+/**
+ * Busca pagamento por ID
+ */
+export const getEarningPaymentById = async (paymentId: string): Promise<EarningPaymentView | null> => {
+  const payment = await prisma.earningPayment.findUnique({
+    where: { id: paymentId },
+    include: paymentInclude,
+  });
+
+  return payment ? toPaymentView(payment) : null;
+};
+
+/**
+ * IDs cujos pagamentos o usuário pode ver (null = todos)
+ */
+const resolvePaymentScope = async (requester: { id: string; role: UserRole }): Promise<string[] | null> => {
+  if (requester.role === UserRole.ADMIN) return null;
+
+  if (requester.role === UserRole.GERENTE) {
+    const sellers = await prisma.user.findMany({
+      where: { managerId: requester.id },
+      select: { id: true },
+    });
+
+    return [requester.id, ...sellers.map(seller => seller.id)];
+  }
+
+  return [requester.id];
+};
+
+/**
+ * Verifica se o usuário pode ver o pagamento (admin, dono de um dos earnings ou gerente do dono)
+ */
+export const canViewEarningPayment = (
+  payment: EarningPaymentView,
+  requester: { id: string; role: UserRole }
+): boolean => {
+  return requester.role === UserRole.ADMIN || payment.earnings.some(earning =>
+    earning.userId === requester.id ||
+    (requester.role === UserRole.GERENTE && earning.managerId === requester.id)
+  );
+};
+
+/**
+ * Lista pagamentos visíveis para o usuário
+ */
+export const listEarningPayments = async (
+  filters: EarningPaymentFilters,
+  requester: { id: string; role: UserRole }
+) => {
+  const scope = await resolvePaymentScope(requester);
+  const userFilter = filters.userId
+    ? (scope ? scope.filter(id => id === filters.userId) : [filters.userId])
+    : scope;
+
+  const where: Prisma.EarningPaymentWhereInput = {
+    ...(filters.method && { method: filters.method }),
+    ...(userFilter && { earnings: { some: { userId: { in: userFilter } } } }),
+    ...((filters.paidAfter || filters.paidBefore) && {
+      paidAt: {
+        ...(filters.paidAfter && { gte: new Date(filters.paidAfter) }),
+        ...(filters.paidBefore && { lte: new Date(filters.paidBefore) }),
+      },
+    }),
+  };
+
+  const [payments, total] = await Promise.all([
+    prisma.earningPayment.findMany({
+      where,
+      include: paymentInclude,
+      orderBy: { paidAt: 'desc' },
+      ...prismaUtils.buildPagination(filters.page, filters.limit),
+    }),
+    prisma.earningPayment.count({ where }),
+  ]);
+
+  return prismaUtils.formatPaginatedResult(payments.map(toPaymentView), total, filters.page, filters.limit);
+};
+
+// ==================== COMPROVANTES ====================
+
+/**
+ * Anexa comprovantes enviados por upload ao pagamento (armazenamento local)
+ */
+export const addPaymentAttachments = async (
+  paymentId: string,
+  files: PaymentAttachmentInput[],
+  uploadedById?: string
+): Promise<EarningPaymentView> => {
+  const payment = await prisma.earningPayment.findUnique({
+    where: { id: paymentId },
+    select: { id: true, _count: { select: { attachments: true } } },
+  });
+
+  if (!payment) {
+    throw new Error('Pagamento não encontrado');
+  }
+
+  if (files.length === 0) {
+    throw new Error('Nenhum arquivo foi enviado');
+  }
+
+  if (payment._count.attachments + files.length > PAYMENT_CONFIG.MAX_ATTACHMENTS) {
+    throw new Error(`Máximo de ${PAYMENT_CONFIG.MAX_ATTACHMENTS} anexos por pagamento`);
+  }
+
+  for (const file of files) {
+    if (!PAYMENT_CONFIG.ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      throw new Error(`Tipo de arquivo inválido: ${file.filename} (aceitos: PDF, PNG, JPEG, WEBP)`);
+    }
+
+    if (file.buffer.length > PAYMENT_CONFIG.MAX_FILE_SIZE) {
+      throw new Error(`Arquivo muito grande: ${file.filename} (máximo 10MB)`);
+    }
+  }
+
+  const paymentDir = path.join(PAYMENT_CONFIG.UPLOAD_DIR, paymentId);
+  await fs.mkdir(paymentDir, { recursive: true });
+
+  const storedPaths: string[] = [];
+
+  try {
+    const attachments = [];
+
+    for (const file of files) {
+      const extension = path.extname(file.filename).toLowerCase();
+      const storagePath = path.join(paymentDir, `${randomUUID()}${extension}`);
+
+      await fs.writeFile(storagePath, file.buffer);
+      storedPaths.push(storagePath);
+
+      attachments.push({
+        paymentId,
+        filename: path.basename(file.filename),
+        type: normalizeAttachmentType(file.type),
+        mimetype: file.mimetype,
+        size: file.buffer.length,
+        storagePath,
+        uploadedById,
+      });
+    }
+
+    await prisma.earningPaymentAttachment.createMany({ data: attachments });
+  } catch (error) {
+    // Não deixa arquivos órfãos se a gravação falhar
+    await Promise.all(storedPaths.map(filePath => fs.unlink(filePath).catch(() => undefined)));
+    throw error;
+  }
+
+  console.log(`[EARNING_PAYMENT_SERVICE] ${files.length} comprovante(s) anexado(s) ao pagamento ${paymentId}`);
+
+  return (await getEarningPaymentById(paymentId))!;
+};
+
+/**
+ * Lê comprovante armazenado para download
+ */
+export const getPaymentAttachmentFile = async (
+  paymentId: string,
+  attachmentId: string
+): Promise<{ filename: string; mimetype: string; content: Buffer }> => {
+  const attachment = await prisma.earningPaymentAttachment.findFirst({
+    where: { id: attachmentId, paymentId },
+  });
+
+  if (!attachment || !attachment.storagePath) {
+    throw new Error('Comprovante não encontrado');
+  }
+
+  try {
+    const content = await fs.readFile(attachment.storagePath);
+
+    return {
+      filename: attachment.filename,
+      mimetype: attachment.mimetype || 'application/octet-stream',
+      content,
+    };
+  } catch (error) {
+    console.error(`[EARNING_PAYMENT_SERVICE] Arquivo do comprovante ${attachmentId} indisponível:`, error);
+    throw new Error('Comprovante não encontrado no armazenamento');
+  }
+};
+
+// ==================== RECIBOS ====================
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Data no horário de Brasília (dd/mm/aaaa)
+ */
+const formatReceiptDate = (date: Date): string => {
+  const local = toReportTimezone(date);
+  return `${pad(local.getUTCDate())}/${pad(local.getUTCMonth() + 1)}/${local.getUTCFullYear()}`;
+};
+
+/**
+ * Gera o recibo do pagamento para um favorecido: RPA para pessoa física e demonstrativo
+ * com a nota fiscal para pessoa jurídica. userId é obrigatório quando o pagamento
+ * quita earnings de mais de um favorecido.
+ */
+export const generatePaymentReceipt = async (
+  paymentId: string,
+  userId?: string
+): Promise<PaymentReceiptFile> => {
+  const payment = await prisma.earningPayment.findUnique({
+    where: { id: paymentId },
+    include: {
+      earnings: {
+        select: {
+          id: true,
+          userId: true,
+          type: true,
+          campaignTitle: true,
+          earningDate: true,
+          amount: true,
+          withheldAmount: true,
+          netAmount: true,
+          withholdingDetails: true,
+        },
+        orderBy: { earningDate: 'asc' },
+      },
+    },
+  });
+
+  if (!payment) {
+    throw new Error('Pagamento não encontrado');
+  }
+
+  const payeeIds = [...new Set(payment.earnings.map(earning => earning.userId))];
+  const payeeId = userId || (payeeIds.length === 1 ? payeeIds[0] : undefined);
+
+  if (!payeeId) {
+    throw new Error('Informe o favorecido: o pagamento quita earnings de mais de um usuário');
+  }
+
+  const earnings = payment.earnings.filter(earning => earning.userId === payeeId);
+
+  if (earnings.length === 0) {
+    throw new Error('Favorecido não encontrado no pagamento');
+  }
+
+  const payee = await prisma.user.findUniqueOrThrow({
+    where: { id: payeeId },
+    select: { name: true, cpf: true, payeeType: true, payeeCnpj: true, payeeCompanyName: true },
+  });
+
+  // Retenções somadas por regra (a base é o bruto do favorecido no pagamento)
+  const lines = new Map<string, WithholdingLine>();
+  for (const earning of earnings) {
+    for (const line of (earning.withholdingDetails as unknown as WithholdingLine[] | null) || []) {
+      const current = lines.get(line.ruleId);
+      lines.set(line.ruleId, current
+        ? { ...current, base: sumMoney([current.base, line.base]), amount: sumMoney([current.amount, line.amount]) }
+        : { ...line });
+    }
+  }
+
+  const gross = sumMoney(earnings.map(earning => earning.amount));
+  const withheld = sumMoney(earnings.map(earning => earning.withheldAmount));
+  const net = subtractMoney(gross, withheld);
+
+  const isCompany = payee.payeeType === PayeeType.PESSOA_JURIDICA;
+  const receiptNumber = `${formatReceiptDate(payment.paidAt).split('/').reverse().join('')}-${payment.id.slice(-8).toUpperCase()}`;
+  const payeeDocument = isCompany && payee.payeeCnpj
+    ? `${payee.payeeCompanyName || payee.name} - CNPJ ${formatCNPJ(payee.payeeCnpj)}`
+    : `${payee.name} - CPF ${formatCPF(payee.cpf)}`;
+
+  const content = renderPdfReport({
+    title: isCompany ? 'Demonstrativo de pagamento - Pessoa jurídica' : 'Recibo de pagamento a autônomo (RPA)',
+    info: [
+      `Recibo nº ${receiptNumber}`,
+      `Pagador: ${PAYMENT_CONFIG.PAYER_NAME}${PAYMENT_CONFIG.PAYER_DOCUMENT ? ` - CNPJ ${formatCNPJ(PAYMENT_CONFIG.PAYER_DOCUMENT)}` : ''}`,
+      `Favorecido: ${payeeDocument}`,
+      `Pago em ${formatReceiptDate(payment.paidAt)} via ${PAYMENT_METHOD_LABELS[payment.method as keyof typeof PAYMENT_METHOD_LABELS] || payment.method} (referência ${payment.reference})`,
+      ...(isCompany ? [`Nota fiscal: ${payment.invoiceNumber || 'não informada'}`] : []),
+    ],
+    sections: [
+      {
+        heading: 'Earnings quitados',
+        columns: [
+          { label: 'Data', width: 60 },
+          { label: 'Campanha', width: 185 },
+          { label: 'Tipo', width: 60 },
+          { label: 'Bruto', width: 70, align: 'right' },
+          { label: 'Retido', width: 70, align: 'right' },
+          { label: 'Líquido', width: 70, align: 'right' },
+        ],
+        rows: earnings.map(earning => [
+          formatReceiptDate(earning.earningDate),
+          earning.campaignTitle,
+          EARNING_TYPE_LABELS[earning.type],
+          formatCurrency(earning.amount),
+          formatCurrency(earning.withheldAmount ?? 0),
+          formatCurrency(earning.netAmount ?? earning.amount),
+        ]),
+        footer: ['', 'Total', '', formatCurrency(gross), formatCurrency(withheld), formatCurrency(net)],
+      },
+      {
+        heading: 'Retenções na fonte',
+        columns: [
+          { label: 'Código', width: 60 },
+          { label: 'Descrição', width: 215 },
+          { label: 'Alíquota', width: 60, align: 'right' },
+          { label: 'Base', width: 90, align: 'right' },
+          { label: 'Valor', width: 90, align: 'right' },
+        ],
+        rows: Array.from(lines.values()).map(line => [
+          line.code,
+          line.name,
+          `${String(line.rate).replace('.', ',')}%`,
+          formatCurrency(line.base),
+          formatCurrency(line.amount),
+        ]),
+        footer: ['', 'Total retido', '', '', formatCurrency(withheld)],
+        emptyMessage: 'Sem retenções neste pagamento',
+      },
+      {
+        heading: 'Declaração',
+        columns: [{ label: `Valor líquido recebido: ${formatCurrency(net)}`, width: 515 }],
+        rows: [
+          [`Declaro ter recebido de ${PAYMENT_CONFIG.PAYER_NAME} a importância líquida acima, referente às premiações discriminadas.`],
+          [''],
+          ['______________________________________________'],
+          [isCompany ? payee.payeeCompanyName || payee.name : payee.name],
+        ],
+      },
+    ],
+    footerText: `EPS Campanhas - Recibo ${receiptNumber}`,
+  });
+
+  return {
+    filename: `recibo-${receiptNumber}.pdf`,
+    contentType: 'application/pdf',
+    content,
+  };
+};
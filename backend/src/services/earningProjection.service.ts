@@ -0,0 +1,412 @@
+/**
+ * @file earningProjection.service.ts
+ * @version 2.0.0
+ * @description Projeção de earnings do sistema EPS Campanhas.
+ * Estima os pagamentos esperados até o fim de cada campanha ativa a partir dos kits em aberto,
+ * do ritmo de vendas validadas de cada vendedor por meta e dos pontos da campanha
+ * (pointsOnCompletion e managerPointsPercentage), com faixa de confiança.
+ * Usada pelo financeiro para reservar orçamento antes do encerramento das campanhas.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Ritmo por meta no período base e conclusão estimada de cada kit
+ * - Submissões pendentes ponderadas pela taxa de aprovação da campanha
+ * - Distribuição por semana, mês, trimestre ou ano com faixa de confiança de 80%
+ * - Valor unitário do gerente com o mesmo arredondamento da premiação (utils/money)
+ */
+
+import {
+  CampaignKitStatus,
+  CampaignStatus,
+  CampaignSubmissionStatus,
+  Prisma,
+  UserRole
+} from '@prisma/client';
+import { prisma } from '../../lib/prismaClient';
+import { EarningProjectionQuery } from '../schemas/earning.schema';
+import {
+  FinancialReportRequester,
+  fromReportTimezone,
+  getPeriodBucket,
+  toReportTimezone
+} from './financialReport.service';
+import { percentOf, roundMoney } from '../utils/money';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Valores projetados com faixa de confiança
+ */
+export interface ProjectionAmounts {
+  expected: number;
+  low: number;
+  high: number;
+  sellerAmount: number;
+  managerAmount: number;
+}
+
+/**
+ * Período da projeção
+ */
+export interface ProjectionPeriodBucket extends ProjectionAmounts {
+  key: string;
+  label: string;
+}
+
+/**
+ * Ritmo de uma meta no kit do vendedor
+ */
+export interface ProjectionRequirementPace {
+  requirementId: string;
+  description: string;
+  required: number;
+  validated: number;
+  remaining: number;
+  dailyPace: number;
+}
+
+/**
+ * Projeção por campanha
+ */
+export interface CampaignProjection extends ProjectionAmounts {
+  campaignId: string;
+  title: string;
+  endDate: Date;
+  daysRemaining: number;
+  openKits: number;
+  activeSellers: number;
+  expectedKitCompletions: number;
+  approvalRate: number;
+  pendingPipeline: number;
+  requirements: Array<{
+    requirementId: string;
+    description: string;
+    quantity: number;
+    dailyPace: number;
+  }>;
+}
+
+/**
+ * Projeção completa
+ */
+export interface EarningProjection {
+  projectionPeriod: EarningProjectionQuery['projectionPeriod'];
+  basePeriod: EarningProjectionQuery['basePeriod'];
+  confidenceLevel: number;
+  baseWindow: { startDate: string; endDate: string };
+  horizon: { startDate: string; endDate: string | null };
+  totals: ProjectionAmounts & { pendingPipeline: number };
+  periods: ProjectionPeriodBucket[];
+  campaigns?: CampaignProjection[];
+  scope: 'global' | 'team';
+  generatedAt: string;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const PROJECTION_CONFIG = {
+  // z da normal para faixa central de 80%
+  CONFIDENCE_LEVEL: 0.8,
+  CONFIDENCE_Z: 1.2816,
+  // Janela mínima para o ritmo não explodir em kits recém-abertos
+  MIN_PACE_WINDOW_DAYS: 7,
+  MAX_HORIZON_DAYS: 366,
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const BASE_PERIOD_DAYS: Record<Exclude<EarningProjectionQuery['basePeriod'], 'ytd'>, number> = {
+  last_week: 7,
+  last_month: 30,
+  last_quarter: 90,
+  last_year: 365,
+};
+
+/**
+ * Acumulador de valores esperados e variâncias
+ */
+interface ProjectionAccumulator {
+  expected: number;
+  variance: number;
+  sellerAmount: number;
+  managerAmount: number;
+}
+
+// ==================== UTILITÁRIOS ====================
+
+const createAccumulator = (): ProjectionAccumulator => ({
+  expected: 0,
+  variance: 0,
+  sellerAmount: 0,
+  managerAmount: 0,
+});
+
+const addToAccumulator = (target: ProjectionAccumulator, source: ProjectionAccumulator): void => {
+  target.expected += source.expected;
+  target.variance += source.variance;
+  target.sellerAmount += source.sellerAmount;
+  target.managerAmount += source.managerAmount;
+};
+
+/**
+ * Converte o acumulador em valores com faixa de confiança (vendas como processo de Poisson)
+ */
+const toProjectionAmounts = (accumulator: ProjectionAccumulator): ProjectionAmounts => {
+  const margin = PROJECTION_CONFIG.CONFIDENCE_Z * Math.sqrt(accumulator.variance);
+
+  return {
+    expected: roundMoney(accumulator.expected),
+    low: roundMoney(Math.max(0, accumulator.expected - margin)),
+    high: roundMoney(accumulator.expected + margin),
+    sellerAmount: roundMoney(accumulator.sellerAmount),
+    managerAmount: roundMoney(accumulator.managerAmount),
+  };
+};
+
+/**
+ * Início da janela do período base
+ */
+const resolveBaseWindowStart = (basePeriod: EarningProjectionQuery['basePeriod'], now: Date): Date => {
+  if (basePeriod === 'ytd') {
+    return fromReportTimezone(toReportTimezone(now).getUTCFullYear(), 0, 1);
+  }
+
+  return new Date(now.getTime() - BASE_PERIOD_DAYS[basePeriod] * DAY_MS);
+};
+
+/**
+ * Filtro de kits conforme quem consulta (gerente vê a própria equipe)
+ */
+const buildKitWhere = (
+  filters: EarningProjectionQuery,
+  requester: FinancialReportRequester
+): Prisma.CampaignKitWhereInput => ({
+  status: CampaignKitStatus.IN_PROGRESS,
+  ...(filters.userId && {
+    OR: [{ userId: filters.userId }, { user: { managerId: filters.userId } }],
+  }),
+  ...(requester.role === UserRole.GERENTE && {
+    AND: [{ OR: [{ userId: requester.id }, { user: { managerId: requester.id } }] }],
+  }),
+});
+
+// ==================== SERVIÇOS ====================
+
+/**
+ * Calcula a projeção de earnings até o fim das campanhas ativas
+ */
+export const getEarningProjection = async (
+  filters: EarningProjectionQuery,
+  requester: FinancialReportRequester
+): Promise<EarningProjection> => {
+  const now = new Date();
+  const windowStart = resolveBaseWindowStart(filters.basePeriod, now);
+
+  const campaigns = await prisma.campaign.findMany({
+    where: {
+      status: CampaignStatus.ATIVA,
+      endDate: { gt: now },
+      pointsOnCompletion: { gt: 0 },
+      ...(filters.campaignId && { id: filters.campaignId }),
+    },
+    select: {
+      id: true,
+      title: true,
+      startDate: true,
+      endDate: true,
+      pointsOnCompletion: true,
+      managerPointsPercentage: true,
+      goalRequirements: {
+        select: { id: true, description: true, quantity: true },
+      },
+      campaignKits: {
+        where: buildKitWhere(filters, requester),
+        select: {
+          id: true,
+          userId: true,
+          user: { select: { managerId: true } },
+          submissions: {
+            where: { status: { in: [CampaignSubmissionStatus.VALIDATED, CampaignSubmissionStatus.PENDING] } },
+            select: { requirementId: true, quantity: true, status: true, submissionDate: true },
+          },
+        },
+      },
+    },
+    orderBy: { endDate: 'asc' },
+  });
+
+  // Taxa de aprovação no período base (por campanha)
+  const reviewed = campaigns.length > 0
+    ? await prisma.campaignSubmission.groupBy({
+        by: ['campaignId', 'status'],
+        where: {
+          campaignId: { in: campaigns.map(campaign => campaign.id) },
+          status: { in: [CampaignSubmissionStatus.VALIDATED, CampaignSubmissionStatus.REJECTED] },
+          submissionDate: { gte: windowStart, lte: now },
+        },
+        _sum: { quantity: true },
+      })
+    : [];
+
+  const periodBuckets = new Map<string, { label: string; accumulator: ProjectionAccumulator }>();
+  const totals = createAccumulator();
+  let totalPipeline = 0;
+  const campaignProjections: CampaignProjection[] = [];
+
+  const addToPeriod = (date: Date, amounts: ProjectionAccumulator) => {
+    const { key, label } = getPeriodBucket(date, filters.projectionPeriod);
+    let bucket = periodBuckets.get(key);
+    if (!bucket) {
+      bucket = { label, accumulator: createAccumulator() };
+      periodBuckets.set(key, bucket);
+    }
+    addToAccumulator(bucket.accumulator, amounts);
+    addToAccumulator(totals, amounts);
+  };
+
+  for (const campaign of campaigns) {
+    const points = campaign.pointsOnCompletion || 0;
+    const managerShare = (campaign.managerPointsPercentage || 0) / 100;
+    const daysRemaining = Math.min(
+      (campaign.endDate.getTime() - now.getTime()) / DAY_MS,
+      PROJECTION_CONFIG.MAX_HORIZON_DAYS
+    );
+
+    // Ritmo medido desde o início da janela ou da campanha, o que for mais recente
+    const paceStart = new Date(Math.max(windowStart.getTime(), campaign.startDate.getTime()));
+    const paceDays = Math.max(
+      (now.getTime() - paceStart.getTime()) / DAY_MS,
+      PROJECTION_CONFIG.MIN_PACE_WINDOW_DAYS
+    );
+
+    const validatedSum = reviewed
+      .filter(row => row.campaignId === campaign.id && row.status === CampaignSubmissionStatus.VALIDATED)
+      .reduce((sum, row) => sum + (row._sum.quantity || 0), 0);
+    const rejectedSum = reviewed
+      .filter(row => row.campaignId === campaign.id && row.status === CampaignSubmissionStatus.REJECTED)
+      .reduce((sum, row) => sum + (row._sum.quantity || 0), 0);
+    const approvalRate = validatedSum + rejectedSum > 0 ? validatedSum / (validatedSum + rejectedSum) : 1;
+
+    const campaignTotals = createAccumulator();
+    const requirementPace = new Map<string, number>();
+    let pendingPipeline = 0;
+    let activeSellers = 0;
+    let expectedKitCompletions = 0;
+
+    for (const kit of campaign.campaignKits) {
+      const hasManager = managerShare > 0 && !!kit.user.managerId;
+      const unitSeller = points;
+      // Mesmo arredondamento da premiação real do gerente
+      const unitManager = hasManager ? percentOf(points, campaign.managerPointsPercentage) : 0;
+      const unitValue = unitSeller + unitManager;
+
+      const paces: ProjectionRequirementPace[] = campaign.goalRequirements.map(requirement => {
+        const validatedSubmissions = kit.submissions.filter(submission =>
+          submission.requirementId === requirement.id &&
+          submission.status === CampaignSubmissionStatus.VALIDATED
+        );
+        const validated = validatedSubmissions.reduce((sum, submission) => sum + submission.quantity, 0);
+        const recent = validatedSubmissions
+          .filter(submission => submission.submissionDate >= paceStart)
+          .reduce((sum, submission) => sum + submission.quantity, 0);
+
+        return {
+          requirementId: requirement.id,
+          description: requirement.description,
+          required: requirement.quantity,
+          validated,
+          remaining: Math.max(0, requirement.quantity - validated),
+          dailyPace: recent / paceDays,
+        };
+      });
+
+      // Kit fecha quando a meta mais lenta é atingida; depois disso não há novas vendas no kit
+      const daysToComplete = paces.reduce((max, pace) => {
+        if (pace.remaining === 0) return max;
+        return Math.max(max, pace.dailyPace > 0 ? pace.remaining / pace.dailyPace : Infinity);
+      }, 0);
+      const activeDays = Math.min(daysToComplete, daysRemaining);
+      const dailyQuantity = paces.reduce((sum, pace) => sum + pace.dailyPace, 0);
+
+      if (dailyQuantity > 0) activeSellers += 1;
+      if (daysToComplete <= daysRemaining) expectedKitCompletions += 1;
+      paces.forEach(pace => {
+        requirementPace.set(pace.requirementId, (requirementPace.get(pace.requirementId) || 0) + pace.dailyPace);
+      });
+
+      // Vendas futuras distribuídas dia a dia até a conclusão do kit ou o fim da campanha
+      for (let day = 0; day < activeDays && dailyQuantity > 0; day++) {
+        const fraction = Math.min(1, activeDays - day);
+        const quantity = dailyQuantity * fraction;
+        const amounts: ProjectionAccumulator = {
+          expected: quantity * unitValue,
+          variance: quantity * unitValue * unitValue,
+          sellerAmount: quantity * unitSeller,
+          managerAmount: quantity * unitManager,
+        };
+        addToPeriod(new Date(now.getTime() + day * DAY_MS), amounts);
+        addToAccumulator(campaignTotals, amounts);
+      }
+
+      // Submissões pendentes viram earnings na validação, esperada no período corrente
+      const pendingQuantity = kit.submissions
+        .filter(submission => submission.status === CampaignSubmissionStatus.PENDING)
+        .reduce((sum, submission) => sum + submission.quantity, 0);
+
+      if (pendingQuantity > 0) {
+        const pipeline: ProjectionAccumulator = {
+          expected: pendingQuantity * approvalRate * unitValue,
+          variance: pendingQuantity * approvalRate * (1 - approvalRate) * unitValue * unitValue,
+          sellerAmount: pendingQuantity * approvalRate * unitSeller,
+          managerAmount: pendingQuantity * approvalRate * unitManager,
+        };
+        pendingPipeline += pipeline.expected;
+        addToPeriod(now, pipeline);
+        addToAccumulator(campaignTotals, pipeline);
+      }
+    }
+
+    totalPipeline += pendingPipeline;
+
+    campaignProjections.push({
+      campaignId: campaign.id,
+      title: campaign.title,
+      endDate: campaign.endDate,
+      daysRemaining: Math.ceil(daysRemaining),
+      openKits: campaign.campaignKits.length,
+      activeSellers,
+      expectedKitCompletions,
+      approvalRate: Math.round(approvalRate * 1000) / 1000,
+      pendingPipeline: roundMoney(pendingPipeline),
+      requirements: campaign.goalRequirements.map(requirement => ({
+        requirementId: requirement.id,
+        description: requirement.description,
+        quantity: requirement.quantity,
+        dailyPace: Math.round((requirementPace.get(requirement.id) || 0) * 1000) / 1000,
+      })),
+      ...toProjectionAmounts(campaignTotals),
+    });
+  }
+
+  const periods = Array.from(periodBuckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, bucket]) => ({ key, label: bucket.label, ...toProjectionAmounts(bucket.accumulator) }));
+
+  const lastEndDate = campaigns.length > 0 ? campaigns[campaigns.length - 1].endDate : null;
+
+  console.log(`[EARNING_PROJECTION_SERVICE] Projeção calculada para ${campaigns.length} campanha(s): ${roundMoney(totals.expected)} esperado`);
+
+  return {
+    projectionPeriod: filters.projectionPeriod,
+    basePeriod: filters.basePeriod,
+    confidenceLevel: PROJECTION_CONFIG.CONFIDENCE_LEVEL,
+    baseWindow: { startDate: windowStart.toISOString(), endDate: now.toISOString() },
+    horizon: { startDate: now.toISOString(), endDate: lastEndDate ? lastEndDate.toISOString() : null },
+    totals: { ...toProjectionAmounts(totals), pendingPipeline: roundMoney(totalPipeline) },
+    periods,
+    ...(filters.includeProjectedCampaigns && { campaigns: campaignProjections }),
+    scope: requester.role === UserRole.GERENTE ? 'team' : 'global',
+    generatedAt: now.toISOString(),
+  };
+};
@@ -0,0 +1,774 @@
+/**
+ * @file financialReport.service.ts
+ * @version 2.0.0
+ * @description Relatório financeiro de earnings do sistema EPS Campanhas.
+ * Agrupa os ganhos por período (dia, semana, mês, trimestre ou ano) e detalha por campanha,
+ * ótica, gerente, usuário e tipo, com totais pagos e pendentes. Usado no fechamento
+ * mensal da contabilidade e exportado em XLSX e PDF.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Agregação por período no fuso de Brasília e quebras por campanha, ótica, gerente e tipo
+ * - Escopo da equipe para gerentes
+ * - Exportação em planilha XLSX e PDF para impressão
+ * - Utilitários de período no fuso de Brasília compartilhados com a projeção de earnings
+ * - Valores pagos em bruto, retido e líquido
+ * - Totais acumulados em centavos (utils/money) para não divergir do detalhamento
+ */
+
+import { utils as xlsxUtils, write as writeXlsx, WorkSheet } from 'xlsx';
+import { EarningStatus, EarningType, Prisma, UserRole } from '@prisma/client';
+import { prisma } from '../../lib/prismaClient';
+import {
+  FinancialReportQuery,
+  EARNING_STATUS_LABELS,
+  EARNING_TYPE_LABELS
+} from '../schemas/earning.schema';
+import { fromCents, sumMoney, toCents } from '../utils/money';
+import { formatCNPJ, formatCurrency } from '../utils/normalizers';
+import { PdfReportColumn, renderPdfReport } from '../utils/pdfReport';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Quem solicitou o relatório (gerentes veem apenas a própria equipe)
+ */
+export interface FinancialReportRequester {
+  id: string;
+  role: UserRole;
+}
+
+/**
+ * Filtros do relatório (o formato de saída é decidido por quem chama)
+ */
+export type FinancialReportFilters = Omit<FinancialReportQuery, 'format'>;
+
+export type FinancialReportPeriodUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * Totais de um agrupamento
+ */
+export interface FinancialReportBucket {
+  key: string;
+  label: string;
+  count: number;
+  totalAmount: number;
+  /** Pago em bruto */
+  paidAmount: number;
+  /** Retido na fonte sobre o pago */
+  withheldAmount: number;
+  /** Pago líquido (efetivamente transferido) */
+  netPaidAmount: number;
+  pendingAmount: number;
+  cancelledAmount: number;
+  reversedAmount: number;
+  sellerAmount: number;
+  managerAmount: number;
+}
+
+/**
+ * Lançamento individual do relatório
+ */
+export interface FinancialReportDetail {
+  id: string;
+  earningDate: Date;
+  type: EarningType;
+  status: EarningStatus;
+  /** Valor bruto */
+  amount: number;
+  /** Retido e líquido: nulos até o pagamento (ou reserva em lote PIX) */
+  withheldAmount: number | null;
+  netAmount: number | null;
+  userName: string;
+  campaignTitle: string;
+  opticName: string;
+  opticCNPJ: string;
+  managerName: string | null;
+  paidAt: Date | null;
+  paymentMethod: string | null;
+  paymentReference: string | null;
+}
+
+/**
+ * Relatório financeiro completo
+ */
+export interface FinancialReport {
+  period: {
+    startDate: string;
+    endDate: string;
+    groupBy: FinancialReportFilters['groupBy'];
+    periodUnit: FinancialReportPeriodUnit;
+  };
+  summary: {
+    totalEarnings: number;
+    totalAmount: number;
+    pendingAmount: number;
+    paidAmount: number;
+    withheldAmount: number;
+    netPaidAmount: number;
+    cancelledAmount: number;
+    reversedAmount: number;
+    averageEarning: number;
+    byType: Record<string, number>;
+    byStatus: Record<string, number>;
+    byPeriod: Array<{ period: string; amount: number; count: number }>;
+  };
+  breakdown: {
+    byPeriod: FinancialReportBucket[];
+    byCampaign: FinancialReportBucket[];
+    byOptic: FinancialReportBucket[];
+    byManager: FinancialReportBucket[];
+    byUser: FinancialReportBucket[];
+    byType: FinancialReportBucket[];
+  };
+  charts?: Array<{
+    type: 'line' | 'bar' | 'pie';
+    title: string;
+    data: Array<Record<string, unknown>>;
+  }>;
+  details?: FinancialReportDetail[];
+  scope: 'global' | 'team';
+  generatedAt: string;
+}
+
+/**
+ * Arquivo exportado
+ */
+export interface FinancialReportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const REPORT_CONFIG = {
+  // Brasília não tem horário de verão desde 2019
+  TIMEZONE_OFFSET_MINUTES: -180,
+  TIMEZONE_LABEL: 'America/Sao_Paulo',
+  MAX_JSON_DETAILS: 5000,
+} as const;
+
+const PERIOD_UNITS: FinancialReportPeriodUnit[] = ['day', 'week', 'month', 'quarter', 'year'];
+
+const NO_MANAGER_KEY = 'sem-gerente';
+
+const reportEarningSelect = {
+  id: true,
+  type: true,
+  status: true,
+  amount: true,
+  withheldAmount: true,
+  netAmount: true,
+  earningDate: true,
+  userId: true,
+  userName: true,
+  campaignId: true,
+  campaignTitle: true,
+  user: {
+    select: {
+      opticName: true,
+      opticCNPJ: true,
+      managerId: true,
+      manager: { select: { name: true } },
+    },
+  },
+  payment: {
+    select: { paidAt: true, method: true, reference: true },
+  },
+} satisfies Prisma.EarningSelect;
+
+type ReportEarning = Prisma.Result<typeof prisma.earning, { select: typeof reportEarningSelect }, 'findFirstOrThrow'>;
+
+// ==================== UTILITÁRIOS ====================
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+/**
+ * Data deslocada para o fuso do relatório (ler sempre com getters UTC)
+ */
+export const toReportTimezone = (date: Date): Date => {
+  return new Date(date.getTime() + REPORT_CONFIG.TIMEZONE_OFFSET_MINUTES * 60 * 1000);
+};
+
+/**
+ * Converte data local do relatório (meia-noite) para o instante UTC correspondente
+ */
+export const fromReportTimezone = (year: number, month: number, day: number): Date => {
+  return new Date(Date.UTC(year, month, day) - REPORT_CONFIG.TIMEZONE_OFFSET_MINUTES * 60 * 1000);
+};
+
+/**
+ * Chave e rótulo do período de uma data
+ */
+export const getPeriodBucket = (date: Date, unit: FinancialReportPeriodUnit): { key: string; label: string } => {
+  const local = toReportTimezone(date);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  switch (unit) {
+    case 'day':
+      return { key: `${year}-${pad(month + 1)}-${pad(day)}`, label: `${pad(day)}/${pad(month + 1)}/${year}` };
+    case 'week': {
+      // Semana começa na segunda-feira
+      const weekStart = new Date(Date.UTC(year, month, day - ((local.getUTCDay() + 6) % 7)));
+      const key = `${weekStart.getUTCFullYear()}-${pad(weekStart.getUTCMonth() + 1)}-${pad(weekStart.getUTCDate())}`;
+      return {
+        key,
+        label: `Semana de ${pad(weekStart.getUTCDate())}/${pad(weekStart.getUTCMonth() + 1)}/${weekStart.getUTCFullYear()}`,
+      };
+    }
+    case 'month':
+      return { key: `${year}-${pad(month + 1)}`, label: `${pad(month + 1)}/${year}` };
+    case 'quarter': {
+      const quarter = Math.floor(month / 3) + 1;
+      return { key: `${year}-T${quarter}`, label: `${quarter}º tri/${year}` };
+    }
+    case 'year':
+      return { key: String(year), label: String(year) };
+  }
+};
+
+/**
+ * Período padrão: do início do mês corrente até agora
+ */
+const resolveReportRange = (filters: FinancialReportFilters): { startDate: Date; endDate: Date } => {
+  const endDate = filters.endDate ? new Date(filters.endDate) : new Date();
+  const localEnd = toReportTimezone(endDate);
+
+  const startDate = filters.startDate
+    ? new Date(filters.startDate)
+    : fromReportTimezone(localEnd.getUTCFullYear(), localEnd.getUTCMonth(), 1);
+
+  if (startDate > endDate) {
+    throw new Error('Data inicial deve ser anterior à data final');
+  }
+
+  return { startDate, endDate };
+};
+
+const createBucket = (key: string, label: string): FinancialReportBucket => ({
+  key,
+  label,
+  count: 0,
+  totalAmount: 0,
+  paidAmount: 0,
+  withheldAmount: 0,
+  netPaidAmount: 0,
+  pendingAmount: 0,
+  cancelledAmount: 0,
+  reversedAmount: 0,
+  sellerAmount: 0,
+  managerAmount: 0,
+});
+
+/**
+ * Soma o earning no agrupamento, em centavos inteiros (sem deriva de ponto flutuante).
+ * Cancelados e estornados não entram no total devido.
+ */
+const addToBucket = (bucket: FinancialReportBucket, earning: ReportEarning): void => {
+  const amount = toCents(earning.amount);
+  bucket.count += 1;
+
+  switch (earning.status) {
+    case EarningStatus.PAGO:
+      bucket.paidAmount += amount;
+      bucket.withheldAmount += toCents(earning.withheldAmount);
+      bucket.netPaidAmount += toCents(earning.netAmount ?? earning.amount);
+      break;
+    case EarningStatus.PENDENTE:
+      bucket.pendingAmount += amount;
+      break;
+    case EarningStatus.CANCELADO:
+      bucket.cancelledAmount += amount;
+      return;
+    case EarningStatus.ESTORNADO:
+      bucket.reversedAmount += amount;
+      return;
+  }
+
+  bucket.totalAmount += amount;
+  if (earning.type === EarningType.SELLER) {
+    bucket.sellerAmount += amount;
+  } else {
+    bucket.managerAmount += amount;
+  }
+};
+
+/**
+ * Converte os totais acumulados em centavos de volta para reais
+ */
+const bucketFromCents = (bucket: FinancialReportBucket): FinancialReportBucket => ({
+  ...bucket,
+  totalAmount: fromCents(bucket.totalAmount),
+  paidAmount: fromCents(bucket.paidAmount),
+  withheldAmount: fromCents(bucket.withheldAmount),
+  netPaidAmount: fromCents(bucket.netPaidAmount),
+  pendingAmount: fromCents(bucket.pendingAmount),
+  cancelledAmount: fromCents(bucket.cancelledAmount),
+  reversedAmount: fromCents(bucket.reversedAmount),
+  sellerAmount: fromCents(bucket.sellerAmount),
+  managerAmount: fromCents(bucket.managerAmount),
+});
+
+/**
+ * Agrupa earnings pela chave informada
+ */
+const groupEarnings = (
+  earnings: ReportEarning[],
+  resolve: (earning: ReportEarning) => { key: string; label: string },
+  sort: 'key' | 'amount'
+): FinancialReportBucket[] => {
+  const buckets = new Map<string, FinancialReportBucket>();
+
+  for (const earning of earnings) {
+    const { key, label } = resolve(earning);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = createBucket(key, label);
+      buckets.set(key, bucket);
+    }
+    addToBucket(bucket, earning);
+  }
+
+  const result = Array.from(buckets.values()).map(bucketFromCents);
+
+  return sort === 'key'
+    ? result.sort((a, b) => a.key.localeCompare(b.key))
+    : result.sort((a, b) => b.totalAmount - a.totalAmount || a.label.localeCompare(b.label));
+};
+
+/**
+ * Gerente responsável: o próprio usuário em earnings de gerente, o gerente do vendedor nos demais
+ */
+const resolveManager = (earning: ReportEarning): { key: string; label: string } => {
+  if (earning.type === EarningType.MANAGER) {
+    return { key: earning.userId, label: earning.userName };
+  }
+
+  return earning.user.managerId
+    ? { key: earning.user.managerId, label: earning.user.manager?.name || 'Gerente removido' }
+    : { key: NO_MANAGER_KEY, label: 'Sem gerente' };
+};
+
+/**
+ * Filtro de earnings do relatório
+ */
+const buildReportWhere = (
+  filters: FinancialReportFilters,
+  range: { startDate: Date; endDate: Date },
+  requester: FinancialReportRequester
+): Prisma.EarningWhereInput => ({
+  earningDate: { gte: range.startDate, lte: range.endDate },
+  ...(filters.type && filters.type !== 'all' && { type: filters.type as EarningType }),
+  ...(filters.status && filters.status !== 'all' && { status: filters.status as EarningStatus }),
+  ...(filters.userId && { userId: filters.userId }),
+  ...(filters.campaignId && { campaignId: filters.campaignId }),
+  // Gerente vê os próprios earnings e os da sua equipe
+  ...(requester.role === UserRole.GERENTE && {
+    OR: [
+      { userId: requester.id },
+      { user: { managerId: requester.id } },
+    ],
+  }),
+});
+
+const toDetail = (earning: ReportEarning): FinancialReportDetail => ({
+  id: earning.id,
+  earningDate: earning.earningDate,
+  type: earning.type,
+  status: earning.status,
+  amount: earning.amount,
+  withheldAmount: earning.withheldAmount,
+  netAmount: earning.netAmount,
+  userName: earning.userName,
+  campaignTitle: earning.campaignTitle,
+  opticName: earning.user.opticName,
+  opticCNPJ: earning.user.opticCNPJ,
+  managerName: resolveManager(earning).key === NO_MANAGER_KEY ? null : resolveManager(earning).label,
+  paidAt: earning.payment?.paidAt ?? null,
+  paymentMethod: earning.payment?.method ?? null,
+  paymentReference: earning.payment?.reference ?? null,
+});
+
+/**
+ * Busca os earnings e monta o relatório
+ */
+const buildFinancialReport = async (
+  filters: FinancialReportFilters,
+  requester: FinancialReportRequester,
+  options: { allDetails: boolean }
+): Promise<{ report: FinancialReport; details: FinancialReportDetail[] }> => {
+  const range = resolveReportRange(filters);
+  const periodUnit: FinancialReportPeriodUnit = (PERIOD_UNITS as string[]).includes(filters.groupBy)
+    ? filters.groupBy as FinancialReportPeriodUnit
+    : 'month';
+
+  const earnings = await prisma.earning.findMany({
+    where: buildReportWhere(filters, range, requester),
+    select: reportEarningSelect,
+    orderBy: { earningDate: 'asc' },
+  });
+
+  const byPeriod = groupEarnings(earnings, earning => getPeriodBucket(earning.earningDate, periodUnit), 'key');
+  const byType = groupEarnings(
+    earnings,
+    earning => ({ key: earning.type, label: EARNING_TYPE_LABELS[earning.type] }),
+    'key'
+  );
+  const [overall] = groupEarnings(earnings, () => ({ key: 'total', label: 'Total' }), 'key');
+  const totals = overall || createBucket('total', 'Total');
+
+  const byStatus: Record<string, number> = {};
+  for (const status of Object.values(EarningStatus)) {
+    byStatus[status] = sumMoney(
+      earnings.filter(earning => earning.status === status).map(earning => earning.amount)
+    );
+  }
+
+  const dueCount = earnings.filter(earning =>
+    earning.status === EarningStatus.PAGO || earning.status === EarningStatus.PENDENTE
+  ).length;
+
+  const report: FinancialReport = {
+    period: {
+      startDate: range.startDate.toISOString(),
+      endDate: range.endDate.toISOString(),
+      groupBy: filters.groupBy,
+      periodUnit,
+    },
+    summary: {
+      totalEarnings: earnings.length,
+      totalAmount: totals.totalAmount,
+      pendingAmount: totals.pendingAmount,
+      paidAmount: totals.paidAmount,
+      withheldAmount: totals.withheldAmount,
+      netPaidAmount: totals.netPaidAmount,
+      cancelledAmount: totals.cancelledAmount,
+      reversedAmount: totals.reversedAmount,
+      averageEarning: dueCount > 0 ? fromCents(toCents(totals.totalAmount) / dueCount) : 0,
+      byType: Object.fromEntries(byType.map(bucket => [bucket.key, bucket.totalAmount])),
+      byStatus,
+      byPeriod: byPeriod.map(bucket => ({ period: bucket.label, amount: bucket.totalAmount, count: bucket.count })),
+    },
+    breakdown: {
+      byPeriod,
+      byCampaign: groupEarnings(earnings, earning => ({ key: earning.campaignId, label: earning.campaignTitle }), 'amount'),
+      byOptic: groupEarnings(
+        earnings,
+        earning => ({ key: earning.user.opticCNPJ, label: earning.user.opticName }),
+        'amount'
+      ),
+      byManager: groupEarnings(earnings, resolveManager, 'amount'),
+      byUser: groupEarnings(earnings, earning => ({ key: earning.userId, label: earning.userName }), 'amount'),
+      byType,
+    },
+    scope: requester.role === UserRole.GERENTE ? 'team' : 'global',
+    generatedAt: new Date().toISOString(),
+  };
+
+  if (filters.includeCharts) {
+    report.charts = [
+      {
+        type: 'line',
+        title: 'Earnings por período',
+        data: byPeriod.map(bucket => ({
+          period: bucket.label,
+          total: bucket.totalAmount,
+          paid: bucket.paidAmount,
+          pending: bucket.pendingAmount,
+          seller: bucket.sellerAmount,
+          manager: bucket.managerAmount,
+        })),
+      },
+      {
+        type: 'pie',
+        title: 'Earnings por tipo',
+        data: byType.map(bucket => ({ name: bucket.label, value: bucket.totalAmount })),
+      },
+      {
+        type: 'bar',
+        title: 'Earnings por campanha',
+        data: report.breakdown.byCampaign.map(bucket => ({
+          period: bucket.label,
+          total: bucket.totalAmount,
+          paid: bucket.paidAmount,
+          pending: bucket.pendingAmount,
+        })),
+      },
+    ];
+  }
+
+  const details = filters.includeDetails || options.allDetails
+    ? (options.allDetails ? earnings : earnings.slice(0, REPORT_CONFIG.MAX_JSON_DETAILS)).map(toDetail)
+    : [];
+
+  if (filters.includeDetails) {
+    report.details = details;
+  }
+
+  return { report, details };
+};
+
+const formatReportDate = (date: Date | string): string => {
+  const local = toReportTimezone(typeof date === 'string' ? new Date(date) : date);
+  return `${pad(local.getUTCDate())}/${pad(local.getUTCMonth() + 1)}/${local.getUTCFullYear()}`;
+};
+
+const formatReportDateTime = (date: Date | string): string => {
+  const local = toReportTimezone(typeof date === 'string' ? new Date(date) : date);
+  return `${formatReportDate(date)} ${pad(local.getUTCHours())}:${pad(local.getUTCMinutes())}`;
+};
+
+const buildExportFilename = (report: FinancialReport, extension: string): string => {
+  const compact = (iso: string) => formatReportDate(iso).split('/').reverse().join('');
+  return `relatorio-financeiro-${compact(report.period.startDate)}-${compact(report.period.endDate)}.${extension}`;
+};
+
+// ==================== EXPORTAÇÃO XLSX ====================
+
+const CURRENCY_FORMAT = '"R$" #,##0.00';
+
+const BUCKET_HEADERS = ['Agrupamento', 'Qtd.', 'Pago (bruto)', 'Retido', 'Pago (líquido)', 'Pendente', 'Total devido', 'Cancelado', 'Estornado', 'Vendedor', 'Gerente'];
+
+/**
+ * Aplica formato monetário às colunas informadas (a partir da segunda linha)
+ */
+const applyCurrencyFormat = (sheet: WorkSheet, columns: number[]): void => {
+  if (!sheet['!ref']) return;
+
+  const range = xlsxUtils.decode_range(sheet['!ref']);
+  for (let row = range.s.r + 1; row <= range.e.r; row++) {
+    for (const column of columns) {
+      const cell = sheet[xlsxUtils.encode_cell({ r: row, c: column })];
+      if (cell && cell.t === 'n') {
+        cell.z = CURRENCY_FORMAT;
+      }
+    }
+  }
+};
+
+const bucketSheet = (buckets: FinancialReportBucket[], keyHeader?: string): WorkSheet => {
+  const rows = buckets.map(bucket => [
+    ...(keyHeader ? [bucket.key] : []),
+    bucket.label,
+    bucket.count,
+    bucket.paidAmount,
+    bucket.withheldAmount,
+    bucket.netPaidAmount,
+    bucket.pendingAmount,
+    bucket.totalAmount,
+    bucket.cancelledAmount,
+    bucket.reversedAmount,
+    bucket.sellerAmount,
+    bucket.managerAmount,
+  ]);
+
+  const offset = keyHeader ? 1 : 0;
+  const sheet = xlsxUtils.aoa_to_sheet([[...(keyHeader ? [keyHeader] : []), ...BUCKET_HEADERS], ...rows]);
+  applyCurrencyFormat(sheet, [2, 3, 4, 5, 6, 7, 8, 9, 10].map(column => column + offset));
+  sheet['!cols'] = [...(keyHeader ? [{ wch: 20 }] : []), { wch: 40 }, { wch: 8 }, ...Array(9).fill({ wch: 15 })];
+
+  return sheet;
+};
+
+/**
+ * Gera a planilha XLSX (resumo, quebras e lançamentos)
+ */
+const renderFinancialReportXlsx = (report: FinancialReport, details: FinancialReportDetail[]): Buffer => {
+  const workbook = xlsxUtils.book_new();
+
+  const summaryRows: Array<[string, string | number]> = [
+    ['Período', `${formatReportDate(report.period.startDate)} a ${formatReportDate(report.period.endDate)}`],
+    ['Fuso horário', REPORT_CONFIG.TIMEZONE_LABEL],
+    ['Escopo', report.scope === 'team' ? 'Equipe do gerente' : 'Global'],
+    ['Gerado em', formatReportDateTime(report.generatedAt)],
+    ['Quantidade de earnings', report.summary.totalEarnings],
+    ['Total pago (bruto)', report.summary.paidAmount],
+    ['Retido na fonte', report.summary.withheldAmount],
+    ['Total pago (líquido)', report.summary.netPaidAmount],
+    ['Total pendente', report.summary.pendingAmount],
+    ['Total devido', report.summary.totalAmount],
+    ['Cancelado', report.summary.cancelledAmount],
+    ['Estornado', report.summary.reversedAmount],
+    ['Média por earning', report.summary.averageEarning],
+  ];
+  const summarySheet = xlsxUtils.aoa_to_sheet([['Indicador', 'Valor'], ...summaryRows]);
+  for (let row = 6; row <= 13; row++) {
+    const cell = summarySheet[xlsxUtils.encode_cell({ r: row, c: 1 })];
+    if (cell) cell.z = CURRENCY_FORMAT;
+  }
+  summarySheet['!cols'] = [{ wch: 26 }, { wch: 30 }];
+  xlsxUtils.book_append_sheet(workbook, summarySheet, 'Resumo');
+
+  xlsxUtils.book_append_sheet(workbook, bucketSheet(report.breakdown.byPeriod), 'Por período');
+  xlsxUtils.book_append_sheet(workbook, bucketSheet(report.breakdown.byCampaign), 'Por campanha');
+  xlsxUtils.book_append_sheet(
+    workbook,
+    bucketSheet(report.breakdown.byOptic.map(bucket => ({ ...bucket, key: formatCNPJ(bucket.key) })), 'CNPJ'),
+    'Por ótica'
+  );
+  xlsxUtils.book_append_sheet(workbook, bucketSheet(report.breakdown.byManager), 'Por gerente');
+  xlsxUtils.book_append_sheet(workbook, bucketSheet(report.breakdown.byType), 'Por tipo');
+
+  const detailSheet = xlsxUtils.aoa_to_sheet([
+    ['Data', 'Tipo', 'Status', 'Bruto', 'Retido', 'Líquido', 'Usuário', 'Campanha', 'Ótica', 'CNPJ', 'Gerente', 'Pago em', 'Método', 'Referência'],
+    ...details.map(detail => [
+      formatReportDate(detail.earningDate),
+      EARNING_TYPE_LABELS[detail.type],
+      EARNING_STATUS_LABELS[detail.status],
+      detail.amount,
+      detail.withheldAmount ?? '',
+      detail.netAmount ?? '',
+      detail.userName,
+      detail.campaignTitle,
+      detail.opticName,
+      formatCNPJ(detail.opticCNPJ),
+      detail.managerName || '',
+      detail.paidAt ? formatReportDate(detail.paidAt) : '',
+      detail.paymentMethod || '',
+      detail.paymentReference || '',
+    ]),
+  ]);
+  applyCurrencyFormat(detailSheet, [3, 4, 5]);
+  detailSheet['!cols'] = [
+    { wch: 12 }, { wch: 10 }, { wch: 10 }, { wch: 14 }, { wch: 14 }, { wch: 14 }, { wch: 30 }, { wch: 30 },
+    { wch: 30 }, { wch: 20 }, { wch: 30 }, { wch: 12 }, { wch: 16 }, { wch: 24 },
+  ];
+  xlsxUtils.book_append_sheet(workbook, detailSheet, 'Lançamentos');
+
+  return writeXlsx(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+};
+
+// ==================== EXPORTAÇÃO PDF ====================
+
+const PDF_BUCKET_COLUMNS: PdfReportColumn[] = [
+  { label: 'Agrupamento', width: 120 },
+  { label: 'Qtd.', width: 30, align: 'right' },
+  { label: 'Pago (bruto)', width: 65, align: 'right' },
+  { label: 'Retido', width: 55, align: 'right' },
+  { label: 'Pago (líq.)', width: 65, align: 'right' },
+  { label: 'Pendente', width: 60, align: 'right' },
+  { label: 'Total devido', width: 65, align: 'right' },
+  { label: 'Canc./Estorno', width: 55, align: 'right' },
+];
+
+const bucketRow = (bucket: FinancialReportBucket): string[] => [
+  bucket.label,
+  String(bucket.count),
+  formatCurrency(bucket.paidAmount),
+  formatCurrency(bucket.withheldAmount),
+  formatCurrency(bucket.netPaidAmount),
+  formatCurrency(bucket.pendingAmount),
+  formatCurrency(bucket.totalAmount),
+  formatCurrency(sumMoney([bucket.cancelledAmount, bucket.reversedAmount])),
+];
+
+/**
+ * Gera o PDF para impressão (resumo e quebras; lançamentos ficam na planilha)
+ */
+const renderFinancialReportPdf = (report: FinancialReport): Buffer => {
+  const { summary } = report;
+  const totalRow = bucketRow({
+    ...createBucket('total', 'Total'),
+    count: summary.totalEarnings,
+    paidAmount: summary.paidAmount,
+    withheldAmount: summary.withheldAmount,
+    netPaidAmount: summary.netPaidAmount,
+    pendingAmount: summary.pendingAmount,
+    totalAmount: summary.totalAmount,
+    cancelledAmount: summary.cancelledAmount,
+    reversedAmount: summary.reversedAmount,
+  });
+
+  const section = (heading: string, buckets: FinancialReportBucket[]) => ({
+    heading,
+    columns: PDF_BUCKET_COLUMNS,
+    rows: buckets.map(bucketRow),
+    footer: totalRow,
+    emptyMessage: 'Nenhum earning no período',
+  });
+
+  return renderPdfReport({
+    title: 'Relatório financeiro de earnings',
+    info: [
+      `Período: ${formatReportDate(report.period.startDate)} a ${formatReportDate(report.period.endDate)} (horário de Brasília)`,
+      `Escopo: ${report.scope === 'team' ? 'equipe do gerente' : 'global'}`,
+      `Gerado em ${formatReportDateTime(report.generatedAt)}`,
+    ],
+    sections: [
+      {
+        heading: 'Resumo',
+        columns: [
+          { label: 'Indicador', width: 250 },
+          { label: 'Valor', width: 265, align: 'right' },
+        ],
+        rows: [
+          ['Quantidade de earnings', String(summary.totalEarnings)],
+          ['Total pago (bruto)', formatCurrency(summary.paidAmount)],
+          ['Retido na fonte', formatCurrency(summary.withheldAmount)],
+          ['Total pago (líquido)', formatCurrency(summary.netPaidAmount)],
+          ['Total pendente', formatCurrency(summary.pendingAmount)],
+          ['Total devido (pago + pendente)', formatCurrency(summary.totalAmount)],
+          ['Cancelado', formatCurrency(summary.cancelledAmount)],
+          ['Estornado', formatCurrency(summary.reversedAmount)],
+          ['Média por earning', formatCurrency(summary.averageEarning)],
+        ],
+      },
+      section('Por período', report.breakdown.byPeriod),
+      section('Por tipo', report.breakdown.byType),
+      section('Por campanha', report.breakdown.byCampaign),
+      section(
+        'Por ótica',
+        report.breakdown.byOptic.map(bucket => ({ ...bucket, label: `${bucket.label} (${formatCNPJ(bucket.key)})` }))
+      ),
+      section('Por gerente', report.breakdown.byManager),
+    ],
+    footerText: 'EPS Campanhas - Relatório financeiro',
+  });
+};
+
+// ==================== SERVIÇOS ====================
+
+/**
+ * Gera o relatório financeiro do período
+ */
+export const generateFinancialReport = async (
+  filters: FinancialReportFilters,
+  requester: FinancialReportRequester
+): Promise<FinancialReport> => {
+  const { report } = await buildFinancialReport(filters, requester, { allDetails: false });
+
+  console.log(`[FINANCIAL_REPORT_SERVICE] Relatório gerado: ${report.summary.totalEarnings} earning(s) de ${report.period.startDate} a ${report.period.endDate}`);
+
+  return report;
+};
+
+/**
+ * Exporta o relatório em XLSX ou PDF
+ */
+export const exportFinancialReport = async (
+  filters: FinancialReportFilters,
+  requester: FinancialReportRequester,
+  format: 'xlsx' | 'pdf'
+): Promise<FinancialReportFile> => {
+  const { report, details } = await buildFinancialReport(filters, requester, { allDetails: format === 'xlsx' });
+
+  console.log(`[FINANCIAL_REPORT_SERVICE] Relatório exportado em ${format}: ${report.summary.totalEarnings} earning(s)`);
+
+  if (format === 'pdf') {
+    return {
+      filename: buildExportFilename(report, 'pdf'),
+      contentType: 'application/pdf',
+      content: renderFinancialReportPdf(report),
+    };
+  }
+
+  return {
+    filename: buildExportFilename(report, 'xlsx'),
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    content: renderFinancialReportXlsx(report, details),
+  };
+};
@@ -0,0 +1,179 @@
+/**
+ * @file mail.service.ts
+ * @version 2.0.0
+ * @description Envio de e-mails transacionais do sistema EPS Campanhas.
+ * O envio passa por um transporte plugável: em desenvolvimento as mensagens vão para o
+ * console ou para arquivos .eml locais; em produção registre o transporte real
+ * (SMTP, provedor HTTP etc.) com registerMailTransport.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Interface de transporte plugável
+ * - Transportes de console e de arquivo para desenvolvimento
+ * - Templates de redefinição de senha e verificação de e-mail
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Mensagem de e-mail
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Transporte de e-mail (implementações plugáveis)
+ */
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const MAIL_CONFIG = {
+  FROM: process.env.SMTP_FROM || 'EPS Campanhas <noreply@eps.com>',
+  TRANSPORT: process.env.MAIL_TRANSPORT || 'console',
+  OUTBOX_DIR: process.env.MAIL_OUTBOX_DIR || path.join(process.cwd(), 'tmp', 'mail'),
+  FRONTEND_URL: (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, ''),
+};
+
+// ==================== TRANSPORTES DE DESENVOLVIMENTO ====================
+
+/**
+ * Escreve a mensagem no console
+ */
+const consoleTransport: MailTransport = {
+  name: 'console',
+  send: async (message) => {
+    console.log(
+      `[MAIL_SERVICE] ---- E-mail (console) ----\n` +
+      `De: ${message.from}\nPara: ${message.to}\nAssunto: ${message.subject}\n\n${message.text}\n` +
+      `[MAIL_SERVICE] ---------------------------`
+    );
+  },
+};
+
+/**
+ * Grava a mensagem como arquivo .eml na caixa de saída local
+ */
+const fileTransport: MailTransport = {
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(MAIL_CONFIG.OUTBOX_DIR, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}_${safeRecipient}.eml`;
+    const content = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(MAIL_CONFIG.OUTBOX_DIR, fileName), content, 'utf8');
+
+    console.log(`[MAIL_SERVICE] E-mail para ${message.to} gravado em ${MAIL_CONFIG.OUTBOX_DIR}/${fileName}`);
+  },
+};
+
+// ==================== REGISTRO DE TRANSPORTES ====================
+
+const transports = new Map<string, MailTransport>([
+  [consoleTransport.name, consoleTransport],
+  [fileTransport.name, fileTransport],
+]);
+
+/**
+ * Registra transporte de e-mail (ex.: SMTP em produção).
+ * Para usá-lo, defina MAIL_TRANSPORT com o mesmo nome.
+ */
+export const registerMailTransport = (transport: MailTransport): void => {
+  transports.set(transport.name, transport);
+  console.log(`[MAIL_SERVICE] Transporte de e-mail "${transport.name}" registrado`);
+};
+
+/**
+ * Transporte configurado (console se o nome não estiver registrado)
+ */
+const getActiveTransport = (): MailTransport => {
+  const transport = transports.get(MAIL_CONFIG.TRANSPORT);
+
+  if (!transport) {
+    console.warn(`[MAIL_SERVICE] Transporte "${MAIL_CONFIG.TRANSPORT}" não registrado, usando console`);
+    return consoleTransport;
+  }
+
+  return transport;
+};
+
+// ==================== ENVIO ====================
+
+/**
+ * Envia e-mail pelo transporte configurado
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const transport = getActiveTransport();
+
+  try {
+    await transport.send({ ...message, from: MAIL_CONFIG.FROM });
+  } catch (error) {
+    console.error(`[MAIL_SERVICE] Erro ao enviar e-mail para ${message.to} via ${transport.name}:`, error);
+    throw new Error('Erro ao enviar e-mail');
+  }
+};
+
+// ==================== TEMPLATES ====================
+
+/**
+ * E-mail de redefinição de senha
+ */
+export const sendPasswordResetMail = async (
+  user: { name: string; email: string },
+  token: string,
+  expiresAt: Date
+): Promise<void> => {
+  const link = `${MAIL_CONFIG.FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'EPS Campanhas - Redefinição de senha',
+    text:
+      `Olá, ${user.name}!\n\n` +
+      `Recebemos uma solicitação para redefinir a senha da sua conta.\n` +
+      `Para criar uma nova senha, acesse o link abaixo:\n\n${link}\n\n` +
+      `O link é válido até ${expiresAt.toLocaleString('pt-BR')} e só pode ser usado uma vez.\n` +
+      `Se você não fez esta solicitação, ignore este e-mail: sua senha continua a mesma.`,
+  });
+};
+
+/**
+ * E-mail de verificação de endereço
+ */
+export const sendEmailVerificationMail = async (
+  user: { name: string; email: string },
+  token: string,
+  expiresAt: Date
+): Promise<void> => {
+  const link = `${MAIL_CONFIG.FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'EPS Campanhas - Confirme seu e-mail',
+    text:
+      `Olá, ${user.name}!\n\n` +
+      `Confirme seu endereço de e-mail acessando o link abaixo:\n\n${link}\n\n` +
+      `O link é válido até ${expiresAt.toLocaleString('pt-BR')}.`,
+  });
+};
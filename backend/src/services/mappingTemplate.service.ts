@@ -0,0 +1,472 @@
+/**
+ * @file mappingTemplate.service.ts
+ * @version 2.0.0
+ * @description Serviços para templates de mapeamento de colunas da validação de planilhas.
+ * Cada template associa colunas da planilha de uma distribuidora (por nome/CNPJ) aos
+ * campos alvo do sistema, com transformação opcional por coluna.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - CRUD de templates persistidos por distribuidora
+ * - Templates pré-definidos do sistema
+ * - Sugestão automática do melhor template a partir dos cabeçalhos da planilha
+ */
+
+import { Prisma, TargetField } from '@prisma/client';
+import { prisma } from '../../lib/prismaClient';
+import {
+  ColumnMappingData,
+  SaveMappingTemplateData,
+  UpdateMappingTemplateData,
+  MappingTemplateFilters
+} from '../schemas/validation.schema';
+import { normalizeCNPJ, normalizeHeaderText } from '../utils/normalizers';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Template de mapeamento (persistido ou pré-definido)
+ */
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  distributorName: string | null;
+  distributorCnpj: string | null;
+  mappings: ColumnMappingData[];
+  isDefault: boolean;
+  isSystem: boolean;
+  usageCount: number;
+  lastUsedAt: Date | null;
+  createdById: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+}
+
+/**
+ * Sugestão de template para os cabeçalhos de uma planilha
+ */
+export interface MappingTemplateSuggestion {
+  template: MappingTemplate;
+  score: number;
+  matchedColumns: string[];
+  missingColumns: string[];
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações dos templates
+ */
+const TEMPLATE_CONFIG = {
+  // Fração mínima de colunas do template presentes na planilha para sugerir
+  MIN_SUGGESTION_SCORE: 0.6,
+  REQUIRED_FIELDS: [TargetField.ORDER_ID, TargetField.SELLER_CPF] as string[],
+};
+
+/**
+ * Templates pré-definidos do sistema (somente leitura)
+ */
+const SYSTEM_TEMPLATES: Array<Pick<MappingTemplate, 'id' | 'name' | 'description' | 'mappings'>> = [
+  {
+    id: 'standard',
+    name: 'Modelo Padrão EPS',
+    description: 'Template padrão para planilhas de venda EPS',
+    mappings: [
+      { sourceColumn: 'NUM_PEDIDO', targetField: TargetField.ORDER_ID },
+      { sourceColumn: 'CPF_VENDEDOR', targetField: TargetField.SELLER_CPF },
+      { sourceColumn: 'CNPJ_OTICA', targetField: TargetField.OPTIC_CNPJ },
+      { sourceColumn: 'DATA_VENDA', targetField: TargetField.SALE_DATE },
+      { sourceColumn: 'PRODUTO', targetField: TargetField.PRODUCT_NAME },
+      { sourceColumn: 'VALOR', targetField: TargetField.SALE_VALUE },
+    ],
+  },
+  {
+    id: 'simple',
+    name: 'Modelo Simples',
+    description: 'Template simplificado com campos essenciais',
+    mappings: [
+      { sourceColumn: 'PEDIDO', targetField: TargetField.ORDER_ID },
+      { sourceColumn: 'CPF', targetField: TargetField.SELLER_CPF },
+      { sourceColumn: 'DATA', targetField: TargetField.SALE_DATE },
+    ],
+  },
+  {
+    id: 'complete',
+    name: 'Modelo Completo',
+    description: 'Template com todos os campos disponíveis',
+    mappings: [
+      { sourceColumn: 'NUMERO_PEDIDO', targetField: TargetField.ORDER_ID },
+      { sourceColumn: 'PEDIDO_ALTERNATIVO_1', targetField: TargetField.ORDER_ID_2 },
+      { sourceColumn: 'PEDIDO_ALTERNATIVO_2', targetField: TargetField.ORDER_ID_3 },
+      { sourceColumn: 'CPF_VENDEDOR', targetField: TargetField.SELLER_CPF },
+      { sourceColumn: 'CNPJ_OTICA', targetField: TargetField.OPTIC_CNPJ },
+      { sourceColumn: 'DATA_VENDA', targetField: TargetField.SALE_DATE },
+      { sourceColumn: 'NOME_PRODUTO', targetField: TargetField.PRODUCT_NAME },
+      { sourceColumn: 'VALOR_VENDA', targetField: TargetField.SALE_VALUE },
+    ],
+  },
+];
+
+/**
+ * Mensagens de erro
+ */
+const ERROR_MESSAGES = {
+  TEMPLATE_NOT_FOUND: 'Template de mapeamento não encontrado',
+  SYSTEM_TEMPLATE_READONLY: 'Templates do sistema não podem ser alterados',
+  DUPLICATE_NAME: 'Já existe um template com este nome para a distribuidora',
+  DUPLICATE_TARGET: 'Campos mapeados mais de uma vez',
+  MISSING_REQUIRED: 'Campos obrigatórios não mapeados',
+};
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Converte registro do banco no formato de template
+ */
+const toMappingTemplate = (record: Prisma.ValidationMappingTemplateGetPayload<{}>): MappingTemplate => ({
+  id: record.id,
+  name: record.name,
+  description: record.description,
+  distributorName: record.distributorName,
+  distributorCnpj: record.distributorCnpj,
+  mappings: (record.mappings as unknown as ColumnMappingData[]) || [],
+  isDefault: record.isDefault,
+  isSystem: false,
+  usageCount: record.usageCount,
+  lastUsedAt: record.lastUsedAt,
+  createdById: record.createdById,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt,
+});
+
+/**
+ * Converte template pré-definido no formato de template
+ */
+const toSystemTemplate = (template: typeof SYSTEM_TEMPLATES[number]): MappingTemplate => ({
+  ...template,
+  distributorName: null,
+  distributorCnpj: null,
+  isDefault: false,
+  isSystem: true,
+  usageCount: 0,
+  lastUsedAt: null,
+  createdById: null,
+  createdAt: null,
+  updatedAt: null,
+});
+
+/**
+ * Verifica se o ID pertence a um template do sistema
+ */
+const isSystemTemplateId = (id: string): boolean => {
+  return SYSTEM_TEMPLATES.some(template => template.id === id);
+};
+
+/**
+ * Valida regras de negócio dos mapeamentos do template
+ */
+const assertValidMappings = (mappings: ColumnMappingData[]): void => {
+  const mappedFields: string[] = mappings
+    .map(mapping => mapping.targetField)
+    .filter(field => field !== TargetField.IGNORE);
+
+  const duplicateFields = mappedFields.filter((field, index) => mappedFields.indexOf(field) !== index);
+  if (duplicateFields.length > 0) {
+    throw new Error(`${ERROR_MESSAGES.DUPLICATE_TARGET}: ${[...new Set(duplicateFields)].join(', ')}`);
+  }
+
+  const missingFields = TEMPLATE_CONFIG.REQUIRED_FIELDS.filter(field => !mappedFields.includes(field));
+  if (missingFields.length > 0) {
+    throw new Error(`${ERROR_MESSAGES.MISSING_REQUIRED}: ${missingFields.join(', ')}`);
+  }
+};
+
+/**
+ * Garante nome único por distribuidora
+ */
+const assertUniqueName = async (
+  name: string,
+  distributorCnpj: string | null,
+  excludeId?: string
+): Promise<void> => {
+  const existing = await prisma.validationMappingTemplate.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      distributorCnpj,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new Error(ERROR_MESSAGES.DUPLICATE_NAME);
+  }
+};
+
+// ==================== SERVIÇOS PRINCIPAIS ====================
+
+/**
+ * Lista templates (sistema + persistidos), opcionalmente filtrando por distribuidora
+ */
+export const listMappingTemplates = async (
+  filters: MappingTemplateFilters = {}
+): Promise<MappingTemplate[]> => {
+  const distributorCnpj = filters.distributorCnpj ? normalizeCNPJ(filters.distributorCnpj) : undefined;
+
+  const where: Prisma.ValidationMappingTemplateWhereInput = {};
+
+  if (distributorCnpj) {
+    // Templates da distribuidora e templates genéricos (sem distribuidora)
+    where.OR = [{ distributorCnpj }, { distributorCnpj: null }];
+  }
+
+  if (filters.search) {
+    where.AND = [{
+      OR: [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { distributorName: { contains: filters.search, mode: 'insensitive' } },
+      ],
+    }];
+  }
+
+  const records = await prisma.validationMappingTemplate.findMany({
+    where,
+    orderBy: [{ isDefault: 'desc' }, { usageCount: 'desc' }, { name: 'asc' }],
+  });
+
+  const systemTemplates = SYSTEM_TEMPLATES
+    .filter(template => !filters.search || template.name.toLowerCase().includes(filters.search.toLowerCase()))
+    .map(toSystemTemplate);
+
+  return [...records.map(toMappingTemplate), ...systemTemplates];
+};
+
+/**
+ * Busca template por ID (inclui templates do sistema)
+ */
+export const getMappingTemplateById = async (id: string): Promise<MappingTemplate | null> => {
+  const systemTemplate = SYSTEM_TEMPLATES.find(template => template.id === id);
+  if (systemTemplate) return toSystemTemplate(systemTemplate);
+
+  const record = await prisma.validationMappingTemplate.findUnique({ where: { id } });
+
+  return record ? toMappingTemplate(record) : null;
+};
+
+/**
+ * Cria template de mapeamento
+ */
+export const createMappingTemplate = async (
+  data: SaveMappingTemplateData,
+  createdById: string
+): Promise<MappingTemplate> => {
+  assertValidMappings(data.mappings);
+
+  const distributorCnpj = data.distributorCnpj ? normalizeCNPJ(data.distributorCnpj) : null;
+  await assertUniqueName(data.name, distributorCnpj);
+
+  const template = await prisma.$transaction(async (tx) => {
+    // Apenas um template padrão por distribuidora
+    if (data.isDefault) {
+      await tx.validationMappingTemplate.updateMany({
+        where: { distributorCnpj, isDefault: true },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.validationMappingTemplate.create({
+      data: {
+        name: data.name.trim(),
+        description: data.description,
+        distributorName: data.distributorName,
+        distributorCnpj,
+        mappings: data.mappings as unknown as Prisma.InputJsonValue,
+        isDefault: data.isDefault,
+        createdById,
+      },
+    });
+  });
+
+  console.log(`[MAPPING_TEMPLATE_SERVICE] Template criado: ${template.name} (${template.id})`);
+
+  return toMappingTemplate(template);
+};
+
+/**
+ * Atualiza template de mapeamento
+ */
+export const updateMappingTemplate = async (
+  id: string,
+  data: UpdateMappingTemplateData
+): Promise<MappingTemplate> => {
+  if (isSystemTemplateId(id)) {
+    throw new Error(ERROR_MESSAGES.SYSTEM_TEMPLATE_READONLY);
+  }
+
+  const existing = await prisma.validationMappingTemplate.findUnique({ where: { id } });
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.TEMPLATE_NOT_FOUND);
+  }
+
+  if (data.mappings) {
+    assertValidMappings(data.mappings);
+  }
+
+  const distributorCnpj = data.distributorCnpj !== undefined
+    ? (data.distributorCnpj ? normalizeCNPJ(data.distributorCnpj) : null)
+    : existing.distributorCnpj;
+
+  if (data.name !== undefined || distributorCnpj !== existing.distributorCnpj) {
+    await assertUniqueName(data.name ?? existing.name, distributorCnpj, id);
+  }
+
+  const template = await prisma.$transaction(async (tx) => {
+    if (data.isDefault) {
+      await tx.validationMappingTemplate.updateMany({
+        where: { distributorCnpj, isDefault: true, id: { not: id } },
+        data: { isDefault: false },
+      });
+    }
+
+    return tx.validationMappingTemplate.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.distributorName !== undefined && { distributorName: data.distributorName }),
+        ...(data.mappings !== undefined && { mappings: data.mappings as unknown as Prisma.InputJsonValue }),
+        ...(data.isDefault !== undefined && { isDefault: data.isDefault }),
+        distributorCnpj,
+      },
+    });
+  });
+
+  console.log(`[MAPPING_TEMPLATE_SERVICE] Template atualizado: ${template.name} (${id})`);
+
+  return toMappingTemplate(template);
+};
+
+/**
+ * Exclui template de mapeamento
+ */
+export const deleteMappingTemplate = async (id: string): Promise<void> => {
+  if (isSystemTemplateId(id)) {
+    throw new Error(ERROR_MESSAGES.SYSTEM_TEMPLATE_READONLY);
+  }
+
+  const existing = await prisma.validationMappingTemplate.findUnique({
+    where: { id },
+    select: { id: true, name: true },
+  });
+
+  if (!existing) {
+    throw new Error(ERROR_MESSAGES.TEMPLATE_NOT_FOUND);
+  }
+
+  await prisma.validationMappingTemplate.delete({ where: { id } });
+
+  console.log(`[MAPPING_TEMPLATE_SERVICE] Template excluído: ${existing.name} (${id})`);
+};
+
+/**
+ * Registra uso do template em um upload
+ */
+export const registerMappingTemplateUsage = async (id: string): Promise<void> => {
+  if (isSystemTemplateId(id)) return;
+
+  try {
+    await prisma.validationMappingTemplate.updateMany({
+      where: { id },
+      data: {
+        usageCount: { increment: 1 },
+        lastUsedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error('[MAPPING_TEMPLATE_SERVICE] Erro ao registrar uso do template:', error);
+  }
+};
+
+// ==================== SUGESTÃO AUTOMÁTICA ====================
+
+/**
+ * Pontua um template contra os cabeçalhos da planilha.
+ * Considera apenas colunas referenciadas por nome (letras de coluna casam com qualquer arquivo).
+ */
+const scoreTemplate = (
+  template: MappingTemplate,
+  normalizedHeaders: Set<string>
+): MappingTemplateSuggestion | null => {
+  const namedMappings = template.mappings.filter(mapping =>
+    mapping.targetField !== TargetField.IGNORE &&
+    !/^[A-Z]{1,3}$/.test(mapping.sourceColumn.trim())
+  );
+
+  if (namedMappings.length === 0) return null;
+
+  const matchedColumns: string[] = [];
+  const missingColumns: string[] = [];
+
+  namedMappings.forEach(mapping => {
+    if (normalizedHeaders.has(normalizeHeaderText(mapping.sourceColumn))) {
+      matchedColumns.push(mapping.sourceColumn);
+    } else {
+      missingColumns.push(mapping.sourceColumn);
+    }
+  });
+
+  // Template sem as colunas obrigatórias não serve para a planilha
+  const hasRequiredColumns = namedMappings
+    .filter(mapping => TEMPLATE_CONFIG.REQUIRED_FIELDS.includes(mapping.targetField))
+    .every(mapping => matchedColumns.includes(mapping.sourceColumn));
+
+  if (!hasRequiredColumns) return null;
+
+  return {
+    template,
+    score: Math.round((matchedColumns.length / namedMappings.length) * 100) / 100,
+    matchedColumns,
+    missingColumns,
+  };
+};
+
+/**
+ * Sugere o template que melhor corresponde aos cabeçalhos da planilha.
+ * Em caso de empate, prioriza templates da distribuidora informada, depois o padrão e o mais usado.
+ */
+export const suggestMappingTemplate = async (
+  headers: string[],
+  distributorCnpj?: string
+): Promise<MappingTemplateSuggestion | null> => {
+  const normalizedHeaders = new Set(headers.map(header => normalizeHeaderText(header)));
+  const normalizedCnpj = distributorCnpj ? normalizeCNPJ(distributorCnpj) : undefined;
+
+  const templates = await listMappingTemplates({ distributorCnpj: normalizedCnpj });
+
+  const candidates = templates
+    .map(template => scoreTemplate(template, normalizedHeaders))
+    .filter((suggestion): suggestion is MappingTemplateSuggestion =>
+      suggestion !== null && suggestion.score >= TEMPLATE_CONFIG.MIN_SUGGESTION_SCORE
+    );
+
+  if (candidates.length === 0) return null;
+
+  const rank = (suggestion: MappingTemplateSuggestion): number[] => [
+    suggestion.score,
+    normalizedCnpj && suggestion.template.distributorCnpj === normalizedCnpj ? 1 : 0,
+    suggestion.matchedColumns.length,
+    suggestion.template.isDefault ? 1 : 0,
+    suggestion.template.usageCount,
+  ];
+
+  candidates.sort((a, b) => {
+    const rankA = rank(a);
+    const rankB = rank(b);
+    const diffIndex = rankA.findIndex((value, index) => value !== rankB[index]);
+    return diffIndex === -1 ? 0 : rankB[diffIndex] - rankA[diffIndex];
+  });
+
+  return candidates[0];
+};
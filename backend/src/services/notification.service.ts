@@ -0,0 +1,216 @@
+/**
+ * @file notification.service.ts
+ * @version 2.0.0
+ * @description Serviços para notificações dos usuários no sistema EPS Campanhas.
+ * Cria notificações a partir dos eventos do sistema e gerencia leitura/exclusão.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Criação de notificações (individual e em lote) com suporte a transação
+ * - Listagem paginada com filtro de não lidas e contagem de não lidas
+ * - Marcação como lida (individual e todas) e exclusão
+ * - Evento notification.created para push em tempo real
+ */
+
+import { Notification, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient, prismaUtils } from '../../lib/prismaClient';
+import { NotificationFilters, NotificationType } from '../schemas/notification.schema';
+import { publishDomainEvent } from './domainEvents.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Dados para criação de notificação
+ */
+export interface CreateNotificationData {
+  userId: string;
+  title: string;
+  message: string;
+  type?: NotificationType;
+  metadata?: Record<string, any>;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Mensagens de erro
+ */
+const ERROR_MESSAGES = {
+  NOTIFICATION_NOT_FOUND: 'Notificação não encontrada',
+};
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Busca notificação garantindo que pertence ao usuário
+ */
+const findUserNotification = async (
+  notificationId: string,
+  userId: string
+): Promise<Notification> => {
+  const notification = await prisma.notification.findFirst({
+    where: { id: notificationId, userId },
+  });
+
+  // Notificações de outros usuários são tratadas como inexistentes
+  if (!notification) {
+    throw new Error(ERROR_MESSAGES.NOTIFICATION_NOT_FOUND);
+  }
+
+  return notification;
+};
+
+// ==================== CRIAÇÃO ====================
+
+/**
+ * Cria notificação para um usuário.
+ * Falhas são registradas e não interrompem o fluxo que originou a notificação.
+ */
+export const createNotification = async (
+  data: CreateNotificationData,
+  tx?: PrismaTransactionClient
+): Promise<Notification | null> => {
+  try {
+    const client = tx || prisma;
+
+    const notification = await client.notification.create({
+      data: {
+        userId: data.userId,
+        title: data.title,
+        message: data.message,
+        type: data.type || 'info',
+        metadata: data.metadata as Prisma.InputJsonValue | undefined,
+      },
+    });
+
+    // Dentro de transação, o aviso em tempo real fica a cargo de quem faz o commit
+    if (!tx) {
+      publishDomainEvent('notification.created', { userIds: [data.userId] });
+    }
+
+    return notification;
+  } catch (error) {
+    console.error(`[NOTIFICATION_SERVICE] Erro ao criar notificação para ${data.userId}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Cria notificações em lote (ex.: aviso para vários vendedores)
+ */
+export const createNotifications = async (
+  notifications: CreateNotificationData[],
+  tx?: PrismaTransactionClient
+): Promise<number> => {
+  if (notifications.length === 0) return 0;
+
+  try {
+    const client = tx || prisma;
+
+    const result = await client.notification.createMany({
+      data: notifications.map(data => ({
+        userId: data.userId,
+        title: data.title,
+        message: data.message,
+        type: data.type || 'info',
+        metadata: data.metadata as Prisma.InputJsonValue | undefined,
+      })),
+    });
+
+    if (!tx && result.count > 0) {
+      publishDomainEvent('notification.created', {
+        userIds: [...new Set(notifications.map(data => data.userId))],
+      });
+    }
+
+    return result.count;
+  } catch (error) {
+    console.error('[NOTIFICATION_SERVICE] Erro ao criar notificações em lote:', error);
+    return 0;
+  }
+};
+
+// ==================== SERVIÇOS PRINCIPAIS ====================
+
+/**
+ * Lista notificações do usuário com paginação
+ */
+export const listUserNotifications = async (
+  userId: string,
+  filters: NotificationFilters
+) => {
+  const { page, limit, unreadOnly, type } = filters;
+
+  const where: Prisma.NotificationWhereInput = {
+    userId,
+    ...(unreadOnly && { isRead: false }),
+    ...(type && { type }),
+  };
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    prisma.notification.findMany({
+      where,
+      ...prismaUtils.buildPagination(page, limit),
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.notification.count({ where }),
+    getUnreadNotificationCount(userId),
+  ]);
+
+  return prismaUtils.formatPaginatedResult(notifications, total, page, limit, { unreadCount });
+};
+
+/**
+ * Conta notificações não lidas do usuário
+ */
+export const getUnreadNotificationCount = async (userId: string): Promise<number> => {
+  return prisma.notification.count({
+    where: { userId, isRead: false },
+  });
+};
+
+/**
+ * Marca notificação como lida
+ */
+export const markNotificationAsRead = async (
+  notificationId: string,
+  userId: string
+): Promise<Notification> => {
+  const notification = await findUserNotification(notificationId, userId);
+
+  if (notification.isRead) {
+    return notification;
+  }
+
+  return prisma.notification.update({
+    where: { id: notificationId },
+    data: { isRead: true },
+  });
+};
+
+/**
+ * Marca todas as notificações não lidas do usuário como lidas
+ */
+export const markAllNotificationsAsRead = async (userId: string): Promise<number> => {
+  const result = await prisma.notification.updateMany({
+    where: { userId, isRead: false },
+    data: { isRead: true },
+  });
+
+  return result.count;
+};
+
+/**
+ * Exclui notificação do usuário
+ */
+export const deleteNotification = async (
+  notificationId: string,
+  userId: string
+): Promise<void> => {
+  await findUserNotification(notificationId, userId);
+
+  await prisma.notification.delete({
+    where: { id: notificationId },
+  });
+};
@@ -0,0 +1,567 @@
+/**
+ * @file notificationDispatcher.service.ts
+ * @version 2.0.0
+ * @description Converte eventos de negócio em notificações por usuário.
+ * Os textos vêm de templates padrão que podem ser sobrescritos pelos administradores.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Assinantes para validação/rejeição de vendas, conclusão de cartela,
+ *   pagamento de ganhos, estoque baixo de prêmios e ativação de campanhas
+ * - Templates configuráveis com variáveis no formato {{variavel}}
+ * - Avisos de ganho cancelado ou estornado
+ * - Alertas aos administradores sobre orçamento de campanha
+ * - Aviso de pontos a expirar e de pontos expirados
+ * - Acompanhamento de status dos resgates de prêmios
+ * - Estoque baixo identifica a variação do prêmio
+ * - Avisos da lista de desejos: saldo suficiente e prêmio de volta ao estoque
+ */
+
+import { CampaignBudgetAction, EarningStatus, RedemptionStatus, UserRole, UserStatus } from '@prisma/client';
+import { prisma } from '../../lib/prismaClient';
+import {
+  NotificationTemplateKey,
+  NotificationType,
+  UpdateNotificationTemplateData
+} from '../schemas/notification.schema';
+import { formatCurrency } from '../utils/normalizers';
+import { createNotification, createNotifications } from './notification.service';
+import { subscribeDomainEvent } from './domainEvents.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Template de notificação
+ */
+interface NotificationTemplateContent {
+  title: string;
+  message: string;
+  type: NotificationType;
+}
+
+/**
+ * Template com metadados para administração
+ */
+export interface NotificationTemplateView extends NotificationTemplateContent {
+  key: NotificationTemplateKey;
+  description: string;
+  variables: string[];
+  isActive: boolean;
+  isCustomized: boolean;
+  updatedAt: Date | null;
+}
+
+// ==================== TEMPLATES PADRÃO ====================
+
+/**
+ * Templates padrão (usados quando não há personalização no banco)
+ */
+const DEFAULT_TEMPLATES: Record<NotificationTemplateKey, NotificationTemplateContent & {
+  description: string;
+  variables: string[];
+}> = {
+  SUBMISSION_VALIDATED: {
+    title: 'Venda validada! 🎉',
+    message: 'Sua venda {{orderNumber}} na campanha {{campaignTitle}} foi validada e você ganhou {{points}} pontos!',
+    type: 'success',
+    description: 'Vendedor: venda validada',
+    variables: ['orderNumber', 'campaignTitle', 'points'],
+  },
+  SUBMISSION_REJECTED: {
+    title: 'Venda rejeitada',
+    message: 'Sua venda {{orderNumber}} na campanha {{campaignTitle}} foi rejeitada. Motivo: {{reason}}',
+    type: 'error',
+    description: 'Vendedor: venda rejeitada',
+    variables: ['orderNumber', 'campaignTitle', 'reason'],
+  },
+  KIT_COMPLETED_SELLER: {
+    title: 'Cartela completa! 🏆',
+    message: 'Parabéns! Você completou a cartela da campanha {{campaignTitle}}.',
+    type: 'success',
+    description: 'Vendedor: cartela completada',
+    variables: ['campaignTitle', 'sellerName'],
+  },
+  KIT_COMPLETED_MANAGER: {
+    title: 'Cartela completada pela equipe',
+    message: 'Seu vendedor {{sellerName}} completou a cartela da campanha {{campaignTitle}}.',
+    type: 'info',
+    description: 'Gerente: cartela completada por vendedor da equipe',
+    variables: ['campaignTitle', 'sellerName'],
+  },
+  EARNING_PAID: {
+    title: 'Pagamento realizado 💰',
+    message: 'Seu ganho de {{amount}} da campanha {{campaignTitle}} foi pago.',
+    type: 'success',
+    description: 'Vendedor/gerente: ganho pago',
+    variables: ['amount', 'campaignTitle', 'paidAt'],
+  },
+  EARNING_CANCELLED: {
+    title: 'Ganho cancelado',
+    message: 'Seu ganho de {{amount}} da campanha {{campaignTitle}} foi cancelado. Motivo: {{reason}}',
+    type: 'warning',
+    description: 'Vendedor/gerente: ganho pendente cancelado',
+    variables: ['amount', 'campaignTitle', 'reason'],
+  },
+  EARNING_REVERSED: {
+    title: 'Ganho estornado',
+    message: 'O pagamento de {{amount}} da campanha {{campaignTitle}} foi estornado. Motivo: {{reason}}',
+    type: 'error',
+    description: 'Vendedor/gerente: ganho pago estornado',
+    variables: ['amount', 'campaignTitle', 'reason'],
+  },
+  PREMIO_LOW_STOCK: {
+    title: 'Estoque baixo de prêmio',
+    message: 'O prêmio {{premioTitle}} está com apenas {{stock}} unidade(s) em estoque.',
+    type: 'warning',
+    description: 'Administradores: estoque de prêmio abaixo do limite',
+    variables: ['premioTitle', 'stock', 'threshold'],
+  },
+  CAMPAIGN_ACTIVATED: {
+    title: 'Nova campanha disponível',
+    message: 'A campanha "{{campaignTitle}}" está ativa. Participe!',
+    type: 'info',
+    description: 'Vendedores: campanha ativada',
+    variables: ['campaignTitle'],
+  },
+  CAMPAIGN_BUDGET_WARNING: {
+    title: 'Orçamento de campanha próximo do limite',
+    message: 'A campanha "{{campaignTitle}}" já comprometeu {{utilization}}% do orçamento ({{committedAmount}} de {{budgetTotal}}).',
+    type: 'warning',
+    description: 'Administradores: orçamento da campanha acima do limite de alerta',
+    variables: ['campaignTitle', 'utilization', 'committedAmount', 'budgetTotal'],
+  },
+  CAMPAIGN_BUDGET_EXHAUSTED: {
+    title: 'Orçamento de campanha esgotado',
+    message: 'A campanha "{{campaignTitle}}" atingiu o orçamento de {{budgetTotal}}. {{actionDescription}}',
+    type: 'error',
+    description: 'Administradores: orçamento da campanha esgotado',
+    variables: ['campaignTitle', 'committedAmount', 'budgetTotal', 'actionDescription'],
+  },
+  POINTS_EXPIRING: {
+    title: 'Seus pontos vão expirar',
+    message: '{{points}} pontos expiram em {{expiresAt}}. Resgate um prêmio antes do vencimento!',
+    type: 'warning',
+    description: 'Usuário: pontos próximos do vencimento',
+    variables: ['points', 'expiresAt'],
+  },
+  POINTS_EXPIRED: {
+    title: 'Pontos expirados',
+    message: '{{points}} pontos expiraram por falta de uso.',
+    type: 'info',
+    description: 'Usuário: pontos expirados',
+    variables: ['points'],
+  },
+  REDEMPTION_APPROVED: {
+    title: 'Resgate aprovado',
+    message: 'Seu resgate de {{premioTitle}} foi aprovado e está sendo separado para envio.',
+    type: 'premio',
+    description: 'Usuário: resgate de prêmio aprovado',
+    variables: ['premioTitle'],
+  },
+  REDEMPTION_SHIPPED: {
+    title: 'Prêmio enviado',
+    message: 'Seu prêmio {{premioTitle}} foi enviado. Código de rastreio: {{trackingCode}}',
+    type: 'premio',
+    description: 'Usuário: prêmio resgatado enviado',
+    variables: ['premioTitle', 'trackingCode', 'carrier'],
+  },
+  REDEMPTION_DELIVERED: {
+    title: 'Prêmio entregue',
+    message: 'A entrega de {{premioTitle}} foi confirmada. Aproveite!',
+    type: 'success',
+    description: 'Usuário: prêmio resgatado entregue',
+    variables: ['premioTitle'],
+  },
+  REDEMPTION_CANCELLED: {
+    title: 'Resgate cancelado',
+    message: 'O resgate de {{premioTitle}} foi cancelado e os pontos devolvidos. Motivo: {{reason}}',
+    type: 'warning',
+    description: 'Usuário: resgate de prêmio cancelado',
+    variables: ['premioTitle', 'reason'],
+  },
+  WISHLIST_AFFORDABLE: {
+    title: 'Você já pode resgatar! 🎁',
+    message: 'Seu saldo alcançou os {{points}} pontos de {{premioTitle}}, da sua lista de desejos.',
+    type: 'premio',
+    description: 'Vendedor: saldo suficiente para prêmio da lista de desejos',
+    variables: ['premioTitle', 'points'],
+  },
+  WISHLIST_BACK_IN_STOCK: {
+    title: 'Prêmio de volta ao estoque',
+    message: '{{premioTitle}}, da sua lista de desejos, voltou ao estoque.',
+    type: 'premio',
+    description: 'Vendedor: prêmio da lista de desejos voltou ao estoque',
+    variables: ['premioTitle'],
+  },
+};
+
+/**
+ * Template enviado ao usuário em cada mudança de status do resgate
+ */
+const REDEMPTION_STATUS_TEMPLATES: Partial<Record<RedemptionStatus, NotificationTemplateKey>> = {
+  APROVADO: 'REDEMPTION_APPROVED',
+  ENVIADO: 'REDEMPTION_SHIPPED',
+  ENTREGUE: 'REDEMPTION_DELIVERED',
+  CANCELADO: 'REDEMPTION_CANCELLED',
+};
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Substitui variáveis {{nome}} pelos valores informados
+ */
+const renderTemplate = (text: string, variables: Record<string, string | number>): string => {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    variables[name] !== undefined ? String(variables[name]) : match
+  );
+};
+
+/**
+ * Obtém template vigente (personalizado ou padrão). Retorna null se desativado.
+ */
+const resolveTemplate = async (key: NotificationTemplateKey): Promise<NotificationTemplateContent | null> => {
+  const fallback = DEFAULT_TEMPLATES[key];
+
+  try {
+    const custom = await prisma.notificationTemplate.findUnique({ where: { key } });
+
+    if (custom) {
+      if (!custom.isActive) return null;
+
+      return {
+        title: custom.title,
+        message: custom.message,
+        type: (custom.type as NotificationType) || fallback.type,
+      };
+    }
+  } catch (error) {
+    console.error(`[NOTIFICATION_DISPATCHER] Erro ao carregar template ${key}, usando padrão:`, error);
+  }
+
+  return fallback;
+};
+
+/**
+ * Monta os dados da notificação a partir do template
+ */
+const buildNotification = async (
+  key: NotificationTemplateKey,
+  variables: Record<string, string | number>
+): Promise<NotificationTemplateContent | null> => {
+  const template = await resolveTemplate(key);
+  if (!template) return null;
+
+  return {
+    title: renderTemplate(template.title, variables),
+    message: renderTemplate(template.message, variables),
+    type: template.type,
+  };
+};
+
+/**
+ * Notifica um usuário usando o template informado
+ */
+const notifyUser = async (
+  userId: string,
+  key: NotificationTemplateKey,
+  variables: Record<string, string | number>,
+  metadata: Record<string, any>
+): Promise<void> => {
+  const content = await buildNotification(key, variables);
+  if (!content) return;
+
+  await createNotification({ userId, ...content, metadata: { event: key, ...metadata } });
+};
+
+/**
+ * Notifica vários usuários com o mesmo conteúdo
+ */
+const notifyUsers = async (
+  userIds: string[],
+  key: NotificationTemplateKey,
+  variables: Record<string, string | number>,
+  metadata: Record<string, any>
+): Promise<void> => {
+  if (userIds.length === 0) return;
+
+  const content = await buildNotification(key, variables);
+  if (!content) return;
+
+  await createNotifications(
+    userIds.map(userId => ({ userId, ...content, metadata: { event: key, ...metadata } }))
+  );
+};
+
+/**
+ * IDs dos usuários ativos com o perfil informado
+ */
+const getActiveUserIdsByRole = async (role: UserRole): Promise<string[]> => {
+  const users = await prisma.user.findMany({
+    where: { role, status: UserStatus.ACTIVE },
+    select: { id: true },
+  });
+
+  return users.map(user => user.id);
+};
+
+// ==================== ASSINANTES ====================
+
+let subscribersRegistered = false;
+
+/**
+ * Registra os assinantes de eventos que geram notificações (idempotente)
+ */
+export const registerNotificationSubscribers = (): void => {
+  if (subscribersRegistered) return;
+  subscribersRegistered = true;
+
+  subscribeDomainEvent('submission.validated', async (event) => {
+    await notifyUser(event.userId, 'SUBMISSION_VALIDATED', {
+      orderNumber: event.orderNumber,
+      campaignTitle: event.campaignTitle,
+      points: event.pointsAwarded,
+    }, {
+      submissionId: event.submissionId,
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('submission.rejected', async (event) => {
+    await notifyUser(event.userId, 'SUBMISSION_REJECTED', {
+      orderNumber: event.orderNumber,
+      campaignTitle: event.campaignTitle,
+      reason: event.reason || 'não informado',
+    }, {
+      submissionId: event.submissionId,
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('kit.completed', async (event) => {
+    const variables = {
+      campaignTitle: event.campaignTitle,
+      sellerName: event.userName,
+    };
+    const metadata = { kitId: event.kitId, campaignId: event.campaignId };
+
+    await notifyUser(event.userId, 'KIT_COMPLETED_SELLER', variables, metadata);
+
+    if (event.managerId) {
+      await notifyUser(event.managerId, 'KIT_COMPLETED_MANAGER', variables, {
+        ...metadata,
+        sellerId: event.userId,
+      });
+    }
+  });
+
+  subscribeDomainEvent('earning.paid', async (event) => {
+    await notifyUser(event.userId, 'EARNING_PAID', {
+      amount: formatCurrency(event.amount),
+      campaignTitle: event.campaignTitle,
+      paidAt: event.paidAt.toLocaleDateString('pt-BR'),
+    }, {
+      earningId: event.earningId,
+    });
+  });
+
+  subscribeDomainEvent('earning.cancelled', async (event) => {
+    await notifyUser(
+      event.userId,
+      event.status === EarningStatus.ESTORNADO ? 'EARNING_REVERSED' : 'EARNING_CANCELLED',
+      {
+        amount: formatCurrency(event.amount),
+        campaignTitle: event.campaignTitle,
+        reason: event.reason,
+      },
+      {
+        earningId: event.earningId,
+      }
+    );
+  });
+
+  subscribeDomainEvent('premio.low_stock', async (event) => {
+    const adminIds = await getActiveUserIdsByRole(UserRole.ADMIN);
+
+    await notifyUsers(adminIds, 'PREMIO_LOW_STOCK', {
+      premioTitle: event.variantName ? `${event.premioTitle} (${event.variantName})` : event.premioTitle,
+      stock: event.stock,
+      threshold: event.threshold,
+    }, {
+      premioId: event.premioId,
+      ...(event.variantId && { variantId: event.variantId }),
+    });
+  });
+
+  subscribeDomainEvent('premio.redemption_updated', async (event) => {
+    const templateKey = REDEMPTION_STATUS_TEMPLATES[event.status];
+    if (!templateKey) return;
+
+    await notifyUser(event.userId, templateKey, {
+      premioTitle: event.premioTitle,
+      trackingCode: event.trackingCode || '-',
+      carrier: event.carrier || '-',
+      reason: event.reason || '-',
+    }, {
+      redemptionId: event.redemptionId,
+      premioId: event.premioId,
+    });
+  });
+
+  subscribeDomainEvent('premio.wishlist_affordable', async (event) => {
+    await notifyUser(event.userId, 'WISHLIST_AFFORDABLE', {
+      premioTitle: event.premioTitle,
+      points: event.pointsRequired,
+    }, {
+      premioId: event.premioId,
+    });
+  });
+
+  subscribeDomainEvent('premio.wishlist_back_in_stock', async (event) => {
+    await notifyUser(event.userId, 'WISHLIST_BACK_IN_STOCK', {
+      premioTitle: event.premioTitle,
+    }, {
+      premioId: event.premioId,
+    });
+  });
+
+  subscribeDomainEvent('campaign.activated', async (event) => {
+    const sellerIds = await getActiveUserIdsByRole(UserRole.VENDEDOR);
+
+    await notifyUsers(sellerIds, 'CAMPAIGN_ACTIVATED', {
+      campaignTitle: event.campaignTitle,
+    }, {
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('campaign.budget_warning', async (event) => {
+    const adminIds = await getActiveUserIdsByRole(UserRole.ADMIN);
+
+    await notifyUsers(adminIds, 'CAMPAIGN_BUDGET_WARNING', {
+      campaignTitle: event.campaignTitle,
+      utilization: event.utilization,
+      committedAmount: formatCurrency(event.committedAmount),
+      budgetTotal: formatCurrency(event.budgetTotal),
+    }, {
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('campaign.budget_exhausted', async (event) => {
+    const adminIds = await getActiveUserIdsByRole(UserRole.ADMIN);
+
+    await notifyUsers(adminIds, 'CAMPAIGN_BUDGET_EXHAUSTED', {
+      campaignTitle: event.campaignTitle,
+      committedAmount: formatCurrency(event.committedAmount),
+      budgetTotal: formatCurrency(event.budgetTotal),
+      actionDescription: event.action === CampaignBudgetAction.QUEUE_FOR_APPROVAL
+        ? 'Novos prêmios aguardam aprovação.'
+        : 'Novos prêmios estão suspensos.',
+    }, {
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('points.expiring', async (event) => {
+    await notifyUser(event.userId, 'POINTS_EXPIRING', {
+      points: event.points,
+      expiresAt: event.expiresAt.toLocaleDateString('pt-BR'),
+    }, {
+      expiresAt: event.expiresAt.toISOString(),
+    });
+  });
+
+  subscribeDomainEvent('points.expired', async (event) => {
+    await notifyUser(event.userId, 'POINTS_EXPIRED', {
+      points: event.points,
+    }, {});
+  });
+
+  console.log('[NOTIFICATION_DISPATCHER] Assinantes de notificações registrados');
+};
+
+// ==================== ADMINISTRAÇÃO DE TEMPLATES ====================
+
+/**
+ * Lista templates com o conteúdo vigente
+ */
+export const listNotificationTemplates = async (): Promise<NotificationTemplateView[]> => {
+  const customTemplates = await prisma.notificationTemplate.findMany();
+  const customByKey = new Map(customTemplates.map(template => [template.key, template]));
+
+  return (Object.keys(DEFAULT_TEMPLATES) as NotificationTemplateKey[]).map(key => {
+    const fallback = DEFAULT_TEMPLATES[key];
+    const custom = customByKey.get(key);
+
+    return {
+      key,
+      description: fallback.description,
+      variables: fallback.variables,
+      title: custom?.title ?? fallback.title,
+      message: custom?.message ?? fallback.message,
+      type: (custom?.type as NotificationType) ?? fallback.type,
+      isActive: custom?.isActive ?? true,
+      isCustomized: !!custom,
+      updatedAt: custom?.updatedAt ?? null,
+    };
+  });
+};
+
+/**
+ * Personaliza template de notificação
+ */
+export const updateNotificationTemplate = async (
+  key: NotificationTemplateKey,
+  data: UpdateNotificationTemplateData,
+  adminId: string
+): Promise<NotificationTemplateView> => {
+  const fallback = DEFAULT_TEMPLATES[key];
+
+  if (!fallback) {
+    throw new Error('Template de notificação não encontrado');
+  }
+
+  // Variáveis desconhecidas ficariam literais na notificação
+  const usedVariables = [data.title, data.message]
+    .filter((text): text is string => !!text)
+    .flatMap(text => Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g), match => match[1]));
+  const unknownVariables = usedVariables.filter(variable => !fallback.variables.includes(variable));
+
+  if (unknownVariables.length > 0) {
+    throw new Error(`Variáveis inválidas no template: ${[...new Set(unknownVariables)].join(', ')}`);
+  }
+
+  await prisma.notificationTemplate.upsert({
+    where: { key },
+    create: {
+      key,
+      title: data.title ?? fallback.title,
+      message: data.message ?? fallback.message,
+      type: data.type ?? fallback.type,
+      isActive: data.isActive ?? true,
+      updatedById: adminId,
+    },
+    update: {
+      ...(data.title !== undefined && { title: data.title }),
+      ...(data.message !== undefined && { message: data.message }),
+      ...(data.type !== undefined && { type: data.type }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+      updatedById: adminId,
+    },
+  });
+
+  console.log(`[NOTIFICATION_DISPATCHER] Template ${key} atualizado por ${adminId}`);
+
+  const templates = await listNotificationTemplates();
+  return templates.find(template => template.key === key)!;
+};
+
+/**
+ * Restaura template padrão
+ */
+export const resetNotificationTemplate = async (key: NotificationTemplateKey): Promise<void> => {
+  await prisma.notificationTemplate.deleteMany({ where: { key } });
+
+  console.log(`[NOTIFICATION_DISPATCHER] Template ${key} restaurado para o padrão`);
+};
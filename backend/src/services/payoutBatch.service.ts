@@ -0,0 +1,500 @@
+/**
+ * @file payoutBatch.service.ts
+ * @version 2.0.0
+ * @description Lotes de pagamento PIX dos earnings do sistema EPS Campanhas.
+ * O lote agrupa earnings pendentes por usuário, usa a chave PIX cadastrada no perfil e
+ * gera arquivo CSV ou de remessa (largura fixa) para o banco. Enquanto o lote está aberto
+ * os earnings ficam reservados; na confirmação todos são marcados como PAGO de uma vez.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Geração de lote agrupado por usuário com chave PIX
+ * - Arquivos CSV e de remessa em largura fixa
+ * - Confirmação (registro de pagamento único) e cancelamento do lote
+ * - Retenções calculadas na geração: o PIX de cada favorecido é pelo valor líquido
+ * - Totais do lote somados em centavos (utils/money)
+ */
+
+import { randomUUID } from 'crypto';
+import { EarningStatus, PayoutBatchStatus, PixKeyType, Prisma } from '@prisma/client';
+import { prisma, prismaUtils } from '../../lib/prismaClient';
+import {
+  ConfirmPayoutBatchData,
+  CreatePayoutBatchData,
+  PayoutBatchFileQuery,
+  PayoutBatchFilters
+} from '../schemas/earning.schema';
+import { subtractMoney, sumMoney, toCents } from '../utils/money';
+import { removeNonNumeric } from '../utils/normalizers';
+import { publishEarningPaidEvents, recordEarningPayment } from './earningPayment.service';
+import { calculateWithholding, saveWithholding } from './withholding.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Usuário deixado de fora do lote (ex.: sem chave PIX)
+ */
+export interface PayoutBatchSkippedUser {
+  userId: string;
+  userName: string;
+  earningCount: number;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Arquivo gerado para download
+ */
+export interface PayoutBatchFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const PAYOUT_CONFIG = {
+  MAX_EARNINGS_PER_BATCH: 1000,
+  PAYER_NAME: process.env.PAYOUT_PAYER_NAME || 'EPS CAMPANHAS',
+  PAYER_DOCUMENT: removeNonNumeric(process.env.PAYOUT_PAYER_DOCUMENT || ''),
+  // Registros de 240 posições, como nos layouts CNAB bancários
+  RECORD_LENGTH: 240,
+};
+
+/**
+ * Código numérico do tipo de chave no arquivo de remessa
+ */
+const PIX_KEY_TYPE_CODES: Record<PixKeyType, string> = {
+  CPF: '01',
+  CNPJ: '02',
+  EMAIL: '03',
+  TELEFONE: '04',
+  ALEATORIA: '05',
+};
+
+const batchDetailInclude = {
+  items: {
+    orderBy: { userName: 'asc' as const },
+  },
+  earnings: {
+    select: {
+      id: true,
+      userId: true,
+      campaignTitle: true,
+      amount: true,
+      withheldAmount: true,
+      netAmount: true,
+      status: true,
+      earningDate: true,
+    },
+    orderBy: { earningDate: 'asc' as const },
+  },
+} satisfies Prisma.PayoutBatchInclude;
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Código legível do lote (ex.: PIX-20251021-3F9A2C1B)
+ */
+const generateBatchCode = (): string => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `PIX-${date}-${randomUUID().replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+};
+
+/**
+ * Campo alfanumérico: sem acentos, alinhado à esquerda e completado com espaços.
+ * Mantém pontuação (e-mail, telefone +55 e chave aleatória dependem dela).
+ */
+const alphaField = (value: string, length: number, uppercase = true): string => {
+  const clean = (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, ' ');
+  return (uppercase ? clean.toUpperCase() : clean).slice(0, length).padEnd(length, ' ');
+};
+
+/**
+ * Campo numérico: só dígitos, alinhado à direita e completado com zeros
+ */
+const numericField = (value: string | number, length: number): string => {
+  const digits = removeNonNumeric(String(value));
+
+  if (digits.length > length) {
+    throw new Error(`Valor excede o tamanho do campo no arquivo de remessa (${length} posições)`);
+  }
+
+  return digits.padStart(length, '0');
+};
+
+/**
+ * Data/hora no formato AAAAMMDDHHMMSS
+ */
+const compactDateTime = (date: Date): string => date.toISOString().slice(0, 19).replace(/\D/g, '');
+
+/**
+ * Escapa campo CSV (separador ;)
+ */
+const csvField = (value: string): string => {
+  return /[;"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// ==================== GERAÇÃO DO LOTE ====================
+
+/**
+ * Gera lote de pagamento PIX com os earnings pendentes selecionados.
+ * Usuários sem chave PIX ficam de fora e são devolvidos em skipped.
+ * As retenções são calculadas aqui e gravadas nos earnings reservados: o PIX sai pelo líquido.
+ */
+export const createPayoutBatch = async (data: CreatePayoutBatchData, createdById?: string) => {
+  const result = await prisma.$transaction(async (tx) => {
+    const where: Prisma.EarningWhereInput = {
+      status: EarningStatus.PENDENTE,
+      payoutBatchId: null,
+      ...(data.earningIds && { id: { in: data.earningIds } }),
+      ...(data.userIds && { userId: { in: data.userIds } }),
+      ...(data.campaignId && { campaignId: data.campaignId }),
+      ...(data.earnedBefore && { earningDate: { lte: new Date(data.earnedBefore) } }),
+    };
+
+    const earnings = await tx.earning.findMany({
+      where,
+      select: {
+        id: true,
+        userId: true,
+        amount: true,
+        user: { select: { name: true, cpf: true, pixKeyType: true, pixKey: true } },
+      },
+      orderBy: { earningDate: 'asc' },
+      take: PAYOUT_CONFIG.MAX_EARNINGS_PER_BATCH + 1,
+    });
+
+    if (data.earningIds && earnings.length !== data.earningIds.length) {
+      throw new Error('Todos os earnings do lote devem existir, estar pendentes e fora de outro lote');
+    }
+
+    if (earnings.length === 0) {
+      throw new Error('Nenhum earning pendente disponível para o lote');
+    }
+
+    if (earnings.length > PAYOUT_CONFIG.MAX_EARNINGS_PER_BATCH) {
+      throw new Error(`Máximo de ${PAYOUT_CONFIG.MAX_EARNINGS_PER_BATCH} earnings por lote: refine os filtros`);
+    }
+
+    const withholdings = await calculateWithholding(tx, earnings);
+
+    // Agrupa por usuário
+    const groups = new Map<string, {
+      user: (typeof earnings)[number]['user'];
+      earningIds: string[];
+      amount: number;
+      withheldAmount: number;
+    }>();
+
+    for (const earning of earnings) {
+      const group = groups.get(earning.userId) || { user: earning.user, earningIds: [], amount: 0, withheldAmount: 0 };
+      group.earningIds.push(earning.id);
+      group.amount = sumMoney([group.amount, earning.amount]);
+      group.withheldAmount = sumMoney([group.withheldAmount, withholdings.get(earning.id)?.withheldAmount]);
+      groups.set(earning.userId, group);
+    }
+
+    const skipped: PayoutBatchSkippedUser[] = [];
+    const items: Prisma.PayoutBatchItemCreateWithoutBatchInput[] = [];
+    const includedEarningIds: string[] = [];
+
+    for (const [userId, group] of groups) {
+      if (!group.user.pixKeyType || !group.user.pixKey) {
+        skipped.push({
+          userId,
+          userName: group.user.name,
+          earningCount: group.earningIds.length,
+          amount: group.amount,
+          reason: 'Sem chave PIX cadastrada',
+        });
+        continue;
+      }
+
+      const netAmount = subtractMoney(group.amount, group.withheldAmount);
+
+      if (netAmount <= 0) {
+        skipped.push({
+          userId,
+          userName: group.user.name,
+          earningCount: group.earningIds.length,
+          amount: group.amount,
+          reason: 'Valor líquido zerado pelas retenções',
+        });
+        continue;
+      }
+
+      items.push({
+        userId,
+        userName: group.user.name,
+        userCpf: group.user.cpf,
+        pixKeyType: group.user.pixKeyType,
+        pixKey: group.user.pixKey,
+        amount: netAmount,
+        grossAmount: group.amount,
+        withheldAmount: group.withheldAmount,
+        earningCount: group.earningIds.length,
+      });
+      includedEarningIds.push(...group.earningIds);
+    }
+
+    if (items.length === 0) {
+      throw new Error('Nenhum usuário selecionado possui chave PIX cadastrada');
+    }
+
+    const batch = await tx.payoutBatch.create({
+      data: {
+        code: generateBatchCode(),
+        totalAmount: sumMoney(items.map(item => item.amount)),
+        itemCount: items.length,
+        earningCount: includedEarningIds.length,
+        notes: data.notes,
+        createdById,
+        items: { create: items },
+      },
+    });
+
+    // Reserva condicional: earning pago ou incluído em outro lote no meio do caminho não passa
+    const { count } = await tx.earning.updateMany({
+      where: { id: { in: includedEarningIds }, status: EarningStatus.PENDENTE, payoutBatchId: null },
+      data: { payoutBatchId: batch.id },
+    });
+
+    if (count !== includedEarningIds.length) {
+      throw new Error('Earnings alterados durante a geração do lote. Tente novamente');
+    }
+
+    await saveWithholding(tx, Array.from(withholdings.values()).filter(item => includedEarningIds.includes(item.earningId)));
+
+    return {
+      batch: await tx.payoutBatch.findUniqueOrThrow({ where: { id: batch.id }, include: batchDetailInclude }),
+      skipped,
+    };
+  });
+
+  console.log(`[PAYOUT_BATCH_SERVICE] Lote ${result.batch.code} gerado: ${result.batch.itemCount} favorecido(s), ${result.batch.earningCount} earning(s), total ${result.batch.totalAmount}`);
+
+  return result;
+};
+
+// ==================== CONSULTAS ====================
+
+/**
+ * Busca lote com favorecidos e earnings
+ */
+export const getPayoutBatchById = async (batchId: string) => {
+  return prisma.payoutBatch.findUnique({
+    where: { id: batchId },
+    include: batchDetailInclude,
+  });
+};
+
+/**
+ * Lista lotes de pagamento
+ */
+export const listPayoutBatches = async (filters: PayoutBatchFilters) => {
+  const where: Prisma.PayoutBatchWhereInput = {
+    ...(filters.status && { status: filters.status }),
+  };
+
+  const [batches, total] = await Promise.all([
+    prisma.payoutBatch.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      ...prismaUtils.buildPagination(filters.page, filters.limit),
+    }),
+    prisma.payoutBatch.count({ where }),
+  ]);
+
+  return prismaUtils.formatPaginatedResult(batches, total, filters.page, filters.limit);
+};
+
+// ==================== ARQUIVOS ====================
+
+/**
+ * Gera arquivo do lote para envio ao banco
+ */
+export const generatePayoutBatchFile = async (
+  batchId: string,
+  format: PayoutBatchFileQuery['format']
+): Promise<PayoutBatchFile> => {
+  const batch = await prisma.payoutBatch.findUnique({
+    where: { id: batchId },
+    include: { items: { orderBy: { userName: 'asc' } } },
+  });
+
+  if (!batch) {
+    throw new Error('Lote de pagamento não encontrado');
+  }
+
+  if (batch.status === PayoutBatchStatus.CANCELADO) {
+    throw new Error('Lote de pagamento cancelado não pode ser exportado');
+  }
+
+  if (format === 'remessa') {
+    const lines: string[] = [];
+    const recordLength = PAYOUT_CONFIG.RECORD_LENGTH;
+
+    // Header (tipo 0)
+    lines.push((
+      '0' +
+      numericField(1, 6) +
+      alphaField('PIXPAGTO', 8) +
+      alphaField(batch.code, 25) +
+      compactDateTime(batch.createdAt) +
+      alphaField(PAYOUT_CONFIG.PAYER_NAME, 40) +
+      numericField(PAYOUT_CONFIG.PAYER_DOCUMENT, 14) +
+      numericField(1, 3)
+    ).padEnd(recordLength, ' '));
+
+    // Detalhes (tipo 1): um por favorecido
+    batch.items.forEach((item, index) => {
+      lines.push((
+        '1' +
+        numericField(index + 2, 6) +
+        PIX_KEY_TYPE_CODES[item.pixKeyType] +
+        alphaField(item.pixKey, 77, false) +
+        alphaField(item.userName, 40) +
+        numericField(item.userCpf, 14) +
+        numericField(toCents(item.amount), 15) +
+        numericField(item.earningCount, 5) +
+        alphaField(item.id, 25, false)
+      ).padEnd(recordLength, ' '));
+    });
+
+    // Trailer (tipo 9)
+    lines.push((
+      '9' +
+      numericField(batch.items.length + 2, 6) +
+      numericField(batch.items.length, 6) +
+      numericField(toCents(batch.totalAmount), 18)
+    ).padEnd(recordLength, ' '));
+
+    return {
+      filename: `${batch.code}.rem`,
+      contentType: 'text/plain; charset=us-ascii',
+      content: Buffer.from(lines.join('\r\n') + '\r\n', 'ascii'),
+    };
+  }
+
+  const header = ['lote', 'sequencia', 'favorecido', 'cpf', 'tipo_chave', 'chave_pix', 'valor', 'quantidade_earnings'];
+  const rows = batch.items.map((item, index) => [
+    batch.code,
+    String(index + 1),
+    item.userName,
+    item.userCpf,
+    item.pixKeyType,
+    item.pixKey,
+    item.amount.toFixed(2).replace('.', ','),
+    String(item.earningCount),
+  ]);
+
+  const csv = [header, ...rows].map(row => row.map(csvField).join(';')).join('\r\n');
+
+  return {
+    filename: `${batch.code}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    // BOM para o Excel reconhecer UTF-8
+    content: Buffer.from('\uFEFF' + csv + '\r\n', 'utf8'),
+  };
+};
+
+// ==================== CONFIRMAÇÃO E CANCELAMENTO ====================
+
+/**
+ * Confirma lote pago pelo banco: todos os earnings viram PAGO num único registro de pagamento PIX
+ */
+export const confirmPayoutBatch = async (
+  batchId: string,
+  data: ConfirmPayoutBatchData,
+  confirmedById?: string
+) => {
+  const { batch, payment } = await prisma.$transaction(async (tx) => {
+    const batch = await tx.payoutBatch.findUnique({
+      where: { id: batchId },
+      include: { earnings: { select: { id: true } } },
+    });
+
+    if (!batch) {
+      throw new Error('Lote de pagamento não encontrado');
+    }
+
+    if (batch.status !== PayoutBatchStatus.GERADO) {
+      throw new Error(`Lote de pagamento já ${batch.status === PayoutBatchStatus.CONFIRMADO ? 'confirmado' : 'cancelado'}`);
+    }
+
+    if (batch.earnings.length === 0) {
+      throw new Error('Lote de pagamento sem earnings');
+    }
+
+    // Transição condicional: confirmação concorrente não passa
+    const { count } = await tx.payoutBatch.updateMany({
+      where: { id: batchId, status: PayoutBatchStatus.GERADO },
+      data: { status: PayoutBatchStatus.CONFIRMADO, confirmedAt: new Date(), confirmedById },
+    });
+
+    if (count !== 1) {
+      throw new Error('Lote de pagamento já processado');
+    }
+
+    const payment = await recordEarningPayment(tx, {
+      earningIds: batch.earnings.map(earning => earning.id),
+      paymentMethod: 'pix',
+      paymentDate: data.paymentDate || new Date().toISOString(),
+      paymentReference: data.paymentReference || batch.code,
+      paymentNotes: data.paymentNotes || `Lote PIX ${batch.code}`,
+    }, confirmedById, batch.id);
+
+    const confirmed = await tx.payoutBatch.update({
+      where: { id: batchId },
+      data: { paymentId: payment.id },
+      include: batchDetailInclude,
+    });
+
+    return { batch: confirmed, payment };
+  });
+
+  publishEarningPaidEvents(payment);
+
+  console.log(`[PAYOUT_BATCH_SERVICE] Lote ${batch.code} confirmado: ${payment.earnings.length} earning(s) pagos (pagamento ${payment.id})`);
+
+  return batch;
+};
+
+/**
+ * Cancela lote ainda não confirmado, liberando os earnings reservados
+ */
+export const cancelPayoutBatch = async (batchId: string) => {
+  const batch = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.payoutBatch.updateMany({
+      where: { id: batchId, status: PayoutBatchStatus.GERADO },
+      data: { status: PayoutBatchStatus.CANCELADO, cancelledAt: new Date() },
+    });
+
+    if (count !== 1) {
+      const existing = await tx.payoutBatch.findUnique({ where: { id: batchId }, select: { status: true } });
+
+      if (!existing) {
+        throw new Error('Lote de pagamento não encontrado');
+      }
+
+      throw new Error(`Lote de pagamento já ${existing.status === PayoutBatchStatus.CONFIRMADO ? 'confirmado' : 'cancelado'}`);
+    }
+
+    // Retenções são recalculadas no próximo lote ou pagamento
+    await tx.earning.updateMany({
+      where: { payoutBatchId: batchId, status: EarningStatus.PENDENTE },
+      data: { payoutBatchId: null, withheldAmount: null, netAmount: null, withholdingDetails: Prisma.DbNull },
+    });
+
+    return tx.payoutBatch.findUniqueOrThrow({ where: { id: batchId }, include: batchDetailInclude });
+  });
+
+  console.log(`[PAYOUT_BATCH_SERVICE] Lote ${batch.code} cancelado`);
+
+  return batch;
+};
@@ -0,0 +1,112 @@
+/**
+ * @file pointExpiryScheduler.service.ts
+ * @version 2.0.0
+ * @description Job agendado em processo para a validade dos pontos.
+ * A cada execução baixa os lotes vencidos (publicando no feed de atividades) e envia os
+ * avisos de pontos a expirar, sem depender de cron externo.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Execução periódica com proteção contra execuções sobrepostas
+ * - Conversão do saldo anterior em lotes na inicialização
+ * - Saldo de abertura do extrato de pontos na inicialização
+ */
+
+import {
+  backfillLegacyPointLots,
+  expireDuePointLots,
+  sendPointsExpiryWarnings
+} from './pointLot.service';
+import { backfillOpeningBalances } from './pointLedger.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações do job de expiração
+ */
+const SCHEDULER_CONFIG = {
+  INTERVAL_MS: parseInt(process.env.POINTS_EXPIRY_JOB_INTERVAL_MS || '3600000'),
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+// ==================== ESTADO DO JOB ====================
+
+let intervalTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// ==================== EXECUÇÃO ====================
+
+/**
+ * Executa expiração e avisos uma vez (ignorado se já houver execução em andamento)
+ */
+export const runPointsExpiryJob = async (): Promise<void> => {
+  if (currentRun) return currentRun;
+
+  currentRun = (async () => {
+    try {
+      const now = new Date();
+      await expireDuePointLots(now);
+      await sendPointsExpiryWarnings(now);
+    } catch (error) {
+      console.error('[POINT_EXPIRY_SCHEDULER] Erro na execução do job:', error);
+    } finally {
+      currentRun = null;
+    }
+  })();
+
+  return currentRun;
+};
+
+// ==================== API DO JOB ====================
+
+/**
+ * Inicia o job: converte saldos anteriores e agenda as execuções
+ */
+export const startPointExpiryScheduler = async (): Promise<void> => {
+  if (intervalTimer) return;
+
+  try {
+    const opened = await backfillOpeningBalances();
+    if (opened > 0) {
+      console.log(`[POINT_EXPIRY_SCHEDULER] Saldo de abertura do extrato registrado para ${opened} usuário(s)`);
+    }
+
+    const converted = await backfillLegacyPointLots();
+    if (converted > 0) {
+      console.log(`[POINT_EXPIRY_SCHEDULER] Saldo anterior convertido em lotes para ${converted} usuário(s)`);
+    }
+  } catch (error) {
+    console.error('[POINT_EXPIRY_SCHEDULER] Falha ao converter saldos anteriores:', error);
+  }
+
+  intervalTimer = setInterval(() => void runPointsExpiryJob(), SCHEDULER_CONFIG.INTERVAL_MS);
+  void runPointsExpiryJob();
+
+  console.log(`[POINT_EXPIRY_SCHEDULER] Job iniciado (a cada ${SCHEDULER_CONFIG.INTERVAL_MS}ms)`);
+};
+
+/**
+ * Para o job aguardando a execução em andamento
+ */
+export const stopPointExpiryScheduler = async (): Promise<void> => {
+  if (intervalTimer) {
+    clearInterval(intervalTimer);
+    intervalTimer = null;
+  }
+
+  if (currentRun) {
+    let shutdownTimer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      shutdownTimer = setTimeout(resolve, SCHEDULER_CONFIG.SHUTDOWN_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([currentRun, timeout]);
+    } finally {
+      clearTimeout(shutdownTimer);
+    }
+  }
+
+  console.log('[POINT_EXPIRY_SCHEDULER] Job parado');
+};
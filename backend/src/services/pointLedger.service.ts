@@ -0,0 +1,269 @@
+/**
+ * @file pointLedger.service.ts
+ * @version 2.0.0
+ * @description Extrato imutável de pontos do sistema EPS Campanhas.
+ * Todo crédito ou débito de pontos gera um lançamento com tipo, origem, valor com sinal,
+ * saldo após o lançamento e autor. User.points é um cache do somatório do extrato e pode
+ * ser recalculado e conciliado a qualquer momento.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Lançamentos gravados na transação de quem altera o saldo
+ * - Saldo de abertura para usuários com pontos anteriores ao extrato
+ * - Extrato paginado do usuário
+ * - Recálculo e conciliação de User.points com o extrato e os lotes
+ * - Lançamento de estorno de resgate
+ */
+
+import { PointTransaction, PointTransactionSource, PointTransactionType, Prisma } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { PointStatementFilters } from '../schemas/user.schema';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Lançamento a registrar (amount positivo credita, negativo debita)
+ */
+export interface PointTransactionInput {
+  userId: string;
+  type: PointTransactionType;
+  amount: number;
+  sourceType?: PointTransactionSource | null;
+  sourceId?: string | null;
+  description?: string | null;
+  actorId?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Resultado da conciliação de um usuário
+ */
+export interface PointsReconciliation {
+  userId: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  lotBalance: number;
+  difference: number;
+  corrected: boolean;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Rótulos dos tipos de lançamento
+ */
+export const POINT_TRANSACTION_TYPE_LABELS: Record<PointTransactionType, string> = {
+  OPENING_BALANCE: 'Saldo de abertura',
+  KIT_COMPLETION: 'Venda validada',
+  RULE_BONUS: 'Bônus de regra',
+  MANUAL_ADJUSTMENT: 'Ajuste manual',
+  REDEMPTION: 'Resgate de prêmio',
+  EARNING_REVERSAL: 'Estorno de venda',
+  EXPIRATION: 'Pontos expirados',
+  REDEMPTION_REFUND: 'Estorno de resgate',
+};
+
+// ==================== REGISTRO ====================
+
+/**
+ * Registra o saldo de abertura de quem já tinha pontos antes do extrato, para que o
+ * somatório dos lançamentos feche com User.points. Chame dentro da transação.
+ */
+export const ensureOpeningBalance = async (
+  tx: PrismaTransactionClient,
+  userId: string
+): Promise<void> => {
+  const existing = await tx.pointTransaction.findFirst({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (existing) return;
+
+  const user = await tx.user.findUnique({ where: { id: userId }, select: { points: true } });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  if (user.points === 0) return;
+
+  await tx.pointTransaction.create({
+    data: {
+      userId,
+      type: PointTransactionType.OPENING_BALANCE,
+      amount: user.points,
+      balanceAfter: user.points,
+      description: 'Saldo anterior ao extrato de pontos',
+    },
+  });
+};
+
+/**
+ * Aplica um lançamento: atualiza o cache User.points e grava o saldo após o lançamento.
+ * Deve ser o único caminho de alteração de pontos; chame dentro da transação.
+ */
+export const recordPointTransaction = async (
+  tx: PrismaTransactionClient,
+  input: PointTransactionInput
+): Promise<PointTransaction | null> => {
+  const amount = Math.round(input.amount);
+  if (amount === 0) return null;
+
+  await ensureOpeningBalance(tx, input.userId);
+
+  // O update trava a linha do usuário: lançamentos concorrentes são serializados
+  const user = await tx.user.update({
+    where: { id: input.userId },
+    data: { points: { increment: amount } },
+    select: { points: true },
+  });
+
+  const actor = input.actorId
+    ? await tx.user.findUnique({ where: { id: input.actorId }, select: { name: true } })
+    : null;
+
+  return tx.pointTransaction.create({
+    data: {
+      userId: input.userId,
+      type: input.type,
+      amount,
+      balanceAfter: user.points,
+      sourceType: input.sourceType ?? null,
+      sourceId: input.sourceId ?? null,
+      description: input.description ?? null,
+      actorId: input.actorId ?? null,
+      actorName: actor?.name ?? null,
+      metadata: input.metadata,
+    },
+  });
+};
+
+/**
+ * Registra o saldo de abertura de todos os usuários com pontos e sem extrato
+ */
+export const backfillOpeningBalances = async (): Promise<number> => {
+  const users = await prisma.user.findMany({
+    where: { points: { not: 0 }, pointTransactions: { none: {} } },
+    select: { id: true },
+  });
+
+  for (const user of users) {
+    await prisma.$transaction(tx => ensureOpeningBalance(tx, user.id));
+  }
+
+  return users.length;
+};
+
+// ==================== CONSULTAS ====================
+
+/**
+ * Extrato de pontos do usuário, do lançamento mais recente para o mais antigo
+ */
+export const getUserPointStatement = async (userId: string, filters: PointStatementFilters) => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, points: true } });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  const where: Prisma.PointTransactionWhereInput = {
+    userId,
+    ...(filters.type && filters.type !== 'all' && { type: filters.type }),
+    ...((filters.startDate || filters.endDate) && {
+      createdAt: {
+        ...(filters.startDate && { gte: new Date(filters.startDate) }),
+        ...(filters.endDate && { lte: new Date(filters.endDate) }),
+      },
+    }),
+  };
+
+  const [transactions, total] = await Promise.all([
+    prisma.pointTransaction.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.pointTransaction.count({ where }),
+  ]);
+
+  return {
+    balance: user.points,
+    data: transactions.map(transaction => ({
+      ...transaction,
+      typeLabel: POINT_TRANSACTION_TYPE_LABELS[transaction.type],
+    })),
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      total,
+      totalPages: Math.ceil(total / filters.limit),
+      hasNext: filters.page * filters.limit < total,
+      hasPrev: filters.page > 1,
+    },
+  };
+};
+
+// ==================== CONCILIAÇÃO ====================
+
+/**
+ * Saldo do usuário recalculado a partir do extrato
+ */
+export const calculateLedgerBalance = async (
+  userId: string,
+  client: PrismaTransactionClient = prisma
+): Promise<number> => {
+  const result = await client.pointTransaction.aggregate({
+    where: { userId },
+    _sum: { amount: true },
+  });
+
+  return result._sum.amount || 0;
+};
+
+/**
+ * Compara User.points com o extrato e com os lotes ativos. Com apply, o cache é
+ * corrigido para o saldo do extrato (a fonte da verdade).
+ */
+export const reconcileUserPoints = async (
+  userId: string,
+  apply: boolean = false
+): Promise<PointsReconciliation> => {
+  return prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({ where: { id: userId }, select: { points: true } });
+
+    if (!user) {
+      throw new Error('Usuário não encontrado');
+    }
+
+    // Sem extrato ainda: o saldo atual vira a abertura
+    await ensureOpeningBalance(tx, userId);
+
+    const [ledgerBalance, lots] = await Promise.all([
+      calculateLedgerBalance(userId, tx),
+      tx.pointLot.aggregate({
+        where: { userId, expiredAt: null },
+        _sum: { remainingPoints: true },
+      }),
+    ]);
+
+    const difference = user.points - ledgerBalance;
+    const corrected = apply && difference !== 0;
+
+    if (corrected) {
+      await tx.user.update({ where: { id: userId }, data: { points: ledgerBalance } });
+      console.log(`[POINT_LEDGER_SERVICE] Saldo do usuário ${userId} corrigido: ${user.points} → ${ledgerBalance}`);
+    }
+
+    return {
+      userId,
+      cachedBalance: user.points,
+      ledgerBalance,
+      lotBalance: lots._sum.remainingPoints || 0,
+      difference,
+      corrected,
+    };
+  });
+};
@@ -0,0 +1,730 @@
+/**
+ * @file pointLot.service.ts
+ * @version 2.0.0
+ * @description Lotes de pontos com validade do sistema EPS Campanhas.
+ * Cada crédito de pontos (venda validada, bônus de regra ou ajuste manual) vira um lote datado
+ * que expira após a janela configurada. Resgates e débitos consomem os lotes mais antigos
+ * primeiro (FIFO). Toda alteração de saldo é lançada no extrato (pointLedger.service).
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Crédito em lotes datados e consumo FIFO
+ * - Conversão do saldo anterior ao controle de validade em lote próprio
+ * - Expiração de lotes vencidos com registro no feed de atividades
+ * - Aviso de pontos a expirar com antecedência configurável
+ * - Extrato de lotes do usuário e passivo de pontos em aberto
+ * - Créditos, débitos e expirações lançados no extrato de pontos
+ * - Devolução de pontos de resgate cancelado aos lotes de origem
+ */
+
+import {
+  ActivityType,
+  PointLot,
+  PointLotSource,
+  PointTransactionSource,
+  PointTransactionType,
+  Prisma
+} from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { publishDomainEvent } from './domainEvents.service';
+import { recordPointTransaction } from './pointLedger.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Política de validade dos pontos (VALIDITY_MONTHS = 0 desativa a expiração)
+ */
+export const POINTS_EXPIRY_CONFIG = {
+  VALIDITY_MONTHS: parseInt(process.env.POINTS_VALIDITY_MONTHS || '12'),
+  WARNING_DAYS: parseInt(process.env.POINTS_EXPIRY_WARNING_DAYS || '30'),
+  BATCH_SIZE: 200,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rótulos das origens de lote
+ */
+export const POINT_LOT_SOURCE_LABELS: Record<PointLotSource, string> = {
+  KIT_COMPLETION: 'Venda validada',
+  RULE_BONUS: 'Bônus de regra',
+  MANUAL_ADJUSTMENT: 'Ajuste manual',
+  LEGACY_BALANCE: 'Saldo anterior',
+  REDEMPTION_REFUND: 'Estorno de resgate',
+};
+
+/**
+ * Tipo do lançamento no extrato para cada origem de lote
+ */
+const LOT_SOURCE_TRANSACTION_TYPES: Record<PointLotSource, PointTransactionType> = {
+  KIT_COMPLETION: PointTransactionType.KIT_COMPLETION,
+  RULE_BONUS: PointTransactionType.RULE_BONUS,
+  MANUAL_ADJUSTMENT: PointTransactionType.MANUAL_ADJUSTMENT,
+  LEGACY_BALANCE: PointTransactionType.OPENING_BALANCE,
+  REDEMPTION_REFUND: PointTransactionType.REDEMPTION_REFUND,
+};
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Crédito de pontos
+ */
+export interface GrantPointsInput {
+  userId: string;
+  points: number;
+  source: PointLotSource;
+  earningId?: string;
+  description?: string;
+  createdById?: string | null;
+  earnedAt?: Date;
+}
+
+/**
+ * Lançamento do débito no extrato
+ */
+export interface PointsDebitEntry {
+  type: PointTransactionType;
+  sourceType?: PointTransactionSource;
+  sourceId?: string;
+  description?: string;
+  actorId?: string | null;
+}
+
+/**
+ * Opções de débito
+ */
+export interface ConsumePointsOptions {
+  // Debita o que houver, sem erro por saldo insuficiente (estornos e ajustes)
+  allowPartial?: boolean;
+  // Lotes deste earning são consumidos antes dos demais
+  earningId?: string;
+}
+
+/**
+ * Extrato de lotes do usuário
+ */
+export interface UserPointLotsSummary {
+  userId: string;
+  balance: number;
+  availablePoints: number;
+  expiringPoints: number;
+  nextExpiry: Date | null;
+  validityMonths: number;
+  warningDays: number;
+  lots: Array<PointLot & { sourceLabel: string }>;
+}
+
+/**
+ * Passivo de pontos em aberto
+ */
+export interface PointsLiability {
+  generatedAt: Date;
+  outstandingPoints: number;
+  usersWithBalance: number;
+  withoutExpiry: number;
+  expiredPoints: number;
+  bySource: Array<{ source: PointLotSource; label: string; points: number }>;
+  byExpiryMonth: Array<{ month: string; points: number }>;
+}
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Data de validade de um lote creditado na data informada (null = não expira)
+ */
+export const calculatePointsExpiry = (earnedAt: Date): Date | null => {
+  if (POINTS_EXPIRY_CONFIG.VALIDITY_MONTHS <= 0) return null;
+
+  const expiresAt = new Date(earnedAt);
+  expiresAt.setUTCMonth(expiresAt.getUTCMonth() + POINTS_EXPIRY_CONFIG.VALIDITY_MONTHS);
+  return expiresAt;
+};
+
+/**
+ * Lotes ainda não baixados pela expiração (inclui vencidos aguardando o job)
+ */
+const openLotsWhere = (userId: string): Prisma.PointLotWhereInput => ({
+  userId,
+  expiredAt: null,
+  remainingPoints: { gt: 0 },
+});
+
+/**
+ * Lotes que podem ser consumidos agora
+ */
+const consumableLotsWhere = (userId: string, now: Date): Prisma.PointLotWhereInput => ({
+  ...openLotsWhere(userId),
+  OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+});
+
+// ==================== CRÉDITO E DÉBITO ====================
+
+/**
+ * Converte em lote o saldo de User.points que não está coberto por lotes
+ * (pontos creditados antes do controle de validade). Chame dentro da transação.
+ */
+export const reconcileLegacyBalance = async (
+  tx: PrismaTransactionClient,
+  userId: string
+): Promise<void> => {
+  // Trava o usuário antes de comparar saldo e lotes: um débito concorrente não pode
+  // cair entre as duas leituras, nem duas conversões criarem o mesmo lote
+  await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+  const [user, lots] = await Promise.all([
+    tx.user.findUnique({ where: { id: userId }, select: { points: true } }),
+    tx.pointLot.aggregate({
+      where: openLotsWhere(userId),
+      _sum: { remainingPoints: true },
+    }),
+  ]);
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  const uncovered = user.points - (lots._sum.remainingPoints || 0);
+  if (uncovered <= 0) return;
+
+  const earnedAt = new Date();
+  await tx.pointLot.create({
+    data: {
+      userId,
+      source: PointLotSource.LEGACY_BALANCE,
+      points: uncovered,
+      remainingPoints: uncovered,
+      earnedAt,
+      expiresAt: calculatePointsExpiry(earnedAt),
+      description: 'Saldo anterior ao controle de validade',
+    },
+  });
+
+  console.log(`[POINT_LOT_SERVICE] Saldo anterior convertido em lote: ${uncovered} pontos (usuário ${userId})`);
+};
+
+/**
+ * Credita pontos em um novo lote e atualiza o saldo do usuário
+ */
+export const grantPoints = async (
+  tx: PrismaTransactionClient,
+  input: GrantPointsInput
+): Promise<PointLot | null> => {
+  const points = Math.round(input.points);
+  if (points <= 0) return null;
+
+  await reconcileLegacyBalance(tx, input.userId);
+
+  const earnedAt = input.earnedAt || new Date();
+  const lot = await tx.pointLot.create({
+    data: {
+      userId: input.userId,
+      source: input.source,
+      points,
+      remainingPoints: points,
+      earnedAt,
+      expiresAt: calculatePointsExpiry(earnedAt),
+      earningId: input.earningId,
+      description: input.description,
+      createdById: input.createdById,
+    },
+  });
+
+  await recordPointTransaction(tx, {
+    userId: input.userId,
+    type: LOT_SOURCE_TRANSACTION_TYPES[input.source],
+    amount: points,
+    sourceType: input.earningId ? PointTransactionSource.EARNING : null,
+    sourceId: input.earningId,
+    description: input.description,
+    actorId: input.createdById,
+    metadata: { lotId: lot.id, expiresAt: lot.expiresAt?.toISOString() ?? null },
+  });
+
+  return lot;
+};
+
+/**
+ * Debita pontos consumindo os lotes que vencem primeiro (FIFO) e atualiza o saldo do usuário.
+ * Lotes vencidos não são consumidos, mesmo antes de o job de expiração baixá-los.
+ * @returns Pontos efetivamente debitados
+ */
+export const consumePoints = async (
+  tx: PrismaTransactionClient,
+  userId: string,
+  points: number,
+  entry: PointsDebitEntry,
+  options: ConsumePointsOptions = {}
+): Promise<number> => {
+  const requested = Math.round(points);
+  if (requested <= 0) return 0;
+
+  await reconcileLegacyBalance(tx, userId);
+
+  const lots = await tx.pointLot.findMany({
+    where: consumableLotsWhere(userId, new Date()),
+    orderBy: [
+      { expiresAt: { sort: 'asc', nulls: 'last' } },
+      { earnedAt: 'asc' },
+      { id: 'asc' },
+    ],
+  });
+
+  // Estorno de earning: primeiro os pontos do próprio earning
+  if (options.earningId) {
+    lots.sort((a, b) => Number(b.earningId === options.earningId) - Number(a.earningId === options.earningId));
+  }
+
+  const available = lots.reduce((sum, lot) => sum + lot.remainingPoints, 0);
+  if (available < requested && !options.allowPartial) {
+    throw new Error('Pontos insuficientes');
+  }
+
+  let pending = Math.min(requested, available);
+  const consumed = pending;
+  const consumedLots: Array<{ lotId: string; points: number }> = [];
+
+  for (const lot of lots) {
+    if (pending <= 0) break;
+
+    const take = Math.min(lot.remainingPoints, pending);
+
+    // Débito condicional: consumo concorrente do mesmo lote não passa
+    const { count } = await tx.pointLot.updateMany({
+      where: { id: lot.id, expiredAt: null, remainingPoints: { gte: take } },
+      data: { remainingPoints: { decrement: take } },
+    });
+
+    if (count !== 1) {
+      throw new Error('Saldo de pontos alterado durante a operação; tente novamente');
+    }
+
+    consumedLots.push({ lotId: lot.id, points: take });
+    pending -= take;
+  }
+
+  // Lotes consumidos ficam no lançamento para comprovar a origem dos pontos debitados
+  await recordPointTransaction(tx, {
+    userId,
+    type: entry.type,
+    amount: -consumed,
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    description: entry.description,
+    actorId: entry.actorId,
+    metadata: { lots: consumedLots },
+  });
+
+  return consumed;
+};
+
+/**
+ * Debita os pontos de um earning cancelado ou estornado (o que restar do lote dele e, se já
+ * foram usados, dos demais lotes). Nunca deixa o saldo negativo.
+ * @returns Pontos efetivamente debitados
+ */
+export const revokeEarningPoints = async (
+  tx: PrismaTransactionClient,
+  earningId: string,
+  userId: string,
+  points: number,
+  actorId?: string | null
+): Promise<number> => {
+  return consumePoints(
+    tx,
+    userId,
+    points,
+    {
+      type: PointTransactionType.EARNING_REVERSAL,
+      sourceType: PointTransactionSource.EARNING,
+      sourceId: earningId,
+      description: 'Pontos da venda cancelada ou estornada',
+      actorId,
+    },
+    { allowPartial: true, earningId }
+  );
+};
+
+/**
+ * Ajusta o saldo para o valor informado: credita um lote pela diferença ou debita FIFO
+ * @returns Novo saldo
+ */
+export const setPointsBalance = async (
+  tx: PrismaTransactionClient,
+  userId: string,
+  target: number,
+  adjustment: { description?: string; createdById?: string | null }
+): Promise<number> => {
+  const user = await tx.user.findUnique({ where: { id: userId }, select: { points: true } });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  const difference = Math.max(0, Math.round(target)) - user.points;
+
+  if (difference > 0) {
+    await grantPoints(tx, {
+      userId,
+      points: difference,
+      source: PointLotSource.MANUAL_ADJUSTMENT,
+      description: adjustment.description,
+      createdById: adjustment.createdById,
+    });
+  } else if (difference < 0) {
+    await consumePoints(
+      tx,
+      userId,
+      -difference,
+      {
+        type: PointTransactionType.MANUAL_ADJUSTMENT,
+        description: adjustment.description,
+        actorId: adjustment.createdById,
+      },
+      { allowPartial: true }
+    );
+  }
+
+  const updated = await tx.user.findUniqueOrThrow({ where: { id: userId }, select: { points: true } });
+  return updated.points;
+};
+
+/**
+ * Devolve os pontos de um débito (ex.: resgate cancelado) aos lotes de onde saíram, mantendo a
+ * validade original. Lotes já baixados pela expiração não são reabertos: essa parte, e o que
+ * não constar no extrato (débitos anteriores a ele), volta em um lote novo de estorno.
+ * Idempotente por origem. Chame dentro da transação.
+ * @returns Pontos devolvidos
+ */
+export const refundConsumedPoints = async (
+  tx: PrismaTransactionClient,
+  userId: string,
+  points: number,
+  origin: { sourceType: PointTransactionSource; sourceId: string },
+  entry: { description?: string; actorId?: string | null }
+): Promise<number> => {
+  const total = Math.round(points);
+  if (total <= 0) return 0;
+
+  const [debits, refunded] = await Promise.all([
+    tx.pointTransaction.findMany({
+      where: { userId, sourceType: origin.sourceType, sourceId: origin.sourceId, amount: { lt: 0 } },
+      select: { metadata: true },
+    }),
+    tx.pointTransaction.findFirst({
+      where: {
+        userId,
+        type: PointTransactionType.REDEMPTION_REFUND,
+        sourceType: origin.sourceType,
+        sourceId: origin.sourceId,
+      },
+      select: { id: true },
+    }),
+  ]);
+
+  if (refunded) return 0;
+
+  await reconcileLegacyBalance(tx, userId);
+
+  const consumedLots = debits.flatMap(debit => {
+    const metadata = debit.metadata as { lots?: Array<{ lotId: string; points: number }> } | null;
+    return metadata?.lots || [];
+  });
+
+  const restored: Array<{ lotId: string; points: number }> = [];
+  let pending = total;
+
+  for (const consumed of consumedLots) {
+    if (pending <= 0) break;
+
+    const back = Math.min(consumed.points, pending);
+    const { count } = await tx.pointLot.updateMany({
+      where: { id: consumed.lotId, userId, expiredAt: null },
+      data: { remainingPoints: { increment: back } },
+    });
+
+    if (count === 1) {
+      restored.push({ lotId: consumed.lotId, points: back });
+      pending -= back;
+    }
+  }
+
+  let reissuedLotId: string | null = null;
+  if (pending > 0) {
+    const earnedAt = new Date();
+    const lot = await tx.pointLot.create({
+      data: {
+        userId,
+        source: PointLotSource.REDEMPTION_REFUND,
+        points: pending,
+        remainingPoints: pending,
+        earnedAt,
+        expiresAt: calculatePointsExpiry(earnedAt),
+        description: entry.description,
+        createdById: entry.actorId,
+      },
+    });
+    reissuedLotId = lot.id;
+  }
+
+  await recordPointTransaction(tx, {
+    userId,
+    type: PointTransactionType.REDEMPTION_REFUND,
+    amount: total,
+    sourceType: origin.sourceType,
+    sourceId: origin.sourceId,
+    description: entry.description,
+    actorId: entry.actorId,
+    metadata: { lots: restored, reissuedLotId },
+  });
+
+  return total;
+};
+
+// ==================== EXPIRAÇÃO ====================
+
+/**
+ * Converte em lote o saldo anterior de todos os usuários (executado na partida do job)
+ */
+export const backfillLegacyPointLots = async (): Promise<number> => {
+  const [users, coverage] = await Promise.all([
+    prisma.user.findMany({ where: { points: { gt: 0 } }, select: { id: true, points: true } }),
+    prisma.pointLot.groupBy({
+      by: ['userId'],
+      where: { expiredAt: null, remainingPoints: { gt: 0 } },
+      _sum: { remainingPoints: true },
+    }),
+  ]);
+
+  const covered = new Map(coverage.map(row => [row.userId, row._sum.remainingPoints || 0]));
+  const pending = users.filter(user => user.points > (covered.get(user.id) || 0));
+
+  for (const user of pending) {
+    await prisma.$transaction(tx => reconcileLegacyBalance(tx, user.id));
+  }
+
+  return pending.length;
+};
+
+/**
+ * Baixa os lotes vencidos de um usuário em uma transação
+ * @returns Pontos expirados
+ */
+const expireUserDueLots = (userId: string, now: Date): Promise<number> =>
+  prisma.$transaction(async (tx) => {
+    const lots = await tx.pointLot.findMany({
+      where: { userId, expiredAt: null, expiresAt: { lte: now } },
+      select: { id: true, remainingPoints: true, earnedAt: true },
+    });
+
+    let total = 0;
+    for (const lot of lots) {
+      // Atualização condicional: consumo concorrente do lote não se perde
+      const { count } = await tx.pointLot.updateMany({
+        where: { id: lot.id, expiredAt: null, remainingPoints: lot.remainingPoints },
+        data: { expiredAt: now, expiredPoints: lot.remainingPoints, remainingPoints: 0 },
+      });
+
+      if (count !== 1) {
+        throw new Error('Saldo de pontos alterado durante a expiração; tente novamente');
+      }
+
+      total += lot.remainingPoints;
+    }
+
+    if (total > 0) {
+      await recordPointTransaction(tx, {
+        userId,
+        type: PointTransactionType.EXPIRATION,
+        amount: -total,
+        sourceType: PointTransactionSource.POINT_LOT,
+        sourceId: lots.length === 1 ? lots[0].id : null,
+        description: `${total} pontos expiraram`,
+        metadata: { lotIds: lots.map(lot => lot.id) },
+      });
+
+      await tx.activityItem.create({
+        data: {
+          userId,
+          type: ActivityType.PONTOS_EXPIRADOS,
+          description: `${total} pontos expiraram`,
+          points: -total,
+          timestamp: now,
+          metadata: {
+            lotIds: lots.map(lot => lot.id),
+            earnedFrom: lots.reduce((min, lot) => (lot.earnedAt < min ? lot.earnedAt : min), lots[0].earnedAt).toISOString(),
+          },
+        },
+      });
+    }
+
+    return total;
+  });
+
+/**
+ * Baixa os lotes vencidos: zera o saldo do lote, debita o usuário e publica no feed de atividades.
+ * Falha em um usuário (lote alterado durante a baixa) não interrompe os demais; ele volta na próxima execução.
+ */
+export const expireDuePointLots = async (now: Date = new Date()): Promise<{ users: number; points: number }> => {
+  let users = 0;
+  let points = 0;
+  const skipped: string[] = [];
+
+  while (true) {
+    const due = await prisma.pointLot.findMany({
+      where: { expiredAt: null, expiresAt: { lte: now }, userId: { notIn: skipped } },
+      select: { userId: true },
+      distinct: ['userId'],
+      take: POINTS_EXPIRY_CONFIG.BATCH_SIZE,
+    });
+
+    if (due.length === 0) break;
+
+    for (const { userId } of due) {
+      let expired: number;
+      try {
+        expired = await expireUserDueLots(userId, now);
+      } catch (error) {
+        console.error(`[POINT_LOT_SERVICE] Erro ao expirar pontos do usuário ${userId}:`, error);
+        skipped.push(userId);
+        continue;
+      }
+
+      if (expired > 0) {
+        users += 1;
+        points += expired;
+        publishDomainEvent('points.expired', { userId, points: expired });
+      }
+    }
+  }
+
+  if (points > 0) {
+    console.log(`[POINT_LOT_SERVICE] ${points} pontos expirados de ${users} usuário(s)`);
+  }
+
+  return { users, points };
+};
+
+/**
+ * Avisa (uma vez por lote) os usuários com pontos que vencem dentro da antecedência configurada
+ */
+export const sendPointsExpiryWarnings = async (now: Date = new Date()): Promise<number> => {
+  if (POINTS_EXPIRY_CONFIG.WARNING_DAYS <= 0) return 0;
+
+  const limit = new Date(now.getTime() + POINTS_EXPIRY_CONFIG.WARNING_DAYS * DAY_MS);
+  const lots = await prisma.pointLot.findMany({
+    where: {
+      expiredAt: null,
+      warningSentAt: null,
+      remainingPoints: { gt: 0 },
+      expiresAt: { gt: now, lte: limit },
+    },
+    select: { id: true, userId: true, remainingPoints: true, expiresAt: true },
+    orderBy: { expiresAt: 'asc' },
+  });
+
+  const byUser = new Map<string, { lotIds: string[]; points: number; expiresAt: Date }>();
+  for (const lot of lots) {
+    const entry = byUser.get(lot.userId) || { lotIds: [], points: 0, expiresAt: lot.expiresAt! };
+    entry.lotIds.push(lot.id);
+    entry.points += lot.remainingPoints;
+    byUser.set(lot.userId, entry);
+  }
+
+  for (const [userId, entry] of byUser) {
+    await prisma.pointLot.updateMany({
+      where: { id: { in: entry.lotIds }, warningSentAt: null },
+      data: { warningSentAt: now },
+    });
+
+    publishDomainEvent('points.expiring', { userId, points: entry.points, expiresAt: entry.expiresAt });
+  }
+
+  if (byUser.size > 0) {
+    console.log(`[POINT_LOT_SERVICE] Aviso de pontos a expirar enviado a ${byUser.size} usuário(s)`);
+  }
+
+  return byUser.size;
+};
+
+// ==================== CONSULTAS ====================
+
+/**
+ * Lotes com saldo do usuário (ordem de consumo) e pontos a expirar
+ */
+export const getUserPointLots = async (userId: string): Promise<UserPointLotsSummary> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true, points: true } });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  const now = new Date();
+  const warningLimit = new Date(now.getTime() + POINTS_EXPIRY_CONFIG.WARNING_DAYS * DAY_MS);
+
+  const lots = await prisma.pointLot.findMany({
+    where: openLotsWhere(userId),
+    orderBy: [
+      { expiresAt: { sort: 'asc', nulls: 'last' } },
+      { earnedAt: 'asc' },
+      { id: 'asc' },
+    ],
+  });
+
+  const available = lots.filter(lot => !lot.expiresAt || lot.expiresAt > now);
+  const expiring = available.filter(lot => lot.expiresAt && lot.expiresAt <= warningLimit);
+
+  return {
+    userId,
+    balance: user.points,
+    availablePoints: available.reduce((sum, lot) => sum + lot.remainingPoints, 0),
+    expiringPoints: expiring.reduce((sum, lot) => sum + lot.remainingPoints, 0),
+    nextExpiry: available.find(lot => lot.expiresAt)?.expiresAt ?? null,
+    validityMonths: POINTS_EXPIRY_CONFIG.VALIDITY_MONTHS,
+    warningDays: POINTS_EXPIRY_CONFIG.WARNING_DAYS,
+    lots: lots.map(lot => ({ ...lot, sourceLabel: POINT_LOT_SOURCE_LABELS[lot.source] })),
+  };
+};
+
+/**
+ * Passivo de pontos em aberto por origem e mês de vencimento
+ */
+export const getPointsLiability = async (): Promise<PointsLiability> => {
+  const where: Prisma.PointLotWhereInput = { expiredAt: null, remainingPoints: { gt: 0 } };
+
+  const [lots, bySource, users, expired] = await Promise.all([
+    prisma.pointLot.findMany({ where, select: { remainingPoints: true, expiresAt: true } }),
+    prisma.pointLot.groupBy({ by: ['source'], where, _sum: { remainingPoints: true } }),
+    prisma.pointLot.findMany({ where, select: { userId: true }, distinct: ['userId'] }),
+    prisma.pointLot.aggregate({ _sum: { expiredPoints: true } }),
+  ]);
+
+  const byMonth = new Map<string, number>();
+  let withoutExpiry = 0;
+
+  for (const lot of lots) {
+    if (!lot.expiresAt) {
+      withoutExpiry += lot.remainingPoints;
+      continue;
+    }
+
+    const month = lot.expiresAt.toISOString().slice(0, 7);
+    byMonth.set(month, (byMonth.get(month) || 0) + lot.remainingPoints);
+  }
+
+  return {
+    generatedAt: new Date(),
+    outstandingPoints: lots.reduce((sum, lot) => sum + lot.remainingPoints, 0),
+    usersWithBalance: users.length,
+    withoutExpiry,
+    expiredPoints: expired._sum.expiredPoints || 0,
+    bySource: bySource.map(row => ({
+      source: row.source,
+      label: POINT_LOT_SOURCE_LABELS[row.source],
+      points: row._sum.remainingPoints || 0,
+    })),
+    byExpiryMonth: Array.from(byMonth.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, points]) => ({ month, points })),
+  };
+};
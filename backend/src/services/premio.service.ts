@@ -6,16 +6,110 @@
  * @date 2023-10-21
  */
 
-import { prisma, prismaUtils } from '../lib/prismaClient';
+import { prisma, prismaUtils } from '../../lib/prismaClient';
+import type { PrismaTransactionClient } from '../../lib/prismaClient';
 import {
   CreatePremioData,
   UpdatePremioData,
   PremioFilters,
   UpdateStockData,
   BulkPremioImportData,
+  RedemptionRequestData,
 } from '../schemas/premio.schema';
-import { createActivity } from './activity.service';
-import { ActivityType } from '@prisma/client';
+import { publishDomainEvent } from './domainEvents.service';
+import { consumePoints } from './pointLot.service';
+import { recordRedemptionTransition } from './premioRedemption.service';
+import { applyEffectivePricing, getEffectivePremio } from './premioPricing.service';
+import {
+  adjustVariantStock,
+  findExistingSkus,
+  getVariantBasePoints,
+  getVariantPoints,
+  priceVariants,
+  sumActiveVariantStock,
+  toVariantCreateInput,
+} from './premioVariant.service';
+import { consumeReservationOrTakeStock, hasActiveReservation } from './premioReservation.service';
+import {
+  ActivityType,
+  PointTransactionSource,
+  PointTransactionType,
+  PremioVariant,
+  RedemptionStatus,
+} from '@prisma/client';
+
+/**
+ * Limite de estoque que dispara o aviso de estoque baixo aos administradores.
+ */
+const LOW_STOCK_THRESHOLD = parseInt(process.env.PREMIO_LOW_STOCK_THRESHOLD || '5') || 5;
+
+/**
+ * Variações ativas do prêmio, na ordem de exibição.
+ */
+const activeVariantsInclude = {
+  variants: {
+    where: { isActive: true },
+    orderBy: [{ sortOrder: 'asc' as const }, { name: 'asc' as const }],
+  },
+};
+
+/**
+ * Registra atividade relacionada a prêmios. Falhas de registro não interrompem a operação.
+ * @param activity - Usuário, tipo, descrição e pontos da atividade.
+ * @param tx - Transação em andamento, para gravar junto com a operação.
+ */
+async function logPremioActivity(
+  activity: { userId: string; type: ActivityType; description: string; points?: number },
+  tx?: PrismaTransactionClient
+) {
+  try {
+    await (tx || prisma).activityItem.create({
+      data: { ...activity, timestamp: new Date() },
+    });
+  } catch (error) {
+    console.error(`[PREMIO_SERVICE] Erro ao registrar atividade: ${error}`);
+  }
+}
+
+/**
+ * Resolve a variação escolhida no resgate. Prêmios com variações exigem a escolha de uma
+ * delas; prêmios sem variações não aceitam variação.
+ * @param variants - Variações ativas do prêmio.
+ * @param variantId - Variação escolhida pelo usuário.
+ * @returns A variação escolhida ou nulo para prêmios sem variações.
+ */
+function resolveRedemptionVariant(variants: PremioVariant[], variantId?: string) {
+  if (variants.length === 0) {
+    if (variantId) throw new Error('Variação não encontrada.');
+    return null;
+  }
+
+  if (!variantId) throw new Error('Selecione uma variação do prêmio.');
+
+  const variant = variants.find((item) => item.id === variantId);
+  if (!variant) throw new Error('Variação não encontrada.');
+
+  return variant;
+}
+
+/**
+ * Campos persistidos do prêmio a partir do payload validado (disponibilidade, tags e
+ * instruções não têm colunas no modelo).
+ * @param premioData - Dados validados do prêmio.
+ * @returns Dados de criação do prêmio.
+ */
+function toPremioCreateInput(premioData: Omit<CreatePremioData, 'variants'>) {
+  return {
+    title: premioData.title,
+    description: premioData.description,
+    imageUrl: premioData.imageUrl ?? '',
+    pointsRequired: premioData.pointsRequired,
+    stock: premioData.stock,
+    category: premioData.category,
+    priority: premioData.priority,
+    isActive: premioData.isActive,
+  };
+}
 
 /**
  * Cria um novo prêmio no catálogo.
@@ -24,12 +118,29 @@ import { ActivityType } from '@prisma/client';
  * @returns O prêmio recém-criado.
  */
 export async function createPremio(premioData: CreatePremioData, adminId: string) {
+  const { variants, ...data } = premioData;
+
+  if (variants?.length) {
+    const existingSkus = await findExistingSkus(variants.map((variant) => variant.sku));
+    if (existingSkus.length > 0) {
+      throw new Error(`SKU já cadastrado: ${existingSkus.join(', ')}`);
+    }
+  }
+
+  // Com variações, o estoque do prêmio é a soma do estoque das variações ativas
   const premio = await prisma.premio.create({
-    data: premioData,
+    data: {
+      ...toPremioCreateInput(data),
+      ...(variants?.length && {
+        stock: sumActiveVariantStock(variants),
+        variants: { create: toVariantCreateInput(variants) },
+      }),
+    },
+    include: { variants: true },
   });
-  await createActivity({
+  await logPremioActivity({
     userId: adminId,
-    type: ActivityType.ADMIN_ACTION,
+    type: ActivityType.ADMIN_PREMIO_UPDATED,
     description: `Criou o prêmio: ${premio.title}`,
   });
   return premio;
@@ -39,7 +150,7 @@ export async function createPremio(premioData: CreatePremioData, adminId: string
  * Lista todos os prêmios com base em filtros, paginação e contexto do usuário.
  * @param filters - Critérios de filtro e paginação.
  * @param userId - ID do usuário para contextualizar a disponibilidade.
- * @returns Uma lista paginada de prêmios.
+ * @returns Uma lista paginada de prêmios, com o preço sazonal vigente aplicado.
  */
 export async function listPremios(filters: PremioFilters, userId: string) {
   const { page = 1, limit = 10, sort = 'createdAt', order = 'desc', search } = filters;
@@ -55,22 +166,29 @@ export async function listPremios(filters: PremioFilters, userId: string) {
   const [premios, total] = await prisma.$transaction([
     prisma.premio.findMany({
       where,
-      ...prismaUtils.getPagination(page, limit),
+      ...prismaUtils.buildPagination(page, limit),
       orderBy: { [sort]: order },
     }),
     prisma.premio.count({ where }),
   ]);
 
-  return prismaUtils.formatPaginatedResult(premios, total, page, limit);
+  return prismaUtils.formatPaginatedResult(await applyEffectivePricing(premios), total, page, limit);
 }
 
 /**
  * Busca um prêmio específico pelo seu ID.
  * @param premioId - ID do prêmio.
- * @returns O prêmio encontrado ou nulo.
+ * @returns O prêmio encontrado, com o preço sazonal vigente e as variações ativas, ou nulo.
  */
 export async function getPremioById(premioId: string) {
-  return prisma.premio.findUnique({ where: { id: premioId } });
+  const premio = await prisma.premio.findUnique({
+    where: { id: premioId },
+    include: activeVariantsInclude,
+  });
+  if (!premio) return null;
+
+  const priced = await getEffectivePremio(premio);
+  return { ...priced, variants: priceVariants(priced, premio.variants) };
 }
 
 /**
@@ -85,13 +203,20 @@ export async function updatePremio(
   premioData: UpdatePremioData,
   adminId: string
 ) {
+  if (premioData.stock !== undefined) {
+    const variantCount = await prisma.premioVariant.count({ where: { premioId } });
+    if (variantCount > 0) {
+      throw new Error('Prêmio com variações: ajuste o estoque de cada variação.');
+    }
+  }
+
   const premio = await prisma.premio.update({
     where: { id: premioId },
     data: premioData,
   });
-  await createActivity({
+  await logPremioActivity({
     userId: adminId,
-    type: ActivityType.ADMIN_ACTION,
+    type: ActivityType.ADMIN_PREMIO_UPDATED,
     description: `Atualizou o prêmio: ${premio.title}`,
   });
   return premio;
@@ -112,62 +237,135 @@ export async function deletePremio(premioId: string, adminId: string) {
   }
 
   const premio = await prisma.premio.delete({ where: { id: premioId } });
-  await createActivity({
+  await logPremioActivity({
     userId: adminId,
-    type: ActivityType.ADMIN_ACTION,
+    type: ActivityType.ADMIN_PREMIO_UPDATED,
     description: `Deletou o prêmio: ${premio.title}`,
   });
 }
 
 /**
  * Executa o resgate de um prêmio para um usuário.
- * A operação é transacional para garantir a consistência dos dados.
+ * A operação é transacional e as baixas de estoque e de pontos são condicionais,
+ * para que resgates simultâneos não vendam além do estoque nem do saldo.
  * @param premioId - ID do prêmio a ser resgatado.
  * @param userId - ID do usuário que está resgatando.
- * @returns O registro do resgate.
+ * @param redemptionData - Variação e reserva de estoque, endereço de entrega e observações.
+ * @returns O registro do resgate, aguardando aprovação na fila de entrega.
  */
-export async function redeemPremio(premioId: string, userId: string) {
-  return prisma.$transaction(async (tx) => {
-    const premio = await tx.premio.findUnique({ where: { id: premioId } });
+export async function redeemPremio(
+  premioId: string,
+  userId: string,
+  redemptionData: RedemptionRequestData = {}
+) {
+  const { redemption, premio, variant } = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+    const basePremio = await tx.premio.findUnique({
+      where: { id: premioId },
+      include: activeVariantsInclude,
+    });
     const user = await tx.user.findUnique({ where: { id: userId } });
 
-    if (!premio) throw new Error('Prêmio não encontrado.');
+    if (!basePremio) throw new Error('Prêmio não encontrado.');
     if (!user) throw new Error('Usuário não encontrado.');
-    if (premio.stock <= 0) throw new Error('Prêmio fora de estoque.');
-    if (user.points < premio.pointsRequired) throw new Error('Pontos insuficientes.');
 
-    // 1. Deduz o estoque do prêmio
-    await tx.premio.update({
-      where: { id: premioId },
-      data: { stock: { decrement: 1 } },
-    });
+    // Preço sazonal vigente no momento do resgate
+    const premio = await getEffectivePremio(basePremio, new Date(), tx);
+
+    // Com variação, preço e estoque são os da variação escolhida
+    const variant = resolveRedemptionVariant(basePremio.variants, redemptionData.variantId);
+    const pointsRequired = variant ? getVariantPoints(premio, variant) : premio.pointsRequired;
+    const basePoints = variant ? getVariantBasePoints(premio, variant) : premio.originalPointsRequired;
+    const itemTitle = variant ? `${premio.title} (${variant.name})` : premio.title;
+
+    // Verificação antecipada; o débito em si é condicional por lote (consumePoints)
+    if (user.points < pointsRequired) throw new Error('Pontos insuficientes.');
 
-    // 2. Deduz os pontos do usuário
-    await tx.user.update({
-      where: { id: userId },
-      data: { points: { decrement: premio.pointsRequired } },
+    // 1. Deduz o estoque: consome a reserva do vendedor ou faz o decremento condicional
+    //    da variação e do prêmio (dois resgates da última unidade não passam os dois)
+    const reservationId = await consumeReservationOrTakeStock(tx, {
+      reservationId: redemptionData.reservationId,
+      premioId,
+      variantId: variant?.id,
+      userId,
     });
 
-    // 3. Cria o registro do resgate
+    const updatedPremio = await tx.premio.findUniqueOrThrow({ where: { id: premioId } });
+    const updatedVariant = variant
+      ? await tx.premioVariant.findUniqueOrThrow({ where: { id: variant.id } })
+      : null;
+
+    // 2. Cria o registro do resgate
     const redemption = await tx.premioRedemption.create({
       data: {
         premioId,
         userId,
-        pointsRedeemed: premio.pointsRequired,
-        status: 'COMPLETED', // Simplificado por enquanto
+        pointsRedeemed: pointsRequired,
+        basePoints,
+        priceWindowId: premio.priceWindow?.id ?? null,
+        variantId: variant?.id ?? null,
+        variantName: variant?.name ?? null,
+        status: RedemptionStatus.SOLICITADO,
+        deliveryAddress: redemptionData.deliveryAddress,
+        notes: redemptionData.notes,
       },
     });
 
+    if (reservationId) {
+      await tx.premioStockReservation.update({
+        where: { id: reservationId },
+        data: { redemptionId: redemption.id },
+      });
+    }
+
+    await recordRedemptionTransition(tx, {
+      redemptionId: redemption.id,
+      fromStatus: null,
+      toStatus: RedemptionStatus.SOLICITADO,
+      note: redemptionData.notes,
+    }, userId);
+
+    // 3. Deduz os pontos do usuário, consumindo primeiro os lotes que vencem antes (FIFO)
+    await consumePoints(tx, userId, pointsRequired, {
+      type: PointTransactionType.REDEMPTION,
+      sourceType: PointTransactionSource.PREMIO_REDEMPTION,
+      sourceId: redemption.id,
+      description: `Resgate do prêmio: ${itemTitle}`,
+      actorId: userId,
+    });
+
     // 4. Cria um registro de atividade
-    await createActivity({
+    await logPremioActivity({
       userId,
       type: ActivityType.PREMIO_RESGATADO,
-      description: `Resgatou o prêmio: ${premio.title}`,
-      points: -premio.pointsRequired,
-    });
+      description: `Resgatou o prêmio: ${itemTitle}`,
+      points: -pointsRequired,
+    }, tx);
+
+    return { redemption, premio: updatedPremio, variant: updatedVariant };
+  });
 
-    return redemption;
+  // Eventos publicados somente após o commit do resgate
+  publishDomainEvent('premio.redeemed', {
+    redemptionId: redemption.id,
+    premioId,
+    premioTitle: premio.title,
+    userId,
+    pointsRedeemed: redemption.pointsRedeemed,
   });
+
+  // Prêmios com variações avisam pelo estoque da variação resgatada
+  const remainingStock = variant ? variant.stock : premio.stock;
+  if (remainingStock <= LOW_STOCK_THRESHOLD) {
+    publishDomainEvent('premio.low_stock', {
+      premioId,
+      premioTitle: premio.title,
+      ...(variant && { variantId: variant.id, variantName: variant.name }),
+      stock: remainingStock,
+      threshold: LOW_STOCK_THRESHOLD,
+    });
+  }
+
+  return redemption;
 }
 
 /**
@@ -179,67 +377,120 @@ export async function getAvailablePremiosForUser(userId: string) {
   const user = await prisma.user.findUnique({ where: { id: userId }, select: { points: true } });
   if (!user) throw new Error('Usuário não encontrado.');
 
-  return prisma.premio.findMany({
+  // O filtro por pontos usa o preço efetivo: descontos sazonais podem liberar prêmios
+  const premios = await prisma.premio.findMany({
     where: {
       isActive: true,
       stock: { gt: 0 },
-      pointsRequired: { lte: user.points },
-    },
-    orderBy: {
-      pointsRequired: 'asc',
     },
   });
+
+  const priced = await applyEffectivePricing(premios);
+
+  return priced
+    .filter((premio) => premio.pointsRequired <= user.points)
+    .sort((a, b) => a.pointsRequired - b.pointsRequired);
 }
 
 /**
  * Verifica se um usuário pode resgatar um prêmio específico.
  * @param premioId - ID do prêmio.
  * @param userId - ID do usuário.
+ * @param variantId - Variação escolhida; sem ela vale a variação em estoque mais barata.
  * @returns Objeto indicando se o resgate é possível e o motivo.
  */
-export async function canUserRedeemPremio(premioId: string, userId: string) {
-  const [premio, user] = await Promise.all([
-    prisma.premio.findUnique({ where: { id: premioId } }),
+export async function canUserRedeemPremio(premioId: string, userId: string, variantId?: string) {
+  const [basePremio, user] = await Promise.all([
+    prisma.premio.findUnique({ where: { id: premioId }, include: activeVariantsInclude }),
     prisma.user.findUnique({ where: { id: userId } }),
   ]);
 
-  if (!premio) return { canRedeem: false, reason: 'Prêmio não encontrado.' };
+  if (!basePremio) return { canRedeem: false, reason: 'Prêmio não encontrado.' };
+  if (!basePremio.isActive) return { canRedeem: false, reason: 'Prêmio indisponível.' };
   if (!user) return { canRedeem: false, reason: 'Usuário não encontrado.' };
-  if (premio.stock <= 0) return { canRedeem: false, reason: 'Fora de estoque.' };
-  if (user.points < premio.pointsRequired)
-    return { canRedeem: false, reason: 'Pontos insuficientes.' };
+
+  const premio = await getEffectivePremio(basePremio);
+  const variants = priceVariants(premio, basePremio.variants);
+  const variant = variantId
+    ? variants.find((item) => item.id === variantId)
+    : variants
+        .filter((item) => item.stock > 0)
+        .sort((a, b) => a.pointsRequired - b.pointsRequired)[0];
+
+  if (variantId && !variant) return { canRedeem: false, reason: 'Variação não encontrada.' };
+
+  const requiredPoints = variant ? variant.pointsRequired : premio.pointsRequired;
+  const stock = variants.length > 0 ? variant?.stock ?? 0 : premio.stock;
+  const details = {
+    userPoints: user.points,
+    requiredPoints,
+    originalPoints: variant ? getVariantBasePoints(premio, variant) : premio.originalPointsRequired,
+    priceWindow: premio.priceWindow,
+    variantId: variant?.id ?? null,
+  };
+
+  // A unidade reservada pelo próprio vendedor já saiu do estoque, mas é dele
+  if (stock <= 0 && !(await hasActiveReservation(premioId, userId, variant?.id))) {
+    return { canRedeem: false, reason: 'Fora de estoque.', details };
+  }
+  if (user.points < requiredPoints)
+    return { canRedeem: false, reason: 'Pontos insuficientes.', details };
 
   return {
     canRedeem: true,
-    details: { userPoints: user.points, requiredPoints: premio.pointsRequired },
+    details,
   };
 }
 
 /**
- * Atualiza o estoque de um prêmio.
+ * Atualiza o estoque de um prêmio. Prêmios com variações têm o estoque ajustado
+ * por variação e o total do prêmio recalculado.
  * @param premioId - ID do prêmio.
- * @param stockData - Dados da atualização de estoque.
+ * @param stockData - Dados da atualização de estoque (com a variação, quando houver).
  * @param adminId - ID do administrador que realiza a operação.
- * @returns O prêmio com o estoque atualizado.
+ * @returns O prêmio com o estoque atualizado e suas variações.
  */
 export async function updatePremioStock(
   premioId: string,
   stockData: UpdateStockData,
   adminId: string
 ) {
-  const { operation, quantity, reason } = stockData;
+  const { operation, quantity, reason, variantId } = stockData;
   const updateOperation =
-    operation === 'add' ? { increment: quantity } : { decrement: quantity };
+    operation === 'set'
+      ? quantity
+      : operation === 'add'
+        ? { increment: quantity }
+        : { decrement: quantity };
+
+  const { premio, variant } = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+    const variantCount = await tx.premioVariant.count({ where: { premioId } });
+
+    let variant: PremioVariant | null = null;
+    if (variantCount > 0) {
+      if (!variantId) throw new Error('Informe a variação para ajustar o estoque deste prêmio.');
+      variant = await adjustVariantStock(tx, premioId, variantId, operation, quantity);
+    } else {
+      if (variantId) throw new Error('Variação não encontrada.');
+      await tx.premio.update({
+        where: { id: premioId },
+        data: { stock: updateOperation },
+      });
+    }
+
+    const premio = await tx.premio.findUniqueOrThrow({
+      where: { id: premioId },
+      include: { variants: { orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }] } },
+    });
 
-  const premio = await prisma.premio.update({
-    where: { id: premioId },
-    data: { stock: updateOperation },
+    return { premio, variant };
   });
 
-  await createActivity({
+  const itemTitle = variant ? `${premio.title} (${variant.name})` : premio.title;
+  await logPremioActivity({
     userId: adminId,
-    type: ActivityType.ADMIN_ACTION,
-    description: `Ajuste de estoque para ${premio.title}: ${operation} ${quantity}. Motivo: ${reason}`,
+    type: ActivityType.ADMIN_PREMIO_UPDATED,
+    description: `Ajuste de estoque para ${itemTitle}: ${operation} ${quantity}. Motivo: ${reason}`,
   });
 
   return premio;
@@ -250,12 +501,18 @@ export async function updatePremioStock(
  * @param premioId - ID do prêmio.
  * @param quantity - Quantidade a ser adicionada.
  * @param adminId - ID do administrador.
+ * @param variantId - Variação reposta (obrigatória para prêmios com variações).
  * @returns O prêmio com o estoque atualizado.
  */
-export async function restockPremio(premioId: string, quantity: number, adminId: string) {
+export async function restockPremio(
+  premioId: string,
+  quantity: number,
+  adminId: string,
+  variantId?: string
+) {
   return updatePremioStock(
     premioId,
-    { operation: 'add', quantity, reason: 'Reposição de estoque' },
+    { operation: 'add', quantity, reason: 'Reposição de estoque', variantId },
     adminId
   );
 }
@@ -265,10 +522,12 @@ export async function restockPremio(premioId: string, quantity: number, adminId:
  * @returns Objeto com as estatísticas.
  */
 export async function getPremioStats() {
+  // Resgates cancelados tiveram pontos e estoque devolvidos
+  const where = { status: { not: RedemptionStatus.CANCELADO } };
   const [totalPremios, totalRedemptions, totalPointsRedeemed] = await prisma.$transaction([
     prisma.premio.count(),
-    prisma.premioRedemption.count(),
-    prisma.premioRedemption.aggregate({ _sum: { pointsRedeemed: true } }),
+    prisma.premioRedemption.count({ where }),
+    prisma.premioRedemption.aggregate({ where, _sum: { pointsRedeemed: true } }),
   ]);
 
   return {
@@ -290,13 +549,13 @@ export async function getPublicCatalog(filters: PremioFilters) {
   const [premios, total] = await prisma.$transaction([
     prisma.premio.findMany({
       where,
-      ...prismaUtils.getPagination(page, limit),
+      ...prismaUtils.buildPagination(page, limit),
       orderBy: { [sort]: order },
     }),
     prisma.premio.count({ where }),
   ]);
 
-  return prismaUtils.formatPaginatedResult(premios, total, page, limit);
+  return prismaUtils.formatPaginatedResult(await applyEffectivePricing(premios), total, page, limit);
 }
 
 /**
@@ -307,6 +566,7 @@ export async function getPublicCatalog(filters: PremioFilters) {
 export async function getPopularPremios(limit: number) {
   const popular = await prisma.premioRedemption.groupBy({
     by: ['premioId'],
+    where: { status: { not: RedemptionStatus.CANCELADO } },
     _count: { premioId: true },
     orderBy: { _count: { premioId: 'desc' } },
     take: limit,
@@ -321,15 +581,21 @@ export async function getPopularPremios(limit: number) {
  * @param userId - ID do usuário.
  * @param page - Página da consulta.
  * @param limit - Limite de itens por página.
- * @returns Histórico paginado de resgates.
+ * @param premioId - Restringe o histórico aos resgates de um prêmio (opcional).
+ * @returns Histórico paginado de resgates, com status de entrega e transições.
  */
-export async function getUserRedemptionHistory(userId: string, page: number, limit: number) {
-  const where = { userId };
+export async function getUserRedemptionHistory(
+  userId: string,
+  page: number,
+  limit: number,
+  premioId?: string
+) {
+  const where = { userId, ...(premioId && { premioId }) };
   const [redemptions, total] = await prisma.$transaction([
     prisma.premioRedemption.findMany({
       where,
-      include: { premio: true },
-      ...prismaUtils.getPagination(page, limit),
+      include: { premio: true, events: { orderBy: { createdAt: 'asc' } } },
+      ...prismaUtils.buildPagination(page, limit),
       orderBy: { createdAt: 'desc' },
     }),
     prisma.premioRedemption.count({ where }),
@@ -340,29 +606,51 @@ export async function getUserRedemptionHistory(userId: string, page: number, lim
 
 /**
  * Lista prêmios com estoque abaixo de um determinado limite.
+ * Prêmios com variações entram pelas variações com estoque baixo, listadas em `variants`.
  * @param threshold - Limite de estoque.
  * @returns Lista de prêmios com baixo estoque.
  */
 export async function getLowStockPremios(threshold: number) {
+  const lowStock = { lte: threshold, gt: 0 };
+
   return prisma.premio.findMany({
-    where: { isActive: true, stock: { lte: threshold, gt: 0 } },
+    where: {
+      isActive: true,
+      OR: [
+        { variants: { none: {} }, stock: lowStock },
+        { variants: { some: { isActive: true, stock: lowStock } } },
+      ],
+    },
+    include: {
+      variants: { where: { isActive: true, stock: lowStock }, orderBy: { stock: 'asc' } },
+    },
     orderBy: { stock: 'asc' },
   });
 }
 
 /**
- * Lista prêmios com estoque esgotado.
- * @returns Lista de prêmios esgotados.
+ * Lista prêmios com estoque esgotado, incluindo os que têm alguma variação esgotada.
+ * @returns Lista de prêmios esgotados, com as variações esgotadas em `variants`.
  */
 export async function getOutOfStockPremios() {
   return prisma.premio.findMany({
-    where: { stock: { lte: 0 } },
+    where: {
+      OR: [
+        { stock: { lte: 0 } },
+        { variants: { some: { isActive: true, stock: { lte: 0 } } } },
+      ],
+    },
+    include: {
+      variants: { where: { isActive: true, stock: { lte: 0 } }, orderBy: { name: 'asc' } },
+    },
     orderBy: { updatedAt: 'desc' },
   });
 }
 
 /**
  * Importa uma lista de prêmios em lote.
+ * Prêmios com variações são criados um a um com suas variações; SKUs já cadastrados
+ * são ignorados com `skipDuplicates` e recusam a importação sem ele.
  * @param importData - Dados da importação.
  * @param adminId - ID do administrador.
  * @returns Resultado da importação.
@@ -371,21 +659,58 @@ export async function bulkImportPremios(
   importData: BulkPremioImportData,
   adminId: string
 ) {
-  const { premios } = importData;
-  const result = await prisma.premio.createMany({
-    data: premios,
-    skipDuplicates: true,
+  const { premios, skipDuplicates } = importData;
+  const simplePremios = premios
+    .filter((premio) => !premio.variants?.length)
+    .map(toPremioCreateInput);
+  const variantPremios = premios.filter((premio) => premio.variants?.length);
+
+  const skippedSkus = await findExistingSkus(
+    variantPremios.flatMap((premio) => premio.variants!.map((variant) => variant.sku))
+  );
+  if (skippedSkus.length > 0 && !skipDuplicates) {
+    throw new Error(`SKU já cadastrado: ${skippedSkus.join(', ')}`);
+  }
+
+  const result = await prisma.$transaction(async (tx: PrismaTransactionClient) => {
+    const { count } = await tx.premio.createMany({
+      data: simplePremios,
+      skipDuplicates: true,
+    });
+
+    let premioCount = count;
+    let variantCount = 0;
+
+    for (const { variants, ...premio } of variantPremios) {
+      const newVariants = variants!.filter((variant) => !skippedSkus.includes(variant.sku));
+      if (newVariants.length === 0) continue;
+
+      await tx.premio.create({
+        data: {
+          ...toPremioCreateInput(premio),
+          stock: sumActiveVariantStock(newVariants),
+          variants: { create: toVariantCreateInput(newVariants) },
+        },
+      });
+
+      premioCount++;
+      variantCount += newVariants.length;
+    }
+
+    return { count: premioCount, variantCount };
   });
 
-  await createActivity({
+  await logPremioActivity({
     userId: adminId,
-    type: ActivityType.ADMIN_ACTION,
-    description: `Importou em lote ${result.count} prêmios.`,
+    type: ActivityType.ADMIN_PREMIO_UPDATED,
+    description: `Importou em lote ${result.count} prêmios (${result.variantCount} variações).`,
   });
 
   return {
     success: true,
     message: `${result.count} prêmios importados com sucesso.`,
     count: result.count,
+    variantCount: result.variantCount,
+    skippedSkus,
   };
 }
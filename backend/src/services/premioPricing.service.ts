@@ -0,0 +1,222 @@
+/**
+ * @file premioPricing.service.ts
+ * @version 2.0.0
+ * @description Preço sazonal dos prêmios do sistema EPS Campanhas.
+ * Janelas de preço agendadas por prêmio (Dia das Mães, Black Friday etc.) alteram o
+ * preço efetivo em pontos enquanto estão vigentes; catálogo, verificação e resgate
+ * usam sempre o preço efetivo calculado aqui.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Janelas de preço por prêmio sem sobreposição de períodos
+ * - Cálculo do preço efetivo em lote para listagens
+ */
+
+import { Premio, PremioPriceWindow } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { PREMIO_SEASONS, SeasonalPremioData } from '../schemas/premio.schema';
+
+// ==================== INTERFACES E TIPOS ====================
+
+export type PremioSeason = typeof PREMIO_SEASONS[number];
+
+/**
+ * Janela vigente exposta junto ao prêmio
+ */
+export interface PriceWindowSummary {
+  id: string;
+  season: string;
+  label: string | null;
+  multiplier: number;
+  startDate: Date;
+  endDate: Date;
+}
+
+/**
+ * Prêmio com preço efetivo aplicado
+ */
+export type PricedPremio<T> = T & {
+  pointsRequired: number;
+  originalPointsRequired: number;
+  priceWindow: PriceWindowSummary | null;
+};
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Rótulos das temporadas
+ */
+export const PREMIO_SEASON_LABELS: Record<PremioSeason, string> = {
+  spring: 'Primavera',
+  summer: 'Verão',
+  autumn: 'Outono',
+  winter: 'Inverno',
+  christmas: 'Natal',
+  easter: 'Páscoa',
+  mothers_day: 'Dia das Mães',
+  fathers_day: 'Dia dos Pais',
+  black_friday: 'Black Friday',
+};
+
+// ==================== CÁLCULO ====================
+
+/**
+ * Preço efetivo: preço base × multiplicador, arredondado e nunca abaixo de 1 ponto
+ */
+export const calculateEffectivePoints = (basePoints: number, multiplier: number): number => {
+  return Math.max(1, Math.round(basePoints * multiplier));
+};
+
+const toSummary = (window: PremioPriceWindow): PriceWindowSummary => ({
+  id: window.id,
+  season: window.season,
+  label: window.label ?? PREMIO_SEASON_LABELS[window.season as PremioSeason] ?? null,
+  multiplier: window.multiplier,
+  startDate: window.startDate,
+  endDate: window.endDate,
+});
+
+/**
+ * Janelas vigentes no instante informado, por prêmio
+ */
+export const getActivePriceWindows = async (
+  premioIds: string[],
+  at: Date = new Date(),
+  client: PrismaTransactionClient = prisma
+): Promise<Map<string, PremioPriceWindow>> => {
+  if (premioIds.length === 0) return new Map();
+
+  const windows = await client.premioPriceWindow.findMany({
+    where: {
+      premioId: { in: premioIds },
+      startDate: { lte: at },
+      endDate: { gt: at },
+    },
+    orderBy: { startDate: 'asc' },
+  });
+
+  return new Map(windows.map(window => [window.premioId, window]));
+};
+
+/**
+ * Aplica o preço efetivo a uma lista de prêmios (pointsRequired passa a ser o efetivo;
+ * o preço de tabela fica em originalPointsRequired)
+ */
+export const applyEffectivePricing = async <T extends Pick<Premio, 'id' | 'pointsRequired'>>(
+  premios: T[],
+  at: Date = new Date(),
+  client: PrismaTransactionClient = prisma
+): Promise<PricedPremio<T>[]> => {
+  const windows = await getActivePriceWindows(premios.map(premio => premio.id), at, client);
+
+  return premios.map(premio => {
+    const window = windows.get(premio.id);
+
+    return {
+      ...premio,
+      pointsRequired: window
+        ? calculateEffectivePoints(premio.pointsRequired, window.multiplier)
+        : premio.pointsRequired,
+      originalPointsRequired: premio.pointsRequired,
+      priceWindow: window ? toSummary(window) : null,
+    };
+  });
+};
+
+/**
+ * Preço efetivo de um único prêmio; use o client da transação no resgate
+ */
+export const getEffectivePremio = async <T extends Pick<Premio, 'id' | 'pointsRequired'>>(
+  premio: T,
+  at: Date = new Date(),
+  client: PrismaTransactionClient = prisma
+): Promise<PricedPremio<T>> => {
+  const [priced] = await applyEffectivePricing([premio], at, client);
+  return priced;
+};
+
+// ==================== JANELAS DE PREÇO ====================
+
+/**
+ * Janelas de preço do prêmio, da mais recente para a mais antiga
+ */
+export const listPriceWindows = async (premioId: string) => {
+  const windows = await prisma.premioPriceWindow.findMany({
+    where: { premioId },
+    orderBy: { startDate: 'desc' },
+  });
+
+  const now = new Date();
+
+  return windows.map(window => ({
+    ...window,
+    seasonLabel: PREMIO_SEASON_LABELS[window.season as PremioSeason] ?? window.season,
+    isCurrent: window.startDate <= now && window.endDate > now,
+  }));
+};
+
+/**
+ * Agenda janela de preço para o prêmio. Períodos do mesmo prêmio não podem se sobrepor,
+ * para que o preço efetivo seja sempre único.
+ */
+export const createPriceWindow = async (
+  premioId: string,
+  data: SeasonalPremioData,
+  adminId: string
+): Promise<PremioPriceWindow> => {
+  const startDate = new Date(data.startDate);
+  const endDate = new Date(data.endDate);
+
+  const window = await prisma.$transaction(async (tx) => {
+    const premio = await tx.premio.findUnique({ where: { id: premioId }, select: { id: true } });
+
+    if (!premio) {
+      throw new Error('Prêmio não encontrado');
+    }
+
+    const overlapping = await tx.premioPriceWindow.findFirst({
+      where: {
+        premioId,
+        startDate: { lt: endDate },
+        endDate: { gt: startDate },
+      },
+      select: { id: true },
+    });
+
+    if (overlapping) {
+      throw new Error('Já existe janela de preço para este prêmio no período informado');
+    }
+
+    return tx.premioPriceWindow.create({
+      data: {
+        premioId,
+        season: data.season,
+        label: data.label ?? null,
+        multiplier: data.multiplier,
+        startDate,
+        endDate,
+        createdById: adminId,
+      },
+    });
+  });
+
+  console.log(`[PREMIO_PRICING_SERVICE] Janela ${data.season} (x${data.multiplier}) agendada para o prêmio ${premioId} por ${adminId}`);
+
+  return window;
+};
+
+/**
+ * Remove janela de preço (resgates já feitos mantêm o preço pago)
+ */
+export const deletePriceWindow = async (windowId: string, adminId: string): Promise<void> => {
+  const window = await prisma.premioPriceWindow.findUnique({ where: { id: windowId } });
+
+  if (!window) {
+    throw new Error('Janela de preço não encontrada');
+  }
+
+  await prisma.premioPriceWindow.delete({ where: { id: windowId } });
+
+  console.log(`[PREMIO_PRICING_SERVICE] Janela ${windowId} do prêmio ${window.premioId} removida por ${adminId}`);
+};
@@ -0,0 +1,335 @@
+/**
+ * @file premioRedemption.service.ts
+ * @version 2.0.0
+ * @description Ciclo de entrega dos resgates de prêmios do sistema EPS Campanhas.
+ * O resgate nasce SOLICITADO e segue APROVADO → ENVIADO (com código de rastreio) → ENTREGUE;
+ * até a entrega pode ser CANCELADO, devolvendo pontos e estoque. Cada transição fica no
+ * histórico do resgate com autor e data.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Transições de status com atualização condicional e histórico imutável
+ * - Fila de entrega para administradores com totais por status
+ * - Cancelamento com devolução de pontos aos lotes de origem e do estoque
+ * - Estoque devolvido à variação resgatada
+ */
+
+import {
+  PointTransactionSource,
+  Prisma,
+  RedemptionStatus,
+  UserRole
+} from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import {
+  REDEMPTION_STATUS_LABELS,
+  RedemptionFilters,
+  ShipRedemptionData
+} from '../schemas/premio.schema';
+import { publishDomainEvent } from './domainEvents.service';
+import { refundConsumedPoints } from './pointLot.service';
+import { returnStockUnit } from './premioReservation.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Transição de status a registrar
+ */
+export interface RedemptionTransitionInput {
+  redemptionId: string;
+  fromStatus: RedemptionStatus | null;
+  toStatus: RedemptionStatus;
+  note?: string | null;
+  metadata?: Prisma.InputJsonValue;
+}
+
+/**
+ * Autor da operação
+ */
+export interface RedemptionActor {
+  id: string;
+  role: UserRole;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Transições de status permitidas (criação parte de null)
+ */
+export const REDEMPTION_STATUS_TRANSITIONS: Record<RedemptionStatus, RedemptionStatus[]> = {
+  [RedemptionStatus.SOLICITADO]: [RedemptionStatus.APROVADO, RedemptionStatus.CANCELADO],
+  [RedemptionStatus.APROVADO]: [RedemptionStatus.ENVIADO, RedemptionStatus.CANCELADO],
+  [RedemptionStatus.ENVIADO]: [RedemptionStatus.ENTREGUE, RedemptionStatus.CANCELADO],
+  [RedemptionStatus.ENTREGUE]: [],
+  [RedemptionStatus.CANCELADO]: [],
+};
+
+/**
+ * Data registrada no resgate ao entrar em cada status
+ */
+const STATUS_TIMESTAMP_FIELDS: Partial<Record<RedemptionStatus, 'approvedAt' | 'shippedAt' | 'deliveredAt' | 'cancelledAt'>> = {
+  APROVADO: 'approvedAt',
+  ENVIADO: 'shippedAt',
+  ENTREGUE: 'deliveredAt',
+  CANCELADO: 'cancelledAt',
+};
+
+const redemptionInclude = {
+  premio: { select: { id: true, title: true, imageUrl: true, pointsRequired: true } },
+  user: { select: { id: true, name: true, email: true, whatsapp: true, opticName: true } },
+  events: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.PremioRedemptionInclude;
+
+// ==================== HISTÓRICO ====================
+
+/**
+ * Verifica se a transição de status é permitida
+ */
+export const canTransitionRedemption = (from: RedemptionStatus, to: RedemptionStatus): boolean => {
+  return REDEMPTION_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Registra transição de status na transação de quem alterou o resgate.
+ * O nome do autor é gravado junto para o histórico sobreviver à remoção do usuário.
+ */
+export const recordRedemptionTransition = async (
+  tx: PrismaTransactionClient,
+  transition: RedemptionTransitionInput,
+  actorId?: string | null
+): Promise<void> => {
+  const actor = actorId
+    ? await tx.user.findUnique({ where: { id: actorId }, select: { name: true } })
+    : null;
+
+  await tx.premioRedemptionEvent.create({
+    data: {
+      redemptionId: transition.redemptionId,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      note: transition.note ?? null,
+      actorId: actorId ?? null,
+      actorName: actor?.name ?? null,
+      metadata: transition.metadata,
+    },
+  });
+};
+
+// ==================== CONSULTAS ====================
+
+/**
+ * Fila de entrega: resgates filtrados por status, com totais por status
+ */
+export const listRedemptions = async (filters: RedemptionFilters) => {
+  const where: Prisma.PremioRedemptionWhereInput = {
+    ...(filters.status !== 'all' && { status: filters.status }),
+    ...(filters.premioId && { premioId: filters.premioId }),
+    ...(filters.userId && { userId: filters.userId }),
+    ...(filters.search && {
+      OR: [
+        { user: { name: { contains: filters.search, mode: 'insensitive' } } },
+        { user: { email: { contains: filters.search, mode: 'insensitive' } } },
+        { premio: { title: { contains: filters.search, mode: 'insensitive' } } },
+        { trackingCode: { contains: filters.search, mode: 'insensitive' } },
+      ],
+    }),
+  };
+
+  const [redemptions, total, byStatus] = await Promise.all([
+    prisma.premioRedemption.findMany({
+      where,
+      include: redemptionInclude,
+      // Fila: mais antigos primeiro para serem atendidos na ordem do pedido
+      orderBy: { createdAt: filters.status === RedemptionStatus.SOLICITADO ? 'asc' : 'desc' },
+      skip: (filters.page - 1) * filters.limit,
+      take: filters.limit,
+    }),
+    prisma.premioRedemption.count({ where }),
+    prisma.premioRedemption.groupBy({ by: ['status'], _count: { _all: true } }),
+  ]);
+
+  const counts = Object.fromEntries(
+    Object.values(RedemptionStatus).map(status => [
+      status,
+      byStatus.find(row => row.status === status)?._count._all || 0,
+    ])
+  ) as Record<RedemptionStatus, number>;
+
+  return {
+    data: redemptions,
+    counts,
+    pagination: {
+      page: filters.page,
+      limit: filters.limit,
+      total,
+      totalPages: Math.ceil(total / filters.limit),
+      hasNext: filters.page * filters.limit < total,
+      hasPrev: filters.page > 1,
+    },
+  };
+};
+
+/**
+ * Resgate com prêmio, usuário e histórico de status
+ */
+export const getRedemptionById = async (redemptionId: string) => {
+  const redemption = await prisma.premioRedemption.findUnique({
+    where: { id: redemptionId },
+    include: redemptionInclude,
+  });
+
+  if (!redemption) {
+    throw new Error('Resgate não encontrado');
+  }
+
+  return redemption;
+};
+
+// ==================== TRANSIÇÕES ====================
+
+/**
+ * Altera o status do resgate com atualização condicional e registra a transição.
+ * No cancelamento devolve pontos (aos lotes de origem) e estoque na mesma transação.
+ */
+const transitionRedemption = async (
+  redemptionId: string,
+  toStatus: RedemptionStatus,
+  actorId: string,
+  options: {
+    note?: string;
+    shipment?: ShipRedemptionData;
+    cancelReason?: string;
+    assertAllowed?: (current: { userId: string; status: RedemptionStatus }) => void;
+  } = {}
+) => {
+  const { redemption, fromStatus } = await prisma.$transaction(async (tx) => {
+    const current = await tx.premioRedemption.findUnique({
+      where: { id: redemptionId },
+      include: { premio: { select: { title: true } } },
+    });
+
+    if (!current) {
+      throw new Error('Resgate não encontrado');
+    }
+
+    options.assertAllowed?.(current);
+
+    if (!canTransitionRedemption(current.status, toStatus)) {
+      throw new Error(
+        `Não é possível alterar resgate ${REDEMPTION_STATUS_LABELS[current.status].toLowerCase()} para ${REDEMPTION_STATUS_LABELS[toStatus].toLowerCase()}`
+      );
+    }
+
+    const timestampField = STATUS_TIMESTAMP_FIELDS[toStatus];
+
+    // Atualização condicional: duas transições simultâneas não passam
+    const { count } = await tx.premioRedemption.updateMany({
+      where: { id: redemptionId, status: current.status },
+      data: {
+        ...(options.shipment && {
+          trackingCode: options.shipment.trackingCode,
+          carrier: options.shipment.carrier,
+        }),
+        ...(options.cancelReason && { cancelReason: options.cancelReason }),
+        status: toStatus,
+        ...(timestampField && { [timestampField]: new Date() }),
+      },
+    });
+
+    if (count !== 1) {
+      throw new Error('Resgate alterado durante a operação; tente novamente');
+    }
+
+    let pointsRefunded = 0;
+    if (toStatus === RedemptionStatus.CANCELADO) {
+      pointsRefunded = await refundConsumedPoints(
+        tx,
+        current.userId,
+        current.pointsRedeemed,
+        { sourceType: PointTransactionSource.PREMIO_REDEMPTION, sourceId: redemptionId },
+        { description: `Estorno do resgate: ${current.premio.title}`, actorId }
+      );
+
+      // Resgate de variação devolve o estoque à variação e recalcula o total do prêmio
+      await returnStockUnit(tx, current.premioId, current.variantId);
+    }
+
+    await recordRedemptionTransition(tx, {
+      redemptionId,
+      fromStatus: current.status,
+      toStatus,
+      note: options.note,
+      metadata: {
+        ...(options.shipment && { trackingCode: options.shipment.trackingCode }),
+        ...(options.shipment?.carrier && { carrier: options.shipment.carrier }),
+        ...(toStatus === RedemptionStatus.CANCELADO && { pointsRefunded, stockRefunded: 1 }),
+      },
+    }, actorId);
+
+    const redemption = await tx.premioRedemption.findUniqueOrThrow({
+      where: { id: redemptionId },
+      include: redemptionInclude,
+    });
+
+    return { redemption, fromStatus: current.status };
+  });
+
+  console.log(`[PREMIO_REDEMPTION_SERVICE] Resgate ${redemptionId}: ${fromStatus} → ${toStatus} por ${actorId}`);
+
+  // Evento publicado somente após o commit da transição
+  publishDomainEvent('premio.redemption_updated', {
+    redemptionId,
+    premioId: redemption.premioId,
+    premioTitle: redemption.premio.title,
+    userId: redemption.userId,
+    status: toStatus,
+    trackingCode: redemption.trackingCode,
+    carrier: redemption.carrier,
+    reason: redemption.cancelReason,
+  });
+
+  return redemption;
+};
+
+/**
+ * Aprova o resgate para separação e envio
+ */
+export const approveRedemption = (redemptionId: string, adminId: string, note?: string) =>
+  transitionRedemption(redemptionId, RedemptionStatus.APROVADO, adminId, { note });
+
+/**
+ * Marca o resgate como enviado, com código de rastreio
+ */
+export const shipRedemption = (redemptionId: string, adminId: string, shipment: ShipRedemptionData) =>
+  transitionRedemption(redemptionId, RedemptionStatus.ENVIADO, adminId, {
+    note: shipment.note,
+    shipment,
+  });
+
+/**
+ * Confirma a entrega do resgate
+ */
+export const deliverRedemption = (redemptionId: string, adminId: string, note?: string) =>
+  transitionRedemption(redemptionId, RedemptionStatus.ENTREGUE, adminId, { note });
+
+/**
+ * Cancela o resgate devolvendo pontos e estoque. O próprio usuário só cancela enquanto
+ * o resgate está SOLICITADO; administradores cancelam até a entrega.
+ */
+export const cancelRedemption = (redemptionId: string, actor: RedemptionActor, reason: string) =>
+  transitionRedemption(redemptionId, RedemptionStatus.CANCELADO, actor.id, {
+    note: reason,
+    cancelReason: reason,
+    assertAllowed: (current) => {
+      if (actor.role === UserRole.ADMIN) return;
+
+      if (current.userId !== actor.id) {
+        throw new Error('Acesso negado ao resgate');
+      }
+
+      if (current.status !== RedemptionStatus.SOLICITADO) {
+        throw new Error('Não é possível cancelar resgate já aprovado; fale com o administrador');
+      }
+    },
+  });
@@ -0,0 +1,285 @@
+/**
+ * @file premioReservation.service.ts
+ * @version 2.0.0
+ * @description Estoque de prêmios à prova de concorrência no sistema EPS Campanhas.
+ * Toda baixa de estoque é um decremento condicional (só passa se ainda houver unidade),
+ * e ao abrir o resgate o vendedor recebe uma reserva de alguns minutos: a unidade sai do
+ * estoque na reserva e volta se ela for liberada ou expirar.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Baixa e devolução atômicas de estoque do prêmio e da variação
+ * - Reserva temporária de estoque por vendedor, consumida no resgate
+ * - Expiração das reservas vencidas com devolução do estoque
+ * - Reserva sujeita às regras do resgate e limitada por vendedor
+ */
+
+import { PremioStockReservation, StockReservationStatus } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { canUserRedeemPremio } from './premio.service';
+import { syncPremioStock } from './premioVariant.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações da reserva de estoque
+ */
+export const RESERVATION_CONFIG = {
+  TTL_MS: parseInt(process.env.PREMIO_RESERVATION_TTL_MS || '600000'),
+  MAX_ACTIVE_PER_USER: parseInt(process.env.PREMIO_RESERVATION_MAX_PER_USER || '3'),
+  EXPIRY_BATCH_SIZE: 100,
+};
+
+// ==================== ESTOQUE ====================
+
+/**
+ * Baixa uma unidade do estoque com decremento condicional: dois resgates simultâneos
+ * da última unidade não passam os dois. Com variação, baixa a variação e o total do prêmio.
+ */
+export const takeStockUnit = async (
+  tx: PrismaTransactionClient,
+  premioId: string,
+  variantId?: string | null
+): Promise<void> => {
+  if (variantId) {
+    const { count } = await tx.premioVariant.updateMany({
+      where: { id: variantId, premioId, isActive: true, stock: { gt: 0 } },
+      data: { stock: { decrement: 1 } },
+    });
+
+    if (count !== 1) {
+      throw new Error('Variação fora de estoque.');
+    }
+  }
+
+  const { count } = await tx.premio.updateMany({
+    where: { id: premioId, stock: { gt: 0 } },
+    data: { stock: { decrement: 1 } },
+  });
+
+  if (count !== 1) {
+    throw new Error('Prêmio fora de estoque.');
+  }
+};
+
+/**
+ * Devolve uma unidade ao estoque (cancelamento de resgate, reserva liberada ou expirada).
+ * Com variação, o total do prêmio é recalculado a partir das variações ativas.
+ */
+export const returnStockUnit = async (
+  tx: PrismaTransactionClient,
+  premioId: string,
+  variantId?: string | null
+): Promise<void> => {
+  if (variantId) {
+    await tx.premioVariant.update({
+      where: { id: variantId },
+      data: { stock: { increment: 1 } },
+    });
+    await syncPremioStock(tx, premioId);
+    return;
+  }
+
+  await tx.premio.update({
+    where: { id: premioId },
+    data: { stock: { increment: 1 } },
+  });
+};
+
+// ==================== RESERVAS ====================
+
+/**
+ * Encerra a reserva ativa e devolve a unidade; sem efeito se ela já foi consumida,
+ * liberada ou expirada por outra operação.
+ */
+const releaseInTransaction = async (
+  tx: PrismaTransactionClient,
+  reservation: Pick<PremioStockReservation, 'id' | 'premioId' | 'variantId'>,
+  status: typeof StockReservationStatus.LIBERADA | typeof StockReservationStatus.EXPIRADA
+): Promise<boolean> => {
+  const { count } = await tx.premioStockReservation.updateMany({
+    where: { id: reservation.id, status: StockReservationStatus.ATIVA },
+    data: { status, releasedAt: new Date() },
+  });
+
+  if (count !== 1) return false;
+
+  await returnStockUnit(tx, reservation.premioId, reservation.variantId);
+  return true;
+};
+
+/**
+ * Reserva uma unidade do prêmio para o vendedor. Só reserva quem poderia resgatar
+ * (prêmio ativo, pontos no preço vigente, estoque) e até o limite de reservas ativas.
+ * Reabrir o resgate renova a reserva existente; trocar de variação devolve a unidade da anterior.
+ */
+export const reserveStock = async (
+  premioId: string,
+  userId: string,
+  variantId?: string | null
+): Promise<PremioStockReservation> => {
+  const eligibility = await canUserRedeemPremio(premioId, userId, variantId ?? undefined);
+
+  if (!eligibility.canRedeem) {
+    throw new Error(eligibility.reason);
+  }
+
+  const expiresAt = new Date(Date.now() + RESERVATION_CONFIG.TTL_MS);
+
+  const reservation = await prisma.$transaction(async (tx) => {
+    const premio = await tx.premio.findUnique({
+      where: { id: premioId },
+      select: { isActive: true, _count: { select: { variants: { where: { isActive: true } } } } },
+    });
+
+    if (!premio || !premio.isActive) {
+      throw new Error('Prêmio não encontrado.');
+    }
+
+    if (premio._count.variants > 0 && !variantId) {
+      throw new Error('Selecione uma variação do prêmio.');
+    }
+
+    const current = await tx.premioStockReservation.findFirst({
+      where: { premioId, userId, status: StockReservationStatus.ATIVA, expiresAt: { gt: new Date() } },
+    });
+
+    if (current && current.variantId === (variantId ?? null)) {
+      return tx.premioStockReservation.update({
+        where: { id: current.id },
+        data: { expiresAt },
+      });
+    }
+
+    if (current) {
+      await releaseInTransaction(tx, current, StockReservationStatus.LIBERADA);
+    } else {
+      // Trocar de variação reaproveita a vaga; só uma reserva nova conta para o limite
+      const activeCount = await tx.premioStockReservation.count({
+        where: { userId, status: StockReservationStatus.ATIVA, expiresAt: { gt: new Date() } },
+      });
+
+      if (activeCount >= RESERVATION_CONFIG.MAX_ACTIVE_PER_USER) {
+        throw new Error('Limite de reservas ativas atingido. Conclua ou libere uma reserva.');
+      }
+    }
+
+    await takeStockUnit(tx, premioId, variantId);
+
+    return tx.premioStockReservation.create({
+      data: { premioId, variantId: variantId ?? null, userId, expiresAt },
+    });
+  });
+
+  console.log(`[PREMIO_RESERVATION_SERVICE] Reserva ${reservation.id} do prêmio ${premioId} para ${userId} até ${reservation.expiresAt.toISOString()}`);
+
+  return reservation;
+};
+
+/**
+ * Libera a reserva do vendedor (modal de resgate fechado sem confirmar)
+ */
+export const releaseReservation = async (reservationId: string, userId: string): Promise<void> => {
+  const reservation = await prisma.premioStockReservation.findUnique({ where: { id: reservationId } });
+
+  if (!reservation) {
+    throw new Error('Reserva não encontrada.');
+  }
+
+  if (reservation.userId !== userId) {
+    throw new Error('Acesso negado à reserva.');
+  }
+
+  const released = await prisma.$transaction(tx =>
+    releaseInTransaction(tx, reservation, StockReservationStatus.LIBERADA)
+  );
+
+  if (released) {
+    console.log(`[PREMIO_RESERVATION_SERVICE] Reserva ${reservationId} liberada por ${userId}`);
+  }
+};
+
+/**
+ * Verifica se o vendedor já segura uma unidade do prêmio (ou da variação) em reserva ativa
+ */
+export const hasActiveReservation = async (
+  premioId: string,
+  userId: string,
+  variantId?: string | null
+): Promise<boolean> => {
+  const count = await prisma.premioStockReservation.count({
+    where: {
+      premioId,
+      userId,
+      variantId: variantId ?? null,
+      status: StockReservationStatus.ATIVA,
+      expiresAt: { gt: new Date() },
+    },
+  });
+
+  return count > 0;
+};
+
+/**
+ * Consome a reserva no resgate, na transação do resgate. A unidade reservada já saiu do
+ * estoque, então vale mesmo vencida enquanto o job não a expirou. Reserva de outra
+ * variação é devolvida e a baixa da escolhida é feita na hora, como no resgate sem reserva.
+ * @returns ID da reserva consumida, ou null se a baixa foi feita sem reserva
+ */
+export const consumeReservationOrTakeStock = async (
+  tx: PrismaTransactionClient,
+  params: { reservationId?: string; premioId: string; variantId?: string | null; userId: string }
+): Promise<string | null> => {
+  if (params.reservationId) {
+    const { count } = await tx.premioStockReservation.updateMany({
+      where: {
+        id: params.reservationId,
+        premioId: params.premioId,
+        variantId: params.variantId ?? null,
+        userId: params.userId,
+        status: StockReservationStatus.ATIVA,
+      },
+      data: { status: StockReservationStatus.CONSUMIDA },
+    });
+
+    if (count === 1) return params.reservationId;
+
+    const other = await tx.premioStockReservation.findFirst({
+      where: { id: params.reservationId, userId: params.userId },
+    });
+    if (other) {
+      await releaseInTransaction(tx, other, StockReservationStatus.LIBERADA);
+    }
+  }
+
+  await takeStockUnit(tx, params.premioId, params.variantId);
+  return null;
+};
+
+/**
+ * Expira as reservas vencidas devolvendo o estoque (um lote por execução do job)
+ * @returns Quantidade de reservas expiradas
+ */
+export const expireStaleReservations = async (now: Date = new Date()): Promise<number> => {
+  const stale = await prisma.premioStockReservation.findMany({
+    where: { status: StockReservationStatus.ATIVA, expiresAt: { lte: now } },
+    select: { id: true, premioId: true, variantId: true },
+    orderBy: { expiresAt: 'asc' },
+    take: RESERVATION_CONFIG.EXPIRY_BATCH_SIZE,
+  });
+
+  let expired = 0;
+  for (const reservation of stale) {
+    const released = await prisma.$transaction(tx =>
+      releaseInTransaction(tx, reservation, StockReservationStatus.EXPIRADA)
+    );
+    if (released) expired++;
+  }
+
+  if (expired > 0) {
+    console.log(`[PREMIO_RESERVATION_SERVICE] ${expired} reserva(s) expirada(s) com estoque devolvido`);
+  }
+
+  return expired;
+};
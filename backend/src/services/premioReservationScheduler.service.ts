@@ -0,0 +1,89 @@
+/**
+ * @file premioReservationScheduler.service.ts
+ * @version 2.0.0
+ * @description Job agendado em processo para as reservas de estoque de prêmios.
+ * A cada execução expira as reservas vencidas e devolve as unidades ao estoque,
+ * sem depender de cron externo.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Execução periódica com proteção contra execuções sobrepostas
+ */
+
+import { expireStaleReservations } from './premioReservation.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações do job de expiração de reservas
+ */
+const SCHEDULER_CONFIG = {
+  INTERVAL_MS: parseInt(process.env.PREMIO_RESERVATION_JOB_INTERVAL_MS || '60000'),
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+// ==================== ESTADO DO JOB ====================
+
+let intervalTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// ==================== EXECUÇÃO ====================
+
+/**
+ * Expira as reservas vencidas uma vez (ignorado se já houver execução em andamento)
+ */
+export const runReservationExpiryJob = async (): Promise<void> => {
+  if (currentRun) return currentRun;
+
+  currentRun = (async () => {
+    try {
+      await expireStaleReservations(new Date());
+    } catch (error) {
+      console.error('[PREMIO_RESERVATION_SCHEDULER] Erro na execução do job:', error);
+    } finally {
+      currentRun = null;
+    }
+  })();
+
+  return currentRun;
+};
+
+// ==================== API DO JOB ====================
+
+/**
+ * Inicia o job; a primeira execução devolve reservas que venceram com o servidor parado
+ */
+export const startReservationExpiryScheduler = (): void => {
+  if (intervalTimer) return;
+
+  intervalTimer = setInterval(() => void runReservationExpiryJob(), SCHEDULER_CONFIG.INTERVAL_MS);
+  void runReservationExpiryJob();
+
+  console.log(`[PREMIO_RESERVATION_SCHEDULER] Job iniciado (a cada ${SCHEDULER_CONFIG.INTERVAL_MS}ms)`);
+};
+
+/**
+ * Para o job aguardando a execução em andamento
+ */
+export const stopReservationExpiryScheduler = async (): Promise<void> => {
+  if (intervalTimer) {
+    clearInterval(intervalTimer);
+    intervalTimer = null;
+  }
+
+  if (currentRun) {
+    let shutdownTimer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      shutdownTimer = setTimeout(resolve, SCHEDULER_CONFIG.SHUTDOWN_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([currentRun, timeout]);
+    } finally {
+      clearTimeout(shutdownTimer);
+    }
+  }
+
+  console.log('[PREMIO_RESERVATION_SCHEDULER] Job parado');
+};
@@ -0,0 +1,291 @@
+/**
+ * @file premioVariant.service.ts
+ * @version 2.0.0
+ * @description Variações de prêmios do sistema EPS Campanhas.
+ * Um prêmio pode ter variações (tamanho, cor, voltagem) com SKU, estoque e diferença de
+ * pontos próprios. O estoque do prêmio passa a ser a soma do estoque das variações ativas,
+ * para que catálogo e filtros de disponibilidade continuem funcionando sem mudanças.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Cadastro de variações com SKU único
+ * - Estoque por variação sincronizado com o estoque do prêmio
+ * - Preço da variação com diferença de pontos e preço sazonal
+ */
+
+import { Prisma, PremioVariant } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { PremioVariantData, UpdatePremioVariantData } from '../schemas/premio.schema';
+import { calculateEffectivePoints, PricedPremio } from './premioPricing.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Variação com o preço efetivo calculado
+ */
+export type PricedVariant = PremioVariant & {
+  pointsRequired: number;
+};
+
+/**
+ * Operação de ajuste de estoque
+ */
+export type StockOperation = 'set' | 'add' | 'subtract';
+
+// ==================== PREÇO ====================
+
+/**
+ * Preço de tabela da variação: preço de tabela do prêmio + diferença da variação
+ */
+export const getVariantBasePoints = (
+  premio: Pick<PricedPremio<{ pointsRequired: number }>, 'originalPointsRequired'>,
+  variant: Pick<PremioVariant, 'pointsDelta'>
+): number => {
+  return Math.max(1, premio.originalPointsRequired + variant.pointsDelta);
+};
+
+/**
+ * Preço efetivo da variação, com o multiplicador sazonal vigente aplicado sobre o
+ * preço de tabela da variação
+ */
+export const getVariantPoints = (
+  premio: Pick<PricedPremio<{ pointsRequired: number }>, 'originalPointsRequired' | 'priceWindow'>,
+  variant: Pick<PremioVariant, 'pointsDelta'>
+): number => {
+  const basePoints = getVariantBasePoints(premio, variant);
+
+  return premio.priceWindow
+    ? calculateEffectivePoints(basePoints, premio.priceWindow.multiplier)
+    : basePoints;
+};
+
+/**
+ * Aplica o preço efetivo às variações do prêmio
+ */
+export const priceVariants = (
+  premio: Pick<PricedPremio<{ pointsRequired: number }>, 'originalPointsRequired' | 'priceWindow'>,
+  variants: PremioVariant[]
+): PricedVariant[] => {
+  return variants.map(variant => ({
+    ...variant,
+    pointsRequired: getVariantPoints(premio, variant),
+  }));
+};
+
+// ==================== ESTOQUE ====================
+
+/**
+ * Recalcula o estoque do prêmio como a soma das variações ativas.
+ * Prêmios sem variações mantêm o estoque próprio.
+ */
+export const syncPremioStock = async (
+  tx: PrismaTransactionClient,
+  premioId: string
+): Promise<number | null> => {
+  const variantCount = await tx.premioVariant.count({ where: { premioId } });
+  if (variantCount === 0) return null;
+
+  const { _sum } = await tx.premioVariant.aggregate({
+    where: { premioId, isActive: true },
+    _sum: { stock: true },
+  });
+
+  const stock = _sum.stock || 0;
+  await tx.premio.update({ where: { id: premioId }, data: { stock } });
+
+  return stock;
+};
+
+/**
+ * Ajusta o estoque de uma variação do prêmio e sincroniza o estoque do prêmio
+ */
+export const adjustVariantStock = async (
+  tx: PrismaTransactionClient,
+  premioId: string,
+  variantId: string,
+  operation: StockOperation,
+  quantity: number
+): Promise<PremioVariant> => {
+  const variant = await tx.premioVariant.findFirst({ where: { id: variantId, premioId } });
+
+  if (!variant) {
+    throw new Error('Variação não encontrada');
+  }
+
+  if (operation === 'subtract' && variant.stock < quantity) {
+    throw new Error(`Estoque insuficiente na variação ${variant.name}`);
+  }
+
+  const stockUpdate =
+    operation === 'set'
+      ? quantity
+      : operation === 'add'
+        ? { increment: quantity }
+        : { decrement: quantity };
+
+  const updated = await tx.premioVariant.update({
+    where: { id: variantId },
+    data: { stock: stockUpdate },
+  });
+
+  await syncPremioStock(tx, premioId);
+
+  return updated;
+};
+
+// ==================== CADASTRO ====================
+
+/**
+ * Dados de criação das variações a partir do payload validado
+ */
+export const toVariantCreateInput = (
+  variants: PremioVariantData[]
+): Prisma.PremioVariantCreateWithoutPremioInput[] => {
+  return variants.map(variant => ({
+    name: variant.name,
+    sku: variant.sku,
+    attributes: variant.attributes,
+    pointsDelta: variant.pointsDelta,
+    stock: variant.stock,
+    isActive: variant.isActive,
+    sortOrder: variant.sortOrder,
+  }));
+};
+
+/**
+ * Estoque do prêmio com variações: soma das variações ativas
+ */
+export const sumActiveVariantStock = (variants: Pick<PremioVariantData, 'stock' | 'isActive'>[]): number => {
+  return variants.filter(variant => variant.isActive).reduce((total, variant) => total + variant.stock, 0);
+};
+
+/**
+ * SKUs da lista que já estão cadastrados
+ */
+export const findExistingSkus = async (
+  skus: string[],
+  client: PrismaTransactionClient = prisma
+): Promise<string[]> => {
+  if (skus.length === 0) return [];
+
+  const existing = await client.premioVariant.findMany({
+    where: { sku: { in: skus } },
+    select: { sku: true },
+  });
+
+  return existing.map(variant => variant.sku);
+};
+
+/**
+ * Variações do prêmio na ordem de exibição
+ */
+export const listVariants = async (premioId: string, includeInactive = false) => {
+  return prisma.premioVariant.findMany({
+    where: { premioId, ...(!includeInactive && { isActive: true }) },
+    orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+  });
+};
+
+/**
+ * Adiciona variação ao prêmio
+ */
+export const createVariant = async (
+  premioId: string,
+  data: PremioVariantData,
+  adminId: string
+): Promise<PremioVariant> => {
+  const variant = await prisma.$transaction(async (tx) => {
+    const premio = await tx.premio.findUnique({ where: { id: premioId }, select: { id: true } });
+
+    if (!premio) {
+      throw new Error('Prêmio não encontrado');
+    }
+
+    const [existingSku] = await findExistingSkus([data.sku], tx);
+    if (existingSku) {
+      throw new Error(`SKU ${existingSku} já cadastrado`);
+    }
+
+    const created = await tx.premioVariant.create({
+      data: { premioId, ...toVariantCreateInput([data])[0] },
+    });
+
+    await syncPremioStock(tx, premioId);
+
+    return created;
+  });
+
+  console.log(`[PREMIO_VARIANT_SERVICE] Variação ${variant.sku} criada no prêmio ${premioId} por ${adminId}`);
+
+  return variant;
+};
+
+/**
+ * Atualiza dados da variação; desativar remove o estoque dela do total do prêmio
+ */
+export const updateVariant = async (
+  variantId: string,
+  data: UpdatePremioVariantData,
+  adminId: string
+): Promise<PremioVariant> => {
+  const variant = await prisma.$transaction(async (tx) => {
+    const current = await tx.premioVariant.findUnique({ where: { id: variantId } });
+
+    if (!current) {
+      throw new Error('Variação não encontrada');
+    }
+
+    if (data.sku && data.sku !== current.sku) {
+      const [existingSku] = await findExistingSkus([data.sku], tx);
+      if (existingSku) {
+        throw new Error(`SKU ${existingSku} já cadastrado`);
+      }
+    }
+
+    const updated = await tx.premioVariant.update({
+      where: { id: variantId },
+      data,
+    });
+
+    await syncPremioStock(tx, current.premioId);
+
+    return updated;
+  });
+
+  console.log(`[PREMIO_VARIANT_SERVICE] Variação ${variant.sku} atualizada por ${adminId}`);
+
+  return variant;
+};
+
+/**
+ * Remove variação sem resgates; variações já resgatadas devem ser desativadas
+ */
+export const deleteVariant = async (variantId: string, adminId: string): Promise<void> => {
+  const variant = await prisma.$transaction(async (tx) => {
+    const current = await tx.premioVariant.findUnique({
+      where: { id: variantId },
+      include: { _count: { select: { redemptions: true } } },
+    });
+
+    if (!current) {
+      throw new Error('Variação não encontrada');
+    }
+
+    if (current._count.redemptions > 0) {
+      throw new Error('Não é possível remover variação já resgatada; desative-a');
+    }
+
+    await tx.premioVariant.delete({ where: { id: variantId } });
+
+    // Sem variações restantes o prêmio volta a ter estoque próprio (zerado)
+    const stock = await syncPremioStock(tx, current.premioId);
+    if (stock === null) {
+      await tx.premio.update({ where: { id: current.premioId }, data: { stock: 0 } });
+    }
+
+    return current;
+  });
+
+  console.log(`[PREMIO_VARIANT_SERVICE] Variação ${variant.sku} removida por ${adminId}`);
+};
@@ -0,0 +1,375 @@
+/**
+ * @file premioWishlist.service.ts
+ * @version 2.0.0
+ * @description Lista de desejos de prêmios do sistema EPS Campanhas.
+ * O vendedor guarda prêmios como metas e acompanha quantos pontos faltam e a data estimada
+ * para alcançá-los, calculada pelo ritmo de ganho recente. Um job avisa quando o saldo
+ * alcança o preço ou o prêmio volta ao estoque, e os administradores veem a demanda agregada.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Lista de desejos por vendedor com pontos restantes e data estimada
+ * - Avisos de saldo suficiente e de volta ao estoque
+ * - Demanda agregada da lista de desejos para planejamento de compras
+ */
+
+import { Premio, PremioVariant, PointTransactionType, Prisma, UserStatus } from '@prisma/client';
+import { prisma } from '../../lib/prismaClient';
+import { publishDomainEvent } from './domainEvents.service';
+import { applyEffectivePricing, PricedPremio } from './premioPricing.service';
+import { priceVariants } from './premioVariant.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações da lista de desejos
+ */
+export const WISHLIST_CONFIG = {
+  PACE_WINDOW_DAYS: parseInt(process.env.WISHLIST_PACE_WINDOW_DAYS || '90'),
+  MAX_ITEMS_PER_USER: 20,
+  ALERT_BATCH_SIZE: 500,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lançamentos do extrato que contam como ganho no ritmo do vendedor
+ * (estornos de resgate e ajustes manuais não indicam ritmo de vendas)
+ */
+const EARNING_TRANSACTION_TYPES: PointTransactionType[] = [
+  PointTransactionType.KIT_COMPLETION,
+  PointTransactionType.RULE_BONUS,
+];
+
+const wishedPremioInclude = {
+  variants: { where: { isActive: true } },
+};
+
+// ==================== INTERFACES E TIPOS ====================
+
+type WishedPremio = Premio & { variants: PremioVariant[] };
+
+/**
+ * Prêmio da lista de desejos com o progresso do vendedor
+ */
+export interface WishlistItemProgress {
+  id: string;
+  premioId: string;
+  premio: PricedPremio<WishedPremio>;
+  pointsRequired: number;
+  pointsToGo: number;
+  progress: number;
+  inStock: boolean;
+  canRedeem: boolean;
+  estimatedDate: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Lista de desejos do vendedor
+ */
+export interface UserWishlist {
+  userId: string;
+  points: number;
+  dailyPace: number;
+  paceWindowDays: number;
+  items: WishlistItemProgress[];
+}
+
+/**
+ * Demanda agregada de um prêmio na lista de desejos
+ */
+export interface WishlistDemandEntry {
+  premioId: string;
+  title: string;
+  imageUrl: string;
+  category: string | null;
+  isActive: boolean;
+  stock: number;
+  pointsRequired: number;
+  wishlistCount: number;
+  affordableCount: number;
+  stockShortfall: number;
+}
+
+// ==================== PREÇO E RITMO ====================
+
+/**
+ * Preço da meta: preço efetivo do prêmio ou, com variações, da variação mais barata em
+ * estoque (ou da mais barata, se todas estiverem esgotadas)
+ */
+const getWishPrice = (premio: PricedPremio<WishedPremio>): number => {
+  if (premio.variants.length === 0) return premio.pointsRequired;
+
+  const variants = priceVariants(premio, premio.variants);
+  const inStock = variants.filter(variant => variant.stock > 0);
+
+  return Math.min(...(inStock.length > 0 ? inStock : variants).map(variant => variant.pointsRequired));
+};
+
+/**
+ * Aplica o preço vigente aos prêmios desejados, indexando pelo ID
+ */
+const priceWishedPremios = async (
+  premios: WishedPremio[]
+): Promise<Map<string, { premio: PricedPremio<WishedPremio>; pointsRequired: number }>> => {
+  const unique = Array.from(new Map(premios.map(premio => [premio.id, premio])).values());
+  const priced = await applyEffectivePricing(unique);
+
+  return new Map(priced.map(premio => [premio.id, { premio, pointsRequired: getWishPrice(premio) }]));
+};
+
+/**
+ * Média diária de pontos ganhos pelo vendedor na janela recente
+ */
+export const getDailyEarningPace = async (userId: string, now: Date = new Date()): Promise<number> => {
+  const since = new Date(now.getTime() - WISHLIST_CONFIG.PACE_WINDOW_DAYS * DAY_MS);
+
+  const { _sum } = await prisma.pointTransaction.aggregate({
+    where: { userId, type: { in: EARNING_TRANSACTION_TYPES }, createdAt: { gte: since } },
+    _sum: { amount: true },
+  });
+
+  return Math.round(((_sum.amount || 0) / WISHLIST_CONFIG.PACE_WINDOW_DAYS) * 100) / 100;
+};
+
+/**
+ * Data estimada para juntar os pontos restantes no ritmo atual (null sem ganhos recentes)
+ */
+export const estimateReachDate = (pointsToGo: number, dailyPace: number, now: Date = new Date()): Date | null => {
+  if (pointsToGo <= 0) return now;
+  if (dailyPace <= 0) return null;
+
+  return new Date(now.getTime() + Math.ceil(pointsToGo / dailyPace) * DAY_MS);
+};
+
+// ==================== LISTA DO VENDEDOR ====================
+
+/**
+ * Lista de desejos do vendedor, das metas mais próximas para as mais distantes
+ */
+export const getUserWishlist = async (userId: string, now: Date = new Date()): Promise<UserWishlist> => {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { points: true } });
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  const [items, dailyPace] = await Promise.all([
+    prisma.premioWishlistItem.findMany({
+      where: { userId },
+      include: { premio: { include: wishedPremioInclude } },
+    }),
+    getDailyEarningPace(userId, now),
+  ]);
+
+  const prices = await priceWishedPremios(items.map(item => item.premio));
+
+  const progress = items.map(item => {
+    const { premio, pointsRequired } = prices.get(item.premioId)!;
+    const pointsToGo = Math.max(0, pointsRequired - user.points);
+    const inStock = premio.isActive && premio.stock > 0;
+
+    return {
+      id: item.id,
+      premioId: item.premioId,
+      premio,
+      pointsRequired,
+      pointsToGo,
+      progress: Math.min(100, Math.floor((user.points / pointsRequired) * 100)),
+      inStock,
+      canRedeem: inStock && pointsToGo === 0,
+      estimatedDate: estimateReachDate(pointsToGo, dailyPace, now),
+      createdAt: item.createdAt,
+    };
+  });
+
+  return {
+    userId,
+    points: user.points,
+    dailyPace,
+    paceWindowDays: WISHLIST_CONFIG.PACE_WINDOW_DAYS,
+    items: progress.sort((a, b) => a.pointsToGo - b.pointsToGo),
+  };
+};
+
+/**
+ * Adiciona prêmio à lista de desejos (sem efeito se já estiver nela)
+ */
+export const addToWishlist = async (userId: string, premioId: string) => {
+  const [premio, user, existing, count] = await Promise.all([
+    prisma.premio.findUnique({ where: { id: premioId }, include: wishedPremioInclude }),
+    prisma.user.findUnique({ where: { id: userId }, select: { points: true } }),
+    prisma.premioWishlistItem.findUnique({ where: { userId_premioId: { userId, premioId } } }),
+    prisma.premioWishlistItem.count({ where: { userId } }),
+  ]);
+
+  if (!premio || !premio.isActive) {
+    throw new Error('Prêmio não encontrado');
+  }
+
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+
+  if (existing) return existing;
+
+  if (count >= WISHLIST_CONFIG.MAX_ITEMS_PER_USER) {
+    throw new Error(`Limite de ${WISHLIST_CONFIG.MAX_ITEMS_PER_USER} prêmios na lista de desejos atingido`);
+  }
+
+  const { pointsRequired } = (await priceWishedPremios([premio])).get(premioId)!;
+
+  // Estado inicial: o que já vale agora não gera aviso
+  const item = await prisma.premioWishlistItem.upsert({
+    where: { userId_premioId: { userId, premioId } },
+    create: {
+      userId,
+      premioId,
+      outOfStock: premio.stock <= 0,
+      affordableNotifiedAt: user.points >= pointsRequired ? new Date() : null,
+    },
+    update: {},
+  });
+
+  console.log(`[PREMIO_WISHLIST_SERVICE] Prêmio ${premioId} adicionado à lista de desejos de ${userId}`);
+
+  return item;
+};
+
+/**
+ * Remove prêmio da lista de desejos
+ */
+export const removeFromWishlist = async (userId: string, premioId: string): Promise<void> => {
+  const { count } = await prisma.premioWishlistItem.deleteMany({ where: { userId, premioId } });
+
+  if (count === 0) {
+    throw new Error('Prêmio não encontrado na lista de desejos');
+  }
+
+  console.log(`[PREMIO_WISHLIST_SERVICE] Prêmio ${premioId} removido da lista de desejos de ${userId}`);
+};
+
+// ==================== DEMANDA (ADMIN) ====================
+
+/**
+ * Prêmios mais desejados com quantos vendedores já podem resgatá-los e quanto falta
+ * de estoque para atendê-los
+ */
+export const getWishlistDemand = async (limit: number): Promise<WishlistDemandEntry[]> => {
+  const grouped = await prisma.premioWishlistItem.groupBy({
+    by: ['premioId'],
+    _count: { premioId: true },
+    orderBy: { _count: { premioId: 'desc' } },
+    take: limit,
+  });
+
+  const premioIds = grouped.map(entry => entry.premioId);
+
+  const [premios, wishers] = await Promise.all([
+    prisma.premio.findMany({ where: { id: { in: premioIds } }, include: wishedPremioInclude }),
+    prisma.premioWishlistItem.findMany({
+      where: { premioId: { in: premioIds } },
+      select: { premioId: true, user: { select: { points: true } } },
+    }),
+  ]);
+
+  const prices = await priceWishedPremios(premios);
+
+  return grouped.flatMap(entry => {
+    const priced = prices.get(entry.premioId);
+    if (!priced) return [];
+
+    const { premio, pointsRequired } = priced;
+    const affordableCount = wishers.filter(
+      wisher => wisher.premioId === entry.premioId && wisher.user.points >= pointsRequired
+    ).length;
+
+    return [{
+      premioId: premio.id,
+      title: premio.title,
+      imageUrl: premio.imageUrl,
+      category: premio.category,
+      isActive: premio.isActive,
+      stock: premio.stock,
+      pointsRequired,
+      wishlistCount: entry._count.premioId,
+      affordableCount,
+      stockShortfall: Math.max(0, affordableCount - premio.stock),
+    }];
+  });
+};
+
+// ==================== AVISOS ====================
+
+/**
+ * Compara cada item com o último estado visto e publica os avisos de saldo suficiente e de
+ * volta ao estoque. O aviso de saldo volta a valer se o saldo cair abaixo do preço.
+ * @returns Quantidade de avisos publicados
+ */
+export const evaluateWishlistAlerts = async (now: Date = new Date()): Promise<number> => {
+  let cursor: string | undefined;
+  let published = 0;
+
+  for (;;) {
+    const items = await prisma.premioWishlistItem.findMany({
+      where: { user: { status: UserStatus.ACTIVE } },
+      include: {
+        premio: { include: wishedPremioInclude },
+        user: { select: { points: true } },
+      },
+      orderBy: { id: 'asc' },
+      take: WISHLIST_CONFIG.ALERT_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+
+    if (items.length === 0) break;
+    cursor = items[items.length - 1].id;
+
+    const prices = await priceWishedPremios(items.map(item => item.premio));
+
+    for (const item of items) {
+      const { pointsRequired } = prices.get(item.premioId)!;
+      const inStock = item.premio.isActive && item.premio.stock > 0;
+      const affordable = item.user.points >= pointsRequired;
+      const notifyAffordable = inStock && affordable && !item.affordableNotifiedAt;
+      const backInStock = inStock && item.outOfStock;
+
+      const data: Prisma.PremioWishlistItemUpdateInput = {};
+      if (item.outOfStock === inStock) data.outOfStock = !inStock;
+      if (notifyAffordable) data.affordableNotifiedAt = now;
+      else if (!affordable && item.affordableNotifiedAt) data.affordableNotifiedAt = null;
+
+      if (Object.keys(data).length === 0) continue;
+
+      await prisma.premioWishlistItem.update({ where: { id: item.id }, data });
+
+      // Saldo suficiente já implica estoque: um único aviso
+      if (notifyAffordable) {
+        publishDomainEvent('premio.wishlist_affordable', {
+          userId: item.userId,
+          premioId: item.premioId,
+          premioTitle: item.premio.title,
+          pointsRequired,
+        });
+        published++;
+      } else if (backInStock) {
+        publishDomainEvent('premio.wishlist_back_in_stock', {
+          userId: item.userId,
+          premioId: item.premioId,
+          premioTitle: item.premio.title,
+        });
+        published++;
+      }
+    }
+
+    if (items.length < WISHLIST_CONFIG.ALERT_BATCH_SIZE) break;
+  }
+
+  if (published > 0) {
+    console.log(`[PREMIO_WISHLIST_SERVICE] ${published} aviso(s) da lista de desejos publicados`);
+  }
+
+  return published;
+};
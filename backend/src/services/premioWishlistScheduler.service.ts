@@ -0,0 +1,89 @@
+/**
+ * @file premioWishlistScheduler.service.ts
+ * @version 2.0.0
+ * @description Job agendado em processo para os avisos da lista de desejos de prêmios.
+ * Verifica periodicamente saldo, preço vigente e estoque dos prêmios desejados, cobrindo
+ * qualquer origem da mudança (venda validada, ajuste, preço sazonal, reposição).
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Execução periódica com proteção contra execuções sobrepostas
+ */
+
+import { evaluateWishlistAlerts } from './premioWishlist.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações do job de avisos da lista de desejos
+ */
+const SCHEDULER_CONFIG = {
+  INTERVAL_MS: parseInt(process.env.PREMIO_WISHLIST_JOB_INTERVAL_MS || '900000'),
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+// ==================== ESTADO DO JOB ====================
+
+let intervalTimer: NodeJS.Timeout | null = null;
+let currentRun: Promise<void> | null = null;
+
+// ==================== EXECUÇÃO ====================
+
+/**
+ * Avalia a lista de desejos uma vez (ignorado se já houver execução em andamento)
+ */
+export const runWishlistAlertJob = async (): Promise<void> => {
+  if (currentRun) return currentRun;
+
+  currentRun = (async () => {
+    try {
+      await evaluateWishlistAlerts(new Date());
+    } catch (error) {
+      console.error('[PREMIO_WISHLIST_SCHEDULER] Erro na execução do job:', error);
+    } finally {
+      currentRun = null;
+    }
+  })();
+
+  return currentRun;
+};
+
+// ==================== API DO JOB ====================
+
+/**
+ * Inicia o job de avisos da lista de desejos
+ */
+export const startWishlistAlertScheduler = (): void => {
+  if (intervalTimer) return;
+
+  intervalTimer = setInterval(() => void runWishlistAlertJob(), SCHEDULER_CONFIG.INTERVAL_MS);
+  void runWishlistAlertJob();
+
+  console.log(`[PREMIO_WISHLIST_SCHEDULER] Job iniciado (a cada ${SCHEDULER_CONFIG.INTERVAL_MS}ms)`);
+};
+
+/**
+ * Para o job aguardando a execução em andamento
+ */
+export const stopWishlistAlertScheduler = async (): Promise<void> => {
+  if (intervalTimer) {
+    clearInterval(intervalTimer);
+    intervalTimer = null;
+  }
+
+  if (currentRun) {
+    let shutdownTimer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      shutdownTimer = setTimeout(resolve, SCHEDULER_CONFIG.SHUTDOWN_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([currentRun, timeout]);
+    } finally {
+      clearTimeout(shutdownTimer);
+    }
+  }
+
+  console.log('[PREMIO_WISHLIST_SCHEDULER] Job parado');
+};
@@ -0,0 +1,315 @@
+/**
+ * @file realtime.service.ts
+ * @version 2.0.0
+ * @description Canal de atualizações em tempo real (Server-Sent Events) do sistema EPS Campanhas.
+ * Mantém as conexões abertas em memória e converte eventos de negócio em avisos para
+ * o front-end invalidar seus dados, sem depender de broker externo.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Registro de conexões SSE por usuário com heartbeat
+ * - Envio por usuário, por perfil e para todos os conectados
+ * - Assinantes de eventos de submissão, ranking, ganhos, prêmios e notificações
+ * - Encerramento imediato dos streams de sessões revogadas
+ * - Atualização de status dos resgates de prêmios
+ */
+
+import { ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { RedemptionStatus, UserRole } from '@prisma/client';
+import { subscribeDomainEvent } from './domainEvents.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Eventos enviados ao front-end
+ */
+export type RealtimeEventName =
+  | 'connected'
+  | 'submission.created'
+  | 'submission.updated'
+  | 'ranking.updated'
+  | 'dashboard.updated'
+  | 'earning.updated'
+  | 'premio.updated'
+  | 'campaign.updated'
+  | 'notification.created';
+
+/**
+ * Conexão SSE aberta
+ */
+interface RealtimeClient {
+  id: string;
+  userId: string;
+  sessionId?: string;
+  role: UserRole;
+  stream: ServerResponse;
+  expiresAt?: number;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Intervalo do heartbeat (mantém proxies sem encerrar a conexão ociosa)
+ */
+const HEARTBEAT_INTERVAL = 25 * 1000; // 25 segundos
+
+/**
+ * Limite de conexões simultâneas por usuário (várias abas)
+ */
+const MAX_CONNECTIONS_PER_USER = 5;
+
+// ==================== ESTADO ====================
+
+const clients = new Map<string, RealtimeClient>();
+
+let heartbeatTimer: NodeJS.Timeout | null = null;
+let subscribersRegistered = false;
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Escreve evento no formato SSE
+ */
+const writeEvent = (client: RealtimeClient, event: RealtimeEventName, data: Record<string, any>): void => {
+  try {
+    client.stream.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  } catch (error) {
+    console.error(`[REALTIME_SERVICE] Erro ao enviar evento para conexão ${client.id}:`, error);
+    closeRealtimeClient(client.id);
+  }
+};
+
+/**
+ * Encerra conexão e remove do registro
+ */
+const closeRealtimeClient = (clientId: string): void => {
+  const client = clients.get(clientId);
+  if (!client) return;
+
+  clients.delete(clientId);
+
+  if (!client.stream.writableEnded) {
+    client.stream.end();
+  }
+};
+
+/**
+ * Heartbeat: envia comentário SSE e encerra conexões com token expirado
+ */
+const sendHeartbeat = (): void => {
+  const now = Date.now();
+
+  for (const client of clients.values()) {
+    if (client.expiresAt && client.expiresAt <= now) {
+      closeRealtimeClient(client.id);
+      continue;
+    }
+
+    try {
+      client.stream.write(': ping\n\n');
+    } catch {
+      closeRealtimeClient(client.id);
+    }
+  }
+};
+
+// ==================== CONEXÕES ====================
+
+/**
+ * Registra conexão SSE de um usuário autenticado.
+ * Retorna função que remove a conexão (chamada ao fechar o socket).
+ */
+export const registerRealtimeClient = (
+  user: { id: string; role: UserRole; sessionId?: string },
+  stream: ServerResponse,
+  expiresAt?: number
+): (() => void) => {
+  // Descarta as conexões mais antigas do usuário acima do limite
+  const userClients = Array.from(clients.values()).filter(client => client.userId === user.id);
+  userClients
+    .slice(0, Math.max(0, userClients.length - MAX_CONNECTIONS_PER_USER + 1))
+    .forEach(client => closeRealtimeClient(client.id));
+
+  const client: RealtimeClient = {
+    id: randomUUID(),
+    userId: user.id,
+    sessionId: user.sessionId,
+    role: user.role,
+    stream,
+    expiresAt,
+  };
+
+  clients.set(client.id, client);
+  writeEvent(client, 'connected', { connectionId: client.id });
+
+  return () => closeRealtimeClient(client.id);
+};
+
+/**
+ * Envia evento para todas as conexões dos usuários informados
+ */
+export const sendToUsers = (
+  userIds: Array<string | null | undefined>,
+  event: RealtimeEventName,
+  data: Record<string, any> = {}
+): void => {
+  const targets = new Set(userIds.filter((id): id is string => !!id));
+  if (targets.size === 0) return;
+
+  for (const client of clients.values()) {
+    if (targets.has(client.userId)) {
+      writeEvent(client, event, data);
+    }
+  }
+};
+
+/**
+ * Envia evento para todos os usuários conectados com os perfis informados
+ */
+export const sendToRoles = (
+  roles: UserRole[],
+  event: RealtimeEventName,
+  data: Record<string, any> = {}
+): void => {
+  for (const client of clients.values()) {
+    if (roles.includes(client.role)) {
+      writeEvent(client, event, data);
+    }
+  }
+};
+
+/**
+ * Envia evento para todos os usuários conectados
+ */
+export const broadcast = (event: RealtimeEventName, data: Record<string, any> = {}): void => {
+  for (const client of clients.values()) {
+    writeEvent(client, event, data);
+  }
+};
+
+/**
+ * Quantidade de conexões abertas (monitoramento)
+ */
+export const getRealtimeConnectionCount = (): number => clients.size;
+
+// ==================== CICLO DE VIDA ====================
+
+/**
+ * Inicia heartbeat e assinantes de eventos (idempotente)
+ */
+export const startRealtime = (): void => {
+  registerRealtimeSubscribers();
+
+  if (heartbeatTimer) return;
+
+  heartbeatTimer = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL);
+  heartbeatTimer.unref();
+
+  console.log('[REALTIME_SERVICE] Canal de tempo real iniciado');
+};
+
+/**
+ * Encerra heartbeat e todas as conexões abertas
+ */
+export const stopRealtime = (): void => {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+  }
+
+  for (const clientId of Array.from(clients.keys())) {
+    closeRealtimeClient(clientId);
+  }
+
+  console.log('[REALTIME_SERVICE] Canal de tempo real encerrado');
+};
+
+// ==================== ASSINANTES ====================
+
+/**
+ * Converte eventos de negócio em avisos para o front-end
+ */
+const registerRealtimeSubscribers = (): void => {
+  if (subscribersRegistered) return;
+  subscribersRegistered = true;
+
+  // Nova venda: vendedor, gerente dele e administradores (fila de validação)
+  subscribeDomainEvent('submission.created', (event) => {
+    const data = { submissionId: event.submissionId, campaignId: event.campaignId };
+
+    sendToUsers([event.userId, event.managerId], 'submission.created', data);
+    sendToRoles([UserRole.ADMIN], 'submission.created', data);
+  });
+
+  // Resultado da validação
+  subscribeDomainEvent('submission.validated', (event) => {
+    const data = { submissionId: event.submissionId, campaignId: event.campaignId, status: 'VALIDATED' };
+
+    sendToUsers([event.userId, event.managerId], 'submission.updated', data);
+    sendToRoles([UserRole.ADMIN], 'submission.updated', data);
+
+    // Pontos creditados alteram o ranking de todos
+    broadcast('ranking.updated', { userId: event.userId });
+  });
+
+  subscribeDomainEvent('submission.rejected', (event) => {
+    const data = { submissionId: event.submissionId, campaignId: event.campaignId, status: 'REJECTED' };
+
+    sendToUsers([event.userId, event.managerId], 'submission.updated', data);
+    sendToRoles([UserRole.ADMIN], 'submission.updated', data);
+  });
+
+  subscribeDomainEvent('kit.completed', (event) => {
+    sendToUsers([event.userId, event.managerId], 'dashboard.updated', {
+      kitId: event.kitId,
+      campaignId: event.campaignId,
+    });
+  });
+
+  subscribeDomainEvent('earning.paid', (event) => {
+    sendToUsers([event.userId], 'earning.updated', { earningId: event.earningId });
+    sendToRoles([UserRole.ADMIN], 'earning.updated', { earningId: event.earningId });
+  });
+
+  subscribeDomainEvent('earning.cancelled', (event) => {
+    sendToUsers([event.userId], 'earning.updated', { earningId: event.earningId });
+    sendToRoles([UserRole.ADMIN], 'earning.updated', { earningId: event.earningId });
+  });
+
+  subscribeDomainEvent('premio.redeemed', (event) => {
+    sendToUsers([event.userId], 'dashboard.updated', { redemptionId: event.redemptionId });
+
+    // Estoque mudou para todos que veem o catálogo
+    broadcast('premio.updated', { premioId: event.premioId });
+  });
+
+  subscribeDomainEvent('premio.redemption_updated', (event) => {
+    sendToUsers([event.userId], 'dashboard.updated', { redemptionId: event.redemptionId });
+
+    // Cancelamento devolve estoque ao catálogo
+    if (event.status === RedemptionStatus.CANCELADO) {
+      broadcast('premio.updated', { premioId: event.premioId });
+    }
+  });
+
+  subscribeDomainEvent('campaign.activated', (event) => {
+    broadcast('campaign.updated', { campaignId: event.campaignId });
+  });
+
+  subscribeDomainEvent('notification.created', (event) => {
+    sendToUsers(event.userIds, 'notification.created');
+  });
+
+  // Sessão revogada (logout, bloqueio): derruba os streams abertos por ela
+  subscribeDomainEvent('session.revoked', (event) => {
+    const revoked = new Set(event.sessionIds);
+
+    for (const client of Array.from(clients.values())) {
+      if (client.userId === event.userId && client.sessionId && revoked.has(client.sessionId)) {
+        closeRealtimeClient(client.id);
+      }
+    }
+  });
+};
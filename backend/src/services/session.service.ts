@@ -0,0 +1,191 @@
+/**
+ * @file session.service.ts
+ * @version 2.0.0
+ * @description Sessões de autenticação persistidas do sistema EPS Campanhas.
+ * Cada login cria uma sessão; o refresh token carrega o JTI atual da sessão e é
+ * rotacionado a cada renovação. Reuso de refresh token antigo revoga a sessão.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Criação, rotação e revogação de sessões
+ * - Detecção de reuso de refresh token
+ * - Verificação de sessão ativa para o middleware de autenticação
+ */
+
+import { randomUUID } from 'crypto';
+import { Session } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+import { publishDomainEvent } from './domainEvents.service';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Contexto da requisição que originou a sessão
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Motivos de revogação registrados na sessão
+ */
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'REFRESH_REUSE'
+  | 'USER_BLOCKED'
+  | 'PASSWORD_CHANGED'
+  | 'PASSWORD_RESET'
+  | 'ADMIN_INVALIDATED';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Duração máxima da sessão (mesma validade do refresh token)
+ */
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000; // 30 dias
+
+/**
+ * Mensagens de erro
+ */
+const ERROR_MESSAGES = {
+  SESSION_NOT_FOUND: 'Sessão inválida',
+  SESSION_REVOKED: 'Sessão revogada',
+  SESSION_EXPIRED: 'Sessão expirada',
+  REFRESH_REUSED: 'Refresh token inválido: reutilização detectada, sessão revogada',
+};
+
+// ==================== SERVIÇOS PRINCIPAIS ====================
+
+/**
+ * Cria sessão para o usuário. Retorna a sessão com o JTI do primeiro refresh token.
+ */
+export const createSession = async (
+  userId: string,
+  context: SessionContext = {},
+  tx?: PrismaTransactionClient
+): Promise<Session> => {
+  const client = tx || prisma;
+
+  return client.session.create({
+    data: {
+      userId,
+      refreshJti: randomUUID(),
+      userAgent: context.userAgent?.substring(0, 255),
+      ipAddress: context.ipAddress,
+      expiresAt: new Date(Date.now() + SESSION_TTL),
+    },
+  });
+};
+
+/**
+ * Rotaciona o refresh token da sessão.
+ * Só aceita o JTI vigente; um JTI antigo indica token roubado/reutilizado e revoga a sessão.
+ */
+export const rotateSession = async (sessionId: string, presentedJti: string): Promise<Session> => {
+  const session = await prisma.session.findUnique({ where: { id: sessionId } });
+
+  if (!session) {
+    throw new Error(ERROR_MESSAGES.SESSION_NOT_FOUND);
+  }
+
+  if (session.revokedAt) {
+    throw new Error(ERROR_MESSAGES.SESSION_REVOKED);
+  }
+
+  if (session.expiresAt < new Date()) {
+    throw new Error(ERROR_MESSAGES.SESSION_EXPIRED);
+  }
+
+  // Atualização condicional: duas renovações concorrentes com o mesmo token não passam juntas
+  const newJti = randomUUID();
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, refreshJti: presentedJti, revokedAt: null },
+    data: { refreshJti: newJti, lastUsedAt: new Date() },
+  });
+
+  if (count === 0) {
+    console.warn(`[SESSION_SERVICE] Reuso de refresh token detectado na sessão ${sessionId}`);
+    await revokeSession(sessionId, 'REFRESH_REUSE');
+    throw new Error(ERROR_MESSAGES.REFRESH_REUSED);
+  }
+
+  return { ...session, refreshJti: newJti, lastUsedAt: new Date() };
+};
+
+/**
+ * Verifica se a sessão existe, não foi revogada e não expirou
+ */
+export const isSessionActive = async (sessionId: string, userId: string): Promise<boolean> => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true, expiresAt: true },
+  });
+
+  return !!session
+    && session.userId === userId
+    && !session.revokedAt
+    && session.expiresAt > new Date();
+};
+
+/**
+ * Revoga uma sessão
+ */
+export const revokeSession = async (
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<void> => {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { userId: true },
+  });
+
+  if (!session) return;
+
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  publishDomainEvent('session.revoked', { userId: session.userId, sessionIds: [sessionId] });
+
+  console.log(`[SESSION_SERVICE] Sessão ${sessionId} revogada (${reason})`);
+};
+
+/**
+ * Revoga todas as sessões ativas do usuário (opcionalmente mantendo a atual).
+ * Com transação, a publicação do evento fica a cargo de quem faz o commit.
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  reason: SessionRevokeReason,
+  options: { exceptSessionId?: string; tx?: PrismaTransactionClient } = {}
+): Promise<string[]> => {
+  const client = options.tx || prisma;
+
+  const sessions = await client.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(options.exceptSessionId && { id: { not: options.exceptSessionId } }),
+    },
+    select: { id: true },
+  });
+
+  const sessionIds = sessions.map(session => session.id);
+  if (sessionIds.length === 0) return [];
+
+  await client.session.updateMany({
+    where: { id: { in: sessionIds } },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  if (!options.tx) {
+    publishDomainEvent('session.revoked', { userId, sessionIds });
+  }
+
+  console.log(`[SESSION_SERVICE] ${sessionIds.length} sessão(ões) do usuário ${userId} revogada(s) (${reason})`);
+
+  return sessionIds;
+};
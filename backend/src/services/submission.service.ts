@@ -12,6 +12,9 @@
  * - Validação de submissões com regras de negócio
  * - Processamento em lote otimizado
  * - Sistema de pontuação automática
+ * - Earnings vinculados à submissão de origem, com criação registrada no histórico
+ * - Orçamento da campanha verificado antes de conceder o prêmio da venda validada
+ * - Pontos do gerente calculados em centavos com arredondamento half-up (utils/money)
  */
 
 import { prisma, PrismaTransactionClient, prismaUtils } from '../../lib/prismaClient';
@@ -21,7 +24,6 @@ import {
   CampaignStatus,
   ActivityType,
   EarningType,
-  EarningStatus,
   UserRole
 } from '@prisma/client';
 import { 
@@ -35,6 +37,14 @@ import {
   TransferSubmissionData,
   UserSubmissionStatsQuery
 } from '../schemas/submission.schema';
+import { publishDomainEvent } from './domainEvents.service';
+import { createEarningsFromDrafts, EarningDraft } from './earning.service';
+import {
+  checkCampaignBudgetAlerts,
+  evaluateCampaignAward,
+  holdCampaignAward
+} from './campaignBudget.service';
+import { percentOf } from '../utils/money';
 
 // ==================== INTERFACES E TIPOS ====================
 
@@ -92,8 +102,41 @@ interface ValidationResult {
   };
   earningsCreated?: string[];
   kitStatusChanged?: boolean;
+  /** Prêmio não concedido por falta de orçamento da campanha */
+  budgetOutcome?: {
+    status: 'HELD' | 'BLOCKED';
+    reason: string;
+    limit: 'TOTAL' | 'SELLER';
+  };
+}
+
+/**
+ * Earning calculado a partir de uma submissão validada
+ */
+type SubmissionEarningDraft = EarningDraft;
+
+/**
+ * Interface para projeção de validação (simulação sem gravar)
+ */
+export interface SubmissionValidationProjection {
+  submissionId: string;
+  orderNumber: string;
+  currentStatus: CampaignSubmissionStatus;
+  newStatus: CampaignSubmissionStatus;
+  pointsAwarded?: {
+    seller: number;
+    manager?: number;
+  };
+  earnings: Array<{ type: EarningType; userId: string; amount: number }>;
+  kitId: string;
+  kitWouldComplete: boolean;
 }
 
+/**
+ * Quantidades validadas ainda não gravadas, agrupadas por kit (usado na simulação)
+ */
+export type PendingKitValidations = Map<string, Array<{ requirementId: string; quantity: number }>>;
+
 /**
  * Interface para estatísticas de usuário
  */
@@ -172,6 +215,22 @@ const getOrCreateActiveKit = async (
   return activeKit.id;
 };
 
+/**
+ * Verifica se as quantidades validadas atingem todas as metas da campanha
+ */
+const areKitRequirementsMet = (
+  requirements: Array<{ id: string; quantity: number }>,
+  validatedSubmissions: Array<{ requirementId: string; quantity: number }>
+): boolean => {
+  return requirements.every(requirement => {
+    const completedQuantity = validatedSubmissions
+      .filter(sub => sub.requirementId === requirement.id)
+      .reduce((sum, sub) => sum + sub.quantity, 0);
+
+    return completedQuantity >= requirement.quantity;
+  });
+};
+
 /**
  * Verifica se kit foi completado e atualiza status
  */
@@ -199,13 +258,7 @@ const checkAndUpdateKitCompletion = async (
   if (!kit) return false;
 
   // Verifica se todas as metas foram atingidas
-  const isCompleted = kit.campaign.goalRequirements.every(requirement => {
-    const completedQuantity = kit.submissions
-      .filter(sub => sub.requirementId === requirement.id)
-      .reduce((sum, sub) => sum + sub.quantity, 0);
-    
-    return completedQuantity >= requirement.quantity;
-  });
+  const isCompleted = areKitRequirementsMet(kit.campaign.goalRequirements, kit.submissions);
 
   // Atualiza status do kit se necessário
   if (isCompleted && kit.status !== CampaignKitStatus.COMPLETED) {
@@ -221,14 +274,14 @@ const checkAndUpdateKitCompletion = async (
 };
 
 /**
- * Calcula e cria earnings para submissão validada
+ * Calcula os earnings (vendedor e gerente) gerados por uma submissão validada
  */
-const createEarningsForValidatedSubmission = async (
+const calculateSubmissionEarnings = async (
   submission: FullSubmission,
   tx?: PrismaTransactionClient
-): Promise<string[]> => {
+): Promise<SubmissionEarningDraft[]> => {
   const client = tx || prisma;
-  const earningsCreated: string[] = [];
+  const drafts: SubmissionEarningDraft[] = [];
 
   // Busca dados da campanha para calcular pontos
   const campaign = await client.campaign.findUnique({
@@ -240,34 +293,24 @@ const createEarningsForValidatedSubmission = async (
   });
 
   if (!campaign || !campaign.pointsOnCompletion) {
-    return earningsCreated;
+    return drafts;
   }
 
   // Calcula pontos para o vendedor
   const sellerPoints = campaign.pointsOnCompletion * submission.quantity;
 
-  // Cria earning para o vendedor
-  const sellerEarning = await client.earning.create({
-    data: {
-      type: EarningType.SELLER,
-      userId: submission.userId,
-      userName: submission.user.name,
-      userAvatarUrl: submission.user.avatarUrl,
-      campaignId: submission.campaignId,
-      campaignTitle: submission.campaign.title,
-      kitId: submission.kitId,
-      amount: sellerPoints,
-      earningDate: new Date(),
-      status: EarningStatus.PENDENTE,
-      description: `Venda validada: ${submission.orderNumber}`,
-    },
+  drafts.push({
+    type: EarningType.SELLER,
+    userId: submission.userId,
+    userName: submission.user.name,
+    userAvatarUrl: submission.user.avatarUrl,
+    amount: sellerPoints,
+    description: `Venda validada: ${submission.orderNumber}`,
   });
 
-  earningsCreated.push(sellerEarning.id);
-
   // Se há percentual para gerente e vendedor tem gerente
   if (campaign.managerPointsPercentage && submission.user.managerId) {
-    const managerPoints = sellerPoints * (campaign.managerPointsPercentage / 100);
+    const managerPoints = percentOf(sellerPoints, campaign.managerPointsPercentage);
 
     // Busca dados do gerente
     const manager = await client.user.findUnique({
@@ -276,28 +319,88 @@ const createEarningsForValidatedSubmission = async (
     });
 
     if (manager) {
-      const managerEarning = await client.earning.create({
-        data: {
-          type: EarningType.MANAGER,
-          userId: submission.user.managerId,
-          userName: manager.name,
-          userAvatarUrl: manager.avatarUrl,
-          campaignId: submission.campaignId,
-          campaignTitle: submission.campaign.title,
-          kitId: submission.kitId,
-          sourceUserName: submission.user.name,
-          amount: managerPoints,
-          earningDate: new Date(),
-          status: EarningStatus.PENDENTE,
-          description: `Venda da equipe validada: ${submission.orderNumber} (vendedor: ${submission.user.name})`,
-        },
+      drafts.push({
+        type: EarningType.MANAGER,
+        userId: submission.user.managerId,
+        userName: manager.name,
+        userAvatarUrl: manager.avatarUrl,
+        sourceUserName: submission.user.name,
+        amount: managerPoints,
+        description: `Venda da equipe validada: ${submission.orderNumber} (vendedor: ${submission.user.name})`,
       });
+    }
+  }
+
+  return drafts;
+};
 
-      earningsCreated.push(managerEarning.id);
+/**
+ * Resume os pontos concedidos por tipo de earning
+ */
+const summarizeAwardedPoints = (
+  drafts: Array<{ type: EarningType; amount: number }>
+): { seller: number; manager?: number } => {
+  const manager = drafts.find(draft => draft.type === EarningType.MANAGER);
+
+  return {
+    seller: drafts
+      .filter(draft => draft.type === EarningType.SELLER)
+      .reduce((sum, draft) => sum + draft.amount, 0),
+    ...(manager && { manager: manager.amount }),
+  };
+};
+
+/**
+ * Cria earnings para submissão validada e credita os pontos aos usuários.
+ * Com orçamento configurado na campanha, prêmios acima do teto são bloqueados ou retidos para aprovação.
+ */
+const createEarningsForValidatedSubmission = async (
+  submission: FullSubmission,
+  validatorId: string,
+  tx: PrismaTransactionClient
+): Promise<{
+  earningsCreated: string[];
+  drafts: SubmissionEarningDraft[];
+  budgetOutcome?: ValidationResult['budgetOutcome'];
+}> => {
+  const drafts = await calculateSubmissionEarnings(submission, tx);
+
+  if (drafts.length === 0) {
+    return { earningsCreated: [], drafts };
+  }
+
+  const source = {
+    campaignId: submission.campaignId,
+    campaignTitle: submission.campaign.title,
+    kitId: submission.kitId,
+    submissionId: submission.id,
+  };
+
+  const decision = await evaluateCampaignAward(tx, submission.campaignId, submission.userId, drafts);
+
+  if (decision.outcome !== 'AWARD') {
+    if (decision.outcome === 'HELD') {
+      await holdCampaignAward(tx, source, submission.userId, drafts, decision.reason);
+    } else {
+      console.warn(`[SUBMISSION_SERVICE] Prêmio não concedido para ${submission.id}: ${decision.reason}`);
     }
+
+    return {
+      earningsCreated: [],
+      drafts: [],
+      budgetOutcome: { status: decision.outcome, reason: decision.reason, limit: decision.limit },
+    };
   }
 
-  return earningsCreated;
+  const earningsCreated = await createEarningsFromDrafts(
+    tx,
+    source,
+    drafts,
+    `Venda validada: ${submission.orderNumber}`,
+    validatorId
+  );
+
+  return { earningsCreated, drafts };
 };
 
 /**
@@ -337,7 +440,7 @@ const logSubmissionActivity = async (
  */
 export const createSubmission = async (submissionData: CreateSubmissionData & { userId: string }): Promise<FullSubmission> => {
   try {
-    return await prisma.$transaction(async (tx) => {
+    const createdSubmission = await prisma.$transaction(async (tx) => {
       const { campaignId, requirementId, orderNumber, quantity, notes, userId } = submissionData;
 
       // Verifica se campanha está ativa
@@ -441,6 +544,16 @@ export const createSubmission = async (submissionData: CreateSubmissionData & {
       return submission as FullSubmission;
     });
 
+    publishDomainEvent('submission.created', {
+      submissionId: createdSubmission.id,
+      orderNumber: createdSubmission.orderNumber,
+      userId: createdSubmission.userId,
+      managerId: createdSubmission.user.managerId,
+      campaignId: createdSubmission.campaignId,
+    });
+
+    return createdSubmission;
+
   } catch (error) {
     console.error('[SUBMISSION_SERVICE] Erro ao criar submissão:', error);
     
@@ -750,16 +863,60 @@ export const listSubmissions = async (filters: SubmissionFilters) => {
   }
 };
 
+/**
+ * Publica eventos de negócio decorrentes de uma validação concluída
+ */
+const publishValidationEvents = (
+  validation: ValidationResult,
+  validationData: ValidateSubmissionData
+): void => {
+  const { submission } = validation;
+  const baseEvent = {
+    submissionId: submission.id,
+    orderNumber: submission.orderNumber,
+    userId: submission.userId,
+    managerId: submission.user.managerId,
+    campaignId: submission.campaignId,
+    campaignTitle: submission.campaign.title,
+  };
+
+  if (validationData.status !== CampaignSubmissionStatus.VALIDATED) {
+    publishDomainEvent('submission.rejected', {
+      ...baseEvent,
+      reason: validationData.validationMessage,
+    });
+    return;
+  }
+
+  // Pontos creditados são arredondados como em user.points
+  publishDomainEvent('submission.validated', {
+    ...baseEvent,
+    pointsAwarded: Math.round(validation.pointsAwarded?.seller || 0),
+  });
+
+  if (validation.kitStatusChanged && submission.kitId) {
+    publishDomainEvent('kit.completed', {
+      kitId: submission.kitId,
+      campaignId: submission.campaignId,
+      campaignTitle: submission.campaign.title,
+      userId: submission.userId,
+      userName: submission.user.name,
+      managerId: submission.user.managerId,
+    });
+  }
+};
+
 /**
  * Valida submissão (aprovação/rejeição)
  */
 export const validateSubmission = async (
   submissionId: string,
   validationData: ValidateSubmissionData,
-  validatorId: string
+  validatorId: string,
+  options: { allowRejected?: boolean } = {}
 ): Promise<ValidationResult> => {
   try {
-    return await prisma.$transaction(async (tx) => {
+    const validation = await prisma.$transaction(async (tx) => {
       // Busca submissão completa
       const submission = await getSubmissionById(submissionId);
       
@@ -767,7 +924,10 @@ export const validateSubmission = async (
         throw new Error('Submissão não encontrada');
       }
 
-      if (submission.status !== CampaignSubmissionStatus.PENDING) {
+      // Reprocessamento de rejeitadas só quando explicitamente permitido (ex.: planilha com OVERWRITE)
+      const canReprocess = options.allowRejected && submission.status === CampaignSubmissionStatus.REJECTED;
+
+      if (submission.status !== CampaignSubmissionStatus.PENDING && !canReprocess) {
         throw new Error('Apenas submissões pendentes podem ser validadas');
       }
 
@@ -820,12 +980,15 @@ export const validateSubmission = async (
 
       // Se foi validada, processa earnings e verifica conclusão do kit
       if (validationData.status === CampaignSubmissionStatus.VALIDATED) {
-        // Cria earnings
-        const earningsCreated = await createEarningsForValidatedSubmission(
-          updatedSubmission as FullSubmission, 
+        // Cria earnings e credita pontos
+        const { earningsCreated, drafts, budgetOutcome } = await createEarningsForValidatedSubmission(
+          updatedSubmission as FullSubmission,
+          validatorId,
           tx
         );
         result.earningsCreated = earningsCreated;
+        result.pointsAwarded = summarizeAwardedPoints(drafts);
+        result.budgetOutcome = budgetOutcome;
 
         // Verifica se kit foi completado
         const kitCompleted = await checkAndUpdateKitCompletion(submission.kitId, tx);
@@ -859,6 +1022,17 @@ export const validateSubmission = async (
       return result;
     });
 
+    // Eventos só após o commit, para não notificar validações revertidas
+    publishValidationEvents(validation, validationData);
+
+    if (validationData.status === CampaignSubmissionStatus.VALIDATED) {
+      await checkCampaignBudgetAlerts(validation.submission.campaignId, {
+        totalLimitReached: validation.budgetOutcome?.limit === 'TOTAL',
+      });
+    }
+
+    return validation;
+
   } catch (error) {
     console.error('[SUBMISSION_SERVICE] Erro ao validar submissão:', error);
     
@@ -870,6 +1044,90 @@ export const validateSubmission = async (
   }
 };
 
+/**
+ * Simula a validação de uma submissão sem gravar nada (modo de teste).
+ * Usa o mesmo cálculo de earnings e de conclusão de kit de validateSubmission.
+ * pendingValidations acumula as validações simuladas anteriores do mesmo lote.
+ */
+export const projectSubmissionValidation = async (
+  submissionId: string,
+  status: CampaignSubmissionStatus,
+  pendingValidations: PendingKitValidations = new Map(),
+  options: { allowRejected?: boolean } = {}
+): Promise<SubmissionValidationProjection> => {
+  try {
+    const submission = await getSubmissionById(submissionId);
+
+    if (!submission) {
+      throw new Error('Submissão não encontrada');
+    }
+
+    const canReprocess = options.allowRejected && submission.status === CampaignSubmissionStatus.REJECTED;
+
+    if (submission.status !== CampaignSubmissionStatus.PENDING && !canReprocess) {
+      throw new Error('Apenas submissões pendentes podem ser validadas');
+    }
+
+    const projection: SubmissionValidationProjection = {
+      submissionId,
+      orderNumber: submission.orderNumber,
+      currentStatus: submission.status,
+      newStatus: status,
+      earnings: [],
+      kitId: submission.kitId,
+      kitWouldComplete: false,
+    };
+
+    if (status !== CampaignSubmissionStatus.VALIDATED) {
+      return projection;
+    }
+
+    const drafts = await calculateSubmissionEarnings(submission);
+    projection.earnings = drafts.map(draft => ({
+      type: draft.type,
+      userId: draft.userId,
+      amount: draft.amount,
+    }));
+    projection.pointsAwarded = summarizeAwardedPoints(drafts);
+
+    // Soma validações já gravadas com as simuladas no mesmo lote
+    const kitPending = pendingValidations.get(submission.kitId) || [];
+    const previousPending = [...kitPending];
+    kitPending.push({ requirementId: submission.requirementId, quantity: submission.quantity });
+    pendingValidations.set(submission.kitId, kitPending);
+
+    const kit = await prisma.campaignKit.findUnique({
+      where: { id: submission.kitId },
+      include: {
+        campaign: { include: { goalRequirements: true } },
+        submissions: {
+          where: { status: CampaignSubmissionStatus.VALIDATED },
+          select: { requirementId: true, quantity: true },
+        },
+      },
+    });
+
+    // Só conta a conclusão na submissão que efetivamente fecha o kit
+    if (kit && kit.status !== CampaignKitStatus.COMPLETED) {
+      const requirements = kit.campaign.goalRequirements;
+      projection.kitWouldComplete =
+        !areKitRequirementsMet(requirements, [...kit.submissions, ...previousPending]) &&
+        areKitRequirementsMet(requirements, [...kit.submissions, ...kitPending]);
+    }
+
+    return projection;
+
+  } catch (error) {
+    console.error('[SUBMISSION_SERVICE] Erro ao simular validação:', error);
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
+    throw new Error('Erro interno ao simular validação');
+  }
+};
+
 /**
  * Validação em lote de submissões
  */
@@ -12,11 +12,14 @@
  * - Gestão de pontuação e níveis
  * - Relatórios e estatísticas detalhadas
  * - Operações em lote para administradores
+ * - Ajustes de pontos registrados em lotes com validade
+ * - Ajustes de pontos lançados no extrato com o autor
  */
 
 import bcrypt from 'bcrypt';
 import { prisma, PrismaTransactionClient, prismaUtils } from '../../lib/prismaClient';
-import { UserRole, UserStatus, ActivityType } from '@prisma/client';
+import { calculatePointsExpiry, consumePoints, grantPoints, setPointsBalance } from './pointLot.service';
+import { UserRole, UserStatus, ActivityType, PointLotSource, PointTransactionType } from '@prisma/client';
 import { 
   CreateUserData, 
   UpdateUserData, 
@@ -39,6 +42,8 @@ import {
   USER_LEVELS,
   LEVEL_POINTS 
 } from '../utils/normalizers';
+import { revokeUserSessions } from './session.service';
+import { authUtils } from '../middleware/auth.middleware';
 
 // ==================== INTERFACES E TIPOS ====================
 
@@ -304,6 +309,54 @@ const validateManagerDeletion = async (
   }
 };
 
+// ==================== BLOQUEIO DE ACESSO ====================
+
+/**
+ * Aplica o novo status do usuário em transação e, após o commit, invalida o
+ * cache de autenticação; bloqueio também revoga as sessões ativas na hora
+ * (não espera o token expirar)
+ */
+const applyUserStatusChange = async (
+  userId: string,
+  status: UserStatus,
+  describe: (user: { name: string }) => string
+): Promise<void> => {
+  await prisma.$transaction(async (tx) => {
+    const user = await tx.user.findUnique({
+      where: { id: userId },
+      select: { id: true, name: true, role: true },
+    });
+
+    if (!user) {
+      throw new Error('Usuário não encontrado');
+    }
+
+    // Bloquear gerente exige que ele não tenha vendedores
+    if (status === UserStatus.BLOCKED && user.role === UserRole.GERENTE) {
+      await validateManagerDeletion(userId, tx);
+    }
+
+    await tx.user.update({
+      where: { id: userId },
+      data: { status },
+    });
+
+    await logUserActivity(
+      userId,
+      ActivityType.ADMIN_USER_BLOCKED,
+      describe(user),
+      undefined,
+      tx
+    );
+  });
+
+  authUtils.invalidateUserCache(userId);
+
+  if (status === UserStatus.BLOCKED) {
+    await revokeUserSessions(userId, 'USER_BLOCKED');
+  }
+};
+
 // ==================== SERVIÇOS PRINCIPAIS ====================
 
 /**
@@ -359,6 +412,26 @@ export const createUser = async (userData: CreateUserData): Promise<FullUser> =>
           pointsToNextLevel: pointsToNext,
           managerId: normalizedData.managerId,
           passwordHash,
+          // Pontos iniciais também expiram e abrem o extrato
+          ...(initialPoints > 0 && {
+            pointLots: {
+              create: {
+                source: PointLotSource.MANUAL_ADJUSTMENT,
+                points: initialPoints,
+                remainingPoints: initialPoints,
+                expiresAt: calculatePointsExpiry(new Date()),
+                description: 'Pontos iniciais',
+              },
+            },
+            pointTransactions: {
+              create: {
+                type: PointTransactionType.MANUAL_ADJUSTMENT,
+                amount: initialPoints,
+                balanceAfter: initialPoints,
+                description: 'Pontos iniciais',
+              },
+            },
+          }),
         },
         include: {
           manager: {
@@ -455,8 +528,11 @@ export const updateUser = async (userId: string, userData: UpdateUserData): Prom
 
       // Recalcula nível se pontos foram alterados
       if (userData.points !== undefined) {
-        const { level, pointsToNext } = calculateLevelFromPoints(userData.points);
-        updateData.points = userData.points;
+        // Saldo absoluto vira crédito ou débito (FIFO) da diferença nos lotes
+        const newPoints = await setPointsBalance(tx, userId, userData.points, {
+          description: 'Saldo ajustado na edição do usuário',
+        });
+        const { level, pointsToNext } = calculateLevelFromPoints(newPoints);
         updateData.level = level;
         updateData.pointsToNextLevel = pointsToNext;
       } else if (userData.pointsToNextLevel !== undefined) {
@@ -631,36 +707,13 @@ export const updateUserStatus = async (
   statusData: UpdateUserStatusData
 ): Promise<void> => {
   try {
-    return await prisma.$transaction(async (tx) => {
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { id: true, name: true, role: true, status: true },
-      });
-
-      if (!user) {
-        throw new Error('Usuário não encontrado');
-      }
+    const action = statusData.status === UserStatus.BLOCKED ? 'bloqueado' : 'ativado';
 
-      // Se está bloqueando um gerente, valida se não tem vendedores
-      if (statusData.status === UserStatus.BLOCKED && user.role === UserRole.GERENTE) {
-        await validateManagerDeletion(userId, tx);
-      }
-
-      await tx.user.update({
-        where: { id: userId },
-        data: { status: statusData.status },
-      });
-
-      // Registra atividade
-      const action = statusData.status === UserStatus.BLOCKED ? 'bloqueado' : 'ativado';
-      await logUserActivity(
-        userId,
-        ActivityType.ADMIN_USER_BLOCKED,
-        `Usuário ${action}: ${statusData.reason}`,
-        undefined,
-        tx
-      );
-    });
+    await applyUserStatusChange(
+      userId,
+      statusData.status,
+      () => `Usuário ${action}: ${statusData.reason}`
+    );
 
   } catch (error) {
     console.error('[USER_SERVICE] Erro ao atualizar status:', error);
@@ -726,7 +779,8 @@ export const resetUserPassword = async (
  */
 export const updateUserPoints = async (
   userId: string, 
-  pointsData: UpdateUserPointsData
+  pointsData: UpdateUserPointsData,
+  actorId?: string
 ): Promise<{ newPoints: number; newLevel: string }> => {
   try {
     return await prisma.$transaction(async (tx) => {
@@ -739,13 +793,30 @@ export const updateUserPoints = async (
         throw new Error('Usuário não encontrado');
       }
 
-      let newPoints = pointsData.points;
+      const description = `Ajuste manual: ${pointsData.reason}`;
+      let newPoints: number;
 
-      // Calcula pontos baseado na operação
+      // Créditos viram um novo lote; débitos consomem os lotes que vencem primeiro
       if (pointsData.operation === 'add') {
-        newPoints = user.points + pointsData.points;
+        await grantPoints(tx, {
+          userId,
+          points: pointsData.points,
+          source: PointLotSource.MANUAL_ADJUSTMENT,
+          description,
+          createdById: actorId,
+        });
+        newPoints = user.points + Math.round(pointsData.points);
       } else if (pointsData.operation === 'subtract') {
-        newPoints = Math.max(0, user.points - pointsData.points);
+        const consumed = await consumePoints(
+          tx,
+          userId,
+          pointsData.points,
+          { type: PointTransactionType.MANUAL_ADJUSTMENT, description, actorId },
+          { allowPartial: true }
+        );
+        newPoints = user.points - consumed;
+      } else {
+        newPoints = await setPointsBalance(tx, userId, pointsData.points, { description, createdById: actorId });
       }
 
       // Calcula novo nível
@@ -754,7 +825,6 @@ export const updateUserPoints = async (
       await tx.user.update({
         where: { id: userId },
         data: {
-          points: newPoints,
           level,
           pointsToNextLevel: pointsToNext,
         },
@@ -949,35 +1019,12 @@ export const getManagerSellers = async (managerId: string, includeInactive = fal
  */
 export const deleteUser = async (userId: string): Promise<void> => {
   try {
-    return await prisma.$transaction(async (tx) => {
-      const user = await tx.user.findUnique({
-        where: { id: userId },
-        select: { id: true, role: true, name: true },
-      });
-
-      if (!user) {
-        throw new Error('Usuário não encontrado');
-      }
-
-      // Se é gerente, valida se pode ser excluído
-      if (user.role === UserRole.GERENTE) {
-        await validateManagerDeletion(userId, tx);
-      }
-
-      // Bloqueia ao invés de excluir para manter integridade referencial
-      await tx.user.update({
-        where: { id: userId },
-        data: { status: UserStatus.BLOCKED },
-      });
-
-      await logUserActivity(
-        userId,
-        ActivityType.ADMIN_USER_BLOCKED,
-        `Usuário removido: ${user.name}`,
-        undefined,
-        tx
-      );
-    });
+    // Bloqueia ao invés de excluir para manter integridade referencial
+    await applyUserStatusChange(
+      userId,
+      UserStatus.BLOCKED,
+      user => `Usuário removido: ${user.name}`
+    );
 
   } catch (error) {
     console.error('[USER_SERVICE] Erro ao excluir usuário:', error);
@@ -0,0 +1,140 @@
+/**
+ * @file userToken.service.ts
+ * @version 2.0.0
+ * @description Tokens de uso único enviados por e-mail (redefinição de senha e verificação de e-mail).
+ * Apenas o hash SHA-256 do token é persistido; o valor em claro só existe no link enviado ao usuário.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Emissão de tokens com expiração e invalidação dos anteriores do mesmo tipo
+ * - Consumo atômico (o mesmo token não pode ser usado duas vezes)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { UserToken, UserTokenType } from '@prisma/client';
+import { prisma, PrismaTransactionClient } from '../../lib/prismaClient';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Validade de cada tipo de token
+ */
+const TOKEN_TTL: Record<UserTokenType, number> = {
+  PASSWORD_RESET: 60 * 60 * 1000, // 1 hora
+  EMAIL_VERIFICATION: 48 * 60 * 60 * 1000, // 48 horas
+};
+
+/**
+ * Mensagens de erro
+ */
+const ERROR_MESSAGES = {
+  TOKEN_INVALID: 'Token inválido ou já utilizado',
+  TOKEN_EXPIRED: 'Token expirado',
+};
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Hash do token (o valor em claro nunca é gravado)
+ */
+const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
+
+// ==================== SERVIÇOS PRINCIPAIS ====================
+
+/**
+ * Emite novo token para o usuário. Tokens anteriores não usados do mesmo tipo deixam de valer.
+ * Retorna o token em claro (para compor o link) e a data de expiração.
+ */
+export const issueUserToken = async (
+  userId: string,
+  type: UserTokenType,
+  tx?: PrismaTransactionClient
+): Promise<{ token: string; expiresAt: Date }> => {
+  const client = tx || prisma;
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + TOKEN_TTL[type]);
+
+  await client.userToken.updateMany({
+    where: { userId, type, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  await client.userToken.create({
+    data: {
+      userId,
+      type,
+      tokenHash: hashToken(token),
+      expiresAt,
+    },
+  });
+
+  return { token, expiresAt };
+};
+
+/**
+ * Busca token válido (não usado e não expirado). Lança erro caso contrário.
+ */
+export const findValidUserToken = async (
+  token: string,
+  type: UserTokenType,
+  tx?: PrismaTransactionClient
+): Promise<UserToken> => {
+  const client = tx || prisma;
+
+  const userToken = await client.userToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (!userToken || userToken.type !== type || userToken.usedAt) {
+    throw new Error(ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  if (userToken.expiresAt < new Date()) {
+    throw new Error(ERROR_MESSAGES.TOKEN_EXPIRED);
+  }
+
+  return userToken;
+};
+
+/**
+ * Consome token de forma atômica e retorna o registro consumido.
+ * Duas requisições concorrentes com o mesmo token: apenas uma passa.
+ */
+export const consumeUserToken = async (
+  token: string,
+  type: UserTokenType,
+  tx?: PrismaTransactionClient
+): Promise<UserToken> => {
+  const client = tx || prisma;
+  const userToken = await findValidUserToken(token, type, client);
+
+  const { count } = await client.userToken.updateMany({
+    where: { id: userToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 0) {
+    throw new Error(ERROR_MESSAGES.TOKEN_INVALID);
+  }
+
+  return userToken;
+};
+
+/**
+ * Data de emissão do último token do tipo (controle de reenvio)
+ */
+export const getLastUserTokenIssuedAt = async (
+  userId: string,
+  type: UserTokenType
+): Promise<Date | null> => {
+  const lastToken = await prisma.userToken.findFirst({
+    where: { userId, type },
+    orderBy: { createdAt: 'desc' },
+    select: { createdAt: true },
+  });
+
+  return lastToken?.createdAt ?? null;
+};
@@ -12,9 +12,12 @@
  * - Mapeamento dinâmico de colunas
  * - Validação de regras de negócio
  * - Sistema de duplicatas e carência
+ * - Valores de venda e pontos distribuídos em centavos (utils/money)
  */
 
 import * as XLSX from 'xlsx';
+import { promises as fs } from 'fs';
+import path from 'path';
 import { prisma, PrismaTransactionClient, prismaUtils } from '../../lib/prismaClient';
 import { 
   ValidationStatus, 
@@ -23,10 +26,12 @@ import {
   ActivityType,
   CampaignSubmissionStatus,
   TargetField,
-  RuleOperator
+  RuleOperator,
+  Prisma
 } from '@prisma/client';
 import { 
   ValidationConfigData,
+  ColumnMappingData,
   ValidationHistoryFilters,
   ReprocessValidationJobData,
   ValidationReportQuery
@@ -36,8 +41,15 @@ import {
   normalizeCNPJ, 
   isValidCPF, 
   isValidCNPJ,
-  normalizeDate 
+  normalizeDate,
+  normalizeHeaderText
 } from '../utils/normalizers';
+import { isNumericText, parseMoney, sumMoney, toMoney } from '../utils/money';
+import {
+  validateSubmission,
+  projectSubmissionValidation,
+  PendingKitValidations
+} from './submission.service';
 
 // ==================== INTERFACES E TIPOS ====================
 
@@ -64,6 +76,12 @@ interface FullValidationJob {
   processingDuration?: number;
   fileSize?: number;
   rowsProcessed?: number;
+  config?: any;
+  filePath?: string | null;
+  errorMessage?: string | null;
+  cancelRequested?: boolean;
+  cancelReason?: string | null;
+  cancelledAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -82,6 +100,48 @@ interface ValidationResultRow {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Ação de conciliação aplicada (ou simulada) sobre a submissão da linha
+ */
+type ReconciliationAction = 'VALIDATE' | 'REJECT' | 'NONE';
+
+/**
+ * Registro de pedido já processado por job anterior
+ */
+interface ProcessedOrderEntry {
+  jobId: string;
+  fileName: string;
+  uploadDate: Date;
+  lineNumber: number;
+  status: CampaignSubmissionStatus;
+}
+
+/**
+ * Referência de duplicidade encontrada para uma linha
+ */
+interface DuplicateReference {
+  source: 'FILE' | 'HISTORY';
+  orderNumber: string;
+  lineNumber?: number;
+  jobId?: string;
+  fileName?: string;
+  submissionStatus?: CampaignSubmissionStatus;
+}
+
+/**
+ * Contexto compartilhado entre as linhas de um mesmo job
+ */
+interface ReconciliationContext {
+  adminId: string;
+  fileName: string;
+  campaignId?: string | null;
+  isDryRun: boolean;
+  duplicateHandling: DuplicateHandlingStrategy;
+  processedOrders: Map<string, ProcessedOrderEntry>;
+  handledSubmissionIds: Set<string>;
+  pendingKitValidations: PendingKitValidations;
+}
+
 /**
  * Interface para resultado de upload
  */
@@ -89,8 +149,9 @@ interface UploadResult {
   job: FullValidationJob;
   preview?: {
     headers: string[];
-    sampleRows: any[][];
+    sampleRows: unknown[][];
     totalRows: number;
+    validationSample?: ValidationResultRow[];
   };
 }
 
@@ -99,10 +160,58 @@ interface UploadResult {
  */
 interface ProcessedSpreadsheetData {
   headers: string[];
-  rows: any[][];
+  rows: unknown[][];
+  // Linha de cada item de rows na planilha (1-based), contando cabeçalho e linhas em branco
+  lineNumbers: number[];
   totalRows: number;
   fileName: string;
   fileSize: number;
+  sheetName: string;
+  sheetNames: string[];
+  headerRow: number;
+}
+
+/**
+ * Interface para arquivo recebido via upload (multipart já lido em memória)
+ */
+export interface SpreadsheetFileInput {
+  filename: string;
+  mimetype?: string;
+  buffer: Buffer;
+  size?: number;
+}
+
+/**
+ * Motivos de recusa de uma planilha enviada
+ */
+export type SpreadsheetErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNSUPPORTED_FORMAT'
+  | 'FILE_TOO_LARGE'
+  | 'EMPTY_FILE'
+  | 'SHEET_NOT_FOUND'
+  | 'NO_DATA'
+  | 'HEADER_NOT_FOUND'
+  | 'TOO_MANY_ROWS';
+
+/**
+ * Erro de leitura da planilha enviada; o código (e não o texto) define a resposta HTTP
+ */
+export class SpreadsheetError extends Error {
+  constructor(public readonly code: SpreadsheetErrorCode, message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+/**
+ * Opções de leitura da planilha
+ */
+interface SpreadsheetReadOptions {
+  sheetName?: string;
+  headerRow?: number;
+  maxRows?: number;
+  expectedColumns?: string[];
 }
 
 // ==================== CONFIGURAÇÕES ====================
@@ -116,6 +225,22 @@ const VALIDATION_CONFIG = {
   PREVIEW_ROWS: 10,
   BATCH_SIZE: 1000,
   DEFAULT_GRACE_PERIOD: 30, // dias
+  DUPLICATE_HISTORY_DAYS: 365,
+  UPLOAD_DIR: process.env.VALIDATION_UPLOAD_DIR || path.join(process.cwd(), 'validation-uploads'),
+  HEADER_SCAN_ROWS: 20,
+  SUPPORTED_EXTENSIONS: ['.xlsx', '.xls', '.csv'],
+};
+
+/**
+ * Padrões de cabeçalho para reconhecimento automático de colunas
+ */
+const HEADER_PATTERNS: Partial<Record<TargetField, string[]>> = {
+  [TargetField.ORDER_ID]: ['pedido', 'order', 'num_pedido', 'numero_pedido', 'n_pedido'],
+  [TargetField.SELLER_CPF]: ['cpf', 'cpf_vendedor', 'vendedor_cpf', 'seller_cpf'],
+  [TargetField.OPTIC_CNPJ]: ['cnpj', 'cnpj_otica', 'otica_cnpj', 'optic_cnpj'],
+  [TargetField.SALE_DATE]: ['data', 'data_venda', 'date', 'sale_date', 'dt_venda'],
+  [TargetField.PRODUCT_NAME]: ['produto', 'product', 'nome_produto', 'product_name'],
+  [TargetField.SALE_VALUE]: ['valor', 'value', 'valor_venda', 'sale_value', 'preco'],
 };
 
 /**
@@ -131,66 +256,385 @@ const ERROR_MESSAGES = {
   INVALID_SALE_VALUE: 'Valor de venda inválido',
   USER_NOT_FOUND: 'Vendedor não encontrado',
   CAMPAIGN_NOT_ACTIVE: 'Campanha não está ativa',
+  SUBMISSION_NOT_FOUND: 'Nenhuma submissão encontrada para o pedido',
+  SUBMISSION_ALREADY_PROCESSED: (status: string) => `Submissão do pedido já processada (${status})`,
+  SUBMISSION_ALREADY_VALIDATED: 'Submissão já validada anteriormente; nenhuma alteração aplicada',
+  SUBMISSION_VALIDATED_NEEDS_REVIEW: 'Submissão já validada com pontos concedidos; rejeição exige revisão manual',
+  SELLER_CPF_MISMATCH: 'CPF do vendedor não confere com a planilha',
+  DUPLICATE_IN_FILE: (orderNumber: string, line: number) =>
+    `Pedido ${orderNumber} duplicado na planilha (primeira ocorrência na linha ${line})`,
+  SUPERSEDED_IN_FILE: (orderNumber: string, line: number) =>
+    `Pedido ${orderNumber} substituído pela linha ${line} da planilha`,
+  DUPLICATE_IN_HISTORY: (orderNumber: string, origin: string) =>
+    `Pedido ${orderNumber} já processado anteriormente (${origin})`,
 };
 
 // ==================== UTILITÁRIOS DE PROCESSAMENTO ====================
 
 /**
- * Processa arquivo de planilha
+ * Verifica se a célula está vazia
  */
-const processSpreadsheetFile = async (file: any): Promise<ProcessedSpreadsheetData> => {
+const isEmptyCell = (value: unknown): boolean => {
+  return value === null || value === undefined || String(value).trim() === '';
+};
+
+/**
+ * Decodifica CSV em UTF-8, com fallback para Latin-1 (padrão do Excel em pt-BR)
+ */
+const decodeCsvBuffer = (buffer: Buffer): string => {
+  let text: string;
+
   try {
-    // Simula processamento de arquivo (em implementação real, seria file.buffer)
-    const mockData = {
-      headers: ['NUM_PEDIDO', 'CPF_VENDEDOR', 'CNPJ_OTICA', 'DATA_VENDA', 'PRODUTO', 'VALOR'],
-      rows: [
-        ['12345', '11111111111', '12345678000195', '2025-01-15', 'Óculos Ray-Ban', '350.00'],
-        ['12346', '22222222222', '12345678000195', '2025-01-16', 'Armação Premium', '450.00'],
-        ['12347', '11111111111', '98765432000198', '2025-01-17', 'Lentes Transition', '280.00'],
-      ],
-      totalRows: 3,
-      fileName: file.name || 'planilha.xlsx',
-      fileSize: file.size || 1024,
+    text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    text = buffer.toString('latin1');
+  }
+
+  // Remove BOM
+  return text.replace(/^\uFEFF/, '');
+};
+
+/**
+ * Detecta o delimitador do CSV pelas primeiras linhas (; , ou tab)
+ */
+const detectCsvDelimiter = (text: string): string => {
+  const sampleLines = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 10);
+  const candidates = [';', ',', '\t'];
+
+  let bestDelimiter = ',';
+  let bestScore = 0;
+
+  candidates.forEach(delimiter => {
+    // Conta ocorrências fora de aspas em cada linha
+    const counts = sampleLines.map(line => {
+      let count = 0;
+      let inQuotes = false;
+      for (const char of line) {
+        if (char === '"') inQuotes = !inQuotes;
+        else if (char === delimiter && !inQuotes) count++;
+      }
+      return count;
+    });
+
+    const score = counts.reduce((sum, count) => sum + count, 0);
+    if (score > bestScore) {
+      bestScore = score;
+      bestDelimiter = delimiter;
+    }
+  });
+
+  return bestDelimiter;
+};
+
+/**
+ * Lê o workbook a partir do buffer conforme a extensão
+ */
+const readWorkbook = (file: SpreadsheetFileInput, extension: string): XLSX.WorkBook => {
+  if (extension === '.csv') {
+    const text = decodeCsvBuffer(file.buffer);
+    const delimiter = detectCsvDelimiter(text);
+
+    // raw: true mantém os valores como texto (CPF com zeros, "1.234,56", datas DD/MM/AAAA)
+    return XLSX.read(text, { type: 'string', FS: delimiter, raw: true });
+  }
+
+  // Datas permanecem como serial do Excel e são normalizadas no mapeamento
+  return XLSX.read(file.buffer, { type: 'buffer', cellDates: false });
+};
+
+/**
+ * Pontua uma linha como candidata a cabeçalho
+ */
+const scoreHeaderRow = (row: unknown[], expectedColumns: string[]): number => {
+  const cells = row.filter(cell => !isEmptyCell(cell));
+  if (cells.length < 2) return 0;
+
+  let score = 0;
+  const knownKeywords = Object.values(HEADER_PATTERNS).flat();
+
+  cells.forEach(cell => {
+    // Cabeçalhos são texto; números e datas indicam linha de dados
+    if (typeof cell !== 'string' || isNumericText(cell)) return;
+
+    const normalizedCell = normalizeHeaderText(cell);
+    score += 1;
+
+    if (expectedColumns.some(column => normalizeHeaderText(column) === normalizedCell)) {
+      score += 10;
+    } else if (knownKeywords.some(keyword => normalizedCell.replace(/[^a-z0-9_]/g, '_').includes(keyword))) {
+      score += 3;
+    }
+  });
+
+  return score;
+};
+
+/**
+ * Localiza a linha de cabeçalho nas primeiras linhas da planilha
+ */
+const detectHeaderRowIndex = (rows: unknown[][], expectedColumns: string[]): number => {
+  let bestIndex = -1;
+  let bestScore = 0;
+
+  const limit = Math.min(rows.length, VALIDATION_CONFIG.HEADER_SCAN_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const score = scoreHeaderRow(rows[i], expectedColumns);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+};
+
+/**
+ * Validações leves do arquivo (formato e tamanho), sem ler o conteúdo da planilha
+ */
+const assertSpreadsheetFile = (
+  file: SpreadsheetFileInput
+): { fileName: string; fileSize: number; extension: string } => {
+  const fileName = file.filename || 'planilha.xlsx';
+  const fileSize = file.size ?? file.buffer.length;
+  const extension = fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+  if (!VALIDATION_CONFIG.SUPPORTED_EXTENSIONS.includes(extension)) {
+    throw new SpreadsheetError('UNSUPPORTED_FORMAT', 'Formato de arquivo não suportado. Use .xlsx, .xls ou .csv');
+  }
+
+  if (fileSize > VALIDATION_CONFIG.MAX_FILE_SIZE) {
+    throw new SpreadsheetError('FILE_TOO_LARGE', 'Arquivo muito grande (máximo 50MB)');
+  }
+
+  if (fileSize === 0) {
+    throw new SpreadsheetError('EMPTY_FILE', 'Arquivo vazio');
+  }
+
+  return { fileName, fileSize, extension };
+};
+
+/**
+ * Processa arquivo de planilha (XLSX, XLS ou CSV)
+ */
+const processSpreadsheetFile = async (
+  file: SpreadsheetFileInput,
+  options: SpreadsheetReadOptions = {}
+): Promise<ProcessedSpreadsheetData> => {
+  try {
+    const { fileName, fileSize, extension } = assertSpreadsheetFile(file);
+
+    const workbook = readWorkbook(file, extension);
+    const sheetNames = workbook.SheetNames;
+    const expectedColumns = options.expectedColumns || [];
+
+    if (sheetNames.length === 0) {
+      throw new SpreadsheetError('NO_DATA', 'Planilha sem abas');
+    }
+
+    // Lê a partir de A1 mantendo linhas em branco, para que índices batam com a planilha
+    const readSheetRows = (name: string): unknown[][] => {
+      const sheet = workbook.Sheets[name];
+      if (!sheet || !sheet['!ref']) return [];
+
+      const range = XLSX.utils.decode_range(sheet['!ref']);
+      const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+        header: 1,
+        raw: true,
+        defval: '',
+        blankrows: true,
+        range: { s: { r: 0, c: 0 }, e: range.e },
+      });
+
+      return rows.some(row => row.some(cell => !isEmptyCell(cell))) ? rows : [];
     };
 
-    return mockData;
+    // Seleção da aba: explícita, ou a de melhor cabeçalho entre as abas com dados
+    let sheetName: string;
+    let sheetRows: unknown[][];
+
+    if (options.sheetName) {
+      if (!sheetNames.includes(options.sheetName)) {
+        throw new SpreadsheetError('SHEET_NOT_FOUND', `Aba não encontrada na planilha: ${options.sheetName}`);
+      }
+      sheetName = options.sheetName;
+      sheetRows = readSheetRows(sheetName);
+    } else {
+      sheetName = sheetNames[0];
+      sheetRows = readSheetRows(sheetName);
+      let bestScore = -1;
+
+      for (const name of sheetNames) {
+        const candidateRows = name === sheetNames[0] ? sheetRows : readSheetRows(name);
+        if (candidateRows.length === 0) continue;
+
+        const headerIndex = detectHeaderRowIndex(candidateRows, expectedColumns);
+        const score = headerIndex >= 0 ? scoreHeaderRow(candidateRows[headerIndex], expectedColumns) : 0;
+
+        if (score > bestScore) {
+          bestScore = score;
+          sheetName = name;
+          sheetRows = candidateRows;
+        }
+      }
+    }
+
+    if (sheetRows.length === 0) {
+      throw new SpreadsheetError('NO_DATA', 'Planilha não contém dados');
+    }
+
+    // Linha de cabeçalho: informada (1-based) ou detectada
+    let headerIndex: number;
+    if (options.headerRow) {
+      headerIndex = options.headerRow - 1;
+      if (headerIndex >= sheetRows.length) {
+        throw new SpreadsheetError('HEADER_NOT_FOUND', `Linha de cabeçalho ${options.headerRow} não existe na planilha`);
+      }
+    } else {
+      headerIndex = detectHeaderRowIndex(sheetRows, expectedColumns);
+      if (headerIndex < 0) {
+        throw new SpreadsheetError('HEADER_NOT_FOUND', 'Não foi possível identificar a linha de cabeçalho da planilha');
+      }
+    }
+
+    const headers = sheetRows[headerIndex].map((cell, index) =>
+      isEmptyCell(cell) ? `COLUNA_${index + 1}` : String(cell).trim()
+    );
+
+    const dataRows = sheetRows
+      .map((row, index) => ({ row, lineNumber: index + 1 }))
+      .slice(headerIndex + 1)
+      .filter(({ row }) => row.some(cell => !isEmptyCell(cell)));
+
+    const rows = dataRows.map(({ row }) => headers.map((_, index) => {
+      const value = row[index];
+      return typeof value === 'string' ? value.trim() : value ?? '';
+    }));
+    const lineNumbers = dataRows.map(({ lineNumber }) => lineNumber);
+
+    const maxRows = options.maxRows ?? VALIDATION_CONFIG.MAX_ROWS;
+    if (rows.length > maxRows) {
+      throw new SpreadsheetError('TOO_MANY_ROWS', `Número máximo de linhas excedido (máximo ${maxRows})`);
+    }
+
+    console.log(`[VALIDATION_SERVICE] Planilha processada: ${fileName} (aba "${sheetName}", cabeçalho na linha ${headerIndex + 1}, ${rows.length} linhas)`);
+
+    return {
+      headers,
+      rows,
+      lineNumbers,
+      totalRows: rows.length,
+      fileName,
+      fileSize,
+      sheetName,
+      sheetNames,
+      headerRow: headerIndex + 1,
+    };
 
   } catch (error) {
     console.error('[VALIDATION_SERVICE] Erro ao processar planilha:', error);
+
+    if (error instanceof Error) {
+      throw error;
+    }
+
     throw new Error('Erro ao processar arquivo de planilha');
   }
 };
 
+/**
+ * Resolve o índice da coluna: nome do cabeçalho (sem diferenciar acentos/caixa)
+ * ou letra da coluna no Excel ("A", "B", ..., "AA")
+ */
+const resolveColumnIndex = (headers: string[], sourceColumn: string): number => {
+  const exactIndex = headers.indexOf(sourceColumn);
+  if (exactIndex >= 0) return exactIndex;
+
+  const normalizedSource = normalizeHeaderText(sourceColumn);
+  const headerIndex = headers.findIndex(header => normalizeHeaderText(header) === normalizedSource);
+  if (headerIndex >= 0) return headerIndex;
+
+  if (/^[A-Z]{1,3}$/i.test(sourceColumn.trim())) {
+    return XLSX.utils.decode_col(sourceColumn.trim().toUpperCase());
+  }
+
+  return -1;
+};
+
+/**
+ * Aplica a transformação configurada no mapeamento ao valor bruto da célula
+ */
+const applyColumnTransformation = (
+  value: any,
+  transformation?: ColumnMappingData['transformation']
+): any => {
+  if (!transformation) return value;
+
+  if (isEmptyCell(value)) {
+    return transformation.defaultValue ?? value;
+  }
+
+  let result = value;
+
+  if (transformation.customRegex) {
+    try {
+      const match = String(result).match(new RegExp(transformation.customRegex));
+      // Usa o primeiro grupo de captura quando existir
+      result = match ? (match[1] ?? match[0]) : (transformation.defaultValue ?? '');
+    } catch {
+      console.warn(`[VALIDATION_SERVICE] Regex de transformação inválida: ${transformation.customRegex}`);
+    }
+  }
+
+  switch (transformation.type) {
+    case 'uppercase':
+      return String(result).toUpperCase();
+    case 'lowercase':
+      return String(result).toLowerCase();
+    case 'trim':
+      return String(result).trim();
+    case 'normalize_cpf':
+      return normalizeCPF(String(result));
+    case 'normalize_cnpj':
+      return normalizeCNPJ(String(result));
+    default:
+      return result;
+  }
+};
+
 /**
  * Mapeia dados da linha conforme configuração
  */
 const mapRowData = (
-  row: any[],
+  row: unknown[],
   headers: string[],
-  mappings: Array<{ sourceColumn: string; targetField: TargetField }>
+  mappings: Array<Pick<ColumnMappingData, 'sourceColumn' | 'targetField' | 'transformation'>>
 ): Record<string, any> => {
   const mappedData: Record<string, any> = {};
 
   mappings.forEach(mapping => {
     if (mapping.targetField === TargetField.IGNORE) return;
 
-    const columnIndex = headers.indexOf(mapping.sourceColumn);
-    if (columnIndex >= 0 && row[columnIndex] !== undefined) {
-      let value = row[columnIndex];
+    const columnIndex = resolveColumnIndex(headers, mapping.sourceColumn);
+    const rawValue = columnIndex >= 0 ? row[columnIndex] : undefined;
+    const transformedValue = applyColumnTransformation(rawValue, mapping.transformation);
+
+    if (transformedValue !== undefined) {
+      let value = transformedValue;
 
       // Aplica transformações baseadas no campo alvo
       switch (mapping.targetField) {
         case TargetField.SELLER_CPF:
-          value = normalizeCPF(String(value));
+          // Células numéricas do Excel perdem zeros à esquerda
+          value = normalizeCPF(typeof value === 'number' ? String(value).padStart(11, '0') : String(value));
           break;
         case TargetField.OPTIC_CNPJ:
-          value = normalizeCNPJ(String(value));
+          value = normalizeCNPJ(typeof value === 'number' ? String(value).padStart(14, '0') : String(value));
           break;
         case TargetField.SALE_DATE:
-          value = normalizeDate(String(value));
+          value = normalizeDate(value);
           break;
         case TargetField.SALE_VALUE:
-          value = parseFloat(String(value).replace(/[^0-9.,]/g, '').replace(',', '.')) || 0;
+          value = parseMoney(value) ?? 0;
           break;
         default:
           value = String(value).trim();
@@ -365,6 +809,394 @@ const logValidationActivity = async (
   }
 };
 
+// ==================== DETECÇÃO DE DUPLICATAS ====================
+
+/**
+ * Indexa as linhas da planilha por número de pedido
+ */
+const buildFileOrderIndex = (mappedRows: Array<Record<string, any>>): Map<string, number[]> => {
+  const index = new Map<string, number[]>();
+
+  mappedRows.forEach((data, rowIndex) => {
+    getRowOrderNumbers(data).forEach(orderNumber => {
+      const occurrences = index.get(orderNumber) || [];
+      occurrences.push(rowIndex);
+      index.set(orderNumber, occurrences);
+    });
+  });
+
+  return index;
+};
+
+/**
+ * Busca pedidos já processados (validados/rejeitados) por jobs anteriores
+ * na tabela indexada ValidationProcessedOrder, dentro da janela de histórico
+ */
+const buildProcessedOrdersIndex = async (
+  orderNumbers: Set<string>,
+  campaignId: string | null | undefined,
+  excludeJobId: string
+): Promise<Map<string, ProcessedOrderEntry>> => {
+  const index = new Map<string, ProcessedOrderEntry>();
+  if (orderNumbers.size === 0) return index;
+
+  const since = new Date(Date.now() - VALIDATION_CONFIG.DUPLICATE_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+
+  const processedOrders = await prisma.validationProcessedOrder.findMany({
+    where: {
+      orderNumber: { in: Array.from(orderNumbers) },
+      jobId: { not: excludeJobId },
+      processedAt: { gte: since },
+      ...(campaignId && { campaignId }),
+    },
+    select: {
+      orderNumber: true,
+      status: true,
+      lineNumber: true,
+      job: { select: { id: true, fileName: true, uploadDate: true } },
+    },
+    orderBy: { processedAt: 'desc' },
+  });
+
+  // Ordenado do mais recente: a primeira ocorrência de cada pedido prevalece
+  processedOrders.forEach(order => {
+    if (index.has(order.orderNumber)) return;
+
+    index.set(order.orderNumber, {
+      jobId: order.job.id,
+      fileName: order.job.fileName,
+      uploadDate: order.job.uploadDate,
+      lineNumber: order.lineNumber,
+      status: order.status,
+    });
+  });
+
+  return index;
+};
+
+/**
+ * Registra os pedidos conciliados de um lote (apenas jobs reais) para consultas futuras de duplicidade
+ */
+const recordProcessedOrders = async (
+  jobId: string,
+  campaignId: string | null | undefined,
+  rows: ValidationResultRow[]
+): Promise<void> => {
+  const data = rows
+    .filter(row => row.metadata?.action === 'VALIDATE' || row.metadata?.action === 'REJECT')
+    .filter(row => typeof row.metadata?.orderNumber === 'string')
+    .map(row => ({
+      jobId,
+      campaignId: campaignId ?? null,
+      orderNumber: row.metadata!.orderNumber as string,
+      lineNumber: row.lineNumber,
+      status: row.metadata!.action === 'VALIDATE'
+        ? CampaignSubmissionStatus.VALIDATED
+        : CampaignSubmissionStatus.REJECTED,
+    }));
+
+  if (data.length === 0) return;
+
+  await prisma.validationProcessedOrder.createMany({ data, skipDuplicates: true });
+};
+
+/**
+ * Verifica duplicidade da linha dentro da própria planilha.
+ * Com OVERWRITE vale a última ocorrência; nas demais estratégias, a primeira.
+ */
+const findFileDuplicate = (
+  rowIndex: number,
+  orderNumbers: string[],
+  fileIndex: Map<string, number[]>,
+  lineNumbers: number[],
+  strategy: DuplicateHandlingStrategy
+): DuplicateReference | null => {
+  for (const orderNumber of orderNumbers) {
+    const occurrences = fileIndex.get(orderNumber) || [];
+    const reference = strategy === DuplicateHandlingStrategy.OVERWRITE
+      ? occurrences[occurrences.length - 1]
+      : occurrences[0];
+
+    if (reference !== undefined && reference !== rowIndex) {
+      return { source: 'FILE', orderNumber, lineNumber: lineNumbers[reference] };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Verifica se algum pedido da linha já foi processado por job anterior
+ */
+const findHistoryDuplicate = (
+  orderNumbers: string[],
+  processedOrders: Map<string, ProcessedOrderEntry>
+): DuplicateReference | null => {
+  for (const orderNumber of orderNumbers) {
+    const entry = processedOrders.get(orderNumber);
+    if (entry) {
+      return {
+        source: 'HISTORY',
+        orderNumber,
+        lineNumber: entry.lineNumber,
+        jobId: entry.jobId,
+        fileName: entry.fileName,
+      };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Descreve a duplicidade encontrada para a linha
+ */
+const describeDuplicate = (
+  reference: DuplicateReference,
+  strategy: DuplicateHandlingStrategy
+): string => {
+  const origin = reference.fileName
+    ? `planilha ${reference.fileName}, linha ${reference.lineNumber}`
+    : `status ${reference.submissionStatus}`;
+
+  return reference.source === 'FILE'
+    ? strategy === DuplicateHandlingStrategy.OVERWRITE
+      ? ERROR_MESSAGES.SUPERSEDED_IN_FILE(reference.orderNumber, reference.lineNumber!)
+      : ERROR_MESSAGES.DUPLICATE_IN_FILE(reference.orderNumber, reference.lineNumber!)
+    : ERROR_MESSAGES.DUPLICATE_IN_HISTORY(reference.orderNumber, origin);
+};
+
+/**
+ * Aplica a estratégia de duplicatas na linha e informa se ela deve ser ignorada
+ */
+const applyDuplicateStrategy = (
+  validation: ValidationResultRow,
+  reference: DuplicateReference,
+  strategy: DuplicateHandlingStrategy
+): boolean => {
+  const message = describeDuplicate(reference, strategy);
+
+  validation.metadata = {
+    ...validation.metadata,
+    action: 'NONE' as ReconciliationAction,
+    duplicate: { ...reference, strategy },
+  };
+
+  // OVERWRITE sobre histórico: a linha segue para a conciliação, que decide se
+  // a submissão pode ser sobrescrita (e registra o aviso correspondente)
+  if (strategy === DuplicateHandlingStrategy.OVERWRITE && reference.source === 'HISTORY') {
+    return false;
+  }
+
+  if (strategy === DuplicateHandlingStrategy.REJECT_ROW) {
+    validation.status = ResultRowStatus.ERROR;
+    validation.message = `${ERROR_MESSAGES.DUPLICATE_ORDER}: ${message}`;
+  } else {
+    if (validation.status !== ResultRowStatus.ERROR) {
+      validation.status = ResultRowStatus.WARNING;
+    }
+    validation.warnings?.push(message);
+  }
+
+  return true;
+};
+
+// ==================== CONCILIAÇÃO COM SUBMISSÕES ====================
+
+/**
+ * Extrai os números de pedido da linha (ORDER_ID, ORDER_ID_2, ORDER_ID_3)
+ */
+const getRowOrderNumbers = (data: Record<string, any>): string[] => {
+  const orderNumbers = [TargetField.ORDER_ID, TargetField.ORDER_ID_2, TargetField.ORDER_ID_3]
+    .map(field => data[field])
+    .filter(value => !isEmptyCell(value))
+    .map(value => String(value).trim());
+
+  return Array.from(new Set(orderNumbers));
+};
+
+/**
+ * Busca a submissão correspondente aos pedidos da linha (prioriza pendentes)
+ */
+const findSubmissionForRow = async (
+  orderNumbers: string[],
+  campaignId?: string | null
+) => {
+  const submissions = await prisma.campaignSubmission.findMany({
+    where: {
+      orderNumber: { in: orderNumbers },
+      ...(campaignId && { campaignId }),
+    },
+    select: {
+      id: true,
+      orderNumber: true,
+      status: true,
+      user: { select: { cpf: true } },
+    },
+  });
+
+  return submissions.find(sub => sub.status === CampaignSubmissionStatus.PENDING) || submissions[0] || null;
+};
+
+/**
+ * Define a ação de conciliação conforme o resultado da linha
+ */
+const resolveReconciliationAction = (
+  validation: ValidationResultRow,
+  cpfMatches: boolean
+): ReconciliationAction => {
+  if (!cpfMatches || validation.status === ResultRowStatus.ERROR) return 'REJECT';
+  return 'VALIDATE';
+};
+
+/**
+ * Concilia a linha validada com a submissão pendente do vendedor.
+ * Linhas válidas validam a submissão; linhas com erro ou CPF divergente a rejeitam.
+ * Em modo de teste apenas projeta o que seria alterado.
+ */
+const reconcileRowWithSubmission = async (
+  validation: ValidationResultRow,
+  context: ReconciliationContext
+): Promise<ValidationResultRow> => {
+  const orderNumbers = getRowOrderNumbers(validation.data);
+  if (orderNumbers.length === 0) return validation;
+
+  const markAsWarning = (message: string) => {
+    if (validation.status !== ResultRowStatus.ERROR) {
+      validation.status = ResultRowStatus.WARNING;
+      validation.warnings?.push(message);
+    }
+    validation.metadata = { ...validation.metadata, action: 'NONE' as ReconciliationAction, orderNumbers };
+    return validation;
+  };
+
+  const submission = await findSubmissionForRow(orderNumbers, context.campaignId);
+
+  // Duplicata em relação ao histórico: pedido em job anterior ou submissão já processada
+  const isProcessed = !!submission && submission.status !== CampaignSubmissionStatus.PENDING;
+  const historyReference = findHistoryDuplicate(orderNumbers, context.processedOrders)
+    || (isProcessed ? { source: 'HISTORY' as const, orderNumber: submission!.orderNumber } : null);
+
+  if (historyReference) {
+    if (isProcessed) historyReference.submissionStatus = submission!.status;
+    if (applyDuplicateStrategy(validation, historyReference, context.duplicateHandling)) {
+      return validation;
+    }
+  }
+
+  if (!submission) {
+    return markAsWarning(ERROR_MESSAGES.SUBMISSION_NOT_FOUND);
+  }
+
+  // Mesma submissão já tratada por outra linha deste arquivo
+  if (context.handledSubmissionIds.has(submission.id)) {
+    return markAsWarning(ERROR_MESSAGES.SUBMISSION_ALREADY_PROCESSED('nesta planilha'));
+  }
+
+  // Define ação: linha com erro ou CPF divergente rejeita a submissão
+  const rowCpf = validation.data[TargetField.SELLER_CPF];
+  const cpfMatches = !!rowCpf && normalizeCPF(submission.user.cpf) === rowCpf;
+
+  let action = resolveReconciliationAction(validation, cpfMatches);
+
+  // Aqui a estratégia é OVERWRITE. Por regra, OVERWRITE nunca sobrescreve submissão
+  // VALIDATED (pontos e ganhos já concedidos); apenas REJECTED pode ser reprocessada
+  const isReprocess = submission.status === CampaignSubmissionStatus.REJECTED;
+  if (submission.status === CampaignSubmissionStatus.VALIDATED) {
+    return markAsWarning(
+      action === 'VALIDATE'
+        ? ERROR_MESSAGES.SUBMISSION_ALREADY_VALIDATED
+        : ERROR_MESSAGES.SUBMISSION_VALIDATED_NEEDS_REVIEW
+    );
+  }
+
+  if (historyReference) {
+    validation.warnings?.push(`${describeDuplicate(historyReference, context.duplicateHandling)}; dados sobrescritos`);
+  }
+
+  const validationMessage = action === 'VALIDATE'
+    ? `Venda confirmada pela planilha ${context.fileName} (linha ${validation.lineNumber})`
+    : `Venda rejeitada pela planilha ${context.fileName} (linha ${validation.lineNumber}): ${
+      cpfMatches ? validation.message : ERROR_MESSAGES.SELLER_CPF_MISMATCH
+    }`;
+
+  const newStatus = action === 'VALIDATE'
+    ? CampaignSubmissionStatus.VALIDATED
+    : CampaignSubmissionStatus.REJECTED;
+
+  context.handledSubmissionIds.add(submission.id);
+
+  try {
+    if (context.isDryRun) {
+      const projection = await projectSubmissionValidation(
+        submission.id,
+        newStatus,
+        context.pendingKitValidations,
+        { allowRejected: isReprocess }
+      );
+
+      validation.metadata = {
+        ...validation.metadata,
+        action,
+        dryRun: true,
+        submissionId: submission.id,
+        orderNumber: submission.orderNumber,
+        previousStatus: projection.currentStatus,
+        newStatus: projection.newStatus,
+        validationMessage,
+        pointsAwarded: projection.pointsAwarded,
+        earnings: projection.earnings,
+        kitId: projection.kitId,
+        kitCompleted: projection.kitWouldComplete,
+      };
+    } else {
+      const result = await validateSubmission(
+        submission.id,
+        { status: newStatus, validationMessage },
+        context.adminId,
+        { allowRejected: isReprocess }
+      );
+
+      validation.metadata = {
+        ...validation.metadata,
+        action,
+        dryRun: false,
+        submissionId: submission.id,
+        orderNumber: submission.orderNumber,
+        previousStatus: submission.status,
+        newStatus,
+        validationMessage,
+        pointsAwarded: result.pointsAwarded,
+        earningsCreated: result.earningsCreated || [],
+        kitId: result.submission.kitId,
+        kitCompleted: result.kitStatusChanged || false,
+      };
+    }
+
+    if (action === 'REJECT') {
+      validation.status = ResultRowStatus.ERROR;
+      validation.message = validationMessage;
+    }
+  } catch (error) {
+    action = 'NONE';
+    validation.status = ResultRowStatus.ERROR;
+    validation.message = error instanceof Error ? error.message : 'Erro ao conciliar submissão';
+    validation.metadata = { ...validation.metadata, action, submissionId: submission.id, orderNumbers };
+  }
+
+  return validation;
+};
+
+/**
+ * Soma os pontos concedidos (vendedor + gerente) registrados na linha
+ */
+const getRowAwardedPoints = (validation: ValidationResultRow): number => {
+  const pointsAwarded = validation.metadata?.pointsAwarded as { seller: number; manager?: number } | undefined;
+  if (!pointsAwarded) return 0;
+
+  return sumMoney([pointsAwarded.seller, pointsAwarded.manager]);
+};
+
 // ==================== SERVIÇOS PRINCIPAIS ====================
 
 /**
@@ -372,7 +1204,7 @@ const logValidationActivity = async (
  */
 export const uploadValidationFile = async (
   uploadData: {
-    file: any;
+    file: SpreadsheetFileInput;
     config: ValidationConfigData;
     previewOnly?: boolean;
     maxRows?: number;
@@ -382,17 +1214,17 @@ export const uploadValidationFile = async (
   try {
     const { file, config, previewOnly = false, maxRows = VALIDATION_CONFIG.MAX_ROWS, adminId } = uploadData;
 
-    // Verifica tamanho do arquivo
-    if (file.size > VALIDATION_CONFIG.MAX_FILE_SIZE) {
-      throw new Error('Arquivo muito grande (máximo 50MB)');
-    }
-
-    // Processa planilha
-    const processedData = await processSpreadsheetFile(file);
-
-    if (processedData.totalRows > maxRows) {
-      throw new Error(`Número máximo de linhas excedido (máximo ${maxRows})`);
-    }
+    // Na requisição só valida formato e tamanho; a leitura completa fica com o worker.
+    // Preview lê a planilha aqui porque responde com as linhas de amostra.
+    const { fileName, fileSize } = assertSpreadsheetFile(file);
+    const processedData = previewOnly
+      ? await processSpreadsheetFile(file, {
+        sheetName: config.sheetName,
+        headerRow: config.headerRow,
+        maxRows: Math.min(maxRows, VALIDATION_CONFIG.MAX_ROWS),
+        expectedColumns: config.mappings.map(mapping => mapping.sourceColumn),
+      })
+      : null;
 
     // Determina título da campanha
     let campaignTitle = 'Validação Manual';
@@ -406,134 +1238,433 @@ export const uploadValidationFile = async (
       }
     }
 
-    return await prisma.$transaction(async (tx) => {
-      // Cria job de validação
-      const validationJob = await tx.validationJob.create({
+    // Preview processa poucas linhas na própria requisição; o restante vai para a fila
+    const validationJob = await prisma.validationJob.create({
+      data: {
+        fileName,
+        uploadDate: new Date(),
+        status: previewOnly ? ValidationStatus.PROCESSANDO : ValidationStatus.NA_FILA,
+        campaignTitle,
+        isDryRun: config.isDryRun,
+        // Sem preview, o total de linhas é preenchido pelo worker ao ler a planilha
+        totalRows: processedData?.totalRows ?? 0,
+        campaignId: config.campaignId,
+        adminId,
+        processingStarted: previewOnly ? new Date() : null,
+        fileSize,
+        rowsProcessed: 0,
+        config: { ...config, maxRows },
+      },
+    });
+
+    // Arquivo original fica armazenado para processamento em background e reprocessamento
+    const filePath = await storeValidationFile(validationJob.id, file);
+    await prisma.validationJob.update({
+      where: { id: validationJob.id },
+      data: { filePath },
+    });
+
+    let preview: UploadResult['preview'];
+
+    if (processedData) {
+      const sampleRows = processedData.rows.slice(0, VALIDATION_CONFIG.PREVIEW_ROWS);
+      const validationResults: ValidationResultRow[] = [];
+
+      for (let i = 0; i < sampleRows.length; i++) {
+        const mappedData = mapRowData(sampleRows[i], processedData.headers, config.mappings);
+        const validation = await validateRowData(mappedData, config, processedData.lineNumbers[i]);
+        validationResults.push(validation);
+      }
+
+      preview = {
+        headers: processedData.headers,
+        sampleRows,
+        totalRows: processedData.totalRows,
+        validationSample: validationResults,
+      };
+
+      // Atualiza job como concluído (preview)
+      await prisma.validationJob.update({
+        where: { id: validationJob.id },
         data: {
-          fileName: processedData.fileName,
-          uploadDate: new Date(),
-          status: ValidationStatus.PROCESSANDO,
-          campaignTitle,
-          isDryRun: config.isDryRun,
-          totalRows: processedData.totalRows,
-          campaignId: config.campaignId,
-          adminId,
-          processingStarted: new Date(),
-          fileSize: processedData.fileSize,
+          status: ValidationStatus.CONCLUIDO,
+          processingCompleted: new Date(),
+          details: validationResults as unknown as Prisma.InputJsonValue,
         },
       });
+    } else {
+      console.log(`[VALIDATION_SERVICE] Job enfileirado: ${validationJob.id} (${fileName}, ${fileSize} bytes)`);
+    }
+
+    // Busca job atualizado
+    const finalJob = await prisma.validationJob.findUnique({
+      where: { id: validationJob.id },
+    });
 
-      let preview;
+    return {
+      job: finalJob as FullValidationJob,
+      preview,
+    };
 
-      // Se for apenas preview, processa apenas algumas linhas
-      if (previewOnly) {
-        const sampleRows = processedData.rows.slice(0, VALIDATION_CONFIG.PREVIEW_ROWS);
-        const validationResults: ValidationResultRow[] = [];
+  } catch (error) {
+    console.error('[VALIDATION_SERVICE] Erro no upload:', error);
+    
+    if (error instanceof Error) {
+      throw error;
+    }
+    
+    throw new Error('Erro interno no upload de arquivo');
+  }
+};
 
-        for (let i = 0; i < sampleRows.length; i++) {
-          const mappedData = mapRowData(sampleRows[i], processedData.headers, config.mappings);
-          const validation = await validateRowData(mappedData, config, i + 1);
-          validationResults.push(validation);
-        }
+// ==================== FILA DE PROCESSAMENTO ====================
 
-        preview = {
-          headers: processedData.headers,
-          sampleRows,
-          totalRows: processedData.totalRows,
-          validationSample: validationResults,
-        };
-
-        // Atualiza job como concluído (preview)
-        await tx.validationJob.update({
-          where: { id: validationJob.id },
-          data: {
-            status: ValidationStatus.CONCLUIDO,
-            processingCompleted: new Date(),
-            details: validationResults,
-          },
-        });
-      } else {
-        // Processamento completo (simulado por enquanto)
-        const results: ValidationResultRow[] = [];
-        let validatedSales = 0;
-        let errors = 0;
-        let warnings = 0;
-        let totalPoints = 0;
-
-        for (let i = 0; i < processedData.rows.length; i++) {
-          const mappedData = mapRowData(processedData.rows[i], processedData.headers, config.mappings);
-          const validation = await validateRowData(mappedData, config, i + 1);
-          
-          results.push(validation);
-
-          switch (validation.status) {
-            case ResultRowStatus.VALID:
-              validatedSales++;
-              break;
-            case ResultRowStatus.ERROR:
-              errors++;
-              break;
-            case ResultRowStatus.WARNING:
-              warnings++;
-              break;
-          }
-
-          if (validation.points) {
-            totalPoints += validation.points;
-          }
+/**
+ * Grava o arquivo enviado no diretório de uploads de validação
+ */
+const storeValidationFile = async (jobId: string, file: SpreadsheetFileInput): Promise<string> => {
+  const extension = path.extname(file.filename || '').toLowerCase() || '.xlsx';
+  const filePath = path.join(VALIDATION_CONFIG.UPLOAD_DIR, `${jobId}${extension}`);
+
+  await fs.mkdir(VALIDATION_CONFIG.UPLOAD_DIR, { recursive: true });
+  await fs.writeFile(filePath, file.buffer);
+
+  return filePath;
+};
+
+/**
+ * Remove arquivo armazenado do job (falhas são apenas registradas)
+ */
+const removeValidationFile = async (filePath?: string | null): Promise<void> => {
+  if (!filePath) return;
+
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    console.warn(`[VALIDATION_SERVICE] Não foi possível remover arquivo ${filePath}:`, error);
+  }
+};
+
+/**
+ * Reserva o próximo job da fila (NA_FILA → PROCESSANDO).
+ * A atualização condicional garante que apenas um worker assuma o job.
+ */
+export const claimNextValidationJob = async (): Promise<string | null> => {
+  try {
+    const nextJob = await prisma.validationJob.findFirst({
+      where: { status: ValidationStatus.NA_FILA },
+      orderBy: { uploadDate: 'asc' },
+      select: { id: true },
+    });
+
+    if (!nextJob) return null;
+
+    const claimed = await prisma.validationJob.updateMany({
+      where: { id: nextJob.id, status: ValidationStatus.NA_FILA },
+      data: {
+        status: ValidationStatus.PROCESSANDO,
+        processingStarted: new Date(),
+      },
+    });
+
+    return claimed.count === 1 ? nextJob.id : null;
+
+  } catch (error) {
+    console.error('[VALIDATION_SERVICE] Erro ao reservar job da fila:', error);
+    throw new Error('Erro interno ao reservar job de validação');
+  }
+};
+
+/**
+ * Marca como falhos os jobs que ficaram em processamento após queda do servidor.
+ * Linhas já aplicadas não são reaplicadas automaticamente; use o reprocessamento.
+ */
+export const recoverInterruptedValidationJobs = async (): Promise<number> => {
+  try {
+    const result = await prisma.validationJob.updateMany({
+      where: { status: ValidationStatus.PROCESSANDO },
+      data: {
+        status: ValidationStatus.FALHOU,
+        processingCompleted: new Date(),
+        errorMessage: 'Processamento interrompido pela reinicialização do servidor',
+      },
+    });
+
+    if (result.count > 0) {
+      console.warn(`[VALIDATION_SERVICE] ${result.count} job(s) interrompido(s) marcados como falhos`);
+    }
+
+    return result.count;
+
+  } catch (error) {
+    console.error('[VALIDATION_SERVICE] Erro ao recuperar jobs interrompidos:', error);
+    throw new Error('Erro interno ao recuperar jobs interrompidos');
+  }
+};
+
+/**
+ * Processa um job reservado em lotes de BATCH_SIZE linhas.
+ * A cada lote atualiza o progresso e verifica pedido de cancelamento.
+ * shouldStop permite pausar no fim do lote (ex.: desligamento); o job volta
+ * para a fila e é retomado a partir de rowsProcessed.
+ */
+export const processValidationJob = async (
+  jobId: string,
+  options: { shouldStop?: () => boolean } = {}
+): Promise<void> => {
+  const job = await prisma.validationJob.findUnique({ where: { id: jobId } });
+
+  if (!job || job.status !== ValidationStatus.PROCESSANDO) {
+    return;
+  }
+
+  const startedAt = job.processingStarted || new Date();
+  const config = job.config as unknown as ValidationConfigData & { maxRows?: number };
+
+  // Retomada: reaproveita resultados já gravados
+  const previousResults = Array.isArray(job.details) ? (job.details as unknown as ValidationResultRow[]) : [];
+  const results: ValidationResultRow[] = previousResults.length === (job.rowsProcessed || 0)
+    ? [...previousResults]
+    : [];
+
+  const countResults = () => {
+    let validatedSales = 0;
+    let errors = 0;
+    let warnings = 0;
+    let totalPoints = 0;
+
+    results.forEach(row => {
+      if (row.status === ResultRowStatus.ERROR) errors++;
+      if (row.status === ResultRowStatus.WARNING) warnings++;
+      if (row.metadata?.action === 'VALIDATE') {
+        validatedSales++;
+        totalPoints = sumMoney([totalPoints, getRowAwardedPoints(row)]);
+      }
+    });
+
+    return { validatedSales, errors, warnings, pointsDistributed: totalPoints };
+  };
+
+  const finishJob = async (status: ValidationStatus, extra: Record<string, any> = {}) => {
+    const counters = countResults();
+
+    await prisma.validationJob.update({
+      where: { id: jobId },
+      data: {
+        status,
+        ...counters,
+        rowsProcessed: results.length,
+        details: results as unknown as Prisma.InputJsonValue,
+        processingCompleted: new Date(),
+        processingDuration: Date.now() - startedAt.getTime(),
+        ...extra,
+      },
+    });
+
+    return counters;
+  };
+
+  try {
+    if (!job.filePath || !config) {
+      throw new Error('Arquivo ou configuração do job não disponível');
+    }
+
+    const buffer = await fs.readFile(job.filePath);
+    const processedData = await processSpreadsheetFile(
+      { filename: job.fileName, buffer, size: buffer.length },
+      {
+        sheetName: config.sheetName,
+        headerRow: config.headerRow,
+        maxRows: Math.min(config.maxRows || VALIDATION_CONFIG.MAX_ROWS, VALIDATION_CONFIG.MAX_ROWS),
+        expectedColumns: config.mappings.map(mapping => mapping.sourceColumn),
+      }
+    );
+
+    // Estratégias fora do enum do banco (ex.: MERGE) caem no padrão IGNORE
+    const duplicateHandling = Object.values(DuplicateHandlingStrategy).includes(
+      config.duplicateHandling as DuplicateHandlingStrategy
+    )
+      ? (config.duplicateHandling as DuplicateHandlingStrategy)
+      : DuplicateHandlingStrategy.IGNORE;
+
+    const mappedRows = processedData.rows.map(row =>
+      mapRowData(row, processedData.headers, config.mappings)
+    );
+    const fileOrderIndex = buildFileOrderIndex(mappedRows);
+
+    const context: ReconciliationContext = {
+      adminId: job.adminId,
+      fileName: job.fileName,
+      campaignId: config.campaignId,
+      isDryRun: job.isDryRun,
+      duplicateHandling,
+      processedOrders: await buildProcessedOrdersIndex(
+        new Set(fileOrderIndex.keys()),
+        config.campaignId,
+        jobId
+      ),
+      handledSubmissionIds: new Set(
+        results
+          .map(row => row.metadata?.submissionId as string | undefined)
+          .filter((id): id is string => !!id)
+      ),
+      pendingKitValidations: new Map(),
+    };
+
+    await prisma.validationJob.update({
+      where: { id: jobId },
+      data: { totalRows: processedData.totalRows },
+    });
+
+    for (let batchStart = results.length; batchStart < mappedRows.length; batchStart += VALIDATION_CONFIG.BATCH_SIZE) {
+      const batchEnd = Math.min(batchStart + VALIDATION_CONFIG.BATCH_SIZE, mappedRows.length);
+
+      for (let i = batchStart; i < batchEnd; i++) {
+        let validation = await validateRowData(mappedRows[i], config, processedData.lineNumbers[i]);
+
+        // Duplicata dentro da planilha; o histórico é verificado na conciliação
+        const fileDuplicate = findFileDuplicate(
+          i,
+          getRowOrderNumbers(mappedRows[i]),
+          fileOrderIndex,
+          processedData.lineNumbers,
+          duplicateHandling
+        );
+
+        const skipRow = fileDuplicate
+          ? applyDuplicateStrategy(validation, fileDuplicate, duplicateHandling)
+          : false;
+
+        if (!skipRow) {
+          validation = await reconcileRowWithSubmission(validation, context);
         }
 
-        // Atualiza job com resultados
-        await tx.validationJob.update({
-          where: { id: validationJob.id },
-          data: {
-            status: ValidationStatus.CONCLUIDO,
-            validatedSales,
-            errors,
-            warnings,
-            pointsDistributed: totalPoints,
-            processingCompleted: new Date(),
-            processingDuration: Date.now() - validationJob.processingStarted!.getTime(),
-            rowsProcessed: processedData.totalRows,
-            details: results,
-          },
-        });
+        results.push(validation);
+      }
+
+      if (!job.isDryRun) {
+        await recordProcessedOrders(jobId, config.campaignId, results.slice(batchStart, batchEnd));
+      }
+
+      // Progresso do lote e verificação de cancelamento
+      const progress = await prisma.validationJob.update({
+        where: { id: jobId },
+        data: { rowsProcessed: results.length, ...countResults() },
+        select: { cancelRequested: true, cancelReason: true },
+      });
+
+      if (progress.cancelRequested && results.length < mappedRows.length) {
+        const counters = await finishJob(ValidationStatus.CANCELADO, { cancelledAt: new Date() });
 
-        // Registra atividade de admin
         await logValidationActivity(
-          adminId,
+          job.adminId,
           ActivityType.ADMIN_VALIDATION_PROCESSED,
-          `Validação processada: ${processedData.fileName} (${validatedSales}/${processedData.totalRows} válidas)`,
-          {
-            fileName: processedData.fileName,
-            totalRows: processedData.totalRows,
-            validatedSales,
-            errors,
-            warnings,
-          },
-          tx
+          `Validação cancelada: ${job.fileName} (${results.length}/${mappedRows.length} linhas processadas)`,
+          { jobId, fileName: job.fileName, rowsProcessed: results.length, reason: progress.cancelReason, ...counters }
         );
+
+        console.log(`[VALIDATION_SERVICE] Job cancelado: ${jobId} após ${results.length} linhas`);
+        return;
       }
 
-      // Busca job atualizado
-      const finalJob = await tx.validationJob.findUnique({
-        where: { id: validationJob.id },
-      });
+      if (options.shouldStop?.() && results.length < mappedRows.length) {
+        await prisma.validationJob.update({
+          where: { id: jobId },
+          data: { status: ValidationStatus.NA_FILA, details: results as unknown as Prisma.InputJsonValue },
+        });
 
-      return {
-        job: finalJob as FullValidationJob,
-        preview,
-      };
+        console.log(`[VALIDATION_SERVICE] Job pausado para retomada: ${jobId} (${results.length} linhas)`);
+        return;
+      }
+    }
+
+    const counters = await finishJob(ValidationStatus.CONCLUIDO);
+
+    // Registra atividade de admin
+    const verb = job.isDryRun ? 'simulada' : 'processada';
+    await logValidationActivity(
+      job.adminId,
+      ActivityType.ADMIN_VALIDATION_PROCESSED,
+      `Validação ${verb}: ${job.fileName} (${counters.validatedSales}/${results.length} vendas validadas)`,
+      {
+        jobId,
+        fileName: job.fileName,
+        totalRows: results.length,
+        isDryRun: job.isDryRun,
+        rejectedSales: results.filter(row => row.metadata?.action === 'REJECT').length,
+        duplicateRows: results.filter(row => row.metadata?.duplicate).length,
+        duplicateHandling,
+        ...counters,
+      }
+    );
+
+    console.log(`[VALIDATION_SERVICE] Job concluído: ${jobId} (${results.length} linhas)`);
+
+  } catch (error) {
+    console.error(`[VALIDATION_SERVICE] Erro ao processar job ${jobId}:`, error);
+
+    await finishJob(ValidationStatus.FALHOU, {
+      errorMessage: error instanceof Error ? error.message : 'Erro interno no processamento',
+    }).catch(updateError => {
+      console.error('[VALIDATION_SERVICE] Erro ao registrar falha do job:', updateError);
     });
+  }
+};
+
+/**
+ * Cancela job: na fila é cancelado na hora; em processamento para no fim do lote atual
+ */
+export const cancelValidationJob = async (
+  jobId: string,
+  reason: string,
+  cancelledById: string
+): Promise<FullValidationJob> => {
+  try {
+    const job = await getValidationJobById(jobId);
+
+    if (!job) {
+      throw new Error('Job de validação não encontrado');
+    }
+
+    // Cancelamento imediato se ainda não começou
+    const queued = await prisma.validationJob.updateMany({
+      where: { id: jobId, status: ValidationStatus.NA_FILA },
+      data: {
+        status: ValidationStatus.CANCELADO,
+        cancelRequested: true,
+        cancelReason: reason,
+        cancelledAt: new Date(),
+        cancelledById,
+      },
+    });
+
+    if (queued.count === 0) {
+      const requested = await prisma.validationJob.updateMany({
+        where: { id: jobId, status: ValidationStatus.PROCESSANDO },
+        data: {
+          cancelRequested: true,
+          cancelReason: reason,
+          cancelledById,
+        },
+      });
+
+      if (requested.count === 0) {
+        throw new Error('Apenas jobs na fila ou em processamento podem ser cancelados');
+      }
+    }
+
+    console.log(`[VALIDATION_SERVICE] Cancelamento solicitado: ${jobId} - Motivo: ${reason}`);
+
+    return await getValidationJobById(jobId) as FullValidationJob;
 
   } catch (error) {
-    console.error('[VALIDATION_SERVICE] Erro no upload:', error);
-    
+    console.error('[VALIDATION_SERVICE] Erro ao cancelar job:', error);
+
     if (error instanceof Error) {
       throw error;
     }
-    
-    throw new Error('Erro interno no upload de arquivo');
+
+    throw new Error('Erro interno ao cancelar job');
   }
 };
 
@@ -619,6 +1750,9 @@ export const listValidationJobs = async (filters: ValidationHistoryFilters) => {
     // Calcula estatísticas de resumo
     const summary = {
       totalJobs: total,
+      queuedJobs: await prisma.validationJob.count({
+        where: { ...where, status: ValidationStatus.NA_FILA },
+      }),
       processingJobs: await prisma.validationJob.count({
         where: { ...where, status: ValidationStatus.PROCESSANDO },
       }),
@@ -628,6 +1762,9 @@ export const listValidationJobs = async (filters: ValidationHistoryFilters) => {
       failedJobs: await prisma.validationJob.count({
         where: { ...where, status: ValidationStatus.FALHOU },
       }),
+      cancelledJobs: await prisma.validationJob.count({
+        where: { ...where, status: ValidationStatus.CANCELADO },
+      }),
       totalRowsProcessed: await prisma.validationJob.aggregate({
         where,
         _sum: { rowsProcessed: true },
@@ -635,7 +1772,7 @@ export const listValidationJobs = async (filters: ValidationHistoryFilters) => {
       totalPointsDistributed: await prisma.validationJob.aggregate({
         where,
         _sum: { pointsDistributed: true },
-      }).then(result => result._sum.pointsDistributed || 0),
+      }).then(result => toMoney(result._sum.pointsDistributed)),
     };
 
     return prismaUtils.formatPaginatedResult(jobs, total, page, limit, summary);
@@ -660,47 +1797,47 @@ export const reprocessValidationJob = async (
       throw new Error('Job de validação não encontrado');
     }
 
-    if (existingJob.status === ValidationStatus.PROCESSANDO && !reprocessData.forceReprocess) {
+    if (existingJob.status === ValidationStatus.PROCESSANDO || existingJob.status === ValidationStatus.NA_FILA) {
       throw new Error('Job ainda está processando');
     }
 
-    return await prisma.$transaction(async (tx) => {
-      // Atualiza job para reprocessamento
-      const updatedJob = await tx.validationJob.update({
-        where: { id: jobId },
-        data: {
-          status: ValidationStatus.PROCESSANDO,
-          processingStarted: new Date(),
-          processingCompleted: null,
-          processingDuration: null,
-          // Aplica nova configuração se fornecida
-          ...(reprocessData.newConfig && {
-            totalRows: 0,
-            validatedSales: 0,
-            errors: 0,
-            warnings: 0,
-            pointsDistributed: 0,
-            details: null,
-          }),
-        },
-      });
-
-      // Aqui seria implementado o reprocessamento real
-      // Por agora, apenas simula conclusão
-      await new Promise(resolve => setTimeout(resolve, 1000));
+    if (!existingJob.filePath) {
+      throw new Error('Não é possível reprocessar: arquivo original não está disponível');
+    }
 
-      const finalJob = await tx.validationJob.update({
-        where: { id: jobId },
-        data: {
-          status: ValidationStatus.CONCLUIDO,
-          processingCompleted: new Date(),
-          processingDuration: 1000,
-        },
-      });
+    // Nova configuração substitui a anterior; sem ela, reaproveita a original
+    const config = reprocessData.newConfig
+      ? { ...(existingJob.config as Record<string, any> || {}), ...reprocessData.newConfig }
+      : existingJob.config;
 
-      return finalJob as FullValidationJob;
+    // Volta para a fila com contadores zerados
+    const updatedJob = await prisma.validationJob.update({
+      where: { id: jobId },
+      data: {
+        status: ValidationStatus.NA_FILA,
+        ...(reprocessData.newConfig && { isDryRun: reprocessData.newConfig.isDryRun }),
+        config: config as Prisma.InputJsonValue,
+        processingStarted: null,
+        processingCompleted: null,
+        processingDuration: null,
+        validatedSales: 0,
+        errors: 0,
+        warnings: 0,
+        pointsDistributed: 0,
+        rowsProcessed: 0,
+        details: Prisma.DbNull,
+        errorMessage: null,
+        cancelRequested: false,
+        cancelReason: null,
+        cancelledAt: null,
+        cancelledById: null,
+      },
     });
 
+    console.log(`[VALIDATION_SERVICE] Job reenfileirado para reprocessamento: ${jobId}`);
+
+    return updatedJob as FullValidationJob;
+
   } catch (error) {
     console.error('[VALIDATION_SERVICE] Erro ao reprocessar job:', error);
     
@@ -731,6 +1868,8 @@ export const deleteValidationJob = async (jobId: string): Promise<void> => {
       where: { id: jobId },
     });
 
+    await removeValidationFile(job.filePath);
+
   } catch (error) {
     console.error('[VALIDATION_SERVICE] Erro ao excluir job:', error);
     
@@ -834,18 +1973,22 @@ export const downloadValidationResults = async (
  * Pré-visualização de arquivo
  */
 export const previewValidationFile = async (
-  file: any,
-  sampleSize: number = VALIDATION_CONFIG.PREVIEW_ROWS
+  file: SpreadsheetFileInput,
+  sampleSize: number = VALIDATION_CONFIG.PREVIEW_ROWS,
+  options: { sheetName?: string; headerRow?: number } = {}
 ): Promise<{
   headers: string[];
-  sampleData: any[][];
+  sampleData: unknown[][];
   totalRows: number;
   fileName: string;
   fileSize: number;
+  sheetName: string;
+  sheetNames: string[];
+  headerRow: number;
   suggestedMappings: Array<{ sourceColumn: string; targetField: TargetField; confidence: number }>;
 }> => {
   try {
-    const processedData = await processSpreadsheetFile(file);
+    const processedData = await processSpreadsheetFile(file, options);
     
     // Gera sugestões de mapeamento baseado nos headers
     const suggestedMappings = generateMappingSuggestions(processedData.headers);
@@ -856,6 +1999,9 @@ export const previewValidationFile = async (
       totalRows: processedData.totalRows,
       fileName: processedData.fileName,
       fileSize: processedData.fileSize,
+      sheetName: processedData.sheetName,
+      sheetNames: processedData.sheetNames,
+      headerRow: processedData.headerRow,
       suggestedMappings,
     };
 
@@ -876,20 +2022,10 @@ export const previewValidationFile = async (
 const generateMappingSuggestions = (headers: string[]): Array<{ sourceColumn: string; targetField: TargetField; confidence: number }> => {
   const suggestions: Array<{ sourceColumn: string; targetField: TargetField; confidence: number }> = [];
 
-  // Padrões para reconhecimento automático
-  const patterns = {
-    [TargetField.ORDER_ID]: ['pedido', 'order', 'num_pedido', 'numero_pedido', 'n_pedido'],
-    [TargetField.SELLER_CPF]: ['cpf', 'cpf_vendedor', 'vendedor_cpf', 'seller_cpf'],
-    [TargetField.OPTIC_CNPJ]: ['cnpj', 'cnpj_otica', 'otica_cnpj', 'optic_cnpj'],
-    [TargetField.SALE_DATE]: ['data', 'data_venda', 'date', 'sale_date', 'dt_venda'],
-    [TargetField.PRODUCT_NAME]: ['produto', 'product', 'nome_produto', 'product_name'],
-    [TargetField.SALE_VALUE]: ['valor', 'value', 'valor_venda', 'sale_value', 'preco'],
-  };
-
   headers.forEach(header => {
-    const normalizedHeader = header.toLowerCase().replace(/[^a-z0-9_]/g, '_');
+    const normalizedHeader = normalizeHeaderText(header).replace(/[^a-z0-9_]/g, '_');
     
-    Object.entries(patterns).forEach(([targetField, keywords]) => {
+    Object.entries(HEADER_PATTERNS).forEach(([targetField, keywords]) => {
       const matches = keywords.filter(keyword => 
         normalizedHeader.includes(keyword) || 
         header.toLowerCase().includes(keyword)
@@ -993,9 +2129,11 @@ export const getValidationStats = async (period: string, adminId?: string) => {
 
     // Formata estatísticas por status
     const statusStats = {
+      [ValidationStatus.NA_FILA]: 0,
       [ValidationStatus.PROCESSANDO]: 0,
       [ValidationStatus.CONCLUIDO]: 0,
       [ValidationStatus.FALHOU]: 0,
+      [ValidationStatus.CANCELADO]: 0,
     };
 
     jobsByStatus.forEach(stat => {
@@ -1011,7 +2149,7 @@ export const getValidationStats = async (period: string, adminId?: string) => {
         totalValidatedSales: processingStats._sum.validatedSales || 0,
         totalErrors: processingStats._sum.errors || 0,
         totalWarnings: processingStats._sum.warnings || 0,
-        totalPointsDistributed: processingStats._sum.pointsDistributed || 0,
+        totalPointsDistributed: toMoney(processingStats._sum.pointsDistributed),
         averageProcessingTime: Math.round(processingStats._avg.processingDuration || 0),
       },
       recentJobs,
@@ -1084,7 +2222,7 @@ export const generateValidationReport = async (
         totalValidatedSales: jobsSummary._sum.validatedSales || 0,
         totalErrors: jobsSummary._sum.errors || 0,
         totalWarnings: jobsSummary._sum.warnings || 0,
-        totalPointsDistributed: jobsSummary._sum.pointsDistributed || 0,
+        totalPointsDistributed: toMoney(jobsSummary._sum.pointsDistributed),
       },
       details: includeDetails ? detailedJobs : undefined,
       query,
@@ -0,0 +1,123 @@
+/**
+ * @file validationQueue.service.ts
+ * @version 2.0.0
+ * @description Worker em processo para a fila de validação de planilhas.
+ * A fila é persistida no banco (ValidationJob com status NA_FILA); o worker
+ * processa um job por vez, em lotes, sem depender de broker externo.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Worker com polling do banco e disparo imediato após upload
+ * - Recuperação de jobs interrompidos na inicialização
+ * - Pausa no fim do lote durante o desligamento, com retomada posterior
+ * - Upload só enfileira o arquivo; a leitura da planilha acontece no worker
+ */
+
+import {
+  claimNextValidationJob,
+  processValidationJob,
+  recoverInterruptedValidationJobs
+} from './validation.service';
+
+// ==================== CONFIGURAÇÕES ====================
+
+/**
+ * Configurações do worker de validação
+ */
+const QUEUE_CONFIG = {
+  POLL_INTERVAL_MS: parseInt(process.env.VALIDATION_QUEUE_POLL_MS || '5000'),
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+// ==================== ESTADO DO WORKER ====================
+
+let pollTimer: NodeJS.Timeout | null = null;
+let isDraining = false;
+let isStopping = false;
+let currentDrain: Promise<void> | null = null;
+
+// ==================== PROCESSAMENTO ====================
+
+/**
+ * Consome a fila até esvaziar (um job por vez)
+ */
+const drainQueue = async (): Promise<void> => {
+  if (isDraining || isStopping) return;
+
+  isDraining = true;
+
+  try {
+    while (!isStopping) {
+      const jobId = await claimNextValidationJob();
+      if (!jobId) break;
+
+      console.log(`[VALIDATION_QUEUE] Processando job ${jobId}`);
+      await processValidationJob(jobId, { shouldStop: () => isStopping });
+    }
+  } catch (error) {
+    console.error('[VALIDATION_QUEUE] Erro ao consumir fila:', error);
+  } finally {
+    isDraining = false;
+  }
+};
+
+// ==================== API DO WORKER ====================
+
+/**
+ * Sinaliza que há trabalho novo na fila (upload, reprocessamento)
+ */
+export const notifyValidationQueue = (): void => {
+  if (isStopping || isDraining) return;
+
+  currentDrain = drainQueue();
+};
+
+/**
+ * Inicia o worker: recupera jobs interrompidos e começa o polling
+ */
+export const startValidationWorker = async (): Promise<void> => {
+  if (pollTimer) return;
+
+  isStopping = false;
+
+  try {
+    // Em processo único, qualquer job PROCESSANDO na inicialização foi interrompido
+    await recoverInterruptedValidationJobs();
+  } catch (error) {
+    console.error('[VALIDATION_QUEUE] Falha ao recuperar jobs interrompidos:', error);
+  }
+
+  pollTimer = setInterval(notifyValidationQueue, QUEUE_CONFIG.POLL_INTERVAL_MS);
+  notifyValidationQueue();
+
+  console.log(`[VALIDATION_QUEUE] Worker iniciado (polling a cada ${QUEUE_CONFIG.POLL_INTERVAL_MS}ms)`);
+};
+
+/**
+ * Para o worker aguardando o fim do lote em andamento
+ */
+export const stopValidationWorker = async (): Promise<void> => {
+  isStopping = true;
+
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+
+  if (currentDrain) {
+    let shutdownTimer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>(resolve => {
+      shutdownTimer = setTimeout(resolve, QUEUE_CONFIG.SHUTDOWN_TIMEOUT_MS);
+    });
+
+    try {
+      await Promise.race([currentDrain, timeout]);
+    } finally {
+      // Lote terminou antes do limite: o timer não pode segurar o processo
+      clearTimeout(shutdownTimer);
+    }
+  }
+
+  console.log('[VALIDATION_QUEUE] Worker parado');
+};
@@ -0,0 +1,253 @@
+/**
+ * @file withholding.service.ts
+ * @version 2.0.0
+ * @description Retenções na fonte sobre o pagamento de earnings do sistema EPS Campanhas.
+ * As regras são configuradas por perfil (vendedor/gerente) e tipo de favorecido (pessoa física
+ * ou jurídica) e aplicadas sobre o total bruto de cada favorecido no pagamento. O bruto continua
+ * em Earning.amount; retido, líquido e o detalhamento por regra ficam gravados em cada earning.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Cadastro de regras de retenção com alíquota, base mínima e teto
+ * - Cálculo por favorecido com rateio proporcional entre os earnings do pagamento
+ * - Alíquotas e rateio em centavos (utils/money), com sobra distribuída pelo maior resto
+ */
+
+import { PayeeType, Prisma, UserRole, WithholdingRule } from '@prisma/client';
+import { prisma, PrismaTransactionClient, WithMoneyFields } from '../../lib/prismaClient';
+import { CreateWithholdingRuleData, UpdateWithholdingRuleData } from '../schemas/earning.schema';
+import { allocateMoney, percentOf, subtractMoney, sumMoney } from '../utils/money';
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Retenção de uma regra sobre um earning (ou sobre o total do favorecido)
+ */
+export interface WithholdingLine {
+  ruleId: string;
+  code: string;
+  name: string;
+  rate: number;
+  base: number;
+  amount: number;
+}
+
+/**
+ * Valores bruto, retido e líquido de um earning
+ */
+export interface EarningWithholding {
+  earningId: string;
+  userId: string;
+  grossAmount: number;
+  withheldAmount: number;
+  netAmount: number;
+  lines: WithholdingLine[];
+}
+
+/**
+ * Earning a calcular
+ */
+export interface WithholdingInput {
+  id: string;
+  userId: string;
+  amount: number;
+}
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Regra vale para o favorecido (campos nulos valem para todos)
+ */
+const ruleApplies = (
+  rule: WithMoneyFields<WithholdingRule>,
+  payee: { role: UserRole; payeeType: PayeeType }
+): boolean => {
+  return (!rule.role || rule.role === payee.role) &&
+    (!rule.payeeType || rule.payeeType === payee.payeeType);
+};
+
+// ==================== CÁLCULO ====================
+
+/**
+ * Calcula retido e líquido dos earnings informados com as regras ativas.
+ * A base de cada regra é o bruto do favorecido dentro deste conjunto de earnings (um pagamento).
+ */
+export const calculateWithholding = async (
+  client: PrismaTransactionClient,
+  earnings: WithholdingInput[]
+): Promise<Map<string, EarningWithholding>> => {
+  const result = new Map<string, EarningWithholding>();
+
+  if (earnings.length === 0) return result;
+
+  const userIds = [...new Set(earnings.map(earning => earning.userId))];
+
+  const [rules, users] = await Promise.all([
+    client.withholdingRule.findMany({
+      where: { isActive: true },
+      orderBy: [{ code: 'asc' }, { createdAt: 'asc' }],
+    }),
+    client.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, role: true, payeeType: true },
+    }),
+  ]);
+
+  const payees = new Map(users.map(user => [user.id, user]));
+
+  for (const userId of userIds) {
+    const userEarnings = earnings.filter(earning => earning.userId === userId);
+    const gross = sumMoney(userEarnings.map(earning => earning.amount));
+    const payee = payees.get(userId);
+
+    const payeeLines: WithholdingLine[] = [];
+    let remaining = gross;
+
+    for (const rule of payee ? rules.filter(rule => ruleApplies(rule, payee)) : []) {
+      if (gross < rule.minimumBase || rule.rate <= 0) continue;
+
+      let amount = percentOf(gross, rule.rate);
+      if (rule.maximumAmount !== null) {
+        amount = Math.min(amount, rule.maximumAmount);
+      }
+
+      // Retenções somadas nunca passam do bruto
+      amount = Math.min(amount, remaining);
+      if (amount <= 0) continue;
+
+      remaining = subtractMoney(remaining, amount);
+      payeeLines.push({
+        ruleId: rule.id,
+        code: rule.code,
+        name: rule.name,
+        rate: rule.rate,
+        base: gross,
+        amount,
+      });
+    }
+
+    // Rateio proporcional ao bruto de cada earning, sem sobra de centavos
+    const shares = payeeLines.map(line => allocateMoney(line.amount, userEarnings.map(earning => earning.amount)));
+
+    userEarnings.forEach((earning, index) => {
+      const lines = payeeLines
+        .map((line, lineIndex) => ({ ...line, base: earning.amount, amount: shares[lineIndex][index] }))
+        .filter(line => line.amount > 0);
+      const withheldAmount = sumMoney(lines.map(line => line.amount));
+
+      result.set(earning.id, {
+        earningId: earning.id,
+        userId,
+        grossAmount: earning.amount,
+        withheldAmount,
+        netAmount: subtractMoney(earning.amount, withheldAmount),
+        lines,
+      });
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Grava retido, líquido e detalhamento nos earnings
+ */
+export const saveWithholding = async (
+  tx: PrismaTransactionClient,
+  withholdings: EarningWithholding[]
+): Promise<void> => {
+  for (const withholding of withholdings) {
+    await tx.earning.update({
+      where: { id: withholding.earningId },
+      data: {
+        withheldAmount: withholding.withheldAmount,
+        netAmount: withholding.netAmount,
+        withholdingDetails: withholding.lines as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+};
+
+/**
+ * Soma bruto, retido e líquido
+ */
+export const summarizeWithholding = (withholdings: EarningWithholding[]) => ({
+  grossAmount: sumMoney(withholdings.map(item => item.grossAmount)),
+  withheldAmount: sumMoney(withholdings.map(item => item.withheldAmount)),
+  netAmount: sumMoney(withholdings.map(item => item.netAmount)),
+});
+
+// ==================== REGRAS ====================
+
+/**
+ * Lista regras de retenção
+ */
+export const listWithholdingRules = async (): Promise<WithMoneyFields<WithholdingRule>[]> => {
+  return prisma.withholdingRule.findMany({
+    orderBy: [{ isActive: 'desc' }, { code: 'asc' }, { createdAt: 'asc' }],
+  });
+};
+
+/**
+ * Cria regra de retenção
+ */
+export const createWithholdingRule = async (
+  data: CreateWithholdingRuleData,
+  createdById?: string
+): Promise<WithMoneyFields<WithholdingRule>> => {
+  const rule = await prisma.withholdingRule.create({
+    data: {
+      name: data.name,
+      code: data.code,
+      role: data.role ?? null,
+      payeeType: data.payeeType ?? null,
+      rate: data.rate,
+      minimumBase: data.minimumBase,
+      maximumAmount: data.maximumAmount ?? null,
+      isActive: data.isActive,
+      description: data.description ?? null,
+      createdById,
+    },
+  });
+
+  console.log(`[WITHHOLDING_SERVICE] Regra de retenção criada: ${rule.code} (${rule.rate}%)`);
+
+  return rule;
+};
+
+/**
+ * Atualiza regra de retenção (vale para os próximos pagamentos; os já feitos guardam o detalhamento)
+ */
+export const updateWithholdingRule = async (
+  ruleId: string,
+  data: UpdateWithholdingRuleData
+): Promise<WithMoneyFields<WithholdingRule>> => {
+  const existing = await prisma.withholdingRule.findUnique({ where: { id: ruleId } });
+
+  if (!existing) {
+    throw new Error('Regra de retenção não encontrada');
+  }
+
+  const rule = await prisma.withholdingRule.update({
+    where: { id: ruleId },
+    data,
+  });
+
+  console.log(`[WITHHOLDING_SERVICE] Regra de retenção atualizada: ${rule.code}`);
+
+  return rule;
+};
+
+/**
+ * Exclui regra de retenção
+ */
+export const deleteWithholdingRule = async (ruleId: string): Promise<void> => {
+  const { count } = await prisma.withholdingRule.deleteMany({ where: { id: ruleId } });
+
+  if (count === 0) {
+    throw new Error('Regra de retenção não encontrada');
+  }
+
+  console.log(`[WITHHOLDING_SERVICE] Regra de retenção excluída: ${ruleId}`);
+};
@@ -0,0 +1,31 @@
+/**
+ * @file money.ts
+ * @version 2.0.0
+ * @description Utilitários de valores monetários e pontos com aritmética em centavos inteiros.
+ * A implementação fica em shared/money.ts, a mesma importada pelo frontend.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Reexporta o módulo compartilhado com o frontend
+ */
+
+export {
+  MONEY_DECIMALS,
+  parseBrazilianNumber,
+  toCents,
+  fromCents,
+  toMoney,
+  toMoneyOrNull,
+  roundMoney,
+  roundPoints,
+  parseMoney,
+  isNumericText,
+  sumMoney,
+  subtractMoney,
+  multiplyMoney,
+  percentOf,
+  allocateMoney,
+  formatMoney,
+} from '../../../shared/money';
+export type { MoneyInput } from '../../../shared/money';
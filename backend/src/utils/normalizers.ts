@@ -12,6 +12,7 @@
  * - Formatação de telefones e CEP
  * - Normalização de nomes e textos
  * - Utilitários para datas e valores monetários
+ * - Validação e normalização de chaves PIX
  */
 
 /**
@@ -31,6 +32,18 @@ export const removeAccents = (value: string): string => {
     .replace(/[^\w\s]/gi, '');
 };
 
+/**
+ * Padroniza texto de cabeçalho de planilha para comparação
+ * (sem acentos, minúsculo e sem espaços nas bordas)
+ */
+export const normalizeHeaderText = (value: unknown): string => {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+};
+
 /**
  * Capitaliza a primeira letra de cada palavra
  */
@@ -310,6 +323,64 @@ export const normalizeCEP = (cep: string): string => {
   return isValidCEP(cleanCEP) ? cleanCEP : '';
 };
 
+// ==================== CHAVES PIX ====================
+
+/**
+ * Tipos de chave PIX (mesmos valores do enum PixKeyType do banco)
+ */
+export type PixKeyKind = 'CPF' | 'CNPJ' | 'EMAIL' | 'TELEFONE' | 'ALEATORIA';
+
+/**
+ * Normaliza uma chave PIX para o formato do DICT
+ * (CPF/CNPJ só dígitos, e-mail minúsculo, telefone +55DDDNÚMERO, aleatória minúscula)
+ */
+export const normalizePixKey = (type: PixKeyKind, key: string): string => {
+  if (!key) return '';
+
+  const trimmed = key.trim();
+
+  switch (type) {
+    case 'CPF':
+      return removeNonNumeric(trimmed);
+    case 'CNPJ':
+      return removeNonNumeric(trimmed);
+    case 'EMAIL':
+      return normalizeEmail(trimmed);
+    case 'TELEFONE': {
+      const digits = removeNonNumeric(trimmed);
+      const national = digits.length > 11 && digits.startsWith('55') ? digits.slice(2) : digits;
+      const phone = normalizePhone(national);
+      return phone ? `+55${phone}` : '';
+    }
+    case 'ALEATORIA':
+      return trimmed.toLowerCase();
+    default:
+      return trimmed;
+  }
+};
+
+/**
+ * Valida uma chave PIX já normalizada
+ */
+export const isValidPixKey = (type: PixKeyKind, key: string): boolean => {
+  if (!key || typeof key !== 'string') return false;
+
+  switch (type) {
+    case 'CPF':
+      return isValidCPF(key);
+    case 'CNPJ':
+      return isValidCNPJ(key);
+    case 'EMAIL':
+      return key.length <= 77 && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(key);
+    case 'TELEFONE':
+      return /^\+55\d{2}9?\d{8}$/.test(key);
+    case 'ALEATORIA':
+      return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(key);
+    default:
+      return false;
+  }
+};
+
 // ==================== UTILITÁRIOS DE DATA ====================
 
 /**
@@ -364,6 +435,77 @@ export const isoDateToBrazilian = (date: string): string => {
   }
 };
 
+/**
+ * Converte número serial de data do Excel (dias desde 30/12/1899) para Date (UTC)
+ */
+export const excelSerialToDate = (serial: number): Date | null => {
+  // Limite superior do Excel: 31/12/9999
+  if (!Number.isFinite(serial) || serial < 1 || serial > 2958465) return null;
+
+  const excelEpoch = Date.UTC(1899, 11, 30);
+  const milliseconds = Math.round(serial * 24 * 60 * 60 * 1000);
+
+  return new Date(excelEpoch + milliseconds);
+};
+
+/**
+ * Normaliza uma data vinda de planilha para ISO (AAAA-MM-DD).
+ * Aceita Date, serial do Excel, DD/MM/AAAA (ou DD-MM-AAAA, DD.MM.AA),
+ * AAAA-MM-DD e AAAAMMDD. Retorna string vazia se não reconhecer a data.
+ */
+export const normalizeDate = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '';
+
+  const toISO = (year: number, month: number, day: number): string => {
+    const dateObj = new Date(Date.UTC(year, month - 1, day));
+
+    if (dateObj.getUTCFullYear() !== year ||
+        dateObj.getUTCMonth() !== month - 1 ||
+        dateObj.getUTCDate() !== day) {
+      return '';
+    }
+
+    return dateObj.toISOString().slice(0, 10);
+  };
+
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+  }
+
+  if (typeof value === 'number') {
+    const dateObj = excelSerialToDate(value);
+    return dateObj ? dateObj.toISOString().slice(0, 10) : '';
+  }
+
+  const text = String(value).trim();
+
+  // AAAAMMDD
+  let match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) {
+    return toISO(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+  }
+
+  // Serial do Excel exportado como texto
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return normalizeDate(parseFloat(text));
+  }
+
+  // DD/MM/AAAA, DD-MM-AAAA, DD.MM.AAAA (ano com 2 ou 4 dígitos, hora opcional)
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:\s.*)?$/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+    return toISO(year, parseInt(match[2], 10), parseInt(match[1], 10));
+  }
+
+  // AAAA-MM-DD (com ou sem horário)
+  match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/);
+  if (match) {
+    return toISO(parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10));
+  }
+
+  return '';
+};
+
 /**
  * Formata uma data para exibição em português
  */
@@ -505,6 +647,8 @@ export const dateUtils = {
   isoToBrazilian: isoDateToBrazilian,
   format: formatBrazilianDate,
   isValid: isValidBrazilianDate,
+  normalize: normalizeDate,
+  fromExcelSerial: excelSerialToDate,
 };
 
 /**
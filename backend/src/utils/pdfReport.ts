@@ -0,0 +1,334 @@
+/**
+ * @file pdfReport.ts
+ * @version 2.0.0
+ * @description Gerador de relatórios PDF tabulares sem dependências externas.
+ * Usa as fontes padrão Helvetica (WinAnsiEncoding) em páginas A4, com quebra de
+ * página automática, cabeçalho de tabela repetido e rodapé com numeração.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Títulos, linhas de informação e seções com tabelas
+ * - Alinhamento à direita para colunas numéricas e truncamento de textos longos
+ */
+
+// ==================== INTERFACES E TIPOS ====================
+
+/**
+ * Coluna de tabela (largura em pontos)
+ */
+export interface PdfReportColumn {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Seção do relatório: título e tabela
+ */
+export interface PdfReportSection {
+  heading: string;
+  columns: PdfReportColumn[];
+  rows: string[][];
+  /** Linha de total destacada ao final da tabela */
+  footer?: string[];
+  emptyMessage?: string;
+}
+
+/**
+ * Documento completo
+ */
+export interface PdfReportDocument {
+  title: string;
+  /** Linhas de informação abaixo do título (período, filtros, data de geração) */
+  info?: string[];
+  sections: PdfReportSection[];
+  footerText?: string;
+}
+
+// ==================== CONFIGURAÇÕES ====================
+
+const PAGE = {
+  WIDTH: 595.28,
+  HEIGHT: 841.89,
+  MARGIN: 40,
+} as const;
+
+const FONT_SIZE = {
+  TITLE: 16,
+  INFO: 9,
+  HEADING: 11,
+  TABLE: 8,
+  FOOTER: 7,
+} as const;
+
+const ROW_HEIGHT = 14;
+const CELL_PADDING = 3;
+
+/**
+ * Larguras da Helvetica (1/1000 do tamanho da fonte) para os caracteres 32 a 126
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// Negrito é um pouco mais largo; a aproximação basta para truncar e alinhar
+const BOLD_FACTOR = 1.07;
+
+// ==================== UTILITÁRIOS ====================
+
+/**
+ * Converte para os caracteres suportados pela WinAnsiEncoding (Latin-1)
+ */
+const toWinAnsi = (text: string): string => {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+};
+
+/**
+ * Largura aproximada do texto em pontos
+ */
+const textWidth = (text: string, size: number, bold = false): number => {
+  let units = 0;
+
+  for (const char of text) {
+    // Letras acentuadas usam a largura da letra base
+    const base = char.normalize('NFD').charCodeAt(0);
+    units += base >= 32 && base <= 126 ? HELVETICA_WIDTHS[base - 32] : 556;
+  }
+
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+};
+
+/**
+ * Trunca o texto para caber na largura informada
+ */
+const fitText = (text: string, maxWidth: number, size: number, bold = false): string => {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+
+  let result = text;
+  while (result.length > 0 && textWidth(`${result}...`, size, bold) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+
+  return `${result}...`;
+};
+
+/**
+ * Escapa texto para literal de string do PDF
+ */
+const escapePdfText = (text: string): string => {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+};
+
+const formatCoordinate = (value: number): string => value.toFixed(2);
+
+// ==================== LAYOUT ====================
+
+/**
+ * Acumula o conteúdo das páginas durante o layout
+ */
+class PageBuilder {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = PAGE.HEIGHT - PAGE.MARGIN;
+  }
+
+  /** Garante espaço vertical; abre nova página quando necessário */
+  ensureSpace(height: number): boolean {
+    if (this.y - height < PAGE.MARGIN + FONT_SIZE.FOOTER * 2) {
+      this.addPage();
+      return true;
+    }
+    return false;
+  }
+
+  moveDown(height: number): void {
+    this.y -= height;
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+
+  text(value: string, x: number, y: number, size: number, bold = false): void {
+    this.current.push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${formatCoordinate(x)} ${formatCoordinate(y)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, gray: number): void {
+    this.current.push(
+      `${gray} g ${formatCoordinate(x)} ${formatCoordinate(y)} ${formatCoordinate(width)} ${formatCoordinate(height)} re f 0 g`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number): void {
+    this.current.push(
+      `0.75 G 0.5 w ${formatCoordinate(x1)} ${formatCoordinate(y1)} m ${formatCoordinate(x2)} ${formatCoordinate(y2)} l S 0 G`
+    );
+  }
+}
+
+/**
+ * Desenha uma linha da tabela
+ */
+const drawRow = (
+  builder: PageBuilder,
+  columns: PdfReportColumn[],
+  cells: string[],
+  options: { bold?: boolean; background?: number } = {}
+): void => {
+  const { bold = false, background } = options;
+  const top = builder.cursor;
+  const baseline = top - ROW_HEIGHT + 4;
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+
+  if (background !== undefined) {
+    builder.fillRect(PAGE.MARGIN, top - ROW_HEIGHT, tableWidth, ROW_HEIGHT, background);
+  }
+
+  let x = PAGE.MARGIN;
+  columns.forEach((column, index) => {
+    const available = column.width - CELL_PADDING * 2;
+    const value = fitText(toWinAnsi(cells[index] ?? ''), available, FONT_SIZE.TABLE, bold);
+    const textX = column.align === 'right'
+      ? x + column.width - CELL_PADDING - textWidth(value, FONT_SIZE.TABLE, bold)
+      : x + CELL_PADDING;
+
+    builder.text(value, textX, baseline, FONT_SIZE.TABLE, bold);
+    x += column.width;
+  });
+
+  builder.line(PAGE.MARGIN, top - ROW_HEIGHT, PAGE.MARGIN + tableWidth, top - ROW_HEIGHT);
+  builder.moveDown(ROW_HEIGHT);
+};
+
+/**
+ * Desenha uma seção com cabeçalho de tabela repetido em cada página
+ */
+const drawSection = (builder: PageBuilder, section: PdfReportSection): void => {
+  const headerCells = section.columns.map(column => column.label);
+
+  // Título, cabeçalho e ao menos uma linha ficam juntos
+  builder.ensureSpace(FONT_SIZE.HEADING + 8 + ROW_HEIGHT * 2);
+  builder.moveDown(FONT_SIZE.HEADING + 4);
+  builder.text(toWinAnsi(section.heading), PAGE.MARGIN, builder.cursor, FONT_SIZE.HEADING, true);
+  builder.moveDown(6);
+  drawRow(builder, section.columns, headerCells, { bold: true, background: 0.9 });
+
+  if (section.rows.length === 0) {
+    drawRow(builder, [{ label: '', width: PAGE.WIDTH - PAGE.MARGIN * 2 }], [section.emptyMessage || 'Sem dados']);
+  }
+
+  for (const row of section.rows) {
+    if (builder.ensureSpace(ROW_HEIGHT)) {
+      drawRow(builder, section.columns, headerCells, { bold: true, background: 0.9 });
+    }
+    drawRow(builder, section.columns, row);
+  }
+
+  if (section.footer) {
+    builder.ensureSpace(ROW_HEIGHT);
+    drawRow(builder, section.columns, section.footer, { bold: true, background: 0.95 });
+  }
+
+  builder.moveDown(10);
+};
+
+// ==================== SERIALIZAÇÃO ====================
+
+/**
+ * Monta o arquivo PDF (objetos, tabela xref e trailer)
+ */
+const serializePdf = (pages: string[][]): Buffer => {
+  const objects: string[] = [];
+  const pageCount = pages.length;
+  const firstPageObject = 5;
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pages.map((_, index) => `${firstPageObject + index * 2} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((commands, index) => {
+    const pageObject = firstPageObject + index * 2;
+    const stream = commands.join('\n');
+
+    objects[pageObject] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE.WIDTH} ${PAGE.HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject + 1} 0 R >>`;
+    objects[pageObject + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets: number[] = [];
+
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(output, 'latin1');
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, 'latin1');
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, 'latin1');
+};
+
+// ==================== GERAÇÃO ====================
+
+/**
+ * Gera o PDF do relatório
+ */
+export const renderPdfReport = (document: PdfReportDocument): Buffer => {
+  const builder = new PageBuilder();
+
+  builder.moveDown(FONT_SIZE.TITLE);
+  builder.text(toWinAnsi(document.title), PAGE.MARGIN, builder.cursor, FONT_SIZE.TITLE, true);
+  builder.moveDown(8);
+
+  for (const info of document.info || []) {
+    builder.moveDown(FONT_SIZE.INFO + 3);
+    builder.text(toWinAnsi(info), PAGE.MARGIN, builder.cursor, FONT_SIZE.INFO);
+  }
+  builder.moveDown(10);
+
+  for (const section of document.sections) {
+    drawSection(builder, section);
+  }
+
+  // Rodapé só depois do layout, quando o total de páginas é conhecido
+  const pageCount = builder.pages.length;
+  builder.pages.forEach((commands, index) => {
+    const footer = toWinAnsi(`${document.footerText ? `${document.footerText} - ` : ''}Página ${index + 1} de ${pageCount}`);
+    const x = PAGE.WIDTH - PAGE.MARGIN - textWidth(footer, FONT_SIZE.FOOTER);
+    commands.push(
+      `BT /F1 ${FONT_SIZE.FOOTER} Tf ${formatCoordinate(x)} ${formatCoordinate(PAGE.MARGIN / 2)} Td (${escapePdfText(footer)}) Tj ET`
+    );
+  });
+
+  return serializePdf(builder.pages);
+};
@@ -0,0 +1,164 @@
+/**
+ * @file campaignBudget.award.test.ts
+ * @version 2.0.0
+ * @description Verificação de orçamento ao premiar uma venda: teto total da campanha
+ * (vendedor + gerente) e teto por vendedor (apenas earnings do vendedor).
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { CampaignBudgetAction, EarningType } from '@prisma/client';
+import { evaluateCampaignAward } from '../src/services/campaignBudget.service';
+import type { EarningDraft } from '../src/services/earning.service';
+import type { PrismaTransactionClient } from '../lib/prismaClient';
+
+jest.mock('../lib/prismaClient', () => ({ prisma: {} }));
+
+jest.mock('../src/services/earning.service', () => ({
+  createEarningsFromDrafts: jest.fn(),
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+interface BudgetScenario {
+  budgetTotal: number | null;
+  budgetPerSeller: number | null;
+  action?: CampaignBudgetAction;
+  committed?: number;
+  sellerCommitted?: number;
+}
+
+/**
+ * Transação com a campanha e as somas comprometidas informadas
+ */
+const buildTx = (scenario: BudgetScenario) => {
+  const tx = {
+    campaign: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'campaign-1',
+        title: 'Campanha',
+        budgetTotal: scenario.budgetTotal,
+        budgetPerSeller: scenario.budgetPerSeller,
+        budgetExhaustedAction: scenario.action ?? CampaignBudgetAction.STOP,
+        budgetWarningSentAt: null,
+        budgetExhaustedAt: null,
+      }),
+    },
+    earning: {
+      aggregate: jest.fn(async ({ where }: { where: { userId?: string } }) => ({
+        _sum: { amount: where.userId ? scenario.sellerCommitted ?? 0 : scenario.committed ?? 0 },
+      })),
+    },
+    $queryRaw: jest.fn().mockResolvedValue([]),
+  };
+
+  return { tx, client: tx as unknown as PrismaTransactionClient };
+};
+
+const draft = (type: EarningType, amount: number): EarningDraft => ({
+  type,
+  userId: type === EarningType.SELLER ? 'seller-1' : 'manager-1',
+  userName: type === EarningType.SELLER ? 'Vendedor' : 'Gerente',
+  userAvatarUrl: '',
+  amount,
+  description: 'Venda validada',
+});
+
+// Venda de 150: 100 ao vendedor e 50 ao gerente
+const drafts = [draft(EarningType.SELLER, 100), draft(EarningType.MANAGER, 50)];
+
+const evaluate = (scenario: BudgetScenario) => {
+  const { tx, client } = buildTx(scenario);
+  return { tx, decision: evaluateCampaignAward(client, 'campaign-1', 'seller-1', drafts) };
+};
+
+describe('evaluateCampaignAward', () => {
+  it('premia sem travar a campanha quando não há orçamento', async () => {
+    const { tx, decision } = evaluate({ budgetTotal: null, budgetPerSeller: null });
+
+    await expect(decision).resolves.toEqual({ outcome: 'AWARD' });
+    expect(tx.$queryRaw).not.toHaveBeenCalled();
+    expect(tx.earning.aggregate).not.toHaveBeenCalled();
+  });
+
+  it('trava a campanha antes de somar o comprometido', async () => {
+    const { tx, decision } = evaluate({ budgetTotal: 1000, budgetPerSeller: null, committed: 0 });
+
+    await decision;
+    expect(tx.$queryRaw).toHaveBeenCalledTimes(1);
+    expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(tx.earning.aggregate.mock.invocationCallOrder[0]);
+  });
+
+  it('aceita o prêmio que fecha exatamente o teto total', async () => {
+    const { decision } = evaluate({ budgetTotal: 1000, budgetPerSeller: null, committed: 850 });
+
+    await expect(decision).resolves.toEqual({ outcome: 'AWARD' });
+  });
+
+  it('bloqueia quando vendedor + gerente estouram o teto total', async () => {
+    const { decision } = evaluate({ budgetTotal: 1000, budgetPerSeller: null, committed: 900 });
+
+    await expect(decision).resolves.toEqual({
+      outcome: 'BLOCKED',
+      reason: 'Orçamento total da campanha esgotado',
+      limit: 'TOTAL',
+    });
+  });
+
+  it('retém para aprovação quando a campanha enfileira prêmios acima do orçamento', async () => {
+    const { decision } = evaluate({
+      budgetTotal: 1000,
+      budgetPerSeller: null,
+      committed: 900,
+      action: CampaignBudgetAction.QUEUE_FOR_APPROVAL,
+    });
+
+    await expect(decision).resolves.toMatchObject({ outcome: 'HELD', limit: 'TOTAL' });
+  });
+
+  it('conta só o earning do vendedor no teto por vendedor', async () => {
+    // 400 + 100 do vendedor = 500; os 50 do gerente não entram no teto do vendedor
+    const { tx, decision } = evaluate({ budgetTotal: null, budgetPerSeller: 500, sellerCommitted: 400 });
+
+    await expect(decision).resolves.toEqual({ outcome: 'AWARD' });
+    expect(tx.earning.aggregate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ userId: 'seller-1', type: EarningType.SELLER }),
+      })
+    );
+  });
+
+  it('bloqueia quando o vendedor ultrapassa o teto por vendedor', async () => {
+    const { decision } = evaluate({ budgetTotal: null, budgetPerSeller: 500, sellerCommitted: 450 });
+
+    await expect(decision).resolves.toEqual({
+      outcome: 'BLOCKED',
+      reason: 'Teto por vendedor da campanha atingido',
+      limit: 'SELLER',
+    });
+  });
+
+  it('verifica o teto total antes do teto por vendedor', async () => {
+    const { decision } = evaluate({
+      budgetTotal: 1000,
+      budgetPerSeller: 500,
+      committed: 900,
+      sellerCommitted: 450,
+    });
+
+    await expect(decision).resolves.toMatchObject({ limit: 'TOTAL' });
+  });
+
+  it('premia quando cabe nos dois tetos', async () => {
+    const { decision } = evaluate({
+      budgetTotal: 1000,
+      budgetPerSeller: 500,
+      committed: 500,
+      sellerCommitted: 300,
+    });
+
+    await expect(decision).resolves.toEqual({ outcome: 'AWARD' });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * @file earning.close.test.ts
+ * @version 2.0.0
+ * @description Cancelamento e estorno de earnings: transições permitidas, earning reservado
+ * em lote de pagamento PIX e atualização condicional contra alteração concorrente.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { EarningStatus } from '@prisma/client';
+import { canTransitionEarning } from '../src/services/earningLedger.service';
+import { cancelEarning, reverseEarning } from '../src/services/earning.service';
+
+const tx = {
+  earning: { findUnique: jest.fn(), updateMany: jest.fn() },
+};
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: { $transaction: jest.fn((callback: (client: unknown) => unknown) => callback(tx)) },
+  prismaUtils: {},
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/earningPayment.service', () => ({
+  createEarningPayment: jest.fn(),
+}));
+
+/**
+ * Earning atual lido na transação
+ */
+const mockCurrent = (status: EarningStatus, payoutBatchId: string | null = null) => {
+  tx.earning.findUnique.mockResolvedValue({
+    id: 'earning-1',
+    userId: 'user-1',
+    status,
+    payoutBatchId,
+    paymentId: null,
+    amount: 150,
+  });
+};
+
+describe('canTransitionEarning', () => {
+  it.each([
+    [EarningStatus.PENDENTE, EarningStatus.PAGO],
+    [EarningStatus.PENDENTE, EarningStatus.CANCELADO],
+    [EarningStatus.PAGO, EarningStatus.ESTORNADO],
+  ])('permite %s → %s', (from, to) => {
+    expect(canTransitionEarning(from, to)).toBe(true);
+  });
+
+  it.each([
+    [EarningStatus.PENDENTE, EarningStatus.ESTORNADO],
+    [EarningStatus.PAGO, EarningStatus.CANCELADO],
+    [EarningStatus.PAGO, EarningStatus.PENDENTE],
+    [EarningStatus.CANCELADO, EarningStatus.PENDENTE],
+    [EarningStatus.CANCELADO, EarningStatus.PAGO],
+    [EarningStatus.ESTORNADO, EarningStatus.PAGO],
+    [EarningStatus.ESTORNADO, EarningStatus.CANCELADO],
+  ])('recusa %s → %s', (from, to) => {
+    expect(canTransitionEarning(from, to)).toBe(false);
+  });
+});
+
+describe('cancelEarning / reverseEarning', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('não cancela earning já pago (exige estorno)', async () => {
+    mockCurrent(EarningStatus.PAGO);
+
+    await expect(cancelEarning('earning-1', 'Venda devolvida', 'admin-1')).rejects.toThrow(
+      'Earning já foi pago: use o estorno'
+    );
+    expect(tx.earning.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('não estorna earning que ainda não foi pago', async () => {
+    mockCurrent(EarningStatus.PENDENTE);
+
+    await expect(reverseEarning('earning-1', 'Venda devolvida', 'admin-1')).rejects.toThrow(
+      'Não é possível estornar earning com status PENDENTE'
+    );
+    expect(tx.earning.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('não cancela earning reservado em lote de pagamento PIX aberto', async () => {
+    mockCurrent(EarningStatus.PENDENTE, 'batch-1');
+
+    await expect(cancelEarning('earning-1', 'Venda devolvida', 'admin-1')).rejects.toThrow(
+      'Earning reservado em lote de pagamento PIX: confirme ou cancele o lote'
+    );
+    expect(tx.earning.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('cancela só se o earning seguir pendente e fora de lote', async () => {
+    mockCurrent(EarningStatus.PENDENTE);
+    tx.earning.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(cancelEarning('earning-1', 'Venda devolvida', 'admin-1')).rejects.toThrow(
+      'Earning alterado durante a operação; tente novamente'
+    );
+    expect(tx.earning.updateMany).toHaveBeenCalledWith({
+      where: { id: 'earning-1', status: EarningStatus.PENDENTE, payoutBatchId: null },
+      data: { status: EarningStatus.CANCELADO },
+    });
+  });
+
+  it('estorna earning pago por lote, condicionado ao mesmo lote', async () => {
+    mockCurrent(EarningStatus.PAGO, 'batch-1');
+    tx.earning.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(reverseEarning('earning-1', 'Chargeback', 'admin-1')).rejects.toThrow(
+      'Earning alterado durante a operação; tente novamente'
+    );
+    expect(tx.earning.updateMany).toHaveBeenCalledWith({
+      where: { id: 'earning-1', status: EarningStatus.PAGO, payoutBatchId: 'batch-1' },
+      data: { status: EarningStatus.ESTORNADO },
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @file payoutBatch.create.test.ts
+ * @version 2.0.0
+ * @description Geração de lote de pagamento PIX: favorecidos sem chave PIX ou com líquido
+ * zerado ficam de fora, e a reserva dos earnings é condicional.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { EarningStatus, PixKeyType } from '@prisma/client';
+import { createPayoutBatch } from '../src/services/payoutBatch.service';
+import { calculateWithholding, saveWithholding } from '../src/services/withholding.service';
+
+const tx = {
+  earning: { findMany: jest.fn(), updateMany: jest.fn() },
+  payoutBatch: { create: jest.fn(), findUniqueOrThrow: jest.fn() },
+};
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: { $transaction: jest.fn((callback: (client: unknown) => unknown) => callback(tx)) },
+  prismaUtils: {},
+}));
+
+jest.mock('../src/services/earningPayment.service', () => ({
+  publishEarningPaidEvents: jest.fn(),
+  recordEarningPayment: jest.fn(),
+}));
+
+jest.mock('../src/services/withholding.service', () => ({
+  calculateWithholding: jest.fn(),
+  saveWithholding: jest.fn(),
+}));
+
+const withholdingMock = calculateWithholding as jest.Mock;
+
+interface SellerFixture {
+  userId: string;
+  amounts: number[];
+  withPixKey?: boolean;
+  withheldPerEarning?: number;
+}
+
+/**
+ * Earnings pendentes dos vendedores informados e as retenções de cada um
+ */
+const mockEarnings = (sellers: SellerFixture[]) => {
+  const earnings = sellers.flatMap(seller =>
+    seller.amounts.map((amount, index) => ({
+      id: `${seller.userId}-earning-${index}`,
+      userId: seller.userId,
+      amount,
+      user: {
+        name: `Vendedor ${seller.userId}`,
+        cpf: '12345678909',
+        pixKeyType: seller.withPixKey === false ? null : PixKeyType.CPF,
+        pixKey: seller.withPixKey === false ? null : '12345678909',
+      },
+    }))
+  );
+
+  tx.earning.findMany.mockResolvedValue(earnings);
+  withholdingMock.mockResolvedValue(
+    new Map(
+      sellers.flatMap(seller =>
+        earnings
+          .filter(earning => earning.userId === seller.userId)
+          .map(earning => {
+            const withheldAmount = seller.withheldPerEarning ?? 0;
+            return [earning.id, {
+              earningId: earning.id,
+              userId: seller.userId,
+              grossAmount: earning.amount,
+              withheldAmount,
+              netAmount: earning.amount - withheldAmount,
+              lines: [],
+            }];
+          })
+      )
+    )
+  );
+
+  return earnings;
+};
+
+describe('createPayoutBatch', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tx.payoutBatch.create.mockResolvedValue({ id: 'batch-1' });
+    tx.payoutBatch.findUniqueOrThrow.mockResolvedValue({
+      id: 'batch-1',
+      code: 'PIX-TESTE',
+      itemCount: 1,
+      earningCount: 2,
+      totalAmount: 300,
+    });
+  });
+
+  it('deixa de fora quem não tem chave PIX e reserva só os earnings incluídos', async () => {
+    mockEarnings([
+      { userId: 'com-pix', amounts: [100, 200] },
+      { userId: 'sem-pix', amounts: [50], withPixKey: false },
+    ]);
+    tx.earning.updateMany.mockResolvedValue({ count: 2 });
+
+    const { skipped } = await createPayoutBatch({});
+
+    expect(skipped).toEqual([
+      expect.objectContaining({ userId: 'sem-pix', earningCount: 1, amount: 50, reason: 'Sem chave PIX cadastrada' }),
+    ]);
+
+    const { items, totalAmount } = tx.payoutBatch.create.mock.calls[0][0].data;
+    expect(items.create).toHaveLength(1);
+    expect(items.create[0]).toMatchObject({ userId: 'com-pix', amount: 300, earningCount: 2 });
+    expect(totalAmount).toBe(300);
+
+    expect(tx.earning.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['com-pix-earning-0', 'com-pix-earning-1'] },
+        status: EarningStatus.PENDENTE,
+        payoutBatchId: null,
+      },
+      data: { payoutBatchId: 'batch-1' },
+    });
+  });
+
+  it('deixa de fora quem tem o líquido zerado pelas retenções', async () => {
+    mockEarnings([
+      { userId: 'liquido', amounts: [100], withheldPerEarning: 10 },
+      { userId: 'zerado', amounts: [40], withheldPerEarning: 40 },
+    ]);
+    tx.earning.updateMany.mockResolvedValue({ count: 1 });
+
+    const { skipped } = await createPayoutBatch({});
+
+    expect(skipped).toEqual([
+      expect.objectContaining({ userId: 'zerado', reason: 'Valor líquido zerado pelas retenções' }),
+    ]);
+
+    const { items } = tx.payoutBatch.create.mock.calls[0][0].data;
+    expect(items.create).toEqual([
+      expect.objectContaining({ userId: 'liquido', amount: 90, grossAmount: 100, withheldAmount: 10 }),
+    ]);
+    expect(saveWithholding).toHaveBeenCalledWith(tx, [expect.objectContaining({ earningId: 'liquido-earning-0' })]);
+  });
+
+  it('não cria lote quando nenhum favorecido pode receber', async () => {
+    mockEarnings([{ userId: 'sem-pix', amounts: [50], withPixKey: false }]);
+
+    await expect(createPayoutBatch({})).rejects.toThrow('Nenhum usuário selecionado possui chave PIX cadastrada');
+    expect(tx.payoutBatch.create).not.toHaveBeenCalled();
+  });
+
+  it('desfaz o lote se algum earning foi pago ou reservado no meio do caminho', async () => {
+    mockEarnings([{ userId: 'com-pix', amounts: [100, 200] }]);
+    tx.earning.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(createPayoutBatch({})).rejects.toThrow('Earnings alterados durante a geração do lote. Tente novamente');
+    expect(saveWithholding).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @file pointLedger.record.test.ts
+ * @version 2.0.0
+ * @description Extrato de pontos: saldo após cada lançamento, saldo de abertura de quem já
+ * tinha pontos e conciliação de User.points com o extrato.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { PointTransactionSource, PointTransactionType } from '@prisma/client';
+import { PrismaTransactionClient } from '../lib/prismaClient';
+import { recordPointTransaction, reconcileUserPoints } from '../src/services/pointLedger.service';
+
+const tx = {
+  user: { findUnique: jest.fn(), update: jest.fn() },
+  pointTransaction: { findFirst: jest.fn(), create: jest.fn(), aggregate: jest.fn() },
+  pointLot: { aggregate: jest.fn() },
+};
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: { $transaction: jest.fn((callback: (client: unknown) => unknown) => callback(tx)) },
+  prismaUtils: {},
+}));
+
+const client = tx as unknown as PrismaTransactionClient;
+const USER_ID = 'user-1';
+
+describe('recordPointTransaction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.pointTransaction.findFirst.mockResolvedValue({ id: 'lancamento-anterior' });
+    tx.pointTransaction.create.mockImplementation(({ data }) => Promise.resolve({ id: 'lancamento', ...data }));
+  });
+
+  it('grava o saldo após o lançamento a partir do saldo atualizado do usuário', async () => {
+    tx.user.update.mockResolvedValue({ points: 350 });
+    tx.user.findUnique.mockResolvedValue({ name: 'Administrador' });
+
+    await recordPointTransaction(client, {
+      userId: USER_ID,
+      type: PointTransactionType.KIT_COMPLETION,
+      amount: 100,
+      sourceType: PointTransactionSource.EARNING,
+      sourceId: 'earning-1',
+      actorId: 'admin-1',
+    });
+
+    expect(tx.user.update).toHaveBeenCalledWith({
+      where: { id: USER_ID },
+      data: { points: { increment: 100 } },
+      select: { points: true },
+    });
+    expect(tx.pointTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: USER_ID,
+        type: PointTransactionType.KIT_COMPLETION,
+        amount: 100,
+        balanceAfter: 350,
+        sourceType: PointTransactionSource.EARNING,
+        sourceId: 'earning-1',
+        actorId: 'admin-1',
+        actorName: 'Administrador',
+      }),
+    });
+  });
+
+  it('débito grava valor negativo e saldo já reduzido', async () => {
+    tx.user.update.mockResolvedValue({ points: 50 });
+
+    await recordPointTransaction(client, { userId: USER_ID, type: PointTransactionType.REDEMPTION, amount: -200 });
+
+    expect(tx.user.update).toHaveBeenCalledWith(expect.objectContaining({ data: { points: { increment: -200 } } }));
+    expect(tx.pointTransaction.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ amount: -200, balanceAfter: 50, actorName: null }),
+    });
+  });
+
+  it('lançamento zerado não altera saldo nem extrato', async () => {
+    const result = await recordPointTransaction(client, {
+      userId: USER_ID,
+      type: PointTransactionType.MANUAL_ADJUSTMENT,
+      amount: 0.4,
+    });
+
+    expect(result).toBeNull();
+    expect(tx.user.update).not.toHaveBeenCalled();
+    expect(tx.pointTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it('registra o saldo de abertura antes do primeiro lançamento de quem já tinha pontos', async () => {
+    tx.pointTransaction.findFirst.mockResolvedValue(null);
+    tx.user.findUnique.mockResolvedValue({ points: 250 });
+    tx.user.update.mockResolvedValue({ points: 300 });
+
+    await recordPointTransaction(client, { userId: USER_ID, type: PointTransactionType.RULE_BONUS, amount: 50 });
+
+    expect(tx.pointTransaction.create.mock.calls.map(([args]) => args.data)).toEqual([
+      expect.objectContaining({ type: PointTransactionType.OPENING_BALANCE, amount: 250, balanceAfter: 250 }),
+      expect.objectContaining({ type: PointTransactionType.RULE_BONUS, amount: 50, balanceAfter: 300 }),
+    ]);
+  });
+});
+
+describe('reconcileUserPoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tx.user.findUnique.mockResolvedValue({ points: 120 });
+    tx.pointTransaction.findFirst.mockResolvedValue({ id: 'lancamento-anterior' });
+    tx.pointTransaction.aggregate.mockResolvedValue({ _sum: { amount: 100 } });
+    tx.pointLot.aggregate.mockResolvedValue({ _sum: { remainingPoints: 100 } });
+  });
+
+  it('aponta a diferença entre o cache e o extrato sem corrigir', async () => {
+    const result = await reconcileUserPoints(USER_ID);
+
+    expect(result).toEqual({
+      userId: USER_ID,
+      cachedBalance: 120,
+      ledgerBalance: 100,
+      lotBalance: 100,
+      difference: 20,
+      corrected: false,
+    });
+    expect(tx.user.update).not.toHaveBeenCalled();
+  });
+
+  it('com apply corrige o cache para o saldo do extrato', async () => {
+    const result = await reconcileUserPoints(USER_ID, true);
+
+    expect(result.corrected).toBe(true);
+    expect(tx.user.update).toHaveBeenCalledWith({ where: { id: USER_ID }, data: { points: 100 } });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file pointLot.consume.test.ts
+ * @version 2.0.0
+ * @description Débito de pontos por lotes: consumo FIFO pela validade, débito parcial de
+ * estornos e débito condicional contra consumo concorrente do mesmo lote.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { PointTransactionType } from '@prisma/client';
+import { PrismaTransactionClient } from '../lib/prismaClient';
+import { consumePoints } from '../src/services/pointLot.service';
+import { recordPointTransaction } from '../src/services/pointLedger.service';
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: {},
+  prismaUtils: {},
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/pointLedger.service', () => ({
+  recordPointTransaction: jest.fn(),
+}));
+
+const USER_ID = 'user-1';
+const ENTRY = { type: PointTransactionType.REDEMPTION, description: 'Resgate de prêmio' };
+
+interface LotFixture {
+  id: string;
+  remainingPoints: number;
+  earningId?: string;
+}
+
+/**
+ * Transação simulada com os lotes já na ordem em que o banco os devolve (vencimento mais próximo primeiro)
+ */
+const createTx = (lots: LotFixture[]) => {
+  const balance = lots.reduce((sum, lot) => sum + lot.remainingPoints, 0);
+
+  const tx = {
+    $queryRaw: jest.fn().mockResolvedValue([]),
+    user: { findUnique: jest.fn().mockResolvedValue({ points: balance }) },
+    pointLot: {
+      aggregate: jest.fn().mockResolvedValue({ _sum: { remainingPoints: balance } }),
+      create: jest.fn(),
+      findMany: jest.fn().mockResolvedValue(lots.map(lot => ({ earningId: null, ...lot }))),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+
+  return { tx, client: tx as unknown as PrismaTransactionClient };
+};
+
+describe('consumePoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('consome os lotes na ordem de vencimento e só o necessário do último', async () => {
+    const { tx, client } = createTx([
+      { id: 'vence-antes', remainingPoints: 30 },
+      { id: 'vence-depois', remainingPoints: 50 },
+      { id: 'sem-validade', remainingPoints: 100 },
+    ]);
+
+    const consumed = await consumePoints(client, USER_ID, 60, ENTRY);
+
+    expect(consumed).toBe(60);
+    expect(tx.pointLot.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      orderBy: [
+        { expiresAt: { sort: 'asc', nulls: 'last' } },
+        { earnedAt: 'asc' },
+        { id: 'asc' },
+      ],
+    }));
+    expect(tx.pointLot.updateMany.mock.calls.map(([args]) => args)).toEqual([
+      {
+        where: { id: 'vence-antes', expiredAt: null, remainingPoints: { gte: 30 } },
+        data: { remainingPoints: { decrement: 30 } },
+      },
+      {
+        where: { id: 'vence-depois', expiredAt: null, remainingPoints: { gte: 30 } },
+        data: { remainingPoints: { decrement: 30 } },
+      },
+    ]);
+    expect(recordPointTransaction).toHaveBeenCalledWith(client, expect.objectContaining({
+      userId: USER_ID,
+      type: PointTransactionType.REDEMPTION,
+      amount: -60,
+      metadata: { lots: [{ lotId: 'vence-antes', points: 30 }, { lotId: 'vence-depois', points: 30 }] },
+    }));
+  });
+
+  it('recusa débito acima do saldo disponível sem tocar nos lotes', async () => {
+    const { tx, client } = createTx([{ id: 'lote', remainingPoints: 40 }]);
+
+    await expect(consumePoints(client, USER_ID, 50, ENTRY)).rejects.toThrow('Pontos insuficientes');
+    expect(tx.pointLot.updateMany).not.toHaveBeenCalled();
+    expect(recordPointTransaction).not.toHaveBeenCalled();
+  });
+
+  it('no débito parcial consome o que houver, começando pelos lotes do earning estornado', async () => {
+    const { tx, client } = createTx([
+      { id: 'outro', remainingPoints: 10 },
+      { id: 'do-earning', remainingPoints: 20, earningId: 'earning-1' },
+    ]);
+
+    const consumed = await consumePoints(client, USER_ID, 50, ENTRY, { allowPartial: true, earningId: 'earning-1' });
+
+    expect(consumed).toBe(30);
+    expect(tx.pointLot.updateMany.mock.calls.map(([args]) => args.where.id)).toEqual(['do-earning', 'outro']);
+    expect(recordPointTransaction).toHaveBeenCalledWith(client, expect.objectContaining({ amount: -30 }));
+  });
+
+  it('aborta se outro débito consumiu o lote entre a leitura e a baixa', async () => {
+    const { tx, client } = createTx([{ id: 'lote', remainingPoints: 40 }]);
+    tx.pointLot.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await expect(consumePoints(client, USER_ID, 20, ENTRY))
+      .rejects.toThrow('Saldo de pontos alterado durante a operação; tente novamente');
+    expect(recordPointTransaction).not.toHaveBeenCalled();
+  });
+
+  it('converte o saldo anterior ao controle de validade antes de consumir', async () => {
+    const { tx, client } = createTx([{ id: 'lote', remainingPoints: 40 }]);
+    tx.user.findUnique.mockResolvedValue({ points: 55 });
+
+    await consumePoints(client, USER_ID, 10, ENTRY);
+
+    expect(tx.$queryRaw).toHaveBeenCalled();
+    expect(tx.pointLot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: USER_ID, points: 15, remainingPoints: 15 }),
+    });
+  });
+});
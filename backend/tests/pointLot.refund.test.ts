@@ -0,0 +1,111 @@
+/**
+ * @file pointLot.refund.test.ts
+ * @version 2.0.0
+ * @description Devolução de pontos de resgate cancelado: volta aos lotes de origem, lote novo
+ * para o que não pode ser reaberto e idempotência por origem.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { PointLotSource, PointTransactionSource, PointTransactionType } from '@prisma/client';
+import { PrismaTransactionClient } from '../lib/prismaClient';
+import { refundConsumedPoints } from '../src/services/pointLot.service';
+import { recordPointTransaction } from '../src/services/pointLedger.service';
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: {},
+  prismaUtils: {},
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/pointLedger.service', () => ({
+  recordPointTransaction: jest.fn(),
+}));
+
+const USER_ID = 'user-1';
+const ORIGIN = { sourceType: PointTransactionSource.PREMIO_REDEMPTION, sourceId: 'redemption-1' };
+const ENTRY = { description: 'Estorno do resgate: Caneca', actorId: 'admin-1' };
+
+/**
+ * Transação simulada com os débitos já lançados para o resgate e o estorno anterior, se houver
+ */
+const createTx = (debitedLots: Array<{ lotId: string; points: number }>, alreadyRefunded = false) => {
+  const tx = {
+    $queryRaw: jest.fn().mockResolvedValue([]),
+    user: { findUnique: jest.fn().mockResolvedValue({ points: 0 }) },
+    pointTransaction: {
+      findMany: jest.fn().mockResolvedValue([{ metadata: { lots: debitedLots } }]),
+      findFirst: jest.fn().mockResolvedValue(alreadyRefunded ? { id: 'refund-1' } : null),
+    },
+    pointLot: {
+      aggregate: jest.fn().mockResolvedValue({ _sum: { remainingPoints: 0 } }),
+      create: jest.fn().mockResolvedValue({ id: 'lote-estorno' }),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    },
+  };
+
+  return { tx, client: tx as unknown as PrismaTransactionClient };
+};
+
+describe('refundConsumedPoints', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('devolve os pontos aos lotes de onde saíram', async () => {
+    const { tx, client } = createTx([{ lotId: 'lote-a', points: 30 }, { lotId: 'lote-b', points: 20 }]);
+
+    const refunded = await refundConsumedPoints(client, USER_ID, 50, ORIGIN, ENTRY);
+
+    expect(refunded).toBe(50);
+    expect(tx.pointLot.updateMany.mock.calls.map(([args]) => args)).toEqual([
+      { where: { id: 'lote-a', userId: USER_ID, expiredAt: null }, data: { remainingPoints: { increment: 30 } } },
+      { where: { id: 'lote-b', userId: USER_ID, expiredAt: null }, data: { remainingPoints: { increment: 20 } } },
+    ]);
+    expect(tx.pointLot.create).not.toHaveBeenCalled();
+    expect(recordPointTransaction).toHaveBeenCalledWith(client, expect.objectContaining({
+      userId: USER_ID,
+      type: PointTransactionType.REDEMPTION_REFUND,
+      amount: 50,
+      ...ORIGIN,
+      metadata: { lots: [{ lotId: 'lote-a', points: 30 }, { lotId: 'lote-b', points: 20 }], reissuedLotId: null },
+    }));
+  });
+
+  it('não reabre lote já expirado: a parte dele volta em um lote novo de estorno', async () => {
+    const { tx, client } = createTx([{ lotId: 'expirado', points: 30 }, { lotId: 'aberto', points: 20 }]);
+    tx.pointLot.updateMany.mockResolvedValueOnce({ count: 0 });
+
+    await refundConsumedPoints(client, USER_ID, 50, ORIGIN, ENTRY);
+
+    expect(tx.pointLot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        userId: USER_ID,
+        source: PointLotSource.REDEMPTION_REFUND,
+        points: 30,
+        remainingPoints: 30,
+      }),
+    });
+    expect(recordPointTransaction).toHaveBeenCalledWith(client, expect.objectContaining({
+      amount: 50,
+      metadata: { lots: [{ lotId: 'aberto', points: 20 }], reissuedLotId: 'lote-estorno' },
+    }));
+  });
+
+  it('não devolve duas vezes o mesmo resgate', async () => {
+    const { tx, client } = createTx([{ lotId: 'lote-a', points: 50 }], true);
+
+    const refunded = await refundConsumedPoints(client, USER_ID, 50, ORIGIN, ENTRY);
+
+    expect(refunded).toBe(0);
+    expect(tx.pointTransaction.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { userId: USER_ID, type: PointTransactionType.REDEMPTION_REFUND, ...ORIGIN },
+    }));
+    expect(tx.pointLot.updateMany).not.toHaveBeenCalled();
+    expect(tx.pointLot.create).not.toHaveBeenCalled();
+    expect(recordPointTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @file premioRedemption.cancel.test.ts
+ * @version 2.0.0
+ * @description Ciclo de entrega dos resgates: transições permitidas e cancelamento com
+ * devolução de pontos e estoque na mesma transação.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { PointTransactionSource, RedemptionStatus, UserRole } from '@prisma/client';
+import { refundConsumedPoints } from '../src/services/pointLot.service';
+import {
+  cancelRedemption,
+  canTransitionRedemption,
+  shipRedemption
+} from '../src/services/premioRedemption.service';
+import { returnStockUnit } from '../src/services/premioReservation.service';
+
+const tx = {
+  user: { findUnique: jest.fn() },
+  premioRedemption: { findUnique: jest.fn(), updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+  premioRedemptionEvent: { create: jest.fn() },
+};
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: { $transaction: jest.fn((callback: (client: unknown) => unknown) => callback(tx)) },
+  prismaUtils: {},
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/pointLot.service', () => ({
+  refundConsumedPoints: jest.fn(),
+}));
+
+jest.mock('../src/services/premioReservation.service', () => ({
+  returnStockUnit: jest.fn(),
+}));
+
+const ADMIN = { id: 'admin-1', role: UserRole.ADMIN };
+const SELLER = { id: 'seller-1', role: UserRole.VENDEDOR };
+
+/**
+ * Resgate atual lido na transação
+ */
+const mockRedemption = (status: RedemptionStatus) => {
+  const redemption = {
+    id: 'redemption-1',
+    userId: SELLER.id,
+    premioId: 'premio-1',
+    variantId: 'variant-1',
+    pointsRedeemed: 500,
+    status,
+    premio: { title: 'Caneca' },
+  };
+
+  tx.premioRedemption.findUnique.mockResolvedValue(redemption);
+  tx.premioRedemption.findUniqueOrThrow.mockResolvedValue({ ...redemption, status: RedemptionStatus.CANCELADO });
+};
+
+describe('canTransitionRedemption', () => {
+  it.each([
+    [RedemptionStatus.SOLICITADO, RedemptionStatus.APROVADO],
+    [RedemptionStatus.APROVADO, RedemptionStatus.ENVIADO],
+    [RedemptionStatus.ENVIADO, RedemptionStatus.ENTREGUE],
+    [RedemptionStatus.SOLICITADO, RedemptionStatus.CANCELADO],
+    [RedemptionStatus.APROVADO, RedemptionStatus.CANCELADO],
+    [RedemptionStatus.ENVIADO, RedemptionStatus.CANCELADO],
+  ])('permite %s → %s', (from, to) => {
+    expect(canTransitionRedemption(from, to)).toBe(true);
+  });
+
+  it.each([
+    [RedemptionStatus.SOLICITADO, RedemptionStatus.ENVIADO],
+    [RedemptionStatus.APROVADO, RedemptionStatus.SOLICITADO],
+    [RedemptionStatus.ENTREGUE, RedemptionStatus.CANCELADO],
+    [RedemptionStatus.CANCELADO, RedemptionStatus.APROVADO],
+    [RedemptionStatus.CANCELADO, RedemptionStatus.CANCELADO],
+  ])('recusa %s → %s', (from, to) => {
+    expect(canTransitionRedemption(from, to)).toBe(false);
+  });
+});
+
+describe('cancelRedemption', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tx.user.findUnique.mockResolvedValue({ name: 'Administrador' });
+    tx.premioRedemption.updateMany.mockResolvedValue({ count: 1 });
+    (refundConsumedPoints as jest.Mock).mockResolvedValue(500);
+  });
+
+  it('devolve pontos aos lotes de origem e o estoque da variação', async () => {
+    mockRedemption(RedemptionStatus.APROVADO);
+
+    await cancelRedemption('redemption-1', ADMIN, 'Sem previsão de entrega');
+
+    expect(tx.premioRedemption.updateMany).toHaveBeenCalledWith({
+      where: { id: 'redemption-1', status: RedemptionStatus.APROVADO },
+      data: expect.objectContaining({ status: RedemptionStatus.CANCELADO, cancelReason: 'Sem previsão de entrega' }),
+    });
+    expect(refundConsumedPoints).toHaveBeenCalledWith(
+      tx,
+      SELLER.id,
+      500,
+      { sourceType: PointTransactionSource.PREMIO_REDEMPTION, sourceId: 'redemption-1' },
+      { description: 'Estorno do resgate: Caneca', actorId: ADMIN.id }
+    );
+    expect(returnStockUnit).toHaveBeenCalledWith(tx, 'premio-1', 'variant-1');
+    expect(tx.premioRedemptionEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        fromStatus: RedemptionStatus.APROVADO,
+        toStatus: RedemptionStatus.CANCELADO,
+        metadata: { pointsRefunded: 500, stockRefunded: 1 },
+      }),
+    });
+  });
+
+  it('não devolve nada se o resgate mudou de status durante o cancelamento', async () => {
+    mockRedemption(RedemptionStatus.SOLICITADO);
+    tx.premioRedemption.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(cancelRedemption('redemption-1', ADMIN, 'Duplicado'))
+      .rejects.toThrow('Resgate alterado durante a operação; tente novamente');
+    expect(refundConsumedPoints).not.toHaveBeenCalled();
+    expect(returnStockUnit).not.toHaveBeenCalled();
+  });
+
+  it('recusa cancelar resgate entregue', async () => {
+    mockRedemption(RedemptionStatus.ENTREGUE);
+
+    await expect(cancelRedemption('redemption-1', ADMIN, 'Arrependimento')).rejects.toThrow('Não é possível alterar resgate');
+    expect(tx.premioRedemption.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('o vendedor só cancela o próprio resgate enquanto está solicitado', async () => {
+    mockRedemption(RedemptionStatus.APROVADO);
+
+    await expect(cancelRedemption('redemption-1', SELLER, 'Desisti'))
+      .rejects.toThrow('Não é possível cancelar resgate já aprovado; fale com o administrador');
+    await expect(cancelRedemption('redemption-1', { id: 'outro', role: UserRole.VENDEDOR }, 'Desisti'))
+      .rejects.toThrow('Acesso negado ao resgate');
+    expect(refundConsumedPoints).not.toHaveBeenCalled();
+  });
+
+  it('outras transições não devolvem pontos nem estoque', async () => {
+    mockRedemption(RedemptionStatus.APROVADO);
+
+    await shipRedemption('redemption-1', ADMIN.id, { trackingCode: 'BR123', carrier: 'Correios' });
+
+    expect(refundConsumedPoints).not.toHaveBeenCalled();
+    expect(returnStockUnit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * @file premioRedemption.concurrency.test.ts
+ * @version 2.0.0
+ * @description Resgates e reservas simultâneos da última unidade de um prêmio.
+ * Integração com PostgreSQL: roda apenas com TEST_DATABASE_URL definido.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { prisma } from '../lib/prismaClient';
+import { redeemPremio } from '../src/services/premio.service';
+import { reserveStock } from '../src/services/premioReservation.service';
+
+const describeWithDatabase = process.env.TEST_DATABASE_URL ? describe : describe.skip;
+
+const PARALLEL_REQUESTS = 8;
+const POINTS_REQUIRED = 100;
+
+describeWithDatabase('Concorrência no estoque de prêmios', () => {
+  const runId = `concurrency-${Date.now()}`;
+  const userIds: string[] = [];
+  const premioIds: string[] = [];
+
+  /**
+   * Cria um prêmio de estoque 1 e vendedores com saldo suficiente para resgatá-lo
+   */
+  const createScenario = async (label: string) => {
+    const premio = await prisma.premio.create({
+      data: {
+        title: `Prêmio ${label} ${runId}`,
+        description: 'Prêmio de teste de concorrência',
+        imageUrl: 'https://example.com/premio.png',
+        pointsRequired: POINTS_REQUIRED,
+        stock: 1,
+      },
+    });
+    premioIds.push(premio.id);
+
+    const users = await Promise.all(
+      Array.from({ length: PARALLEL_REQUESTS }, (_, index) =>
+        prisma.user.create({
+          data: {
+            name: `Vendedor ${index}`,
+            email: `${label}-${index}-${runId}@example.com`,
+            passwordHash: 'hash',
+            cpf: `${label}-${index}-${runId}`,
+            whatsapp: '11999999999',
+            avatarUrl: '',
+            role: 'VENDEDOR',
+            opticName: 'Ótica Teste',
+            opticCNPJ: '00000000000000',
+            points: POINTS_REQUIRED * 10,
+          },
+        })
+      )
+    );
+    userIds.push(...users.map(user => user.id));
+
+    return { premio, users };
+  };
+
+  afterAll(async () => {
+    await prisma.activityItem.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.pointTransaction.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.pointLot.deleteMany({ where: { userId: { in: userIds } } });
+    await prisma.premioStockReservation.deleteMany({ where: { premioId: { in: premioIds } } });
+    await prisma.premioRedemption.deleteMany({ where: { premioId: { in: premioIds } } });
+    await prisma.premio.deleteMany({ where: { id: { in: premioIds } } });
+    await prisma.user.deleteMany({ where: { id: { in: userIds } } });
+    await prisma.$disconnect();
+  });
+
+  it('apenas um de N resgates simultâneos da última unidade é concluído', async () => {
+    const { premio, users } = await createScenario('resgate');
+
+    const results = await Promise.allSettled(users.map(user => redeemPremio(premio.id, user.id)));
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    expect(fulfilled).toHaveLength(1);
+
+    const updated = await prisma.premio.findUniqueOrThrow({ where: { id: premio.id } });
+    expect(updated.stock).toBe(0);
+
+    const redemptions = await prisma.premioRedemption.count({ where: { premioId: premio.id } });
+    expect(redemptions).toBe(1);
+
+    // Só o vendedor que resgatou teve pontos debitados
+    const debited = await prisma.user.count({
+      where: { id: { in: users.map(user => user.id) }, points: { lt: POINTS_REQUIRED * 10 } },
+    });
+    expect(debited).toBe(1);
+  });
+
+  it('apenas uma de N reservas simultâneas da última unidade é criada', async () => {
+    const { premio, users } = await createScenario('reserva');
+
+    const results = await Promise.allSettled(users.map(user => reserveStock(premio.id, user.id)));
+
+    const fulfilled = results.filter(result => result.status === 'fulfilled');
+    expect(fulfilled).toHaveLength(1);
+
+    const updated = await prisma.premio.findUniqueOrThrow({ where: { id: premio.id } });
+    expect(updated.stock).toBe(0);
+  });
+});
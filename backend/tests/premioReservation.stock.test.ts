@@ -0,0 +1,113 @@
+/**
+ * @file premioReservation.stock.test.ts
+ * @version 2.0.0
+ * @description Baixa e devolução de estoque de prêmios: o decremento é condicional ao
+ * estoque positivo e a falta de unidade vira erro, sem estoque negativo.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { takeStockUnit, returnStockUnit } from '../src/services/premioReservation.service';
+import { syncPremioStock } from '../src/services/premioVariant.service';
+import type { PrismaTransactionClient } from '../lib/prismaClient';
+
+jest.mock('../lib/prismaClient', () => ({ prisma: {} }));
+
+jest.mock('../src/services/premio.service', () => ({
+  canUserRedeemPremio: jest.fn(),
+}));
+
+jest.mock('../src/services/premioVariant.service', () => ({
+  syncPremioStock: jest.fn(),
+}));
+
+/**
+ * Cliente de transação com updateMany retornando as contagens informadas, na ordem
+ */
+const buildTx = (counts: { premio?: number; variant?: number } = {}) => {
+  const tx = {
+    premio: {
+      updateMany: jest.fn().mockResolvedValue({ count: counts.premio ?? 1 }),
+      update: jest.fn().mockResolvedValue({}),
+    },
+    premioVariant: {
+      updateMany: jest.fn().mockResolvedValue({ count: counts.variant ?? 1 }),
+      update: jest.fn().mockResolvedValue({}),
+    },
+  };
+
+  return { tx, client: tx as unknown as PrismaTransactionClient };
+};
+
+describe('takeStockUnit', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('decrementa o prêmio somente se ainda houver estoque', async () => {
+    const { tx, client } = buildTx();
+
+    await takeStockUnit(client, 'premio-1');
+
+    expect(tx.premio.updateMany).toHaveBeenCalledWith({
+      where: { id: 'premio-1', stock: { gt: 0 } },
+      data: { stock: { decrement: 1 } },
+    });
+    expect(tx.premioVariant.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('recusa a baixa quando outro resgate levou a última unidade', async () => {
+    const { client } = buildTx({ premio: 0 });
+
+    await expect(takeStockUnit(client, 'premio-1')).rejects.toThrow('Prêmio fora de estoque.');
+  });
+
+  it('decrementa a variação ativa com estoque e depois o total do prêmio', async () => {
+    const { tx, client } = buildTx();
+
+    await takeStockUnit(client, 'premio-1', 'variant-1');
+
+    expect(tx.premioVariant.updateMany).toHaveBeenCalledWith({
+      where: { id: 'variant-1', premioId: 'premio-1', isActive: true, stock: { gt: 0 } },
+      data: { stock: { decrement: 1 } },
+    });
+    expect(tx.premio.updateMany).toHaveBeenCalledWith({
+      where: { id: 'premio-1', stock: { gt: 0 } },
+      data: { stock: { decrement: 1 } },
+    });
+  });
+
+  it('não toca o total do prêmio quando a variação está esgotada', async () => {
+    const { tx, client } = buildTx({ variant: 0 });
+
+    await expect(takeStockUnit(client, 'premio-1', 'variant-1')).rejects.toThrow('Variação fora de estoque.');
+    expect(tx.premio.updateMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('returnStockUnit', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('devolve a unidade ao prêmio sem variação', async () => {
+    const { tx, client } = buildTx();
+
+    await returnStockUnit(client, 'premio-1');
+
+    expect(tx.premio.update).toHaveBeenCalledWith({
+      where: { id: 'premio-1' },
+      data: { stock: { increment: 1 } },
+    });
+    expect(syncPremioStock).not.toHaveBeenCalled();
+  });
+
+  it('devolve a unidade à variação e recalcula o total a partir das variações', async () => {
+    const { tx, client } = buildTx();
+
+    await returnStockUnit(client, 'premio-1', 'variant-1');
+
+    expect(tx.premioVariant.update).toHaveBeenCalledWith({
+      where: { id: 'variant-1' },
+      data: { stock: { increment: 1 } },
+    });
+    expect(syncPremioStock).toHaveBeenCalledWith(client, 'premio-1');
+    expect(tx.premio.update).not.toHaveBeenCalled();
+  });
+});
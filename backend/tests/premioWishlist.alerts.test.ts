@@ -0,0 +1,159 @@
+/**
+ * @file premioWishlist.alerts.test.ts
+ * @version 2.0.0
+ * @description Avisos da lista de desejos: um aviso de saldo suficiente por vez, reativado
+ * quando o saldo cai abaixo do preço, e aviso de volta ao estoque sem duplicar o de saldo.
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { evaluateWishlistAlerts } from '../src/services/premioWishlist.service';
+import { publishDomainEvent } from '../src/services/domainEvents.service';
+import { prisma } from '../lib/prismaClient';
+
+jest.mock('../lib/prismaClient', () => ({
+  prisma: {
+    premioWishlistItem: { findMany: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('../src/services/domainEvents.service', () => ({
+  publishDomainEvent: jest.fn(),
+}));
+
+jest.mock('../src/services/premioPricing.service', () => ({
+  applyEffectivePricing: jest.fn(async (premios: Array<{ pointsRequired: number }>) =>
+    premios.map(premio => ({
+      ...premio,
+      originalPointsRequired: premio.pointsRequired,
+      priceWindow: null,
+    }))
+  ),
+}));
+
+const findMany = prisma.premioWishlistItem.findMany as unknown as jest.Mock;
+const update = prisma.premioWishlistItem.update as unknown as jest.Mock;
+const publish = publishDomainEvent as unknown as jest.Mock;
+
+const NOW = new Date('2025-11-01T12:00:00Z');
+
+interface ItemState {
+  points: number;
+  stock: number;
+  isActive?: boolean;
+  outOfStock?: boolean;
+  affordableNotifiedAt?: Date | null;
+}
+
+/**
+ * Item da lista de desejos com o formato retornado pela consulta do job
+ */
+const buildItem = (state: ItemState) => ({
+  id: 'item-1',
+  userId: 'user-1',
+  premioId: 'premio-1',
+  outOfStock: state.outOfStock ?? false,
+  affordableNotifiedAt: state.affordableNotifiedAt ?? null,
+  createdAt: NOW,
+  user: { points: state.points },
+  premio: {
+    id: 'premio-1',
+    title: 'Óculos de sol',
+    pointsRequired: 1000,
+    stock: state.stock,
+    isActive: state.isActive ?? true,
+    variants: [],
+  },
+});
+
+/**
+ * Executa o job sobre um único item e devolve o que foi gravado e publicado
+ */
+const runFor = async (state: ItemState) => {
+  findMany.mockResolvedValueOnce([buildItem(state)]);
+
+  const published = await evaluateWishlistAlerts(NOW);
+
+  return {
+    published,
+    data: update.mock.calls[0]?.[0].data,
+    events: publish.mock.calls.map(([name]) => name),
+  };
+};
+
+describe('evaluateWishlistAlerts', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('avisa saldo suficiente uma única vez e marca o item', async () => {
+    const result = await runFor({ points: 1200, stock: 5 });
+
+    expect(result.published).toBe(1);
+    expect(result.events).toEqual(['premio.wishlist_affordable']);
+    expect(result.data).toEqual({ affordableNotifiedAt: NOW });
+  });
+
+  it('não repete o aviso enquanto o saldo continua suficiente', async () => {
+    const result = await runFor({ points: 1500, stock: 5, affordableNotifiedAt: NOW });
+
+    expect(result.published).toBe(0);
+    expect(result.events).toEqual([]);
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('reativa o aviso quando o saldo cai abaixo do preço, sem publicar', async () => {
+    const result = await runFor({ points: 400, stock: 5, affordableNotifiedAt: NOW });
+
+    expect(result.published).toBe(0);
+    expect(result.events).toEqual([]);
+    expect(result.data).toEqual({ affordableNotifiedAt: null });
+  });
+
+  it('avisa de novo quando o saldo volta a alcançar o preço após a reativação', async () => {
+    await runFor({ points: 400, stock: 5, affordableNotifiedAt: NOW });
+    jest.clearAllMocks();
+
+    const result = await runFor({ points: 1000, stock: 5, affordableNotifiedAt: null });
+
+    expect(result.events).toEqual(['premio.wishlist_affordable']);
+    expect(result.data).toEqual({ affordableNotifiedAt: NOW });
+  });
+
+  it('não avisa saldo suficiente de prêmio fora de estoque nem consome o aviso', async () => {
+    const result = await runFor({ points: 1200, stock: 0 });
+
+    expect(result.published).toBe(0);
+    expect(result.data).toEqual({ outOfStock: true });
+  });
+
+  it('trata prêmio inativo como fora de estoque', async () => {
+    const result = await runFor({ points: 1200, stock: 5, isActive: false });
+
+    expect(result.published).toBe(0);
+    expect(result.data).toEqual({ outOfStock: true });
+  });
+
+  it('avisa volta ao estoque quando o saldo ainda não alcança o preço', async () => {
+    const result = await runFor({ points: 300, stock: 2, outOfStock: true });
+
+    expect(result.events).toEqual(['premio.wishlist_back_in_stock']);
+    expect(result.data).toEqual({ outOfStock: false });
+  });
+
+  it('publica só o aviso de saldo quando o prêmio volta ao estoque e o saldo já alcança', async () => {
+    const result = await runFor({ points: 1200, stock: 2, outOfStock: true });
+
+    expect(result.published).toBe(1);
+    expect(result.events).toEqual(['premio.wishlist_affordable']);
+    expect(result.data).toEqual({ outOfStock: false, affordableNotifiedAt: NOW });
+  });
+
+  it('não repete o aviso de volta ao estoque depois de marcado', async () => {
+    const result = await runFor({ points: 300, stock: 2, outOfStock: false });
+
+    expect(result.published).toBe(0);
+    expect(update).not.toHaveBeenCalled();
+  });
+});
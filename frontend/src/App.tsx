@@ -25,6 +25,9 @@ import LoadingScreen from '@/components/ui/LoadingScreen'
 // Pages - Lazy loading para otimização
 const LoginPage = React.lazy(() => import('@/pages/auth/LoginPage'))
 const RegisterPage = React.lazy(() => import('@/pages/auth/RegisterPage'))
+const ForgotPasswordPage = React.lazy(() => import('@/pages/auth/ForgotPasswordPage'))
+const ResetPasswordPage = React.lazy(() => import('@/pages/auth/ResetPasswordPage'))
+const VerifyEmailPage = React.lazy(() => import('@/pages/auth/VerifyEmailPage'))
 
 // Dashboard
 const DashboardPage = React.lazy(() => import('@/pages/dashboard/DashboardPage'))
@@ -39,6 +42,7 @@ const EditCampaignPage = React.lazy(() => import('@/pages/campaigns/EditCampaign
 const PremioListPage = React.lazy(() => import('@/pages/premios/PremioListPage'))
 const PremioDetailsPage = React.lazy(() => import('@/pages/premios/PremioDetailsPage'))
 const CreatePremioPage = React.lazy(() => import('@/pages/premios/CreatePremioPage'))
+const RedemptionQueuePage = React.lazy(() => import('@/pages/premios/RedemptionQueuePage'))
 
 // Submissões
 const SubmissionListPage = React.lazy(() => import('@/pages/submissions/SubmissionListPage'))
@@ -54,6 +58,8 @@ const ProfilePage = React.lazy(() => import('@/pages/profile/ProfilePage'))
 // Earnings
 const EarningListPage = React.lazy(() => import('@/pages/earnings/EarningListPage'))
 const FinancialReportPage = React.lazy(() => import('@/pages/earnings/FinancialReportPage'))
+const PayoutBatchesPage = React.lazy(() => import('@/pages/earnings/PayoutBatchesPage'))
+const WithholdingRulesPage = React.lazy(() => import('@/pages/earnings/WithholdingRulesPage'))
 
 // Validação de planilhas
 const ValidationSpreadsheetPage = React.lazy(() => import('@/pages/validation/ValidationSpreadsheetPage'))
@@ -73,6 +79,9 @@ function App() {
               <Route index element={<Navigate to="/login" replace />} />
               <Route path="/login" element={<LoginPage />} />
               <Route path="/register" element={<RegisterPage />} />
+              <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+              <Route path="/reset-password" element={<ResetPasswordPage />} />
+              <Route path="/verify-email" element={<VerifyEmailPage />} />
               <Route path="/unauthorized" element={<UnauthorizedPage />} />
             </Route>
 
@@ -114,6 +123,11 @@ function App() {
                     <CreatePremioPage />
                   </AdminRoute>
                 } />
+                <Route path="redemptions" element={
+                  <AdminRoute>
+                    <RedemptionQueuePage />
+                  </AdminRoute>
+                } />
               </Route>
 
               {/* Submissões */}
@@ -154,6 +168,16 @@ function App() {
                     <FinancialReportPage />
                   </ManagerRoute>
                 } />
+                <Route path="payout-batches" element={
+                  <AdminRoute>
+                    <PayoutBatchesPage />
+                  </AdminRoute>
+                } />
+                <Route path="withholding-rules" element={
+                  <AdminRoute>
+                    <WithholdingRulesPage />
+                  </AdminRoute>
+                } />
               </Route>
 
               {/* Validação de planilhas (Gerente/Admin) */}
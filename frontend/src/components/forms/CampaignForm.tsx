@@ -19,7 +19,8 @@ import {
   InfoIcon,
   CalendarIcon,
   TrophyIcon,
-  TargetIcon
+  TargetIcon,
+  WalletIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -28,7 +29,7 @@ import { Textarea } from '@/components/ui/textarea'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { CampaignForm as CampaignFormType, CampaignStatus, UnitType } from '@/types'
+import { CampaignBudgetAction, CampaignForm as CampaignFormType, CampaignStatus, UnitType } from '@/types'
 import { formatDateForInput } from '@/lib/utils'
 
 const campaignSchema = z.object({
@@ -39,6 +40,9 @@ const campaignSchema = z.object({
   endDate: z.string().min(1, 'Data de término é obrigatória'),
   pointsOnCompletion: z.number().min(0, 'Pontos devem ser maior ou igual a 0'),
   managerPointsPercentage: z.number().min(0).max(100, 'Percentual deve ser entre 0 e 100'),
+  budgetTotal: z.number().positive('Orçamento deve ser maior que zero').nullable().optional(),
+  budgetPerSeller: z.number().positive('Teto deve ser maior que zero').nullable().optional(),
+  budgetExhaustedAction: z.enum(['STOP', 'QUEUE_FOR_APPROVAL']).optional(),
   goalRequirements: z.array(z.object({
     description: z.string().min(3, 'Descrição é obrigatória'),
     quantity: z.number().min(1, 'Quantidade deve ser maior que 0'),
@@ -47,8 +51,15 @@ const campaignSchema = z.object({
 }).refine(data => new Date(data.startDate) < new Date(data.endDate), {
   message: 'Data de término deve ser posterior à data de início',
   path: ['endDate'],
+}).refine(data => !data.budgetTotal || !data.budgetPerSeller || data.budgetPerSeller <= data.budgetTotal, {
+  message: 'Teto por vendedor não pode exceder o orçamento total',
+  path: ['budgetPerSeller'],
 })
 
+// Campo vazio significa campanha sem limite
+const toOptionalNumber = (value: string | number | null) =>
+  value === '' || value === null ? null : Number(value)
+
 interface CampaignFormProps {
   initialData?: Partial<CampaignFormType>
   onSubmit: (data: CampaignFormType) => Promise<void>
@@ -74,6 +85,9 @@ const CampaignForm: React.FC<CampaignFormProps> = ({
       endDate: initialData?.endDate ? formatDateForInput(initialData.endDate) : '',
       pointsOnCompletion: initialData?.pointsOnCompletion || 0,
       managerPointsPercentage: initialData?.managerPointsPercentage || 10,
+      budgetTotal: initialData?.budgetTotal ?? null,
+      budgetPerSeller: initialData?.budgetPerSeller ?? null,
+      budgetExhaustedAction: initialData?.budgetExhaustedAction || 'STOP',
       goalRequirements: initialData?.goalRequirements || [
         { description: '', quantity: 1, unitType: UnitType.UNIT }
       ],
@@ -215,6 +229,62 @@ const CampaignForm: React.FC<CampaignFormProps> = ({
                 </div>
               </div>
 
+              {/* Orçamento */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-medium flex items-center">
+                  <WalletIcon className="w-5 h-5 mr-2" />
+                  Orçamento
+                </h3>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="budgetTotal">Orçamento Total</Label>
+                    <Input
+                      id="budgetTotal"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Sem limite"
+                      {...form.register('budgetTotal', { setValueAs: toOptionalNumber })}
+                      error={!!form.formState.errors.budgetTotal}
+                      helperText={form.formState.errors.budgetTotal?.message}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="budgetPerSeller">Teto por Vendedor</Label>
+                    <Input
+                      id="budgetPerSeller"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="Sem limite"
+                      {...form.register('budgetPerSeller', { setValueAs: toOptionalNumber })}
+                      error={!!form.formState.errors.budgetPerSeller}
+                      helperText={form.formState.errors.budgetPerSeller?.message}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Ao Esgotar</Label>
+                    <Select
+                      value={form.watch('budgetExhaustedAction')}
+                      onValueChange={(value) =>
+                        form.setValue('budgetExhaustedAction', value as CampaignBudgetAction)
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="STOP">Parar de premiar</SelectItem>
+                        <SelectItem value="QUEUE_FOR_APPROVAL">Reter para aprovação</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              </div>
+
               {/* Requisitos */}
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
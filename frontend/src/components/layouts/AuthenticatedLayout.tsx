@@ -12,11 +12,15 @@ import { motion, AnimatePresence } from 'framer-motion'
 import Sidebar from '@/components/layouts/Sidebar'
 import Header from '@/components/layouts/Header'
 import { useAuth } from '@/hooks/useAuth'
+import { useRealtimeUpdates } from '@/hooks/useRealtimeUpdates'
 
 const AuthenticatedLayout: React.FC = () => {
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const { user } = useAuth()
 
+  // Atualizações em tempo real (submissões, ranking, ganhos, notificações)
+  useRealtimeUpdates()
+
   return (
     <div className="h-screen flex overflow-hidden bg-gray-50">
       {/* Sidebar para desktop */}
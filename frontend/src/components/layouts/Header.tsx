@@ -31,7 +31,7 @@ import { Input } from '@/components/ui/input'
 import { useAuth } from '@/hooks/useAuth'
 import { useNotifications } from '@/hooks/useNotifications'
 import { User, UserRole } from '@/types'
-import { formatNumber } from '@/lib/utils'
+import { cn, formatNumber } from '@/lib/utils'
 
 interface HeaderProps {
   onMenuClick: () => void
@@ -40,7 +40,7 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ onMenuClick, user }) => {
   const { logout } = useAuth()
-  const { notifications, unreadCount } = useNotifications()
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotifications()
 
   const handleLogout = () => {
     logout()
@@ -126,6 +126,7 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, user }) => {
                   {notifications.slice(0, 5).map((notification) => (
                     <DropdownMenuItem
                       key={notification.id}
+                      onClick={() => !notification.isRead && markAsRead(notification.id)}
                       className={cn(
                         "flex flex-col items-start space-y-1 p-3",
                         !notification.isRead && "bg-eps-50"
@@ -149,10 +150,17 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick, user }) => {
                 </div>
               )}
               
-              <DropdownMenuSeparator />
-              <DropdownMenuItem className="text-center font-medium text-eps-600">
-                Ver todas as notificações
-              </DropdownMenuItem>
+              {unreadCount > 0 && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem 
+                    className="text-center font-medium text-eps-600"
+                    onClick={() => markAllAsRead()}
+                  >
+                    Marcar todas como lidas
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
 
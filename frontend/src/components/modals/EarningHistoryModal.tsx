@@ -0,0 +1,167 @@
+/**
+ * @file components/modals/EarningHistoryModal.tsx
+ * @version 2.0.0
+ * @description Modal com a trilha de auditoria do earning e cancelamento/estorno (admin)
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { HistoryIcon } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import StatusBadge from '@/components/ui/StatusBadge'
+import { earningService } from '@/services/earningService'
+import { Earning, EarningStatus } from '@/types'
+import { formatCurrency, formatDateTime } from '@/lib/utils'
+
+interface EarningHistoryModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  earning: Earning | null
+  canManage?: boolean
+  onStatusChange?: (earning: Earning, reason: string) => Promise<void>
+  loading?: boolean
+}
+
+const EarningHistoryModal: React.FC<EarningHistoryModalProps> = ({
+  open,
+  onOpenChange,
+  earning,
+  canManage = false,
+  onStatusChange,
+  loading = false
+}) => {
+  const [reason, setReason] = useState('')
+
+  const { data: details, isLoading } = useQuery({
+    queryKey: ['earning', earning?.id],
+    queryFn: () => earningService.getEarningById(earning!.id),
+    enabled: open && !!earning,
+  })
+
+  const current = details || earning
+  const isPending = current?.status === EarningStatus.PENDENTE
+  const isPaid = current?.status === EarningStatus.PAGO
+  const isReserved = isPending && !!current?.payoutBatchId
+  const canChange = canManage && !!onStatusChange && (isPending || isPaid) && !isReserved
+  const ledgerEntries = details?.ledgerEntries || []
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) setReason('')
+    onOpenChange(value)
+  }
+
+  const handleSubmit = async () => {
+    if (!current || !onStatusChange || reason.trim().length < 5) return
+
+    try {
+      await onStatusChange(current, reason.trim())
+    } catch {
+      // Erro já exibido por quem chamou; mantém o modal aberto para correção
+      return
+    }
+
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <HistoryIcon className="w-5 h-5 mr-2" />
+            Histórico do earning
+          </DialogTitle>
+          {current && (
+            <DialogDescription>
+              {current.campaignTitle} · {formatCurrency(current.amount)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="w-6 h-6 border-4 border-eps-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : ledgerEntries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nenhuma transição registrada para este earning.</p>
+          ) : (
+            <ol className="space-y-3 border-l border-gray-200 pl-4">
+              {ledgerEntries.map(entry => (
+                <li key={entry.id} className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    {entry.fromStatus && (
+                      <>
+                        <StatusBadge status={entry.fromStatus} type="earning" />
+                        <span className="text-gray-400">→</span>
+                      </>
+                    )}
+                    <StatusBadge status={entry.toStatus} type="earning" />
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    {formatDateTime(entry.createdAt)} · {entry.actorName || 'Sistema'}
+                  </p>
+                  {entry.reason && <p className="text-sm text-gray-700">{entry.reason}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+
+          {canManage && isReserved && (
+            <p className="text-sm text-yellow-700">
+              Earning reservado em lote PIX: confirme ou cancele o lote antes de alterá-lo.
+            </p>
+          )}
+
+          {canChange && (
+            <div className="space-y-2">
+              <Label htmlFor="statusChangeReason" required>
+                Motivo do {isPaid ? 'estorno' : 'cancelamento'}
+              </Label>
+              <Textarea
+                id="statusChangeReason"
+                rows={2}
+                maxLength={500}
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+              <p className="text-xs text-gray-500">
+                Os pontos creditados por este earning serão debitados do usuário.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={loading}>
+            Fechar
+          </Button>
+          {canChange && (
+            <Button
+              variant="destructive"
+              onClick={handleSubmit}
+              disabled={reason.trim().length < 5}
+              loading={loading}
+            >
+              {isPaid ? 'Estornar earning' : 'Cancelar earning'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default EarningHistoryModal
@@ -0,0 +1,252 @@
+/**
+ * @file components/modals/EarningPaymentModal.tsx
+ * @version 2.0.0
+ * @description Modal para registrar pagamento de earnings com comprovantes
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { CreditCardIcon, PaperclipIcon, XIcon } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Label } from '@/components/ui/label'
+import { Earning, PaymentMethod } from '@/types'
+import { formatCurrency, PAYMENT_METHOD_LABELS } from '@/lib/utils'
+
+const MAX_ATTACHMENTS = 5
+const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+const ACCEPTED_FILES = 'application/pdf,image/png,image/jpeg,image/webp'
+
+export interface EarningPaymentFormData {
+  paymentMethod: PaymentMethod
+  paymentDate: string
+  paymentReference: string
+  paymentNotes?: string
+  invoiceNumber?: string
+  files: File[]
+}
+
+interface EarningPaymentModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  earnings: Earning[]
+  onSubmit: (data: EarningPaymentFormData) => Promise<void>
+  loading?: boolean
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const EarningPaymentModal: React.FC<EarningPaymentModalProps> = ({
+  open,
+  onOpenChange,
+  earnings,
+  onSubmit,
+  loading = false
+}) => {
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('pix')
+  const [paymentDate, setPaymentDate] = useState(today())
+  const [paymentReference, setPaymentReference] = useState('')
+  const [paymentNotes, setPaymentNotes] = useState('')
+  const [invoiceNumber, setInvoiceNumber] = useState('')
+  const [files, setFiles] = useState<File[]>([])
+  const [fileError, setFileError] = useState<string | null>(null)
+
+  const totalAmount = earnings.reduce((sum, earning) => sum + earning.amount, 0)
+  const canSubmit = earnings.length > 0 && paymentReference.trim().length > 0 && !!paymentDate
+
+  const resetForm = () => {
+    setPaymentMethod('pix')
+    setPaymentDate(today())
+    setPaymentReference('')
+    setPaymentNotes('')
+    setInvoiceNumber('')
+    setFiles([])
+    setFileError(null)
+  }
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || [])
+    event.target.value = ''
+
+    const tooLarge = selected.find(file => file.size > MAX_FILE_SIZE)
+    if (tooLarge) {
+      setFileError(`"${tooLarge.name}" excede o limite de 10MB`)
+      return
+    }
+
+    const next = [...files, ...selected]
+    if (next.length > MAX_ATTACHMENTS) {
+      setFileError(`Máximo de ${MAX_ATTACHMENTS} comprovantes por pagamento`)
+      return
+    }
+
+    setFileError(null)
+    setFiles(next)
+  }
+
+  const handleRemoveFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return
+
+    try {
+      await onSubmit({
+        paymentMethod,
+        // Meio-dia evita que o fuso horário mude o dia do pagamento
+        paymentDate: new Date(`${paymentDate}T12:00:00`).toISOString(),
+        paymentReference: paymentReference.trim(),
+        paymentNotes: paymentNotes.trim() || undefined,
+        invoiceNumber: invoiceNumber.trim() || undefined,
+        files,
+      })
+    } catch {
+      // Erro já exibido por quem chamou; mantém o modal aberto para correção
+      return
+    }
+
+    resetForm()
+    onOpenChange(false)
+  }
+
+  const handleCancel = () => {
+    resetForm()
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <CreditCardIcon className="w-5 h-5 mr-2" />
+            Registrar Pagamento
+          </DialogTitle>
+          <DialogDescription>
+            {earnings.length} earning(s) selecionado(s) · Total bruto de {formatCurrency(totalAmount)}.
+            As retenções na fonte são calculadas no registro.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentMethod" required>Método</Label>
+              <select
+                id="paymentMethod"
+                value={paymentMethod}
+                onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+              >
+                {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate" required>Data do pagamento</Label>
+              <Input
+                id="paymentDate"
+                type="date"
+                value={paymentDate}
+                max={today()}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentReference" required>Referência</Label>
+            <Input
+              id="paymentReference"
+              placeholder="ID da transação, nº do comprovante..."
+              maxLength={100}
+              value={paymentReference}
+              onChange={(e) => setPaymentReference(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoiceNumber">Nota fiscal (favorecido pessoa jurídica)</Label>
+            <Input
+              id="invoiceNumber"
+              placeholder="Número da NF-e ou NFS-e"
+              maxLength={60}
+              value={invoiceNumber}
+              onChange={(e) => setInvoiceNumber(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentNotes">Observações</Label>
+            <Textarea
+              id="paymentNotes"
+              rows={2}
+              maxLength={1000}
+              value={paymentNotes}
+              onChange={(e) => setPaymentNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentFiles">Comprovantes (PDF ou imagem, até 10MB)</Label>
+            <Input
+              id="paymentFiles"
+              type="file"
+              multiple
+              accept={ACCEPTED_FILES}
+              disabled={files.length >= MAX_ATTACHMENTS}
+              onChange={handleFilesChange}
+            />
+            {fileError && <p className="text-xs text-red-600">{fileError}</p>}
+            {files.length > 0 && (
+              <ul className="space-y-1">
+                {files.map((file, index) => (
+                  <li
+                    key={`${file.name}-${index}`}
+                    className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1"
+                  >
+                    <span className="flex items-center truncate">
+                      <PaperclipIcon className="w-3 h-3 mr-1 flex-shrink-0" />
+                      <span className="truncate">{file.name}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveFile(index)}
+                      className="text-gray-400 hover:text-red-600"
+                    >
+                      <XIcon className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel} disabled={loading}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit} loading={loading}>
+            Registrar pagamento
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default EarningPaymentModal
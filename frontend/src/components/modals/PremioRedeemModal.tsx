@@ -1,14 +1,15 @@
 /**
  * @file components/modals/PremioRedeemModal.tsx
  * @version 2.0.0
- * @description Modal para resgate de prêmios
+ * @description Modal para resgate de prêmios, com reserva temporária da unidade enquanto o
+ * vendedor confirma
  * @author DevEPS
  * @since 2025-10-21
  */
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
-import { GiftIcon, TrophyIcon, AlertTriangleIcon, CheckIcon } from 'lucide-react'
+import { GiftIcon, TrophyIcon, AlertTriangleIcon, CheckIcon, TimerIcon } from 'lucide-react'
 import {
   Dialog,
   DialogContent,
@@ -19,10 +20,13 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
-import { Premio } from '@/types'
-import { formatNumber } from '@/lib/utils'
+import { useCountdown } from '@/hooks/useCountdown'
+import { premioService } from '@/services/premioService'
+import { Premio, PremioStockReservation, RedemptionDeliveryAddress } from '@/types'
+import { cn, formatNumber, getErrorMessage } from '@/lib/utils'
 
 interface PremioRedeemModalProps {
   open: boolean
@@ -31,11 +35,16 @@ interface PremioRedeemModalProps {
   userPoints: number
   onRedeem: (data: {
     premioId: string
+    variantId?: string
+    reservationId?: string
+    deliveryAddress?: RedemptionDeliveryAddress
     notes?: string
   }) => Promise<void>
   loading?: boolean
 }
 
+const EMPTY_ADDRESS: RedemptionDeliveryAddress = { street: '', city: '', state: '', zipCode: '' }
+
 const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
   open,
   onOpenChange,
@@ -45,35 +54,103 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
   loading = false
 }) => {
   const [notes, setNotes] = useState('')
+  const [address, setAddress] = useState<RedemptionDeliveryAddress>(EMPTY_ADDRESS)
   const [confirmed, setConfirmed] = useState(false)
+  const [variantId, setVariantId] = useState<string | null>(null)
+  const [reservation, setReservation] = useState<PremioStockReservation | null>(null)
+  const [reservationError, setReservationError] = useState<string | null>(null)
+
+  // Prêmios com variações: preço e estoque vêm da variação escolhida
+  const variants = premio?.variants?.filter(variant => variant.isActive) ?? []
+  const selectedVariant = variants.find(variant => variant.id === variantId)
+  const needsVariant = variants.length > 0 && !selectedVariant
+  const pointsRequired = selectedVariant?.pointsRequired ?? premio?.pointsRequired ?? 0
+  const stock = variants.length > 0 ? selectedVariant?.stock ?? 0 : premio?.stock ?? 0
+
+  // A unidade reservada já saiu do estoque exibido, mas continua disponível para este vendedor
+  const hasReservedUnit = !!reservation && reservation.variantId === (selectedVariant?.id ?? null)
+  const canRedeem = premio && !needsVariant && userPoints >= pointsRequired && (stock > 0 || hasReservedUnit) && premio.isActive
+  const pointsAfterRedeem = userPoints - pointsRequired
+
+  // Reserva a unidade ao abrir (ou ao escolher a variação); trocar de variação troca a reserva
+  const shouldReserve = open && !!canRedeem
+  const premioId = premio?.id
+  const reserveVariantId = selectedVariant?.id
+
+  useEffect(() => {
+    if (!shouldReserve || !premioId) return
 
-  const canRedeem = premio && userPoints >= premio.pointsRequired && premio.stock > 0 && premio.isActive
-  const pointsAfterRedeem = userPoints - (premio?.pointsRequired || 0)
+    let active = true
+    setReservationError(null)
+
+    premioService.reserveStock(premioId, reserveVariantId)
+      .then(created => {
+        if (active) {
+          setReservation(created)
+        } else {
+          void premioService.releaseReservation(created.id).catch(() => undefined)
+        }
+      })
+      .catch(error => {
+        if (active) {
+          setReservation(null)
+          setReservationError(getErrorMessage(error))
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [shouldReserve, premioId, reserveVariantId])
+
+  const reservationCountdown = useCountdown(reservation?.expiresAt)
+
+  const releaseReservation = () => {
+    if (reservation) {
+      void premioService.releaseReservation(reservation.id).catch(() => undefined)
+    }
+    setReservation(null)
+    setReservationError(null)
+  }
 
   const handleRedeem = async () => {
     if (!premio || !canRedeem) return
 
+    // Envia somente os campos de endereço preenchidos
+    const deliveryAddress = Object.fromEntries(
+      Object.entries(address).map(([key, value]) => [key, value?.trim()]).filter(([, value]) => value)
+    ) as RedemptionDeliveryAddress
+
     await onRedeem({
       premioId: premio.id,
+      variantId: selectedVariant?.id,
+      reservationId: reservation?.id,
+      deliveryAddress: Object.keys(deliveryAddress).length > 0 ? deliveryAddress : undefined,
       notes: notes.trim() || undefined
     })
 
-    // Reset form
+    // Reset form (a reserva foi consumida no resgate)
     setNotes('')
+    setAddress(EMPTY_ADDRESS)
     setConfirmed(false)
+    setVariantId(null)
+    setReservation(null)
     onOpenChange(false)
   }
 
   const handleCancel = () => {
+    releaseReservation()
     setNotes('')
+    setAddress(EMPTY_ADDRESS)
     setConfirmed(false)
+    setVariantId(null)
     onOpenChange(false)
   }
 
   if (!premio) return null
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={(nextOpen) => (nextOpen ? onOpenChange(true) : handleCancel())}>
       <DialogContent className="max-w-md">
         <DialogHeader>
           <DialogTitle className="flex items-center">
@@ -104,10 +181,44 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
 
             <div className="flex items-center justify-center space-x-2 text-2xl font-bold text-yellow-600">
               <TrophyIcon className="w-6 h-6" />
-              <span>{formatNumber(premio.pointsRequired)} pontos</span>
+              <span>{formatNumber(pointsRequired)} pontos</span>
             </div>
           </div>
 
+          {/* Variant Picker */}
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <Label>Escolha a opção</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {variants.map(variant => (
+                  <button
+                    key={variant.id}
+                    type="button"
+                    onClick={() => {
+                      setVariantId(variant.id)
+                      setConfirmed(false)
+                    }}
+                    disabled={variant.stock <= 0}
+                    className={cn(
+                      'p-2 border rounded-lg text-left text-sm transition-colors',
+                      variant.id === variantId
+                        ? 'border-eps-500 bg-eps-50 ring-2 ring-eps-500'
+                        : 'border-gray-200 hover:border-gray-300',
+                      variant.stock <= 0 && 'opacity-50 cursor-not-allowed'
+                    )}
+                  >
+                    <span className="block font-medium">{variant.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {variant.stock > 0
+                        ? `${formatNumber(variant.pointsRequired ?? premio.pointsRequired)} pts • ${variant.stock} em estoque`
+                        : 'Esgotado'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Points Summary */}
           <div className="bg-gray-50 rounded-lg p-4 space-y-3">
             <div className="flex justify-between items-center">
@@ -118,7 +229,7 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
             <div className="flex justify-between items-center">
               <span className="text-sm text-gray-600">Pontos necessários:</span>
               <span className="font-bold text-yellow-600">
-                -{formatNumber(premio.pointsRequired)}
+                -{formatNumber(pointsRequired)}
               </span>
             </div>
             
@@ -133,28 +244,47 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
           </div>
 
           {/* Stock Warning */}
-          {premio.stock <= 5 && premio.stock > 0 && (
+          {stock <= 5 && stock > 0 && (
             <div className="flex items-center space-x-2 text-amber-600 bg-amber-50 p-3 rounded-lg">
               <AlertTriangleIcon className="w-4 h-4" />
               <span className="text-sm">
-                Apenas {premio.stock} {premio.stock === 1 ? 'unidade restante' : 'unidades restantes'}!
+                Apenas {stock} {stock === 1 ? 'unidade restante' : 'unidades restantes'}!
               </span>
             </div>
           )}
 
+          {/* Stock Reservation */}
+          {canRedeem && reservation && reservationCountdown && (
+            <div className="flex items-center space-x-2 text-eps-700 bg-eps-50 p-3 rounded-lg">
+              <TimerIcon className="w-4 h-4" />
+              <span className="text-sm">
+                {reservationCountdown.isExpired
+                  ? 'Sua reserva expirou; o estoque será verificado na confirmação.'
+                  : `Unidade reservada para você por ${reservationCountdown.minutes}:${String(reservationCountdown.seconds).padStart(2, '0')}`}
+              </span>
+            </div>
+          )}
+
+          {canRedeem && reservationError && (
+            <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
+              <AlertTriangleIcon className="w-4 h-4" />
+              <span className="text-sm">{reservationError}</span>
+            </div>
+          )}
+
           {/* Error States */}
-          {!canRedeem && (
+          {!canRedeem && !needsVariant && (
             <div className="space-y-2">
-              {userPoints < premio.pointsRequired && (
+              {userPoints < pointsRequired && (
                 <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
                   <AlertTriangleIcon className="w-4 h-4" />
                   <span className="text-sm">
-                    Você precisa de {formatNumber(premio.pointsRequired - userPoints)} pontos adicionais.
+                    Você precisa de {formatNumber(pointsRequired - userPoints)} pontos adicionais.
                   </span>
                 </div>
               )}
               
-              {premio.stock === 0 && (
+              {stock === 0 && !hasReservedUnit && (
                 <div className="flex items-center space-x-2 text-red-600 bg-red-50 p-3 rounded-lg">
                   <AlertTriangleIcon className="w-4 h-4" />
                   <span className="text-sm">Este prêmio está esgotado.</span>
@@ -170,6 +300,41 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
             </div>
           )}
 
+          {/* Delivery Address */}
+          {canRedeem && (
+            <motion.div
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="space-y-2"
+            >
+              <Label>Endereço de entrega</Label>
+              <Input
+                placeholder="Rua, número e complemento"
+                value={address.street}
+                onChange={(e) => setAddress({ ...address, street: e.target.value })}
+              />
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  className="col-span-2"
+                  placeholder="Cidade"
+                  value={address.city}
+                  onChange={(e) => setAddress({ ...address, city: e.target.value })}
+                />
+                <Input
+                  placeholder="UF"
+                  maxLength={2}
+                  value={address.state}
+                  onChange={(e) => setAddress({ ...address, state: e.target.value.toUpperCase() })}
+                />
+              </div>
+              <Input
+                placeholder="CEP (00000-000)"
+                value={address.zipCode}
+                onChange={(e) => setAddress({ ...address, zipCode: e.target.value })}
+              />
+            </motion.div>
+          )}
+
           {/* Notes */}
           {canRedeem && (
             <motion.div
@@ -182,7 +347,7 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
               </Label>
               <Textarea
                 id="notes"
-                placeholder="Endereço de entrega, preferências, etc..."
+                placeholder="Ponto de referência, preferências, etc..."
                 value={notes}
                 onChange={(e) => setNotes(e.target.value)}
                 rows={3}
@@ -209,8 +374,8 @@ const PremioRedeemModal: React.FC<PremioRedeemModalProps> = ({
                   <span className="font-medium text-blue-900">Confirmo o resgate</span>
                   <br />
                   <span className="text-blue-700">
-                    Entendo que {formatNumber(premio.pointsRequired)} pontos serão descontados 
-                    da minha conta e que o resgate não pode ser desfeito.
+                    Entendo que {formatNumber(pointsRequired)} pontos serão descontados 
+                    da minha conta e que só posso cancelar o resgate enquanto ele aguarda aprovação.
                   </span>
                 </label>
               </div>
@@ -0,0 +1,66 @@
+/**
+ * @file components/ui/PremioPriceTag.tsx
+ * @version 2.0.0
+ * @description Preço do prêmio com preço sazonal, preço original e contagem regressiva
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React from 'react'
+import { TrophyIcon, TimerIcon } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { useCountdown } from '@/hooks/useCountdown'
+import { Premio } from '@/types'
+import { cn, formatNumber } from '@/lib/utils'
+
+interface PremioPriceTagProps {
+  premio: Pick<Premio, 'pointsRequired' | 'originalPointsRequired' | 'priceWindow'>
+  size?: 'sm' | 'lg'
+  className?: string
+}
+
+const PremioPriceTag: React.FC<PremioPriceTagProps> = ({ premio, size = 'sm', className }) => {
+  const priceWindow = premio.priceWindow
+  const countdown = useCountdown(priceWindow?.endDate)
+  const original = premio.originalPointsRequired ?? premio.pointsRequired
+  const hasSeasonalPrice = !!priceWindow && original !== premio.pointsRequired && !countdown?.isExpired
+  const isDiscount = premio.pointsRequired < original
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center flex-wrap gap-x-2">
+        <div className={cn('flex items-center space-x-1', size === 'lg' && 'text-2xl font-bold')}>
+          <TrophyIcon className={cn('text-yellow-500', size === 'lg' ? 'w-6 h-6' : 'w-4 h-4')} />
+          <span className={cn('font-bold', isDiscount && hasSeasonalPrice ? 'text-green-700' : 'text-yellow-700')}>
+            {formatNumber(hasSeasonalPrice ? premio.pointsRequired : original)}
+          </span>
+          <span className={cn('text-gray-500', size === 'lg' ? 'text-base font-medium' : 'text-xs')}>pts</span>
+        </div>
+
+        {hasSeasonalPrice && (
+          <span className={cn('line-through text-gray-400', size === 'lg' ? 'text-lg' : 'text-xs')}>
+            {formatNumber(original)}
+          </span>
+        )}
+      </div>
+
+      {hasSeasonalPrice && priceWindow && countdown && (
+        <div className="flex items-center flex-wrap gap-2">
+          <Badge variant={isDiscount ? 'success' : 'warning'} className="text-xs">
+            {priceWindow.label || 'Preço sazonal'}
+            {isDiscount && ` -${Math.round((1 - premio.pointsRequired / original) * 100)}%`}
+          </Badge>
+          <span className="flex items-center text-xs text-gray-600">
+            <TimerIcon className="w-3 h-3 mr-1" />
+            {countdown.days > 0 && `${countdown.days}d `}
+            {String(countdown.hours).padStart(2, '0')}:
+            {String(countdown.minutes).padStart(2, '0')}:
+            {String(countdown.seconds).padStart(2, '0')}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PremioPriceTag
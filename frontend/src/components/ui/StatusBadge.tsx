@@ -12,7 +12,7 @@ import { CampaignStatus, CampaignSubmissionStatus, EarningStatus, UserStatus } f
 
 interface StatusBadgeProps {
   status: CampaignStatus | CampaignSubmissionStatus | EarningStatus | UserStatus | string
-  type?: 'campaign' | 'submission' | 'earning' | 'user'
+  type?: 'campaign' | 'submission' | 'earning' | 'user' | 'payout' | 'redemption'
   className?: string
 }
 
@@ -49,6 +49,38 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status, type, className }) =>
             return { variant: 'warning' as const, label: 'Pendente', icon: '⏳' }
           case EarningStatus.PAGO:
             return { variant: 'success' as const, label: 'Pago', icon: '💰' }
+          case EarningStatus.CANCELADO:
+            return { variant: 'secondary' as const, label: 'Cancelado', icon: '🚫' }
+          case EarningStatus.ESTORNADO:
+            return { variant: 'destructive' as const, label: 'Estornado', icon: '↩️' }
+          default:
+            return { variant: 'outline' as const, label: status, icon: '❓' }
+        }
+
+      case 'payout':
+        switch (status) {
+          case 'GERADO':
+            return { variant: 'warning' as const, label: 'Aguardando banco', icon: '📤' }
+          case 'CONFIRMADO':
+            return { variant: 'success' as const, label: 'Confirmado', icon: '✅' }
+          case 'CANCELADO':
+            return { variant: 'secondary' as const, label: 'Cancelado', icon: '🚫' }
+          default:
+            return { variant: 'outline' as const, label: status, icon: '❓' }
+        }
+
+      case 'redemption':
+        switch (status) {
+          case 'SOLICITADO':
+            return { variant: 'pending' as const, label: 'Solicitado', icon: '⏳' }
+          case 'APROVADO':
+            return { variant: 'active' as const, label: 'Aprovado', icon: '👍' }
+          case 'ENVIADO':
+            return { variant: 'completed' as const, label: 'Enviado', icon: '🚚' }
+          case 'ENTREGUE':
+            return { variant: 'success' as const, label: 'Entregue', icon: '✅' }
+          case 'CANCELADO':
+            return { variant: 'secondary' as const, label: 'Cancelado', icon: '🚫' }
           default:
             return { variant: 'outline' as const, label: status, icon: '❓' }
         }
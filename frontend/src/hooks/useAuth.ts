@@ -107,10 +107,11 @@ export const useAuth = create<AuthState>()((set, get) => ({
         get().logout()
         return
       }
-      // authService.refreshToken() já salva o novo token no localStorage
+      // authService.refreshToken() já salva os novos tokens no localStorage
       const response = await authService.refreshToken(refreshToken)
       set({
         token: response.token,
+        refreshToken: response.refreshToken,
         isAuthenticated: true,
       })
     } catch (error) {
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react'
+
+export interface Countdown {
+  days: number
+  hours: number
+  minutes: number
+  seconds: number
+  isExpired: boolean
+}
+
+const getCountdown = (target: number): Countdown => {
+  const diff = Math.max(0, target - Date.now())
+
+  return {
+    days: Math.floor(diff / 86400000),
+    hours: Math.floor((diff % 86400000) / 3600000),
+    minutes: Math.floor((diff % 3600000) / 60000),
+    seconds: Math.floor((diff % 60000) / 1000),
+    isExpired: diff === 0,
+  }
+}
+
+export function useCountdown(endDate: string | Date | null | undefined): Countdown | null {
+  const target = endDate ? new Date(endDate).getTime() : null
+  const [countdown, setCountdown] = useState<Countdown | null>(() => (target ? getCountdown(target) : null))
+
+  useEffect(() => {
+    if (!target) {
+      setCountdown(null)
+      return
+    }
+
+    setCountdown(getCountdown(target))
+    const handler = setInterval(() => {
+      const next = getCountdown(target)
+      setCountdown(next)
+      if (next.isExpired) clearInterval(handler)
+    }, 1000)
+
+    return () => {
+      clearInterval(handler)
+    }
+  }, [target])
+
+  return countdown
+}
@@ -10,7 +10,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { earningService } from '@/services/earningService'
 import { useToast } from '@/hooks/useToast'
 import { useAuth } from '@/hooks/useAuth'
-import { Earning, EarningStatus, EarningType, UserRole } from '@/types'
+import { Earning, EarningStatus, EarningType, PaymentMethod, UserRole } from '@/types'
 import { getErrorMessage } from '@/lib/utils'
 
 interface EarningFilters {
@@ -75,7 +75,7 @@ export const useEarnings = (filters?: EarningFilters) => {
   const markAsPaidMutation = useMutation({
     mutationFn: ({ id, data }: { 
       id: string; 
-      data: { paymentMethod: string; paymentReference?: string; notes?: string } 
+      data: { paymentMethod: PaymentMethod; paymentReference: string; paymentDate?: string; paymentNotes?: string } 
     }) => earningService.markEarningAsPaid(id, data),
     onSuccess: () => {
       toast.success('Earning marcado como pago!')
@@ -7,54 +7,64 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { Notification } from '@/types'
 import { notificationService } from '@/services/notificationService'
 import { useAuth } from '@/hooks/useAuth'
 
-export const useNotifications = () => {
+const NOTIFICATIONS_PAGE_SIZE = 10
+const NOTIFICATIONS_REFETCH_INTERVAL = 30000 // 30 segundos
+
+export const useNotifications = (options: { unreadOnly?: boolean } = {}) => {
   const { user } = useAuth()
   const queryClient = useQueryClient()
 
   // Query para buscar notificações
-  const { data: notifications = [], isLoading } = useQuery({
-    queryKey: ['notifications', user?.id],
-    queryFn: () => notificationService.getUserNotifications(),
+  const { data, isLoading } = useQuery({
+    queryKey: ['notifications', user?.id, options.unreadOnly ?? false],
+    queryFn: () => notificationService.getUserNotifications({
+      unreadOnly: options.unreadOnly,
+      limit: NOTIFICATIONS_PAGE_SIZE,
+    }),
+    enabled: !!user,
+    refetchInterval: NOTIFICATIONS_REFETCH_INTERVAL,
+  })
+
+  // Query para contagem de não lidas (badge do sino)
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: ['notifications', user?.id, 'unread-count'],
+    queryFn: () => notificationService.getUnreadCount(),
     enabled: !!user,
-    refetchInterval: 30000, // Atualiza a cada 30 segundos
+    refetchInterval: NOTIFICATIONS_REFETCH_INTERVAL,
   })
 
+  const invalidateNotifications = () => {
+    queryClient.invalidateQueries({ queryKey: ['notifications'] })
+  }
+
   // Mutation para marcar como lida
   const markAsReadMutation = useMutation({
-    mutationFn: notificationService.markAsRead,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['notifications'] })
-    },
+    mutationFn: (id: string) => notificationService.markAsRead(id),
+    onSuccess: invalidateNotifications,
   })
 
   // Mutation para marcar todas como lida
   const markAllAsReadMutation = useMutation({
-    mutationFn: notificationService.markAllAsRead,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['notifications'] })
-    },
+    mutationFn: () => notificationService.markAllAsRead(),
+    onSuccess: invalidateNotifications,
   })
 
   // Mutation para deletar notificação
   const deleteNotificationMutation = useMutation({
-    mutationFn: notificationService.deleteNotification,
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['notifications'] })
-    },
+    mutationFn: (id: string) => notificationService.deleteNotification(id),
+    onSuccess: invalidateNotifications,
   })
 
-  const unreadCount = notifications.filter((n: Notification) => !n.isRead).length
-
   return {
-    notifications,
+    notifications: data?.data || [],
+    pagination: data?.pagination,
     unreadCount,
     isLoading,
     markAsRead: markAsReadMutation.mutate,
-    markAllAsRead: markAllAsReadMutation.mutate,
+    markAllAsRead: () => markAllAsReadMutation.mutate(),
     deleteNotification: deleteNotificationMutation.mutate,
   }
 }
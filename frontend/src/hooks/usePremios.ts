@@ -102,12 +102,13 @@ export const usePremios = (filters?: PremioFilters) => {
 
   // Mutation para atualizar estoque
   const updateStockMutation = useMutation({
-    mutationFn: ({ premioId, operation, quantity, reason }: {
+    mutationFn: ({ premioId, operation, quantity, reason, variantId }: {
       premioId: string
       operation: 'add' | 'subtract' | 'set'
       quantity: number
       reason: string
-    }) => premioService.updateStock(premioId, { operation, quantity, reason }),
+      variantId?: string
+    }) => premioService.updateStock(premioId, { operation, quantity, reason, variantId }),
     onSuccess: () => {
       toast.success('Estoque atualizado com sucesso!')
       queryClient.invalidateQueries({ queryKey: ['premios'] })
@@ -119,11 +120,12 @@ export const usePremios = (filters?: PremioFilters) => {
 
   // Mutation para reposição de estoque
   const restockMutation = useMutation({
-    mutationFn: ({ premioId, quantity, reason }: {
+    mutationFn: ({ premioId, quantity, reason, variantId }: {
       premioId: string
       quantity: number
       reason: string
-    }) => premioService.restockPremio(premioId, { quantity, reason }),
+      variantId?: string
+    }) => premioService.restockPremio(premioId, { quantity, reason, variantId }),
     onSuccess: () => {
       toast.success('Estoque reposto com sucesso!')
       queryClient.invalidateQueries({ queryKey: ['premios'] })
@@ -0,0 +1,65 @@
+/**
+ * @file hooks/useRealtimeUpdates.ts
+ * @version 2.0.0
+ * @description Hook que mantém o stream de tempo real (SSE) aberto e invalida
+ * as queries do React Query conforme os eventos recebidos do servidor
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import { useEffect } from 'react'
+import { QueryKey, useQueryClient } from '@tanstack/react-query'
+import { useAuth } from '@/hooks/useAuth'
+import { BASE_URL } from '@/lib/axios'
+
+/**
+ * Queries invalidadas por cada evento do servidor
+ */
+const REALTIME_INVALIDATIONS: Record<string, QueryKey[]> = {
+  'submission.created': [['submissions'], ['pending-submissions'], ['dashboard']],
+  'submission.updated': [['submissions'], ['pending-submissions'], ['dashboard'], ['earnings'], ['user']],
+  'ranking.updated': [['ranking'], ['dashboard']],
+  'dashboard.updated': [['dashboard'], ['campaigns'], ['user'], ['my-redemptions']],
+  'earning.updated': [['earnings'], ['pending-earnings'], ['earning-stats'], ['dashboard']],
+  'premio.updated': [['premios'], ['available-premios'], ['popular-premios']],
+  'campaign.updated': [['campaigns'], ['active-campaigns']],
+  'notification.created': [['notifications']],
+}
+
+export const useRealtimeUpdates = () => {
+  const { token, isAuthenticated } = useAuth()
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!isAuthenticated || !token || typeof EventSource === 'undefined') return
+
+    // EventSource não envia headers: o token vai na query string
+    const source = new EventSource(`${BASE_URL}/realtime/stream?token=${encodeURIComponent(token)}`)
+
+    const listeners = Object.entries(REALTIME_INVALIDATIONS).map(([event, queryKeys]) => {
+      const listener = () => {
+        queryKeys.forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))
+      }
+      source.addEventListener(event, listener)
+      return [event, listener] as const
+    })
+
+    // O navegador reconecta sozinho; ao voltar, sincroniza o que pode ter sido perdido
+    let hasConnected = false
+    const handleConnected = () => {
+      if (hasConnected) {
+        Object.values(REALTIME_INVALIDATIONS)
+          .flat()
+          .forEach((queryKey) => queryClient.invalidateQueries({ queryKey }))
+      }
+      hasConnected = true
+    }
+    source.addEventListener('connected', handleConnected)
+
+    return () => {
+      listeners.forEach(([event, listener]) => source.removeEventListener(event, listener))
+      source.removeEventListener('connected', handleConnected)
+      source.close()
+    }
+  }, [isAuthenticated, token, queryClient])
+}
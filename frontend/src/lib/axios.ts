@@ -1,6 +1,6 @@
 /**
  * @file lib/axios.ts
- * @version 2.0.2
+ * @version 2.0.3
  * @description Configuração do cliente HTTP Axios
  * @author DevEPS
  * @since 2025-10-21
@@ -10,6 +10,8 @@
  * - CORRIGIDO: Importado 'useAuth' de '@/hooks/useAuth' (o store correto).
  * - CORRIGIDO: Interceptor de request agora lê 'useAuth.getState().token'.
  * - CORRIGIDO: Interceptor de erro 401 agora chama 'useAuth.getState().logout()'.
+ * - 2.0.3:
+ * - Erro 401 tenta renovar a sessão (refresh token rotativo) uma única vez antes de deslogar.
  */
 
 import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios'
@@ -17,7 +19,7 @@ import { ApiResponse } from '@/types'
 import { useAuth } from '@/hooks/useAuth' // <-- CORREÇÃO: Importa o store correto
 
 // Configuração base
-const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
+export const BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api'
 
 // Cria instância do axios
 const api = axios.create({
@@ -30,6 +32,10 @@ const api = axios.create({
 
 // ==================== INTERCEPTORS ====================
 
+// Renovação em andamento: o refresh token é rotacionado a cada uso, então
+// requisições concorrentes com 401 aguardam a mesma renovação
+let refreshPromise: Promise<void> | null = null
+
 /**
  * Interceptor para adicionar token de autenticação
  */
@@ -70,8 +76,9 @@ api.interceptors.response.use(
 
     return response
   },
-  (error: AxiosError<ApiResponse>) => {
+  async (error: AxiosError<ApiResponse>) => {
     const { response, request } = error
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retry?: boolean }) | undefined
 
     // Log errors em desenvolvimento
     if (import.meta.env.DEV) {
@@ -81,7 +88,29 @@ api.interceptors.response.use(
       })
     }
 
-    // Token expirado - redireciona para login
+    // Token expirado - tenta renovar a sessão uma vez e repete a requisição
+    if (
+      response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retry &&
+      !originalRequest.url?.startsWith('/auth/') &&
+      useAuth.getState().refreshToken
+    ) {
+      originalRequest._retry = true
+
+      refreshPromise = refreshPromise || useAuth.getState().refreshAuth().finally(() => {
+        refreshPromise = null
+      })
+      await refreshPromise
+
+      const { token } = useAuth.getState()
+      if (token) {
+        originalRequest.headers.Authorization = `Bearer ${token}`
+        return api(originalRequest)
+      }
+    }
+
+    // Sessão inválida - redireciona para login
     if (response?.status === 401) {
       // CORREÇÃO: Chamar a ação de logout do store correto
       if (window.location.pathname !== '/login') {
@@ -139,6 +168,14 @@ export const apiPut = async <T>(url: string, data?: any): Promise<T> => {
   return response.data.data!
 }
 
+/**
+ * Helper para fazer requisições PATCH tipadas
+ */
+export const apiPatch = async <T>(url: string, data?: any): Promise<T> => {
+  const response = await api.patch<ApiResponse<T>>(url, data)
+  return response.data.data!
+}
+
 /**
  * Helper para fazer requisições DELETE tipadas
  */
@@ -10,6 +10,7 @@ import { type ClassValue, clsx } from 'clsx'
 import { twMerge } from 'tailwind-merge'
 import { format, parseISO, isValid } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
+import { formatMoney } from '@shared/money'
 
 // ==================== CLASSNAME UTILITY ====================
 export function cn(...inputs: ClassValue[]) {
@@ -101,16 +102,26 @@ export function isValidCNPJ(cnpj: string): boolean {
 
 // ==================== FORMATAÇÃO MONETÁRIA ====================
 export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('pt-BR', {
-    style: 'currency',
-    currency: 'BRL',
-  }).format(value)
+  return formatMoney(value)
 }
 
 export const formatNumber = (value: number): string => {
   return new Intl.NumberFormat('pt-BR').format(value)
 }
 
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  bank_transfer: 'Transferência Bancária',
+  pix: 'PIX',
+  check: 'Cheque',
+  cash: 'Dinheiro',
+  other: 'Outro',
+}
+
+export const formatPaymentMethod = (method: string | null | undefined): string => {
+  if (!method) return '-'
+  return PAYMENT_METHOD_LABELS[method] || method
+}
+
 // ==================== FORMATAÇÃO DE DATAS ====================
 export const formatDate = (date: string | Date | null | undefined): string => {
   if (!date) return '-'
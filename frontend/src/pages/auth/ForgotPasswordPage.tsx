@@ -0,0 +1,123 @@
+/**
+ * @file pages/auth/ForgotPasswordPage.tsx
+ * @version 2.0.0
+ * @description Página de solicitação de redefinição de senha
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { ArrowLeftIcon, MailCheckIcon, SendIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card'
+import { useToast } from '@/hooks/useToast'
+import { authService } from '@/services/authService'
+import { getErrorMessage } from '@/lib/utils'
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Email inválido').min(1, 'Email é obrigatório'),
+})
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>
+
+const ForgotPasswordPage: React.FC = () => {
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+  })
+
+  const onSubmit = async (data: ForgotPasswordForm) => {
+    try {
+      await authService.forgotPassword(data.email)
+      setSentTo(data.email)
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao solicitar redefinição')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-md w-full"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-eps-600 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-white text-2xl font-bold">E</span>
+            </div>
+            <CardTitle className="text-2xl">Esqueceu sua senha?</CardTitle>
+            <CardDescription>
+              Informe seu email e enviaremos um link para criar uma nova senha
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {sentTo ? (
+              <div className="text-center space-y-3">
+                <MailCheckIcon className="w-12 h-12 text-green-600 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  Se <span className="font-medium">{sentTo}</span> estiver cadastrado, você receberá
+                  em instantes um email com as instruções. O link é válido por 1 hora.
+                </p>
+                <Button variant="outline" className="w-full" onClick={() => setSentTo(null)}>
+                  Enviar novamente
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email" required>Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="seu@email.com"
+                    {...register('email')}
+                    error={!!errors.email}
+                    helperText={errors.email?.message}
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  loading={isSubmitting}
+                >
+                  <SendIcon className="w-4 h-4 mr-2" />
+                  Enviar link
+                </Button>
+              </form>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4 text-center">
+            <Link
+              to="/login"
+              className="inline-flex items-center text-sm text-eps-600 hover:text-eps-700 transition-colors"
+            >
+              <ArrowLeftIcon className="w-4 h-4 mr-1" />
+              Voltar para o login
+            </Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  )
+}
+
+export default ForgotPasswordPage
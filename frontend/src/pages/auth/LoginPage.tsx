@@ -117,16 +117,24 @@ const LoginPage: React.FC = () => {
               </div>
 
               {/* Remember me */}
-              <div className="flex items-center">
-                <input
-                  id="rememberMe"
-                  type="checkbox"
-                  {...register('rememberMe')}
-                  className="h-4 w-4 text-eps-600 focus:ring-eps-500 border-gray-300 rounded"
-                />
-                <Label htmlFor="rememberMe" className="ml-2 text-sm cursor-pointer">
-                  Lembrar de mim
-                </Label>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="rememberMe"
+                    type="checkbox"
+                    {...register('rememberMe')}
+                    className="h-4 w-4 text-eps-600 focus:ring-eps-500 border-gray-300 rounded"
+                  />
+                  <Label htmlFor="rememberMe" className="ml-2 text-sm cursor-pointer">
+                    Lembrar de mim
+                  </Label>
+                </div>
+                <Link
+                  to="/forgot-password"
+                  className="text-sm text-eps-600 hover:text-eps-700 transition-colors"
+                >
+                  Esqueceu sua senha?
+                </Link>
               </div>
 
               {/* Submit button */}
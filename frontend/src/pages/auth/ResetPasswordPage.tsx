@@ -0,0 +1,181 @@
+/**
+ * @file pages/auth/ResetPasswordPage.tsx
+ * @version 2.0.0
+ * @description Página de redefinição de senha (link recebido por email)
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery } from '@tanstack/react-query'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { EyeIcon, EyeOffIcon, KeyRoundIcon, XCircleIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card'
+import { useToast } from '@/hooks/useToast'
+import { authService } from '@/services/authService'
+import { getErrorMessage } from '@/lib/utils'
+
+const resetPasswordSchema = z.object({
+  password: z
+    .string()
+    .min(8, 'Senha deve ter pelo menos 8 caracteres')
+    .regex(
+      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+      'Senha deve conter pelo menos: 1 letra minúscula, 1 maiúscula e 1 número'
+    ),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: 'Senhas não coincidem',
+  path: ['confirmPassword'],
+})
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>
+
+const ResetPasswordPage: React.FC = () => {
+  const [showPassword, setShowPassword] = useState(false)
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  const token = searchParams.get('token') || ''
+
+  const { data: tokenInfo, isLoading, isError, error } = useQuery({
+    queryKey: ['reset-password-token', token],
+    queryFn: () => authService.validateResetToken(token),
+    enabled: !!token,
+    retry: false,
+  })
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+  })
+
+  const onSubmit = async (data: ResetPasswordForm) => {
+    try {
+      await authService.resetPassword({ token, ...data })
+      toast.success('Senha redefinida! Faça login com a nova senha.')
+      navigate('/login', { replace: true })
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao redefinir senha')
+    }
+  }
+
+  const invalidLink = !token || isError
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-md w-full"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-eps-600 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-white text-2xl font-bold">E</span>
+            </div>
+            <CardTitle className="text-2xl">Nova senha</CardTitle>
+            <CardDescription>
+              {tokenInfo
+                ? `Crie uma nova senha para ${tokenInfo.email}`
+                : 'Crie uma nova senha para sua conta'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="w-8 h-8 border-4 border-eps-600 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : invalidLink ? (
+              <div className="text-center space-y-3">
+                <XCircleIcon className="w-12 h-12 text-red-500 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  {token ? getErrorMessage(error) : 'Link de redefinição inválido.'}
+                </p>
+                <p className="text-sm text-gray-600">
+                  Solicite um novo link para redefinir sua senha.
+                </p>
+                <Button className="w-full" onClick={() => navigate('/forgot-password')}>
+                  Solicitar novo link
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password" required>Nova senha</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      placeholder="Mínimo 8 caracteres"
+                      {...register('password')}
+                      error={!!errors.password}
+                      helperText={errors.password?.message}
+                      className="pr-10"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                    >
+                      {showPassword ? (
+                        <EyeOffIcon className="w-4 h-4" />
+                      ) : (
+                        <EyeIcon className="w-4 h-4" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPassword" required>Confirmar nova senha</Label>
+                  <Input
+                    id="confirmPassword"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Repita a nova senha"
+                    {...register('confirmPassword')}
+                    error={!!errors.confirmPassword}
+                    helperText={errors.confirmPassword?.message}
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  loading={isSubmitting}
+                >
+                  <KeyRoundIcon className="w-4 h-4 mr-2" />
+                  Redefinir senha
+                </Button>
+              </form>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4 text-center">
+            <Link
+              to="/login"
+              className="text-sm text-eps-600 hover:text-eps-700 transition-colors"
+            >
+              Voltar para o login
+            </Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  )
+}
+
+export default ResetPasswordPage
@@ -0,0 +1,104 @@
+/**
+ * @file pages/auth/VerifyEmailPage.tsx
+ * @version 2.0.0
+ * @description Página de confirmação de email (link recebido por email)
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useEffect, useRef } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useMutation } from '@tanstack/react-query'
+import { CheckCircleIcon, XCircleIcon } from 'lucide-react'
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card'
+import { useAuth } from '@/hooks/useAuth'
+import { authService } from '@/services/authService'
+import { getErrorMessage, setLocalStorage } from '@/lib/utils'
+
+const VerifyEmailPage: React.FC = () => {
+  const [searchParams] = useSearchParams()
+  const { isAuthenticated, user, setUser } = useAuth()
+  const token = searchParams.get('token') || ''
+
+  const verifyMutation = useMutation({
+    mutationFn: (value: string) => authService.verifyEmail(value),
+    onSuccess: (result) => {
+      // Atualiza o usuário logado para esconder o aviso de email não verificado
+      if (user && user.email === result.email) {
+        const verifiedUser = { ...user, emailVerifiedAt: new Date().toISOString() }
+        setUser(verifiedUser)
+        setLocalStorage('eps_user', verifiedUser)
+      }
+    },
+  })
+  const { mutate } = verifyMutation
+
+  // O token é de uso único: evita a segunda chamada do StrictMode
+  const requested = useRef(false)
+  useEffect(() => {
+    if (token && !requested.current) {
+      requested.current = true
+      mutate(token)
+    }
+  }, [token, mutate])
+
+  const isPending = !!token && (verifyMutation.isIdle || verifyMutation.isPending)
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="max-w-md w-full"
+      >
+        <Card>
+          <CardHeader className="text-center">
+            <div className="w-16 h-16 bg-eps-600 rounded-full flex items-center justify-center mx-auto mb-4">
+              <span className="text-white text-2xl font-bold">E</span>
+            </div>
+            <CardTitle className="text-2xl">Verificação de email</CardTitle>
+            <CardDescription>Confirmação do endereço de email da sua conta</CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {isPending ? (
+              <div className="flex justify-center py-6">
+                <div className="w-8 h-8 border-4 border-eps-600 border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : verifyMutation.isSuccess ? (
+              <div className="text-center space-y-3">
+                <CheckCircleIcon className="w-12 h-12 text-green-600 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  O email <span className="font-medium">{verifyMutation.data.email}</span> foi confirmado.
+                </p>
+              </div>
+            ) : (
+              <div className="text-center space-y-3">
+                <XCircleIcon className="w-12 h-12 text-red-500 mx-auto" />
+                <p className="text-sm text-gray-600">
+                  {token ? getErrorMessage(verifyMutation.error) : 'Link de verificação inválido.'}
+                </p>
+                <p className="text-sm text-gray-600">
+                  Você pode solicitar um novo link na página do seu perfil.
+                </p>
+              </div>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-col space-y-4 text-center">
+            <Link
+              to={isAuthenticated ? '/app/dashboard' : '/login'}
+              className="text-sm text-eps-600 hover:text-eps-700 transition-colors"
+            >
+              {isAuthenticated ? 'Ir para o painel' : 'Ir para o login'}
+            </Link>
+          </CardFooter>
+        </Card>
+      </motion.div>
+    </div>
+  )
+}
+
+export default VerifyEmailPage
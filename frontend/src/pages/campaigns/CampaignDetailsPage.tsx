@@ -6,10 +6,10 @@
  * @since 2025-10-21
  */
 
-import React from 'react'
+import React, { useState } from 'react'
 import { useParams, Link, useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { 
   ArrowLeftIcon, 
   EditIcon, 
@@ -18,20 +18,214 @@ import {
   TargetIcon,
   UsersIcon,
   CheckCircleIcon,
-  PlayCircleIcon
+  PlayCircleIcon,
+  WalletIcon,
+  XCircleIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
 import { campaignService } from '@/services/campaignService'
 import { useAuth } from '@/hooks/useAuth'
-import { UserRole } from '@/types'
-import { formatDate, formatNumber } from '@/lib/utils'
+import { useToast } from '@/hooks/useToast'
+import { CampaignBudgetHold, CampaignBudgetStatus, UserRole } from '@/types'
+import { formatCurrency, formatDate, formatNumber, getErrorMessage } from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 import StatusBadge from '@/components/ui/StatusBadge'
 
+/**
+ * Orçamento da campanha: comprometido, pago e restante, com os prêmios retidos para aprovação
+ */
+const CampaignBudgetCard: React.FC<{
+  campaignId: string
+  budget: CampaignBudgetStatus
+  canDecide: boolean
+}> = ({ campaignId, budget, canDecide }) => {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [rejectingHold, setRejectingHold] = useState<CampaignBudgetHold | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+
+  const { data: holds } = useQuery({
+    queryKey: ['campaign-budget-holds', campaignId],
+    queryFn: () => campaignService.getBudgetHolds(campaignId, { status: 'PENDENTE' }),
+    enabled: canDecide && budget.heldCount > 0,
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['campaign-budget-holds', campaignId] })
+    queryClient.invalidateQueries({ queryKey: ['campaign-stats', campaignId] })
+  }
+
+  const approveMutation = useMutation({
+    mutationFn: (holdId: string) => campaignService.approveBudgetHold(holdId),
+    onSuccess: () => {
+      toast.success('Prêmio aprovado e pontos creditados')
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao aprovar prêmio')
+    },
+  })
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ holdId, reason }: { holdId: string; reason: string }) =>
+      campaignService.rejectBudgetHold(holdId, reason),
+    onSuccess: () => {
+      toast.success('Prêmio rejeitado')
+      setRejectingHold(null)
+      setRejectReason('')
+      refresh()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao rejeitar prêmio')
+    },
+  })
+
+  const hasLimit = budget.budgetTotal !== null || budget.budgetPerSeller !== null
+  const utilizationPercent = Math.round((budget.utilization || 0) * 100)
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <WalletIcon className="w-5 h-5 mr-2" />
+            Orçamento
+          </span>
+          {budget.exhausted && (
+            <Badge variant="error">Esgotado</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!hasLimit && (
+          <p className="text-sm text-gray-500 mb-4">Campanha sem limite de orçamento</p>
+        )}
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div>
+            <p className="text-sm text-gray-500">Comprometido</p>
+            <p className="text-lg font-semibold">{formatCurrency(budget.committedAmount)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Pago</p>
+            <p className="text-lg font-semibold text-green-700">{formatCurrency(budget.paidAmount)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Pendente</p>
+            <p className="text-lg font-semibold text-yellow-700">{formatCurrency(budget.pendingAmount)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Restante</p>
+            <p className="text-lg font-semibold">
+              {budget.remainingAmount !== null ? formatCurrency(budget.remainingAmount) : '—'}
+            </p>
+          </div>
+        </div>
+
+        {budget.budgetTotal !== null && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{utilizationPercent}% de {formatCurrency(budget.budgetTotal)}</span>
+              <span>{budget.exhaustedAction === 'QUEUE_FOR_APPROVAL' ? 'Ao esgotar: reter para aprovação' : 'Ao esgotar: parar de premiar'}</span>
+            </div>
+            <Progress
+              value={Math.min(utilizationPercent, 100)}
+              variant={budget.exhausted ? 'error' : utilizationPercent >= 80 ? 'warning' : 'success'}
+            />
+          </div>
+        )}
+
+        {budget.budgetPerSeller !== null && (
+          <p className="text-sm text-gray-600 mt-3">
+            Teto por vendedor: {formatCurrency(budget.budgetPerSeller)} · {budget.sellersAtCap} vendedor(es) no teto
+          </p>
+        )}
+
+        {budget.heldCount > 0 && (
+          <div className="mt-6 space-y-3">
+            <h4 className="font-medium">
+              Prêmios retidos ({budget.heldCount} · {formatCurrency(budget.heldAmount)})
+            </h4>
+
+            {canDecide && holds?.data.map(hold => (
+              <div key={hold.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{hold.submission.user.name} · Pedido {hold.submission.orderNumber}</p>
+                  <p className="text-sm text-gray-600">
+                    {formatCurrency(hold.totalAmount)} · {hold.reason} · {formatDate(hold.createdAt)}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => approveMutation.mutate(hold.id)}
+                    loading={approveMutation.isPending && approveMutation.variables === hold.id}
+                  >
+                    <CheckCircleIcon className="w-4 h-4 mr-1" />
+                    Aprovar
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setRejectingHold(hold)}>
+                    <XCircleIcon className="w-4 h-4 mr-1" />
+                    Rejeitar
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejectingHold} onOpenChange={(open) => !open && setRejectingHold(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Rejeitar prêmio retido</DialogTitle>
+            <DialogDescription>
+              Pedido {rejectingHold?.submission.orderNumber} de {rejectingHold?.submission.user.name}. Nenhum ponto será creditado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="budgetHoldRejectReason" required>Motivo</Label>
+            <Textarea
+              id="budgetHoldRejectReason"
+              rows={3}
+              maxLength={500}
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectingHold(null)} disabled={rejectMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={rejectReason.trim().length < 5}
+              loading={rejectMutation.isPending}
+              onClick={() => rejectingHold && rejectMutation.mutate({ holdId: rejectingHold.id, reason: rejectReason })}
+            >
+              Rejeitar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
 const CampaignDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -43,6 +237,14 @@ const CampaignDetailsPage: React.FC = () => {
     enabled: !!id,
   })
 
+  const canViewStats = user?.role === UserRole.ADMIN || user?.role === UserRole.GERENTE
+
+  const { data: stats } = useQuery({
+    queryKey: ['campaign-stats', id],
+    queryFn: () => campaignService.getCampaignStats(id!),
+    enabled: !!id && canViewStats,
+  })
+
   if (isLoading) {
     return <LoadingScreen message="Carregando campanha..." />
   }
@@ -310,6 +512,14 @@ const CampaignDetailsPage: React.FC = () => {
                 </div>
               </CardContent>
             </Card>
+
+            {stats?.budget && (
+              <CampaignBudgetCard
+                campaignId={campaign.id}
+                budget={stats.budget}
+                canDecide={user?.role === UserRole.ADMIN}
+              />
+            )}
           </div>
         </TabsContent>
       </Tabs>
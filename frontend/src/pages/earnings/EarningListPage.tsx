@@ -7,31 +7,48 @@
  */
 
 import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
 import { 
   DollarSignIcon, 
   FilterIcon, 
   TrendingUpIcon, 
   CalendarIcon,
   UserIcon,
-  CreditCardIcon
+  CreditCardIcon,
+  PaperclipIcon,
+  LayersIcon,
+  HistoryIcon,
+  FileTextIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import DataTable from '@/components/ui/DataTable'
+import EarningPaymentModal, { EarningPaymentFormData } from '@/components/modals/EarningPaymentModal'
+import EarningHistoryModal from '@/components/modals/EarningHistoryModal'
 import { earningService } from '@/services/earningService'
 import { useAuth } from '@/hooks/useAuth'
-import { Earning, EarningType, UserRole, TableColumn } from '@/types'
-import { formatCurrency, formatDate, formatDateTime } from '@/lib/utils'
+import { useToast } from '@/hooks/useToast'
+import { Earning, EarningPayment, EarningPaymentAttachment, EarningStatus, EarningType, UserRole, TableColumn } from '@/types'
+import { formatCurrency, formatDate, formatDateTime, formatPaymentMethod, getErrorMessage } from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 import StatusBadge from '@/components/ui/StatusBadge'
 import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar'
 
 const EarningListPage: React.FC = () => {
   const { user } = useAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const isAdmin = user?.role === UserRole.ADMIN
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [paymentModalOpen, setPaymentModalOpen] = useState(false)
+  const [isRegisteringPayment, setIsRegisteringPayment] = useState(false)
+  const [isCreatingBatch, setIsCreatingBatch] = useState(false)
+  const [historyEarning, setHistoryEarning] = useState<Earning | null>(null)
+  const [isChangingStatus, setIsChangingStatus] = useState(false)
   const [filters, setFilters] = useState({
     page: 1,
     limit: 20,
@@ -70,8 +87,127 @@ const EarningListPage: React.FC = () => {
     setFilters(prev => ({ ...prev, sort: column, order: direction }))
   }
 
+  // Seleção vale apenas para a página exibida
+  const selectedEarnings = (earningsResponse?.data || []).filter(earning => selectedIds.includes(earning.id))
+
+  const toggleSelected = (earningId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(earningId) ? prev.filter(id => id !== earningId) : [...prev, earningId]
+    )
+  }
+
+  const handleRegisterPayment = async (data: EarningPaymentFormData) => {
+    const { files, ...paymentData } = data
+    setIsRegisteringPayment(true)
+
+    try {
+      const earningIds = selectedEarnings.map(earning => earning.id)
+      const payment = await earningService.createPayment({ ...paymentData, earningIds })
+
+      // Pagamento já registrado: falha no upload não deve desfazer o registro
+      if (files.length > 0) {
+        try {
+          await earningService.uploadPaymentAttachments(payment.id, files)
+        } catch (error) {
+          toast.error(getErrorMessage(error), 'Pagamento registrado, mas os comprovantes não foram enviados')
+        }
+      }
+
+      toast.success(`Pagamento registrado para ${earningIds.length} earning(s)`)
+      setSelectedIds([])
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      queryClient.invalidateQueries({ queryKey: ['earning-stats'] })
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao registrar pagamento')
+      throw error
+    } finally {
+      setIsRegisteringPayment(false)
+    }
+  }
+
+  const handleCreatePayoutBatch = async () => {
+    setIsCreatingBatch(true)
+
+    try {
+      const earningIds = selectedEarnings.map(earning => earning.id)
+      const { batch, skipped } = await earningService.createPayoutBatch({ earningIds })
+
+      toast.success(`Lote ${batch.code} gerado com ${batch.itemCount} favorecido(s)`)
+      if (skipped.length > 0) {
+        toast.error(
+          skipped.map(item => item.userName).join(', '),
+          `${skipped.length} usuário(s) sem chave PIX ficaram fora do lote`
+        )
+      }
+
+      setSelectedIds([])
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      queryClient.invalidateQueries({ queryKey: ['payout-batches'] })
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao gerar lote PIX')
+    } finally {
+      setIsCreatingBatch(false)
+    }
+  }
+
+  const handleStatusChange = async (earning: Earning, reason: string) => {
+    const isReversal = earning.status === EarningStatus.PAGO
+    setIsChangingStatus(true)
+
+    try {
+      if (isReversal) {
+        await earningService.reverseEarning(earning.id, reason)
+      } else {
+        await earningService.cancelEarning(earning.id, reason)
+      }
+
+      toast.success(isReversal ? 'Earning estornado' : 'Earning cancelado')
+      setSelectedIds(prev => prev.filter(id => id !== earning.id))
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      queryClient.invalidateQueries({ queryKey: ['earning', earning.id] })
+      queryClient.invalidateQueries({ queryKey: ['earning-stats'] })
+    } catch (error) {
+      toast.error(getErrorMessage(error), isReversal ? 'Erro ao estornar earning' : 'Erro ao cancelar earning')
+      throw error
+    } finally {
+      setIsChangingStatus(false)
+    }
+  }
+
+  const handleDownloadAttachment = async (payment: EarningPayment, attachment: EarningPaymentAttachment) => {
+    try {
+      await earningService.downloadPaymentAttachment(payment.id, attachment)
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao baixar comprovante')
+    }
+  }
+
+  const handleDownloadReceipt = async (earning: Earning) => {
+    if (!earning.paymentId) return
+
+    try {
+      await earningService.downloadPaymentReceipt(earning.paymentId, earning.userId)
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao baixar recibo')
+    }
+  }
+
   // Definição das colunas
   const columns: TableColumn<Earning>[] = [
+    ...(isAdmin ? [{
+      key: 'select',
+      label: '',
+      // Earnings reservados em lote PIX só saem do lote confirmando ou cancelando
+      render: (earning: Earning) => earning.status === EarningStatus.PENDENTE && !earning.payoutBatchId ? (
+        <input
+          type="checkbox"
+          aria-label="Selecionar para pagamento"
+          checked={selectedIds.includes(earning.id)}
+          onChange={() => toggleSelected(earning.id)}
+          className="h-4 w-4 rounded border-gray-300 text-eps-600 focus:ring-eps-500"
+        />
+      ) : null,
+    }] : []),
     {
       key: 'earningDate',
       label: 'Data',
@@ -97,9 +233,17 @@ const EarningListPage: React.FC = () => {
       label: 'Valor',
       sortable: true,
       render: (earning) => (
-        <span className="font-bold text-green-600">
-          {formatCurrency(earning.amount)}
-        </span>
+        <div>
+          <span className="font-bold text-green-600">
+            {formatCurrency(earning.amount)}
+          </span>
+          {/* Bruto; retido e líquido aparecem depois do pagamento ou da reserva em lote */}
+          {earning.netAmount != null && (
+            <p className="text-xs text-gray-500">
+              Retido {formatCurrency(earning.withheldAmount ?? 0)} · Líquido {formatCurrency(earning.netAmount)}
+            </p>
+          )}
+        </div>
       ),
     },
     {
@@ -119,7 +263,12 @@ const EarningListPage: React.FC = () => {
       label: 'Status',
       sortable: true,
       render: (earning) => (
-        <StatusBadge status={earning.status} type="earning" />
+        <div className="space-y-1">
+          <StatusBadge status={earning.status} type="earning" />
+          {earning.status === EarningStatus.PENDENTE && earning.payoutBatchId && (
+            <Badge variant="outline">Em lote PIX</Badge>
+          )}
+        </div>
       ),
     },
     ...(user?.role !== UserRole.VENDEDOR ? [{
@@ -135,6 +284,44 @@ const EarningListPage: React.FC = () => {
         </div>
       ),
     }] : []),
+    {
+      key: 'payment',
+      label: 'Pagamento',
+      render: (earning) => {
+        const payment = earning.payment
+        if (!payment) {
+          return <span className="text-xs text-gray-400">-</span>
+        }
+
+        return (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {formatPaymentMethod(payment.method)} · {formatDate(payment.paidAt)}
+            </p>
+            <p className="text-xs text-gray-500">Ref.: {payment.reference}</p>
+            <button
+              type="button"
+              onClick={() => handleDownloadReceipt(earning)}
+              className="flex items-center text-xs text-eps-600 hover:text-eps-700"
+            >
+              <FileTextIcon className="w-3 h-3 mr-1" />
+              Recibo
+            </button>
+            {payment.attachments.map(attachment => (
+              <button
+                key={attachment.id}
+                type="button"
+                onClick={() => handleDownloadAttachment(payment, attachment)}
+                className="flex items-center text-xs text-eps-600 hover:text-eps-700"
+              >
+                <PaperclipIcon className="w-3 h-3 mr-1" />
+                {attachment.filename}
+              </button>
+            ))}
+          </div>
+        )
+      },
+    },
     {
       key: 'description',
       label: 'Descrição',
@@ -144,6 +331,20 @@ const EarningListPage: React.FC = () => {
         </p>
       ),
     },
+    {
+      key: 'history',
+      label: '',
+      render: (earning) => (
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-label="Ver histórico"
+          onClick={() => setHistoryEarning(earning)}
+        >
+          <HistoryIcon className="w-4 h-4" />
+        </Button>
+      ),
+    },
   ]
 
   if (isLoading) {
@@ -172,6 +373,32 @@ const EarningListPage: React.FC = () => {
             }
           </p>
         </div>
+        {isAdmin && (
+          <div className="flex gap-2">
+            <Button variant="outline" asChild>
+              <Link to="/app/earnings/payout-batches">Lotes PIX</Link>
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/app/earnings/withholding-rules">Retenções</Link>
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleCreatePayoutBatch}
+              disabled={selectedEarnings.length === 0}
+              loading={isCreatingBatch}
+            >
+              <LayersIcon className="w-4 h-4 mr-2" />
+              Gerar lote PIX
+            </Button>
+            <Button
+              onClick={() => setPaymentModalOpen(true)}
+              disabled={selectedEarnings.length === 0}
+            >
+              <CreditCardIcon className="w-4 h-4 mr-2" />
+              Registrar pagamento{selectedEarnings.length > 0 ? ` (${selectedEarnings.length})` : ''}
+            </Button>
+          </div>
+        )}
       </div>
 
       {/* Stats Cards */}
@@ -265,6 +492,8 @@ const EarningListPage: React.FC = () => {
                 <option value="all">Todos os status</option>
                 <option value="PENDENTE">Pendente</option>
                 <option value="PAGO">Pago</option>
+                <option value="CANCELADO">Cancelado</option>
+                <option value="ESTORNADO">Estornado</option>
               </select>
 
               <select
@@ -301,6 +530,25 @@ const EarningListPage: React.FC = () => {
           />
         </CardContent>
       </Card>
+
+      {isAdmin && (
+        <EarningPaymentModal
+          open={paymentModalOpen}
+          onOpenChange={setPaymentModalOpen}
+          earnings={selectedEarnings}
+          onSubmit={handleRegisterPayment}
+          loading={isRegisteringPayment}
+        />
+      )}
+
+      <EarningHistoryModal
+        open={!!historyEarning}
+        onOpenChange={(open) => !open && setHistoryEarning(null)}
+        earning={historyEarning}
+        canManage={isAdmin}
+        onStatusChange={handleStatusChange}
+        loading={isChangingStatus}
+      />
     </motion.div>
   )
 }
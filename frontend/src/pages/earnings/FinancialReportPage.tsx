@@ -9,45 +9,136 @@
 import React, { useState } from 'react'
 import { motion } from 'framer-motion'
 import { useQuery } from '@tanstack/react-query'
-import { 
-  DownloadIcon, 
-  CalendarIcon, 
+import {
+  DownloadIcon,
+  CalendarIcon,
   DollarSignIcon,
   TrendingUpIcon,
   FileSpreadsheetIcon,
-  BarChartIcon
+  FileTextIcon,
+  BarChartIcon,
+  LineChartIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import EarningChart from '@/components/charts/EarningChart'
+import StatusBadge from '@/components/ui/StatusBadge'
 import { earningService } from '@/services/earningService'
 import { useToast } from '@/hooks/useToast'
-import { formatCurrency, formatDateForInput, downloadAsCsv, downloadAsJson } from '@/lib/utils'
+import { EarningProjection, FinancialReportBucket, FinancialReportGroupBy } from '@/types'
+import {
+  formatCurrency,
+  formatDate,
+  formatDateForInput,
+  formatCNPJ,
+  downloadAsCsv,
+  downloadAsJson,
+  getErrorMessage
+} from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 
+interface ReportFilters {
+  startDate: string
+  endDate: string
+  groupBy: FinancialReportGroupBy
+  includeDetails: boolean
+}
+
+/**
+ * Converte as datas do formulário (dia local) para o intervalo ISO esperado pela API
+ */
+const toReportOptions = (filters: ReportFilters) => ({
+  startDate: filters.startDate ? new Date(`${filters.startDate}T00:00:00`).toISOString() : undefined,
+  endDate: filters.endDate ? new Date(`${filters.endDate}T23:59:59.999`).toISOString() : undefined,
+  groupBy: filters.groupBy,
+  includeDetails: filters.includeDetails,
+})
+
+const toChartData = (buckets: FinancialReportBucket[]) => buckets.map(bucket => ({
+  period: bucket.label,
+  total: bucket.totalAmount,
+  paid: bucket.paidAmount,
+  pending: bucket.pendingAmount,
+  seller: bucket.sellerAmount,
+  manager: bucket.managerAmount,
+}))
+
+const BreakdownTable: React.FC<{
+  buckets: FinancialReportBucket[]
+  label: string
+  renderLabel?: (bucket: FinancialReportBucket) => React.ReactNode
+}> = ({ buckets, label, renderLabel }) => {
+  if (buckets.length === 0) {
+    return <p className="py-6 text-center text-sm text-gray-500">Nenhum earning no período</p>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left p-2">{label}</th>
+            <th className="text-right p-2">Qtd.</th>
+            <th className="text-right p-2">Pago (bruto)</th>
+            <th className="text-right p-2">Retido</th>
+            <th className="text-right p-2">Pago (líquido)</th>
+            <th className="text-right p-2">Pendente</th>
+            <th className="text-right p-2">Total</th>
+            <th className="text-right p-2">Cancelado/Estornado</th>
+          </tr>
+        </thead>
+        <tbody>
+          {buckets.map(bucket => (
+            <tr key={bucket.key} className="border-b hover:bg-gray-50">
+              <td className="p-2">{renderLabel ? renderLabel(bucket) : bucket.label}</td>
+              <td className="p-2 text-right">{bucket.count}</td>
+              <td className="p-2 text-right text-green-600">{formatCurrency(bucket.paidAmount)}</td>
+              <td className="p-2 text-right text-red-600">{formatCurrency(bucket.withheldAmount)}</td>
+              <td className="p-2 text-right text-green-700">{formatCurrency(bucket.netPaidAmount)}</td>
+              <td className="p-2 text-right text-yellow-600">{formatCurrency(bucket.pendingAmount)}</td>
+              <td className="p-2 text-right font-medium">{formatCurrency(bucket.totalAmount)}</td>
+              <td className="p-2 text-right text-gray-500">
+                {formatCurrency(bucket.cancelledAmount + bucket.reversedAmount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 const FinancialReportPage: React.FC = () => {
   const { toast } = useToast()
-  const [filters, setFilters] = useState({
-    startDate: formatDateForInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+  const [filters, setFilters] = useState<ReportFilters>({
+    startDate: formatDateForInput(new Date(new Date().getFullYear(), new Date().getMonth(), 1)),
     endDate: formatDateForInput(new Date()),
-    groupBy: 'day' as 'day' | 'week' | 'month' | 'campaign' | 'user',
+    groupBy: 'day',
     includeDetails: true,
   })
+  const [appliedFilters, setAppliedFilters] = useState<ReportFilters>(filters)
+  const [exporting, setExporting] = useState<'xlsx' | 'pdf' | null>(null)
+  const [projectionPeriod, setProjectionPeriod] = useState<EarningProjection['projectionPeriod']>('week')
 
-  const { data: reportData, isLoading } = useQuery({
-    queryKey: ['financial-report', filters],
-    queryFn: () => earningService.generateFinancialReport(filters),
+  const { data: reportData, isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['financial-report', appliedFilters],
+    queryFn: () => earningService.generateFinancialReport(toReportOptions(appliedFilters)),
   })
 
-  const { data: financialSummary } = useQuery({
-    queryKey: ['financial-summary'],
-    queryFn: () => earningService.getFinancialSummary('30d'),
+  const { data: projection, isLoading: isLoadingProjection } = useQuery({
+    queryKey: ['earning-projection', projectionPeriod],
+    queryFn: () => earningService.getEarningProjection({
+      projectionPeriod,
+      basePeriod: 'last_month',
+      includeProjectedCampaigns: true,
+    }),
   })
 
-  const handleDownload = (format: 'csv' | 'json' | 'excel') => {
+  const handleDownload = (format: 'csv' | 'json') => {
     if (!reportData) return
 
     switch (format) {
@@ -59,21 +150,41 @@ const FinancialReportPage: React.FC = () => {
         downloadAsJson(reportData, `relatorio-financeiro-${Date.now()}`)
         toast.success('Relatório JSON baixado com sucesso!')
         break
-      case 'excel':
-        toast.info('Download de Excel será implementado em breve')
-        break
+    }
+  }
+
+  const handleExport = async (format: 'xlsx' | 'pdf') => {
+    setExporting(format)
+    try {
+      await earningService.downloadFinancialReport(toReportOptions(appliedFilters), format)
+      toast.success(format === 'xlsx' ? 'Planilha baixada com sucesso!' : 'PDF baixado com sucesso!')
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao exportar relatório')
+    } finally {
+      setExporting(null)
     }
   }
 
   const generateReport = () => {
-    // Trigger refetch
-    window.location.reload()
+    if (filters.startDate && filters.endDate && filters.startDate > filters.endDate) {
+      toast.error('A data de início deve ser anterior à data de término', 'Período inválido')
+      return
+    }
+
+    if (JSON.stringify(filters) === JSON.stringify(appliedFilters)) {
+      refetch()
+    } else {
+      setAppliedFilters(filters)
+    }
   }
 
   if (isLoading) {
     return <LoadingScreen message="Gerando relatório financeiro..." />
   }
 
+  const summary = reportData?.summary
+  const breakdown = reportData?.breakdown
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
@@ -85,13 +196,16 @@ const FinancialReportPage: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Relatórios Financeiros</h1>
           <p className="text-gray-600">
-            Análise completa de earnings, pagamentos e projeções
+            {reportData
+              ? `Período de ${formatDate(reportData.period.startDate)} a ${formatDate(reportData.period.endDate)}` +
+                (reportData.scope === 'team' ? ' · sua equipe' : '')
+              : 'Análise completa de earnings e pagamentos'}
           </p>
         </div>
       </div>
 
       {/* Summary Cards */}
-      {financialSummary && (
+      {summary && (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
             <CardContent className="p-4">
@@ -100,9 +214,9 @@ const FinancialReportPage: React.FC = () => {
                   <DollarSignIcon className="w-5 h-5 text-blue-600" />
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-gray-600">Total Acumulado</p>
+                  <p className="text-sm font-medium text-gray-600">Total Devido</p>
                   <p className="text-xl font-bold text-blue-600">
-                    {formatCurrency(financialSummary.summary.totalAccumulated)}
+                    {formatCurrency(summary.totalAmount)}
                   </p>
                 </div>
               </div>
@@ -116,9 +230,12 @@ const FinancialReportPage: React.FC = () => {
                   <TrendingUpIcon className="w-5 h-5 text-green-600" />
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-gray-600">Pago Este Mês</p>
+                  <p className="text-sm font-medium text-gray-600">Pago (bruto)</p>
                   <p className="text-xl font-bold text-green-600">
-                    {formatCurrency(financialSummary.summary.paidThisMonth)}
+                    {formatCurrency(summary.paidAmount)}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Retido {formatCurrency(summary.withheldAmount)} · Líquido {formatCurrency(summary.netPaidAmount)}
                   </p>
                 </div>
               </div>
@@ -134,7 +251,7 @@ const FinancialReportPage: React.FC = () => {
                 <div>
                   <p className="text-sm font-medium text-gray-600">Pendente</p>
                   <p className="text-xl font-bold text-yellow-600">
-                    {formatCurrency(financialSummary.summary.totalPending)}
+                    {formatCurrency(summary.pendingAmount)}
                   </p>
                 </div>
               </div>
@@ -148,10 +265,15 @@ const FinancialReportPage: React.FC = () => {
                   <BarChartIcon className="w-5 h-5 text-purple-600" />
                 </div>
                 <div>
-                  <p className="text-sm font-medium text-gray-600">Média Mensal</p>
+                  <p className="text-sm font-medium text-gray-600">Média por Earning</p>
                   <p className="text-xl font-bold text-purple-600">
-                    {formatCurrency(financialSummary.summary.monthlyAverage)}
+                    {formatCurrency(summary.averageEarning)}
                   </p>
+                  {(summary.cancelledAmount > 0 || summary.reversedAmount > 0) && (
+                    <p className="text-xs text-gray-500">
+                      {formatCurrency(summary.cancelledAmount + summary.reversedAmount)} cancelado/estornado
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -190,7 +312,7 @@ const FinancialReportPage: React.FC = () => {
               <Label>Agrupar Por</Label>
               <Select
                 value={filters.groupBy}
-                onValueChange={(value: any) => setFilters(prev => ({ ...prev, groupBy: value }))}
+                onValueChange={(value: FinancialReportGroupBy) => setFilters(prev => ({ ...prev, groupBy: value }))}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -199,8 +321,8 @@ const FinancialReportPage: React.FC = () => {
                   <SelectItem value="day">Dia</SelectItem>
                   <SelectItem value="week">Semana</SelectItem>
                   <SelectItem value="month">Mês</SelectItem>
-                  <SelectItem value="campaign">Campanha</SelectItem>
-                  <SelectItem value="user">Usuário</SelectItem>
+                  <SelectItem value="quarter">Trimestre</SelectItem>
+                  <SelectItem value="year">Ano</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -218,7 +340,7 @@ const FinancialReportPage: React.FC = () => {
               </Label>
             </div>
 
-            <Button onClick={generateReport} className="w-full">
+            <Button onClick={generateReport} className="w-full" loading={isFetching}>
               <BarChartIcon className="w-4 h-4 mr-2" />
               Gerar Relatório
             </Button>
@@ -226,33 +348,47 @@ const FinancialReportPage: React.FC = () => {
             <div className="pt-4 border-t space-y-2">
               <p className="text-sm font-medium text-gray-700">Exportar:</p>
               <div className="space-y-2">
-                <Button 
-                  variant="outline" 
-                  size="sm" 
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => handleExport('xlsx')}
+                  loading={exporting === 'xlsx'}
+                  disabled={!!exporting}
+                >
+                  <FileSpreadsheetIcon className="w-4 h-4 mr-2" />
+                  Baixar Excel (XLSX)
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full justify-start"
+                  onClick={() => handleExport('pdf')}
+                  loading={exporting === 'pdf'}
+                  disabled={!!exporting}
+                >
+                  <FileTextIcon className="w-4 h-4 mr-2" />
+                  Baixar PDF
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
                   className="w-full justify-start"
                   onClick={() => handleDownload('csv')}
+                  disabled={!reportData?.details?.length}
                 >
                   <FileSpreadsheetIcon className="w-4 h-4 mr-2" />
                   Baixar CSV
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
+                <Button
+                  variant="outline"
+                  size="sm"
                   className="w-full justify-start"
                   onClick={() => handleDownload('json')}
                 >
                   <DownloadIcon className="w-4 h-4 mr-2" />
                   Baixar JSON
                 </Button>
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  className="w-full justify-start"
-                  onClick={() => handleDownload('excel')}
-                >
-                  <FileSpreadsheetIcon className="w-4 h-4 mr-2" />
-                  Baixar Excel
-                </Button>
               </div>
             </div>
           </CardContent>
@@ -261,9 +397,9 @@ const FinancialReportPage: React.FC = () => {
         {/* Charts and Data - 3/4 */}
         <div className="lg:col-span-3 space-y-6">
           {/* Earnings Over Time Chart */}
-          {reportData?.chartData && (
+          {breakdown && (
             <EarningChart
-              data={reportData.chartData}
+              data={toChartData(breakdown.byPeriod)}
               title="Earnings ao Longo do Tempo"
               type="area"
               height={350}
@@ -274,57 +410,224 @@ const FinancialReportPage: React.FC = () => {
           {/* Breakdown Charts */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <EarningChart
-              data={reportData?.breakdownData || []}
-              title="Breakdown por Tipo"
+              data={toChartData(breakdown?.byType || [])}
+              title="Pago x Pendente"
               type="pie"
               height={250}
             />
 
             <EarningChart
-              data={reportData?.trendData || []}
-              title="Tendência Mensal"
+              data={toChartData(breakdown?.byCampaign || [])}
+              title="Por Campanha"
               type="bar"
               height={250}
             />
           </div>
 
+          {/* Breakdown Tables */}
+          {breakdown && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Totais por Agrupamento</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="period" className="space-y-4">
+                  <TabsList>
+                    <TabsTrigger value="period">Período</TabsTrigger>
+                    <TabsTrigger value="campaign">Campanha</TabsTrigger>
+                    <TabsTrigger value="optic">Ótica</TabsTrigger>
+                    <TabsTrigger value="manager">Gerente</TabsTrigger>
+                    <TabsTrigger value="type">Tipo</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="period">
+                    <BreakdownTable buckets={breakdown.byPeriod} label="Período" />
+                  </TabsContent>
+                  <TabsContent value="campaign">
+                    <BreakdownTable buckets={breakdown.byCampaign} label="Campanha" />
+                  </TabsContent>
+                  <TabsContent value="optic">
+                    <BreakdownTable
+                      buckets={breakdown.byOptic}
+                      label="Ótica"
+                      renderLabel={(bucket) => (
+                        <div>
+                          <p>{bucket.label}</p>
+                          <p className="text-xs text-gray-500">{formatCNPJ(bucket.key)}</p>
+                        </div>
+                      )}
+                    />
+                  </TabsContent>
+                  <TabsContent value="manager">
+                    <BreakdownTable buckets={breakdown.byManager} label="Gerente" />
+                  </TabsContent>
+                  <TabsContent value="type">
+                    <BreakdownTable buckets={breakdown.byType} label="Tipo" />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Projection */}
+          <Card>
+            <CardHeader>
+              <div className="flex justify-between items-center">
+                <CardTitle className="flex items-center">
+                  <LineChartIcon className="w-5 h-5 mr-2" />
+                  Projeção até o Fim das Campanhas
+                </CardTitle>
+                <Select
+                  value={projectionPeriod}
+                  onValueChange={(value: EarningProjection['projectionPeriod']) => setProjectionPeriod(value)}
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="week">Por semana</SelectItem>
+                    <SelectItem value="month">Por mês</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {isLoadingProjection ? (
+                <div className="flex justify-center py-6">
+                  <div className="w-6 h-6 border-4 border-eps-600 border-t-transparent rounded-full animate-spin" />
+                </div>
+              ) : !projection || projection.periods.length === 0 ? (
+                <p className="py-6 text-center text-sm text-gray-500">
+                  Nenhuma campanha ativa com vendas recentes para projetar
+                </p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <p className="text-sm text-gray-600">Pagamento esperado</p>
+                      <p className="text-xl font-bold text-blue-600">{formatCurrency(projection.totals.expected)}</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600">
+                        Faixa de {Math.round(projection.confidenceLevel * 100)}% de confiança
+                      </p>
+                      <p className="text-xl font-bold text-gray-900">
+                        {formatCurrency(projection.totals.low)} – {formatCurrency(projection.totals.high)}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-600">Submissões aguardando validação</p>
+                      <p className="text-xl font-bold text-yellow-600">
+                        {formatCurrency(projection.totals.pendingPipeline)}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left p-2">Período</th>
+                          <th className="text-right p-2">Esperado</th>
+                          <th className="text-right p-2">Mínimo</th>
+                          <th className="text-right p-2">Máximo</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {projection.periods.map(period => (
+                          <tr key={period.key} className="border-b hover:bg-gray-50">
+                            <td className="p-2">{period.label}</td>
+                            <td className="p-2 text-right font-medium">{formatCurrency(period.expected)}</td>
+                            <td className="p-2 text-right text-gray-500">{formatCurrency(period.low)}</td>
+                            <td className="p-2 text-right text-gray-500">{formatCurrency(period.high)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  {projection.campaigns && projection.campaigns.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left p-2">Campanha</th>
+                            <th className="text-right p-2">Kits abertos</th>
+                            <th className="text-right p-2">Kits a concluir</th>
+                            <th className="text-right p-2">Esperado</th>
+                            <th className="text-right p-2">Faixa</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {projection.campaigns.map(campaign => (
+                            <tr key={campaign.campaignId} className="border-b hover:bg-gray-50">
+                              <td className="p-2">
+                                <p>{campaign.title}</p>
+                                <p className="text-xs text-gray-500">
+                                  Termina em {formatDate(campaign.endDate)} ({campaign.daysRemaining} dias)
+                                </p>
+                              </td>
+                              <td className="p-2 text-right">{campaign.openKits}</td>
+                              <td className="p-2 text-right">{campaign.expectedKitCompletions}</td>
+                              <td className="p-2 text-right font-medium">{formatCurrency(campaign.expected)}</td>
+                              <td className="p-2 text-right text-gray-500">
+                                {formatCurrency(campaign.low)} – {formatCurrency(campaign.high)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  <p className="text-xs text-gray-500">
+                    Baseada no ritmo de vendas validadas de cada vendedor nos últimos 30 dias, por meta,
+                    até a conclusão do kit ou o fim da campanha.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Detailed Table */}
           {reportData?.details && (
             <Card>
               <CardHeader>
-                <CardTitle>Detalhes do Relatório</CardTitle>
+                <CardTitle>Lançamentos</CardTitle>
               </CardHeader>
               <CardContent>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
                     <thead>
                       <tr className="border-b">
-                        <th className="text-left p-2">Período</th>
-                        <th className="text-right p-2">Total</th>
-                        <th className="text-right p-2">Pago</th>
-                        <th className="text-right p-2">Pendente</th>
-                        <th className="text-right p-2">Vendedor</th>
-                        <th className="text-right p-2">Gerente</th>
+                        <th className="text-left p-2">Data</th>
+                        <th className="text-left p-2">Usuário</th>
+                        <th className="text-left p-2">Campanha</th>
+                        <th className="text-left p-2">Ótica</th>
+                        <th className="text-left p-2">Status</th>
+                        <th className="text-right p-2">Bruto</th>
+                        <th className="text-right p-2">Retido</th>
+                        <th className="text-right p-2">Líquido</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {reportData.details.slice(0, 10).map((item: any, index: number) => (
-                        <tr key={index} className="border-b hover:bg-gray-50">
-                          <td className="p-2">{item.period}</td>
-                          <td className="p-2 text-right font-medium">
-                            {formatCurrency(item.total)}
-                          </td>
-                          <td className="p-2 text-right text-green-600">
-                            {formatCurrency(item.paid)}
+                      {reportData.details.slice(0, 10).map(item => (
+                        <tr key={item.id} className="border-b hover:bg-gray-50">
+                          <td className="p-2">{formatDate(item.earningDate)}</td>
+                          <td className="p-2">{item.userName}</td>
+                          <td className="p-2">{item.campaignTitle}</td>
+                          <td className="p-2">{item.opticName}</td>
+                          <td className="p-2">
+                            <StatusBadge status={item.status} type="earning" />
                           </td>
-                          <td className="p-2 text-right text-yellow-600">
-                            {formatCurrency(item.pending)}
+                          <td className="p-2 text-right font-medium">
+                            {formatCurrency(item.amount)}
                           </td>
-                          <td className="p-2 text-right text-blue-600">
-                            {formatCurrency(item.seller || 0)}
+                          <td className="p-2 text-right text-gray-600">
+                            {item.withheldAmount !== null ? formatCurrency(item.withheldAmount) : '-'}
                           </td>
-                          <td className="p-2 text-right text-purple-600">
-                            {formatCurrency(item.manager || 0)}
+                          <td className="p-2 text-right">
+                            {item.netAmount !== null ? formatCurrency(item.netAmount) : '-'}
                           </td>
                         </tr>
                       ))}
@@ -0,0 +1,240 @@
+/**
+ * @file pages/earnings/PayoutBatchesPage.tsx
+ * @version 2.0.0
+ * @description Página de lotes de pagamento PIX (arquivos para o banco)
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  ArrowLeftIcon,
+  CheckIcon,
+  FileSpreadsheetIcon,
+  FileTextIcon,
+  XIcon
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import DataTable from '@/components/ui/DataTable'
+import ConfirmDialog from '@/components/modals/ConfirmDialog'
+import StatusBadge from '@/components/ui/StatusBadge'
+import { earningService } from '@/services/earningService'
+import { useToast } from '@/hooks/useToast'
+import { PayoutBatch, PayoutBatchStatus, TableColumn } from '@/types'
+import { formatCurrency, formatDateTime, getErrorMessage } from '@/lib/utils'
+
+type BatchAction = 'confirm' | 'cancel'
+
+const PayoutBatchesPage: React.FC = () => {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [filters, setFilters] = useState({
+    page: 1,
+    limit: 20,
+    status: 'all' as PayoutBatchStatus | 'all',
+  })
+  const [actionDialog, setActionDialog] = useState<{ batch: PayoutBatch | null; action: BatchAction | null }>({
+    batch: null,
+    action: null,
+  })
+
+  const { data: batchesResponse, isLoading } = useQuery({
+    queryKey: ['payout-batches', filters],
+    queryFn: () => earningService.getPayoutBatches({
+      page: filters.page,
+      limit: filters.limit,
+      status: filters.status === 'all' ? undefined : filters.status,
+    }),
+  })
+
+  const batchActionMutation = useMutation({
+    mutationFn: ({ batch, action }: { batch: PayoutBatch; action: BatchAction }) =>
+      action === 'confirm'
+        ? earningService.confirmPayoutBatch(batch.id)
+        : earningService.cancelPayoutBatch(batch.id),
+    onSuccess: (batch, { action }) => {
+      toast.success(
+        action === 'confirm'
+          ? `Lote ${batch.code} confirmado e earnings marcados como pagos`
+          : `Lote ${batch.code} cancelado e earnings liberados`
+      )
+      setActionDialog({ batch: null, action: null })
+      queryClient.invalidateQueries({ queryKey: ['payout-batches'] })
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      queryClient.invalidateQueries({ queryKey: ['earning-stats'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao atualizar lote')
+    },
+  })
+
+  const handleDownload = async (batch: PayoutBatch, format: 'csv' | 'remessa') => {
+    try {
+      await earningService.downloadPayoutBatchFile(batch, format)
+    } catch (error) {
+      toast.error(getErrorMessage(error), 'Erro ao baixar arquivo do lote')
+    }
+  }
+
+  const confirmAction = () => {
+    if (!actionDialog.batch || !actionDialog.action) return
+    batchActionMutation.mutate({ batch: actionDialog.batch, action: actionDialog.action })
+  }
+
+  const columns: TableColumn<PayoutBatch>[] = [
+    {
+      key: 'code',
+      label: 'Lote',
+      render: (batch) => (
+        <div>
+          <p className="text-sm font-mono font-medium">{batch.code}</p>
+          <p className="text-xs text-gray-500">{formatDateTime(batch.createdAt)}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (batch) => <StatusBadge status={batch.status} type="payout" />,
+    },
+    {
+      key: 'itemCount',
+      label: 'Favorecidos',
+      render: (batch) => (
+        <div>
+          <p className="text-sm">{batch.itemCount}</p>
+          <p className="text-xs text-gray-500">{batch.earningCount} earning(s)</p>
+        </div>
+      ),
+    },
+    {
+      key: 'totalAmount',
+      label: 'Total líquido',
+      render: (batch) => (
+        <span className="font-bold text-green-600">{formatCurrency(batch.totalAmount)}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Ações',
+      render: (batch) => (
+        <div className="flex flex-wrap gap-2">
+          {batch.status !== 'CANCELADO' && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => handleDownload(batch, 'csv')}>
+                <FileSpreadsheetIcon className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleDownload(batch, 'remessa')}>
+                <FileTextIcon className="w-4 h-4 mr-1" />
+                Remessa
+              </Button>
+            </>
+          )}
+          {batch.status === 'GERADO' && (
+            <>
+              <Button size="sm" onClick={() => setActionDialog({ batch, action: 'confirm' })}>
+                <CheckIcon className="w-4 h-4 mr-1" />
+                Confirmar
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="text-red-600"
+                onClick={() => setActionDialog({ batch, action: 'cancel' })}
+              >
+                <XIcon className="w-4 h-4 mr-1" />
+                Cancelar
+              </Button>
+            </>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  const pendingBatch = actionDialog.batch
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Lotes PIX</h1>
+          <p className="text-gray-600">
+            Gere os arquivos de pagamento para o banco e confirme após a liquidação
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/app/earnings">
+            <ArrowLeftIcon className="w-4 h-4 mr-2" />
+            Voltar para earnings
+          </Link>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <select
+            value={filters.status}
+            onChange={(e) => setFilters(prev => ({
+              ...prev,
+              status: e.target.value as PayoutBatchStatus | 'all',
+              page: 1,
+            }))}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+          >
+            <option value="all">Todos os status</option>
+            <option value="GERADO">Aguardando banco</option>
+            <option value="CONFIRMADO">Confirmado</option>
+            <option value="CANCELADO">Cancelado</option>
+          </select>
+        </CardContent>
+      </Card>
+
+      {/* Data Table */}
+      <Card>
+        <CardContent className="p-0">
+          <DataTable
+            data={batchesResponse?.data || []}
+            columns={columns}
+            loading={isLoading}
+            pagination={batchesResponse?.pagination}
+            onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            emptyMessage="Nenhum lote de pagamento gerado"
+          />
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={!!pendingBatch}
+        onOpenChange={(open) => {
+          if (!open) setActionDialog({ batch: null, action: null })
+        }}
+        title={actionDialog.action === 'confirm' ? 'Confirmar lote PIX' : 'Cancelar lote PIX'}
+        description={
+          actionDialog.action === 'confirm'
+            ? `Confirme somente após o banco liquidar o lote ${pendingBatch?.code}. ` +
+              `${pendingBatch?.earningCount} earning(s) serão marcados como pagos (${formatCurrency(pendingBatch?.totalAmount || 0)}).`
+            : `Os earnings do lote ${pendingBatch?.code} voltarão a ficar disponíveis para pagamento.`
+        }
+        confirmLabel={actionDialog.action === 'confirm' ? 'Confirmar pagamento' : 'Cancelar lote'}
+        cancelLabel="Voltar"
+        variant={actionDialog.action === 'confirm' ? 'success' : 'destructive'}
+        loading={batchActionMutation.isPending}
+        onConfirm={confirmAction}
+      />
+    </motion.div>
+  )
+}
+
+export default PayoutBatchesPage
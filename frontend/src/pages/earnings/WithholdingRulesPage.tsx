@@ -0,0 +1,392 @@
+/**
+ * @file pages/earnings/WithholdingRulesPage.tsx
+ * @version 2.0.0
+ * @description Página de regras de retenção na fonte aplicadas nos pagamentos de earnings
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { ArrowLeftIcon, EditIcon, PlusIcon, TrashIcon } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import DataTable from '@/components/ui/DataTable'
+import ConfirmDialog from '@/components/modals/ConfirmDialog'
+import { earningService } from '@/services/earningService'
+import { useToast } from '@/hooks/useToast'
+import { PayeeType, TableColumn, UserRole, WithholdingRule, WithholdingRuleFormData } from '@/types'
+import { formatCurrency, getErrorMessage } from '@/lib/utils'
+
+const ROLE_LABELS: Partial<Record<UserRole, string>> = {
+  [UserRole.VENDEDOR]: 'Vendedor',
+  [UserRole.GERENTE]: 'Gerente',
+}
+
+const PAYEE_TYPE_LABELS: Record<PayeeType, string> = {
+  PESSOA_FISICA: 'Pessoa física',
+  PESSOA_JURIDICA: 'Pessoa jurídica',
+}
+
+const EMPTY_FORM = {
+  name: '',
+  code: '',
+  role: '' as UserRole | '',
+  payeeType: '' as PayeeType | '',
+  rate: '',
+  minimumBase: '',
+  maximumAmount: '',
+  description: '',
+  isActive: true,
+}
+
+type RuleForm = typeof EMPTY_FORM
+
+const toForm = (rule: WithholdingRule): RuleForm => ({
+  name: rule.name,
+  code: rule.code,
+  role: rule.role || '',
+  payeeType: rule.payeeType || '',
+  rate: String(rule.rate),
+  minimumBase: rule.minimumBase ? String(rule.minimumBase) : '',
+  maximumAmount: rule.maximumAmount !== null ? String(rule.maximumAmount) : '',
+  description: rule.description || '',
+  isActive: rule.isActive,
+})
+
+const toPayload = (form: RuleForm): WithholdingRuleFormData => ({
+  name: form.name.trim(),
+  code: form.code.trim().toUpperCase(),
+  role: form.role || null,
+  payeeType: form.payeeType || null,
+  rate: Number(form.rate.replace(',', '.')),
+  minimumBase: form.minimumBase ? Number(form.minimumBase.replace(',', '.')) : 0,
+  maximumAmount: form.maximumAmount ? Number(form.maximumAmount.replace(',', '.')) : null,
+  description: form.description.trim() || null,
+  isActive: form.isActive,
+})
+
+const WithholdingRulesPage: React.FC = () => {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<WithholdingRule | null>(null)
+  const [formOpen, setFormOpen] = useState(false)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+  const [deleting, setDeleting] = useState<WithholdingRule | null>(null)
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ['withholding-rules'],
+    queryFn: () => earningService.getWithholdingRules(),
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (data: WithholdingRuleFormData) =>
+      editing
+        ? earningService.updateWithholdingRule(editing.id, data)
+        : earningService.createWithholdingRule(data),
+    onSuccess: (rule) => {
+      toast.success(`Regra ${rule.code} ${editing ? 'atualizada' : 'criada'} com sucesso`)
+      setFormOpen(false)
+      queryClient.invalidateQueries({ queryKey: ['withholding-rules'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao salvar regra de retenção')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (rule: WithholdingRule) => earningService.deleteWithholdingRule(rule.id),
+    onSuccess: () => {
+      toast.success('Regra de retenção excluída')
+      setDeleting(null)
+      queryClient.invalidateQueries({ queryKey: ['withholding-rules'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao excluir regra de retenção')
+    },
+  })
+
+  const openForm = (rule: WithholdingRule | null) => {
+    setEditing(rule)
+    setForm(rule ? toForm(rule) : EMPTY_FORM)
+    setFormOpen(true)
+  }
+
+  const updateField = <K extends keyof RuleForm>(field: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const rate = Number(form.rate.replace(',', '.'))
+  const canSubmit = form.name.trim().length >= 2 && form.code.trim().length >= 2 &&
+    form.rate !== '' && rate >= 0 && rate <= 100
+
+  const columns: TableColumn<WithholdingRule>[] = [
+    {
+      key: 'code',
+      label: 'Regra',
+      render: (rule) => (
+        <div>
+          <p className="text-sm font-mono font-medium">{rule.code}</p>
+          <p className="text-xs text-gray-500">{rule.name}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'role',
+      label: 'Aplica-se a',
+      render: (rule) => (
+        <div className="text-sm">
+          <p>{rule.role ? ROLE_LABELS[rule.role] : 'Todos os perfis'}</p>
+          <p className="text-xs text-gray-500">
+            {rule.payeeType ? PAYEE_TYPE_LABELS[rule.payeeType] : 'PF e PJ'}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'rate',
+      label: 'Alíquota',
+      render: (rule) => <span className="font-medium">{rule.rate.toLocaleString('pt-BR')}%</span>,
+    },
+    {
+      key: 'minimumBase',
+      label: 'Base mínima / teto',
+      render: (rule) => (
+        <div className="text-sm">
+          <p>{rule.minimumBase > 0 ? formatCurrency(rule.minimumBase) : '-'}</p>
+          <p className="text-xs text-gray-500">
+            {rule.maximumAmount !== null ? `Teto ${formatCurrency(rule.maximumAmount)}` : 'Sem teto'}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'isActive',
+      label: 'Status',
+      render: (rule) => (
+        <Badge variant={rule.isActive ? 'success' : 'outline'}>{rule.isActive ? 'Ativa' : 'Inativa'}</Badge>
+      ),
+    },
+    {
+      key: 'actions',
+      label: 'Ações',
+      render: (rule) => (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => openForm(rule)}>
+            <EditIcon className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="text-red-600" onClick={() => setDeleting(rule)}>
+            <TrashIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      ),
+    },
+  ]
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Retenções na fonte</h1>
+          <p className="text-gray-600">
+            Alíquotas descontadas no pagamento de vendedores e gerentes; o recibo mostra bruto, retido e líquido
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link to="/app/earnings">
+              <ArrowLeftIcon className="w-4 h-4 mr-2" />
+              Voltar para earnings
+            </Link>
+          </Button>
+          <Button onClick={() => openForm(null)}>
+            <PlusIcon className="w-4 h-4 mr-2" />
+            Nova regra
+          </Button>
+        </div>
+      </div>
+
+      {/* Data Table */}
+      <Card>
+        <CardContent className="p-0">
+          <DataTable
+            data={rules}
+            columns={columns}
+            loading={isLoading}
+            emptyMessage="Nenhuma regra de retenção cadastrada: pagamentos saem pelo valor bruto"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? `Editar regra ${editing.code}` : 'Nova regra de retenção'}</DialogTitle>
+            <DialogDescription>
+              Alterações valem para os próximos pagamentos; os já registrados mantêm os valores retidos.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleCode" required>Código</Label>
+                <Input
+                  id="ruleCode"
+                  placeholder="IRRF"
+                  maxLength={20}
+                  value={form.code}
+                  onChange={(e) => updateField('code', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="ruleName" required>Nome</Label>
+                <Input
+                  id="ruleName"
+                  maxLength={100}
+                  value={form.name}
+                  onChange={(e) => updateField('name', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleRole">Perfil</Label>
+                <select
+                  id="ruleRole"
+                  value={form.role}
+                  onChange={(e) => updateField('role', e.target.value as UserRole | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+                >
+                  <option value="">Todos os perfis</option>
+                  {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rulePayeeType">Tipo de favorecido</Label>
+                <select
+                  id="rulePayeeType"
+                  value={form.payeeType}
+                  onChange={(e) => updateField('payeeType', e.target.value as PayeeType | '')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+                >
+                  <option value="">PF e PJ</option>
+                  {Object.entries(PAYEE_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleRate" required>Alíquota (%)</Label>
+                <Input
+                  id="ruleRate"
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={form.rate}
+                  onChange={(e) => updateField('rate', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleMinimumBase">Base mínima (R$)</Label>
+                <Input
+                  id="ruleMinimumBase"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.minimumBase}
+                  onChange={(e) => updateField('minimumBase', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleMaximumAmount">Teto (R$)</Label>
+                <Input
+                  id="ruleMaximumAmount"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={form.maximumAmount}
+                  onChange={(e) => updateField('maximumAmount', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="ruleDescription">Descrição</Label>
+              <Input
+                id="ruleDescription"
+                maxLength={500}
+                value={form.description}
+                onChange={(e) => updateField('description', e.target.value)}
+              />
+            </div>
+
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={form.isActive}
+                onChange={(e) => updateField('isActive', e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-eps-600 focus:ring-eps-500"
+              />
+              <span>Regra ativa</span>
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saveMutation.isPending}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate(toPayload(form))}
+              disabled={!canSubmit}
+              loading={saveMutation.isPending}
+            >
+              Salvar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!deleting}
+        onOpenChange={(open) => {
+          if (!open) setDeleting(null)
+        }}
+        title="Excluir regra de retenção"
+        description={`A regra ${deleting?.code} deixa de ser aplicada nos próximos pagamentos. Para suspender temporariamente, prefira inativá-la.`}
+        confirmLabel="Excluir"
+        cancelLabel="Voltar"
+        variant="destructive"
+        loading={deleteMutation.isPending}
+        onConfirm={() => deleting && deleteMutation.mutate(deleting)}
+      />
+    </motion.div>
+  )
+}
+
+export default WithholdingRulesPage
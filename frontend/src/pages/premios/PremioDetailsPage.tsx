@@ -14,22 +14,57 @@ import {
   ArrowLeftIcon, 
   EditIcon, 
   GiftIcon, 
-  TrophyIcon,
+  TagIcon,
+  TrashIcon,
+  LayersIcon,
   PackageIcon,
   StarIcon,
-  CheckIcon
+  CheckIcon,
+  XIcon,
+  TruckIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import StatusBadge from '@/components/ui/StatusBadge'
+import PremioPriceTag from '@/components/ui/PremioPriceTag'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 import PremioRedeemModal from '@/components/modals/PremioRedeemModal'
 import { premioService } from '@/services/premioService'
 import { useAuth } from '@/hooks/useAuth'
 import { useToast } from '@/hooks/useToast'
-import { UserRole } from '@/types'
-import { formatNumber, getErrorMessage } from '@/lib/utils'
+import { PremioSeason, RedemptionDeliveryAddress, UserRole } from '@/types'
+import { formatDateTime, formatNumber, getErrorMessage } from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 
+const SEASON_OPTIONS: Array<{ value: PremioSeason; label: string }> = [
+  { value: 'mothers_day', label: 'Dia das Mães' },
+  { value: 'fathers_day', label: 'Dia dos Pais' },
+  { value: 'black_friday', label: 'Black Friday' },
+  { value: 'christmas', label: 'Natal' },
+  { value: 'easter', label: 'Páscoa' },
+  { value: 'spring', label: 'Primavera' },
+  { value: 'summer', label: 'Verão' },
+  { value: 'autumn', label: 'Outono' },
+  { value: 'winter', label: 'Inverno' },
+]
+
+const EMPTY_WINDOW_FORM = {
+  season: 'black_friday' as PremioSeason,
+  label: '',
+  multiplier: '0.8',
+  startDate: '',
+  endDate: '',
+}
+
+const EMPTY_VARIANT_FORM = {
+  name: '',
+  sku: '',
+  pointsDelta: '0',
+  stock: '0',
+}
+
 const PremioDetailsPage: React.FC = () => {
   const { id } = useParams<{ id: string }>()
   const navigate = useNavigate()
@@ -37,6 +72,8 @@ const PremioDetailsPage: React.FC = () => {
   const { toast } = useToast()
   const queryClient = useQueryClient()
   const [showRedeemModal, setShowRedeemModal] = useState(false)
+  const [windowForm, setWindowForm] = useState(EMPTY_WINDOW_FORM)
+  const [variantForm, setVariantForm] = useState(EMPTY_VARIANT_FORM)
 
   const { data: premio, isLoading } = useQuery({
     queryKey: ['premio', id],
@@ -50,12 +87,116 @@ const PremioDetailsPage: React.FC = () => {
     enabled: !!id && user?.role === UserRole.VENDEDOR,
   })
 
+  const { data: priceWindows } = useQuery({
+    queryKey: ['premio-price-windows', id],
+    queryFn: () => premioService.getPriceWindows(id!),
+    enabled: !!id && user?.role === UserRole.ADMIN,
+  })
+
+  const invalidatePricing = () => {
+    queryClient.invalidateQueries({ queryKey: ['premio-price-windows', id] })
+    queryClient.invalidateQueries({ queryKey: ['premio', id] })
+    queryClient.invalidateQueries({ queryKey: ['premios'] })
+  }
+
+  const createWindowMutation = useMutation({
+    mutationFn: () => premioService.createPriceWindow(id!, {
+      season: windowForm.season,
+      label: windowForm.label.trim() || undefined,
+      multiplier: Number(windowForm.multiplier),
+      startDate: new Date(windowForm.startDate).toISOString(),
+      endDate: new Date(windowForm.endDate).toISOString(),
+    }),
+    onSuccess: () => {
+      toast.success('Preço sazonal agendado')
+      setWindowForm(EMPTY_WINDOW_FORM)
+      invalidatePricing()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao agendar preço sazonal')
+    },
+  })
+
+  const deleteWindowMutation = useMutation({
+    mutationFn: premioService.deletePriceWindow,
+    onSuccess: () => {
+      toast.success('Preço sazonal removido')
+      invalidatePricing()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao remover preço sazonal')
+    },
+  })
+
+  // Admin vê também as variações inativas
+  const { data: adminVariants } = useQuery({
+    queryKey: ['premio-variants', id],
+    queryFn: () => premioService.getVariants(id!),
+    enabled: !!id && user?.role === UserRole.ADMIN,
+  })
+
+  const invalidateVariants = () => {
+    queryClient.invalidateQueries({ queryKey: ['premio-variants', id] })
+    queryClient.invalidateQueries({ queryKey: ['premio', id] })
+    queryClient.invalidateQueries({ queryKey: ['premios'] })
+  }
+
+  const createVariantMutation = useMutation({
+    mutationFn: () => premioService.createVariant(id!, {
+      name: variantForm.name.trim(),
+      sku: variantForm.sku.trim(),
+      pointsDelta: Number(variantForm.pointsDelta) || 0,
+      stock: Number(variantForm.stock) || 0,
+    }),
+    onSuccess: () => {
+      toast.success('Variação adicionada')
+      setVariantForm(EMPTY_VARIANT_FORM)
+      invalidateVariants()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao adicionar variação')
+    },
+  })
+
+  const toggleVariantMutation = useMutation({
+    mutationFn: ({ variantId, isActive }: { variantId: string; isActive: boolean }) =>
+      premioService.updateVariant(variantId, { isActive }),
+    onSuccess: invalidateVariants,
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao atualizar variação')
+    },
+  })
+
+  const deleteVariantMutation = useMutation({
+    mutationFn: premioService.deleteVariant,
+    onSuccess: () => {
+      toast.success('Variação removida')
+      invalidateVariants()
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao remover variação')
+    },
+  })
+
+  const { data: myRedemptions } = useQuery({
+    queryKey: ['my-redemptions', id],
+    queryFn: () => premioService.getMyRedemptions({ premioId: id!, limit: 20 }),
+    enabled: !!id && user?.role === UserRole.VENDEDOR,
+  })
+
   const redeemMutation = useMutation({
-    mutationFn: premioService.redeemPremio,
+    mutationFn: ({ premioId, ...data }: {
+      premioId: string
+      variantId?: string
+      reservationId?: string
+      deliveryAddress?: RedemptionDeliveryAddress
+      notes?: string
+    }) => premioService.redeemPremio(premioId, data),
     onSuccess: () => {
-      toast.success('Prêmio resgatado com sucesso!', 'Parabéns! 🎉')
+      toast.success('Resgate solicitado! Acompanhe o status da entrega abaixo.', 'Parabéns! 🎉')
       queryClient.invalidateQueries({ queryKey: ['premio', id] })
       queryClient.invalidateQueries({ queryKey: ['can-redeem', id] })
+      queryClient.invalidateQueries({ queryKey: ['my-redemptions', id] })
       queryClient.invalidateQueries({ queryKey: ['premios'] })
       setShowRedeemModal(false)
     },
@@ -64,8 +205,28 @@ const PremioDetailsPage: React.FC = () => {
     },
   })
 
-  const handleRedeem = async (data: { premioId: string; notes?: string }) => {
-    await redeemMutation.mutateAsync(data.premioId, { notes: data.notes })
+  const cancelRedemptionMutation = useMutation({
+    mutationFn: (redemptionId: string) =>
+      premioService.cancelRedemption(redemptionId, 'Cancelado pelo solicitante'),
+    onSuccess: () => {
+      toast.success('Resgate cancelado e pontos devolvidos')
+      queryClient.invalidateQueries({ queryKey: ['premio', id] })
+      queryClient.invalidateQueries({ queryKey: ['can-redeem', id] })
+      queryClient.invalidateQueries({ queryKey: ['my-redemptions', id] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao cancelar resgate')
+    },
+  })
+
+  const handleRedeem = async (data: {
+    premioId: string
+    variantId?: string
+    reservationId?: string
+    deliveryAddress?: RedemptionDeliveryAddress
+    notes?: string
+  }) => {
+    await redeemMutation.mutateAsync(data)
   }
 
   if (isLoading) {
@@ -84,6 +245,7 @@ const PremioDetailsPage: React.FC = () => {
   }
 
   const canRedeem = canRedeemData?.canRedeem && premio.isActive && premio.stock > 0
+  const visibleVariants = user?.role === UserRole.ADMIN ? adminVariants : premio.variants
 
   return (
     <motion.div
@@ -145,10 +307,7 @@ const PremioDetailsPage: React.FC = () => {
                   </div>
 
                   <div className="space-y-3">
-                    <div className="flex items-center space-x-2 text-2xl font-bold text-yellow-600">
-                      <TrophyIcon className="w-6 h-6" />
-                      <span>{formatNumber(premio.pointsRequired)} pontos</span>
-                    </div>
+                    <PremioPriceTag premio={premio} size="lg" />
 
                     <div className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded">
                       <span className="text-sm text-gray-600">Estoque disponível:</span>
@@ -234,6 +393,75 @@ const PremioDetailsPage: React.FC = () => {
               </CardContent>
             </Card>
           )}
+
+          {/* Seller Redemptions */}
+          {user?.role === UserRole.VENDEDOR && myRedemptions && myRedemptions.data.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <TruckIcon className="w-5 h-5 mr-2" />
+                  Meus resgates deste prêmio
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {myRedemptions.data.map((redemption) => (
+                  <div key={redemption.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium">
+                          Solicitado em {formatDateTime(redemption.createdAt)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {redemption.variantName && `${redemption.variantName} • `}
+                          {formatNumber(redemption.pointsRedeemed)} pontos
+                        </p>
+                      </div>
+                      <StatusBadge status={redemption.status} type="redemption" />
+                    </div>
+
+                    {redemption.trackingCode && (
+                      <div className="flex items-center justify-between py-2 px-3 bg-gray-50 rounded">
+                        <span className="text-sm text-gray-600">
+                          Rastreio{redemption.carrier ? ` (${redemption.carrier})` : ''}:
+                        </span>
+                        <span className="font-mono text-sm font-medium">{redemption.trackingCode}</span>
+                      </div>
+                    )}
+
+                    {redemption.cancelReason && (
+                      <p className="text-sm text-gray-600">Motivo do cancelamento: {redemption.cancelReason}</p>
+                    )}
+
+                    {redemption.events && redemption.events.length > 0 && (
+                      <ol className="space-y-1 border-l-2 border-gray-200 pl-3">
+                        {redemption.events.map((event) => (
+                          <li key={event.id} className="text-xs text-gray-600">
+                            <span className="font-medium">{formatDateTime(event.createdAt)}</span>
+                            {' — '}
+                            <StatusBadge status={event.toStatus} type="redemption" className="text-[10px]" />
+                            {event.actorName && <span> por {event.actorName}</span>}
+                            {event.note && <span className="block text-gray-500">{event.note}</span>}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+
+                    {redemption.status === 'SOLICITADO' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => cancelRedemptionMutation.mutate(redemption.id)}
+                        loading={cancelRedemptionMutation.isPending}
+                      >
+                        <XIcon className="w-4 h-4 mr-2" />
+                        Cancelar resgate
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Sidebar - 1/3 */}
@@ -262,6 +490,13 @@ const PremioDetailsPage: React.FC = () => {
                       Editar Prêmio
                     </Link>
                   </Button>
+
+                  <Button asChild className="w-full" variant="outline">
+                    <Link to="/app/premios/redemptions">
+                      <TruckIcon className="w-4 h-4 mr-2" />
+                      Fila de Entregas
+                    </Link>
+                  </Button>
                   
                   <Button className="w-full" variant="outline">
                     <PackageIcon className="w-4 h-4 mr-2" />
@@ -278,6 +513,208 @@ const PremioDetailsPage: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Variants */}
+          {(user?.role === UserRole.ADMIN || !!visibleVariants?.length) && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <LayersIcon className="w-5 h-5 mr-2" />
+                  Opções
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  {visibleVariants?.map((variant) => (
+                    <div key={variant.id} className="flex items-start justify-between p-2 bg-gray-50 rounded">
+                      <div className="min-w-0">
+                        <p className={`text-sm font-medium ${variant.isActive ? '' : 'text-gray-400 line-through'}`}>
+                          {variant.name}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {user?.role === UserRole.ADMIN && `${variant.sku} • `}
+                          {variant.pointsRequired !== undefined
+                            ? `${formatNumber(variant.pointsRequired)} pts`
+                            : `${variant.pointsDelta >= 0 ? '+' : ''}${formatNumber(variant.pointsDelta)} pts`}
+                          {' • '}
+                          {variant.stock > 0 ? `${variant.stock} em estoque` : 'Esgotado'}
+                        </p>
+                      </div>
+                      {user?.role === UserRole.ADMIN && (
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => toggleVariantMutation.mutate({ variantId: variant.id, isActive: !variant.isActive })}
+                            disabled={toggleVariantMutation.isPending}
+                          >
+                            {variant.isActive ? 'Desativar' : 'Ativar'}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteVariantMutation.mutate(variant.id)}
+                            disabled={deleteVariantMutation.isPending}
+                          >
+                            <TrashIcon className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {user?.role === UserRole.ADMIN && adminVariants?.length === 0 && (
+                    <p className="text-sm text-gray-500">
+                      Sem variações: o estoque é controlado no próprio prêmio.
+                    </p>
+                  )}
+                </div>
+
+                {user?.role === UserRole.ADMIN && (
+                  <div className="space-y-2 border-t pt-4">
+                    <div className="grid grid-cols-2 gap-2">
+                      <Input
+                        placeholder="Nome (ex.: M, 220V)"
+                        value={variantForm.name}
+                        onChange={(e) => setVariantForm(prev => ({ ...prev, name: e.target.value }))}
+                      />
+                      <Input
+                        placeholder="SKU"
+                        value={variantForm.sku}
+                        onChange={(e) => setVariantForm(prev => ({ ...prev, sku: e.target.value.toUpperCase() }))}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1">
+                        <Label htmlFor="variantPointsDelta">Diferença de pontos</Label>
+                        <Input
+                          id="variantPointsDelta"
+                          type="number"
+                          value={variantForm.pointsDelta}
+                          onChange={(e) => setVariantForm(prev => ({ ...prev, pointsDelta: e.target.value }))}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label htmlFor="variantStock">Estoque</Label>
+                        <Input
+                          id="variantStock"
+                          type="number"
+                          min="0"
+                          value={variantForm.stock}
+                          onChange={(e) => setVariantForm(prev => ({ ...prev, stock: e.target.value }))}
+                        />
+                      </div>
+                    </div>
+                    <Button
+                      className="w-full"
+                      variant="outline"
+                      onClick={() => createVariantMutation.mutate()}
+                      disabled={!variantForm.name.trim() || variantForm.sku.trim().length < 2}
+                      loading={createVariantMutation.isPending}
+                    >
+                      Adicionar variação
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Seasonal Pricing */}
+          {user?.role === UserRole.ADMIN && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center">
+                  <TagIcon className="w-5 h-5 mr-2" />
+                  Preço Sazonal
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {priceWindows && priceWindows.length > 0 ? (
+                  <div className="space-y-2">
+                    {priceWindows.map((priceWindow) => (
+                      <div key={priceWindow.id} className="flex items-start justify-between p-2 bg-gray-50 rounded">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium">
+                            {priceWindow.label || priceWindow.seasonLabel} • x{priceWindow.multiplier}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDateTime(priceWindow.startDate)} até {formatDateTime(priceWindow.endDate)}
+                          </p>
+                          {priceWindow.isCurrent && <Badge variant="success" className="text-xs mt-1">Vigente</Badge>}
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteWindowMutation.mutate(priceWindow.id)}
+                          disabled={deleteWindowMutation.isPending}
+                        >
+                          <TrashIcon className="w-4 h-4 text-red-600" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Nenhum preço sazonal agendado.</p>
+                )}
+
+                <div className="space-y-2 border-t pt-4">
+                  <select
+                    value={windowForm.season}
+                    onChange={(e) => setWindowForm(prev => ({ ...prev, season: e.target.value as PremioSeason }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+                  >
+                    {SEASON_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                  <Input
+                    placeholder="Nome exibido (opcional)"
+                    value={windowForm.label}
+                    onChange={(e) => setWindowForm(prev => ({ ...prev, label: e.target.value }))}
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="multiplier">Multiplicador do preço (0,8 = 20% de desconto)</Label>
+                    <Input
+                      id="multiplier"
+                      type="number"
+                      step="0.05"
+                      min="0.1"
+                      max="10"
+                      value={windowForm.multiplier}
+                      onChange={(e) => setWindowForm(prev => ({ ...prev, multiplier: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="windowStart">Início</Label>
+                    <Input
+                      id="windowStart"
+                      type="datetime-local"
+                      value={windowForm.startDate}
+                      onChange={(e) => setWindowForm(prev => ({ ...prev, startDate: e.target.value }))}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="windowEnd">Fim</Label>
+                    <Input
+                      id="windowEnd"
+                      type="datetime-local"
+                      value={windowForm.endDate}
+                      onChange={(e) => setWindowForm(prev => ({ ...prev, endDate: e.target.value }))}
+                    />
+                  </div>
+                  <Button
+                    className="w-full"
+                    variant="outline"
+                    onClick={() => createWindowMutation.mutate()}
+                    disabled={!windowForm.startDate || !windowForm.endDate || !Number(windowForm.multiplier)}
+                    loading={createWindowMutation.isPending}
+                  >
+                    Agendar preço sazonal
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Prize Stats */}
           <Card>
             <CardHeader>
@@ -1,7 +1,8 @@
 /**
  * @file pages/premios/PremioListPage.tsx
  * @version 2.0.0
- * @description Página de listagem de prêmios
+ * @description Página de listagem de prêmios, com a lista de desejos do vendedor e a
+ * demanda agregada dela para os administradores
  * @author DevEPS
  * @since 2025-10-21
  */
@@ -9,29 +10,51 @@
 import React, { useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import { motion } from 'framer-motion'
-import { useQuery } from '@tanstack/react-query'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { 
   PlusIcon, 
   FilterIcon, 
   GiftIcon, 
   StarIcon,
   PackageIcon,
-  TrophyIcon
+  HeartIcon,
+  XIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import PremioPriceTag from '@/components/ui/PremioPriceTag'
 import { premioService } from '@/services/premioService'
 import { useAuth } from '@/hooks/useAuth'
-import { Premio, UserRole } from '@/types'
-import { formatNumber } from '@/lib/utils'
+import { useToast } from '@/hooks/useToast'
+import { Premio, PremioWishlistItem, UserRole } from '@/types'
+import { cn, formatDate, formatNumber, getErrorMessage } from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 import EmptyState from '@/components/ui/EmptyState'
 
+// Resumo da meta: pontos restantes e previsão pelo ritmo de ganho recente
+const describeWishlistGoal = (item: PremioWishlistItem): string => {
+  if (!item.inStock) {
+    return item.pointsToGo > 0
+      ? `Faltam ${formatNumber(item.pointsToGo)} pontos • esgotado no momento`
+      : 'Pontos suficientes • esgotado no momento'
+  }
+  if (item.canRedeem) return '✨ Você já pode resgatar!'
+
+  return item.estimatedDate
+    ? `Faltam ${formatNumber(item.pointsToGo)} pontos • previsão ${formatDate(item.estimatedDate)}`
+    : `Faltam ${formatNumber(item.pointsToGo)} pontos • sem ganhos recentes para estimar`
+}
+
 const PremioListPage: React.FC = () => {
   const navigate = useNavigate()
   const { user } = useAuth()
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const isSeller = user?.role === UserRole.VENDEDOR
+  const isAdmin = user?.role === UserRole.ADMIN
   const [filters, setFilters] = useState({
     page: 1,
     limit: 12,
@@ -51,6 +74,32 @@ const PremioListPage: React.FC = () => {
     queryFn: () => premioService.getPopularPremios(5),
   })
 
+  const { data: wishlist } = useQuery({
+    queryKey: ['premio-wishlist'],
+    queryFn: () => premioService.getWishlist(),
+    enabled: isSeller,
+  })
+
+  const { data: wishlistDemand } = useQuery({
+    queryKey: ['wishlist-demand'],
+    queryFn: () => premioService.getWishlistDemand(5),
+    enabled: isAdmin,
+  })
+
+  const toggleWishlistMutation = useMutation({
+    mutationFn: ({ premioId, wished }: { premioId: string; wished: boolean }) =>
+      wished ? premioService.removeFromWishlist(premioId) : premioService.addToWishlist(premioId),
+    onSuccess: (_, { wished }) => {
+      toast.success(wished ? 'Prêmio removido da lista de desejos' : 'Prêmio adicionado à lista de desejos')
+      queryClient.invalidateQueries({ queryKey: ['premio-wishlist'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro na lista de desejos')
+    },
+  })
+
+  const wishedPremioIds = new Set(wishlist?.items.map(item => item.premioId))
+
   const handleSearch = (search: string) => {
     setFilters(prev => ({ ...prev, search, page: 1 }))
   }
@@ -80,7 +129,7 @@ const PremioListPage: React.FC = () => {
           </p>
         </div>
 
-        {user?.role === UserRole.ADMIN && (
+        {isAdmin && (
           <Button asChild>
             <Link to="/app/premios/create">
               <PlusIcon className="w-4 h-4 mr-2" />
@@ -90,6 +139,55 @@ const PremioListPage: React.FC = () => {
         )}
       </div>
 
+      {/* Wishlist */}
+      {wishlist && wishlist.items.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <HeartIcon className="w-5 h-5 mr-2" />
+              Minha Lista de Desejos
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {wishlist.items.map((item) => (
+              <div key={item.id} className="flex items-center gap-4">
+                <img
+                  src={item.premio.imageUrl}
+                  alt={item.premio.title}
+                  className="w-14 h-14 object-cover rounded cursor-pointer"
+                  onClick={() => navigate(`/app/premios/${item.premioId}`)}
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <Link to={`/app/premios/${item.premioId}`} className="text-sm font-medium truncate hover:underline">
+                      {item.premio.title}
+                    </Link>
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {formatNumber(item.pointsRequired)} pts
+                    </span>
+                  </div>
+                  <Progress value={item.progress} size="sm" variant={item.canRedeem ? 'success' : 'default'} />
+                  <p className="text-xs text-gray-600">{describeWishlistGoal(item)}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleWishlistMutation.mutate({ premioId: item.premioId, wished: true })}
+                  disabled={toggleWishlistMutation.isPending}
+                  aria-label="Remover da lista de desejos"
+                >
+                  <XIcon className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Previsões pelo seu ritmo dos últimos {wishlist.paceWindowDays} dias
+              ({formatNumber(wishlist.dailyPace)} pontos/dia).
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Popular Prizes */}
       {popularPremios?.premios && popularPremios.premios.length > 0 && (
         <Card>
@@ -127,6 +225,50 @@ const PremioListPage: React.FC = () => {
         </Card>
       )}
 
+      {/* Wishlist Demand (Admin) */}
+      {wishlistDemand && wishlistDemand.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <HeartIcon className="w-5 h-5 mr-2" />
+              Mais Desejados
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {wishlistDemand.map((entry) => (
+                <div
+                  key={entry.premioId}
+                  className="flex items-center justify-between gap-4 py-2 cursor-pointer"
+                  onClick={() => navigate(`/app/premios/${entry.premioId}`)}
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <img
+                      src={entry.imageUrl}
+                      alt={entry.title}
+                      className="w-10 h-10 object-cover rounded"
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{entry.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatNumber(entry.pointsRequired)} pts • {entry.stock} em estoque
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2 shrink-0">
+                    <Badge variant="outline">{entry.wishlistCount} desejam</Badge>
+                    <Badge variant="secondary">{entry.affordableCount} já podem resgatar</Badge>
+                    {entry.stockShortfall > 0 && (
+                      <Badge variant="warning">Faltam {entry.stockShortfall} em estoque</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Filters */}
       <Card>
         <CardContent className="p-4">
@@ -177,6 +319,10 @@ const PremioListPage: React.FC = () => {
                   premio={premio}
                   userPoints={user?.points || 0}
                   onClick={() => navigate(`/app/premios/${premio.id}`)}
+                  wished={wishedPremioIds.has(premio.id)}
+                  onToggleWishlist={isSeller
+                    ? () => toggleWishlistMutation.mutate({ premioId: premio.id, wished: wishedPremioIds.has(premio.id) })
+                    : undefined}
                 />
               </motion.div>
             ))}
@@ -227,9 +373,11 @@ interface PremioCardProps {
   premio: Premio
   userPoints: number
   onClick: () => void
+  wished?: boolean
+  onToggleWishlist?: () => void
 }
 
-const PremioCard: React.FC<PremioCardProps> = ({ premio, userPoints, onClick }) => {
+const PremioCard: React.FC<PremioCardProps> = ({ premio, userPoints, onClick, wished = false, onToggleWishlist }) => {
   const canRedeem = userPoints >= premio.pointsRequired && premio.stock > 0 && premio.isActive
 
   return (
@@ -244,6 +392,21 @@ const PremioCard: React.FC<PremioCardProps> = ({ premio, userPoints, onClick })
           className="w-full h-48 object-cover group-hover:scale-105 transition-transform duration-300"
         />
         
+        {/* Wishlist toggle */}
+        {onToggleWishlist && (
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggleWishlist()
+            }}
+            className="absolute top-3 left-3 p-2 rounded-full bg-white/90 shadow hover:bg-white"
+            aria-label={wished ? 'Remover da lista de desejos' : 'Adicionar à lista de desejos'}
+          >
+            <HeartIcon className={cn('w-4 h-4', wished ? 'fill-red-500 text-red-500' : 'text-gray-500')} />
+          </button>
+        )}
+
         {/* Stock indicator */}
         <div className="absolute top-3 right-3">
           {premio.stock === 0 ? (
@@ -275,16 +438,10 @@ const PremioCard: React.FC<PremioCardProps> = ({ premio, userPoints, onClick })
           </p>
         </div>
 
-        <div className="flex items-center justify-between pt-2 border-t">
-          <div className="flex items-center space-x-1">
-            <TrophyIcon className="w-4 h-4 text-yellow-500" />
-            <span className="font-bold text-yellow-700">
-              {formatNumber(premio.pointsRequired)}
-            </span>
-            <span className="text-xs text-gray-500">pts</span>
-          </div>
+        <div className="flex items-start justify-between pt-2 border-t">
+          <PremioPriceTag premio={premio} />
 
-          <div className="flex items-center text-xs text-gray-500">
+          <div className="flex items-center text-xs text-gray-500 shrink-0">
             <PackageIcon className="w-3 h-3 mr-1" />
             <span>{premio.stock} em estoque</span>
           </div>
@@ -0,0 +1,378 @@
+/**
+ * @file pages/premios/RedemptionQueuePage.tsx
+ * @version 2.0.0
+ * @description Fila de entrega dos resgates de prêmios (administração)
+ * @author DevEPS
+ * @since 2025-10-21
+ */
+
+import React, { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { motion } from 'framer-motion'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  ArrowLeftIcon,
+  CheckIcon,
+  PackageCheckIcon,
+  TruckIcon,
+  XIcon
+} from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import DataTable from '@/components/ui/DataTable'
+import StatusBadge from '@/components/ui/StatusBadge'
+import { premioService } from '@/services/premioService'
+import { useToast } from '@/hooks/useToast'
+import { PremioRedemption, RedemptionStatus, TableColumn } from '@/types'
+import { formatDateTime, formatNumber, getErrorMessage } from '@/lib/utils'
+
+type RedemptionAction = 'approve' | 'ship' | 'deliver' | 'cancel'
+
+const STATUS_TABS: Array<{ value: RedemptionStatus | 'all'; label: string }> = [
+  { value: 'SOLICITADO', label: 'Solicitados' },
+  { value: 'APROVADO', label: 'Aprovados' },
+  { value: 'ENVIADO', label: 'Enviados' },
+  { value: 'ENTREGUE', label: 'Entregues' },
+  { value: 'CANCELADO', label: 'Cancelados' },
+  { value: 'all', label: 'Todos' },
+]
+
+const ACTION_CONFIG: Record<RedemptionAction, { title: string; confirmLabel: string; success: string }> = {
+  approve: { title: 'Aprovar resgate', confirmLabel: 'Aprovar', success: 'Resgate aprovado' },
+  ship: { title: 'Registrar envio', confirmLabel: 'Marcar como enviado', success: 'Envio registrado' },
+  deliver: { title: 'Confirmar entrega', confirmLabel: 'Confirmar entrega', success: 'Entrega confirmada' },
+  cancel: { title: 'Cancelar resgate', confirmLabel: 'Cancelar resgate', success: 'Resgate cancelado; pontos e estoque devolvidos' },
+}
+
+const EMPTY_FORM = { note: '', trackingCode: '', carrier: '', reason: '' }
+
+const formatAddress = (redemption: PremioRedemption): string => {
+  const address = redemption.deliveryAddress
+  if (!address) return 'Endereço não informado'
+  return [address.street, address.city, address.state, address.zipCode].filter(Boolean).join(', ')
+}
+
+const RedemptionQueuePage: React.FC = () => {
+  const { toast } = useToast()
+  const queryClient = useQueryClient()
+  const [filters, setFilters] = useState({
+    page: 1,
+    limit: 20,
+    status: 'SOLICITADO' as RedemptionStatus | 'all',
+    search: '',
+  })
+  const [actionDialog, setActionDialog] = useState<{
+    redemption: PremioRedemption | null
+    action: RedemptionAction | null
+  }>({ redemption: null, action: null })
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const { data: queueResponse, isLoading } = useQuery({
+    queryKey: ['redemption-queue', filters],
+    queryFn: () => premioService.getRedemptionQueue({
+      page: filters.page,
+      limit: filters.limit,
+      status: filters.status,
+      search: filters.search || undefined,
+    }),
+  })
+
+  const actionMutation = useMutation({
+    mutationFn: ({ redemption, action }: { redemption: PremioRedemption; action: RedemptionAction }) => {
+      const note = form.note.trim() || undefined
+      switch (action) {
+        case 'approve':
+          return premioService.approveRedemption(redemption.id, note)
+        case 'ship':
+          return premioService.shipRedemption(redemption.id, {
+            trackingCode: form.trackingCode.trim(),
+            carrier: form.carrier.trim() || undefined,
+            note,
+          })
+        case 'deliver':
+          return premioService.deliverRedemption(redemption.id, note)
+        case 'cancel':
+          return premioService.cancelRedemption(redemption.id, form.reason.trim())
+      }
+    },
+    onSuccess: (_, { action }) => {
+      toast.success(ACTION_CONFIG[action].success)
+      closeDialog()
+      queryClient.invalidateQueries({ queryKey: ['redemption-queue'] })
+      queryClient.invalidateQueries({ queryKey: ['premios'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao atualizar resgate')
+    },
+  })
+
+  const openDialog = (redemption: PremioRedemption, action: RedemptionAction) => {
+    setForm(EMPTY_FORM)
+    setActionDialog({ redemption, action })
+  }
+
+  const closeDialog = () => {
+    setActionDialog({ redemption: null, action: null })
+    setForm(EMPTY_FORM)
+  }
+
+  const confirmAction = () => {
+    if (!actionDialog.redemption || !actionDialog.action) return
+    actionMutation.mutate({ redemption: actionDialog.redemption, action: actionDialog.action })
+  }
+
+  const canConfirm =
+    (actionDialog.action !== 'ship' || form.trackingCode.trim().length >= 3) &&
+    (actionDialog.action !== 'cancel' || form.reason.trim().length >= 5)
+
+  const columns: TableColumn<PremioRedemption>[] = [
+    {
+      key: 'premio',
+      label: 'Prêmio',
+      render: (redemption) => (
+        <div>
+          <p className="text-sm font-medium">
+            {redemption.premio?.title}
+            {redemption.variantName && <span className="text-gray-500"> ({redemption.variantName})</span>}
+          </p>
+          <p className="text-xs text-gray-500">
+            {formatNumber(redemption.pointsRedeemed)} pontos • {formatDateTime(redemption.createdAt)}
+          </p>
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      label: 'Solicitante',
+      render: (redemption) => (
+        <div>
+          <p className="text-sm">{redemption.user?.name}</p>
+          <p className="text-xs text-gray-500">{redemption.user?.opticName}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'deliveryAddress',
+      label: 'Entrega',
+      render: (redemption) => (
+        <div className="max-w-xs">
+          <p className="text-sm">{formatAddress(redemption)}</p>
+          {redemption.notes && <p className="text-xs text-gray-500 truncate">{redemption.notes}</p>}
+          {redemption.trackingCode && (
+            <p className="text-xs font-mono text-gray-700">
+              {redemption.carrier ? `${redemption.carrier}: ` : ''}{redemption.trackingCode}
+            </p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      render: (redemption) => {
+        const lastEvent = redemption.events?.[redemption.events.length - 1]
+        return (
+          <div>
+            <StatusBadge status={redemption.status} type="redemption" />
+            {lastEvent && (
+              <p className="text-xs text-gray-500 mt-1">
+                {formatDateTime(lastEvent.createdAt)}
+                {lastEvent.actorName && ` por ${lastEvent.actorName}`}
+              </p>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      key: 'actions',
+      label: 'Ações',
+      render: (redemption) => (
+        <div className="flex flex-wrap gap-2">
+          {redemption.status === 'SOLICITADO' && (
+            <Button size="sm" onClick={() => openDialog(redemption, 'approve')}>
+              <CheckIcon className="w-4 h-4 mr-1" />
+              Aprovar
+            </Button>
+          )}
+          {redemption.status === 'APROVADO' && (
+            <Button size="sm" onClick={() => openDialog(redemption, 'ship')}>
+              <TruckIcon className="w-4 h-4 mr-1" />
+              Enviar
+            </Button>
+          )}
+          {redemption.status === 'ENVIADO' && (
+            <Button size="sm" onClick={() => openDialog(redemption, 'deliver')}>
+              <PackageCheckIcon className="w-4 h-4 mr-1" />
+              Entregue
+            </Button>
+          )}
+          {['SOLICITADO', 'APROVADO', 'ENVIADO'].includes(redemption.status) && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600"
+              onClick={() => openDialog(redemption, 'cancel')}
+            >
+              <XIcon className="w-4 h-4 mr-1" />
+              Cancelar
+            </Button>
+          )}
+        </div>
+      ),
+    },
+  ]
+
+  const pendingRedemption = actionDialog.redemption
+  const actionConfig = actionDialog.action ? ACTION_CONFIG[actionDialog.action] : null
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Fila de Entregas</h1>
+          <p className="text-gray-600">
+            Aprove, envie e confirme a entrega dos prêmios resgatados
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link to="/app/premios">
+            <ArrowLeftIcon className="w-4 h-4 mr-2" />
+            Voltar para prêmios
+          </Link>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            {STATUS_TABS.map((tab) => (
+              <Button
+                key={tab.value}
+                size="sm"
+                variant={filters.status === tab.value ? 'default' : 'outline'}
+                onClick={() => setFilters(prev => ({ ...prev, status: tab.value, page: 1 }))}
+              >
+                {tab.label}
+                {tab.value !== 'all' && queueResponse?.counts && (
+                  <span className="ml-2 text-xs opacity-80">{queueResponse.counts[tab.value]}</span>
+                )}
+              </Button>
+            ))}
+          </div>
+          <Input
+            placeholder="Buscar por vendedor, e-mail, prêmio ou código de rastreio..."
+            value={filters.search}
+            onChange={(e) => setFilters(prev => ({ ...prev, search: e.target.value, page: 1 }))}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Data Table */}
+      <Card>
+        <CardContent className="p-0">
+          <DataTable
+            data={queueResponse?.data || []}
+            columns={columns}
+            loading={isLoading}
+            pagination={queueResponse?.pagination}
+            onPageChange={(page) => setFilters(prev => ({ ...prev, page }))}
+            emptyMessage="Nenhum resgate nesta etapa"
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!pendingRedemption} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{actionConfig?.title}</DialogTitle>
+            <DialogDescription>
+              {pendingRedemption?.premio?.title} para {pendingRedemption?.user?.name}
+              {actionDialog.action === 'cancel' &&
+                ` — ${formatNumber(pendingRedemption?.pointsRedeemed || 0)} pontos e 1 unidade de estoque serão devolvidos.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {actionDialog.action === 'ship' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="trackingCode">Código de rastreio</Label>
+                  <Input
+                    id="trackingCode"
+                    value={form.trackingCode}
+                    onChange={(e) => setForm(prev => ({ ...prev, trackingCode: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="carrier">Transportadora (opcional)</Label>
+                  <Input
+                    id="carrier"
+                    placeholder="Correios, Jadlog..."
+                    value={form.carrier}
+                    onChange={(e) => setForm(prev => ({ ...prev, carrier: e.target.value }))}
+                  />
+                </div>
+              </>
+            )}
+
+            {actionDialog.action === 'cancel' ? (
+              <div className="space-y-2">
+                <Label htmlFor="reason">Motivo do cancelamento</Label>
+                <Textarea
+                  id="reason"
+                  rows={3}
+                  value={form.reason}
+                  onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="note">Observação (opcional)</Label>
+                <Textarea
+                  id="note"
+                  rows={2}
+                  value={form.note}
+                  onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog} disabled={actionMutation.isPending}>
+              Voltar
+            </Button>
+            <Button
+              variant={actionDialog.action === 'cancel' ? 'destructive' : 'default'}
+              onClick={confirmAction}
+              disabled={!canConfirm}
+              loading={actionMutation.isPending}
+            >
+              {actionConfig?.confirmLabel}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </motion.div>
+  )
+}
+
+export default RedemptionQueuePage
@@ -4,6 +4,13 @@
  * @description Página de perfil do usuário
  * @author DevEPS
  * @since 2025-10-21
+ *
+ * @changelog
+ * - Aviso de email não verificado com reenvio do link de verificação
+ * - Cadastro da chave PIX usada nos lotes de pagamento
+ * - Tipo de favorecido (pessoa física/jurídica) usado nas retenções e no recibo
+ * - Pontos a expirar e próximos vencimentos dos lotes de pontos
+ * - Extrato de pontos com saldo após cada lançamento
  */
 
 import React, { useState } from 'react'
@@ -11,7 +18,7 @@ import { motion } from 'framer-motion'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
 import { z } from 'zod'
-import { useMutation } from '@tanstack/react-query'
+import { useMutation, useQuery } from '@tanstack/react-query'
 import { 
   UserIcon, 
   EditIcon, 
@@ -22,7 +29,11 @@ import {
   MailIcon,
   PhoneIcon,
   BuildingIcon,
-  CreditCardIcon
+  CreditCardIcon,
+  MailWarningIcon,
+  WalletIcon,
+  ReceiptIcon,
+  HourglassIcon
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -34,8 +45,10 @@ import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs'
 import { useAuth } from '@/hooks/useAuth'
 import { useToast } from '@/hooks/useToast'
-import { UserRole } from '@/types'
-import { formatPhone, formatCPF, formatCNPJ, formatDate, formatNumber, getErrorMessage } from '@/lib/utils'
+import { authService } from '@/services/authService'
+import { userService } from '@/services/userService'
+import { PayeeType, PixKeyType, User, UserRole } from '@/types'
+import { formatPhone, formatCPF, formatCNPJ, formatDate, formatDateTime, formatNumber, getErrorMessage } from '@/lib/utils'
 
 const profileSchema = z.object({
   name: z.string().min(2, 'Nome deve ter pelo menos 2 caracteres'),
@@ -44,10 +57,45 @@ const profileSchema = z.object({
   avatarUrl: z.string().url('URL inválida').optional().or(z.literal('')),
 })
 
+const PIX_KEY_TYPE_LABELS: Record<PixKeyType, string> = {
+  CPF: 'CPF',
+  CNPJ: 'CNPJ',
+  EMAIL: 'Email',
+  TELEFONE: 'Telefone',
+  ALEATORIA: 'Chave aleatória',
+}
+
+const PAYEE_TYPE_LABELS: Record<PayeeType, string> = {
+  PESSOA_FISICA: 'Pessoa física (RPA)',
+  PESSOA_JURIDICA: 'Pessoa jurídica (nota fiscal)',
+}
+
 const ProfilePage: React.FC = () => {
   const { user, updateProfile } = useAuth()
   const { toast } = useToast()
   const [isEditing, setIsEditing] = useState(false)
+  const [isEditingPix, setIsEditingPix] = useState(false)
+  const [pixKeyType, setPixKeyType] = useState<PixKeyType>(user?.pixKeyType || 'CPF')
+  const [pixKey, setPixKey] = useState(user?.pixKey || '')
+  const [isEditingPayee, setIsEditingPayee] = useState(false)
+  const [payeeType, setPayeeType] = useState<PayeeType>(user?.payeeType || 'PESSOA_FISICA')
+  const [payeeCnpj, setPayeeCnpj] = useState(user?.payeeCnpj || '')
+  const [payeeCompanyName, setPayeeCompanyName] = useState(user?.payeeCompanyName || '')
+
+  const { data: pointLots } = useQuery({
+    queryKey: ['users', user?.id, 'point-lots'],
+    queryFn: () => userService.getUserPointLots(user!.id),
+    enabled: !!user,
+  })
+
+  const upcomingLots = pointLots?.lots.filter(lot => lot.expiresAt).slice(0, 3) || []
+
+  const [statementPage, setStatementPage] = useState(1)
+  const { data: statement, isLoading: isStatementLoading } = useQuery({
+    queryKey: ['users', user?.id, 'point-statement', statementPage],
+    queryFn: () => userService.getUserPointStatement(user!.id, { page: statementPage, limit: 10 }),
+    enabled: !!user,
+  })
 
   const form = useForm({
     resolver: zodResolver(profileSchema),
@@ -70,6 +118,60 @@ const ProfilePage: React.FC = () => {
     },
   })
 
+  const resendVerificationMutation = useMutation({
+    mutationFn: () => authService.resendVerification(),
+    onSuccess: () => {
+      toast.success(`Enviamos um link de verificação para ${user?.email}`)
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao reenviar verificação')
+    },
+  })
+
+  const updatePixKeyMutation = useMutation({
+    mutationFn: (data: { pixKeyType: PixKeyType | null; pixKey: string | null }) => updateProfile(data),
+    onSuccess: (_, data) => {
+      toast.success(data.pixKey ? 'Chave PIX salva com sucesso!' : 'Chave PIX removida')
+      setIsEditingPix(false)
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao salvar chave PIX')
+    },
+  })
+
+  const updatePayeeMutation = useMutation({
+    mutationFn: (data: Pick<User, 'payeeType' | 'payeeCnpj' | 'payeeCompanyName'>) => updateProfile(data),
+    onSuccess: () => {
+      toast.success('Dados de recebimento salvos com sucesso!')
+      setIsEditingPayee(false)
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao salvar dados de recebimento')
+    },
+  })
+
+  const startPayeeEditing = () => {
+    setPayeeType(user?.payeeType || 'PESSOA_FISICA')
+    setPayeeCnpj(user?.payeeCnpj || '')
+    setPayeeCompanyName(user?.payeeCompanyName || '')
+    setIsEditingPayee(true)
+  }
+
+  const savePayee = () => {
+    const isCompany = payeeType === 'PESSOA_JURIDICA'
+    updatePayeeMutation.mutate({
+      payeeType,
+      payeeCnpj: isCompany ? payeeCnpj.trim() : null,
+      payeeCompanyName: isCompany ? payeeCompanyName.trim() : null,
+    })
+  }
+
+  const startPixEditing = () => {
+    setPixKeyType(user?.pixKeyType || 'CPF')
+    setPixKey(user?.pixKey || '')
+    setIsEditingPix(true)
+  }
+
   const onSubmit = (data: any) => {
     updateProfileMutation.mutate(data)
   }
@@ -268,6 +370,7 @@ const ProfilePage: React.FC = () => {
           <Tabs defaultValue="activity" className="space-y-4">
             <TabsList>
               <TabsTrigger value="activity">Atividades Recentes</TabsTrigger>
+              <TabsTrigger value="statement">Extrato de pontos</TabsTrigger>
               <TabsTrigger value="achievements">Conquistas</TabsTrigger>
               <TabsTrigger value="preferences">Preferências</TabsTrigger>
             </TabsList>
@@ -297,6 +400,77 @@ const ProfilePage: React.FC = () => {
               </Card>
             </TabsContent>
 
+            <TabsContent value="statement">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center justify-between">
+                    <span>Extrato de pontos</span>
+                    <span className="text-sm font-normal text-gray-500">
+                      Saldo atual: <span className="font-semibold text-gray-900">{formatNumber(user.points)} pts</span>
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {isStatementLoading ? (
+                    <p className="text-sm text-gray-500">Carregando extrato...</p>
+                  ) : !statement || statement.data.length === 0 ? (
+                    <p className="text-sm text-gray-500">Nenhum lançamento de pontos ainda.</p>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="divide-y">
+                        {statement.data.map((transaction) => (
+                          <div key={transaction.id} className="flex items-center justify-between py-3">
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium">{transaction.typeLabel}</p>
+                              {transaction.description && (
+                                <p className="text-xs text-gray-600 truncate">{transaction.description}</p>
+                              )}
+                              <p className="text-xs text-gray-500">
+                                {formatDateTime(transaction.createdAt)}
+                                {transaction.actorName && ` · por ${transaction.actorName}`}
+                              </p>
+                            </div>
+                            <div className="text-right shrink-0 ml-4">
+                              <Badge variant={transaction.amount > 0 ? 'success' : 'error'}>
+                                {transaction.amount > 0 ? '+' : ''}{formatNumber(transaction.amount)} pts
+                              </Badge>
+                              <p className="text-xs text-gray-500 mt-1">
+                                Saldo: {formatNumber(transaction.balanceAfter)}
+                              </p>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+
+                      {statement.pagination.totalPages > 1 && (
+                        <div className="flex items-center justify-between">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!statement.pagination.hasPrev}
+                            onClick={() => setStatementPage(page => page - 1)}
+                          >
+                            Anterior
+                          </Button>
+                          <span className="text-sm text-gray-500">
+                            Página {statement.pagination.page} de {statement.pagination.totalPages}
+                          </span>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={!statement.pagination.hasNext}
+                            onClick={() => setStatementPage(page => page + 1)}
+                          >
+                            Próxima
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="achievements">
               <Card>
                 <CardHeader>
@@ -358,6 +532,231 @@ const ProfilePage: React.FC = () => {
 
         {/* Sidebar - 1/3 */}
         <div className="space-y-6">
+          {/* Email Verification */}
+          {!user.emailVerifiedAt && (
+            <Card className="border-yellow-300 bg-yellow-50">
+              <CardHeader>
+                <CardTitle className="flex items-center text-yellow-800">
+                  <MailWarningIcon className="w-5 h-5 mr-2" />
+                  Email não verificado
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-yellow-800">
+                  Confirme {user.email} pelo link enviado para garantir a recuperação da sua conta.
+                </p>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  loading={resendVerificationMutation.isPending}
+                  onClick={() => resendVerificationMutation.mutate()}
+                >
+                  Reenviar link de verificação
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Points Expiry */}
+          {pointLots && pointLots.balance > 0 && (
+            <Card className={pointLots.expiringPoints > 0 ? 'border-orange-300 bg-orange-50' : undefined}>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <HourglassIcon className="w-5 h-5 mr-2" />
+                  Validade dos Pontos
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {pointLots.expiringPoints > 0 ? (
+                  <p className="text-sm text-orange-800">
+                    {formatNumber(pointLots.expiringPoints)} pontos expiram nos próximos {pointLots.warningDays} dias.
+                    Resgates usam primeiro os pontos mais próximos do vencimento.
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    {pointLots.validityMonths > 0
+                      ? `Os pontos valem ${pointLots.validityMonths} meses a partir do crédito.`
+                      : 'Seus pontos não expiram.'}
+                  </p>
+                )}
+
+                {upcomingLots.length > 0 && (
+                  <div className="space-y-2">
+                    {upcomingLots.map(lot => (
+                      <div key={lot.id} className="flex justify-between text-sm">
+                        <span className="text-gray-600">{lot.sourceLabel}</span>
+                        <span className="font-medium">
+                          {formatNumber(lot.remainingPoints)} pts · {formatDate(lot.expiresAt)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* PIX Key */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <WalletIcon className="w-5 h-5 mr-2" />
+                Chave PIX
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isEditingPix ? (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="pixKeyType" required>Tipo de chave</Label>
+                    <select
+                      id="pixKeyType"
+                      value={pixKeyType}
+                      onChange={(e) => setPixKeyType(e.target.value as PixKeyType)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+                    >
+                      {Object.entries(PIX_KEY_TYPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pixKey" required>Chave</Label>
+                    <Input
+                      id="pixKey"
+                      maxLength={100}
+                      value={pixKey}
+                      onChange={(e) => setPixKey(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setIsEditingPix(false)}>
+                      Cancelar
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={!pixKey.trim()}
+                      loading={updatePixKeyMutation.isPending}
+                      onClick={() => updatePixKeyMutation.mutate({ pixKeyType, pixKey: pixKey.trim() })}
+                    >
+                      Salvar
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {user.pixKeyType && user.pixKey ? (
+                    <div>
+                      <p className="text-sm text-gray-500">{PIX_KEY_TYPE_LABELS[user.pixKeyType]}</p>
+                      <p className="font-medium font-mono break-all">{user.pixKey}</p>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      Nenhuma chave cadastrada. Sem ela seus ganhos não entram nos lotes de pagamento PIX.
+                    </p>
+                  )}
+                  <div className="flex space-x-2">
+                    <Button variant="outline" size="sm" onClick={startPixEditing}>
+                      {user.pixKey ? 'Alterar' : 'Cadastrar chave'}
+                    </Button>
+                    {user.pixKey && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-red-600"
+                        loading={updatePixKeyMutation.isPending}
+                        onClick={() => updatePixKeyMutation.mutate({ pixKeyType: null, pixKey: null })}
+                      >
+                        Remover
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Payee */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <ReceiptIcon className="w-5 h-5 mr-2" />
+                Dados de recebimento
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isEditingPayee ? (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="payeeType" required>Recebo como</Label>
+                    <select
+                      id="payeeType"
+                      value={payeeType}
+                      onChange={(e) => setPayeeType(e.target.value as PayeeType)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-eps-500"
+                    >
+                      {Object.entries(PAYEE_TYPE_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {payeeType === 'PESSOA_JURIDICA' && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="payeeCnpj" required>CNPJ</Label>
+                        <Input
+                          id="payeeCnpj"
+                          maxLength={18}
+                          value={payeeCnpj}
+                          onChange={(e) => setPayeeCnpj(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="payeeCompanyName" required>Razão social</Label>
+                        <Input
+                          id="payeeCompanyName"
+                          maxLength={150}
+                          value={payeeCompanyName}
+                          onChange={(e) => setPayeeCompanyName(e.target.value)}
+                        />
+                      </div>
+                    </>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setIsEditingPayee(false)}>
+                      Cancelar
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={payeeType === 'PESSOA_JURIDICA' && (!payeeCnpj.trim() || !payeeCompanyName.trim())}
+                      loading={updatePayeeMutation.isPending}
+                      onClick={savePayee}
+                    >
+                      Salvar
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div>
+                    <p className="text-sm text-gray-500">{PAYEE_TYPE_LABELS[user.payeeType || 'PESSOA_FISICA']}</p>
+                    {user.payeeType === 'PESSOA_JURIDICA' && user.payeeCnpj && (
+                      <p className="font-medium">
+                        {user.payeeCompanyName} · {formatCNPJ(user.payeeCnpj)}
+                      </p>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Define as retenções na fonte aplicadas aos seus pagamentos e o recibo emitido.
+                  </p>
+                  <Button variant="outline" size="sm" onClick={startPayeeEditing}>
+                    Alterar
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Level Progress */}
           {user.role !== UserRole.ADMIN && (
             <Card>
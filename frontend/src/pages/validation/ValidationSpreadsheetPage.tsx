@@ -35,6 +35,17 @@ import { TableColumn } from '@/types'
 import { formatDate, formatFileSize, getErrorMessage } from '@/lib/utils'
 import LoadingScreen from '@/components/ui/LoadingScreen'
 
+type DuplicateHandling = 'IGNORE' | 'OVERWRITE' | 'REJECT_ROW'
+
+const ACTIVE_JOB_STATUSES = ['NA_FILA', 'PROCESSANDO']
+const JOB_POLLING_INTERVAL = 2000
+
+const DUPLICATE_HANDLING_OPTIONS: Array<{ value: DuplicateHandling; label: string }> = [
+  { value: 'IGNORE', label: 'Ignorar duplicadas' },
+  { value: 'OVERWRITE', label: 'Sobrescrever com novos dados (exceto vendas já validadas)' },
+  { value: 'REJECT_ROW', label: 'Rejeitar linha duplicada' },
+]
+
 const ValidationSpreadsheetPage: React.FC = () => {
   const { toast } = useToast()
   const queryClient = useQueryClient()
@@ -42,10 +53,12 @@ const ValidationSpreadsheetPage: React.FC = () => {
   const [uploadProgress, setUploadProgress] = useState(0)
   const [selectedCampaign, setSelectedCampaign] = useState('')
   const [isDryRun, setIsDryRun] = useState(true)
+  const [duplicateHandling, setDuplicateHandling] = useState<DuplicateHandling>('IGNORE')
   const [mappingConfig, setMappingConfig] = useState({
     orderNumberColumn: 'A',
-    quantityColumn: 'B',
-    dateColumn: 'C',
+    sellerCpfColumn: 'B',
+    quantityColumn: 'C',
+    dateColumn: 'D',
     hasHeaders: true,
     startRow: 2,
   })
@@ -59,6 +72,11 @@ const ValidationSpreadsheetPage: React.FC = () => {
   const { data: validationJobs, isLoading: loadingJobs, refetch } = useQuery({
     queryKey: ['validation-jobs'],
     queryFn: () => validationService.getValidationJobs({}),
+    // Acompanha o progresso enquanto houver jobs na fila ou em processamento
+    refetchInterval: (query) =>
+      query.state.data?.data.some((job) => ACTIVE_JOB_STATUSES.includes(job.status))
+        ? JOB_POLLING_INTERVAL
+        : false,
   })
 
   const { data: templates } = useQuery({
@@ -72,8 +90,8 @@ const ValidationSpreadsheetPage: React.FC = () => {
       validationService.uploadValidationFile(file, config, {
         onProgress: setUploadProgress,
       }),
-    onSuccess: (data) => {
-      toast.success('Arquivo enviado com sucesso!')
+    onSuccess: () => {
+      toast.success('Arquivo enviado! O processamento continua em segundo plano.')
       queryClient.invalidateQueries({ queryKey: ['validation-jobs'] })
       setUploadProgress(0)
     },
@@ -84,9 +102,9 @@ const ValidationSpreadsheetPage: React.FC = () => {
   })
 
   const reprocessMutation = useMutation({
-    mutationFn: validationService.reprocessValidationJob,
+    mutationFn: (id: string) => validationService.reprocessValidationJob(id, {}),
     onSuccess: () => {
-      toast.success('Job reprocessado com sucesso!')
+      toast.success('Job enviado para reprocessamento!')
       queryClient.invalidateQueries({ queryKey: ['validation-jobs'] })
     },
     onError: (error) => {
@@ -94,6 +112,22 @@ const ValidationSpreadsheetPage: React.FC = () => {
     },
   })
 
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) =>
+      validationService.cancelValidationJob(id, 'Cancelado pelo usuário na tela de validação'),
+    onSuccess: (data) => {
+      toast.success(
+        data.status === 'CANCELADO'
+          ? 'Job cancelado com sucesso!'
+          : 'Cancelamento solicitado. O job será interrompido em instantes.'
+      )
+      queryClient.invalidateQueries({ queryKey: ['validation-jobs'] })
+    },
+    onError: (error) => {
+      toast.error(getErrorMessage(error), 'Erro ao cancelar')
+    },
+  })
+
   // Dropzone
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0]
@@ -104,14 +138,24 @@ const ValidationSpreadsheetPage: React.FC = () => {
       return
     }
 
+    // Colunas informadas por letra (A, B, C...); o backend também aceita o nome do cabeçalho
+    const columnMappings = [
+      { sourceColumn: mappingConfig.orderNumberColumn, targetField: 'ORDER_ID' },
+      { sourceColumn: mappingConfig.sellerCpfColumn, targetField: 'SELLER_CPF' },
+      { sourceColumn: mappingConfig.quantityColumn, targetField: 'QUANTITY' },
+      { sourceColumn: mappingConfig.dateColumn, targetField: 'SALE_DATE' },
+    ].filter(mapping => mapping.sourceColumn.trim() !== '')
+
     const config = {
       campaignId: selectedCampaign,
       isDryRun,
-      mapping: mappingConfig,
+      duplicateHandling,
+      mappings: columnMappings,
+      headerRow: mappingConfig.hasHeaders ? Math.max(mappingConfig.startRow - 1, 1) : undefined,
     }
 
     uploadMutation.mutate({ file, config })
-  }, [selectedCampaign, isDryRun, mappingConfig, uploadMutation, toast])
+  }, [selectedCampaign, isDryRun, duplicateHandling, mappingConfig, uploadMutation, toast])
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -145,16 +189,32 @@ const ValidationSpreadsheetPage: React.FC = () => {
       key: 'status',
       label: 'Status',
       render: (job) => (
-        <Badge 
-          variant={
-            job.status === 'CONCLUIDO' ? 'success' :
-            job.status === 'FALHOU' ? 'error' : 'warning'
-          }
-        >
-          {job.status === 'PROCESSANDO' && '⏳ Processando'}
-          {job.status === 'CONCLUIDO' && '✅ Concluído'}
-          {job.status === 'FALHOU' && '❌ Falhou'}
-        </Badge>
+        <div className="space-y-1">
+          <Badge 
+            variant={
+              job.status === 'CONCLUIDO' ? 'success' :
+              job.status === 'FALHOU' ? 'error' : 
+              job.status === 'CANCELADO' ? 'secondary' : 'warning'
+            }
+          >
+            {job.status === 'NA_FILA' && '🕒 Na fila'}
+            {job.status === 'PROCESSANDO' && '⏳ Processando'}
+            {job.status === 'CONCLUIDO' && '✅ Concluído'}
+            {job.status === 'FALHOU' && '❌ Falhou'}
+            {job.status === 'CANCELADO' && '⛔ Cancelado'}
+          </Badge>
+          {job.status === 'PROCESSANDO' && job.totalRows > 0 && (
+            <div className="w-32 space-y-1">
+              <Progress value={Math.round(((job.rowsProcessed || 0) / job.totalRows) * 100)} />
+              <p className="text-xs text-gray-500">
+                {job.rowsProcessed || 0} / {job.totalRows} linhas
+              </p>
+            </div>
+          )}
+          {job.status === 'FALHOU' && job.errorMessage && (
+            <p className="text-xs text-red-600 max-w-[12rem]">{job.errorMessage}</p>
+          )}
+        </div>
       ),
     },
     {
@@ -213,16 +273,28 @@ const ValidationSpreadsheetPage: React.FC = () => {
             </Button>
           )}
           
-          {job.status === 'FALHOU' && (
+          {(job.status === 'FALHOU' || job.status === 'CANCELADO') && (
             <Button 
               variant="ghost" 
               size="sm" 
               title="Reprocessar"
-              onClick={() => reprocessMutation.mutate(job.id, {})}
+              onClick={() => reprocessMutation.mutate(job.id)}
             >
               <RefreshCwIcon className="w-4 h-4" />
             </Button>
           )}
+
+          {ACTIVE_JOB_STATUSES.includes(job.status) && (
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              title="Cancelar"
+              disabled={job.cancelRequested || cancelMutation.isPending}
+              onClick={() => cancelMutation.mutate(job.id)}
+            >
+              <XIcon className="w-4 h-4" />
+            </Button>
+          )}
         </div>
       ),
     },
@@ -282,12 +354,31 @@ const ValidationSpreadsheetPage: React.FC = () => {
                     Modo de teste (não salva dados)
                   </Label>
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Pedidos duplicados</Label>
+                  <Select
+                    value={duplicateHandling}
+                    onValueChange={(value) => setDuplicateHandling(value as DuplicateHandling)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DUPLICATE_HANDLING_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
 
               {/* Mapping Configuration */}
               <div className="space-y-4 pt-4 border-t">
                 <h4 className="font-medium">Mapeamento de Colunas</h4>
-                <div className="grid grid-cols-3 gap-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="space-y-2">
                     <Label>Coluna Nº Pedido</Label>
                     <Input
@@ -300,6 +391,18 @@ const ValidationSpreadsheetPage: React.FC = () => {
                       className="text-center"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label>Coluna CPF Vendedor</Label>
+                    <Input
+                      value={mappingConfig.sellerCpfColumn}
+                      onChange={(e) => setMappingConfig(prev => ({ 
+                        ...prev, 
+                        sellerCpfColumn: e.target.value.toUpperCase() 
+                      }))}
+                      placeholder="B"
+                      className="text-center"
+                    />
+                  </div>
                   <div className="space-y-2">
                     <Label>Coluna Quantidade</Label>
                     <Input
@@ -308,7 +411,7 @@ const ValidationSpreadsheetPage: React.FC = () => {
                         ...prev, 
                         quantityColumn: e.target.value.toUpperCase() 
                       }))}
-                      placeholder="B"
+                      placeholder="C"
                       className="text-center"
                     />
                   </div>
@@ -320,7 +423,7 @@ const ValidationSpreadsheetPage: React.FC = () => {
                         ...prev, 
                         dateColumn: e.target.value.toUpperCase() 
                       }))}
-                      placeholder="C"
+                      placeholder="D"
                       className="text-center"
                     />
                   </div>
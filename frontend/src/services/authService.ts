@@ -8,9 +8,10 @@
  * @changelog
  * - 2.0.1 (2025-10-22): Adicionada função getStoredRefreshToken
  * para suportar a hidratação do useAuth.
+ * - 2.0.2: Recuperação de senha e verificação de e-mail.
  */
 
-import { apiPost, apiPut, apiGet } from '@/lib/axios'
+import api, { apiPost, apiPut, apiGet } from '@/lib/axios'
 import { User, LoginForm, RegisterForm } from '@/types'
 import { getLocalStorage, setLocalStorage, removeLocalStorage } from '@/lib/utils'
 
@@ -23,6 +24,7 @@ interface LoginResponse {
 
 interface RefreshResponse {
   token: string
+  refreshToken: string
   expiresAt: string
 }
 
@@ -44,16 +46,25 @@ export const authService = {
   },
 
   /**
-   * Faz logout do usuário
+   * Faz logout do usuário (revoga a sessão no servidor e limpa o armazenamento local)
    */
   logout(): void {
+    const token = getLocalStorage<string | null>('eps_token', null)
+
+    if (token) {
+      // O cliente é deslogado mesmo se a revogação falhar
+      api
+        .post('/auth/logout', undefined, { headers: { Authorization: `Bearer ${token}` } })
+        .catch(() => undefined)
+    }
+
     removeLocalStorage('eps_token')
     removeLocalStorage('eps_refresh_token')
     removeLocalStorage('eps_user')
   },
 
   /**
-   * Renova token usando refresh token
+   * Renova token usando refresh token (o servidor rotaciona o refresh token a cada uso)
    */
   async refreshToken(refreshToken: string): Promise<RefreshResponse> {
     const response = await apiPost<RefreshResponse>('/auth/refresh', {
@@ -61,6 +72,7 @@ export const authService = {
     })
 
     setLocalStorage('eps_token', response.token)
+    setLocalStorage('eps_refresh_token', response.refreshToken)
 
     return response
   },
@@ -147,6 +159,48 @@ export const authService = {
     return await apiPost('/auth/validate-cnpj', { cnpj })
   },
 
+  /**
+   * Solicita link de redefinição de senha por e-mail
+   */
+  async forgotPassword(email: string): Promise<void> {
+    await apiPost('/auth/forgot-password', { email })
+  },
+
+  /**
+   * Verifica se o token de redefinição ainda é válido
+   */
+  async validateResetToken(token: string): Promise<{
+    email: string
+    expiresAt: string
+  }> {
+    return await apiGet(`/auth/reset-password/${encodeURIComponent(token)}`)
+  },
+
+  /**
+   * Redefine senha com token recebido por e-mail
+   */
+  async resetPassword(data: {
+    token: string
+    password: string
+    confirmPassword: string
+  }): Promise<void> {
+    await apiPost('/auth/reset-password', data)
+  },
+
+  /**
+   * Confirma e-mail com token recebido
+   */
+  async verifyEmail(token: string): Promise<{ email: string }> {
+    return await apiPost('/auth/verify-email', { token })
+  },
+
+  /**
+   * Reenvia e-mail de verificação ao usuário logado
+   */
+  async resendVerification(): Promise<void> {
+    await apiPost('/auth/resend-verification')
+  },
+
   /**
    * Recupera token salvo
    */
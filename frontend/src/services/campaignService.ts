@@ -7,7 +7,14 @@
  */
 
 import { apiGet, apiPost, apiPut, apiDelete, apiGetPaginated } from '@/lib/axios'
-import { Campaign, CampaignFilters, CampaignForm, PaginatedResponse } from '@/types'
+import {
+  BudgetHoldStatus,
+  Campaign,
+  CampaignBudgetHold,
+  CampaignFilters,
+  CampaignForm,
+  PaginatedResponse
+} from '@/types'
 
 export const campaignService = {
   /**
@@ -120,4 +127,29 @@ export const campaignService = {
   }): Promise<any> {
     return await apiGet(`/campaigns/${id}/performance`, options)
   },
+
+  /**
+   * Lista prêmios retidos por orçamento esgotado
+   */
+  async getBudgetHolds(id: string, filters?: {
+    status?: BudgetHoldStatus | 'all'
+    page?: number
+    limit?: number
+  }) {
+    return await apiGetPaginated<CampaignBudgetHold>(`/campaigns/${id}/budget-holds`, filters)
+  },
+
+  /**
+   * Aprova prêmio retido, creditando os pontos mesmo acima do orçamento
+   */
+  async approveBudgetHold(holdId: string, note?: string): Promise<void> {
+    await apiPost(`/campaigns/budget-holds/${holdId}/approve`, { note })
+  },
+
+  /**
+   * Rejeita prêmio retido
+   */
+  async rejectBudgetHold(holdId: string, reason: string): Promise<void> {
+    await apiPost(`/campaigns/budget-holds/${holdId}/reject`, { reason })
+  },
 }
@@ -6,8 +6,36 @@
  * @since 2025-10-21
  */
 
-import { apiGet, apiPost, apiPut, apiDelete, apiGetPaginated } from '@/lib/axios'
-import { Earning, EarningStatus, EarningType } from '@/types'
+import { apiGet, apiPost, apiPut, apiDelete, apiGetPaginated, apiUpload, apiDownload } from '@/lib/axios'
+import {
+  Earning,
+  EarningStatus,
+  EarningType,
+  EarningPayment,
+  EarningPaymentAttachment,
+  PaymentAttachmentType,
+  PaymentMethod,
+  PayoutBatch,
+  PayoutBatchSkippedUser,
+  PayoutBatchStatus,
+  FinancialReport,
+  FinancialReportGroupBy,
+  EarningProjection,
+  WithholdingRule,
+  WithholdingRuleFormData,
+} from '@/types'
+import { formatDateForInput } from '@/lib/utils'
+
+interface FinancialReportOptions {
+  startDate?: string
+  endDate?: string
+  campaignId?: string
+  userId?: string
+  type?: EarningType | 'all'
+  status?: EarningStatus | 'all'
+  groupBy?: FinancialReportGroupBy
+  includeDetails?: boolean
+}
 
 interface EarningFilters {
   status?: EarningStatus | 'all'
@@ -103,9 +131,10 @@ export const earningService = {
    * Marca earning como pago
    */
   async markEarningAsPaid(id: string, data: {
-    paymentMethod: string
-    paymentReference?: string
-    notes?: string
+    paymentMethod: PaymentMethod
+    paymentReference: string
+    paymentDate?: string
+    paymentNotes?: string
   }): Promise<{
     earningId: string
     paidAt: string
@@ -114,11 +143,183 @@ export const earningService = {
     return await apiPost(`/earnings/${id}/mark-as-paid`, data)
   },
 
+  /**
+   * Registra pagamento de um ou mais earnings pendentes
+   */
+  async createPayment(data: {
+    earningIds: string[]
+    paymentMethod: PaymentMethod
+    paymentReference: string
+    paymentDate?: string
+    paymentNotes?: string
+    invoiceNumber?: string
+  }): Promise<EarningPayment> {
+    return await apiPost<{ payment: EarningPayment }>('/earnings/payments', data)
+      .then(response => response.payment)
+  },
+
+  /**
+   * Lista registros de pagamento
+   */
+  async getPayments(filters?: {
+    page?: number
+    limit?: number
+    method?: PaymentMethod
+    userId?: string
+    paidAfter?: string
+    paidBefore?: string
+  }) {
+    return await apiGetPaginated<EarningPayment>('/earnings/payments', filters)
+  },
+
+  /**
+   * Busca registro de pagamento por ID
+   */
+  async getPaymentById(id: string): Promise<EarningPayment> {
+    return await apiGet<{ payment: EarningPayment }>(`/earnings/payments/${id}`)
+      .then(response => response.payment)
+  },
+
+  /**
+   * Envia comprovantes do pagamento (PDF ou imagem)
+   */
+  async uploadPaymentAttachments(
+    paymentId: string,
+    files: File[],
+    type: PaymentAttachmentType = 'receipt',
+    onProgress?: (progress: number) => void
+  ): Promise<EarningPayment> {
+    const formData = new FormData()
+    // O campo "type" precisa vir antes dos arquivos no multipart
+    formData.append('type', type)
+    files.forEach(file => formData.append('files', file))
+
+    return await apiUpload<{ payment: EarningPayment }>(
+      `/earnings/payments/${paymentId}/attachments`,
+      formData,
+      onProgress
+    ).then(response => response.payment)
+  },
+
+  /**
+   * Baixa comprovante do pagamento
+   */
+  async downloadPaymentAttachment(paymentId: string, attachment: EarningPaymentAttachment): Promise<void> {
+    if (attachment.url) {
+      window.open(attachment.url, '_blank', 'noopener')
+      return
+    }
+
+    await apiDownload(`/earnings/payments/${paymentId}/attachments/${attachment.id}`, attachment.filename)
+  },
+
+  /**
+   * Baixa recibo do pagamento (RPA ou demonstrativo PJ) com bruto, retenções e líquido
+   */
+  async downloadPaymentReceipt(paymentId: string, userId?: string): Promise<void> {
+    const query = userId ? `?userId=${userId}` : ''
+    await apiDownload(`/earnings/payments/${paymentId}/receipt${query}`, `recibo-${paymentId}.pdf`)
+  },
+
+  /**
+   * Lista regras de retenção na fonte
+   */
+  async getWithholdingRules(): Promise<WithholdingRule[]> {
+    return await apiGet<{ rules: WithholdingRule[] }>('/earnings/withholding-rules')
+      .then(response => response.rules)
+  },
+
+  /**
+   * Cria regra de retenção
+   */
+  async createWithholdingRule(data: WithholdingRuleFormData): Promise<WithholdingRule> {
+    return await apiPost<{ rule: WithholdingRule }>('/earnings/withholding-rules', data)
+      .then(response => response.rule)
+  },
+
+  /**
+   * Atualiza regra de retenção
+   */
+  async updateWithholdingRule(id: string, data: Partial<WithholdingRuleFormData>): Promise<WithholdingRule> {
+    return await apiPut<{ rule: WithholdingRule }>(`/earnings/withholding-rules/${id}`, data)
+      .then(response => response.rule)
+  },
+
+  /**
+   * Exclui regra de retenção
+   */
+  async deleteWithholdingRule(id: string): Promise<void> {
+    await apiDelete(`/earnings/withholding-rules/${id}`)
+  },
+
+  /**
+   * Gera lote de pagamento PIX com earnings pendentes
+   */
+  async createPayoutBatch(data: {
+    earningIds?: string[]
+    userIds?: string[]
+    campaignId?: string
+    earnedBefore?: string
+    notes?: string
+  }): Promise<{ batch: PayoutBatch; skipped: PayoutBatchSkippedUser[] }> {
+    return await apiPost('/earnings/payout-batches', data)
+  },
+
+  /**
+   * Lista lotes de pagamento PIX
+   */
+  async getPayoutBatches(filters?: {
+    page?: number
+    limit?: number
+    status?: PayoutBatchStatus
+  }) {
+    return await apiGetPaginated<PayoutBatch>('/earnings/payout-batches', filters)
+  },
+
+  /**
+   * Busca lote de pagamento PIX por ID
+   */
+  async getPayoutBatchById(id: string): Promise<PayoutBatch> {
+    return await apiGet<{ batch: PayoutBatch }>(`/earnings/payout-batches/${id}`)
+      .then(response => response.batch)
+  },
+
+  /**
+   * Baixa arquivo do lote (CSV ou remessa de largura fixa)
+   */
+  async downloadPayoutBatchFile(batch: PayoutBatch, format: 'csv' | 'remessa'): Promise<void> {
+    await apiDownload(
+      `/earnings/payout-batches/${batch.id}/file?format=${format}`,
+      `${batch.code}.${format === 'csv' ? 'csv' : 'rem'}`
+    )
+  },
+
+  /**
+   * Confirma lote pago pelo banco (marca todos os earnings como pagos)
+   */
+  async confirmPayoutBatch(id: string, data?: {
+    paymentDate?: string
+    paymentReference?: string
+    paymentNotes?: string
+  }): Promise<PayoutBatch> {
+    return await apiPost<{ batch: PayoutBatch }>(`/earnings/payout-batches/${id}/confirm`, data || {})
+      .then(response => response.batch)
+  },
+
+  /**
+   * Cancela lote e libera os earnings reservados
+   */
+  async cancelPayoutBatch(id: string): Promise<PayoutBatch> {
+    return await apiPost<{ batch: PayoutBatch }>(`/earnings/payout-batches/${id}/cancel`)
+      .then(response => response.batch)
+  },
+
   /**
    * Cancela earning
    */
   async cancelEarning(id: string, reason: string): Promise<{
     earningId: string
+    status: EarningStatus
     cancelledAt: string
     cancelledBy: string
     reason: string
@@ -126,6 +327,19 @@ export const earningService = {
     return await apiPost(`/earnings/${id}/cancel`, { reason })
   },
 
+  /**
+   * Estorna earning já pago
+   */
+  async reverseEarning(id: string, reason: string): Promise<{
+    earningId: string
+    status: EarningStatus
+    reversedAt: string
+    reversedBy: string
+    reason: string
+  }> {
+    return await apiPost(`/earnings/${id}/reverse`, { reason })
+  },
+
   /**
    * Processa earnings em lote
    */
@@ -147,26 +361,40 @@ export const earningService = {
   /**
    * Gera relatório financeiro
    */
-  async generateFinancialReport(options: {
-    startDate?: string
-    endDate?: string
-    campaignId?: string
-    userId?: string
-    groupBy?: 'day' | 'week' | 'month' | 'campaign' | 'user'
-    includeDetails?: boolean
-    format?: 'json' | 'csv' | 'excel'
-  }): Promise<any> {
+  async generateFinancialReport(options: FinancialReportOptions): Promise<FinancialReport> {
     return await apiGet('/earnings/financial-report', options)
   },
 
+  /**
+   * Baixa relatório financeiro em XLSX ou PDF
+   */
+  async downloadFinancialReport(options: FinancialReportOptions, format: 'xlsx' | 'pdf'): Promise<void> {
+    const params = new URLSearchParams({ format })
+    Object.entries(options).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value))
+    })
+
+    const period = [options.startDate, options.endDate]
+      .filter(Boolean)
+      .map(date => formatDateForInput(date).replace(/-/g, ''))
+      .join('-')
+
+    await apiDownload(
+      `/earnings/financial-report/export?${params.toString()}`,
+      `relatorio-financeiro${period ? `-${period}` : ''}.${format}`
+    )
+  },
+
   /**
    * Obtém projeções de earnings
    */
   async getEarningProjection(options: {
-    period?: '7d' | '30d' | '90d'
+    projectionPeriod?: EarningProjection['projectionPeriod']
+    basePeriod?: EarningProjection['basePeriod']
     campaignId?: string
-    includeTrends?: boolean
-  }): Promise<any> {
+    userId?: string
+    includeProjectedCampaigns?: boolean
+  }): Promise<EarningProjection> {
     return await apiGet('/earnings/projection', options)
   },
 
@@ -6,8 +6,28 @@
  * @since 2025-10-21
  */
 
-import { apiGet, apiPost, apiPut, apiDelete, apiGetPaginated } from '@/lib/axios'
-import { Premio } from '@/types'
+import api, { apiGet, apiPost, apiPut, apiPatch, apiDelete, apiGetPaginated } from '@/lib/axios'
+import {
+  Premio,
+  PremioPriceWindow,
+  PremioRedemption,
+  PremioSeason,
+  PremioVariant,
+  PremioStockReservation,
+  PremioWishlist,
+  WishlistDemandEntry,
+  RedemptionDeliveryAddress,
+  RedemptionStatus
+} from '@/types'
+
+interface RedemptionFilters {
+  status?: RedemptionStatus | 'all'
+  search?: string
+  premioId?: string
+  userId?: string
+  page?: number
+  limit?: number
+}
 
 interface PremioFilters {
   search?: string
@@ -106,23 +126,55 @@ export const premioService = {
     return await apiGet('/premios/popular', { limit })
   },
 
+  /**
+   * Demanda agregada da lista de desejos (admin)
+   */
+  async getWishlistDemand(limit?: number): Promise<WishlistDemandEntry[]> {
+    const response = await api.get<WishlistDemandEntry[]>('/premios/wishlist/demand', { params: { limit } })
+    return response.data
+  },
+
+  /**
+   * Lista de desejos do usuário com pontos restantes e data estimada
+   */
+  async getWishlist(): Promise<PremioWishlist> {
+    const response = await api.get<PremioWishlist>('/premios/wishlist')
+    return response.data
+  },
+
+  /**
+   * Adiciona prêmio à lista de desejos
+   */
+  async addToWishlist(premioId: string): Promise<void> {
+    await apiPut(`/premios/${premioId}/wishlist`)
+  },
+
+  /**
+   * Remove prêmio da lista de desejos
+   */
+  async removeFromWishlist(premioId: string): Promise<void> {
+    await apiDelete(`/premios/${premioId}/wishlist`)
+  },
+
   /**
    * Verifica se usuário pode resgatar prêmio
    */
-  async checkRedeem(premioId: string): Promise<{
+  async checkRedeem(premioId: string, variantId?: string): Promise<{
     canRedeem: boolean
     reason?: string
     userPoints: number
     requiredPoints: number
   }> {
-    return await apiGet(`/premios/${premioId}/check-redeem`)
+    return await apiGet(`/premios/${premioId}/check-redeem`, { variantId })
   },
 
   /**
    * Resgata prêmio
    */
   async redeemPremio(premioId: string, data?: {
-    deliveryAddress?: any
+    variantId?: string
+    reservationId?: string
+    deliveryAddress?: RedemptionDeliveryAddress
     notes?: string
   }): Promise<{
     premioId: string
@@ -134,6 +186,21 @@ export const premioService = {
     return await apiPost(`/premios/${premioId}/redeem`, data)
   },
 
+  /**
+   * Reserva uma unidade do prêmio enquanto o resgate é confirmado
+   */
+  async reserveStock(premioId: string, variantId?: string): Promise<PremioStockReservation> {
+    const response = await api.post<PremioStockReservation>(`/premios/${premioId}/reservations`, { variantId })
+    return response.data
+  },
+
+  /**
+   * Libera a reserva de estoque (resgate não confirmado)
+   */
+  async releaseReservation(reservationId: string): Promise<void> {
+    await apiDelete(`/premios/reservations/${reservationId}`)
+  },
+
   /**
    * Atualiza estoque do prêmio
    */
@@ -141,6 +208,7 @@ export const premioService = {
     operation: 'add' | 'subtract' | 'set'
     quantity: number
     reason: string
+    variantId?: string
   }): Promise<{
     premioId: string
     newStock: number
@@ -149,7 +217,7 @@ export const premioService = {
     updatedBy: string
     updatedAt: string
   }> {
-    return await apiPost(`/premios/${premioId}/stock`, data)
+    return await apiPatch(`/premios/${premioId}/stock`, data)
   },
 
   /**
@@ -158,6 +226,7 @@ export const premioService = {
   async restockPremio(premioId: string, data: {
     quantity: number
     reason: string
+    variantId?: string
   }): Promise<{
     premioId: string
     quantityAdded: number
@@ -209,12 +278,127 @@ export const premioService = {
   async getMyRedemptions(options?: {
     page?: number
     limit?: number
-  }): Promise<{
-    redemptions: any[]
-    pagination: any
-    userId: string
+    premioId?: string
+  }) {
+    return await apiGetPaginated<PremioRedemption>('/premios/my-redemptions', options)
+  },
+
+  /**
+   * Fila de entrega de resgates com totais por status (admin)
+   */
+  async getRedemptionQueue(filters?: RedemptionFilters): Promise<{
+    data: PremioRedemption[]
+    counts: Record<RedemptionStatus, number>
+    pagination: {
+      page: number
+      limit: number
+      total: number
+      totalPages: number
+      hasNext: boolean
+      hasPrev: boolean
+    }
   }> {
-    return await apiGet('/premios/my-redemptions', options)
+    const response = await api.get('/premios/redemptions', { params: filters })
+    return response.data
+  },
+
+  /**
+   * Aprova resgate (admin)
+   */
+  async approveRedemption(redemptionId: string, note?: string): Promise<void> {
+    await apiPatch(`/premios/redemptions/${redemptionId}/approve`, { note })
+  },
+
+  /**
+   * Marca resgate como enviado, com código de rastreio (admin)
+   */
+  async shipRedemption(redemptionId: string, data: {
+    trackingCode: string
+    carrier?: string
+    note?: string
+  }): Promise<void> {
+    await apiPatch(`/premios/redemptions/${redemptionId}/ship`, data)
+  },
+
+  /**
+   * Confirma entrega do resgate (admin)
+   */
+  async deliverRedemption(redemptionId: string, note?: string): Promise<void> {
+    await apiPatch(`/premios/redemptions/${redemptionId}/deliver`, { note })
+  },
+
+  /**
+   * Cancela resgate devolvendo pontos e estoque
+   */
+  async cancelRedemption(redemptionId: string, reason: string): Promise<void> {
+    await apiPatch(`/premios/redemptions/${redemptionId}/cancel`, { reason })
+  },
+
+  /**
+   * Lista janelas de preço sazonal do prêmio (admin)
+   */
+  async getPriceWindows(premioId: string): Promise<PremioPriceWindow[]> {
+    const response = await api.get<PremioPriceWindow[]>(`/premios/${premioId}/price-windows`)
+    return response.data
+  },
+
+  /**
+   * Agenda janela de preço sazonal (admin)
+   */
+  async createPriceWindow(premioId: string, data: {
+    season: PremioSeason
+    label?: string
+    multiplier: number
+    startDate: string
+    endDate: string
+  }): Promise<void> {
+    await apiPost(`/premios/${premioId}/price-windows`, data)
+  },
+
+  /**
+   * Remove janela de preço sazonal (admin)
+   */
+  async deletePriceWindow(windowId: string): Promise<void> {
+    await apiDelete(`/premios/price-windows/${windowId}`)
+  },
+
+  /**
+   * Lista variações do prêmio, incluindo inativas (admin)
+   */
+  async getVariants(premioId: string): Promise<PremioVariant[]> {
+    const response = await api.get<PremioVariant[]>(`/premios/${premioId}/variants`)
+    return response.data
+  },
+
+  /**
+   * Adiciona variação ao prêmio (admin)
+   */
+  async createVariant(premioId: string, data: {
+    name: string
+    sku: string
+    attributes?: Record<string, string>
+    pointsDelta?: number
+    stock: number
+    isActive?: boolean
+    sortOrder?: number
+  }): Promise<void> {
+    await apiPost(`/premios/${premioId}/variants`, data)
+  },
+
+  /**
+   * Atualiza variação do prêmio (admin)
+   */
+  async updateVariant(variantId: string, data: Partial<Pick<PremioVariant,
+    'name' | 'sku' | 'pointsDelta' | 'isActive' | 'sortOrder'
+  >> & { attributes?: Record<string, string> }): Promise<void> {
+    await apiPut(`/premios/variants/${variantId}`, data)
+  },
+
+  /**
+   * Remove variação sem resgates (admin)
+   */
+  async deleteVariant(variantId: string): Promise<void> {
+    await apiDelete(`/premios/variants/${variantId}`)
   },
 
   /**
@@ -229,6 +413,13 @@ export const premioService = {
       stock: number
       category?: string
       priority?: number
+      variants?: Array<{
+        name: string
+        sku: string
+        attributes?: Record<string, string>
+        pointsDelta?: number
+        stock: number
+      }>
     }>
     validateOnly: boolean
     skipDuplicates: boolean
@@ -7,7 +7,7 @@
  */
 
 import { apiGet, apiPost, apiPut, apiDelete, apiGetPaginated } from '@/lib/axios'
-import { User, UserFilters, UserRole, UserStatus } from '@/types'
+import { PaginatedResponse, PointTransaction, PointTransactionType, User, UserFilters, UserPointLots, UserRole, UserStatus } from '@/types'
 
 export const userService = {
   /**
@@ -137,6 +137,24 @@ export const userService = {
     return await apiPost(`/users/${id}/points`, data)
   },
 
+  /**
+   * Obtém os lotes de pontos do usuário e os pontos a expirar
+   */
+  async getUserPointLots(id: string): Promise<UserPointLots> {
+    return await apiGet(`/users/${id}/point-lots`)
+  },
+
+  /**
+   * Obtém o extrato de pontos do usuário (lançamentos mais recentes primeiro)
+   */
+  async getUserPointStatement(id: string, filters: {
+    page?: number
+    limit?: number
+    type?: PointTransactionType | 'all'
+  } = {}): Promise<PaginatedResponse<PointTransaction>> {
+    return await apiGetPaginated<PointTransaction>(`/users/${id}/point-statement`, filters)
+  },
+
   /**
    * Obtém estatísticas de usuários
    */
@@ -6,11 +6,11 @@
  * @since 2025-10-21
  */
 
-import { apiGet, apiPost, apiDelete, apiUpload, apiDownload, apiGetPaginated } from '@/lib/axios'
+import { apiGet, apiPost, apiPut, apiDelete, apiUpload, apiDownload, apiGetPaginated } from '@/lib/axios'
 
 interface ValidationFilters {
   search?: string
-  status?: 'PROCESSANDO' | 'CONCLUIDO' | 'FALHOU' | 'all'
+  status?: ValidationJobStatus | 'all'
   campaignId?: string
   adminId?: string
   isDryRun?: boolean
@@ -24,11 +24,13 @@ interface ValidationFilters {
   order?: 'asc' | 'desc'
 }
 
+type ValidationJobStatus = 'NA_FILA' | 'PROCESSANDO' | 'CONCLUIDO' | 'FALHOU' | 'CANCELADO'
+
 interface ValidationJob {
   id: string
   fileName: string
   uploadDate: string
-  status: 'PROCESSANDO' | 'CONCLUIDO' | 'FALHOU'
+  status: ValidationJobStatus
   campaignTitle: string
   isDryRun: boolean
   totalRows: number
@@ -44,10 +46,56 @@ interface ValidationJob {
   processingDuration?: number
   fileSize?: number
   rowsProcessed?: number
+  errorMessage?: string
+  cancelRequested?: boolean
+  cancelReason?: string
+  cancelledAt?: string
   createdAt: string
   updatedAt: string
 }
 
+interface ColumnMapping {
+  sourceColumn: string
+  targetField: string
+  transformation?: {
+    type?: 'none' | 'uppercase' | 'lowercase' | 'trim' | 'normalize_cpf' | 'normalize_cnpj'
+    customRegex?: string
+    defaultValue?: string
+  }
+}
+
+interface MappingTemplate {
+  id: string
+  name: string
+  description: string | null
+  distributorName: string | null
+  distributorCnpj: string | null
+  mappings: ColumnMapping[]
+  isDefault: boolean
+  isSystem: boolean
+  usageCount: number
+  lastUsedAt: string | null
+  createdById: string | null
+  createdAt: string | null
+  updatedAt: string | null
+}
+
+interface MappingTemplateSuggestion {
+  template: MappingTemplate
+  score: number
+  matchedColumns: string[]
+  missingColumns: string[]
+}
+
+interface SaveMappingTemplateData {
+  name: string
+  description?: string
+  distributorName?: string
+  distributorCnpj?: string
+  mappings: ColumnMapping[]
+  isDefault?: boolean
+}
+
 export const validationService = {
   /**
    * Upload de arquivo para validação
@@ -84,9 +132,11 @@ export const validationService = {
    */
   async previewValidationFile(
     file: File,
-    sampleSize?: number
+    sampleSize?: number,
+    distributorCnpj?: string
   ): Promise<{
     preview: any
+    suggestedTemplate: MappingTemplateSuggestion | null
     fileName: string
     fileSize: number
     sampleSize: number
@@ -99,6 +149,10 @@ export const validationService = {
       formData.append('sampleSize', sampleSize.toString())
     }
 
+    if (distributorCnpj) {
+      formData.append('distributorCnpj', distributorCnpj)
+    }
+
     return await apiUpload('/validation/preview', formData)
   },
 
@@ -147,10 +201,12 @@ export const validationService = {
   },
 
   /**
-   * Cancela job em processamento
+   * Cancela job na fila ou em processamento
    */
   async cancelValidationJob(id: string, reason: string): Promise<{
     jobId: string
+    status: ValidationJobStatus
+    rowsProcessed?: number
     cancelledBy: string
     cancelledAt: string
     reason: string
@@ -185,12 +241,41 @@ export const validationService = {
   /**
    * Obtém templates de mapeamento
    */
-  async getMappingTemplates(): Promise<{
-    templates: any[]
-    availableFields: any[]
+  async getMappingTemplates(filters?: {
+    distributorCnpj?: string
+    search?: string
+  }): Promise<{
+    templates: MappingTemplate[]
+    availableFields: string[]
     count: number
   }> {
-    return await apiGet('/validation/templates')
+    return await apiGet('/validation/templates', filters)
+  },
+
+  /**
+   * Salva template de mapeamento
+   */
+  async createMappingTemplate(data: SaveMappingTemplateData): Promise<MappingTemplate> {
+    return await apiPost<{ template: MappingTemplate }>('/validation/templates', data)
+      .then(response => response.template)
+  },
+
+  /**
+   * Atualiza template de mapeamento
+   */
+  async updateMappingTemplate(id: string, data: Partial<SaveMappingTemplateData>): Promise<MappingTemplate> {
+    return await apiPut<{ template: MappingTemplate }>(`/validation/templates/${id}`, data)
+      .then(response => response.template)
+  },
+
+  /**
+   * Exclui template de mapeamento
+   */
+  async deleteMappingTemplate(id: string): Promise<{
+    deletedId: string
+    deletedAt: string
+  }> {
+    return await apiDelete(`/validation/templates/${id}`)
   },
 
   /**
@@ -350,7 +350,7 @@ export interface ValidationJobResponse {
   id: string
   fileName: string
   uploadDate: string
-  status: 'PROCESSANDO' | 'CONCLUIDO' | 'FALHOU'
+  status: 'NA_FILA' | 'PROCESSANDO' | 'CONCLUIDO' | 'FALHOU' | 'CANCELADO'
   campaignTitle: string
   isDryRun: boolean
   totalRows: number
@@ -6,7 +6,7 @@
  * @since 2025-10-21
  */
 
-import { UserRole, UserStatus, CampaignStatus, UnitType } from './index'
+import { UserRole, UserStatus, CampaignStatus, CampaignBudgetAction, UnitType } from './index'
 
 // ==================== AUTH FORMS ====================
 
@@ -83,6 +83,9 @@ export interface CampaignForm {
   endDate: string
   pointsOnCompletion: number
   managerPointsPercentage: number
+  budgetTotal?: number | null
+  budgetPerSeller?: number | null
+  budgetExhaustedAction?: CampaignBudgetAction
   goalRequirements: Array<{
     description: string
     quantity: number
@@ -98,6 +101,9 @@ export interface CampaignUpdateForm {
   endDate?: string
   pointsOnCompletion?: number
   managerPointsPercentage?: number
+  budgetTotal?: number | null
+  budgetPerSeller?: number | null
+  budgetExhaustedAction?: CampaignBudgetAction
   status?: CampaignStatus
 }
 
@@ -32,7 +32,9 @@ export enum CampaignSubmissionStatus {
 
 export enum EarningStatus {
   PENDENTE = 'PENDENTE',
-  PAGO = 'PAGO'
+  PAGO = 'PAGO',
+  CANCELADO = 'CANCELADO',
+  ESTORNADO = 'ESTORNADO'
 }
 
 export enum EarningType {
@@ -65,8 +67,18 @@ export interface User {
   createdAt: string
   updatedAt: string
   lastLoginAt?: string
+  emailVerifiedAt?: string | null
+  pixKeyType?: PixKeyType | null
+  pixKey?: string | null
+  payeeType?: PayeeType
+  payeeCnpj?: string | null
+  payeeCompanyName?: string | null
 }
 
+export type PixKeyType = 'CPF' | 'CNPJ' | 'EMAIL' | 'TELEFONE' | 'ALEATORIA'
+
+export type PayeeType = 'PESSOA_FISICA' | 'PESSOA_JURIDICA'
+
 // ==================== CAMPAIGN TYPES ====================
 export interface Campaign {
   id: string
@@ -78,12 +90,56 @@ export interface Campaign {
   status: CampaignStatus
   pointsOnCompletion: number
   managerPointsPercentage: number
+  budgetTotal?: number | null
+  budgetPerSeller?: number | null
+  budgetExhaustedAction?: CampaignBudgetAction
   goalRequirements: GoalRequirement[]
   userProgress?: number
   createdAt: string
   updatedAt: string
 }
 
+export type CampaignBudgetAction = 'STOP' | 'QUEUE_FOR_APPROVAL'
+
+export type BudgetHoldStatus = 'PENDENTE' | 'APROVADO' | 'REJEITADO'
+
+export interface CampaignBudgetStatus {
+  budgetTotal: number | null
+  budgetPerSeller: number | null
+  exhaustedAction: CampaignBudgetAction
+  committedAmount: number
+  paidAmount: number
+  pendingAmount: number
+  remainingAmount: number | null
+  utilization: number | null
+  heldAmount: number
+  heldCount: number
+  sellersAtCap: number
+  exhausted: boolean
+  warningSentAt: string | null
+  exhaustedAt: string | null
+}
+
+export interface CampaignBudgetHold {
+  id: string
+  campaignId: string
+  submissionId: string
+  userId: string
+  status: BudgetHoldStatus
+  reason: string
+  totalAmount: number
+  decidedById?: string | null
+  decidedAt?: string | null
+  decisionNote?: string | null
+  createdAt: string
+  submission: {
+    orderNumber: string
+    quantity: number
+    submissionDate: string
+    user: { id: string; name: string }
+  }
+}
+
 export interface GoalRequirement {
   id: string
   description: string
@@ -118,22 +174,329 @@ export interface Earning {
   id: string
   type: EarningType
   amount: number
+  withheldAmount?: number | null
+  netAmount?: number | null
   status: EarningStatus
   description?: string
   campaignId: string
+  campaignTitle: string
   campaign?: Campaign
+  kitId?: string
   userId: string
+  userName: string
+  userAvatarUrl?: string
+  sourceUserName?: string | null
   user?: User
-  submissionId?: string
+  submissionId?: string | null
+  earningDate: string
   paidAt?: string
   paidBy?: string
   paymentMethod?: string
   paymentReference?: string
+  paymentId?: string | null
+  payment?: EarningPayment | null
+  payoutBatchId?: string | null
+  ledgerEntries?: EarningLedgerEntry[]
   notes?: string
   createdAt: string
   updatedAt: string
 }
 
+export interface EarningLedgerEntry {
+  id: string
+  fromStatus: EarningStatus | null
+  toStatus: EarningStatus
+  amount: number
+  reason: string | null
+  actorId: string | null
+  actorName: string | null
+  metadata?: Record<string, any> | null
+  createdAt: string
+}
+
+export type PaymentMethod = 'bank_transfer' | 'pix' | 'check' | 'cash' | 'other'
+
+export type PaymentAttachmentType = 'receipt' | 'transfer_proof' | 'other'
+
+export interface EarningPaymentAttachment {
+  id: string
+  filename: string
+  type: PaymentAttachmentType
+  mimetype?: string | null
+  size?: number | null
+  url?: string | null
+  downloadUrl?: string
+  createdAt?: string
+}
+
+export interface EarningPayment {
+  id: string
+  method: PaymentMethod
+  paidAt: string
+  reference: string
+  notes?: string | null
+  totalAmount: number
+  withheldAmount: number
+  netAmount: number
+  invoiceNumber?: string | null
+  paidById?: string | null
+  createdAt: string
+  earnings?: Array<{
+    id: string
+    userId: string
+    userName: string
+    campaignTitle: string
+    amount: number
+    withheldAmount: number
+    netAmount: number
+  }>
+  attachments: EarningPaymentAttachment[]
+}
+
+export interface WithholdingRule {
+  id: string
+  name: string
+  code: string
+  role: UserRole | null
+  payeeType: PayeeType | null
+  rate: number
+  minimumBase: number
+  maximumAmount: number | null
+  isActive: boolean
+  description?: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface WithholdingRuleFormData {
+  name: string
+  code: string
+  role?: UserRole | null
+  payeeType?: PayeeType | null
+  rate: number
+  minimumBase?: number
+  maximumAmount?: number | null
+  isActive?: boolean
+  description?: string | null
+}
+
+export type PayoutBatchStatus = 'GERADO' | 'CONFIRMADO' | 'CANCELADO'
+
+export interface PayoutBatchItem {
+  id: string
+  userId: string
+  userName: string
+  userCpf: string
+  pixKeyType: PixKeyType
+  pixKey: string
+  amount: number
+  grossAmount?: number | null
+  withheldAmount: number
+  earningCount: number
+}
+
+export interface PayoutBatch {
+  id: string
+  code: string
+  status: PayoutBatchStatus
+  totalAmount: number
+  itemCount: number
+  earningCount: number
+  notes?: string | null
+  createdById?: string | null
+  confirmedAt?: string | null
+  cancelledAt?: string | null
+  paymentId?: string | null
+  createdAt: string
+  items?: PayoutBatchItem[]
+  earnings?: Array<{
+    id: string
+    userId: string
+    campaignTitle: string
+    amount: number
+    status: EarningStatus
+    earningDate: string
+  }>
+}
+
+export interface PayoutBatchSkippedUser {
+  userId: string
+  userName: string
+  earningCount: number
+  amount: number
+  reason: string
+}
+
+export type FinancialReportGroupBy = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+export interface FinancialReportBucket {
+  key: string
+  label: string
+  count: number
+  totalAmount: number
+  paidAmount: number
+  withheldAmount: number
+  netPaidAmount: number
+  pendingAmount: number
+  cancelledAmount: number
+  reversedAmount: number
+  sellerAmount: number
+  managerAmount: number
+}
+
+export interface FinancialReportDetail {
+  id: string
+  earningDate: string
+  type: EarningType
+  status: EarningStatus
+  amount: number
+  withheldAmount: number | null
+  netAmount: number | null
+  userName: string
+  campaignTitle: string
+  opticName: string
+  opticCNPJ: string
+  managerName: string | null
+  paidAt: string | null
+  paymentMethod: string | null
+  paymentReference: string | null
+}
+
+export interface FinancialReport {
+  period: {
+    startDate: string
+    endDate: string
+    groupBy: string
+    periodUnit: FinancialReportGroupBy
+  }
+  summary: {
+    totalEarnings: number
+    totalAmount: number
+    pendingAmount: number
+    paidAmount: number
+    withheldAmount: number
+    netPaidAmount: number
+    cancelledAmount: number
+    reversedAmount: number
+    averageEarning: number
+    byType: Record<string, number>
+    byStatus: Record<string, number>
+    byPeriod: Array<{ period: string; amount: number; count: number }>
+  }
+  breakdown: {
+    byPeriod: FinancialReportBucket[]
+    byCampaign: FinancialReportBucket[]
+    byOptic: FinancialReportBucket[]
+    byManager: FinancialReportBucket[]
+    byUser: FinancialReportBucket[]
+    byType: FinancialReportBucket[]
+  }
+  details?: FinancialReportDetail[]
+  scope: 'global' | 'team'
+  generatedAt: string
+}
+
+export interface ProjectionAmounts {
+  expected: number
+  low: number
+  high: number
+  sellerAmount: number
+  managerAmount: number
+}
+
+export interface CampaignProjection extends ProjectionAmounts {
+  campaignId: string
+  title: string
+  endDate: string
+  daysRemaining: number
+  openKits: number
+  activeSellers: number
+  expectedKitCompletions: number
+  approvalRate: number
+  pendingPipeline: number
+  requirements: Array<{
+    requirementId: string
+    description: string
+    quantity: number
+    dailyPace: number
+  }>
+}
+
+export interface EarningProjection {
+  projectionPeriod: 'week' | 'month' | 'quarter' | 'year'
+  basePeriod: 'last_week' | 'last_month' | 'last_quarter' | 'last_year' | 'ytd'
+  confidenceLevel: number
+  baseWindow: { startDate: string; endDate: string }
+  horizon: { startDate: string; endDate: string | null }
+  totals: ProjectionAmounts & { pendingPipeline: number }
+  periods: Array<ProjectionAmounts & { key: string; label: string }>
+  campaigns?: CampaignProjection[]
+  scope: 'global' | 'team'
+  generatedAt: string
+}
+
+// ==================== POINT LOT TYPES ====================
+export type PointLotSource =
+  | 'KIT_COMPLETION'
+  | 'RULE_BONUS'
+  | 'MANUAL_ADJUSTMENT'
+  | 'LEGACY_BALANCE'
+  | 'REDEMPTION_REFUND'
+
+export interface PointLot {
+  id: string
+  userId: string
+  source: PointLotSource
+  sourceLabel: string
+  points: number
+  remainingPoints: number
+  earnedAt: string
+  expiresAt: string | null
+  earningId: string | null
+  description: string | null
+  warningSentAt: string | null
+}
+
+export interface UserPointLots {
+  userId: string
+  balance: number
+  availablePoints: number
+  expiringPoints: number
+  nextExpiry: string | null
+  validityMonths: number
+  warningDays: number
+  lots: PointLot[]
+}
+
+// ==================== POINT LEDGER TYPES ====================
+export type PointTransactionType =
+  | 'OPENING_BALANCE'
+  | 'KIT_COMPLETION'
+  | 'RULE_BONUS'
+  | 'MANUAL_ADJUSTMENT'
+  | 'REDEMPTION'
+  | 'EARNING_REVERSAL'
+  | 'EXPIRATION'
+  | 'REDEMPTION_REFUND'
+
+export type PointTransactionSource = 'EARNING' | 'PREMIO_REDEMPTION' | 'POINT_LOT'
+
+export interface PointTransaction {
+  id: string
+  userId: string
+  type: PointTransactionType
+  typeLabel: string
+  amount: number
+  balanceAfter: number
+  sourceType: PointTransactionSource | null
+  sourceId: string | null
+  description: string | null
+  actorId: string | null
+  actorName: string | null
+  metadata: Record<string, any> | null
+  createdAt: string
+}
+
 // ==================== PREMIO TYPES ====================
 export interface Premio {
   id: string
@@ -145,6 +508,157 @@ export interface Premio {
   category: string
   priority?: number
   isActive: boolean
+  originalPointsRequired?: number
+  priceWindow?: PremioPriceWindowSummary | null
+  variants?: PremioVariant[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface PremioVariant {
+  id: string
+  premioId: string
+  name: string
+  sku: string
+  attributes: Record<string, string> | null
+  pointsDelta: number
+  pointsRequired?: number
+  stock: number
+  isActive: boolean
+  sortOrder: number
+  createdAt: string
+  updatedAt: string
+}
+
+export type StockReservationStatus = 'ATIVA' | 'CONSUMIDA' | 'LIBERADA' | 'EXPIRADA'
+
+export interface PremioStockReservation {
+  id: string
+  premioId: string
+  variantId: string | null
+  status: StockReservationStatus
+  expiresAt: string
+}
+
+export interface PremioWishlistItem {
+  id: string
+  premioId: string
+  premio: Premio
+  pointsRequired: number
+  pointsToGo: number
+  progress: number
+  inStock: boolean
+  canRedeem: boolean
+  estimatedDate: string | null
+  createdAt: string
+}
+
+export interface PremioWishlist {
+  userId: string
+  points: number
+  dailyPace: number
+  paceWindowDays: number
+  items: PremioWishlistItem[]
+}
+
+export interface WishlistDemandEntry {
+  premioId: string
+  title: string
+  imageUrl: string
+  category: string | null
+  isActive: boolean
+  stock: number
+  pointsRequired: number
+  wishlistCount: number
+  affordableCount: number
+  stockShortfall: number
+}
+
+export type PremioSeason =
+  | 'spring'
+  | 'summer'
+  | 'autumn'
+  | 'winter'
+  | 'christmas'
+  | 'easter'
+  | 'mothers_day'
+  | 'fathers_day'
+  | 'black_friday'
+
+export interface PremioPriceWindowSummary {
+  id: string
+  season: PremioSeason
+  label: string | null
+  multiplier: number
+  startDate: string
+  endDate: string
+}
+
+export interface PremioPriceWindow extends PremioPriceWindowSummary {
+  premioId: string
+  seasonLabel: string
+  isCurrent: boolean
+  createdById: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type RedemptionStatus = 'SOLICITADO' | 'APROVADO' | 'ENVIADO' | 'ENTREGUE' | 'CANCELADO'
+
+export interface RedemptionDeliveryAddress {
+  street?: string
+  city?: string
+  state?: string
+  zipCode?: string
+  country?: string
+}
+
+export interface PremioRedemptionEvent {
+  id: string
+  redemptionId: string
+  fromStatus: RedemptionStatus | null
+  toStatus: RedemptionStatus
+  note: string | null
+  actorId: string | null
+  actorName: string | null
+  createdAt: string
+}
+
+export interface PremioRedemption {
+  id: string
+  premioId: string
+  userId: string
+  pointsRedeemed: number
+  variantId: string | null
+  variantName: string | null
+  status: RedemptionStatus
+  deliveryAddress: RedemptionDeliveryAddress | null
+  notes: string | null
+  trackingCode: string | null
+  carrier: string | null
+  cancelReason: string | null
+  approvedAt: string | null
+  shippedAt: string | null
+  deliveredAt: string | null
+  cancelledAt: string | null
+  createdAt: string
+  updatedAt: string
+  premio?: Pick<Premio, 'id' | 'title' | 'imageUrl' | 'pointsRequired'>
+  user?: Pick<User, 'id' | 'name' | 'email' | 'whatsapp' | 'opticName'>
+  events?: PremioRedemptionEvent[]
+}
+
+// ==================== NOTIFICATION TYPES ====================
+export type NotificationType = 'success' | 'error' | 'warning' | 'info' | 'premio'
+
+export interface Notification {
+  id: string
+  userId: string
+  title: string
+  message: string
+  isRead: boolean
+  type?: NotificationType | null
+  metadata?: Record<string, any> | null
   createdAt: string
   updatedAt: string
 }
@@ -176,6 +690,9 @@ export interface CampaignForm {
   endDate: string
   pointsOnCompletion: number
   managerPointsPercentage: number
+  budgetTotal?: number | null
+  budgetPerSeller?: number | null
+  budgetExhaustedAction?: CampaignBudgetAction
   goalRequirements: Array<{
     description: string
     quantity: number
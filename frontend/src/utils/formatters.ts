@@ -8,6 +8,7 @@
 
 import { format, formatDistanceToNow, isValid, parseISO } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
+import { formatMoney, parseMoney } from '@shared/money'
 
 // ==================== FORMATAÇÃO DE DOCUMENTOS ====================
 
@@ -72,10 +73,7 @@ export const unformatPhone = (phone: string): string => {
  * Formata valor monetário brasileiro
  */
 export const formatCurrency = (value: number): string => {
-  return new Intl.NumberFormat('pt-BR', {
-    style: 'currency',
-    currency: 'BRL',
-  }).format(value)
+  return formatMoney(value)
 }
 
 /**
@@ -97,10 +95,10 @@ export const formatPercent = (value: number, decimals: number = 1): string => {
 }
 
 /**
- * Converte string monetária para número
+ * Converte string monetária (pt-BR ou internacional) para número com 2 casas
  */
 export const parseCurrency = (value: string): number => {
-  return parseFloat(value.replace(/[^\d,-]/g, '').replace(',', '.')) || 0
+  return parseMoney(value) ?? 0
 }
 
 // ==================== FORMATAÇÃO DE DATAS ====================
@@ -6,7 +6,7 @@
  * @since 2025-10-21
  */
 
-import { defineConfig } from 'vite'
+import { defineConfig, searchForWorkspaceRoot } from 'vite'
 import react from '@vitejs/plugin-react'
 import { resolve } from 'path'
 
@@ -37,6 +37,8 @@ export default defineConfig({
       '@/lib': resolve(__dirname, 'src/lib'),
       '@/utils': resolve(__dirname, 'src/utils'),
       '@/assets': resolve(__dirname, 'src/assets'),
+      // Módulos puros compartilhados com o backend (ex.: dinheiro em centavos)
+      '@shared': resolve(__dirname, '../shared'),
       '@/styles': resolve(__dirname, 'src/styles'),
     }
   },
@@ -47,6 +49,10 @@ export default defineConfig({
     host: true,
     open: true,
     cors: true,
+    // Além do projeto, serve apenas os módulos compartilhados de ../shared
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), resolve(__dirname, '../shared')],
+    },
     proxy: {
       // Proxy para API em desenvolvimento
       '/api': {
@@ -83,6 +83,8 @@ export default defineConfig({
       '@/lib': resolve(__dirname, 'src/lib'),
       '@/utils': resolve(__dirname, 'src/utils'),
       '@/assets': resolve(__dirname, 'src/assets'),
+      // Módulos puros compartilhados com o backend (ex.: dinheiro em centavos)
+      '@shared': resolve(__dirname, '../shared'),
       '@/styles': resolve(__dirname, 'src/styles'),
     }
   }
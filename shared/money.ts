@@ -0,0 +1,276 @@
+/**
+ * @file money.ts
+ * @version 2.0.0
+ * @description Utilitários de valores monetários e pontos com aritmética em centavos inteiros.
+ * Módulo único compartilhado: o backend o expõe em backend/src/utils/money.ts e o
+ * frontend o importa como @shared/money, para que ambos arredondem e formatem igual.
+ * Sem dependências, para compilar nos dois projetos.
+ * @author DevEPS
+ * @since 2025-10-21
+ *
+ * @changelog
+ * - Conversão segura de number, string e Prisma.Decimal para centavos
+ * - Arredondamento half-up consistente para valores e pontos
+ * - Percentual (divisão gerente/vendedor) e rateio por maior resto sem perda de centavos
+ * - Leitura de valores em formato brasileiro ("R$ 1.234,56")
+ */
+
+// ==================== TIPOS ====================
+
+/**
+ * Valor aceito pelas funções de dinheiro: number, string numérica ou
+ * qualquer objeto decimal (Prisma.Decimal) que serialize com toString().
+ */
+export type MoneyInput = number | string | { toString(): string } | null | undefined;
+
+/** Casas decimais de valores monetários e de pontos */
+export const MONEY_DECIMALS = 2;
+
+const CENTS_FACTOR = 100;
+
+// ==================== LEITURA ====================
+
+/**
+ * Converte um número em formato brasileiro ("1.234,56", "R$ 350,00") ou
+ * internacional ("1234.56") para number. Retorna null se não for numérico.
+ */
+export const parseBrazilianNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (value === null || value === undefined) return null;
+
+  let text = String(value).trim();
+  if (!text) return null;
+
+  // Negativos: "-10,00", "10,00-" ou contábil "(10,00)"
+  const isNegative = /^-|-$/.test(text) || /^\(.*\)$/.test(text);
+
+  text = text.replace(/[^0-9.,]/g, '');
+  if (!/\d/.test(text)) return null;
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  if (lastComma >= 0 && lastDot >= 0) {
+    // Ambos presentes: o último separador é o decimal
+    const decimalSeparator = lastComma > lastDot ? ',' : '.';
+    const thousandsSeparator = decimalSeparator === ',' ? '.' : ',';
+    text = text.split(thousandsSeparator).join('').replace(decimalSeparator, '.');
+  } else if (lastComma >= 0) {
+    // Apenas vírgula: decimal, exceto se repetida ("1,234,567")
+    text = text.split(',').length > 2 ? text.replace(/,/g, '') : text.replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(text)) {
+    // Apenas pontos em grupos de 3 dígitos: separador de milhar ("1.234")
+    text = text.replace(/\./g, '');
+  }
+
+  const parsed = parseFloat(text);
+  if (isNaN(parsed)) return null;
+
+  return isNegative ? -parsed : parsed;
+};
+
+// ==================== CONVERSÃO ====================
+
+/**
+ * Divide inteiro por inteiro arredondando a metade para longe do zero.
+ */
+const divideHalfUp = (dividend: bigint, divisor: bigint): bigint => {
+  const negative = (dividend < 0n) !== (divisor < 0n);
+  const absDividend = dividend < 0n ? -dividend : dividend;
+  const absDivisor = divisor < 0n ? -divisor : divisor;
+
+  let quotient = absDividend / absDivisor;
+  if ((absDividend % absDivisor) * 2n >= absDivisor) quotient += 1n;
+
+  return negative ? -quotient : quotient;
+};
+
+/**
+ * Normaliza a entrada para string decimal ("-1234.5678"), sem notação exponencial.
+ * Strings em formato brasileiro são aceitas.
+ */
+const toDecimalString = (value: MoneyInput): string | null => {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    const text = String(value);
+    return /e/i.test(text)
+      ? value.toLocaleString('en-US', { useGrouping: false, maximumFractionDigits: 20 })
+      : text;
+  }
+
+  const text = typeof value === 'string' ? value.trim() : value.toString();
+  if (/^-?\d+(\.\d+)?$/.test(text)) return text;
+  if (/^-?\d+(\.\d+)?e[+-]?\d+$/i.test(text)) return toDecimalString(Number(text));
+
+  const parsed = parseBrazilianNumber(text);
+  return parsed === null ? null : toDecimalString(parsed);
+};
+
+/**
+ * Converte para centavos inteiros (half-up). Valores inválidos viram 0.
+ *
+ * Usa a representação decimal do valor, então 1.005 vira 101 centavos
+ * (e não 100, como em Math.round(1.005 * 100)).
+ */
+export const toCents = (value: MoneyInput): number => {
+  const text = toDecimalString(value);
+  if (!text) return 0;
+
+  const negative = text.startsWith('-');
+  const [integerPart, fractionPart = ''] = text.replace('-', '').split('.');
+  const scaled = BigInt(integerPart + fractionPart.padEnd(MONEY_DECIMALS, '0').slice(0, MONEY_DECIMALS));
+  const nextDigit = Number(fractionPart.charAt(MONEY_DECIMALS) || '0');
+  const cents = Number(scaled + (nextDigit >= 5 ? 1n : 0n));
+
+  return negative && cents !== 0 ? -cents : cents;
+};
+
+/**
+ * Converte centavos inteiros de volta para o valor em reais.
+ */
+export const fromCents = (cents: number): number => Math.round(cents) / CENTS_FACTOR;
+
+/**
+ * Converte qualquer entrada (inclusive Prisma.Decimal) para number com 2 casas.
+ */
+export const toMoney = (value: MoneyInput): number => fromCents(toCents(value));
+
+/**
+ * Igual a toMoney, preservando null/undefined como null.
+ */
+export const toMoneyOrNull = (value: MoneyInput): number | null =>
+  value === null || value === undefined ? null : toMoney(value);
+
+/**
+ * Arredonda valor monetário para 2 casas (half-up).
+ */
+export const roundMoney = (value: MoneyInput): number => toMoney(value);
+
+/**
+ * Arredonda pontos para 2 casas (mesma escala dos valores de earning).
+ */
+export const roundPoints = (value: MoneyInput): number => toMoney(value);
+
+/**
+ * Lê valor digitado ou importado (pt-BR ou internacional). Retorna null se não for numérico.
+ */
+export const parseMoney = (value: unknown): number | null => {
+  const parsed = parseBrazilianNumber(value);
+  return parsed === null ? null : toMoney(parsed);
+};
+
+/**
+ * Indica se o texto é apenas um número ("1.234,56", "R$ 10", "(5,00)"), e não texto com dígitos.
+ */
+export const isNumericText = (value: string): boolean =>
+  /^\(?-?\s*(R\$)?\s*-?[\d.,]*\d[\d.,]*\s*-?\)?$/i.test(value.trim());
+
+// ==================== ARITMÉTICA ====================
+
+/**
+ * Soma valores em centavos, sem acumular erro de ponto flutuante.
+ */
+export const sumMoney = (values: MoneyInput[]): number =>
+  fromCents(values.reduce<number>((total, value) => total + toCents(value), 0));
+
+/**
+ * Subtrai valores em centavos (a - b).
+ */
+export const subtractMoney = (a: MoneyInput, b: MoneyInput): number =>
+  fromCents(toCents(a) - toCents(b));
+
+/**
+ * Representa um fator decimal como inteiro escalado (1.25 → 125 / 100).
+ */
+const toScaledFactor = (factor: MoneyInput): { scaled: bigint; scale: bigint } | null => {
+  const text = toDecimalString(factor);
+  if (!text) return null;
+
+  const [integerPart, fractionPart = ''] = text.replace('-', '').split('.');
+  const scaled = BigInt(integerPart + fractionPart);
+
+  return {
+    scaled: text.startsWith('-') ? -scaled : scaled,
+    scale: 10n ** BigInt(fractionPart.length),
+  };
+};
+
+/**
+ * Multiplica valor por fator (quantidade, taxa) arredondando o resultado half-up.
+ */
+export const multiplyMoney = (value: MoneyInput, factor: MoneyInput): number => {
+  const scaledFactor = toScaledFactor(factor);
+  if (!scaledFactor) return 0;
+
+  return fromCents(Number(divideHalfUp(BigInt(toCents(value)) * scaledFactor.scaled, scaledFactor.scale)));
+};
+
+/**
+ * Calcula percentual de um valor (ex.: pontos do gerente sobre os do vendedor),
+ * com um único arredondamento half-up no resultado final.
+ */
+export const percentOf = (value: MoneyInput, percentage: MoneyInput): number => {
+  const scaledPercentage = toScaledFactor(percentage);
+  if (!scaledPercentage) return 0;
+
+  return fromCents(Number(divideHalfUp(
+    BigInt(toCents(value)) * scaledPercentage.scaled,
+    scaledPercentage.scale * 100n
+  )));
+};
+
+/**
+ * Rateia um total entre partes proporcionalmente aos pesos (método do maior resto).
+ * A soma das partes é sempre exatamente igual ao total.
+ */
+export const allocateMoney = (total: MoneyInput, weights: MoneyInput[]): number[] => {
+  if (weights.length === 0) return [];
+
+  const totalCents = BigInt(toCents(total));
+  const weightCents = weights.map(weight => BigInt(Math.max(0, toCents(weight))));
+  const weightSum = weightCents.reduce((sum, weight) => sum + weight, 0n);
+
+  if (weightSum === 0n) {
+    return weights.map((_, index) => (index === 0 ? fromCents(Number(totalCents)) : 0));
+  }
+
+  const shares = weightCents.map(weight => (totalCents * weight) / weightSum);
+  const remainders = weightCents.map((weight, index) => ({
+    index,
+    remainder: (totalCents * weight) % weightSum,
+  }));
+
+  let leftover = totalCents - shares.reduce((sum, share) => sum + share, 0n);
+  const step = leftover < 0n ? -1n : 1n;
+
+  remainders
+    .sort((a, b) => {
+      const diff = step > 0n ? b.remainder - a.remainder : a.remainder - b.remainder;
+      return diff === 0n ? a.index - b.index : diff > 0n ? 1 : -1;
+    })
+    .forEach(({ index }) => {
+      if (leftover === 0n) return;
+      shares[index] += step;
+      leftover -= step;
+    });
+
+  return shares.map(share => fromCents(Number(share)));
+};
+
+// ==================== FORMATAÇÃO ====================
+
+/**
+ * Formata valor em reais ("R$ 1.234,56") após arredondar em centavos.
+ */
+export const formatMoney = (value: MoneyInput, options?: { showSymbol?: boolean }): string => {
+  const { showSymbol = true } = options || {};
+
+  return new Intl.NumberFormat('pt-BR', {
+    style: showSymbol ? 'currency' : 'decimal',
+    currency: 'BRL',
+    minimumFractionDigits: MONEY_DECIMALS,
+    maximumFractionDigits: MONEY_DECIMALS,
+  }).format(toMoney(value));
+};